@@ -20,28 +20,10 @@ import {
 import { getTool, getAllTools, formatToolsForAPI } from './tools/registry.js';
 import { getDDAgentSystemPrompt } from './prompts.js';
 import { ChromeBrowserBridge, getBrowserBridge } from './browser-bridge.js';
+import { completeLLM, type LLMResult } from '../llm/client.js';
 
-const KIMI_API_URL = 'https://api.moonshot.ai/v1/chat/completions';
-const KIMI_MODEL = process.env.KIMI_MODEL || 'kimi-k2';
 const MAX_ITERATIONS = 50;
 
-interface KimiResponse {
-  id: string;
-  choices: Array<{
-    message: {
-      role: string;
-      content: string | null;
-      tool_calls?: FunctionCall[];
-    };
-    finish_reason: string;
-  }>;
-  usage?: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
-}
-
 export class DDOwlAgent {
   private tools: Tool[];
   private conversationHistory: Message[] = [];
@@ -101,27 +83,21 @@ export class DDOwlAgent {
 
       // ReAct loop
       while (this.conversationHistory.length < MAX_ITERATIONS * 2) {
-        // Call Kimi
+        // Call the agent model (Kimi by default)
         const response = await this.callKimi();
-
-        if (!response.choices || response.choices.length === 0) {
-          throw new Error('No response from Kimi');
-        }
-
-        const choice = response.choices[0];
-        const message = choice.message;
+        const toolCalls = response.toolCalls as FunctionCall[] | undefined;
 
         // Add assistant message to history
         this.conversationHistory.push({
           role: 'assistant',
-          content: message.content,
-          tool_calls: message.tool_calls,
+          content: response.text || null,
+          tool_calls: toolCalls,
         });
 
         // Check if there are tool calls
-        if (message.tool_calls && message.tool_calls.length > 0) {
+        if (toolCalls && toolCalls.length > 0) {
           // Execute each tool call
-          for (const toolCall of message.tool_calls) {
+          for (const toolCall of toolCalls) {
             toolCallCount++;
             const result = await this.executeTool(toolCall);
 
@@ -143,7 +119,7 @@ export class DDOwlAgent {
 
           return {
             success: true,
-            response: message.content || '',
+            response: response.text,
             data: {
               affiliations: this.agentState.affiliations,
               companyDetails: Object.fromEntries(this.agentState.companyDetails),
@@ -154,7 +130,7 @@ export class DDOwlAgent {
         }
 
         // Check for stop conditions
-        if (choice.finish_reason === 'stop' && !message.tool_calls) {
+        if (response.finishReason === 'stop' && !toolCalls) {
           break;
         }
       }
@@ -183,35 +159,17 @@ export class DDOwlAgent {
   }
 
   /**
-   * Call Kimi API
+   * Call the agent model with the conversation so far and the tool list
    */
-  private async callKimi(): Promise<KimiResponse> {
-    const apiKey = process.env.KIMI_API_KEY;
-    if (!apiKey) {
-      throw new Error('KIMI_API_KEY environment variable not set');
-    }
-
-    const response = await fetch(KIMI_API_URL, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: KIMI_MODEL,
-        messages: this.conversationHistory,
-        tools: formatToolsForAPI(this.tools),
-        tool_choice: 'auto',
-        temperature: 0.1,
-      }),
+  private async callKimi(): Promise<LLMResult> {
+    return completeLLM({
+      operation: 'agent',
+      messages: this.conversationHistory,
+      tools: formatToolsForAPI(this.tools),
+      toolChoice: 'auto',
+      temperature: 0.1,
+      timeout: 120000,
     });
-
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`Kimi API error: ${response.status} - ${error}`);
-    }
-
-    return await response.json();
   }
 
   /**
@@ -283,30 +241,8 @@ export class DDOwlAgent {
    * Simple Kimi call for tools that need LLM (like translation)
    */
   private async callKimiSimple(prompt: string): Promise<string> {
-    const apiKey = process.env.KIMI_API_KEY;
-    if (!apiKey) {
-      throw new Error('KIMI_API_KEY not set');
-    }
-
-    const response = await fetch(KIMI_API_URL, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'kimi-k2', // Use K2 for simple tasks
-        messages: [{ role: 'user', content: prompt }],
-        temperature: 0.1,
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Kimi API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    return data.choices[0]?.message?.content || '';
+    const response = await completeLLM({ operation: 'agent', prompt, temperature: 0.1, timeout: 60000 });
+    return response.text;
   }
 
   /**
@@ -1,10 +1,14 @@
 import axios, { AxiosResponse } from 'axios';
-import * as cheerio from 'cheerio';
-import iconv from 'iconv-lite';
 import puppeteer, { Browser } from 'puppeteer';
-import { SearchResult, AnalyzedResult } from './types.js';
+import { SearchResult, AnalyzedResult, SubjectProfile, ProfileFact } from './types.js';
 import { detectCategory } from './searchStrings.js';
 import { validateClaims, buildNarrativeFromClaims, ValidatedClaim } from './quoteValidator.js';
+import { completeLLM } from './llm/client.js';
+import { hasLLMProvider } from './llm/providers.js';
+import { withFixture } from './replay/fixtures.js';
+import { decodeBody } from './extraction/charset.js';
+import { publishedLine } from './extraction/dates.js';
+import { extractArticle, extractPaginatedArticle } from './extraction/extractor.js';
 
 // ============================================================
 // URL VALIDATION TYPES (Quality Layer 2)
@@ -112,17 +116,6 @@ function hasQualityContent(text: string): boolean {
   return false;
 }
 
-// LLM Configuration - supports DeepSeek (preferred) or Kimi fallback
-const DEEPSEEK_API_KEY = process.env.DEEPSEEK_API_KEY || '';
-const KIMI_API_KEY = process.env.KIMI_API_KEY || '';
-
-// Use DeepSeek if available, otherwise fall back to Kimi
-const LLM_API_KEY = DEEPSEEK_API_KEY || KIMI_API_KEY;
-const LLM_URL = DEEPSEEK_API_KEY
-  ? 'https://api.deepseek.com/v1/chat/completions'
-  : 'https://api.moonshot.ai/v1/chat/completions';
-const LLM_MODEL = DEEPSEEK_API_KEY ? 'deepseek-chat' : (process.env.KIMI_MODEL || 'kimi-k2');
-
 // Shared browser instance for Puppeteer fallback
 let browser: Browser | null = null;
 
@@ -164,61 +157,53 @@ export async function closeBrowser(): Promise<void> {
   }
 }
 
-// Detect encoding from HTML content or headers
-function detectEncoding(html: Buffer, contentType?: string): string {
-  // Check Content-Type header
-  if (contentType) {
-    const match = contentType.match(/charset=([^\s;]+)/i);
-    if (match) return match[1].toLowerCase();
-  }
+// Screenings currently using the shared browser; the last one out closes it
+let browserUsers = 0;
 
-  // Check HTML meta tags
-  const htmlStr = html.toString('ascii');
-
-  // <meta charset="xxx">
-  const charsetMatch = htmlStr.match(/<meta[^>]+charset=["']?([^"'\s>]+)/i);
-  if (charsetMatch) return charsetMatch[1].toLowerCase();
+/** Register a screening that may fetch through the shared browser (pair with releaseBrowser) */
+export function retainBrowser(): void {
+  browserUsers++;
+}
 
-  // <meta http-equiv="Content-Type" content="text/html; charset=xxx">
-  const contentTypeMatch = htmlStr.match(/content=["'][^"']*charset=([^"'\s;]+)/i);
-  if (contentTypeMatch) return contentTypeMatch[1].toLowerCase();
+/** End a screening's use of the shared browser, closing it once no other screening needs it */
+export async function releaseBrowser(): Promise<void> {
+  browserUsers = Math.max(browserUsers - 1, 0);
+  if (browserUsers === 0) await closeBrowser();
+}
 
-  // Default to UTF-8
-  return 'utf-8';
+// Raw GET shared by the analysis fetch and evidence capture
+function requestPage(url: string, timeoutMs?: number, signal?: AbortSignal): Promise<AxiosResponse> {
+  return axios.get(url, {
+    timeout: timeoutMs || 15000,
+    maxContentLength: 5 * 1024 * 1024, // 5MB max — prevents OOM on large files
+    headers: {
+      'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+      'Accept-Language': 'zh-CN,zh;q=0.9,en;q=0.8',
+      'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+    },
+    maxRedirects: 5,
+    responseType: 'arraybuffer', // Get raw bytes
+    validateStatus: (status) => status < 500, // Accept redirects and client errors for logging
+    signal,
+  });
 }
 
-// Normalize encoding names
-function normalizeEncoding(encoding: string): string {
-  const map: Record<string, string> = {
-    'gb2312': 'gbk',
-    'gb_2312': 'gbk',
-    'gb-2312': 'gbk',
-    'gbk': 'gbk',
-    'gb18030': 'gb18030',
-    'big5': 'big5',
-    'utf8': 'utf-8',
-    'utf-8': 'utf-8',
-  };
-  return map[encoding.toLowerCase()] || 'utf-8';
+// Next pages of a multi-page article: same fetch, no validation beyond the status code
+async function fetchNextPage(url: string, signal?: AbortSignal): Promise<string | null> {
+  try {
+    const response = await requestPage(url, undefined, signal);
+    if (response.status >= 400) return null;
+    return decodeBody(Buffer.from(response.data), response.headers['content-type']);
+  } catch {
+    return null;
+  }
 }
 
 // Fast fetch with axios (with proper encoding handling and validation)
 async function fetchWithAxios(url: string, timeoutMs?: number, signal?: AbortSignal): Promise<FetchValidationResult> {
   let response: AxiosResponse;
   try {
-    response = await axios.get(url, {
-      timeout: timeoutMs || 15000,
-      maxContentLength: 5 * 1024 * 1024, // 5MB max — prevents OOM on large files
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-        'Accept-Language': 'zh-CN,zh;q=0.9,en;q=0.8',
-        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-      },
-      maxRedirects: 5,
-      responseType: 'arraybuffer', // Get raw bytes
-      validateStatus: (status) => status < 500, // Accept redirects and client errors for logging
-      signal,
-    });
+    response = await requestPage(url, timeoutMs, signal);
   } catch (error: any) {
     // Network errors, timeouts, etc.
     return {
@@ -256,20 +241,8 @@ async function fetchWithAxios(url: string, timeoutMs?: number, signal?: AbortSig
     // URL parsing error - continue with content
   }
 
-  const buffer = Buffer.from(response.data);
-  const contentType = response.headers['content-type'];
-
-  // Detect and decode with correct encoding
-  const detectedEncoding = detectEncoding(buffer, contentType);
-  const encoding = normalizeEncoding(detectedEncoding);
-
-  let html: string;
-  try {
-    html = iconv.decode(buffer, encoding);
-  } catch {
-    // Fallback to UTF-8
-    html = buffer.toString('utf-8');
-  }
+  // Sniff the charset — Chinese portals often declare it wrongly or not at all
+  const html = decodeBody(Buffer.from(response.data), response.headers['content-type']);
 
   // Check for parking page
   if (isParkingPage(html)) {
@@ -280,9 +253,11 @@ async function fetchWithAxios(url: string, timeoutMs?: number, signal?: AbortSig
     };
   }
 
-  const $ = cheerio.load(html);
-  $('script, style, nav, footer, header, aside, .ad, .advertisement').remove();
-  const text = $('body').text().replace(/\s+/g, ' ').trim().slice(0, 8000);
+  // Main article content only (per-portal extractor or readability scoring), following next-page links.
+  // The metadata date goes on its own line so it survives caching (see extractPublicationDate)
+  const article = await extractPaginatedArticle(html, finalUrl, next => fetchNextPage(next, signal));
+  const published = article.publishedAt ? publishedLine(article.publishedAt) : null;
+  const text = [article.title, published, article.text].filter(Boolean).join('\n\n').slice(0, 8000);
 
   // Check content quality
   if (!hasQualityContent(text)) {
@@ -368,6 +343,10 @@ async function fetchWithPuppeteer(url: string): Promise<string> {
 
 // Hybrid fetch: axios first with validation, Puppeteer fallback
 export async function fetchPageContent(url: string, signal?: AbortSignal): Promise<string> {
+  return withFixture('page', url, url, () => fetchPageContentLive(url, signal));
+}
+
+async function fetchPageContentLive(url: string, signal?: AbortSignal): Promise<string> {
   console.log(`[FETCH] Starting fetch for: ${url}`);
 
   const startTime = Date.now();
@@ -395,6 +374,65 @@ export async function fetchPageContent(url: string, signal?: AbortSignal): Promi
   return axiosResult.content || '';
 }
 
+// ============================================================
+// EVIDENCE CAPTURE (see evidence-store.ts)
+// ============================================================
+
+export interface PageCapture {
+  body: Buffer;         // Response bytes exactly as served
+  contentType: string;
+  text: string;         // Visible text, untruncated (empty for non-HTML bodies)
+  statusCode: number;
+  finalUrl: string;     // After redirects
+  fetchedAt: string;
+}
+
+/**
+ * Fetch a page for archival. Unlike fetchPageContent this keeps the raw body and skips the
+ * quality checks — a parked or thin page is still what the source looked like. Null when the
+ * page could not be fetched or returned an HTTP error.
+ */
+export async function capturePage(url: string, signal?: AbortSignal): Promise<PageCapture | null> {
+  const fetchedAt = new Date().toISOString();
+  let response: AxiosResponse;
+  try {
+    response = await requestPage(url, 20000, signal);
+  } catch {
+    return null;
+  }
+  if (response.status >= 400) return null;
+
+  const body = Buffer.from(response.data);
+  const contentType = String(response.headers['content-type'] || 'application/octet-stream');
+  const isText = /html|text|xml/i.test(contentType);
+  const finalUrl = response.request?.res?.responseUrl || response.config?.url || url;
+  return {
+    body,
+    contentType,
+    text: isText ? extractArticle(decodeBody(body, contentType), finalUrl).text : '',
+    statusCode: response.status,
+    finalUrl,
+    fetchedAt,
+  };
+}
+
+// Print a page to PDF with the shared Puppeteer browser
+export async function printPageToPdf(url: string): Promise<Buffer> {
+  await acquirePage();
+  let page;
+  try {
+    const b = await getBrowser();
+    page = await b.newPage();
+    await page.setUserAgent('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36');
+    await page.setExtraHTTPHeaders({ 'Accept-Language': 'zh-CN,zh;q=0.9,en;q=0.8' });
+    await page.goto(url, { waitUntil: 'networkidle2', timeout: 30000 });
+    return Buffer.from(await page.pdf({ format: 'A4', printBackground: true }));
+  } finally {
+    if (page) await page.close().catch(() => {});
+    releasePage();
+  }
+}
+
 // Quick scan for YELLOW result filtering (lightweight pre-analysis)
 export async function quickScan(
   url: string,
@@ -424,25 +462,9 @@ Answer in JSON:
 {"shouldAnalyze": true/false, "reason": "5 words max"}`;
 
   try {
-    const response = await axios.post(
-      LLM_URL,
-      {
-        model: LLM_MODEL,
-        messages: [{ role: 'user', content: prompt }],
-        temperature: 0.1,
-      },
-      {
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${LLM_API_KEY}`,
-        },
-        timeout: 30000,
-      }
-    );
-
-    const rawText = response.data.choices?.[0]?.message?.content || '';
-    const usage = response.data.usage;
-    onLLMCall?.(DEEPSEEK_API_KEY ? 'deepseek' : 'kimi', prompt, rawText, usage);
+    const response = await completeLLM({ operation: 'quickscan', prompt, temperature: 0.1, timeout: 30000 });
+    const rawText = response.text;
+    onLLMCall?.(response.provider, prompt, rawText, response.usage);
 
     // Strip markdown code blocks that DeepSeek wraps around JSON
     const text = rawText.replace(/```json\s*/gi, '').replace(/```/g, '');
@@ -486,7 +508,7 @@ export async function analyzeWithLLM(
     return { isAdverse: false, severity: 'REVIEW', headline: 'Content fetch failed', summary: 'Unable to fetch page content - requires manual review', profileFacts: [], matchConfidence: 'possible' as const, matchReasons: [] };
   }
 
-  if (!LLM_API_KEY) {
+  if (!hasLLMProvider('analysis')) {
     console.error('[ANALYZE FAIL] No LLM API key configured');
     return { isAdverse: false, severity: 'REVIEW', headline: 'LLM not configured', summary: 'LLM API key not configured - requires manual review', profileFacts: [], matchConfidence: 'possible' as const, matchReasons: [] };
   }
@@ -589,31 +611,16 @@ If the article does NOT mention "${subjectName}" or has NO adverse information,
 }`;
 
   try {
-    console.log(`[ANALYZE] Calling LLM (${LLM_MODEL}) with ${truncatedContent.length} chars of content...`);
+    console.log(`[ANALYZE] Calling LLM with ${truncatedContent.length} chars of content...`);
     const llmStart = Date.now();
 
-    const response = await axios.post(
-      LLM_URL,
-      {
-        model: LLM_MODEL,
-        messages: [{ role: 'user', content: prompt }],
-        temperature: 0.1,
-      },
-      {
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${LLM_API_KEY}`,
-        },
-        timeout: 30000,  // 30s timeout
-      }
-    );
+    const response = await completeLLM({ operation: 'analysis', prompt, temperature: 0.1, timeout: 30000 });
 
     const llmTime = Date.now() - llmStart;
-    console.log(`[ANALYZE] ✓ LLM responded in ${llmTime}ms`);
+    console.log(`[ANALYZE] ✓ LLM (${response.model}) responded in ${llmTime}ms`);
 
-    const rawText = response.data.choices?.[0]?.message?.content || '';
-    const usage = response.data.usage;
-    onLLMCall?.(DEEPSEEK_API_KEY ? 'deepseek' : 'kimi', prompt, rawText, usage);
+    const rawText = response.text;
+    onLLMCall?.(response.provider, prompt, rawText, response.usage);
 
     // Strip markdown code blocks that DeepSeek wraps around JSON
     const text = rawText.replace(/```json\s*/gi, '').replace(/```/g, '');
@@ -683,6 +690,65 @@ If the article does NOT mention "${subjectName}" or has NO adverse information,
   }
 }
 
+// Merge profile facts extracted from an article into the running subject profile.
+// Returns the facts that added something new (role, company, or associate).
+export function mergeProfileFacts(
+  profile: SubjectProfile,
+  facts: { field: string; value: string; evidence: string }[],
+  articleUrl: string
+): ProfileFact[] {
+  const updates: ProfileFact[] = [];
+
+  for (const fact of facts) {
+    const source: ProfileFact = {
+      field: fact.field,
+      value: fact.value,
+      articleUrl,
+      snippet: fact.evidence,
+    };
+
+    if (fact.field === 'currentRole' && !profile.currentRole && fact.value) {
+      try {
+        const parts = fact.value.match(/(.+?)\s+(?:of|at)\s+(.+)/i);
+        if (parts) {
+          profile.currentRole = { title: parts[1], company: parts[2] };
+          updates.push(source);
+        }
+      } catch {}
+    } else if (fact.field === 'associatedCompany' && fact.value) {
+      if (!profile.associatedCompanies.some(c => c.name === fact.value)) {
+        profile.associatedCompanies.push({ name: fact.value, relationship: 'associated' });
+        updates.push(source);
+      }
+    } else if (fact.field === 'associatedPerson' && fact.value) {
+      if (!profile.associatedPeople.some(p => p.name === fact.value)) {
+        profile.associatedPeople.push({ name: fact.value, relationship: 'associated' });
+        updates.push(source);
+      }
+    } else if (fact.field === 'license' && fact.value) {
+      if (!profile.licenses.includes(fact.value)) {
+        profile.licenses.push(fact.value);
+        updates.push(source);
+      }
+    }
+
+    profile.sources.push(source);
+  }
+
+  // Cap sources to prevent Redis session bloat
+  if (profile.sources.length > 50) {
+    profile.sources = profile.sources.slice(-50);
+  }
+
+  // Update confidence based on corroborating facts
+  const factCount = profile.sources.length;
+  if (factCount >= 5) profile.confidence = 'high';
+  else if (factCount >= 3) profile.confidence = 'medium';
+  profile.lastUpdated = Date.now();
+
+  return updates;
+}
+
 // Full analysis pipeline for a single search result
 export async function analyzeResult(
   result: SearchResult,
@@ -0,0 +1,211 @@
+/**
+ * Bank appointment changes across OC announcement versions
+ *
+ * Each OC announcement parsed for a deal is compared with the appointments the deal holds from
+ * the previous version. Banks that drop off get terminated_date set, newly named banks get
+ * appointed_date, and a change in a bank's most senior role (a bookrunner promoted to
+ * coordinator, a sponsor reduced to coordinator) is recorded as an upgrade or downgrade.
+ * Every change lands in appointment_changes, the movement history per deal and per bank.
+ */
+
+import { pool } from './db/index.js';
+import { normalizeBankName } from './bank-normalizer.js';
+import type { BankAppointment } from './hkex-scraper-v2.js';
+
+export type AppointmentChangeType = 'appointed' | 'terminated' | 'upgraded' | 'downgraded' | 'roles_changed';
+
+// Seniority of the normalized roles; a bank's standing on a deal is its most senior role
+const ROLE_SENIORITY: Record<string, number> = {
+  sponsor: 4,
+  coordinator: 3,
+  bookrunner: 2,
+  leadManager: 1,
+  other: 0,
+};
+
+/** A bank's current (not terminated) appointment on a deal */
+export interface CurrentAppointment {
+  appointmentId: number;
+  bankId: number;
+  bankName: string;
+  roles: string[];
+}
+
+export interface AppointmentChangeDraft {
+  changeType: AppointmentChangeType;
+  bankName: string;
+  previous: CurrentAppointment | null;  // The appointment it changes (null for a new bank)
+  next: BankAppointment | null;         // The bank's entry in the new OC (null when it dropped off)
+  previousRoles: string[];
+  roles: string[];
+}
+
+export interface AppointmentChangeRow {
+  id: number;
+  deal_id: number;
+  bank_id: number;
+  change_type: AppointmentChangeType;
+  previous_roles: string[] | null;
+  roles: string[] | null;
+  effective_date: string | null;
+  source_url: string | null;
+  detected_at: string;
+}
+
+function seniority(roles: string[]): number {
+  return Math.max(-1, ...roles.map(r => ROLE_SENIORITY[r] ?? 0));
+}
+
+const sameRoles = (a: string[], b: string[]) => a.length === b.length && a.every(r => b.includes(r));
+
+// Each bank in the new list with its current appointment, matched on canonical name
+function matchBanks(current: CurrentAppointment[], banks: BankAppointment[]): Map<BankAppointment, CurrentAppointment | null> {
+  const byName = new Map(current.map(a => [normalizeBankName(a.bankName).canonical, a]));
+  return new Map(banks.map(b => [b, byName.get(normalizeBankName(b.bank).canonical) || null]));
+}
+
+/**
+ * Changes between a deal's current appointments and the bank list of a new OC announcement.
+ * Banks are matched on their canonical name, so "X Limited" and "X (Hong Kong) Ltd" in two
+ * versions are the same bank.
+ */
+export function compareAppointments(current: CurrentAppointment[], banks: BankAppointment[]): AppointmentChangeDraft[] {
+  const changes: AppointmentChangeDraft[] = [];
+  const matched = new Set<CurrentAppointment>();
+
+  for (const [bank, previous] of matchBanks(current, banks)) {
+    const roles: string[] = bank.roles;
+    if (!previous) {
+      changes.push({ changeType: 'appointed', bankName: bank.bank, previous: null, next: bank, previousRoles: [], roles });
+      continue;
+    }
+    matched.add(previous);
+    if (sameRoles(previous.roles, roles)) continue;
+
+    const before = seniority(previous.roles);
+    const after = seniority(roles);
+    const changeType = after > before ? 'upgraded' : after < before ? 'downgraded' : 'roles_changed';
+    changes.push({ changeType, bankName: previous.bankName, previous, next: bank, previousRoles: previous.roles, roles });
+  }
+
+  for (const previous of current) {
+    if (matched.has(previous)) continue;
+    changes.push({ changeType: 'terminated', bankName: previous.bankName, previous, next: null, previousRoles: previous.roles, roles: [] });
+  }
+
+  return changes;
+}
+
+async function loadCurrentAppointments(dealId: number): Promise<CurrentAppointment[]> {
+  const result = await pool.query(`
+    SELECT da.id, da.bank_id, b.name, da.roles::text[] AS roles
+    FROM deal_appointments da
+    JOIN banks b ON b.id = da.bank_id
+    WHERE da.deal_id = $1 AND da.terminated_date IS NULL
+  `, [dealId]);
+  return result.rows.map(r => ({ appointmentId: r.id, bankId: r.bank_id, bankName: r.name, roles: r.roles || [] }));
+}
+
+async function upsertBank(name: string): Promise<number> {
+  const { canonical: shortName } = normalizeBankName(name);
+  const result = await pool.query(`
+    INSERT INTO banks (name, short_name)
+    VALUES ($1, $2)
+    ON CONFLICT (name) DO UPDATE SET short_name = COALESCE(banks.short_name, EXCLUDED.short_name), updated_at = NOW()
+    RETURNING id
+  `, [name, shortName]);
+  return result.rows[0].id;
+}
+
+/**
+ * Apply the bank list of an OC announcement to a deal: update matched appointments, add new
+ * banks (reinstating any the deal terminated earlier), terminate banks that dropped off, and
+ * record each change. effectiveDate is the announcement date where known. An empty list is an
+ * unreadable PDF, not every bank resigning, and changes nothing. Returns the changes recorded.
+ */
+export async function applyOcAppointments(
+  dealId: number,
+  banks: BankAppointment[],
+  source: { url: string | null; effectiveDate: string | null },
+): Promise<AppointmentChangeDraft[]> {
+  if (banks.length === 0) return [];
+
+  const current = await loadCurrentAppointments(dealId);
+  const changes = compareAppointments(current, banks);
+  const effectiveDate = source.effectiveDate || new Date().toISOString().slice(0, 10);
+  const changed = new Map(changes.filter(c => c.next).map(c => [c.next!, c]));
+
+  for (const [bank, previous] of matchBanks(current, banks)) {
+    const change = changed.get(bank);
+    let bankId: number;
+
+    if (previous) {
+      bankId = previous.bankId;
+      await pool.query(`
+        UPDATE deal_appointments SET roles = $2::bank_role[], is_lead = $3, source_url = COALESCE($4, source_url)
+        WHERE id = $1
+      `, [previous.appointmentId, bank.roles, bank.isLead, source.url]);
+    } else {
+      bankId = await upsertBank(bank.bank);
+      await pool.query(`
+        INSERT INTO deal_appointments (deal_id, bank_id, roles, is_lead, source_url, appointed_date)
+        VALUES ($1, $2, $3::bank_role[], $4, $5, $6)
+        ON CONFLICT (deal_id, bank_id) DO UPDATE SET
+          roles = EXCLUDED.roles,
+          is_lead = EXCLUDED.is_lead,
+          source_url = EXCLUDED.source_url,
+          appointed_date = CASE WHEN deal_appointments.terminated_date IS NULL
+            THEN COALESCE(deal_appointments.appointed_date, EXCLUDED.appointed_date)
+            ELSE EXCLUDED.appointed_date END,
+          terminated_date = NULL
+      `, [dealId, bankId, bank.roles, bank.isLead, source.url, effectiveDate]);
+    }
+
+    if (change) await recordChange(dealId, bankId, change, effectiveDate, source.url);
+  }
+
+  for (const change of changes.filter(c => c.changeType === 'terminated')) {
+    await pool.query('UPDATE deal_appointments SET terminated_date = $2 WHERE id = $1', [change.previous!.appointmentId, effectiveDate]);
+    await recordChange(dealId, change.previous!.bankId, change, effectiveDate, source.url);
+  }
+
+  return changes;
+}
+
+async function recordChange(dealId: number, bankId: number, change: AppointmentChangeDraft, effectiveDate: string, sourceUrl: string | null): Promise<void> {
+  await pool.query(`
+    INSERT INTO appointment_changes (deal_id, bank_id, change_type, previous_roles, roles, effective_date, source_url)
+    VALUES ($1, $2, $3, $4::bank_role[], $5::bank_role[], $6, $7)
+  `, [dealId, bankId, change.changeType, change.previousRoles, change.roles, effectiveDate, sourceUrl]);
+}
+
+const CHANGE_COLUMNS = `
+  ac.id, ac.deal_id, ac.bank_id, ac.change_type,
+  ac.previous_roles::text[] AS previous_roles, ac.roles::text[] AS roles,
+  TO_CHAR(ac.effective_date, 'YYYY-MM-DD') AS effective_date, ac.source_url, ac.detected_at
+`;
+
+/** A deal's bank movements, newest first, with the bank each concerns */
+export async function listDealMovements(dealId: number): Promise<(AppointmentChangeRow & { bank_name: string; short_name: string | null })[]> {
+  const result = await pool.query(`
+    SELECT ${CHANGE_COLUMNS}, b.name AS bank_name, b.short_name
+    FROM appointment_changes ac
+    JOIN banks b ON b.id = ac.bank_id
+    WHERE ac.deal_id = $1
+    ORDER BY ac.effective_date DESC NULLS LAST, ac.id DESC
+  `, [dealId]);
+  return result.rows;
+}
+
+/** A bank's movements across deals, newest first, with the company each deal is for */
+export async function listBankMovements(bankId: number): Promise<(AppointmentChangeRow & { company_name: string; company_name_cn: string | null })[]> {
+  const result = await pool.query(`
+    SELECT ${CHANGE_COLUMNS}, c.name_en AS company_name, c.name_cn AS company_name_cn
+    FROM appointment_changes ac
+    JOIN deals d ON d.id = ac.deal_id
+    JOIN companies c ON c.id = d.company_id
+    WHERE ac.bank_id = $1
+    ORDER BY ac.effective_date DESC NULLS LAST, ac.id DESC
+  `, [bankId]);
+  return result.rows;
+}
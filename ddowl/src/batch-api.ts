@@ -0,0 +1,127 @@
+import { Router, Request, Response } from 'express';
+import { submitBatch, cancelBatch, retryBatch, getBatchStatus, type BatchSubjectInput } from './batch-runner.js';
+import { getBatch, listBatchIds, deleteBatch } from './session-store.js';
+
+export const batchRouter = Router();
+
+const MAX_BATCH_SUBJECTS = 200;
+
+// POST /api/batch — submit a list of subjects for server-side screening
+batchRouter.post('/', async (req: Request, res: Response) => {
+  try {
+    const { subjects, label, concurrency } = req.body as {
+      subjects?: BatchSubjectInput[];
+      label?: string;
+      concurrency?: number;
+    };
+    if (!Array.isArray(subjects) || subjects.length === 0) {
+      res.status(400).json({ error: 'subjects must be a non-empty array' });
+      return;
+    }
+    if (subjects.length > MAX_BATCH_SUBJECTS) {
+      res.status(400).json({ error: `At most ${MAX_BATCH_SUBJECTS} subjects per batch` });
+      return;
+    }
+    const invalid = subjects.findIndex(s => !s || typeof s.name !== 'string' || s.name.trim().length < 2);
+    if (invalid !== -1) {
+      res.status(400).json({ error: `Subject ${invalid + 1}: name required (2+ chars)` });
+      return;
+    }
+    const badVariations = subjects.findIndex(s =>
+      s.variations !== undefined && (!Array.isArray(s.variations) || s.variations.some(v => typeof v !== 'string')));
+    if (badVariations !== -1) {
+      res.status(400).json({ error: `Subject ${badVariations + 1}: variations must be an array of strings` });
+      return;
+    }
+    // The same name twice would screen the same subject twice
+    const seen = new Set<string>();
+    const duplicate = subjects.findIndex(s => {
+      const key = s.name.trim().toLowerCase();
+      if (seen.has(key)) return true;
+      seen.add(key);
+      return false;
+    });
+    if (duplicate !== -1) {
+      res.status(400).json({ error: `Subject ${duplicate + 1}: "${subjects[duplicate].name.trim()}" is already in this batch` });
+      return;
+    }
+    const batchId = await submitBatch(subjects, { label, concurrency });
+    res.json({ batchId, subjectCount: subjects.length });
+  } catch (err) {
+    console.error('[BATCH API] Error submitting batch:', err);
+    res.status(500).json({ error: 'Failed to submit batch' });
+  }
+});
+
+// GET /api/batch — list batches (most recent first)
+batchRouter.get('/', async (_req: Request, res: Response) => {
+  try {
+    const ids = await listBatchIds();
+    const batches = (await Promise.all(ids.map(id => getBatch(id))))
+      .filter(b => b !== null)
+      .sort((a, b) => b!.createdAt - a!.createdAt);
+    res.json({ batches });
+  } catch (err) {
+    console.error('[BATCH API] Error listing batches:', err);
+    res.status(500).json({ error: 'Failed to list batches' });
+  }
+});
+
+// GET /api/batch/:id — batch with per-subject progress
+batchRouter.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const status = await getBatchStatus(req.params.id);
+    if (!status) {
+      res.status(404).json({ error: 'Batch not found' });
+      return;
+    }
+    res.json(status);
+  } catch (err) {
+    console.error('[BATCH API] Error getting batch:', err);
+    res.status(500).json({ error: 'Failed to get batch' });
+  }
+});
+
+// POST /api/batch/:id/cancel — stop queued and running subjects
+batchRouter.post('/:id/cancel', async (req: Request, res: Response) => {
+  try {
+    const cancelled = await cancelBatch(req.params.id);
+    if (!cancelled) {
+      res.status(404).json({ error: 'Batch not found' });
+      return;
+    }
+    res.json({ cancelled: true });
+  } catch (err) {
+    console.error('[BATCH API] Error cancelling batch:', err);
+    res.status(500).json({ error: 'Failed to cancel batch' });
+  }
+});
+
+// POST /api/batch/:id/retry — re-queue failed, cancelled and paused subjects
+batchRouter.post('/:id/retry', async (req: Request, res: Response) => {
+  try {
+    const batch = await getBatch(req.params.id);
+    if (!batch) {
+      res.status(404).json({ error: 'Batch not found' });
+      return;
+    }
+    const requeued = await retryBatch(req.params.id);
+    res.json({ requeued });
+  } catch (err) {
+    console.error('[BATCH API] Error retrying batch:', err);
+    res.status(500).json({ error: 'Failed to retry batch' });
+  }
+});
+
+// DELETE /api/batch/:id — cancel (if running) and remove the batch record
+batchRouter.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const batch = await getBatch(req.params.id);
+    if (batch?.status === 'running') await cancelBatch(req.params.id);
+    await deleteBatch(req.params.id);
+    res.json({ success: true });
+  } catch (err) {
+    console.error('[BATCH API] Error deleting batch:', err);
+    res.status(500).json({ error: 'Failed to delete batch' });
+  }
+});
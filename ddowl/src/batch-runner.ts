@@ -0,0 +1,357 @@
+// src/batch-runner.ts
+// Server-side job runner for batch screening: drives /api/screen/v4 for each subject
+// as a loopback SSE client, so runs survive browser disconnects and server restarts.
+
+import http from 'http';
+import {
+  createBatch, getBatch, getBatchSubjects, updateBatch, updateBatchSubject, listBatchIds,
+  getSession, BatchJob, BatchSubject,
+} from './session-store.js';
+
+export interface BatchSubjectInput {
+  name: string;
+  variations?: string[];
+  language?: string;
+  context?: string;
+}
+
+const DEFAULT_CONCURRENCY = parseInt(process.env.BATCH_CONCURRENCY || '2') || 2;
+const MAX_CONCURRENCY = 5;
+const MAX_RECONNECTS = 3;  // Stream dropped without complete/error → reconnect with the same sessionId
+
+// Base URL of this server (set on listen). Subjects are screened by calling our own v4 endpoint,
+// which keeps all phase/resume logic in one place.
+let baseUrl = '';
+
+// In-process state for batches this instance is currently driving
+interface RunningBatch {
+  cancelled: boolean;
+  requests: Map<number, http.ClientRequest>;  // subject index → open SSE request
+}
+const runningBatches = new Map<string, RunningBatch>();
+
+export function initBatchRunner(url: string): void {
+  baseUrl = url.replace(/\/$/, '');
+}
+
+/**
+ * Create a batch and start running it in the background.
+ */
+export async function submitBatch(
+  subjects: BatchSubjectInput[],
+  options: { label?: string; concurrency?: number } = {}
+): Promise<string> {
+  const batchId = `batch-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  const concurrency = Math.min(Math.max(options.concurrency || DEFAULT_CONCURRENCY, 1), MAX_CONCURRENCY);
+  const now = Date.now();
+
+  const batch: BatchJob = {
+    id: batchId,
+    label: options.label,
+    concurrency,
+    status: 'running',
+    subjectCount: subjects.length,
+    createdAt: now,
+    updatedAt: now,
+  };
+  const batchSubjects: BatchSubject[] = subjects.map(s => ({
+    name: s.name.trim(),
+    variations: (s.variations || []).map(v => v.trim()).filter(Boolean),
+    language: s.language || 'chinese',
+    context: s.context || undefined,
+    status: 'queued',
+  }));
+
+  await createBatch(batch, batchSubjects);
+  console.log(`[BATCH] Submitted ${batchId}: ${subjects.length} subjects, concurrency ${concurrency}`);
+
+  runBatch(batchId).catch(err => console.error(`[BATCH] Runner for ${batchId} crashed:`, err));
+  return batchId;
+}
+
+/**
+ * Cancel a batch: stop queued subjects and drop open screening connections.
+ */
+export async function cancelBatch(batchId: string): Promise<boolean> {
+  const batch = await getBatch(batchId);
+  if (!batch) return false;
+
+  const running = runningBatches.get(batchId);
+  if (running) {
+    running.cancelled = true;
+    for (const req of running.requests.values()) req.destroy();
+  }
+
+  const subjects = await getBatchSubjects(batchId);
+  for (let i = 0; i < subjects.length; i++) {
+    if (subjects[i].status === 'queued' || subjects[i].status === 'running' || subjects[i].status === 'paused') {
+      await updateBatchSubject(batchId, i, { status: 'cancelled', completedAt: Date.now() });
+    }
+  }
+  await updateBatch(batchId, { status: 'cancelled' });
+  console.log(`[BATCH] Cancelled ${batchId}`);
+  return true;
+}
+
+/**
+ * Re-queue failed/cancelled/paused subjects and run the batch again.
+ * Subjects keep their sessionId, so v4 resumes them from the last saved phase.
+ */
+export async function retryBatch(batchId: string): Promise<number> {
+  const subjects = await getBatchSubjects(batchId);
+  let requeued = 0;
+  // A live runner picks re-queued subjects up from the store when its own list runs out
+  for (let i = 0; i < subjects.length; i++) {
+    const s = subjects[i];
+    if (s.status === 'failed' || s.status === 'cancelled' || s.status === 'paused') {
+      await updateBatchSubject(batchId, i, { status: 'queued', message: undefined, reconnects: 0, completedAt: undefined });
+      requeued++;
+    }
+  }
+  if (requeued > 0) {
+    await updateBatch(batchId, { status: 'running' });
+    if (!runningBatches.has(batchId)) {
+      runBatch(batchId).catch(err => console.error(`[BATCH] Runner for ${batchId} crashed:`, err));
+    }
+  }
+  return requeued;
+}
+
+/**
+ * On startup: pick up batches that were running when the server stopped.
+ */
+export async function resumeRunningBatches(): Promise<void> {
+  const ids = await listBatchIds();
+  for (const id of ids) {
+    const batch = await getBatch(id);
+    if (!batch || batch.status !== 'running' || runningBatches.has(id)) continue;
+    console.log(`[BATCH] Resuming ${id} after restart`);
+    runBatch(id).catch(err => console.error(`[BATCH] Runner for ${id} crashed:`, err));
+  }
+}
+
+/**
+ * Batch status with each subject's live session phase/progress merged in.
+ */
+export async function getBatchStatus(batchId: string): Promise<{ batch: BatchJob; subjects: (BatchSubject & { sessionPhase?: string })[]; counts: Record<string, number> } | null> {
+  const batch = await getBatch(batchId);
+  if (!batch) return null;
+
+  const subjects = await getBatchSubjects(batchId);
+  const withPhase = await Promise.all(subjects.map(async s => {
+    if (!s.sessionId || s.status !== 'running') return s;
+    const session = await getSession(s.sessionId);
+    return { ...s, sessionPhase: session?.currentPhase };
+  }));
+
+  const counts: Record<string, number> = { queued: 0, running: 0, paused: 0, complete: 0, failed: 0, cancelled: 0 };
+  for (const s of subjects) counts[s.status] = (counts[s.status] || 0) + 1;
+
+  return { batch, subjects: withPhase, counts };
+}
+
+// ============================================================
+// RUNNER
+// ============================================================
+
+async function runBatch(batchId: string): Promise<void> {
+  if (runningBatches.has(batchId)) return;
+  const batch = await getBatch(batchId);
+  if (!batch) return;
+
+  const state: RunningBatch = { cancelled: false, requests: new Map() };
+  runningBatches.set(batchId, state);
+
+  try {
+    let subjects = await getBatchSubjects(batchId);
+    // Subjects left 'running' by a previous process are resumed via their sessionId
+    const pending = subjects
+      .map((s, i) => ({ s, i }))
+      .filter(({ s }) => s.status === 'queued' || s.status === 'running')
+      .map(({ i }) => i);
+    const active = new Set<number>();
+
+    console.log(`[BATCH] Running ${batchId}: ${pending.length}/${subjects.length} subjects pending`);
+
+    // Next subject to run; when the list runs out, subjects re-queued by retryBatch meanwhile
+    const takeNext = async (): Promise<number | undefined> => {
+      if (pending.length === 0) {
+        subjects = await getBatchSubjects(batchId);
+        subjects.forEach((s, i) => {
+          if (s.status === 'queued' && !active.has(i) && !pending.includes(i)) pending.push(i);
+        });
+      }
+      while (pending.length > 0) {
+        const index = pending.shift()!;
+        if (!active.has(index)) return index;
+      }
+      return undefined;
+    };
+
+    const worker = async () => {
+      while (!state.cancelled) {
+        const index = await takeNext();
+        if (index === undefined) return;
+        active.add(index);
+        try {
+          await runSubject(batchId, index, subjects[index], state);
+        } finally {
+          active.delete(index);
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: batch.concurrency }, worker));
+
+    if (!state.cancelled) {
+      const final = await getBatchSubjects(batchId);
+      if (final.some(s => s.status === 'queued')) {
+        // Re-queued after the last worker checked: run again rather than strand them
+        runningBatches.delete(batchId);
+        return runBatch(batchId);
+      }
+      if (final.some(s => s.status === 'running')) return;
+      // Paused subjects are still to be screened, so the batch is not complete until they resume
+      if (final.some(s => s.status === 'paused')) {
+        await updateBatch(batchId, { status: 'paused' });
+        console.log(`[BATCH] ${batchId} paused: ${final.filter(s => s.status === 'paused').length} subjects paused`);
+      } else {
+        await updateBatch(batchId, { status: 'complete' });
+        const failed = final.filter(s => s.status === 'failed').length;
+        console.log(`[BATCH] ${batchId} complete: ${final.length - failed} ok, ${failed} failed`);
+      }
+    }
+  } finally {
+    runningBatches.delete(batchId);
+  }
+}
+
+async function runSubject(batchId: string, index: number, subject: BatchSubject, state: RunningBatch): Promise<void> {
+  let sessionId = subject.sessionId;
+  let reconnects = subject.reconnects || 0;
+
+  await updateBatchSubject(batchId, index, { status: 'running', startedAt: subject.startedAt || Date.now() });
+
+  while (!state.cancelled) {
+    const outcome = await streamScreening(batchId, subject, sessionId, state, index, async (event) => {
+      if (event.type === 'session' && event.sessionId && event.sessionId !== sessionId) {
+        sessionId = event.sessionId;
+        await updateBatchSubject(batchId, index, { sessionId });
+      } else if (event.type === 'phase') {
+        await updateBatchSubject(batchId, index, { phase: String(event.name || event.phase), message: event.message });
+      }
+    });
+
+    if (state.cancelled) return;
+
+    if (outcome.kind === 'complete') {
+      const session = sessionId ? await getSession(sessionId) : null;
+      const findingsCount = Array.isArray(outcome.event.findings)
+        ? outcome.event.findings.length
+        : (session?.consolidatedFindings?.length ?? session?.findings?.length ?? 0);
+      await updateBatchSubject(batchId, index, {
+        status: 'complete', phase: 'complete', message: undefined, findingsCount, completedAt: Date.now(),
+      });
+      console.log(`[BATCH] ${batchId} [${index + 1}] "${subject.name}" complete (${findingsCount} findings)`);
+      return;
+    }
+
+    if (outcome.kind === 'paused') {
+      await updateBatchSubject(batchId, index, { status: 'paused', message: 'Paused by user' });
+      return;
+    }
+
+    if (outcome.kind === 'error') {
+      await updateBatchSubject(batchId, index, { status: 'failed', message: outcome.message, completedAt: Date.now() });
+      console.error(`[BATCH] ${batchId} [${index + 1}] "${subject.name}" failed: ${outcome.message}`);
+      return;
+    }
+
+    // Stream ended without a terminal event — reconnect and let v4 resume from the session
+    reconnects++;
+    if (reconnects > MAX_RECONNECTS || !sessionId) {
+      await updateBatchSubject(batchId, index, {
+        status: 'failed', message: `Connection lost (${outcome.message})`, reconnects, completedAt: Date.now(),
+      });
+      console.error(`[BATCH] ${batchId} [${index + 1}] "${subject.name}" gave up after ${reconnects - 1} reconnects`);
+      return;
+    }
+    await updateBatchSubject(batchId, index, { reconnects });
+    console.log(`[BATCH] ${batchId} [${index + 1}] "${subject.name}" stream dropped, reconnect ${reconnects}/${MAX_RECONNECTS}`);
+    await new Promise(r => setTimeout(r, 2000 * reconnects));
+  }
+}
+
+type StreamOutcome =
+  | { kind: 'complete'; event: any }
+  | { kind: 'paused' }
+  | { kind: 'error'; message: string }
+  | { kind: 'dropped'; message: string };
+
+/**
+ * Open one SSE connection to /api/screen/v4 and resolve on the first terminal event.
+ */
+function streamScreening(
+  batchId: string,
+  subject: BatchSubject,
+  sessionId: string | undefined,
+  state: RunningBatch,
+  index: number,
+  onEvent: (event: any) => Promise<void>
+): Promise<StreamOutcome> {
+  const params = new URLSearchParams({ name: subject.name, language: subject.language });
+  if (subject.variations.length > 0) params.set('variations', subject.variations.join(','));
+  if (subject.context) params.set('context', subject.context);
+  if (sessionId) params.set('sessionId', sessionId);
+  // Keys the run to this batch subject, so a UI screening of the same name does not cancel it
+  params.set('batchSubject', `${batchId}:${index}`);
+
+  return new Promise(resolve => {
+    let settled = false;
+    let buffer = '';
+    // Serialize event handling so session-store writes land in order
+    let chain = Promise.resolve();
+
+    const finish = (outcome: StreamOutcome) => {
+      if (settled) return;
+      settled = true;
+      state.requests.delete(index);
+      chain.then(() => resolve(outcome));
+    };
+
+    const req = http.get(`${baseUrl}/api/screen/v4?${params.toString()}`, (res) => {
+      if (res.statusCode !== 200) {
+        res.resume();
+        finish({ kind: 'error', message: `HTTP ${res.statusCode}` });
+        return;
+      }
+      res.setEncoding('utf8');
+      res.on('data', (chunk: string) => {
+        buffer += chunk;
+        let sep: number;
+        while ((sep = buffer.indexOf('\n\n')) !== -1) {
+          const block = buffer.slice(0, sep);
+          buffer = buffer.slice(sep + 2);
+          const line = block.split('\n').find(l => l.startsWith('data: '));
+          if (!line) continue;
+
+          let event: any;
+          try {
+            event = JSON.parse(line.slice(6));
+          } catch {
+            continue;
+          }
+          if (event.type === 'heartbeat') continue;
+
+          chain = chain.then(() => onEvent(event)).catch(err => console.error('[BATCH] Event handler error:', err));
+          if (event.type === 'complete') finish({ kind: 'complete', event });
+          else if (event.type === 'paused') finish({ kind: 'paused' });
+          else if (event.type === 'error') finish({ kind: 'error', message: event.message || 'Screening failed' });
+        }
+      });
+      res.on('end', () => finish({ kind: 'dropped', message: 'stream ended' }));
+      res.on('error', (err) => finish({ kind: 'dropped', message: err.message }));
+    });
+    req.on('error', (err) => finish({ kind: 'dropped', message: err.message }));
+    state.requests.set(index, req);
+  });
+}
@@ -0,0 +1,303 @@
+#!/usr/bin/env node
+/**
+ * DD Owl command-line client — runs the v4 screening pipeline headless
+ *
+ * Usage:
+ *   ddowl screen "<name>" [options]
+ *   ddowl load-sanctions <file...>
+ *   ddowl load-pep <file...>
+ *   npx tsx src/cli.ts screen "<name>" [options]
+ *
+ * Options:
+ *   --variations a,b        Extra name variations (main name always included)
+ *   --lang chinese,english  Search languages (default: chinese)
+ *   --context "..."         Analyst context to disambiguate the subject
+ *   --out report.md         Output path (default: <name>-<date>.md in the current directory)
+ *   --format md,docx,json   Formats to write next to --out (default: from the --out extension)
+ *   --sanctions             Also screen against the loaded sanctions lists
+ *   --no-litigation         Skip the court judgment / enforcement record searches
+ *   --verbose               Show pipeline logs as well as progress
+ *
+ * Writes the report in each requested format plus <out>.funnel.json (the funnel snapshot).
+ *
+ * load-sanctions parses OFAC SDN / UN / EU XML and UK HMT / HKMA CSV list files and replaces
+ * the corresponding list in the database.
+ *
+ * load-pep loads PEP dataset CSV/JSON files; each file replaces the dataset named after it.
+ */
+
+import 'dotenv/config';
+import fs from 'fs';
+import path from 'path';
+import { ScreeningEngine } from './engine/engine.js';
+import { createMemoryStore } from './engine/store.js';
+import { generateFullReport } from './reportGenerator.js';
+import { renderScreeningDocx } from './screening-docx.js';
+import { closeBrowser } from './analyzer.js';
+import { initSanctionsDb } from './sanctions-db.js';
+import { loadSanctionsFile } from './sanctions.js';
+import { initPepDb } from './pep-db.js';
+import { loadPEPFile } from './pep.js';
+import type { FunnelSnapshot } from './types.js';
+
+const FORMATS = ['md', 'docx', 'json'] as const;
+type OutputFormat = typeof FORMATS[number];
+
+interface ScreenArgs {
+  name: string;
+  variations: string[];
+  languages: string[];
+  context: string;
+  out: string;
+  formats: OutputFormat[];
+  sanctions: boolean;
+  litigation: boolean;
+  verbose: boolean;
+}
+
+function usage(): never {
+  console.error('Usage: ddowl screen "<name>" [--variations a,b] [--lang chinese,english] [--context "..."] [--out report.md] [--format md,docx,json] [--sanctions] [--no-litigation] [--verbose]');
+  console.error('       ddowl load-sanctions <file...>');
+  console.error('       ddowl load-pep <file...>');
+  process.exit(1);
+}
+
+function parseScreenArgs(argv: string[]): ScreenArgs {
+  const flags: Record<string, string> = {};
+  const positional: string[] = [];
+  let verbose = false;
+  let sanctions = false;
+  let litigation = true;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--verbose') {
+      verbose = true;
+    } else if (arg === '--sanctions') {
+      sanctions = true;
+    } else if (arg === '--no-litigation') {
+      litigation = false;
+    } else if (arg.startsWith('--')) {
+      const value = argv[i + 1];
+      if (value === undefined || value.startsWith('--')) usage();
+      flags[arg.slice(2)] = value;
+      i++;
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  const name = positional[0]?.trim();
+  if (!name || name.length < 2) usage();
+
+  const list = (value: string | undefined) => (value || '').split(',').map(v => v.trim()).filter(Boolean);
+  const languages = list(flags.lang || 'chinese');
+  // Backward compat with the web UI: 'both' → ['chinese', 'english']
+  if (languages.length === 1 && languages[0] === 'both') languages.splice(0, 1, 'chinese', 'english');
+
+  const safeName = name.replace(/[^a-zA-Z0-9\u4e00-\u9fa5]/g, '_');
+  const out = flags.out || `${safeName}-${new Date().toISOString().slice(0, 10)}.md`;
+  const outExt = path.extname(out).slice(1);
+  const formats = list(flags.format || (FORMATS.includes(outExt as OutputFormat) ? outExt : 'md'));
+  for (const f of formats) {
+    if (!FORMATS.includes(f as OutputFormat)) {
+      console.error(`Unknown format "${f}" (expected ${FORMATS.join(', ')})`);
+      process.exit(1);
+    }
+  }
+
+  return {
+    name,
+    variations: list(flags.variations),
+    languages,
+    context: flags.context || '',
+    out,
+    formats: formats as OutputFormat[],
+    sanctions,
+    litigation,
+    verbose,
+  };
+}
+
+// One progress line per event worth showing in a terminal; null for the rest
+function formatProgress(event: any): string | null {
+  switch (event.type) {
+    case 'phase':
+      return `▸ ${event.name}: ${event.message}`;
+    case 'search_progress':
+      return `  query ${event.queryIndex}/${event.totalQueries}: ${event.resultsFound} results (${event.totalSoFar} total)`;
+    case 'history_loaded':
+      return `  ${event.reportCount} earlier report(s): ${event.confirmed} confirmed, ${event.wrong} wrong, ${event.missed} missed`;
+    case 'gather_complete':
+      return `  gathered ${event.totalResults} results`;
+    case 'programmatic_elimination_complete':
+      return `  ${event.before} → ${event.after} after programmatic filters`;
+    case 'title_dedupe_complete':
+      return `  ${event.before} → ${event.after} after title dedupe`;
+    case 'incident_clusters':
+      return `  ${event.totalClusters} incident clusters, ${event.articlesToAnalyze} to analyze, ${event.articlesParked} parked`;
+    case 'categorize_complete':
+      return `  RED ${event.red} / AMBER ${event.amber} / GREEN ${event.green}`;
+    case 'analyze_start':
+      return `  [${event.index}/${event.total}] ${event.title}`;
+    case 'analyze_result':
+      return event.isAdverse ? `    ⚠ ${event.severity}: ${event.headline}` : null;
+    case 'eliminate_complete':
+      return `  ${event.before} → ${event.after} consolidated findings`;
+    case 'finding_memory':
+      return `  ${event.previouslyReported} previously reported, ${event.previouslyWrong} previously wrong (${event.demoted} demoted)`;
+    case 'evidence_archived':
+      return `  archived ${event.archived} cited sources${event.failed ? ` (${event.failed} unavailable)` : ''}`;
+    case 'litigation_complete':
+      return `  ${event.cases} court cases${event.dishonestDebtor ? ' (incl. dishonest debtor listing)' : ''}`;
+    case 'pep_complete':
+      return `  PEP status: ${event.status}${event.tier ? ` (Tier ${event.tier})` : ''}`;
+    case 'sanctions_complete':
+      return `  ${event.hits.length} potential sanctions matches across ${event.lists} lists`;
+    case 'complete':
+      return `✓ Screening complete: ${event.findings?.length ?? 0} findings`;
+    case 'error':
+      return `✗ ${event.message}`;
+    default:
+      return null;
+  }
+}
+
+async function screen(args: ScreenArgs): Promise<void> {
+  const log = console.log.bind(console);
+  if (!args.verbose) {
+    // Pipeline modules log liberally — keep the terminal to progress lines
+    console.log = () => {};
+    console.warn = () => {};
+  }
+
+  const abortController = new AbortController();
+  process.on('SIGINT', () => {
+    log('\nAborting...');
+    abortController.abort();
+  });
+
+  const engine = new ScreeningEngine({
+    subjectName: args.name,
+    nameVariations: args.variations,
+    languages: args.languages,
+    language: args.languages.join(','),
+    context: args.context,
+    sanctions: args.sanctions,
+    litigation: args.litigation,
+  }, {
+    store: createMemoryStore(),
+    signal: abortController.signal,
+    funnel: true,
+    host: {
+      emit: (event) => {
+        const line = formatProgress(event);
+        if (line) log(line);
+      },
+    },
+  });
+
+  log(`DD Owl screening: ${args.name} (${args.languages.join(', ')})`);
+  const outcome = await engine.run();
+  await closeBrowser();
+  if (outcome !== 'complete') {
+    throw new Error('Screening did not complete');
+  }
+
+  const { state } = engine;
+  const { tracker, nameVariations, funnelPhases } = engine.context;
+  const metrics = tracker.finalize();
+  const findings = state.consolidated;
+  const base = args.out.slice(0, args.out.length - path.extname(args.out).length);
+  fs.mkdirSync(path.dirname(path.resolve(args.out)), { recursive: true });
+  const written: string[] = [];
+
+  let reportText = '';
+  if (args.formats.includes('md') || args.formats.includes('docx')) {
+    log('▸ REPORT: Writing up findings...');
+    await generateFullReport(args.name, findings, state.cleanResults, nameVariations, chunk => { reportText += chunk; }, { litigation: state.litigation, pep: state.pep, sanctions: state.sanctions });
+  }
+
+  for (const format of args.formats) {
+    const file = `${base}.${format}`;
+    if (format === 'md') {
+      fs.writeFileSync(file, `# ${args.name}\n\n${reportText}\n`);
+    } else if (format === 'docx') {
+      fs.writeFileSync(file, await renderScreeningDocx({
+        subjectName: args.name,
+        screenedAt: metrics.startTime,
+        reportText,
+        nameVariations,
+        findings,
+      }));
+    } else {
+      fs.writeFileSync(file, JSON.stringify({
+        subject: args.name,
+        nameVariations,
+        context: args.context || undefined,
+        findings,
+        cleanResults: state.cleanResults,
+        profile: state.profile,
+        litigation: state.litigation || undefined,
+        pep: state.pep || undefined,
+        sanctions: state.sanctions || undefined,
+        metrics,
+      }, null, 2));
+    }
+    written.push(file);
+  }
+
+  const snapshot: FunnelSnapshot = {
+    subject: args.name,
+    runId: metrics.runId,
+    timestamp: new Date().toISOString(),
+    phases: funnelPhases || [],
+  };
+  fs.writeFileSync(`${base}.funnel.json`, JSON.stringify(snapshot, null, 2));
+  written.push(`${base}.funnel.json`);
+
+  log(`\n${findings.length} findings, ${metrics.queriesExecuted} queries, $${metrics.totalCostUSD.toFixed(4)} in ${((metrics.durationMs || 0) / 60000).toFixed(1)} min`);
+  for (const file of written) log(`  wrote ${file}`);
+}
+
+async function loadSanctions(files: string[]): Promise<void> {
+  if (files.length === 0) usage();
+  await initSanctionsDb();
+  for (const file of files) {
+    const { source, entryCount } = await loadSanctionsFile(file);
+    console.log(`${file}: ${entryCount} ${source} entries`);
+  }
+}
+
+async function loadPEP(files: string[]): Promise<void> {
+  if (files.length === 0) usage();
+  await initPepDb();
+  for (const file of files) {
+    const { dataset, entryCount } = await loadPEPFile(file);
+    console.log(`${file}: ${entryCount} entries in dataset ${dataset}`);
+  }
+}
+
+async function main() {
+  const [command, ...rest] = process.argv.slice(2);
+  switch (command) {
+    case 'screen':
+      await screen(parseScreenArgs(rest));
+      break;
+    case 'load-sanctions':
+      await loadSanctions(rest);
+      break;
+    case 'load-pep':
+      await loadPEP(rest);
+      break;
+    default:
+      usage();
+  }
+  // Redis/Postgres clients keep the event loop alive
+  process.exit(0);
+}
+
+main().catch(err => {
+  console.error('ddowl failed:', err);
+  process.exit(1);
+});
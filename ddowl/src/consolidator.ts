@@ -1,13 +1,9 @@
 // src/consolidator.ts
 // Consolidates duplicate findings about the same incident
 
-import axios from 'axios';
 import { FindingFingerprint, RawFinding, ConsolidatedFinding } from './types.js';
-
-// LLM Configuration (same as triage.ts)
-const KIMI_API_KEY = process.env.KIMI_API_KEY || '';
-const DEEPSEEK_API_KEY = process.env.DEEPSEEK_API_KEY || '';
-const GEMINI_API_KEY = process.env.GEMINI_API_KEY || '';
+import { completeLLM } from './llm/client.js';
+import { findingDates } from './timeline.js';
 
 // Event type patterns for classification
 const EVENT_TYPE_PATTERNS: { type: string; patterns: RegExp[] }[] = [
@@ -611,6 +607,14 @@ function getHighestSeverity(findings: RawFinding[]): 'RED' | 'AMBER' {
   return findings.some(f => f.severity === 'RED') ? 'RED' : 'AMBER';
 }
 
+/**
+ * Get the strongest subject-match confidence from a group
+ */
+function getStrongestMatchConfidence(findings: RawFinding[]): 'strong' | 'possible' | 'weak' | undefined {
+  const order = ['strong', 'possible', 'weak'] as const;
+  return order.find(level => findings.some(f => f.matchConfidence === level));
+}
+
 /**
  * Pick the best finding from a cluster — no LLM re-synthesis.
  * Selection: (1) highest severity, (2) not fetchFailed, (3) longest summary.
@@ -648,6 +652,7 @@ function pickBestFinding(findings: RawFinding[]): ConsolidatedFinding {
     clusterLabel: best.clusterLabel,
     articleContents: articleContents.length > 0 ? articleContents : undefined,
     snippetBased: isSnippetBased,
+    matchConfidence: getStrongestMatchConfidence(findings),
   };
 }
 
@@ -687,51 +692,26 @@ Return JSON only:
   "dateRange": "YYYY or YYYY-YYYY"
 }`;
 
-  // Try LLM providers in order
-  const providers = [
-    { name: 'DeepSeek', url: 'https://api.deepseek.com/v1/chat/completions', key: DEEPSEEK_API_KEY, model: 'deepseek-chat' },
-  ].filter(p => p.key);
-
-  for (const provider of providers) {
-    try {
-      console.log(`[CONSOLIDATE] Trying ${provider.name} (${provider.model})...`);
-      const response = await axios.post(
-        provider.url,
-        {
-          model: provider.model,
-          messages: [{ role: 'user', content: prompt }],
-          temperature: 0.1,
-        },
-        {
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${provider.key}`,
-          },
-          timeout: 60000,
-        }
-      );
-
-      const rawText = response.data.choices?.[0]?.message?.content || '';
-      const text = rawText.replace(/```json\s*/gi, '').replace(/```/g, '');
-      const jsonMatch = text.match(/\{[\s\S]*\}/);
-
-      if (jsonMatch) {
-        console.log(`[CONSOLIDATE] ✓ ${provider.name} succeeded`);
-        const parsed = JSON.parse(jsonMatch[0]);
-        return {
-          headline: parsed.headline || findings[0].headline,
-          summary: parsed.summary || findings[0].summary,
-          severity: getHighestSeverity(findings),
-          eventType: parsed.eventType || 'other',
-          dateRange: parsed.dateRange || '',
-          sourceCount: findings.length,
-          sources: findings.map(f => ({ url: f.url, title: f.title }))
-        };
-      }
-    } catch (error: any) {
-      console.log(`[CONSOLIDATE] ✗ ${provider.name} failed: ${error.message || error}`);
-      continue;
+  try {
+    const response = await completeLLM({ operation: 'consolidation', prompt, temperature: 0.1, timeout: 60000 });
+    const text = response.text.replace(/```json\s*/gi, '').replace(/```/g, '');
+    const jsonMatch = text.match(/\{[\s\S]*\}/);
+
+    if (jsonMatch) {
+      console.log(`[CONSOLIDATE] ✓ ${response.providerName} succeeded`);
+      const parsed = JSON.parse(jsonMatch[0]);
+      return {
+        headline: parsed.headline || findings[0].headline,
+        summary: parsed.summary || findings[0].summary,
+        severity: getHighestSeverity(findings),
+        eventType: parsed.eventType || 'other',
+        dateRange: parsed.dateRange || '',
+        sourceCount: findings.length,
+        sources: findings.map(f => ({ url: f.url, title: f.title }))
+      };
     }
+  } catch (error: any) {
+    console.log(`[CONSOLIDATE] ✗ LLM failed: ${error.message || error}`);
   }
 
   // Fallback: use first finding's details
@@ -849,6 +829,7 @@ export async function consolidateFindings(
         clusterLabel: f.clusterLabel,
         articleContents: f.articleContent ? [{ url: f.url, content: f.articleContent }] : undefined,
         snippetBased: f.fetchFailed || f.snippetBased || false,
+        matchConfidence: f.matchConfidence,
         relatedLinks: parkedSources.length > 0 ? parkedSources : undefined,
       });
     } else {
@@ -862,6 +843,10 @@ export async function consolidateFindings(
       }
       consolidated.push(merged);
     }
+
+    // Reported range covers the parked duplicates too — they are coverage of the same incident
+    const finding = consolidated[consolidated.length - 1];
+    finding.dates = findingDates(`${finding.headline} ${finding.summary}`, [...groupWithFp, ...parkedSources]);
   }
 
   // Sort by severity (RED first) then by source count (more sources = more credible)
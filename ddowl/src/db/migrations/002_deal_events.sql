@@ -0,0 +1,22 @@
+-- Migration 002: Deal Events
+-- History of changes the HKEX watcher detects on each deal (see hkex-watcher.ts)
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS deal_events (
+  id SERIAL PRIMARY KEY,
+  deal_id INTEGER REFERENCES deals(id) NOT NULL,
+  event_type VARCHAR(30) NOT NULL,  -- new_filing, refiling, oc_new, oc_replaced, sponsor_change, lapsed, withdrawn, rejected, returned, listed
+  event_date DATE,                  -- when it happened, if known
+  detail JSONB,
+  source_url VARCHAR(500),
+  detected_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS deal_events_deal_idx ON deal_events(deal_id);
+CREATE INDEX IF NOT EXISTS deal_events_detected_idx ON deal_events(detected_at);
+
+-- OC PDFs are looked up by hash to spot documents replaced in place
+CREATE INDEX IF NOT EXISTS oc_hash_idx ON oc_announcements(pdf_hash);
+
+COMMIT;
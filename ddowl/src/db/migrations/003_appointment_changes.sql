@@ -0,0 +1,21 @@
+-- Migration 003: Appointment Changes
+-- Bank movements between OC announcement versions (see appointment-changes.ts)
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS appointment_changes (
+  id SERIAL PRIMARY KEY,
+  deal_id INTEGER REFERENCES deals(id) NOT NULL,
+  bank_id INTEGER REFERENCES banks(id) NOT NULL,
+  change_type VARCHAR(20) NOT NULL,  -- appointed, terminated, upgraded, downgraded, roles_changed
+  previous_roles bank_role[],
+  roles bank_role[],
+  effective_date DATE,
+  source_url VARCHAR(500),           -- OC announcement the change was read from
+  detected_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS appointment_changes_deal_idx ON appointment_changes(deal_id);
+CREATE INDEX IF NOT EXISTS appointment_changes_bank_idx ON appointment_changes(bank_id);
+
+COMMIT;
@@ -0,0 +1,56 @@
+-- Migration 004: Prospectus Sections
+-- People, investors and advisers named in a deal's prospectus, its use of proceeds and risk
+-- factors (see prospectus-sections.ts). Re-extracting a deal replaces its rows.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS prospectus_extractions (
+  id SERIAL PRIMARY KEY,
+  deal_id INTEGER REFERENCES deals(id) NOT NULL,
+  source_url VARCHAR(500),            -- prospectus or Application Proof the sections were read from
+  sections_found TEXT[],
+  risk_factor_count INTEGER,
+  extracted_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS prospectus_extractions_deal_idx ON prospectus_extractions(deal_id);
+
+CREATE TABLE IF NOT EXISTS prospectus_parties (
+  id SERIAL PRIMARY KEY,
+  deal_id INTEGER REFERENCES deals(id) NOT NULL,
+  party_type VARCHAR(30) NOT NULL,    -- director, supervisor, senior_management, controlling_shareholder, cornerstone_investor, reporting_accountant, legal_adviser
+  name VARCHAR(300) NOT NULL,
+  name_cn VARCHAR(100),
+  entity_type VARCHAR(10) NOT NULL,   -- person, company
+  position VARCHAR(300),
+  age INTEGER,
+  bio TEXT,
+  commitment VARCHAR(100),
+  commitment_hkdm DECIMAL(12, 2)
+);
+
+CREATE INDEX IF NOT EXISTS prospectus_parties_deal_idx ON prospectus_parties(deal_id);
+CREATE INDEX IF NOT EXISTS prospectus_parties_name_idx ON prospectus_parties(name);
+
+CREATE TABLE IF NOT EXISTS prospectus_proceeds (
+  id SERIAL PRIMARY KEY,
+  deal_id INTEGER REFERENCES deals(id) NOT NULL,
+  position INTEGER NOT NULL,          -- order in the prospectus
+  purpose TEXT NOT NULL,
+  percentage DECIMAL(5, 2),
+  amount_hkdm DECIMAL(12, 2)
+);
+
+CREATE INDEX IF NOT EXISTS prospectus_proceeds_deal_idx ON prospectus_proceeds(deal_id);
+
+CREATE TABLE IF NOT EXISTS prospectus_risk_factors (
+  id SERIAL PRIMARY KEY,
+  deal_id INTEGER REFERENCES deals(id) NOT NULL,
+  position INTEGER NOT NULL,
+  category VARCHAR(300),
+  heading TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS prospectus_risk_factors_deal_idx ON prospectus_risk_factors(deal_id);
+
+COMMIT;
@@ -0,0 +1,22 @@
+-- Migration 005: Deal Screenings
+-- Subjects screened for an IPO deal (see deal-screening.ts). run_id is the screening session,
+-- which is also the run_id of the dd_reports row it saves.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS deal_screenings (
+  id SERIAL PRIMARY KEY,
+  deal_id INTEGER REFERENCES deals(id) NOT NULL,
+  batch_id VARCHAR(100) NOT NULL,
+  subject_index INTEGER NOT NULL,     -- position in the batch
+  subject_name TEXT NOT NULL,
+  roles TEXT[],                       -- company, director, controlling_shareholder
+  status VARCHAR(20) NOT NULL DEFAULT 'queued',
+  run_id TEXT,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS deal_screenings_deal_idx ON deal_screenings(deal_id);
+CREATE INDEX IF NOT EXISTS deal_screenings_run_idx ON deal_screenings(run_id);
+
+COMMIT;
@@ -4,7 +4,7 @@
  * IPO Tracker Tables + DD Screening Tables
  */
 
-import { pgTable, serial, varchar, text, timestamp, integer, boolean, decimal, date, jsonb, index, pgEnum, doublePrecision } from 'drizzle-orm/pg-core';
+import { pgTable, serial, varchar, text, timestamp, integer, boolean, decimal, date, jsonb, index, uniqueIndex, pgEnum, doublePrecision } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
 
 // ============================================================
@@ -123,6 +123,114 @@ export const ocAnnouncements = pgTable('oc_announcements', {
   dealIdx: index('oc_deal_idx').on(table.dealId),
   dateIdx: index('oc_date_idx').on(table.announcementDate),
   urlIdx: index('oc_url_idx').on(table.pdfUrl),
+  hashIdx: index('oc_hash_idx').on(table.pdfHash),
+}));
+
+/**
+ * Appointment Changes - Bank movements between OC announcement versions
+ */
+export const appointmentChanges = pgTable('appointment_changes', {
+  id: serial('id').primaryKey(),
+  dealId: integer('deal_id').references(() => deals.id).notNull(),
+  bankId: integer('bank_id').references(() => banks.id).notNull(),
+  changeType: varchar('change_type', { length: 20 }).notNull(),  // appointed, terminated, upgraded, downgraded, roles_changed
+  previousRoles: bankRoleEnum('previous_roles').array(),
+  roles: bankRoleEnum('roles').array(),
+  effectiveDate: date('effective_date'),
+  sourceUrl: varchar('source_url', { length: 500 }),  // OC announcement the change was read from
+  detectedAt: timestamp('detected_at').defaultNow(),
+}, (table) => ({
+  dealIdx: index('appointment_changes_deal_idx').on(table.dealId),
+  bankIdx: index('appointment_changes_bank_idx').on(table.bankId),
+}));
+
+/**
+ * Deal Events - Changes detected by the HKEX watcher (filings, OC revisions, sponsor changes, status)
+ */
+export const dealEvents = pgTable('deal_events', {
+  id: serial('id').primaryKey(),
+  dealId: integer('deal_id').references(() => deals.id).notNull(),
+  eventType: varchar('event_type', { length: 30 }).notNull(),
+  eventDate: date('event_date'),  // when it happened, if known
+  detail: jsonb('detail'),
+  sourceUrl: varchar('source_url', { length: 500 }),
+  detectedAt: timestamp('detected_at').defaultNow(),
+}, (table) => ({
+  dealIdx: index('deal_events_deal_idx').on(table.dealId),
+  detectedIdx: index('deal_events_detected_idx').on(table.detectedAt),
+}));
+
+/**
+ * Prospectus Extractions - One per deal: the document its prospectus sections were read from
+ */
+export const prospectusExtractions = pgTable('prospectus_extractions', {
+  id: serial('id').primaryKey(),
+  dealId: integer('deal_id').references(() => deals.id).notNull(),
+  sourceUrl: varchar('source_url', { length: 500 }),
+  sectionsFound: text('sections_found').array(),
+  riskFactorCount: integer('risk_factor_count'),
+  extractedAt: timestamp('extracted_at').defaultNow(),
+}, (table) => ({
+  dealIdx: uniqueIndex('prospectus_extractions_deal_idx').on(table.dealId),
+}));
+
+/**
+ * Prospectus Parties - Directors, management, shareholders, cornerstones and advisers named in a prospectus
+ */
+export const prospectusParties = pgTable('prospectus_parties', {
+  id: serial('id').primaryKey(),
+  dealId: integer('deal_id').references(() => deals.id).notNull(),
+  partyType: varchar('party_type', { length: 30 }).notNull(),
+  name: varchar('name', { length: 300 }).notNull(),
+  nameCn: varchar('name_cn', { length: 100 }),
+  entityType: varchar('entity_type', { length: 10 }).notNull(),  // person, company
+  position: varchar('position', { length: 300 }),
+  age: integer('age'),
+  bio: text('bio'),
+  commitment: varchar('commitment', { length: 100 }),
+  commitmentHkdm: decimal('commitment_hkdm', { precision: 12, scale: 2 }),
+}, (table) => ({
+  dealIdx: index('prospectus_parties_deal_idx').on(table.dealId),
+  nameIdx: index('prospectus_parties_name_idx').on(table.name),
+}));
+
+export const prospectusProceeds = pgTable('prospectus_proceeds', {
+  id: serial('id').primaryKey(),
+  dealId: integer('deal_id').references(() => deals.id).notNull(),
+  position: integer('position').notNull(),
+  purpose: text('purpose').notNull(),
+  percentage: decimal('percentage', { precision: 5, scale: 2 }),
+  amountHkdm: decimal('amount_hkdm', { precision: 12, scale: 2 }),
+}, (table) => ({
+  dealIdx: index('prospectus_proceeds_deal_idx').on(table.dealId),
+}));
+
+export const prospectusRiskFactors = pgTable('prospectus_risk_factors', {
+  id: serial('id').primaryKey(),
+  dealId: integer('deal_id').references(() => deals.id).notNull(),
+  position: integer('position').notNull(),
+  category: varchar('category', { length: 300 }),
+  heading: text('heading').notNull(),
+}, (table) => ({
+  dealIdx: index('prospectus_risk_factors_deal_idx').on(table.dealId),
+}));
+
+/**
+ * Deal Screenings - Subjects screened for a deal, linked to their dd_reports row by run_id
+ */
+export const dealScreenings = pgTable('deal_screenings', {
+  id: serial('id').primaryKey(),
+  dealId: integer('deal_id').references(() => deals.id).notNull(),
+  batchId: varchar('batch_id', { length: 100 }).notNull(),
+  subjectIndex: integer('subject_index').notNull(),  // position in the batch
+  subjectName: text('subject_name').notNull(),
+  roles: text('roles').array(),  // company, director, controlling_shareholder
+  status: varchar('status', { length: 20 }).notNull().default('queued'),
+  runId: text('run_id'),  // screening session = dd_reports.run_id
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  dealIdx: index('deal_screenings_deal_idx').on(table.dealId),
+  runIdx: index('deal_screenings_run_idx').on(table.runId),
 }));
 
 /**
@@ -163,6 +271,7 @@ export const companiesRelations = relations(companies, ({ many }) => ({
 
 export const banksRelations = relations(banks, ({ many }) => ({
   appointments: many(dealAppointments),
+  appointmentChanges: many(appointmentChanges),
 }));
 
 export const dealsRelations = relations(deals, ({ one, many }) => ({
@@ -172,6 +281,12 @@ export const dealsRelations = relations(deals, ({ one, many }) => ({
   }),
   appointments: many(dealAppointments),
   announcements: many(ocAnnouncements),
+  events: many(dealEvents),
+  appointmentChanges: many(appointmentChanges),
+  prospectusParties: many(prospectusParties),
+  prospectusProceeds: many(prospectusProceeds),
+  prospectusRiskFactors: many(prospectusRiskFactors),
+  screenings: many(dealScreenings),
 }));
 
 export const dealAppointmentsRelations = relations(dealAppointments, ({ one }) => ({
@@ -192,6 +307,52 @@ export const ocAnnouncementsRelations = relations(ocAnnouncements, ({ one }) =>
   }),
 }));
 
+export const appointmentChangesRelations = relations(appointmentChanges, ({ one }) => ({
+  deal: one(deals, {
+    fields: [appointmentChanges.dealId],
+    references: [deals.id],
+  }),
+  bank: one(banks, {
+    fields: [appointmentChanges.bankId],
+    references: [banks.id],
+  }),
+}));
+
+export const dealEventsRelations = relations(dealEvents, ({ one }) => ({
+  deal: one(deals, {
+    fields: [dealEvents.dealId],
+    references: [deals.id],
+  }),
+}));
+
+export const prospectusPartiesRelations = relations(prospectusParties, ({ one }) => ({
+  deal: one(deals, {
+    fields: [prospectusParties.dealId],
+    references: [deals.id],
+  }),
+}));
+
+export const prospectusProceedsRelations = relations(prospectusProceeds, ({ one }) => ({
+  deal: one(deals, {
+    fields: [prospectusProceeds.dealId],
+    references: [deals.id],
+  }),
+}));
+
+export const prospectusRiskFactorsRelations = relations(prospectusRiskFactors, ({ one }) => ({
+  deal: one(deals, {
+    fields: [prospectusRiskFactors.dealId],
+    references: [deals.id],
+  }),
+}));
+
+export const dealScreeningsRelations = relations(dealScreenings, ({ one }) => ({
+  deal: one(deals, {
+    fields: [dealScreenings.dealId],
+    references: [deals.id],
+  }),
+}));
+
 // ============================================================
 // TYPES
 // ============================================================
@@ -211,6 +372,18 @@ export type NewDealAppointment = typeof dealAppointments.$inferInsert;
 export type OCAnnouncement = typeof ocAnnouncements.$inferSelect;
 export type NewOCAnnouncement = typeof ocAnnouncements.$inferInsert;
 
+export type AppointmentChange = typeof appointmentChanges.$inferSelect;
+export type NewAppointmentChange = typeof appointmentChanges.$inferInsert;
+
+export type DealEvent = typeof dealEvents.$inferSelect;
+export type NewDealEvent = typeof dealEvents.$inferInsert;
+
+export type ProspectusParty = typeof prospectusParties.$inferSelect;
+export type NewProspectusParty = typeof prospectusParties.$inferInsert;
+
+export type DealScreening = typeof dealScreenings.$inferSelect;
+export type NewDealScreening = typeof dealScreenings.$inferInsert;
+
 // ============================================================
 // DD SCREENING REPORT TABLES
 // ============================================================
@@ -222,12 +395,16 @@ export const ddReports = pgTable('dd_reports', {
   screenedAt: text('screened_at').notNull(),
   language: text('language').notNull().default('zh'),
   nameVariations: text('name_variations').notNull().default('[]'),
+  context: text('context'),
   findingCount: integer('finding_count').notNull().default(0),
   redCount: integer('red_count').notNull().default(0),
   amberCount: integer('amber_count').notNull().default(0),
   reportMarkdown: text('report_markdown'),
   cleanResultsJson: text('clean_results_json'),
   screeningStatsJson: text('screening_stats_json'),
+  sanctionsJson: text('sanctions_json'),
+  pepJson: text('pep_json'),
+  litigationJson: text('litigation_json'),
   editedMarkdown: text('edited_markdown'),
   editDistance: doublePrecision('edit_distance'),
   qualityRating: integer('quality_rating'),
@@ -254,10 +431,15 @@ export const ddFindings = pgTable('dd_findings', {
   includedInReport: integer('included_in_report').notNull().default(0),
   humanVerdict: text('human_verdict'),
   wrongReason: text('wrong_reason'),
+  matchConfidence: text('match_confidence'),
+  firstReported: text('first_reported'),
+  lastReported: text('last_reported'),
+  eventDates: text('event_dates'),
   createdAt: timestamp('created_at').defaultNow(),
 }, (table) => ({
   reportIdx: index('dd_findings_report_idx').on(table.reportId),
   verdictIdx: index('dd_findings_verdict_idx').on(table.humanVerdict),
+  lastReportedIdx: index('dd_findings_last_reported_idx').on(table.lastReported),
 }));
 
 export const ddMissedFlags = pgTable('dd_missed_flags', {
@@ -290,11 +472,40 @@ export const ddLearningRules = pgTable('dd_learning_rules', {
   id: serial('id').primaryKey(),
   ruleType: text('rule_type').notNull(),
   ruleText: text('rule_text').notNull(),
+  severity: text('severity'),
+  description: text('description'),
   sourceFeedbackCount: integer('source_feedback_count').notNull().default(0),
   active: integer('active').notNull().default(1),
+  fireCount: integer('fire_count').notNull().default(0),
+  lastFiredAt: timestamp('last_fired_at'),
   createdAt: timestamp('created_at').defaultNow(),
 });
 
+export const ddEvidence = pgTable('dd_evidence', {
+  id: serial('id').primaryKey(),
+  url: text('url').notNull(),
+  finalUrl: text('final_url'),
+  contentHash: text('content_hash').notNull(),
+  contentType: text('content_type').notNull(),
+  textHash: text('text_hash'),
+  pdfHash: text('pdf_hash'),
+  captureMethod: text('capture_method').notNull().default('live'),
+  statusCode: integer('status_code'),
+  fetchedAt: timestamp('fetched_at').notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  urlHashIdx: uniqueIndex('dd_evidence_url_hash_idx').on(table.url, table.contentHash),
+  contentHashIdx: index('dd_evidence_content_hash_idx').on(table.contentHash),
+}));
+
+export const ddFindingEvidence = pgTable('dd_finding_evidence', {
+  id: serial('id').primaryKey(),
+  findingId: integer('finding_id').references(() => ddFindings.id, { onDelete: 'cascade' }).notNull(),
+  evidenceId: integer('evidence_id').references(() => ddEvidence.id, { onDelete: 'cascade' }).notNull(),
+}, (table) => ({
+  findingIdx: index('dd_finding_evidence_finding_idx').on(table.findingId),
+}));
+
 export const ddChangelog = pgTable('dd_changelog', {
   id: serial('id').primaryKey(),
   date: text('date').notNull(),
@@ -302,3 +513,156 @@ export const ddChangelog = pgTable('dd_changelog', {
   category: text('category').notNull().default('prompt'),
   createdAt: timestamp('created_at').defaultNow(),
 });
+
+// ============================================================
+// DD MONITORING TABLES
+// ============================================================
+
+export const ddWatchlist = pgTable('dd_watchlist', {
+  id: serial('id').primaryKey(),
+  subjectName: text('subject_name').notNull(),
+  nameVariations: text('name_variations').notNull().default('[]'),
+  language: text('language').notNull().default('chinese'),
+  context: text('context'),
+  scheduleDays: integer('schedule_days').notNull().default(30),
+  baselineReportId: integer('baseline_report_id').references(() => ddReports.id, { onDelete: 'set null' }),
+  seenUrls: text('seen_urls').notNull().default('[]'),
+  active: integer('active').notNull().default(1),
+  lastRunAt: timestamp('last_run_at'),
+  nextRunAt: timestamp('next_run_at').notNull().defaultNow(),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  nextRunIdx: index('dd_watchlist_next_run_idx').on(table.nextRunAt),
+}));
+
+export const ddMonitorRuns = pgTable('dd_monitor_runs', {
+  id: serial('id').primaryKey(),
+  watchlistId: integer('watchlist_id').references(() => ddWatchlist.id, { onDelete: 'cascade' }).notNull(),
+  priorReportId: integer('prior_report_id').references(() => ddReports.id, { onDelete: 'set null' }),
+  sinceDate: text('since_date').notNull(),
+  status: text('status').notNull().default('running'),
+  gathered: integer('gathered').notNull().default(0),
+  newArticles: integer('new_articles').notNull().default(0),
+  passedElimination: integer('passed_elimination').notNull().default(0),
+  flagged: integer('flagged').notNull().default(0),
+  newFindings: integer('new_findings').notNull().default(0),
+  escalatedFindings: integer('escalated_findings').notNull().default(0),
+  costUsd: doublePrecision('cost_usd').notNull().default(0),
+  error: text('error'),
+  startedAt: timestamp('started_at').defaultNow(),
+  completedAt: timestamp('completed_at'),
+}, (table) => ({
+  watchlistIdx: index('dd_monitor_runs_watchlist_idx').on(table.watchlistId),
+  priorReportIdx: index('dd_monitor_runs_prior_report_idx').on(table.priorReportId),
+}));
+
+export const ddMonitorFindings = pgTable('dd_monitor_findings', {
+  id: serial('id').primaryKey(),
+  runId: integer('run_id').references(() => ddMonitorRuns.id, { onDelete: 'cascade' }).notNull(),
+  watchlistId: integer('watchlist_id').references(() => ddWatchlist.id, { onDelete: 'cascade' }).notNull(),
+  priorReportId: integer('prior_report_id').references(() => ddReports.id, { onDelete: 'set null' }),
+  changeType: text('change_type').notNull(),  // new | escalated
+  severity: text('severity').notNull(),
+  priorSeverity: text('prior_severity'),
+  priorFindingId: integer('prior_finding_id'),
+  url: text('url').notNull(),
+  title: text('title').notNull().default(''),
+  snippet: text('snippet').notNull().default(''),
+  reason: text('reason').notNull().default(''),
+  clusterLabel: text('cluster_label'),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  runIdx: index('dd_monitor_findings_run_idx').on(table.runId),
+  priorReportIdx: index('dd_monitor_findings_prior_report_idx').on(table.priorReportId),
+}));
+
+// ============================================================
+// ENTITY GRAPH TABLES
+// ============================================================
+
+export const ddEntities = pgTable('dd_entities', {
+  id: serial('id').primaryKey(),
+  kind: text('kind').notNull(),  // person | company
+  name: text('name').notNull(),
+  nameKey: text('name_key').notNull(),
+  registrationId: text('registration_id'),
+  qccUrl: text('qcc_url'),
+  attributesJson: text('attributes_json').notNull().default('{}'),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+  nameKeyIdx: index('dd_entities_name_key_idx').on(table.kind, table.nameKey),
+  qccUrlIdx: index('dd_entities_qcc_url_idx').on(table.qccUrl),
+  registrationIdx: index('dd_entities_registration_idx').on(table.registrationId),
+}));
+
+export const ddRelationships = pgTable('dd_relationships', {
+  id: serial('id').primaryKey(),
+  fromId: integer('from_id').references(() => ddEntities.id, { onDelete: 'cascade' }).notNull(),
+  toId: integer('to_id').references(() => ddEntities.id, { onDelete: 'cascade' }).notNull(),
+  role: text('role').notNull(),  // shareholder | beneficial_owner | actual_controller | legal_representative | director | executive | associate
+  title: text('title'),
+  ownershipPct: doublePrecision('ownership_pct'),
+  source: text('source').notNull(),  // qcc | screening_profile | manual
+  sourceUrl: text('source_url'),
+  observedAt: text('observed_at'),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  edgeIdx: uniqueIndex('dd_relationships_edge_idx').on(table.fromId, table.toId, table.role, table.source),
+  toIdx: index('dd_relationships_to_idx').on(table.toId, table.role),
+  fromIdx: index('dd_relationships_from_idx').on(table.fromId),
+}));
+
+// ============================================================
+// SANCTIONS LIST TABLES
+// ============================================================
+
+export const ddSanctionsLists = pgTable('dd_sanctions_lists', {
+  source: text('source').primaryKey(),  // ofac_sdn | un | eu | uk_hmt | hkma
+  fileName: text('file_name').notNull(),
+  entryCount: integer('entry_count').notNull().default(0),
+  loadedAt: timestamp('loaded_at').defaultNow(),
+});
+
+export const ddSanctionsEntries = pgTable('dd_sanctions_entries', {
+  id: serial('id').primaryKey(),
+  source: text('source').notNull(),
+  listId: text('list_id').notNull(),
+  entityType: text('entity_type').notNull(),  // individual | entity | vessel | aircraft
+  name: text('name').notNull(),
+  aliasesJson: text('aliases_json').notNull().default('[]'),
+  birthDatesJson: text('birth_dates_json').notNull().default('[]'),
+  nationalitiesJson: text('nationalities_json').notNull().default('[]'),
+  programsJson: text('programs_json').notNull().default('[]'),
+  remarks: text('remarks'),
+}, (table) => ({
+  listIdIdx: uniqueIndex('dd_sanctions_entries_list_id_idx').on(table.source, table.listId),
+  sourceIdx: index('dd_sanctions_entries_source_idx').on(table.source),
+}));
+
+// ============================================================
+// PEP DATASET TABLES
+// ============================================================
+
+export const ddPepEntries = pgTable('dd_pep_entries', {
+  id: serial('id').primaryKey(),
+  dataset: text('dataset').notNull(),
+  name: text('name').notNull(),
+  aliasesJson: text('aliases_json').notNull().default('[]'),
+  position: text('position').notNull().default(''),
+  organisation: text('organisation').notNull().default(''),
+  country: text('country').notNull().default(''),
+  tier: integer('tier'),                             // 1-3, null when the dataset doesn't say
+  status: text('status').notNull().default('current'),  // current | former
+  sourceUrl: text('source_url'),
+  loadedAt: timestamp('loaded_at').defaultNow(),
+}, (table) => ({
+  datasetIdx: index('dd_pep_entries_dataset_idx').on(table.dataset),
+}));
+
+export const ddPepNames = pgTable('dd_pep_names', {
+  entryId: integer('entry_id').notNull().references(() => ddPepEntries.id, { onDelete: 'cascade' }),
+  nameKey: text('name_key').notNull(),
+}, (table) => ({
+  keyIdx: index('dd_pep_names_key_idx').on(table.nameKey),
+}));
@@ -0,0 +1,242 @@
+/**
+ * Deal screening - "screen everyone in this IPO"
+ *
+ * Collects an IPO deal's screening subjects — the company under its English and Chinese names,
+ * plus the directors and controlling shareholders parsed from its prospectus — and runs them as
+ * one screening batch. Each subject is recorded in deal_screenings; once its screening session
+ * has saved a report, the row links that dd_reports row back to the deal through the batch's
+ * session ID. The deal's risk dashboard is built from those links.
+ */
+
+import { pool } from './db/index.js';
+import { submitBatch } from './batch-runner.js';
+import { getBatchSubjects } from './session-store.js';
+import { getChineseVariants, toSimplified } from './utils/chinese.js';
+import { listProspectusParties, type ProspectusPartyRow } from './prospectus-db.js';
+
+// Prospectus parties screened with the company
+export const SCREENED_PARTY_TYPES = ['director', 'controlling_shareholder'] as const;
+
+export type DealRiskLevel = 'red' | 'amber' | 'pending' | 'incomplete' | 'clear' | 'not_screened';
+
+export interface DealCompany {
+  nameEn: string;
+  nameCn: string | null;
+}
+
+export interface DealScreeningSubject {
+  name: string;
+  variations: string[];
+  language: string;
+  context: string;
+  roles: string[];           // 'company', or the prospectus party types the subject appears as
+}
+
+/** A subject's latest screening for a deal, with the report it produced if it has finished */
+export interface DealScreeningRow {
+  id: number;
+  deal_id: number;
+  batch_id: string;
+  subject_name: string;
+  roles: string[];
+  status: string;
+  created_at: string;
+  report_id: number | null;
+  screened_at: string | null;
+  finding_count: number | null;
+  red_count: number | null;
+  amber_count: number | null;
+}
+
+export interface DealRiskSummary {
+  level: DealRiskLevel;
+  subjects: number;
+  screened: number;
+  pending: number;
+  failed: number;
+  red: number;
+  amber: number;
+  findings: number;
+}
+
+const PENDING_STATUSES = ['queued', 'running', 'paused'];
+
+const nameKey = (name: string) => name.toLowerCase().replace(/\s+/g, ' ').trim();
+
+function screeningSubject(nameEn: string, nameCn: string | null, roles: string[], context: string): DealScreeningSubject {
+  const name = nameCn || nameEn;
+  const variations = [...(nameCn ? getChineseVariants(nameCn) : []), nameEn]
+    .filter((v, i, all) => v && v !== name && all.indexOf(v) === i);
+  return {
+    name,
+    variations,
+    // Subjects known only by an English name are searched in English media as well
+    language: nameCn ? 'chinese' : 'chinese,english',
+    context,
+    roles,
+  };
+}
+
+/**
+ * Screening subjects for a deal: the company first, then each director and controlling
+ * shareholder. A person named in both roles ("ZHANG Wei" the director, "Zhang Wei" the
+ * controlling shareholder) is screened once, under the Chinese name where either entry has one.
+ */
+export function buildDealSubjects(
+  company: DealCompany,
+  parties: Pick<ProspectusPartyRow, 'party_type' | 'name' | 'name_cn' | 'position'>[],
+): DealScreeningSubject[] {
+  const companyLabel = company.nameCn ? `${company.nameEn} (${company.nameCn})` : company.nameEn;
+  const people: { nameEn: string; nameCn: string | null; roles: string[]; description: string }[] = [];
+  const byKey = new Map<string, typeof people[number]>();
+
+  for (const party of parties) {
+    if (!(SCREENED_PARTY_TYPES as readonly string[]).includes(party.party_type)) continue;
+
+    const keys = [nameKey(party.name), ...(party.name_cn ? [toSimplified(party.name_cn)] : [])];
+    let person = keys.map(k => byKey.get(k)).find(p => p);
+    if (!person) {
+      person = {
+        nameEn: party.name,
+        nameCn: null,
+        roles: [],
+        description: party.party_type === 'director' ? (party.position || 'Director') : 'Controlling shareholder',
+      };
+      people.push(person);
+    }
+    if (!person.roles.includes(party.party_type)) person.roles.push(party.party_type);
+    person.nameCn = person.nameCn || party.name_cn;
+    for (const key of keys) byKey.set(key, person);
+  }
+
+  return [
+    screeningSubject(company.nameEn, company.nameCn, ['company'], 'HKEX listing applicant'),
+    ...people.map(p => screeningSubject(p.nameEn, p.nameCn, p.roles, `${p.description} of ${companyLabel}`)),
+  ];
+}
+
+/**
+ * Launch screenings for everyone in a deal as one batch, and record each subject against the
+ * deal. Throws when the deal does not exist.
+ */
+export async function screenDeal(dealId: number, options: { concurrency?: number } = {}): Promise<{ batchId: string; subjects: DealScreeningSubject[] }> {
+  const dealResult = await pool.query(`
+    SELECT c.name_en, c.name_cn
+    FROM deals d
+    JOIN companies c ON c.id = d.company_id
+    WHERE d.id = $1
+  `, [dealId]);
+  if (dealResult.rows.length === 0) {
+    throw new Error(`Deal ${dealId} not found`);
+  }
+
+  const { name_en, name_cn } = dealResult.rows[0];
+  const parties = await listProspectusParties(dealId);
+  const subjects = buildDealSubjects({ nameEn: name_en, nameCn: name_cn }, parties);
+
+  const batchId = await submitBatch(
+    subjects.map(s => ({ name: s.name, variations: s.variations, language: s.language, context: s.context })),
+    { label: `IPO: ${name_en}`, concurrency: options.concurrency },
+  );
+
+  for (const [i, subject] of subjects.entries()) {
+    await pool.query(`
+      INSERT INTO deal_screenings (deal_id, batch_id, subject_index, subject_name, roles, status)
+      VALUES ($1, $2, $3, $4, $5, 'queued')
+    `, [dealId, batchId, i, subject.name, subject.roles]);
+  }
+
+  return { batchId, subjects };
+}
+
+/**
+ * Copy batch progress onto screening rows: status, and the screening session, which is the
+ * run_id of the report it saves. Batches expire after a week; rows whose batch is gone keep
+ * what they last recorded, so a row never linked while its batch was held stays unlinked
+ * rather than being matched to some other report by name.
+ */
+async function syncScreeningRows(rows: { id: number; batch_id: string; subject_index: number }[]): Promise<void> {
+  const batches = new Map<string, Awaited<ReturnType<typeof getBatchSubjects>>>();
+  for (const row of rows) {
+    if (!batches.has(row.batch_id)) batches.set(row.batch_id, await getBatchSubjects(row.batch_id));
+    const subject = batches.get(row.batch_id)![row.subject_index];
+    if (!subject) continue;
+    await pool.query(`
+      UPDATE deal_screenings SET status = $2, run_id = COALESCE($3, run_id) WHERE id = $1
+    `, [row.id, subject.status, subject.sessionId || null]);
+  }
+}
+
+/** Sync a deal's screenings that are unfinished, or finished but not yet linked to a report */
+async function syncDealScreenings(dealId: number): Promise<void> {
+  const open = await pool.query(`
+    SELECT id, batch_id, subject_index FROM deal_screenings
+    WHERE deal_id = $1 AND (status = ANY($2) OR (run_id IS NULL AND status = 'complete'))
+  `, [dealId, PENDING_STATUSES]);
+  await syncScreeningRows(open.rows);
+}
+
+/** Each subject's latest screening for a deal, company first */
+export async function listDealScreenings(dealId: number): Promise<DealScreeningRow[]> {
+  await syncDealScreenings(dealId);
+  const result = await pool.query(`
+    SELECT * FROM (
+      SELECT DISTINCT ON (ds.subject_name)
+        ds.id, ds.deal_id, ds.batch_id, ds.subject_name, ds.roles, ds.status, ds.created_at, ds.subject_index,
+        r.id AS report_id, r.screened_at, r.finding_count, r.red_count, r.amber_count
+      FROM deal_screenings ds
+      LEFT JOIN dd_reports r ON r.run_id = ds.run_id
+      WHERE ds.deal_id = $1
+      ORDER BY ds.subject_name, ds.created_at DESC
+    ) latest
+    ORDER BY ('company' = ANY(roles)) DESC, created_at DESC, subject_index
+  `, [dealId]);
+  return result.rows;
+}
+
+/** Overall risk for a deal from its subjects' screenings; any red or amber finding sets the level */
+export function summarizeDealRisk(rows: DealScreeningRow[]): DealRiskSummary {
+  const screened = rows.filter(r => r.report_id !== null);
+  const pending = rows.filter(r => r.report_id === null && PENDING_STATUSES.includes(r.status)).length;
+  const red = screened.reduce((sum, r) => sum + (r.red_count || 0), 0);
+  const amber = screened.reduce((sum, r) => sum + (r.amber_count || 0), 0);
+
+  let level: DealRiskLevel;
+  if (rows.length === 0) level = 'not_screened';
+  else if (red > 0) level = 'red';
+  else if (amber > 0) level = 'amber';
+  else if (pending > 0) level = 'pending';
+  else if (screened.length < rows.length) level = 'incomplete';
+  else level = 'clear';
+
+  return {
+    level,
+    subjects: rows.length,
+    screened: screened.length,
+    pending,
+    failed: rows.length - screened.length - pending,
+    red,
+    amber,
+    findings: screened.reduce((sum, r) => sum + (r.finding_count || 0), 0),
+  };
+}
+
+/** The deals a report was screened for, and the subject's roles in each */
+export async function listReportDeals(report: { run_id: string; subject_name: string }): Promise<{ deal_id: number; company_name: string; company_name_cn: string | null; roles: string[] }[]> {
+  // The subject's screenings not yet linked may belong to this report's session
+  const unlinked = await pool.query(`
+    SELECT id, batch_id, subject_index FROM deal_screenings
+    WHERE run_id IS NULL AND subject_name = $1
+  `, [report.subject_name]);
+  await syncScreeningRows(unlinked.rows);
+
+  const result = await pool.query(`
+    SELECT DISTINCT ON (ds.deal_id) ds.deal_id, c.name_en AS company_name, c.name_cn AS company_name_cn, ds.roles
+    FROM deal_screenings ds
+    JOIN deals d ON d.id = ds.deal_id
+    JOIN companies c ON c.id = d.company_id
+    WHERE ds.run_id = $1
+    ORDER BY ds.deal_id, ds.created_at DESC
+  `, [report.run_id]);
+  return result.rows;
+}
@@ -1,12 +1,9 @@
 // src/deduplicator.ts
 // LLM-driven incident clustering for smart deduplication
 
-import axios from 'axios';
 import { BatchSearchResult } from './searcher.js';
-
-// LLM Configuration (DeepSeek primary, Kimi fallback)
-const DEEPSEEK_API_KEY = process.env.DEEPSEEK_API_KEY || '';
-const KIMI_API_KEY = process.env.KIMI_API_KEY || '';
+import { completeLLM, type LLMCallHandler } from './llm/client.js';
+import { getSourceTier, type CredibilityIndex } from './source-credibility.js';
 
 // Types
 export interface IncidentCluster {
@@ -33,29 +30,6 @@ interface BatchClusterResponse {
   labels: string[];      // Incident descriptions
 }
 
-// Source tier classification
-const TIER_1_DOMAINS = [
-  'ft.com', 'reuters.com', 'scmp.com', 'wsj.com', 'bloomberg.com',
-  'gov.cn', 'csrc.gov.cn', 'sfc.hk', 'hkex.com.hk', 'icac.org.hk',
-  'caixin.com', 'xinhuanet.com'
-];
-
-const TIER_2_DOMAINS = [
-  'hk01.com', 'sina.com.cn', '163.com', 'eastmoney.com', 'qq.com',
-  'sohu.com', 'ifeng.com', 'thepaper.cn', 'yicai.com', 'jiemian.com'
-];
-
-export function getSourceTier(url: string): 1 | 2 | 3 {
-  try {
-    const hostname = new URL(url).hostname.toLowerCase();
-    if (TIER_1_DOMAINS.some(d => hostname.includes(d))) return 1;
-    if (TIER_2_DOMAINS.some(d => hostname.includes(d))) return 2;
-    return 3;
-  } catch {
-    return 3;
-  }
-}
-
 // Build clustering prompt
 function buildClusteringPrompt(articles: BatchSearchResult[], subjectName: string): string {
   const articleList = articles.map((a, i) => {
@@ -79,71 +53,43 @@ Output ONLY valid JSON (no markdown, no explanation):
 {"clusters": [[1,2], [3,4,5], [6]], "labels": ["incident 1", "incident 2", "incident 3"]}`;
 }
 
-// Call LLM for clustering (DeepSeek)
-async function callLLMForClustering(prompt: string): Promise<BatchClusterResponse> {
-  const providers = [];
-
-  // DeepSeek only
-  if (DEEPSEEK_API_KEY) {
-    providers.push({
-      name: 'DeepSeek',
-      call: async () => {
-        const response = await axios.post(
-          'https://api.deepseek.com/v1/chat/completions',
-          {
-            model: 'deepseek-chat',
-            messages: [{ role: 'user', content: prompt }],
-            temperature: 0.1,
-            max_tokens: 4096,
-          },
-          {
-            headers: { Authorization: `Bearer ${DEEPSEEK_API_KEY}` },
-            timeout: 60000,
-          }
-        );
-        return response.data.choices?.[0]?.message?.content || '';
-      }
-    });
-  }
-
-
-  // Try providers in order
-  for (const provider of providers) {
-    try {
-      console.log(`[CLUSTER] Trying DD Owl (${provider.name})...`);
-      const responseText = await provider.call();
-
-      // Extract JSON from response (handle markdown code blocks)
-      let jsonStr = responseText.trim();
-      const jsonMatch = jsonStr.match(/```(?:json)?\s*([\s\S]*?)```/);
-      if (jsonMatch) {
-        jsonStr = jsonMatch[1].trim();
-      }
+// Call LLM for clustering (provider chain comes from the 'clustering' route)
+async function callLLMForClustering(prompt: string, onLLMCall?: LLMCallHandler): Promise<BatchClusterResponse> {
+  console.log(`[CLUSTER] Calling DD Owl...`);
+  const response = await completeLLM({
+    operation: 'clustering',
+    prompt,
+    temperature: 0.1,
+    maxTokens: 4096,
+    timeout: 60000,
+    onLLMCall,
+  });
 
-      // Find JSON object in response
-      const jsonStart = jsonStr.indexOf('{');
-      const jsonEnd = jsonStr.lastIndexOf('}');
-      if (jsonStart !== -1 && jsonEnd !== -1) {
-        jsonStr = jsonStr.slice(jsonStart, jsonEnd + 1);
-      }
+  // Extract JSON from response (handle markdown code blocks)
+  let jsonStr = response.text.trim();
+  const jsonMatch = jsonStr.match(/```(?:json)?\s*([\s\S]*?)```/);
+  if (jsonMatch) {
+    jsonStr = jsonMatch[1].trim();
+  }
 
-      const parsed = JSON.parse(jsonStr) as BatchClusterResponse;
-      console.log(`[CLUSTER] DD Owl returned ${parsed.clusters.length} clusters`);
-      return parsed;
-    } catch (err: any) {
-      console.error(`[CLUSTER] ${provider.name} failed:`, err.message);
-      continue;
-    }
+  // Find JSON object in response
+  const jsonStart = jsonStr.indexOf('{');
+  const jsonEnd = jsonStr.lastIndexOf('}');
+  if (jsonStart !== -1 && jsonEnd !== -1) {
+    jsonStr = jsonStr.slice(jsonStart, jsonEnd + 1);
   }
 
-  throw new Error('All LLM providers failed for clustering');
+  const parsed = JSON.parse(jsonStr) as BatchClusterResponse;
+  console.log(`[CLUSTER] DD Owl (${response.providerName}) returned ${parsed.clusters.length} clusters`);
+  return parsed;
 }
 
 // Cluster a single batch of articles
 async function clusterBatch(
   articles: BatchSearchResult[],
   subjectName: string,
-  batchIndex: number
+  batchIndex: number,
+  onLLMCall?: LLMCallHandler
 ): Promise<{ clusters: IncidentCluster[]; articleIndexOffset: number }> {
   if (articles.length === 0) {
     return { clusters: [], articleIndexOffset: 0 };
@@ -152,7 +98,7 @@ async function clusterBatch(
   const prompt = buildClusteringPrompt(articles, subjectName);
 
   try {
-    const response = await callLLMForClustering(prompt);
+    const response = await callLLMForClustering(prompt, onLLMCall);
 
     const clusters: IncidentCluster[] = response.clusters.map((indices, i) => {
       const clusterArticles = indices
@@ -241,20 +187,21 @@ function calculateLabelSimilarity(label1: string, label2: string): number {
   return intersection / union;
 }
 
-// Select best articles per cluster based on source tier
+// Select best articles per cluster by source credibility (static tier when no index is given)
 // Assigns clusterId and clusterLabel to each article for downstream use
 function selectBestArticles(
   clusters: IncidentCluster[],
-  maxPerCluster: number
+  maxPerCluster: number,
+  credibility?: CredibilityIndex
 ): { toAnalyze: BatchSearchResult[]; parked: BatchSearchResult[] } {
   const toAnalyze: BatchSearchResult[] = [];
   const parked: BatchSearchResult[] = [];
 
   for (const cluster of clusters) {
-    // Sort articles by source tier (tier 1 first)
+    // Most credible first (tier 1 first without learned reliability)
     const sorted = cluster.articles
       .map((article, i) => ({ article, tier: cluster.sourceTiers[i] }))
-      .sort((a, b) => a.tier - b.tier);
+      .sort((a, b) => credibility ? credibility.compare(a.article.url, b.article.url) : a.tier - b.tier);
 
     // Keep best N articles, assign cluster info to ALL articles
     sorted.forEach(({ article }, i) => {
@@ -298,7 +245,9 @@ export async function clusterByIncidentLLM(
   onProgress?: ClusterProgressCallback,
   startBatchIndex: number = 0,  // For mid-clustering resume: which batch to start from (0-indexed)
   previousBatchResults: IncidentCluster[] | null = null,  // Restored clusters from previous batches
-  signal?: AbortSignal  // For cross-instance abort on ownership loss
+  signal?: AbortSignal,  // For cross-instance abort on ownership loss
+  onLLMCall?: LLMCallHandler,  // Token accounting
+  credibility?: CredibilityIndex  // Picks each cluster's representative articles
 ): Promise<ClusteringResult> {
   console.log(`[CLUSTER] Starting clustering for ${articles.length} articles about "${subjectName}"${startBatchIndex > 0 ? ` (resuming from batch ${startBatchIndex + 1})` : ''}`);
 
@@ -381,7 +330,7 @@ export async function clusterByIncidentLLM(
     });
 
     console.log(`[CLUSTER] Processing batch ${i + 1}/${batches.length} (${batches[i].length} articles)...`);
-    const result = await clusterBatch(batches[i], subjectName, i);
+    const result = await clusterBatch(batches[i], subjectName, i, onLLMCall);
     batchResults.push(result);
 
     // Collect all clusters so far for session persistence (include restored clusters)
@@ -437,7 +386,7 @@ export async function clusterByIncidentLLM(
   }
 
   // Select best articles per cluster
-  const { toAnalyze, parked } = selectBestArticles(mergedClusters, maxPerCluster);
+  const { toAnalyze, parked } = selectBestArticles(mergedClusters, maxPerCluster, credibility);
 
   const result: ClusteringResult = {
     clusters: mergedClusters,
@@ -455,3 +404,149 @@ export async function clusterByIncidentLLM(
 
   return result;
 }
+
+// ============================================================
+// URL + TITLE DEDUPLICATION (pre-analyze)
+// ============================================================
+
+// URL validation to filter out corrupted URLs (e.g., Baidu tracking URLs)
+export function isValidUrl(url: string): boolean {
+  if (!url || typeof url !== 'string') return false;
+  try {
+    const parsed = new URL(url);
+    // Must be http or https
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return false;
+    // Filter out known bad patterns
+    if (url.includes('nourl.') || url.includes('.baidu.com/link')) return false;
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function normalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    // Remove common tracking params
+    const trackingParams = ['utm_source', 'utm_medium', 'utm_campaign', 'utm_content', 'utm_term', 'fbclid', 'gclid', 'ref', 'source'];
+    trackingParams.forEach(param => parsed.searchParams.delete(param));
+    // Remove trailing slash
+    let normalized = parsed.toString();
+    if (normalized.endsWith('/')) {
+      normalized = normalized.slice(0, -1);
+    }
+    return normalized;
+  } catch {
+    return url; // Return original if URL parsing fails
+  }
+}
+
+export function deduplicateResults<T extends { url: string }>(results: T[]): { unique: T[]; duplicateCount: number } {
+  const seen = new Set<string>();
+  const unique: T[] = [];
+  let duplicateCount = 0;
+
+  for (const result of results) {
+    const normalizedUrl = normalizeUrl(result.url);
+    if (!seen.has(normalizedUrl)) {
+      seen.add(normalizedUrl);
+      unique.push(result);
+    } else {
+      duplicateCount++;
+    }
+  }
+
+  return { unique, duplicateCount };
+}
+
+/**
+ * Extract Chinese characters from a title (for similarity comparison)
+ */
+function extractChineseChars(title: string): string {
+  return title
+    .replace(/[-_|–—].{0,20}$/, '')     // Remove site suffix
+    .replace(/[^\u4e00-\u9fff]/g, '');   // Keep only Chinese chars
+}
+
+/**
+ * Check if two Chinese titles are about the same story using bigram overlap.
+ * Requires ≥50% shared bigrams — catches "华住被约谈季琦" vs "季琦华住被约谈".
+ */
+function areSimilarChineseTitles(a: string, b: string): boolean {
+  if (a.length < 4 || b.length < 4) return a === b;
+
+  // Build bigram sets
+  const bigramsA = new Set<string>();
+  for (let i = 0; i < a.length - 1; i++) bigramsA.add(a.slice(i, i + 2));
+  const bigramsB = new Set<string>();
+  for (let i = 0; i < b.length - 1; i++) bigramsB.add(b.slice(i, i + 2));
+
+  // Count intersection
+  let shared = 0;
+  for (const bg of bigramsA) {
+    if (bigramsB.has(bg)) shared++;
+  }
+
+  const minSize = Math.min(bigramsA.size, bigramsB.size);
+  return minSize > 0 && (shared / minSize) >= 0.5;
+}
+
+/**
+ * Group results by similar titles to avoid analyzing the same story 20 times.
+ * Uses bigram overlap for Chinese titles (catches reworded duplicates).
+ * Keeps max N per group, parks rest for manual review.
+ */
+export function groupByTitleSimilarity<T extends { title: string; url: string }>(
+  results: T[],
+  maxPerGroup: number = 5
+): { toAnalyze: T[]; parked: T[] } {
+  // Each group: { key: string, chars: string, items: T[] }
+  const groups: { chars: string; items: T[] }[] = [];
+
+  for (const result of results) {
+    const chars = extractChineseChars(result.title);
+
+    // Non-Chinese titles: use domain+prefix as before
+    if (chars.length < 3) {
+      try {
+        const domain = new URL(result.url).hostname;
+        const fallbackKey = `${domain}_${result.title.slice(0, 20)}`;
+        const existing = groups.find(g => g.chars === fallbackKey);
+        if (existing) {
+          existing.items.push(result);
+        } else {
+          groups.push({ chars: fallbackKey, items: [result] });
+        }
+      } catch {
+        const misc = groups.find(g => g.chars === '_misc');
+        if (misc) misc.items.push(result);
+        else groups.push({ chars: '_misc', items: [result] });
+      }
+      continue;
+    }
+
+    // Chinese titles: find existing group with high bigram overlap
+    let matched = false;
+    for (const group of groups) {
+      if (group.chars.length >= 3 && areSimilarChineseTitles(chars, group.chars)) {
+        group.items.push(result);
+        matched = true;
+        break;
+      }
+    }
+
+    if (!matched) {
+      groups.push({ chars, items: [result] });
+    }
+  }
+
+  const toAnalyze: T[] = [];
+  const parked: T[] = [];
+
+  for (const group of groups) {
+    toAnalyze.push(...group.items.slice(0, maxPerGroup));
+    parked.push(...group.items.slice(maxPerGroup));
+  }
+
+  return { toAnalyze, parked };
+}
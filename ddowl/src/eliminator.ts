@@ -7,6 +7,7 @@
 
 import { BatchSearchResult } from './searcher.js';
 import { hasDirtyWordMatch } from './constants/dirtyWordEquivalents.js';
+import { matchEliminationRule, type CompiledRules } from './learning-rules.js';
 
 // ============================================================
 // TYPES
@@ -19,10 +20,12 @@ export type EliminationReason =
   | 'noise_title_pattern'    // Rule 2: job posting keywords
   | 'name_char_separation'   // Rule 3: "张,三" instead of "张三"
   | 'missing_dirty_word'     // Rule 4: no dirty word present
-  | 'part_of_longer_name';   // Rule 5: 2-char name appears only as part of 3-char names
+  | 'part_of_longer_name'    // Rule 5: 2-char name appears only as part of 3-char names
+  | 'learned_rule';          // dd_learning_rules: domain block / title or snippet regex
 
 export interface EliminatedResult extends BatchSearchResult {
   reason: EliminationReason;
+  ruleId?: number;  // learned_rule: the dd_learning_rules row that fired
 }
 
 export interface EliminationResult {
@@ -39,6 +42,7 @@ export interface EliminationBreakdown {
   name_char_separation: number;
   missing_dirty_word: number;
   part_of_longer_name: number;
+  learned_rule: number;
 }
 
 // ============================================================
@@ -246,17 +250,30 @@ function isMissingDirtyWord(
 
 /**
  * Eliminate obvious noise from search results.
- * Government domains (.gov.cn) bypass all rules.
+ * Government domains (.gov.cn) bypass all rules. Learned rules (when given) run first: an allow
+ * rule passes the result without the built-in checks, a block/regex rule eliminates it.
  */
 export function eliminateObviousNoise(
   results: BatchSearchResult[],
-  subjectName: string
+  subjectName: string,
+  rules?: CompiledRules
 ): EliminationResult {
   const passed: BatchSearchResult[] = [];
   const eliminated: EliminatedResult[] = [];
   const bypassed: EliminatedResult[] = [];
 
   for (const result of results) {
+    // Learned rules from analyst feedback
+    const learned = rules ? matchEliminationRule(rules, result) : null;
+    if (learned?.action === 'allow') {
+      passed.push(result);
+      continue;
+    }
+    if (learned?.action === 'eliminate') {
+      eliminated.push({ ...result, reason: 'learned_rule', ruleId: learned.rule.id });
+      continue;
+    }
+
     // Rule 1: Noise domains
     if (isNoiseDomain(result.url)) {
       eliminated.push({ ...result, reason: 'noise_domain' });
@@ -318,6 +335,7 @@ export function getEliminationBreakdown(
     name_char_separation: eliminated.filter(e => e.reason === 'name_char_separation').length,
     missing_dirty_word: eliminated.filter(e => e.reason === 'missing_dirty_word').length,
     part_of_longer_name: eliminated.filter(e => e.reason === 'part_of_longer_name').length,
+    learned_rule: eliminated.filter(e => e.reason === 'learned_rule').length,
   };
 }
 
@@ -326,10 +344,8 @@ export function getEliminationBreakdown(
 // Batch process titles to identify duplicates before clustering
 // ============================================================
 
-import axios from 'axios';
-
-const KIMI_API_KEY = process.env.KIMI_API_KEY || '';
-const DEEPSEEK_API_KEY = process.env.DEEPSEEK_API_KEY || '';
+import { completeLLM, type LLMCallHandler } from './llm/client.js';
+import { hasLLMProvider } from './llm/providers.js';
 
 export interface TitleDedupeResult {
   unique: BatchSearchResult[];
@@ -352,14 +368,15 @@ export interface TitleDedupeProgress {
  */
 export async function llmBatchTitleDedupe(
   results: BatchSearchResult[],
-  onProgress?: (progress: TitleDedupeProgress) => void | Promise<void>
+  onProgress?: (progress: TitleDedupeProgress) => void | Promise<void>,
+  onLLMCall?: LLMCallHandler
 ): Promise<TitleDedupeResult> {
   if (results.length === 0) {
     return { unique: [], duplicates: [], groups: [] };
   }
 
-  // Skip if no API keys configured
-  if (!KIMI_API_KEY && !DEEPSEEK_API_KEY) {
+  // Skip if no provider is configured for this operation
+  if (!hasLLMProvider('dedupe')) {
     console.log('[TITLE_DEDUPE] No API keys configured, skipping LLM dedupe');
     return { unique: results, duplicates: [], groups: [] };
   }
@@ -379,7 +396,7 @@ export async function llmBatchTitleDedupe(
     console.log(`[TITLE_DEDUPE] Processing batch ${batchNumber}/${totalBatches} (${batch.length} titles)`);
 
     try {
-      const groups = await findDuplicateTitlesLLM(batch, batchStart);
+      const groups = await findDuplicateTitlesLLM(batch, batchStart, onLLMCall);
 
       // Track duplicates (all but first in each group)
       for (const group of groups) {
@@ -431,7 +448,8 @@ export async function llmBatchTitleDedupe(
  */
 async function findDuplicateTitlesLLM(
   batch: BatchSearchResult[],
-  globalOffset: number
+  globalOffset: number,
+  onLLMCall?: LLMCallHandler
 ): Promise<number[][]> {
   // Format titles as numbered list
   const titlesText = batch.map((r, i) => `${i + 1}. ${r.title}`).join('\n');
@@ -452,42 +470,20 @@ Return JSON only:
 Where each array contains indices of duplicate titles. Only include groups with 2+ items.
 If no duplicates found, return: {"groups": []}`;
 
-  const providers = [];
-  if (DEEPSEEK_API_KEY) {
-    providers.push({
-      name: 'DeepSeek',
-      url: 'https://api.deepseek.com/v1/chat/completions',
-      model: 'deepseek-chat',
-      apiKey: DEEPSEEK_API_KEY,
-    });
-  }
-
   let rawText = '';
-  for (const provider of providers) {
-    try {
-      const response = await axios.post(
-        provider.url,
-        {
-          model: provider.model,
-          messages: [{ role: 'user', content: prompt }],
-          temperature: 0.1,
-          max_tokens: 1000,
-        },
-        {
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${provider.apiKey}`,
-          },
-          timeout: 60000,
-        }
-      );
-      rawText = response.data.choices?.[0]?.message?.content || '';
-      console.log(`[TITLE_DEDUPE] ${provider.name} succeeded`);
-      break;
-    } catch (error: any) {
-      console.error(`[TITLE_DEDUPE] ${provider.name} failed:`, error.message);
-      continue;
-    }
+  try {
+    const response = await completeLLM({
+      operation: 'dedupe',
+      prompt,
+      temperature: 0.1,
+      maxTokens: 1000,
+      timeout: 60000,
+      onLLMCall,
+    });
+    rawText = response.text;
+    console.log(`[TITLE_DEDUPE] ${response.providerName} succeeded`);
+  } catch (error: any) {
+    console.error(`[TITLE_DEDUPE] LLM failed:`, error.message);
   }
 
   if (!rawText) {
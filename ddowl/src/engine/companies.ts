@@ -0,0 +1,142 @@
+// src/engine/companies.ts
+// Company helpers used by the gather phases.
+
+import { searchGoogle, type BatchSearchResult } from '../searcher.js';
+import type { DetectedCompany } from '../session-store.js';
+import type { MetricsTracker } from '../metrics/tracker.js';
+
+// ============================================================
+// PHASE 1.5: COMPANY EXPANSION HELPERS
+// Extract associated companies from SFC/registry pages and search for adverse media
+// ============================================================
+
+/**
+ * Extract company names from SFC/registry pages in search results
+ */
+export function extractCompaniesFromResults(results: BatchSearchResult[]): DetectedCompany[] {
+  const companies: DetectedCompany[] = [];
+
+  // Patterns for SFC/registry URLs
+  const registryPatterns = [
+    /sfc\.hk/i,
+    /employproof\.org\/eplicensed/i,
+    /hksecwiki\.com/i,
+    /hkma\.gov\.hk/i,
+    /apps\.sfc\.hk/i,
+  ];
+
+  for (const result of results) {
+    const isRegistry = registryPatterns.some(p => p.test(result.url));
+    if (!isRegistry) continue;
+
+    // Extract company from title - Pattern: "COMPANY_EN COMPANY_CN" or just Chinese
+    // Example: "TransAsia Private Capital 寰亞資本管理- 開戶優惠"
+    const titleMatch = result.title.match(/^([A-Za-z\s]+(?:Limited|Ltd|Capital|Private|Securities|Asset|Management)?)\s*([\u4e00-\u9fff]+)/i);
+    if (titleMatch) {
+      const english = titleMatch[1].trim();
+      const chinese = titleMatch[2].trim();
+      // Only add if we have a meaningful company name (not just single chars)
+      if ((english.length > 3 || chinese.length >= 2) && !companies.find(c => c.chinese === chinese)) {
+        companies.push({
+          english: english,
+          chinese: chinese,
+          source: result.url
+        });
+      }
+    }
+
+    // Also check snippet for company patterns
+    // Look for patterns like "寰亞資本管理有限公司" or "TransAsia Private Capital Limited"
+    const snippet = result.snippet || '';
+    const snippetMatch = snippet.match(/([\u4e00-\u9fff]{2,}(?:資本|资本|證券|证券|投資|投资|管理|基金|控股)(?:有限公司|管理)?)/);
+    if (snippetMatch && !companies.find(c => c.chinese === snippetMatch[1])) {
+      // Try to find English name nearby in snippet
+      const engMatch = snippet.match(/([A-Z][a-z]+(?:\s+[A-Z][a-z]+){1,4})\s*(?:Limited|Ltd|Capital|Private|Securities)?/);
+      companies.push({
+        english: engMatch?.[1] || '',
+        chinese: snippetMatch[1],
+        source: result.url
+      });
+    }
+  }
+
+  // Dedupe by Chinese name
+  const seen = new Set<string>();
+  return companies.filter(c => {
+    if (seen.has(c.chinese)) return false;
+    seen.add(c.chinese);
+    return true;
+  });
+}
+
+/**
+ * Search for adverse media about a company
+ */
+export async function searchCompanyAdverseMedia(
+  company: DetectedCompany,
+  signal?: AbortSignal,
+  tracker?: MetricsTracker
+): Promise<BatchSearchResult[]> {
+  const results: BatchSearchResult[] = [];
+
+  // Build queries with adverse keywords
+  const queries: string[] = [];
+
+  if (company.english && company.english.length > 3) {
+    queries.push(`"${company.english}" lawsuit OR sued OR debt OR scandal OR fraud`);
+  }
+  if (company.chinese && company.chinese.length >= 2) {
+    queries.push(`"${company.chinese}" 訴訟 OR 醜聞 OR 債務 OR 欺詐 OR 調查 OR 違規`);
+  }
+
+  for (const query of queries) {
+    if (signal?.aborted) break;
+    try {
+      const searchResults = await searchGoogle(query, 1, 10, signal);
+      tracker?.recordQuery(searchResults.length);
+      for (const r of searchResults) {
+        results.push({
+          url: r.link,  // SearchResult uses 'link' not 'url'
+          title: r.title,
+          snippet: r.snippet || '',
+          query: query,
+        });
+      }
+    } catch (e) {
+      console.error(`[COMPANY_EXPANSION] Search failed for ${company.chinese}:`, e);
+    }
+  }
+
+  // Dedupe by URL
+  const seen = new Set<string>();
+  return results.filter(r => {
+    if (seen.has(r.url)) return false;
+    seen.add(r.url);
+    return true;
+  });
+}
+
+/**
+ * Check if the screening subject is a company (vs an individual)
+ */
+export function isCompanyScreening(name: string): boolean {
+  const companyIndicators = [
+    /公司$/, /集团$/, /集團$/, /Corp/i, /Inc\b/i, /Ltd/i, /Limited/i, /Group/i,
+    /Corporation/i, /Holdings/i, /Enterprise/i, /Co\.$/i, /LLC/i, /PLC/i,
+    /有限$/, /股份$/
+  ];
+  return companyIndicators.some(p => p.test(name));
+}
+
+/**
+ * Deduplicate companies by normalizing English/Chinese names
+ */
+export function deduplicateCompanies(companies: DetectedCompany[]): DetectedCompany[] {
+  const seen = new Set<string>();
+  return companies.filter(c => {
+    const key = (c.chinese || c.english || '').toLowerCase().trim();
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
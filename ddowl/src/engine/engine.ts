@@ -0,0 +1,348 @@
+// src/engine/engine.ts
+// Phase-based v4 screening pipeline. The SSE endpoint, CLI, replay and tests all drive this.
+
+import { MetricsTracker } from '../metrics/tracker.js';
+import { getBenchmarkCase } from '../metrics/benchmarks.js';
+import { getChineseVariantsLLM } from '../utils/chinese.js';
+import { isChineseName } from '../searchStrings.js';
+import type { ScreeningSession } from '../session-store.js';
+import { redisStore } from './store.js';
+import { buildTemplateEntries } from './templates.js';
+import { gatherPhase } from './phases/gather.js';
+import { companyExpansionPhase } from './phases/company-expansion.js';
+import { profilePhase, createSubjectProfile } from './phases/profile.js';
+import { companyRegulatoryPhase } from './phases/company-regulatory.js';
+import { subsidiariesPhase } from './phases/subsidiaries.js';
+import { historyPhase } from './phases/history.js';
+import { eliminatePhase } from './phases/eliminate.js';
+import { titleDedupePhase } from './phases/title-dedupe.js';
+import { clusterPhase } from './phases/cluster.js';
+import { categorizePhase } from './phases/categorize.js';
+import { analyzePhase } from './phases/analyze.js';
+import { consolidatePhase } from './phases/consolidate.js';
+import { litigationPhase } from './phases/litigation.js';
+import { pepPhase } from './phases/pep.js';
+import { sanctionsPhase } from './phases/sanctions.js';
+import { finalizePhase } from './phases/finalize.js';
+import type {
+  ScreeningContext, ScreeningHost, ScreeningInput, ScreeningPhase, ScreeningPhaseName,
+  ScreeningState, ScreeningStateKey, ScreeningStore, UrlTracker,
+} from './types.js';
+
+// Full v4 pipeline, in order. Insert new phases here — hosts don't need to change.
+export const SCREENING_PHASES: ScreeningPhase[] = [
+  gatherPhase,
+  companyExpansionPhase,
+  profilePhase,
+  companyRegulatoryPhase,
+  subsidiariesPhase,
+  historyPhase,
+  eliminatePhase,
+  titleDedupePhase,
+  clusterPhase,
+  categorizePhase,
+  analyzePhase,
+  consolidatePhase,
+  litigationPhase,
+  pepPhase,
+  sanctionsPhase,
+  finalizePhase,
+];
+
+/**
+ * Phases from `from` to `to` inclusive (e.g. replay runs 'eliminate' → 'consolidate').
+ */
+export function phaseRange(from: ScreeningPhaseName, to: ScreeningPhaseName): ScreeningPhase[] {
+  const start = SCREENING_PHASES.findIndex(p => p.name === from);
+  const end = SCREENING_PHASES.findIndex(p => p.name === to);
+  return SCREENING_PHASES.slice(start, end + 1);
+}
+
+export interface ScreeningEngineOptions {
+  store?: ScreeningStore;                  // Default: Redis sessions
+  host?: ScreeningHost;                    // Default: events are only kept in the event log
+  signal?: AbortSignal;                    // Abort (client disconnect, superseded run)
+  phases?: ScreeningPhase[];               // Default: SCREENING_PHASES
+  funnel?: boolean;                        // Collect funnel snapshots (default: subject has a benchmark case)
+  initialState?: Partial<ScreeningState>;  // Seed phase outputs when starting mid-pipeline
+}
+
+// 'complete': ran to the end (or finished early with nothing to screen)
+// 'stopped': paused, aborted or superseded — the session holds the checkpoint to resume from
+export type ScreeningOutcome = 'complete' | 'stopped';
+
+function createUrlTracker(): UrlTracker {
+  return {
+    gathered: [],
+    programmaticElimination: {
+      passed: [],
+      bypassed: [],
+      eliminated: {
+        noise_domain: [],
+        noise_title_pattern: [],
+        name_char_separation: [],
+        missing_dirty_word: [],
+      },
+    },
+    categorized: { red: [], amber: [], green: [] },
+    eliminated: [],
+    processed: [],
+  };
+}
+
+function createState(subjectName: string): ScreeningState {
+  return {
+    allResults: [],
+    detectedCompanies: [],
+    bioResults: [],
+    profile: createSubjectProfile(subjectName, [subjectName]),
+    extractedSubsidiaries: [],
+    history: null,
+    passed: [],
+    progEliminated: [],
+    bypassed: [],
+    breakdown: { gov_domain_bypass: 0, noise_domain: 0, trash_domain: 0, noise_title_pattern: 0, name_char_separation: 0, missing_dirty_word: 0, part_of_longer_name: 0, learned_rule: 0 },
+    passedEliminationCount: 0,
+    titleDedupeDuplicates: [],
+    parkedArticles: [],
+    clusterStats: { totalClusters: 0, articlesToAnalyze: 0, articlesParked: 0 },
+    categorized: { red: [], amber: [], green: [] },
+    findings: [],
+    consolidated: [],
+    litigation: null,
+    pep: null,
+    sanctions: null,
+    cleanResults: {},
+    learningRules: null,
+    credibility: null,
+  };
+}
+
+// The state fields a phase declared as its inputs
+function pickInputs<K extends ScreeningStateKey>(state: ScreeningState, keys: readonly K[]): Pick<ScreeningState, K> {
+  const input = {} as Pick<ScreeningState, K>;
+  for (const key of keys) input[key] = state[key];
+  return input;
+}
+
+export class ScreeningEngine {
+  readonly context: ScreeningContext;
+  readonly state: ScreeningState;  // Phase outputs so far (read by hosts once the run ends)
+  private readonly store: ScreeningStore;
+  private readonly phases: ScreeningPhase[];
+  private existingSession: ScreeningSession | null | undefined;
+
+  constructor(input: ScreeningInput, options: ScreeningEngineOptions = {}) {
+    const store = options.store || redisStore;
+    const host = options.host;
+    const subjectName = input.subjectName;
+    this.store = store;
+    this.phases = options.phases || SCREENING_PHASES;
+
+    const funnel = options.funnel ?? !!getBenchmarkCase(subjectName);
+    const eventLog: any[] = [];
+
+    const ctx: ScreeningContext = {
+      subjectName,
+      input,
+      nameVariations: [subjectName],
+      templateEntries: [],
+      sessionId: '',
+      // Generate unique connection ID to prevent stale connections from updating session
+      connectionId: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      session: null,
+      tracker: new MetricsTracker(subjectName),
+      signal: options.signal || new AbortController().signal,
+      startTime: Date.now(),
+      funnelPhases: funnel ? [] : null,
+      pastAnalyze: false,
+      eventLog,
+      urlTracker: createUrlTracker(),
+
+      emit(event) {
+        eventLog.push({ timestamp: new Date().toISOString(), ...event });
+        host?.emit(event);
+      },
+      checkpoint(updates) {
+        return store.update(ctx.sessionId, updates, ctx.connectionId);
+      },
+      async isPaused() {
+        try {
+          const session = await store.get(ctx.sessionId);
+          return session?.isPaused === true;
+        } catch (e) {
+          console.error(`[PAUSE CHECK] Error checking pause state for ${ctx.sessionId}:`, e);
+          return false;
+        }
+      },
+      isOwner() {
+        return store.isStillOwner(ctx.sessionId, ctx.connectionId);
+      },
+      isDisconnected() {
+        return host?.isDisconnected?.() ?? false;
+      },
+    };
+    this.context = ctx;
+    this.state = { ...createState(subjectName), ...options.initialState };
+  }
+
+  /**
+   * Look up the session being resumed (input.sessionId). Null when starting fresh.
+   */
+  async loadSession(): Promise<ScreeningSession | null> {
+    if (this.existingSession !== undefined) return this.existingSession;
+
+    const { sessionId } = this.context.input;
+    this.existingSession = null;
+    if (sessionId) {
+      this.existingSession = await this.store.get(sessionId);
+      if (this.existingSession) {
+        console.log(`[V4] Resuming session ${sessionId} from phase ${this.existingSession.currentPhase}, index ${this.existingSession.currentIndex}`);
+      } else {
+        console.log(`[V4] Session ${sessionId} not found, starting fresh`);
+      }
+    }
+    return this.existingSession;
+  }
+
+  async run(): Promise<ScreeningOutcome> {
+    const ctx = this.context;
+    const { input, subjectName } = ctx;
+    let existingSession = await this.loadSession();
+    ctx.startTime = Date.now();
+
+    // Name variations: always include main name
+    const nameVariations = [subjectName];
+    for (const v of input.nameVariations || []) {
+      const trimmed = v.trim();
+      if (trimmed && trimmed !== subjectName && !nameVariations.includes(trimmed)) nameVariations.push(trimmed);
+    }
+
+    // For Chinese language: auto-generate Simplified/Traditional variants using the LLM
+    // Skip on reconnect — variants are already stored in the session
+    if (!existingSession && input.languages.includes('chinese')) {
+      const currentNames = nameVariations.filter(n => isChineseName(n));
+      for (const name of currentNames) {
+        const variants = await getChineseVariantsLLM(name);
+        for (const variant of variants) {
+          if (!nameVariations.includes(variant)) {
+            nameVariations.push(variant);
+          }
+        }
+      }
+    }
+    // On reconnect, use stored variations from session
+    if (existingSession?.variations) {
+      nameVariations.length = 0;
+      nameVariations.push(...existingSession.variations);
+    }
+    ctx.nameVariations = nameVariations;
+    ctx.templateEntries = buildTemplateEntries(nameVariations, input.languages);
+
+    if (existingSession && input.sessionId) {
+      // Reconnection: reuse existing session
+      const sessionId = input.sessionId;
+      ctx.sessionId = sessionId;
+
+      // Take ownership of the session - this will prevent the old connection from updating it
+      console.log(`[V4] Taking ownership: sessionId=${sessionId.slice(0, 8)}, newConnId=${ctx.connectionId.slice(0, 8)}`);
+      await this.store.update(sessionId, { connectionId: ctx.connectionId });
+      console.log(`[V4] Took ownership of session with connectionId: ${ctx.connectionId}`);
+
+      // CRITICAL: Re-fetch session after taking ownership to get the latest state.
+      // The old connection may have updated the session (currentIndex, findings, phase, etc.)
+      // between when we first read it and when we took ownership.
+      const freshSession = await this.store.get(sessionId);
+      if (freshSession) {
+        existingSession = freshSession;
+        console.log(`[V4] Refreshed session: phase=${freshSession.currentPhase}, index=${freshSession.currentIndex}, findings=${freshSession.findings?.length || 0}`);
+      }
+      ctx.session = existingSession;
+      console.log(`[V4] Restoring from phase: ${existingSession.currentPhase}`);
+
+      // If screening is already complete, don't re-run the pipeline — just notify client
+      if (existingSession.currentPhase === 'complete') {
+        console.log(`[V4] Screening already complete, returning cached results`);
+        ctx.emit({ type: 'session', sessionId });
+        ctx.emit({ type: 'status', message: 'Screening already complete — reconnected to cached results' });
+        ctx.emit({ type: 'complete', message: 'Screening complete (cached)' });
+        return 'complete';
+      }
+    } else {
+      // New screening: create fresh session
+      ctx.sessionId = `${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+      await this.store.create(ctx.sessionId, {
+        name: subjectName,
+        variations: nameVariations,
+        language: input.language || input.languages.join(','),
+        gatheredResults: [],
+        categorized: { red: [], amber: [], green: [] },
+        passedElimination: [],
+        currentPhase: 'gather',
+        currentIndex: 0,
+        findings: [],
+        connectionId: ctx.connectionId,  // Track which connection owns this session
+      });
+    }
+
+    // Send session ID to client (for reconnection tracking)
+    ctx.emit({ type: 'session', sessionId: ctx.sessionId });
+
+    // If reconnecting, send status so user knows where we are
+    if (ctx.session) {
+      this.emitReconnectStatus(ctx.session);
+    }
+
+    for (const phase of this.phases) {
+      // On reconnect each phase works out from the session whether it already finished
+      // (restore its output, skip it) or where to pick up
+      const resumed = ctx.session && phase.resume ? await phase.resume(ctx.session, ctx) : null;
+      if (resumed && 'done' in resumed) {
+        Object.assign(this.state, resumed.done);
+        continue;
+      }
+
+      const { outcome, output } = await phase.run(pickInputs(this.state, phase.inputs), ctx, resumed?.from);
+      Object.assign(this.state, output);
+      if (outcome === 'stop') return 'stopped';
+
+      const updates = phase.checkpoint?.(output, ctx);
+      if (updates) await ctx.checkpoint(updates);
+      if (outcome === 'done') return 'complete';
+    }
+    return 'complete';
+  }
+
+  private emitReconnectStatus(session: ScreeningSession): void {
+    const lastSeenBatch = this.context.input.lastSeenBatch || 0;
+    const lastSeenArticle = this.context.input.lastSeenArticle || 0;
+    const phase = session.currentPhase;
+    const phaseName = phase === 'gather' ? 'gathering' : phase === 'eliminate' ? 'filtering' : phase === 'cluster' ? 'clustering' : phase === 'categorize' ? 'categorizing' : phase === 'analyze' ? 'analyzing' : 'consolidating';
+    const currentBatch = session.categorizeBatchIndex || 0;
+    const currentArticle = session.currentIndex || 0;
+    const totalArticles = session.categorized ? (session.categorized.red.length + session.categorized.amber.length) : 0;
+    const progress = phase === 'analyze' ? `${currentArticle}/${totalArticles}` : '';
+
+    // Calculate what was missed while disconnected
+    const missedBatches = currentBatch > lastSeenBatch ? `batches ${lastSeenBatch + 1}-${currentBatch}` : null;
+    const missedArticles = currentArticle > lastSeenArticle ? `articles ${lastSeenArticle + 1}-${currentArticle}` : null;
+
+    let missedMessage = '';
+    if (missedBatches || missedArticles) {
+      const missed = [missedBatches, missedArticles].filter(Boolean).join(', ');
+      missedMessage = `While disconnected: completed ${missed}. `;
+    }
+
+    this.context.emit({
+      type: 'reconnect_status',
+      phase,
+      phaseName,
+      progress,
+      message: `${missedMessage}Connection restored. Resuming ${phaseName} phase${progress ? ` at ${progress}` : ''}...`,
+      findingsCount: session.findings.length,
+      // Include missed progress details for client to display
+      missedBatches: currentBatch > lastSeenBatch ? { from: lastSeenBatch + 1, to: currentBatch } : null,
+      missedArticles: currentArticle > lastSeenArticle ? { from: lastSeenArticle + 1, to: currentArticle } : null,
+    });
+  }
+}
@@ -0,0 +1,340 @@
+// src/engine/phases/analyze.ts
+// Phase 4: fetch and analyze the RED/AMBER results. Checkpoints after every article.
+
+import { fetchPageContent, analyzeWithLLM, mergeProfileFacts } from '../../analyzer.js';
+import { isValidUrl } from '../../deduplicator.js';
+import { dateFromUrl, extractPublicationDate } from '../../extraction/dates.js';
+import { parseHKRegulatorPage, recordNamesSubject, regulatorAnalysis } from '../../hk-regulators.js';
+import type { Provider } from '../../metrics/costs.js';
+import { sessionReached } from '../resume.js';
+import type { RawFinding } from '../../types.js';
+import type { ScreeningPhase } from '../types.js';
+
+// Articles analyzed so far and the findings they produced
+interface AnalyzeProgress {
+  index: number;
+  findings: RawFinding[];
+}
+
+export const analyzePhase: ScreeningPhase<'categorized' | 'profile', 'findings' | 'profile', AnalyzeProgress> = {
+  name: 'analyze',
+  inputs: ['categorized', 'profile'],
+  outputs: ['findings', 'profile'],
+
+  resume(session, ctx) {
+    if (!sessionReached(session, 'analyze')) return null;
+    const findings = session.findings || [];
+    // Safety: ensure currentIndex is a valid number, default to 0 if missing
+    const index = typeof session.currentIndex === 'number' ? session.currentIndex : 0;
+    if (index === 0 && session.currentPhase === 'analyze') {
+      console.warn(`[V4] WARNING: currentIndex was ${session.currentIndex} (type: ${typeof session.currentIndex}), starting analysis from beginning`);
+      console.warn(`[V4] Session keys: ${Object.keys(session).join(', ')}`);
+      console.warn(`[V4] Session findings: ${session.findings?.length || 0}, phase: ${session.currentPhase}`);
+    } else {
+      console.log(`[V4] Resuming analyze from index ${index}, ${findings.length} findings restored`);
+    }
+    ctx.emit({ type: 'analyze_resume', fromIndex: index, totalFindings: findings.length });
+
+    // Consolidation already ran on these findings — nothing left to analyze
+    if (sessionReached(session, 'consolidate') && session.consolidatedFindings) {
+      return { done: { findings } };
+    }
+    return { from: { index, findings } };
+  },
+
+  async run(input, ctx, from) {
+    const { subjectName, nameVariations, sessionId, tracker, signal } = ctx;
+    const analyzeStartIndex = from?.index || 0;
+    const restoredFindings = from?.findings || ctx.input.restoredFindings || [];
+    const categorized = input.categorized;
+    // Enriched with facts found along the way (mergeProfileFacts mutates it)
+    const subjectProfile = structuredClone(input.profile);
+
+    const toProcess = [...categorized.red, ...categorized.amber];
+
+    if (toProcess.length === 0) {
+      ctx.pastAnalyze = true;  // Prevent disconnect from aborting — finalize must save the zero-findings report
+      return { outcome: 'next', output: { findings: [] } };
+    }
+
+    ctx.emit({ type: 'phase', phase: 4, name: 'ANALYZE', message: `Analyzing ${toProcess.length} flagged results...` });
+
+    // Initialize with restored findings from previous connection
+    const allFindings: RawFinding[] = [...restoredFindings];
+    if (restoredFindings.length > 0) {
+      console.log(`[V4] Starting analysis with ${restoredFindings.length} restored findings`);
+    }
+    if (analyzeStartIndex > 0) {
+      console.log(`[V4] Resuming analysis from index ${analyzeStartIndex}`);
+    }
+    const processedUrls = new Set<string>();
+
+    // Eagerly save current progress at analyze phase start so a quick re-disconnect preserves position
+    if (analyzeStartIndex > 0 || restoredFindings.length > 0) {
+      try {
+        await ctx.checkpoint({ currentIndex: analyzeStartIndex, findings: allFindings });
+        console.log(`[V4] Eager save at analyze start: currentIndex=${analyzeStartIndex}, findings=${allFindings.length}`);
+      } catch (saveErr) {
+        console.error(`[V4] Failed eager save at analyze start:`, saveErr);
+      }
+    }
+
+    for (let i = analyzeStartIndex; i < toProcess.length; i++) {
+      // Check if aborted (client reconnected, starting new screening)
+      if (signal.aborted) {
+        console.log(`[V4] Analyze aborted at ${i + 1}/${toProcess.length} for: ${subjectName}`);
+        // Save progress before aborting so next reconnect resumes from here
+        try {
+          await ctx.checkpoint({ currentIndex: i, findings: allFindings });
+          console.log(`[V4] Saved progress on abort: currentIndex=${i}`);
+        } catch (saveErr) {
+          console.error(`[V4] Failed to save progress on abort:`, saveErr);
+        }
+        return { outcome: 'stop', output: {} };
+      }
+
+      // Check if this connection still owns the session (cross-instance abort)
+      if (!await ctx.isOwner()) {
+        console.log(`[V4] Ownership lost at ${i + 1}/${toProcess.length}, stopping`);
+        return { outcome: 'stop', output: {} };
+      }
+
+      // Check if output stream is still alive (prevents zombie processing)
+      if (ctx.isDisconnected()) {
+        console.log(`[V4] Response stream dead at article ${i + 1}/${toProcess.length}, stopping`);
+        try {
+          await ctx.checkpoint({ currentIndex: i, findings: allFindings });
+        } catch (e) { /* ignore */ }
+        return { outcome: 'stop', output: {} };
+      }
+
+      // Check if user paused the session
+      if (await ctx.isPaused()) {
+        // Save current position before exiting so resume starts here
+        await ctx.checkpoint({ currentIndex: i, findings: allFindings });
+        console.log(`[V4] Session ${sessionId} paused at analyze ${i + 1}/${toProcess.length}, saved currentIndex=${i}`);
+        ctx.emit({ type: 'paused', phase: 'analyze', articleIndex: i + 1 });
+        return { outcome: 'stop', output: {} };
+      }
+
+      const item = toProcess[i];
+
+      // Skip duplicates
+      if (processedUrls.has(item.url)) {
+        ctx.urlTracker.eliminated.push({ url: item.url, query: item.query, reason: 'duplicate' });
+        ctx.emit({
+          type: 'analyze_skip',
+          index: i + 1,
+          total: toProcess.length,
+          url: item.url,
+          title: item.title,
+          reason: 'duplicate'
+        });
+        // Save progress before continue to ensure reconnect resumes from correct position
+        await ctx.checkpoint({ currentIndex: i + 1, findings: allFindings });
+        continue;
+      }
+      processedUrls.add(item.url);
+
+      // Skip invalid URLs
+      if (!isValidUrl(item.url)) {
+        ctx.urlTracker.eliminated.push({ url: item.url, query: item.query, reason: 'invalid_url' });
+        ctx.emit({
+          type: 'analyze_skip',
+          index: i + 1,
+          total: toProcess.length,
+          url: item.url,
+          title: item.title,
+          reason: 'invalid_url'
+        });
+        // Save progress before continue to ensure reconnect resumes from correct position
+        await ctx.checkpoint({ currentIndex: i + 1, findings: allFindings });
+        continue;
+      }
+
+      ctx.emit({
+        type: 'analyze_start',
+        index: i + 1,
+        total: toProcess.length,
+        url: item.url,
+        title: item.title,
+        category: item.category,
+      });
+
+      try {
+        // Timeout wrapper: max 45 seconds for fetch+analyze combined
+        const ANALYZE_TIMEOUT_MS = 45000;
+        const controller = new AbortController();
+        const analyzeTimeout = setTimeout(() => controller.abort(), ANALYZE_TIMEOUT_MS);
+
+        // Helper to run fetch+analyze with abort signal
+        const analyzeArticle = async (signal: AbortSignal) => {
+          const content = await fetchPageContent(item.url, signal);
+          tracker.recordFetch(content.length > 100);
+
+          if (content.length < 100) {
+            return { content: '', analysis: null };
+          }
+
+          // SFC / HKEX / ICAC / Companies Registry pages with the subject as a named party are parsed,
+          // not sent to the LLM; pages that only mention the subject get the usual analysis
+          const regulatorRecord = parseHKRegulatorPage(item.url, item.title, content);
+          if (regulatorRecord && recordNamesSubject(regulatorRecord, [subjectName, ...nameVariations])) {
+            return { content, analysis: regulatorAnalysis(regulatorRecord, subjectName) };
+          }
+
+          const analysis = await analyzeWithLLM(content, subjectName, item.query, item.url, {
+            companies: subjectProfile.associatedCompanies.map(c => c.name),
+            role: subjectProfile.currentRole?.title,
+            associates: subjectProfile.associatedPeople.map(p => p.name),
+          },
+            (provider, input, output, usage) => tracker.recordLLMCall(provider as Provider, 'analysis', input, output, usage)
+          );
+          return { content, analysis };
+        };
+
+        let result: { content: string; analysis: any };
+        try {
+          result = await analyzeArticle(controller.signal);
+        } catch (abortErr: any) {
+          if (abortErr?.name === 'AbortError' || controller.signal.aborted) {
+            throw new Error('FETCH_TIMEOUT');
+          }
+          throw abortErr;
+        } finally {
+          clearTimeout(analyzeTimeout);
+        }
+
+        if (!result.analysis) {
+          // Flag for manual review if triage thought it was important
+          ctx.urlTracker.processed.push({ url: item.url, title: item.title, query: item.query, result: 'FAILED', headline: item.title });
+          allFindings.push({
+            url: item.url,
+            title: item.title,
+            severity: item.category === 'RED' ? 'RED' : 'AMBER',
+            headline: item.title,
+            summary: `${item.reason}. Source: ${item.title}. Full article content was not accessible at time of screening.`,
+            triageClassification: item.category,
+            fetchFailed: true,
+            snippetBased: true,
+            clusterId: item.clusterId,
+            clusterLabel: item.clusterLabel,
+            publishedAt: dateFromUrl(item.url) || undefined,
+          });
+          // Save progress before continue to ensure reconnect resumes from correct position
+          await ctx.checkpoint({ currentIndex: i + 1, findings: allFindings });
+          continue;
+        }
+
+        const analysis = result.analysis;
+        tracker.recordAnalysis(analysis.isAdverse, analysis.severity as 'RED' | 'AMBER');
+
+        ctx.emit({
+          type: 'analyze_result',
+          url: item.url,
+          title: item.title,
+          isAdverse: analysis.isAdverse,
+          severity: analysis.severity,
+          headline: analysis.headline,
+          matchConfidence: analysis.matchConfidence,
+          matchReasons: analysis.matchReasons,
+          clusterId: item.clusterId,
+          clusterLabel: item.clusterLabel,
+          // Include accumulated findings for client to restore on reconnect
+          _findings: allFindings,
+        });
+
+        // Merge profile facts from this article
+        if (analysis.profileFacts && analysis.profileFacts.length > 0) {
+          const updates = mergeProfileFacts(subjectProfile, analysis.profileFacts, item.url);
+          if (updates.length > 0) {
+            ctx.emit({ type: 'profile_update', updates });
+          }
+        }
+
+        if (analysis.isAdverse) {
+          ctx.urlTracker.processed.push({ url: item.url, title: item.title, query: item.query, result: 'ADVERSE', severity: analysis.severity, headline: analysis.headline });
+          allFindings.push({
+            url: item.url,
+            title: item.title,
+            severity: analysis.severity as 'RED' | 'AMBER',
+            headline: analysis.headline,
+            summary: analysis.summary,
+            triageClassification: item.category,
+            clusterId: item.clusterId,
+            clusterLabel: item.clusterLabel,
+            matchConfidence: analysis.matchConfidence,
+            matchReasons: analysis.matchReasons,
+            articleContent: result.content?.slice(0, 6000) || undefined,
+            publishedAt: extractPublicationDate(item.url, result.content) || undefined,
+          });
+        } else {
+          // LLM said "Clear" - but if triage flagged RED/AMBER, we should preserve for manual review
+          // The original categorization was based on title/snippet which may have real info
+          // that the LLM couldn't verify (403 error, paywall, garbage content, etc.)
+
+          if (item.category === 'RED' || item.category === 'AMBER') {
+            // Detect suspicious content patterns
+            const fetchedContent = result.content || '';
+            const contentLower = fetchedContent.toLowerCase();
+            const isShortContent = fetchedContent.length < 500;
+            const isErrorPage = contentLower.includes('403') || contentLower.includes('forbidden') ||
+                               contentLower.includes('access denied') || contentLower.includes('not found') ||
+                               contentLower.includes('page not available') || contentLower.includes('无法访问');
+            const subjectInContent = nameVariations.some((v: string) => fetchedContent.includes(v)) ||
+              contentLower.includes(subjectName.toLowerCase());
+
+            // Determine reason for further review - use clearer wording
+            let furtherReason = 'Unverified - needs manual review';
+            if (isShortContent) furtherReason = 'Content too short to verify';
+            else if (isErrorPage) furtherReason = 'Error page - needs manual check';
+            else if (!subjectInContent) furtherReason = 'Subject not in content - verify manually';
+
+            // Log explicitly so it's visible in Cloud Logs
+            console.log(`[SPOTLIGHT] FURTHER: "${item.title.slice(0, 60)}" (category: ${item.category}, reason: ${furtherReason}, triage: ${item.reason})`);
+
+            ctx.urlTracker.processed.push({ url: item.url, title: item.title, query: item.query, result: 'FURTHER', headline: furtherReason });
+            // Only send further_link event (not analyze_result to avoid duplicate logs)
+            ctx.emit({
+              type: 'further_link',
+              url: item.url,
+              title: item.title,
+              reason: furtherReason,
+              originalCategory: item.category,
+              triageReason: item.reason,
+            });
+          } else {
+            ctx.urlTracker.processed.push({ url: item.url, title: item.title, query: item.query, result: 'CLEARED' });
+          }
+        }
+      } catch (err: any) {
+        const isTimeout = err?.message === 'FETCH_TIMEOUT';
+        const isStreamError = err?.code === 'ERR_STREAM_DESTROYED' || err?.code === 'ERR_STREAM_WRITE_AFTER_END';
+        if (isStreamError) {
+          // Connection closed mid-article - not an article error, just a disconnect
+          console.log(`[V4] Connection closed during analysis of ${item.url}`);
+        } else {
+          ctx.urlTracker.processed.push({ url: item.url, title: item.title, query: item.query, result: 'FAILED', headline: isTimeout ? 'Timeout (2min)' : 'Fetch/analyze error' });
+          console.error(`[V4] Analysis ${isTimeout ? 'timed out' : 'failed'} for ${item.url}:`, err);
+          ctx.emit({ type: 'analyze_error', url: item.url, error: isTimeout ? 'Timeout (2min) - skipped' : 'Failed to fetch/analyze' });
+        }
+      }
+
+      // Save progress AFTER this article is fully processed (for mid-analyze resume)
+      // Use i + 1 so on resume we start with the NEXT article, not re-analyze this one
+      try {
+        const profileUpdate = ((i + 1) % 5 === 0) ? { profile: subjectProfile } : {};
+        const saved = await ctx.checkpoint({ currentIndex: i + 1, findings: allFindings, ...profileUpdate });
+        if (!saved) {
+          console.log(`[V4] Session update rejected (superseded), stopping at ${i + 1}/${toProcess.length}`);
+          return { outcome: 'stop', output: {} };
+        }
+      } catch (saveErr) {
+        console.error(`[V4] PROGRESS_SAVE_ERROR: article ${i + 1}/${toProcess.length}:`, saveErr);
+        // Don't rethrow - continue analyzing even if progress save fails
+      }
+    }
+
+    return { outcome: 'next', output: { findings: allFindings, profile: subjectProfile } };
+  },
+};
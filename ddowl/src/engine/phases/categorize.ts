@@ -0,0 +1,273 @@
+// src/engine/phases/categorize.ts
+// Phase 3: categorize (batched LLM triage into RED/AMBER/GREEN), then URL dedupe and title grouping.
+
+import { categorizeAll } from '../../triage.js';
+import { deduplicateResults, groupByTitleSimilarity } from '../../deduplicator.js';
+import { applyCategoryRules, flushRuleFirings } from '../../learning-rules.js';
+import { sessionReached } from '../resume.js';
+import type { Provider } from '../../metrics/costs.js';
+import type { Categorized, ScreeningContext, ScreeningPhase } from '../types.js';
+
+// Batches categorized so far and what they produced
+interface CategorizeProgress {
+  batchIndex: number;
+  partial: Categorized | null;
+}
+
+// Record the final categorization in metrics and the URL tracker (events were already sent per batch)
+function trackCategorized(categorized: Categorized, ctx: ScreeningContext): void {
+  ctx.tracker.recordTriage(categorized.red.length, categorized.amber.length, categorized.green.length);
+  for (const item of categorized.red) {
+    ctx.urlTracker.categorized.red.push({ url: item.url, title: item.title, query: item.query, reason: item.reason });
+  }
+  for (const item of categorized.amber) {
+    ctx.urlTracker.categorized.amber.push({ url: item.url, title: item.title, query: item.query, reason: item.reason });
+  }
+  for (const item of categorized.green) {
+    ctx.urlTracker.categorized.green.push({ url: item.url, title: item.title, query: item.query, reason: item.reason });
+  }
+}
+
+export const categorizePhase: ScreeningPhase<'passed' | 'profile' | 'learningRules' | 'credibility', 'categorized', CategorizeProgress> = {
+  name: 'categorize',
+  inputs: ['passed', 'profile', 'learningRules', 'credibility'],
+  outputs: ['categorized'],
+
+  resume(session, ctx) {
+    if (sessionReached(session, 'analyze')) {
+      const categorized = session.categorized;
+      if (!categorized || (!categorized.red && !categorized.amber)) {
+        // SAFETY: Session says we're past categorize (phase=analyze/consolidate/complete) but
+        // categorized data is missing. This indicates session corruption (e.g., stale connection
+        // advanced the phase without saving categorized data). Re-run categorize from scratch.
+        console.error(`[V4] SESSION CORRUPTION DETECTED: phase=${session.currentPhase} but categorized data is missing. Phase was advanced without categorization data. Re-running categorize from scratch.`);
+        return null;
+      }
+      // Skip categorize phase - use restored results from session
+      console.log(`[V4] Skipped categorize phase, using restored categorization (${categorized.red.length} RED, ${categorized.amber.length} AMBER)`);
+      trackCategorized(categorized, ctx);
+      return { done: { categorized } };
+    }
+
+    if (session.currentPhase === 'categorize' && session.categorizeBatchIndex && session.categorizeBatchIndex > 0) {
+      // Mid-categorize resume: if we have partial categorization progress
+      const partial = session.categorizePartialResults || null;
+      console.log(`[V4] Resuming categorize from batch ${session.categorizeBatchIndex + 1}, ${partial?.red.length || 0} red, ${partial?.amber.length || 0} amber, ${partial?.green.length || 0} green so far`);
+      ctx.emit({
+        type: 'phase_resumed',
+        phase: 'categorize',
+        message: `Resuming categorize from batch ${session.categorizeBatchIndex + 1}`,
+        partialResults: {
+          red: partial?.red.length || 0,
+          amber: partial?.amber.length || 0,
+          green: partial?.green.length || 0
+        }
+      });
+      return { from: { batchIndex: session.categorizeBatchIndex, partial } };
+    }
+    return null;
+  },
+
+  async run(input, ctx, from) {
+    const { subjectName, sessionId, tracker, signal } = ctx;
+    const categorizeBatchStartIndex = from?.batchIndex || 0;
+    const { passed, profile: subjectProfile, learningRules, credibility } = input;
+
+    // Check if user paused before starting categorization
+    if (await ctx.isPaused()) {
+      console.log(`[V4] Session ${sessionId} paused before categorize phase`);
+      ctx.emit({ type: 'paused', phase: 'categorize' });
+      return { outcome: 'stop', output: {} };
+    }
+
+    const categorizeStart = Date.now();
+
+    // Calculate items to skip for mid-categorize resume
+    const CATEGORIZE_BATCH_SIZE = 50;
+    const itemsToSkip = categorizeBatchStartIndex * CATEGORIZE_BATCH_SIZE;
+    const remainingItems = passed.slice(itemsToSkip);
+
+    // Track partial results for mid-categorize resume
+    // Start with restored partial results if resuming
+    const partialCategorized: Categorized =
+      from?.partial || { red: [], amber: [], green: [] };
+
+    if (categorizeBatchStartIndex > 0) {
+      console.log(`[V4] Resuming categorize from batch ${categorizeBatchStartIndex + 1}, skipping ${itemsToSkip} items, ${remainingItems.length} remaining`);
+      ctx.emit({
+        type: 'phase',
+        phase: 3,
+        name: 'CATEGORIZE',
+        message: `Resuming categorize from batch ${categorizeBatchStartIndex + 1}: ${remainingItems.length} items remaining...`
+      });
+    } else {
+      ctx.emit({ type: 'phase', phase: 3, name: 'CATEGORIZE', message: `Categorizing ${passed.length} results...` });
+    }
+
+    // Categorize remaining items
+    const newCategorized = await categorizeAll(remainingItems, subjectName, subjectProfile, async (progress) => {
+      // Skip session updates if signal is aborted (stale connection)
+      if (signal.aborted) return;
+
+      // Adjust batch number to account for skipped batches
+      const adjustedBatchNumber = progress.batchNumber + categorizeBatchStartIndex;
+
+      // Accumulate results for session persistence
+      partialCategorized.red.push(...progress.batchResult.red);
+      partialCategorized.amber.push(...progress.batchResult.amber);
+      partialCategorized.green.push(...progress.batchResult.green);
+
+      // Send individual categorized_item events AS THEY HAPPEN (not after all batches)
+      for (const item of progress.batchResult.red) {
+        ctx.emit({ type: 'categorized_item', category: 'RED', title: item.title, snippet: item.snippet, query: item.query, reason: item.reason, url: item.url, entityMatch: item.entityMatch, entityReason: item.entityReason });
+      }
+      for (const item of progress.batchResult.amber) {
+        ctx.emit({ type: 'categorized_item', category: 'AMBER', title: item.title, snippet: item.snippet, query: item.query, reason: item.reason, url: item.url, entityMatch: item.entityMatch, entityReason: item.entityReason });
+      }
+      // Don't log GREEN items to reduce noise - there are many
+
+      // Send batch progress summary (use adjusted batch number for consistency)
+      const adjustedTotalBatches = progress.totalBatches + categorizeBatchStartIndex;
+      const adjustedProcessedSoFar = progress.processedSoFar + itemsToSkip;
+      ctx.emit({
+        type: 'categorize_batch_complete',
+        batch: adjustedBatchNumber,
+        totalBatches: adjustedTotalBatches,
+        processedSoFar: adjustedProcessedSoFar,
+        totalItems: passed.length,  // Use total items, not just remaining
+        batchRed: progress.batchResult.red.length,
+        batchAmber: progress.batchResult.amber.length,
+        batchGreen: progress.batchResult.green.length,
+      });
+
+      // Save categorize progress for mid-categorize resume (use adjusted batch number)
+      await ctx.checkpoint({
+        categorizePartialResults: { ...partialCategorized },
+        categorizeBatchIndex: adjustedBatchNumber,
+        currentPhase: 'categorize'
+      });
+    }, signal,
+      (provider, _op, input, output, usage) => tracker.recordLLMCall(provider as Provider, 'triage', input, output, usage)
+    );
+
+    // Merge new results with any restored partial results
+    // partialCategorized already contains both restored + newly categorized items
+    const categorized = partialCategorized;
+
+    // Learned regex rules with a category override the LLM triage
+    if (learningRules) {
+      const moved = applyCategoryRules(categorized, learningRules);
+      await flushRuleFirings(learningRules);
+      if (moved > 0) console.log(`[V4] Learned rules recategorized ${moved} results`);
+    }
+
+    ctx.funnelPhases?.push({
+      phase: 'categorize',
+      articles: [
+        ...categorized.red.map(a => ({ url: a.url, title: a.title, snippet: a.snippet, clusterId: (a as any).clusterId, clusterLabel: (a as any).clusterLabel, classification: 'RED' })),
+        ...categorized.amber.map(a => ({ url: a.url, title: a.title, snippet: a.snippet, clusterId: (a as any).clusterId, clusterLabel: (a as any).clusterLabel, classification: 'AMBER' })),
+        ...categorized.green.map(a => ({ url: a.url, title: a.title, snippet: a.snippet, clusterId: (a as any).clusterId, clusterLabel: (a as any).clusterLabel, classification: 'GREEN' })),
+      ],
+    });
+
+    ctx.emit({
+      type: 'categorize_complete',
+      red: categorized.red.length,
+      amber: categorized.amber.length,
+      green: categorized.green.length,
+      duration: Date.now() - categorizeStart,
+    });
+
+    // Most credible sources first within each category, so URL dedupe and title grouping keep them
+    if (credibility) {
+      categorized.red.sort((a, b) => credibility.compare(a.url, b.url));
+      categorized.amber.sort((a, b) => credibility.compare(a.url, b.url));
+    }
+
+    // === DEDUPLICATE before analyze ===
+    const redDedupe = deduplicateResults(categorized.red);
+    const amberDedupe = deduplicateResults(categorized.amber);
+
+    categorized.red = redDedupe.unique;
+    categorized.amber = amberDedupe.unique;
+
+    const totalDuplicates = redDedupe.duplicateCount + amberDedupe.duplicateCount;
+    if (totalDuplicates > 0) {
+      console.log(`[V4] Deduplication: removed ${redDedupe.duplicateCount} red, ${amberDedupe.duplicateCount} amber duplicates`);
+      ctx.emit({
+        type: 'dedupe',
+        redRemoved: redDedupe.duplicateCount,
+        amberRemoved: amberDedupe.duplicateCount,
+        redCount: categorized.red.length,
+        amberCount: categorized.amber.length,
+      });
+    }
+
+    // === TITLE SIMILARITY GROUPING ===
+    // Group similar titles, keep max 5 per story, park rest for manual review
+    const redGrouped = groupByTitleSimilarity(categorized.red, 5);
+    const amberGrouped = groupByTitleSimilarity(categorized.amber, 5);
+
+    const titleParkedCount = redGrouped.parked.length + amberGrouped.parked.length;
+    if (titleParkedCount > 0) {
+      console.log(`[V4] Title grouping: parked ${redGrouped.parked.length} red, ${amberGrouped.parked.length} amber similar stories`);
+      ctx.emit({
+        type: 'title_grouped',
+        redParked: redGrouped.parked.length,
+        amberParked: amberGrouped.parked.length,
+        redAnalyze: redGrouped.toAnalyze.length,
+        amberAnalyze: amberGrouped.toAnalyze.length,
+      });
+
+      // Send parked items as further_link events
+      for (const item of redGrouped.parked) {
+        ctx.emit({
+          type: 'further_link',
+          url: item.url,
+          title: item.title,
+          reason: 'Similar story covered',
+          originalCategory: 'RED',
+          triageReason: item.reason,
+          isParked: true,  // Don't show as AMBER
+        });
+      }
+      for (const item of amberGrouped.parked) {
+        ctx.emit({
+          type: 'further_link',
+          url: item.url,
+          title: item.title,
+          reason: 'Similar story covered',
+          originalCategory: 'AMBER',
+          triageReason: item.reason,
+          isParked: true,  // Don't show as AMBER
+        });
+      }
+    }
+
+    // Update categorized with grouped results
+    categorized.red = redGrouped.toAnalyze;
+    categorized.amber = amberGrouped.toAnalyze;
+
+    // GUARD: If aborted, do NOT advance phase to 'analyze' — prevents stale connection from corrupting session
+    if (signal.aborted) {
+      console.log(`[V4] Signal aborted after categorize — skipping session update to prevent stale write`);
+      return { outcome: 'stop', output: {} };
+    }
+
+    trackCategorized(categorized, ctx);
+    return { outcome: 'next', output: { categorized } };
+  },
+
+  // Update session with deduplicated categorized results - clear categorize progress fields
+  checkpoint({ categorized }) {
+    if (!categorized) return null;
+    return {
+      categorized,
+      currentPhase: 'analyze',
+      currentIndex: 0,  // Explicitly initialize for analyze phase to prevent undefined on reconnect
+      findings: [],  // Explicitly initialize findings for analyze phase
+      categorizeBatchIndex: undefined,
+      categorizePartialResults: undefined
+    };
+  },
+};
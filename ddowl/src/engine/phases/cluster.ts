@@ -0,0 +1,198 @@
+// src/engine/phases/cluster.ts
+// Phase 2.5: incident clustering (LLM batch). Parks redundant coverage of the same incident.
+
+import { clusterByIncidentLLM, type ClusterProgressCallback, type IncidentCluster } from '../../deduplicator.js';
+import { loadCredibilityIndex } from '../../source-credibility.js';
+import { sessionReached } from '../resume.js';
+import type { ScreeningPhase } from '../types.js';
+
+type ClusterOutput = 'passed' | 'parkedArticles' | 'clusterStats' | 'credibility';
+
+// Batches clustered so far and the clusters they produced
+interface ClusterProgress {
+  batchIndex: number;
+  clusters: IncidentCluster[] | null;
+}
+
+export const clusterPhase: ScreeningPhase<'passed' | 'allResults' | 'progEliminated', ClusterOutput, ClusterProgress> = {
+  name: 'cluster',
+  inputs: ['passed', 'allResults', 'progEliminated'],
+  outputs: ['passed', 'parkedArticles', 'clusterStats', 'credibility'],
+
+  async resume(session, ctx) {
+    if (sessionReached(session, 'categorize') && session.passedElimination) {
+      // Skip clustering - already done in previous session (no phase_skipped event - cleaner logs)
+      console.log(`[V4] Skipped clustering phase, using restored passed results (${session.passedElimination.length} articles)`);
+      return { done: { passed: session.passedElimination, credibility: await loadCredibilityIndex() } };
+    }
+    if (session.currentPhase === 'cluster' && session.clusterBatchIndex && session.clusterBatchIndex > 0) {
+      // Mid-clustering resume: if we have partial clustering progress
+      const clusters = session.clusterBatchResults || null;
+      console.log(`[V4] Resuming clustering from batch ${session.clusterBatchIndex + 1}, ${clusters?.length || 0} clusters so far`);
+      ctx.emit({
+        type: 'phase_resumed',
+        phase: 'cluster',
+        message: `Resuming clustering from batch ${session.clusterBatchIndex + 1}`,
+        clustersRestored: clusters?.length || 0
+      });
+      return { from: { batchIndex: session.clusterBatchIndex, clusters } };
+    }
+    return null;
+  },
+
+  async run(input, ctx, from) {
+    const { subjectName, sessionId, tracker, signal } = ctx;
+    const clusterStartBatchIndex = from?.batchIndex || 0;
+    const restoredClusterBatchResults = from?.clusters || null;
+    let passed = input.passed;
+
+    // Check if user paused before starting clustering
+    if (await ctx.isPaused()) {
+      console.log(`[V4] Session ${sessionId} paused before clustering phase`);
+      ctx.emit({ type: 'paused', phase: 'cluster' });
+      return { outcome: 'stop', output: {} };
+    }
+
+    // Source credibility (static tiers + analyst verdicts) — also used by categorize and consolidate
+    const credibility = await loadCredibilityIndex();
+
+    // Calculate remaining batches for resume message
+    const CLUSTER_BATCH_SIZE = 40;
+    const totalClusterBatches = Math.ceil(passed.length / CLUSTER_BATCH_SIZE);
+    const remainingClusterBatches = totalClusterBatches - clusterStartBatchIndex;
+
+    if (clusterStartBatchIndex > 0) {
+      console.log(`[V4] Resuming clustering from batch ${clusterStartBatchIndex + 1}/${totalClusterBatches}, ${remainingClusterBatches} batches remaining`);
+      ctx.emit({
+        type: 'phase',
+        phase: '2.5',
+        name: 'INCIDENT_CLUSTERING',
+        message: `Resuming clustering from batch ${clusterStartBatchIndex + 1}: ${remainingClusterBatches} batches remaining...`
+      });
+    } else {
+      ctx.emit({
+        type: 'phase',
+        phase: '2.5',
+        name: 'INCIDENT_CLUSTERING',
+        message: `Clustering ${passed.length} articles by incident...`
+      });
+    }
+
+    const clusterStart = Date.now();
+
+    // Progress callback for clustering - sends SSE events AND saves to session for resume
+    const clusterProgress: ClusterProgressCallback = async (progress) => {
+      // Skip all session updates if signal is aborted (stale connection)
+      if (signal.aborted) return;
+
+      if (progress.type === 'batch_start') {
+        ctx.emit({
+          type: 'cluster_batch_start',
+          batch: progress.batch,
+          totalBatches: progress.totalBatches,
+          articlesInBatch: progress.articlesInBatch,
+          message: progress.message,
+        });
+        // Save batch index at START to ensure resume works even if batch doesn't complete
+        if (typeof progress.currentBatchIndex === 'number') {
+          await ctx.checkpoint({
+            clusterBatchIndex: progress.currentBatchIndex,
+            currentPhase: 'cluster'
+          });
+          console.log(`[V4] DEBUG: Saved clusterBatchIndex=${progress.currentBatchIndex} on batch_start`);
+        }
+      } else if (progress.type === 'batch_complete') {
+        ctx.emit({
+          type: 'cluster_batch_complete',
+          batch: progress.batch,
+          totalBatches: progress.totalBatches,
+          clustersFound: progress.clustersFound,
+          clusterLabels: progress.clusterLabels,
+          message: progress.message,
+        });
+
+        // Save cluster progress for mid-clustering resume
+        if (progress.clustersSoFar) {
+          await ctx.checkpoint({
+            clusterBatchIndex: progress.batch,
+            clusterBatchResults: progress.clustersSoFar,
+            currentPhase: 'cluster'
+          });
+        }
+      } else if (progress.type === 'merge_complete') {
+        ctx.emit({
+          type: 'cluster_merge_complete',
+          totalClusters: progress.totalClusters,
+          clusterLabels: progress.clusterLabels,
+          message: progress.message,
+        });
+      }
+    };
+
+    console.log(`[V4] DEBUG: Calling clusterByIncidentLLM with clusterStartBatchIndex=${clusterStartBatchIndex}, restoredClusters=${restoredClusterBatchResults?.length || 0}`);
+    const clusterResult = await clusterByIncidentLLM(passed, subjectName, 5, clusterProgress, clusterStartBatchIndex, restoredClusterBatchResults, signal,
+      (provider, op, input, output, usage) => tracker.recordLLMCall(provider, op, input, output, usage), credibility);
+
+    // Send cluster summary
+    ctx.emit({
+      type: 'incident_clusters',
+      totalArticles: clusterResult.stats.totalArticles,
+      totalClusters: clusterResult.stats.totalClusters,
+      articlesToAnalyze: clusterResult.stats.articlesToAnalyze,
+      articlesParked: clusterResult.stats.articlesParked,
+      clusters: clusterResult.clusters.map(c => ({ label: c.label, count: c.articles.length })),
+      duration: Date.now() - clusterStart,
+    });
+
+    // Hoist clustering stats for funnel summary
+    const clusterStats = { totalClusters: clusterResult.stats.totalClusters, articlesToAnalyze: clusterResult.stats.articlesToAnalyze, articlesParked: clusterResult.stats.articlesParked };
+
+    // Park redundant articles (visible in UI as "further links")
+    // Store parked articles for later inclusion in consolidated findings
+    const parkedArticles = clusterResult.parked;
+    for (const item of clusterResult.parked) {
+      ctx.emit({
+        type: 'further_link',
+        url: item.url,
+        title: item.title,
+        reason: 'Duplicate incident - covered by higher-tier source',
+        isParked: true,  // Don't show as AMBER - just informational
+      });
+    }
+
+    ctx.funnelPhases?.push({
+      phase: 'clustering',
+      articles: [
+        ...clusterResult.toAnalyze.map(a => ({ url: a.url, title: a.title, snippet: a.snippet, clusterId: (a as any).clusterId, clusterLabel: (a as any).clusterLabel })),
+        ...clusterResult.parked.map(a => ({ url: a.url, title: a.title, snippet: a.snippet, clusterId: (a as any).clusterId, clusterLabel: (a as any).clusterLabel, parked: true })),
+      ],
+    });
+
+    // Continue with deduplicated results - clear cluster progress fields
+    passed = clusterResult.toAnalyze;
+
+    // GUARD: If aborted (client disconnected or new connection took over), do NOT update session.
+    // Without this, a stale connection can overwrite phase markers and corrupt session state.
+    if (signal.aborted) {
+      console.log(`[V4] Signal aborted after clustering — skipping session update to prevent stale write`);
+      return { outcome: 'stop', output: {} };
+    }
+
+    const output = { passed, parkedArticles, clusterStats, credibility };
+    if (passed.length === 0) {
+      ctx.emit({ type: 'complete', stats: { totalResults: input.allResults.length, programmaticEliminated: input.progEliminated.length, findings: 0 }, findings: [] });
+      return { outcome: 'done', output };
+    }
+    return { outcome: 'next', output };
+  },
+
+  // Clustering is complete - clear cluster progress fields
+  checkpoint({ passed }) {
+    return {
+      passedElimination: passed,
+      currentPhase: 'categorize',
+      clusterBatchIndex: undefined,
+      clusterBatchResults: undefined
+    };
+  },
+};
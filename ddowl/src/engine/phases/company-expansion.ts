@@ -0,0 +1,142 @@
+// src/engine/phases/company-expansion.ts
+// Phase 1.5: detect associated companies from SFC/registry pages and search for their adverse media.
+
+import { extractCompaniesFromResults, deduplicateCompanies, searchCompanyAdverseMedia } from '../companies.js';
+import type { DetectedCompany } from '../../session-store.js';
+import type { ScreeningPhase } from '../types.js';
+
+// Companies searched so far (null: extract them from the gathered results)
+interface ExpansionProgress {
+  index: number;
+  companies: DetectedCompany[] | null;
+}
+
+export const companyExpansionPhase: ScreeningPhase<'allResults', 'allResults' | 'detectedCompanies', ExpansionProgress> = {
+  name: 'company_expansion',
+  inputs: ['allResults'],
+  outputs: ['allResults', 'detectedCompanies'],
+
+  resume(session, ctx) {
+    const index = session.companyExpansionIndex || 0;
+    if (session.currentPhase === 'gather' && index > 0) {
+      // Mid-company-expansion resume: skip the companies already searched
+      console.log(`[V4] Resuming company expansion from company ${index + 1}, restored ${session.gatheredResults?.length || 0} results`);
+      ctx.emit({
+        type: 'phase_resumed',
+        phase: 'company_expansion',
+        message: `Resuming company expansion from company ${index + 1}`,
+        resultsRestored: session.gatheredResults?.length || 0
+      });
+      return { from: { index, companies: session.detectedCompanies || null } };
+    }
+    if (session.currentPhase !== 'gather') {
+      // Gather was restored, so expansion already ran: nothing left to search, but an
+      // empty gather still has to end the screening
+      return { from: { index: 0, companies: [] } };
+    }
+    return null;
+  },
+
+  async run(input, ctx, from) {
+    const { sessionId, tracker, signal } = ctx;
+    const companyExpansionStartIndex = from?.index || 0;
+    const allResults = [...input.allResults];
+
+    // Use restored companies if resuming mid-company-expansion, otherwise extract from results
+    let detectedCompanies: DetectedCompany[];
+    if (from?.companies) {
+      detectedCompanies = from.companies;
+    } else {
+      const registryCompanies = extractCompaniesFromResults(allResults);
+      detectedCompanies = deduplicateCompanies(registryCompanies);
+    }
+
+    if (detectedCompanies.length > 0) {
+      const resumeInfo = companyExpansionStartIndex > 0 ? ` (resuming from company ${companyExpansionStartIndex + 1})` : '';
+      ctx.emit({
+        type: 'phase',
+        phase: '1.5',
+        name: 'COMPANY_EXPANSION',
+        message: `Detected ${detectedCompanies.length} associated companies from registry pages${resumeInfo}`
+      });
+
+      console.log(`[V4] [COMPANY_EXPANSION] Detected companies:`, detectedCompanies.map(c => c.chinese || c.english));
+
+      // Start from companyExpansionStartIndex to skip already-completed companies on resume
+      for (let compIdx = companyExpansionStartIndex; compIdx < detectedCompanies.length; compIdx++) {
+        // Check if user paused the session
+        if (await ctx.isPaused()) {
+          // Save current position before exiting so resume starts here
+          await ctx.checkpoint({
+            gatheredResults: allResults,
+            companyExpansionIndex: compIdx,
+            detectedCompanies
+          });
+          console.log(`[V4] Session ${sessionId} paused at company expansion ${compIdx + 1}/${detectedCompanies.length}, saved companyExpansionIndex=${compIdx}`);
+          ctx.emit({ type: 'paused', phase: 'company_expansion', companyIndex: compIdx + 1 });
+          return { outcome: 'stop', output: {} };
+        }
+
+        const company = detectedCompanies[compIdx];
+        if (signal.aborted) break;
+
+        const companyName = company.chinese || company.english;
+        ctx.emit({
+          type: 'progress',
+          message: `Searching adverse media for ${companyName} (${compIdx + 1}/${detectedCompanies.length})...`
+        });
+
+        const companyResults = await searchCompanyAdverseMedia(company, signal, tracker);
+
+        if (companyResults.length > 0) {
+          ctx.emit({
+            type: 'progress',
+            message: `Found ${companyResults.length} results for ${companyName}`
+          });
+
+          // Tag results as company-sourced and add to allResults
+          for (const r of companyResults) {
+            (r as any).sourceCompany = companyName;
+            // Only add if URL not already in results
+            if (!allResults.find(existing => existing.url === r.url)) {
+              allResults.push(r);
+            }
+          }
+        } else {
+          ctx.emit({
+            type: 'progress',
+            message: `No adverse media found for ${companyName}`
+          });
+        }
+
+        // Save progress after EACH company (for mid-company-expansion resume)
+        await ctx.checkpoint({
+          gatheredResults: allResults,
+          detectedCompanies,
+          companyExpansionIndex: compIdx + 1,  // 1-indexed: completed companies
+          currentPhase: 'gather'  // Still in gather phase during company expansion
+        });
+      }
+
+      ctx.emit({
+        type: 'phase_complete',
+        phase: '1.5',
+        count: allResults.length,
+        companies: detectedCompanies.map(c => ({ english: c.english, chinese: c.chinese })),
+        message: `Company expansion complete. Total results: ${allResults.length}`
+      });
+    }
+
+    if (allResults.length === 0) {
+      ctx.emit({ type: 'complete', stats: { totalResults: 0, findings: 0 }, findings: [] });
+      return { outcome: 'done', output: { allResults, detectedCompanies } };
+    }
+    return { outcome: 'next', output: { allResults, detectedCompanies } };
+  },
+
+  // Update session with expanded results - clear companyExpansionIndex to indicate expansion is complete
+  checkpoint({ allResults, detectedCompanies }) {
+    if (!detectedCompanies?.length) return null;
+    return { gatheredResults: allResults, detectedCompanies, companyExpansionIndex: undefined };
+  },
+};
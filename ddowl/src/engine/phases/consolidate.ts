@@ -0,0 +1,103 @@
+// src/engine/phases/consolidate.ts
+// Phase 5: merge raw findings about the same incident into consolidated findings.
+
+import { consolidateFindings } from '../../consolidator.js';
+import { applyFindingMemory, unmatchedKnownIssues } from '../../finding-memory.js';
+import { applySeverityOverrides, flushRuleFirings } from '../../learning-rules.js';
+import { rankFindingSources } from '../../source-credibility.js';
+import { sessionReached } from '../resume.js';
+import type { ConsolidatedFinding } from '../../types.js';
+import type { ScreeningPhase } from '../types.js';
+
+type ConsolidateInput = 'findings' | 'parkedArticles' | 'credibility' | 'learningRules' | 'history';
+
+export const consolidatePhase: ScreeningPhase<ConsolidateInput, 'consolidated'> = {
+  name: 'consolidate',
+  inputs: ['findings', 'parkedArticles', 'credibility', 'learningRules', 'history'],
+  outputs: ['consolidated'],
+
+  // Restored from session - use existing consolidated findings
+  resume(session, ctx) {
+    if (!sessionReached(session, 'consolidate') || !session.consolidatedFindings) return null;
+    ctx.pastAnalyze = true;  // From here on, disconnect won't abort — save must complete
+    console.log(`[V4] Skipped consolidate phase, using ${session.consolidatedFindings.length} restored findings`);
+    return { done: { consolidated: session.consolidatedFindings } };
+  },
+
+  async run(input, ctx) {
+    const { subjectName, tracker, signal } = ctx;
+    const { findings: allFindings, parkedArticles, credibility, learningRules, history } = input;
+    ctx.pastAnalyze = true;  // From here on, disconnect won't abort — save must complete
+    let consolidatedFindings: ConsolidatedFinding[] = [];
+
+    // Include snippet-based (fetchFailed) findings in consolidation instead of separating them
+    // They now have meaningful titles and summaries from triage metadata
+    const snippetBasedCount = allFindings.filter(f => f.fetchFailed).length;
+    if (snippetBasedCount > 0) {
+      console.log(`[V4] Including ${snippetBasedCount} snippet-based findings in consolidation (previously excluded as unverified)`);
+    }
+
+    if (allFindings.length > 0) {
+      // GUARD: If aborted, do NOT advance to consolidate phase
+      if (signal.aborted) {
+        console.log(`[V4] Signal aborted before consolidate — skipping to prevent stale write`);
+        return { outcome: 'stop', output: {} };
+      }
+
+      ctx.emit({ type: 'phase', phase: 5, name: 'CONSOLIDATE', message: `Consolidating ${allFindings.length} findings...` });
+
+      // Update session to consolidate phase BEFORE starting (for reconnection tracking)
+      await ctx.checkpoint({ currentPhase: 'consolidate' });
+
+      consolidatedFindings = await consolidateFindings(allFindings, subjectName, parkedArticles, signal);
+      tracker.recordConsolidation(allFindings.length, consolidatedFindings.length);
+
+      // Most credible sources first; flag findings resting only on low-credibility sources
+      if (credibility) {
+        for (const finding of consolidatedFindings) {
+          const { lowCredibilityOnly } = rankFindingSources(finding, credibility);
+          if (lowCredibilityOnly) finding.lowCredibility = true;
+        }
+      }
+
+      // Learned severity overrides by event type
+      if (learningRules) {
+        const overridden = applySeverityOverrides(consolidatedFindings, learningRules);
+        await flushRuleFirings(learningRules);
+        if (overridden > 0) console.log(`[V4] Learned rules changed the severity of ${overridden} findings`);
+      }
+
+      // Earlier analyst verdicts on the subject: previously reported / previously wrong / new
+      if (history && history.reportCount > 0) {
+        const memory = applyFindingMemory(consolidatedFindings, history);
+        const notResurfaced = unmatchedKnownIssues(consolidatedFindings, history);
+        console.log(`[V4] Finding memory: ${memory.previouslyReported} previously reported, ${memory.previouslyWrong} previously wrong (${memory.demoted} demoted), ${notResurfaced.length} confirmed issues not re-found`);
+        ctx.emit({
+          type: 'finding_memory',
+          ...memory,
+          notResurfaced: notResurfaced.map(v => ({ headline: v.headline, severity: v.severity, screenedAt: v.screenedAt })),
+        });
+      }
+
+      ctx.emit({
+        type: 'eliminate_complete',
+        before: allFindings.length,
+        after: consolidatedFindings.length,
+      });
+    }
+
+    ctx.funnelPhases?.push({
+      phase: 'consolidate',
+      articles: consolidatedFindings.map(f => ({
+        url: f.sources?.[0]?.url || '', title: f.headline, snippet: f.summary, classification: f.severity, eventType: f.eventType,
+      })),
+    });
+
+    return { outcome: 'next', output: { consolidated: consolidatedFindings } };
+  },
+
+  // Store consolidated results in session (for reconnection)
+  checkpoint({ consolidated }) {
+    return consolidated?.length ? { consolidatedFindings: consolidated } : null;
+  },
+};
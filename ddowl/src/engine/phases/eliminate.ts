@@ -0,0 +1,166 @@
+// src/engine/phases/eliminate.ts
+// Phase 2: programmatic elimination (free) — noise domains, job postings, name separation, missing dirty words.
+
+import { eliminateObviousNoise, getEliminationBreakdown, type EliminatedResult, type EliminationBreakdown } from '../../eliminator.js';
+import { recordFixtureInputs } from '../../replay/fixtures.js';
+import { flushRuleFirings, loadLearningRules } from '../../learning-rules.js';
+import type { BatchSearchResult } from '../../searcher.js';
+import { sessionReached } from '../resume.js';
+import type { ScreeningPhase } from '../types.js';
+
+type EliminateOutput = 'passed' | 'progEliminated' | 'bypassed' | 'breakdown' | 'passedEliminationCount' | 'learningRules';
+
+// Results that passed elimination before the disconnect
+interface EliminateProgress {
+  passed: BatchSearchResult[];
+}
+
+export const eliminatePhase: ScreeningPhase<'allResults' | 'profile', EliminateOutput, EliminateProgress> = {
+  name: 'eliminate',
+  inputs: ['allResults', 'profile'],
+  outputs: ['passed', 'progEliminated', 'bypassed', 'breakdown', 'passedEliminationCount', 'learningRules'],
+
+  // Skip elimination once we're past it, or if phase is 'eliminate' but passedElimination was already saved
+  resume(session) {
+    const passed = session.passedElimination;
+    if (!passed) return null;
+    if (sessionReached(session, 'cluster')) return { from: { passed } };
+    if (session.currentPhase === 'eliminate' && passed.length > 0) {
+      console.log(`[V4] Phase is 'eliminate' but passedElimination exists (${passed.length} results) - skipping elimination`);
+      return { from: { passed } };
+    }
+    return null;
+  },
+
+  async run({ allResults, profile: subjectProfile }, ctx, from) {
+    const { subjectName, nameVariations } = ctx;
+    let passed: BatchSearchResult[];
+    let progEliminated: EliminatedResult[] = [];
+    let bypassed: EliminatedResult[] = [];
+    let breakdown: EliminationBreakdown;
+
+    // Active learned rules — also used by categorize and consolidate
+    const learningRules = await loadLearningRules();
+
+    if (from) {
+      // Skip elimination phase - use restored results from session
+      passed = from.passed;
+      breakdown = { gov_domain_bypass: 0, noise_domain: 0, trash_domain: 0, noise_title_pattern: 0, name_char_separation: 0, missing_dirty_word: 0, part_of_longer_name: 0, learned_rule: 0 };
+      console.log(`[V4] Skipped elimination phase, using ${passed.length} restored passed results`);
+    } else {
+      ctx.emit({ type: 'phase', phase: 2, name: 'PROGRAMMATIC_ELIMINATION', message: `Running programmatic filters on ${allResults.length} results...` });
+
+      const elimStart = Date.now();
+      recordFixtureInputs({ gathered: allResults, nameVariations, profile: subjectProfile });
+      const elimResult = eliminateObviousNoise(allResults, subjectName, learningRules);
+      await flushRuleFirings(learningRules);
+      passed = elimResult.passed;
+      progEliminated = elimResult.eliminated;
+      bypassed = elimResult.bypassed;
+      breakdown = getEliminationBreakdown(progEliminated, bypassed);
+
+      ctx.funnelPhases?.push({
+        phase: 'elimination',
+        articles: [
+          ...passed.map(a => ({ url: a.url, title: a.title, snippet: a.snippet })),
+          ...progEliminated.map(a => ({ url: a.url, title: a.title, snippet: a.snippet, eliminationRule: a.reason })),
+        ],
+      });
+
+      // Track programmatic elimination results AND send per-item events for auditing
+      const ruleNames: Record<string, string> = {
+        'noise_domain': 'Rule 1: Noise domain (job site/aggregator)',
+        'trash_domain': 'Rule 1b: Trash domain (SEO spam/broken site)',
+        'noise_title_pattern': 'Rule 2: Job posting keyword in title',
+        'name_char_separation': 'Rule 3: Name characters separated',
+        'missing_dirty_word': 'Rule 4: Missing dirty word',
+        'part_of_longer_name': 'Rule 5: Part of longer name (different person)',
+        'learned_rule': 'Learned rule',
+        'gov_domain_bypass': 'Bypass: Government domain (.gov.cn)',
+      };
+
+      let elimIndex = 0;
+      const totalItems = passed.length + bypassed.length + progEliminated.length;
+
+      for (const r of passed) {
+        ctx.urlTracker.programmaticElimination.passed.push({ url: r.url, title: r.title, query: r.query });
+        elimIndex++;
+        ctx.emit({
+          type: 'elimination_item',
+          index: elimIndex,
+          total: totalItems,
+          status: 'PASSED',
+          url: r.url,
+          title: r.title,
+          rule: null,
+        });
+      }
+      for (const r of bypassed) {
+        ctx.urlTracker.programmaticElimination.bypassed.push({ url: r.url, title: r.title, query: r.query });
+        elimIndex++;
+        ctx.emit({
+          type: 'elimination_item',
+          index: elimIndex,
+          total: totalItems,
+          status: 'BYPASSED',
+          url: r.url,
+          title: r.title,
+          rule: ruleNames[r.reason] || r.reason,
+        });
+      }
+      // Adverse keywords for spotlight checks
+      const ADVERSE_KEYWORDS = ['罚款', '处罚', '诈骗', '逮捕', '判刑', '洗钱', '制裁', '黑名单',
+        'penalty', 'fraud', 'arrested', 'convicted', 'sanctions', 'blacklist', 'investigation',
+        '贿赂', '腐败', '非法', '拘留'];
+
+      for (const r of progEliminated) {
+        const bucket = ctx.urlTracker.programmaticElimination.eliminated[r.reason as keyof typeof ctx.urlTracker.programmaticElimination.eliminated];
+        if (bucket) {
+          bucket.push({ url: r.url, title: r.title, query: r.query });
+        }
+        elimIndex++;
+        ctx.emit({
+          type: 'elimination_item',
+          index: elimIndex,
+          total: totalItems,
+          status: 'ELIMINATED',
+          url: r.url,
+          title: r.title,
+          rule: r.ruleId ? `Learned rule #${r.ruleId}` : ruleNames[r.reason] || r.reason,
+        });
+
+        // Spotlight: eliminated article contains adverse keywords — possible false positive
+        const textToCheck = (r.title + ' ' + (r.snippet || '')).toLowerCase();
+        const matched = ADVERSE_KEYWORDS.filter(kw => textToCheck.includes(kw.toLowerCase()));
+        if (matched.length > 0) {
+          console.log(`[SPOTLIGHT] Eliminated article HAS adverse keywords: "${r.title.slice(0, 60)}" (rule: ${ruleNames[r.reason] || r.reason}, keywords: ${matched.join(',')})`);
+        }
+      }
+
+      ctx.emit({
+        type: 'programmatic_elimination_complete',
+        before: allResults.length,
+        after: passed.length,
+        eliminated: progEliminated.length,
+        govBypassed: bypassed.length,
+        breakdown,
+        duration: Date.now() - elimStart,
+      });
+    }
+
+    const output = {
+      passed,
+      progEliminated,
+      bypassed,
+      breakdown,
+      passedEliminationCount: passed.length,  // Snapshot before clustering/dedupe overwrite
+      learningRules,
+    };
+
+    if (passed.length === 0) {
+      ctx.emit({ type: 'complete', stats: { totalResults: allResults.length, programmaticEliminated: progEliminated.length, findings: 0 }, findings: [] });
+      return { outcome: 'done', output };
+    }
+    return { outcome: 'next', output };
+  },
+};
@@ -0,0 +1,369 @@
+// src/engine/phases/finalize.ts
+// Evidence archival, final stats and complete event, screening log, reports DB, benchmark evaluation
+// and funnel trace.
+
+import { saveScreeningLog as saveLog, saveBenchmarkResult, saveFunnelSnapshot } from '../../logging/storage.js';
+import { saveReport as saveReportToDb, type CleanEntityResult } from '../../reports-db.js';
+import { evaluateBenchmark, getBenchmarkCase } from '../../metrics/benchmarks.js';
+import { traceFunnel, printTraceReport } from '../../metrics/tracer.js';
+import { ingestSubjectProfile } from '../../graph-db.js';
+import { archiveFindingSources } from '../../evidence-store.js';
+import { isCompanyScreening } from '../companies.js';
+import type { ConsolidatedFinding, CostEstimate, FunnelSnapshot } from '../../types.js';
+import type { ScreeningPhase } from '../types.js';
+
+type FinalizeInput =
+  | 'allResults' | 'passed' | 'progEliminated' | 'bypassed' | 'breakdown' | 'passedEliminationCount' | 'clusterStats'
+  | 'categorized' | 'findings' | 'consolidated' | 'profile' | 'sanctions' | 'pep' | 'litigation';
+
+// LLM spend per operation (triage, analysis, ...) for the saved screening stats
+function costByOperation(costs: CostEstimate[]): Record<string, number> {
+  const byOperation: Record<string, number> = {};
+  for (const c of costs) {
+    byOperation[c.operation] = (byOperation[c.operation] || 0) + c.estimatedCostUSD;
+  }
+  return byOperation;
+}
+
+export const finalizePhase: ScreeningPhase<FinalizeInput, 'cleanResults'> = {
+  name: 'finalize',
+  inputs: [
+    'allResults', 'passed', 'progEliminated', 'bypassed', 'breakdown', 'passedEliminationCount', 'clusterStats',
+    'categorized', 'findings', 'consolidated', 'profile', 'sanctions', 'pep', 'litigation',
+  ],
+  outputs: ['cleanResults'],
+
+  async run(input, ctx) {
+    const { subjectName, nameVariations, sessionId, tracker, urlTracker } = ctx;
+    const { allResults, passed, progEliminated, bypassed, breakdown, passedEliminationCount, clusterStats, categorized } = input;
+    const allFindings = input.findings;
+    const consolidatedFindings = input.consolidated;
+    const subjectProfile = input.profile;
+
+    // Nothing was flagged: save a zero-findings report with the clean results
+    if (categorized.red.length + categorized.amber.length === 0) {
+      // Build clean results for zero-findings report
+      const zeroCleanResults: Record<string, CleanEntityResult[]> = {};
+      for (const item of categorized.green) {
+        const matchedVariation = nameVariations.find(nv =>
+          item.query.toLowerCase().includes(nv.toLowerCase())
+        ) || item.query;
+        if (!zeroCleanResults[matchedVariation]) {
+          zeroCleanResults[matchedVariation] = [];
+        }
+        zeroCleanResults[matchedVariation].push({
+          url: item.url,
+          title: item.title,
+          snippet: item.snippet,
+        });
+      }
+
+      // Save report even with zero findings
+      const zeroMetrics = tracker.finalize();
+      try {
+        const stableRunId = sessionId;
+        const reportId = await saveReportToDb({
+          runId: stableRunId,
+          subjectName,
+          screenedAt: zeroMetrics.startTime,
+          language: ctx.input.language || 'zh',
+          nameVariations: nameVariations || [],
+          context: ctx.input.context || undefined,
+          findings: [],
+          cleanResults: Object.keys(zeroCleanResults).length > 0 ? zeroCleanResults : undefined,
+          screeningStats: {
+            gathered: allResults.length,
+            programmaticElimination: {
+              before: allResults.length,
+              after: passed.length,
+              eliminated: progEliminated.length,
+              govBypassed: bypassed.length,
+              breakdown,
+            },
+            clustering: clusterStats,
+            categorized: {
+              red: categorized.red.length,
+              amber: categorized.amber.length,
+              green: categorized.green.length,
+            },
+            processed: { total: 0, adverse: 0, cleared: 0, failed: 0, further: 0 },
+            consolidated: { before: 0, after: 0 },
+            llmCallCount: zeroMetrics.costs.length,
+            llmCostUsd: zeroMetrics.costs.reduce((sum: number, c: any) => sum + c.estimatedCostUSD, 0),
+            llmCostByOperation: costByOperation(zeroMetrics.costs),
+          },
+          sanctions: input.sanctions || undefined,
+          pep: input.pep || undefined,
+          litigation: input.litigation || undefined,
+          costUsd: zeroMetrics.totalCostUSD,
+          durationMs: zeroMetrics.durationMs || 0,
+          queriesExecuted: zeroMetrics.queriesExecuted,
+          totalSearchResults: zeroMetrics.totalSearchResults,
+        });
+        console.log(`[REPORTS] Saved zero-findings report #${reportId} for ${subjectName}`);
+        await ctx.checkpoint({
+          runId: stableRunId,
+          cleanResults: zeroCleanResults,
+          finalCostUsd: zeroMetrics.totalCostUSD,
+          finalDurationMs: zeroMetrics.durationMs || 0,
+          finalTotalSearchResults: zeroMetrics.totalSearchResults,
+        } as any);
+      } catch (reportErr) {
+        console.error('[REPORTS] Failed to save zero-findings report:', reportErr);
+      }
+
+      ctx.emit({ type: 'complete', stats: { totalResults: allResults.length, findings: 0 }, findings: [], cleanResults: zeroCleanResults, sanctions: input.sanctions, pep: input.pep, litigation: input.litigation });
+      return { outcome: 'next', output: { cleanResults: zeroCleanResults } };
+    }
+
+    // Final stats (REVIEW items count as AMBER - they need manual review)
+    const redFindings = consolidatedFindings.filter(f => f.severity === 'RED');
+    const amberFindings = consolidatedFindings.filter(f => f.severity === 'AMBER' || f.severity === 'REVIEW');
+
+    // Archive every cited source before the findings go out, so reports can link the archived copies
+    try {
+      const { archived, failed } = await archiveFindingSources(consolidatedFindings);
+      console.log(`[V4] Archived ${archived} cited sources (${failed} not archived)`);
+      ctx.emit({ type: 'evidence_archived', archived, failed });
+      await ctx.checkpoint({ consolidatedFindings });
+    } catch (evidenceErr) {
+      console.error('[V4] Evidence archival failed (non-fatal):', evidenceErr);
+    }
+    const totalDuration = Date.now() - ctx.startTime;
+
+    // Build clean results map for entities without findings
+    // Group green categorized results by their query (name variation)
+    const cleanResults: Record<string, CleanEntityResult[]> = {};
+    for (const item of categorized.green) {
+      // Find which name variation this result belongs to
+      const matchedVariation = nameVariations.find(nv =>
+        item.query.toLowerCase().includes(nv.toLowerCase())
+      ) || item.query;
+      if (!cleanResults[matchedVariation]) {
+        cleanResults[matchedVariation] = [];
+      }
+      cleanResults[matchedVariation].push({
+        url: item.url,
+        title: item.title,
+        snippet: item.snippet,
+      });
+    }
+    // Remove entities that have findings (they'll be handled as flagged)
+    const findingSources = new Set(consolidatedFindings.flatMap(f => f.sources.map(s => s.url)));
+    for (const [entity, results] of Object.entries(cleanResults)) {
+      const hasFindings = results.some(r => findingSources.has(r.url));
+      if (hasFindings) {
+        delete cleanResults[entity];
+      }
+    }
+
+    // Build summary breakdown
+    const eliminatedByDuplicate = urlTracker.eliminated.filter(e => e.reason === 'duplicate').length;
+    const eliminatedByInvalid = urlTracker.eliminated.filter(e => e.reason === 'invalid_url').length;
+    const processedAdverse = urlTracker.processed.filter(p => p.result === 'ADVERSE').length;
+    const processedCleared = urlTracker.processed.filter(p => p.result === 'CLEARED').length;
+    const processedFailed = urlTracker.processed.filter(p => p.result === 'FAILED').length;
+
+    ctx.emit({
+      type: 'complete',
+      stats: {
+        // Phase 1: Gather
+        gathered: allResults.length,
+        // Phase 2: Programmatic Elimination
+        programmaticElimination: {
+          before: allResults.length,
+          after: passed.length,
+          eliminated: progEliminated.length,
+          govBypassed: bypassed.length,
+          breakdown,
+        },
+        // Phase 3: Categorize
+        categorized: {
+          red: categorized.red.length,
+          amber: categorized.amber.length,
+          green: categorized.green.length,
+        },
+        // Phase 4: Analyze
+        eliminated: {
+          total: urlTracker.eliminated.length,
+          duplicate: eliminatedByDuplicate,
+          invalid: eliminatedByInvalid,
+        },
+        processed: {
+          total: urlTracker.processed.length,
+          adverse: processedAdverse,
+          cleared: processedCleared,
+          failed: processedFailed,
+        },
+        // Phase 5: Consolidate
+        consolidated: {
+          before: allFindings.length,
+          after: consolidatedFindings.length,
+        },
+        // Final findings
+        findings: consolidatedFindings.length,
+        red: redFindings.length,
+        amber: amberFindings.length,
+        // Timing
+        durationMs: totalDuration,
+        durationMin: (totalDuration / 60000).toFixed(1),
+      },
+      findings: consolidatedFindings,
+      unverifiedFindings: [],  // Snippet-based findings are now included in consolidated findings
+      nameVariations,
+      cleanResults,
+      profile: subjectProfile,
+      sanctions: input.sanctions,
+      pep: input.pep,
+      litigation: input.litigation,
+    });
+
+    // ═══ PIPELINE FUNNEL SUMMARY (Cloud Logs) ═══
+    console.log(`[PIPELINE] ═══ FUNNEL: ${subjectName} ═══`);
+    console.log(`[PIPELINE] Search:       ${allResults.length} articles gathered`);
+    console.log(`[PIPELINE] Elimination:  ${allResults.length} → ${passedEliminationCount} passed (${progEliminated.length} eliminated: domain=${breakdown.noise_domain + breakdown.trash_domain}, title=${breakdown.noise_title_pattern}, keyword=${breakdown.missing_dirty_word}, name_sep=${breakdown.name_char_separation})`);
+    console.log(`[PIPELINE] Clustering:   ${clusterStats.totalClusters} clusters → ${clusterStats.articlesToAnalyze} to analyze (${clusterStats.articlesParked} parked)`);
+    console.log(`[PIPELINE] Categorize:   RED:${categorized.red.length} AMBER:${categorized.amber.length} GREEN:${categorized.green.length}`);
+    console.log(`[PIPELINE] Analyze:      ${urlTracker.processed.length} processed → ADVERSE:${processedAdverse} CLEARED:${processedCleared} FURTHER:${urlTracker.processed.filter(p => p.result === 'FURTHER').length} FAILED:${processedFailed}`);
+    console.log(`[PIPELINE] Consolidate:  ${allFindings.length} → ${consolidatedFindings.length} findings`);
+    console.log(`[PIPELINE] ═══ FINAL: ${consolidatedFindings.length} findings (${redFindings.length} RED, ${amberFindings.length} AMBER) in ${(totalDuration / 60000).toFixed(1)} min ═══`);
+
+    // Save final profile to session
+    await ctx.checkpoint({ profile: subjectProfile });
+
+    // Save log with full URL tracking
+    const metrics = tracker.finalize();
+    try {
+      const logPath = saveLog(subjectName, metrics.runId, {
+        metrics,
+        findings: consolidatedFindings,
+        urlTracker,  // Full URL tracking: gathered, categorized, eliminated, processed
+        eventLog: ctx.eventLog,
+      });
+      console.log(`[V4] Saved log to ${logPath}`);
+    } catch (logError) {
+      console.error('[V4] Failed to save log:', logError);
+    }
+
+    // Auto-save to reports database
+    try {
+      // Use sessionId as runId so reconnections upsert instead of creating duplicates
+      const stableRunId = sessionId;
+      const reportId = await saveReportToDb({
+        runId: stableRunId,
+        subjectName,
+        screenedAt: metrics.startTime,
+        language: ctx.input.language || 'zh',
+        nameVariations: nameVariations || [],
+        context: ctx.input.context || undefined,
+        findings: consolidatedFindings.map((f: ConsolidatedFinding) => ({
+          severity: f.severity as 'RED' | 'AMBER' | 'REVIEW',
+          headline: f.headline,
+          eventType: f.eventType || 'unknown',
+          summary: f.summary,
+          dateRange: f.dateRange,
+          sourceCount: f.sourceCount,
+          sourceUrls: f.sources,
+          articleContents: f.articleContents,
+          matchConfidence: f.matchConfidence,
+          evidenceIds: f.evidence?.map(e => e.evidenceId),
+          dates: f.dates,
+        })),
+        cleanResults: Object.keys(cleanResults).length > 0 ? cleanResults : undefined,
+        screeningStats: {
+          gathered: allResults.length,
+          programmaticElimination: {
+            before: allResults.length,
+            after: passed.length,
+            eliminated: progEliminated.length,
+            govBypassed: bypassed.length,
+            breakdown,
+          },
+          clustering: clusterStats,
+          categorized: {
+            red: categorized.red.length,
+            amber: categorized.amber.length,
+            green: categorized.green.length,
+          },
+          processed: {
+            total: urlTracker.processed.length,
+            adverse: urlTracker.processed.filter(p => p.result === 'ADVERSE').length,
+            cleared: urlTracker.processed.filter(p => p.result === 'CLEARED').length,
+            failed: urlTracker.processed.filter(p => p.result === 'FAILED').length,
+            further: urlTracker.processed.filter(p => p.result === 'FURTHER').length,
+          },
+          consolidated: {
+            before: allFindings.length,
+            after: consolidatedFindings.length,
+          },
+          llmCallCount: metrics.costs.length,
+          llmCostUsd: metrics.costs.reduce((sum: number, c: any) => sum + c.estimatedCostUSD, 0),
+          llmCostByOperation: costByOperation(metrics.costs),
+        },
+        sanctions: input.sanctions || undefined,
+        pep: input.pep || undefined,
+        litigation: input.litigation || undefined,
+        costUsd: metrics.totalCostUSD,
+        durationMs: metrics.durationMs || 0,
+        queriesExecuted: metrics.queriesExecuted,
+        totalSearchResults: metrics.totalSearchResults,
+      });
+      console.log(`[REPORTS] Saved report #${reportId} for ${subjectName}`);
+      // Store runId, cleanResults, and final metrics in session so generate-report can access them
+      // and reconnect won't overwrite metrics with zeroed values
+      await ctx.checkpoint({
+        runId: stableRunId,
+        cleanResults,
+        finalCostUsd: metrics.totalCostUSD,
+        finalDurationMs: metrics.durationMs || 0,
+        finalTotalSearchResults: metrics.totalSearchResults,
+      } as any);
+    } catch (reportErr) {
+      console.error('[REPORTS] Failed to save to database:', reportErr);
+    }
+
+    // Feed the network the profile picked up from articles into the entity graph
+    if (subjectProfile.associatedCompanies.length + subjectProfile.associatedPeople.length > 0) {
+      try {
+        await ingestSubjectProfile(subjectProfile, isCompanyScreening(subjectName) ? 'company' : 'person');
+      } catch (graphErr) {
+        console.error('[GRAPH] Failed to ingest subject profile:', graphErr);
+      }
+    }
+
+    // Benchmark evaluation
+    const benchmarkResult = evaluateBenchmark(subjectName, consolidatedFindings, metrics.runId);
+    if (benchmarkResult) {
+      saveBenchmarkResult(benchmarkResult);
+      ctx.emit({
+        type: 'benchmark',
+        recall: benchmarkResult.recall,
+        matched: benchmarkResult.matchedIssues,
+        missed: benchmarkResult.missedIssues,
+      });
+    }
+
+    ctx.runId = metrics.runId;
+
+    // Benchmark funnel trace
+    const benchmarkCase = getBenchmarkCase(subjectName);
+    if (ctx.funnelPhases && benchmarkCase) {
+      const snapshot: FunnelSnapshot = {
+        subject: subjectName,
+        runId: metrics.runId,
+        timestamp: new Date().toISOString(),
+        phases: ctx.funnelPhases,
+      };
+      saveFunnelSnapshot(snapshot);
+      const traceReport = traceFunnel(snapshot, benchmarkCase);
+      printTraceReport(traceReport);
+    }
+
+    return { outcome: 'next', output: { cleanResults } };
+  },
+
+  // Keep session for resume - mark as completed instead of deleting
+  checkpoint() {
+    return { currentPhase: 'complete' };
+  },
+};
@@ -0,0 +1,200 @@
+// src/engine/phases/gather.ts
+// Phase 1: run every search template (up to 20 pages each) and collect all URLs.
+
+import { searchGoogle } from '../../searcher.js';
+import { TEMPLATE_CATEGORIES, isChineseName } from '../../searchStrings.js';
+import type { BatchSearchResult } from '../../searcher.js';
+import type { SearchResult } from '../../types.js';
+import type { ScreeningPhase } from '../types.js';
+
+// Queries completed so far and the results they returned
+interface GatherProgress {
+  index: number;
+  results: BatchSearchResult[];
+}
+
+export const gatherPhase: ScreeningPhase<never, 'allResults', GatherProgress> = {
+  name: 'gather',
+  inputs: [],
+  outputs: ['allResults'],
+
+  resume(session, ctx) {
+    const results = session.gatheredResults || [];
+    if (session.currentPhase === 'gather' && !session.companyExpansionIndex) {
+      // Mid-gather resume: pick up from the first query that hadn't completed
+      const index = session.gatherIndex || 0;
+      if (index > 0) {
+        console.log(`[V4] Resuming gather from query ${index + 1}, restored ${results.length} results`);
+        ctx.emit({
+          type: 'phase_resumed',
+          phase: 'gather',
+          message: `Resuming gather from query ${index + 1}`,
+          resultsRestored: results.length
+        });
+      }
+      return { from: { index, results } };
+    }
+
+    // Gather finished before the disconnect (company expansion means it did too).
+    // CRITICAL: We must skip even if the results are empty, otherwise we'd restart
+    // gather and OVERWRITE currentPhase back to 'gather', destroying session state
+    // Restore query count so metrics aren't zero on reconnect
+    if (session.queriesExecuted) {
+      ctx.tracker.restoreQueryCount(session.queriesExecuted);
+    }
+    console.log(`[V4] Skipped gather phase, using ${results.length} restored results (queriesExecuted: ${session.queriesExecuted || 0})`);
+    return { done: { allResults: results } };
+  },
+
+  async run(_input, ctx, from) {
+    const { subjectName, nameVariations, templateEntries, sessionId, tracker, signal } = ctx;
+    const gatherStartIndex = from?.index || 0;
+    const restoredResults = from?.results || ctx.input.restoredResults || [];
+    const selectedTemplates = templateEntries.map(e => e.template);
+
+    // Initialize with restored results if mid-gather resume, otherwise empty
+    const allResults = gatherStartIndex > 0 ? [...restoredResults] : [];
+
+    const cjkNames = nameVariations.filter(n => isChineseName(n));
+    const nonCjkNames = nameVariations.filter(n => !isChineseName(n));
+    const nameDisplay: string[] = [];
+    if (cjkNames.length > 0) nameDisplay.push(`${cjkNames.length} Chinese (${cjkNames.join(', ')})`);
+    if (nonCjkNames.length > 0) nameDisplay.push(`${nonCjkNames.length} English (${nonCjkNames.join(', ')})`);
+    const nameVariantsDisplay = nameDisplay.length > 0 ? nameDisplay.join(' + ') : nameVariations[0];
+    const resumeInfo = gatherStartIndex > 0 ? ` (resuming from query ${gatherStartIndex + 1})` : '';
+    ctx.emit({
+      type: 'phase',
+      phase: 1,
+      name: 'GATHER',
+      message: `Gathering results for ${nameVariantsDisplay}, ${selectedTemplates.length} templates${resumeInfo}...`
+    });
+
+    // Start from gatherStartIndex to skip already-completed queries on mid-gather resume
+    for (let i = gatherStartIndex; i < selectedTemplates.length; i++) {
+      // Check if user paused the session
+      if (await ctx.isPaused()) {
+        // Save current position before exiting so resume starts here
+        await ctx.checkpoint({ gatheredResults: allResults, gatherIndex: i, queriesExecuted: tracker.getMetrics().queriesExecuted });
+        console.log(`[V4] Session ${sessionId} paused at gather query ${i + 1}/${selectedTemplates.length}, saved gatherIndex=${i}`);
+        ctx.emit({ type: 'paused', phase: 'gather', queryIndex: i + 1 });
+        return { outcome: 'stop', output: {} };
+      }
+
+      const entry = templateEntries[i];
+      const template = entry.template;
+      const entryNames = entry.names;
+
+      // Build query with per-template name variants using OR
+      let query: string;
+      if (entryNames.length === 1) {
+        query = template.replace('{NAME}', entryNames[0]);
+      } else {
+        const orClause = '(' + entryNames.map(n => `"${n}"`).join(' OR ') + ')';
+        query = template.replace('"{NAME}"', orClause);
+      }
+
+      // Search Google (Serper) - up to 20 pages
+      const MAX_PAGES = 20;
+      const googleResults: SearchResult[] = [];
+
+      for (let page = 1; page <= MAX_PAGES; page++) {
+        // Check if aborted
+        if (signal.aborted) {
+          console.log(`[V4] Search aborted for: ${subjectName}`);
+          return { outcome: 'stop', output: {} };
+        }
+
+        const pageResults = await searchGoogle(query, page, 10, signal, entry.hl);
+        tracker.recordQuery(pageResults.length);
+
+        ctx.emit({
+          type: 'search_page',
+          engine: 'google',
+          queryIndex: i + 1,
+          totalQueries: selectedTemplates.length,
+          page,
+          pageResults: pageResults.length,
+        });
+
+        if (pageResults.length === 0) break;
+        googleResults.push(...pageResults);
+        if (pageResults.length < 10) break;
+        await new Promise(r => setTimeout(r, 200));
+      }
+
+      // Bail out if aborted — don't save progress for aborted queries
+      if (signal.aborted) {
+        console.log(`[V4] Search aborted for: ${subjectName} (after page loop)`);
+        return { outcome: 'stop', output: {} };
+      }
+
+      for (const r of googleResults) {
+        allResults.push({
+          url: r.link,
+          title: r.title,
+          snippet: r.snippet,
+          query: template,
+        });
+      }
+
+      ctx.emit({
+        type: 'search_progress',
+        queryIndex: i + 1,
+        totalQueries: selectedTemplates.length,
+        query,
+        resultsFound: googleResults.length,
+        totalSoFar: allResults.length,
+      });
+      // Save progress after EACH query completes (for mid-gather resume)
+      await ctx.checkpoint({
+        gatheredResults: allResults,
+        gatherIndex: i + 1,  // 1-indexed: completed queries
+        queriesExecuted: tracker.getMetrics().queriesExecuted,
+        currentPhase: 'gather'
+      });
+
+      await new Promise(r => setTimeout(r, 500));
+    }
+
+    // If all queries were skipped (reconnection) and we have restored results, use them
+    if (allResults.length === 0 && restoredResults.length > 0) {
+      console.log(`[V4] Using ${restoredResults.length} restored results from reconnection`);
+      allResults.push(...restoredResults);
+    }
+
+    // Track all gathered URLs with full details AND send per-result events for auditing
+    for (let i = 0; i < allResults.length; i++) {
+      const r = allResults[i];
+      ctx.urlTracker.gathered.push({ url: r.url, title: r.title, snippet: r.snippet, query: r.query });
+
+      // Find which template this result came from
+      const templateIndex = selectedTemplates.findIndex(t => r.query === t || r.query.includes(t.replace('{NAME}', '')));
+      const category = TEMPLATE_CATEGORIES[templateIndex] || `Query ${templateIndex + 1}`;
+
+      // Send per-result event for detailed audit logging
+      ctx.emit({
+        type: 'search_result',
+        index: i + 1,
+        total: allResults.length,
+        category,
+        url: r.url,
+        title: r.title,
+        snippet: (r.snippet || '').substring(0, 200),
+      });
+    }
+
+    ctx.emit({
+      type: 'gather_complete',
+      totalResults: allResults.length,
+      duration: Date.now() - ctx.startTime,
+      results: allResults, // Include results for reconnection persistence
+    });
+
+    return { outcome: 'next', output: { allResults } };
+  },
+
+  // Update session with gathered results - clear gatherIndex to indicate gather is fully complete
+  checkpoint({ allResults }, ctx) {
+    return { gatheredResults: allResults, currentPhase: 'eliminate', gatherIndex: undefined, queriesExecuted: ctx.tracker.getMetrics().queriesExecuted };
+  },
+};
@@ -0,0 +1,87 @@
+// src/engine/phases/history.ts
+// Phase 1.96: load analyst verdicts from earlier reports on the subject and search for the issues
+// analysts reported as missed. The verdicts are applied to findings after consolidation.
+
+import { searchGoogle } from '../../searcher.js';
+import { isChineseName } from '../../searchStrings.js';
+import { getSubjectHistory } from '../../reports-db.js';
+import { missedFlagQueries } from '../../finding-memory.js';
+import { sessionReached } from '../resume.js';
+import type { SubjectHistory } from '../../reports-db.js';
+import type { ScreeningPhase } from '../types.js';
+
+interface HistoryProgress {
+  searched: boolean;  // The missed-flag searches already ran
+}
+
+export const historyPhase: ScreeningPhase<'allResults', 'history' | 'allResults', HistoryProgress> = {
+  name: 'history',
+  inputs: ['allResults'],
+  outputs: ['history', 'allResults'],
+
+  // The verdicts are always reloaded, but the searches already ran if we're resuming past gather
+  resume(session) {
+    return sessionReached(session, 'eliminate') ? { from: { searched: true } } : null;
+  },
+
+  async run(input, ctx, from) {
+    const { subjectName, nameVariations, tracker, signal } = ctx;
+
+    let history: SubjectHistory;
+    try {
+      history = await getSubjectHistory([subjectName, ...nameVariations]);
+    } catch (err: any) {
+      console.error(`[V4] [HISTORY] Could not load earlier reports (non-fatal): ${err?.message}`);
+      return { outcome: 'next', output: { history: null } };
+    }
+
+    if (history.reportCount === 0) return { outcome: 'next', output: { history } };
+
+    const confirmed = history.verdicts.filter(v => v.verdict === 'CONFIRMED').length;
+    const wrong = history.verdicts.length - confirmed;
+    console.log(`[V4] [HISTORY] ${history.reportCount} earlier report(s): ${confirmed} confirmed, ${wrong} wrong, ${history.missedFlags.length} missed flags`);
+    ctx.emit({
+      type: 'history_loaded',
+      reportCount: history.reportCount,
+      lastScreenedAt: history.lastScreenedAt,
+      confirmed,
+      wrong,
+      missed: history.missedFlags.length,
+    });
+
+    const queries = missedFlagQueries(history.missedFlags, subjectName, nameVariations);
+    if (queries.length === 0 || from?.searched) return { outcome: 'next', output: { history } };
+
+    ctx.emit({ type: 'phase', phase: '1.96', name: 'MISSED_FLAG_SEARCH', message: `Searching for ${queries.length} previously missed issues...` });
+
+    const allResults = [...input.allResults];
+    for (const { flag, query } of queries) {
+      if (signal.aborted) break;
+      try {
+        const pageResults = await searchGoogle(query, 1, 10, signal, isChineseName(subjectName) ? 'zh-cn' : 'en');
+        tracker.recordQuery(pageResults.length);
+        let added = 0;
+        for (const r of pageResults) {
+          if (!allResults.find(existing => existing.url === r.link)) {
+            allResults.push({
+              url: r.link,
+              title: r.title,
+              snippet: r.snippet || '',
+              query: `[MISSED:${flag.id}] ${query}`,
+            });
+            added++;
+          }
+        }
+        console.log(`[V4] [HISTORY] Missed flag ${flag.id}: ${added} new results`);
+      } catch (err: any) {
+        console.error(`[V4] [HISTORY] Missed flag ${flag.id} search failed (non-fatal): ${err?.message}`);
+      }
+    }
+
+    return { outcome: 'next', output: { history, allResults } };
+  },
+
+  checkpoint({ allResults }) {
+    return allResults ? { gatheredResults: allResults } : null;
+  },
+};
@@ -0,0 +1,34 @@
+// src/engine/phases/litigation.ts
+// Phase 5.3: mainland court and enforcement records. Targeted searches of the judgment and
+// enforcement sites, parsed into cases by case number — reported as a table, not as media findings.
+
+import { searchLitigation } from '../../litigation.js';
+import { isChineseName } from '../../searchStrings.js';
+import type { ScreeningPhase } from '../types.js';
+
+export const litigationPhase: ScreeningPhase<'allResults', 'litigation'> = {
+  name: 'litigation',
+  inputs: ['allResults'],
+  outputs: ['litigation'],
+  async run({ allResults }, ctx) {
+    const { subjectName, nameVariations, tracker, signal } = ctx;
+    // On by default for Chinese names; `litigation: false` skips it
+    if (ctx.input.litigation === false || !nameVariations.some(n => isChineseName(n))) return { outcome: 'next', output: {} };
+
+    ctx.emit({ type: 'phase', phase: '5.3', name: 'LITIGATION', message: 'Searching court judgments and enforcement records...' });
+    try {
+      // Case numbers already in the media results count too
+      const result = await searchLitigation(subjectName, nameVariations, {
+        signal,
+        extraResults: allResults,
+        onQuery: count => tracker.recordQuery(count),
+      });
+      console.log(`[V4] [LITIGATION] ${result.queries} queries, ${result.cases.length} cases`);
+      ctx.emit({ type: 'litigation_complete', cases: result.cases.length, dishonestDebtor: result.cases.some(c => c.dishonestDebtor) });
+      return { outcome: 'next', output: { litigation: result } };
+    } catch (err: any) {
+      console.error(`[V4] [LITIGATION] Search failed (non-fatal): ${err?.message}`);
+      return { outcome: 'next', output: {} };
+    }
+  },
+};
@@ -0,0 +1,28 @@
+// src/engine/phases/pep.ts
+// Phase 5.4: PEP determination. Classifies the roles in the consolidated profile, matches the
+// loaded PEP datasets and checks relatives/close associates. Person screenings only.
+
+import { determinePEP } from '../../pep.js';
+import { isCompanyScreening } from '../companies.js';
+import type { ScreeningPhase } from '../types.js';
+
+export const pepPhase: ScreeningPhase<'profile', 'pep'> = {
+  name: 'pep',
+  inputs: ['profile'],
+  outputs: ['pep'],
+  async run({ profile }, ctx) {
+    const { subjectName, nameVariations } = ctx;
+    if (isCompanyScreening(subjectName)) return { outcome: 'next', output: {} };
+
+    ctx.emit({ type: 'phase', phase: '5.4', name: 'PEP', message: 'Assessing politically exposed person status...' });
+    try {
+      const result = await determinePEP({ name: subjectName, nameVariations, profile });
+      console.log(`[V4] [PEP] ${result.status}${result.tier ? ` (Tier ${result.tier})` : ''}: ${result.roles.length} roles, ${result.listMatches.length} dataset matches, ${result.associates.length} RCAs`);
+      ctx.emit({ type: 'pep_complete', status: result.status, tier: result.tier });
+      return { outcome: 'next', output: { pep: result } };
+    } catch (err: any) {
+      console.error(`[V4] [PEP] Determination failed (non-fatal): ${err?.message}`);
+      return { outcome: 'next', output: {} };
+    }
+  },
+};
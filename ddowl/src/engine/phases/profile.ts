@@ -0,0 +1,195 @@
+// src/engine/phases/profile.ts
+// Phases 0.9 + 1.9: biographical search and the preliminary subject profile seeded from snippets.
+
+import { searchGoogle } from '../../searcher.js';
+import { isChineseName } from '../../searchStrings.js';
+import { completeLLM } from '../../llm/client.js';
+import { hasLLMProvider } from '../../llm/providers.js';
+import { isCompanyScreening } from '../companies.js';
+import { addRegisterLicences } from '../../hk-regulators.js';
+import type { SearchResult, SubjectProfile } from '../../types.js';
+import type { ScreeningPhase } from '../types.js';
+
+/**
+ * Empty profile for a subject — filled in by the profile seed and enriched during analyze.
+ */
+export function createSubjectProfile(subjectName: string, nameVariations: string[]): SubjectProfile {
+  return {
+    primaryName: subjectName,
+    nameVariants: [...nameVariations],
+    gender: 'unknown',
+    nationality: [],
+    ageRange: '',
+    currentRole: null,
+    pastRoles: [],
+    industry: [],
+    licenses: [],
+    associatedCompanies: [],
+    associatedPeople: [],
+    confidence: 'low',
+    sources: [],
+    lastUpdated: Date.now(),
+  };
+}
+
+export const profilePhase: ScreeningPhase<'allResults', 'profile' | 'bioResults'> = {
+  name: 'profile',
+  inputs: ['allResults'],
+  outputs: ['profile', 'bioResults'],
+
+  // On reconnect, restore profile from session
+  resume(session, ctx) {
+    if (!session.profile) return null;
+    console.log(`[V4] Restored profile from session, confidence: ${session.profile.confidence}`);
+    ctx.emit({ type: 'profile_seed', profile: session.profile });
+    return { done: { profile: session.profile } };
+  },
+
+  async run({ allResults }, ctx) {
+    const { subjectName, nameVariations, tracker } = ctx;
+    const subjectContext = ctx.input.context || '';
+
+    // ========================================
+    // PHASE 0.9: BIOGRAPHICAL SEARCH (clean name query for entity resolution)
+    // ========================================
+    let bioResults: Pick<SearchResult, 'title' | 'snippet'>[] = [];
+    try {
+      const bioHl = isChineseName(subjectName) ? 'zh-cn' : 'en';
+      const bioSearchResults = await searchGoogle(`"${subjectName}"`, 1, 10, undefined, bioHl);
+      tracker.recordQuery(bioSearchResults.length);
+      bioResults = bioSearchResults.map(r => ({ title: r.title, snippet: r.snippet }));
+      console.log(`[V4] Bio search: ${bioResults.length} results for "${subjectName}"`);
+    } catch (err: any) {
+      console.error(`[V4] Bio search failed (non-fatal): ${err?.message}`);
+    }
+
+    // ========================================
+    // PHASE 1.9: PROFILE SEED (from search snippets)
+    // ========================================
+    const profile = createSubjectProfile(subjectName, nameVariations);
+
+    // Build preliminary profile from search snippets (1 LLM call)
+    try {
+      const profileInputResults = [
+        ...bioResults,
+        ...allResults.slice(0, 100 - bioResults.length),
+      ].slice(0, 100);
+
+      const snippetSummary = profileInputResults.map((r, i) =>
+        `[${i + 1}] ${r.title} — ${r.snippet || ''}`
+      ).join('\n');
+
+      const isCompanyProfile = isCompanyScreening(subjectName);
+      const profilePrompt = isCompanyProfile
+        ? `You are a due diligence analyst. Given these search results about company "${subjectName}", extract a company profile.
+
+SEARCH RESULTS:
+${snippetSummary}
+
+For well-known public companies, you may use your general knowledge to fill industry and nationality even if not explicitly stated in the search results.
+
+OUTPUT FORMAT (JSON only):
+{
+  "nationality": ["China"],
+  "operatingRegions": ["China", "India", "EU"],
+  "industry": ["technology", "consumer electronics", "electric vehicles"],
+  "currentRole": null,
+  "pastRoles": [],
+  "associatedCompanies": [{"name": "Xiaomi India", "relationship": "subsidiary"}],
+  "associatedPeople": [{"name": "Lei Jun", "relationship": "CEO"}]
+}
+
+For nationality, provide the headquarters jurisdiction. For industry, list all relevant sectors.`
+        : `You are a due diligence analyst. Given these search results about "${subjectName}", extract a preliminary subject profile.
+${subjectContext ? `
+VERIFIED CONTEXT (from the requesting analyst — treat as ground truth):
+${subjectContext}
+
+Use this context to identify the correct individual in the search results. Prioritize results that match this context.
+` : ''}
+SEARCH RESULTS:
+${snippetSummary}
+
+Extract ONLY facts that appear in multiple results or are stated clearly. Mark uncertain facts.
+
+OUTPUT FORMAT (JSON only):
+{
+  "gender": "male" | "female" | "unknown",
+  "nationality": ["Hong Kong", ...] or [],
+  "ageRange": "40s" or "born 1982" or "",
+  "currentRole": { "title": "CFO", "company": "XYZ Corp", "since": "2020" } or null,
+  "pastRoles": [{ "title": "Director", "company": "ABC Ltd", "period": "2015-2019" }],
+  "industry": ["finance", "real estate"] or [],
+  "licenses": ["SFC Type 9"] or [],
+  "associatedCompanies": [{ "name": "XYZ Corp", "relationship": "director" }],
+  "associatedPeople": [{ "name": "John Smith", "relationship": "business partner" }]
+}
+
+If you cannot determine a field with reasonable confidence, use the default empty value. Do NOT guess.`;
+
+      if (hasLLMProvider('profile')) {
+        const profileResponse = await completeLLM({
+          operation: 'profile',
+          prompt: profilePrompt,
+          temperature: 0.1,
+          timeout: 15000,
+          onLLMCall: (provider, op, input, output, usage) => tracker.recordLLMCall(provider, op, input, output, usage),
+        });
+
+        const profileText = profileResponse.text;
+        const cleanText = profileText.replace(/```json\s*/gi, '').replace(/```/g, '');
+        const jsonMatch = cleanText.match(/\{[\s\S]*\}/);
+
+        if (jsonMatch) {
+          const parsed = JSON.parse(jsonMatch[0]);
+          profile.gender = parsed.gender || 'unknown';
+          profile.nationality = parsed.nationality || [];
+          profile.ageRange = parsed.ageRange || '';
+          profile.currentRole = parsed.currentRole || null;
+          profile.pastRoles = parsed.pastRoles || [];
+          profile.industry = parsed.industry || [];
+          profile.licenses = parsed.licenses || [];
+          profile.associatedCompanies = parsed.associatedCompanies || [];
+          profile.associatedPeople = parsed.associatedPeople || [];
+          profile.lastUpdated = Date.now();
+
+          // Compute confidence from how many fields the LLM actually populated
+          let filledFields = 0;
+          if (profile.gender && profile.gender !== 'unknown') filledFields++;
+          if (profile.nationality.length > 0) filledFields++;
+          if (profile.ageRange) filledFields++;
+          if (profile.currentRole) filledFields++;
+          if (profile.pastRoles.length > 0) filledFields++;
+          if (profile.industry.length > 0) filledFields++;
+          if (profile.associatedCompanies.length > 0) filledFields++;
+          if (profile.associatedPeople.length > 0) filledFields++;
+          if (filledFields >= 5) profile.confidence = 'high';
+          else if (filledFields >= 3) profile.confidence = 'medium';
+          // else stays 'low'
+
+          console.log(`[V4] Profile seed extracted: gender=${profile.gender}, role=${profile.currentRole?.title}, companies=${profile.associatedCompanies.length}, confidence=${profile.confidence} (${filledFields}/8 fields)`);
+        }
+      } else {
+        console.log(`[V4] No DeepSeek API key - skipping profile seed`);
+      }
+    } catch (err: any) {
+      console.error(`[V4] Profile seed extraction failed (non-fatal): ${err?.message}`);
+      // Profile stays at defaults — will be enriched during analyze
+    }
+
+    // SFC public register entries in the results give licence details directly
+    const registerLicences = addRegisterLicences(profile, allResults, [subjectName, ...nameVariations]);
+    if (registerLicences.length > 0) {
+      console.log(`[V4] SFC register licences: ${registerLicences.join('; ')}`);
+    }
+
+    ctx.emit({ type: 'profile_seed', profile });
+
+    return { outcome: 'next', output: { profile, bioResults } };
+  },
+
+  // Save profile to session
+  checkpoint({ profile }) {
+    return profile ? { profile } : null;
+  },
+};
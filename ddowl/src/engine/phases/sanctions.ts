@@ -0,0 +1,29 @@
+// src/engine/phases/sanctions.ts
+// Phase 5.5 (optional): screen the subject against the locally loaded sanctions lists.
+// Runs after consolidation so the profile (age, nationality, aliases) is as complete as it gets.
+
+import { checkSanctions, subjectFromProfile } from '../../sanctions.js';
+import { isCompanyScreening } from '../companies.js';
+import type { ScreeningPhase } from '../types.js';
+
+export const sanctionsPhase: ScreeningPhase<'profile', 'sanctions'> = {
+  name: 'sanctions',
+  inputs: ['profile'],
+  outputs: ['sanctions'],
+  async run({ profile }, ctx) {
+    const { subjectName, nameVariations } = ctx;
+    if (!ctx.input.sanctions) return { outcome: 'next', output: {} };
+
+    ctx.emit({ type: 'phase', phase: '5.5', name: 'SANCTIONS', message: 'Checking sanctions and watchlists...' });
+    try {
+      const kind = isCompanyScreening(subjectName) ? 'company' : 'person';
+      const result = await checkSanctions(subjectFromProfile(subjectName, nameVariations, profile, kind));
+      console.log(`[V4] [SANCTIONS] ${result.lists.length} lists checked, ${result.hits.length} potential matches`);
+      ctx.emit({ type: 'sanctions_complete', lists: result.lists.length, hits: result.hits });
+      return { outcome: 'next', output: { sanctions: result } };
+    } catch (err: any) {
+      console.error(`[V4] [SANCTIONS] Check failed (non-fatal): ${err?.message}`);
+      return { outcome: 'next', output: {} };
+    }
+  },
+};
@@ -0,0 +1,198 @@
+// src/engine/phases/subsidiaries.ts
+// Phase 1.95: subsidiary extraction (LLM), then profile-guided supplementary searches
+// with core subsidiary names included in OR clauses (language-separated).
+
+import { searchGoogle } from '../../searcher.js';
+import { isChineseName, buildSearchQueryWithVariants, selectSupplementaryTemplates, inferGeographyFromName } from '../../searchStrings.js';
+import { completeLLM } from '../../llm/client.js';
+import { hasLLMProvider } from '../../llm/providers.js';
+import { isCompanyScreening } from '../companies.js';
+import { sessionReached } from '../resume.js';
+import type { ScreeningPhase, PhaseOutput, Subsidiary } from '../types.js';
+
+type SubsidiariesOutput = 'allResults' | 'profile' | 'extractedSubsidiaries';
+
+export const subsidiariesPhase: ScreeningPhase<'allResults' | 'profile', SubsidiariesOutput> = {
+  name: 'subsidiaries',
+  inputs: ['allResults', 'profile'],
+  outputs: ['allResults', 'profile', 'extractedSubsidiaries'],
+
+  // Extraction and supplementary searches already ran if we're resuming past gather
+  resume(session) {
+    return sessionReached(session, 'eliminate') ? { done: { extractedSubsidiaries: [] } } : null;
+  },
+
+  async run(input, ctx) {
+    const { subjectName, nameVariations, tracker, signal } = ctx;
+    const allResults = [...input.allResults];
+    const subjectProfile = { ...input.profile, associatedCompanies: [...input.profile.associatedCompanies] };
+    let extractedSubsidiaries: Subsidiary[] = [];
+    const output: PhaseOutput<SubsidiariesOutput> = {};
+
+    if (isCompanyScreening(subjectName) && hasLLMProvider('subsidiary')) {
+      try {
+        console.log(`[V4] [SUBSIDIARY] Running subsidiary extraction for company: ${subjectName}`);
+        ctx.emit({ type: 'phase', phase: '1.95', name: 'SUBSIDIARY_EXTRACTION', message: `Extracting known subsidiaries for ${subjectName}...` });
+
+        const subsidiaryPrompt = `List all known subsidiaries, regional entities, and affiliated companies of "${subjectName}".
+Include:
+- Regional subsidiaries (e.g., "Company India", "Company Taiwan", "Company Technology India Pvt Ltd")
+- Payment/fintech subsidiaries
+- Recently acquired companies
+- Entities with different names that are known subsidiaries
+- Short-form trading names commonly used
+
+Return JSON array: [{"name": "...", "chinese": "...", "relationship": "subsidiary|affiliate|regional_entity", "significance": "core|minor"}]
+
+Mark as "core" subsidiaries that are major operating entities (regional HQs, primary business units, entities with independent regulatory exposure). Mark as "minor" smaller or dormant entities.
+Only include entities you are confident about. Do NOT guess. Return [] if unsure.`;
+
+        const subResp = await completeLLM({
+          operation: 'subsidiary',
+          prompt: subsidiaryPrompt,
+          temperature: 0.1,
+          timeout: 30000,
+          onLLMCall: (provider, op, input, output, usage) => tracker.recordLLMCall(provider, op, input, output, usage),
+        });
+
+        const subRaw = subResp.text;
+        const subText = subRaw.replace(/```json\s*/gi, '').replace(/```/g, '');
+        const subMatch = subText.match(/\[[\s\S]*\]/);
+        if (subMatch) {
+          extractedSubsidiaries = JSON.parse(subMatch[0]) as Subsidiary[];
+          if (extractedSubsidiaries.length > 0) {
+            console.log(`[V4] [SUBSIDIARY] Found ${extractedSubsidiaries.length} subsidiaries:`, extractedSubsidiaries.map(s => s.name));
+
+            // Add to profile's associatedCompanies
+            for (const sub of extractedSubsidiaries) {
+              if (!subjectProfile.associatedCompanies.some(c => c.name === sub.name)) {
+                subjectProfile.associatedCompanies.push({ name: sub.name, relationship: sub.relationship || 'subsidiary' });
+              }
+            }
+
+            output.profile = subjectProfile;
+            ctx.emit({ type: 'subsidiary_extraction', count: extractedSubsidiaries.length, subsidiaries: extractedSubsidiaries.map(s => s.name) });
+          }
+        }
+      } catch (err: any) {
+        console.error(`[V4] [SUBSIDIARY] Extraction failed (non-fatal): ${err?.message}`);
+      }
+    }
+
+    // Supplementary profile-guided search (still within Phase 1.95)
+    const isCompany = isCompanyScreening(subjectName);
+    const geoHints = inferGeographyFromName(subjectName);
+    const supplementary = selectSupplementaryTemplates(
+      { industry: subjectProfile.industry, nationality: subjectProfile.nationality },
+      isCompany,
+      geoHints
+    );
+
+    if (supplementary.length > 0) {
+      console.log(`[V4] [SUPPLEMENTARY] Selected ${supplementary.length} supplementary templates: ${supplementary.map(t => t.id).join(', ')}`);
+      ctx.emit({ type: 'phase', phase: '1.95', name: 'SUPPLEMENTARY_SEARCH', message: `Running ${supplementary.length} profile-guided supplementary searches...`, total: supplementary.length });
+
+      // Build augmented name lists with core subsidiary names (language-separated)
+      const coreSubsidiaries = extractedSubsidiaries.filter(s => s.significance === 'core');
+      const suppCjkNames = [...nameVariations.filter(n => isChineseName(n))];
+      const suppNonCjkNames = [...nameVariations.filter(n => !isChineseName(n))];
+
+      for (const sub of coreSubsidiaries) {
+        if (sub.chinese && isChineseName(sub.chinese) && !suppCjkNames.includes(sub.chinese)) {
+          suppCjkNames.push(sub.chinese);
+        }
+        if (sub.name && !isChineseName(sub.name) && !suppNonCjkNames.includes(sub.name)) {
+          suppNonCjkNames.push(sub.name);
+        }
+      }
+
+      if (coreSubsidiaries.length > 0) {
+        console.log(`[V4] [SUPPLEMENTARY] Augmented with ${coreSubsidiaries.length} core subsidiaries. CJK names: ${suppCjkNames.length}, Non-CJK names: ${suppNonCjkNames.length}`);
+      }
+
+      const SUPP_MAX_PAGES = 10;  // Supplementary = 10 pages
+      let suppResultCount = 0;
+
+      for (let tIdx = 0; tIdx < supplementary.length; tIdx++) {
+        if (signal.aborted) break;
+        const tmpl = supplementary[tIdx];
+
+        // Select appropriate name variants based on template language
+        const relevantNames = tmpl.language === 'zh' ? suppCjkNames : suppNonCjkNames;
+        if (relevantNames.length === 0) continue;
+
+        const query = buildSearchQueryWithVariants(tmpl.template, relevantNames);
+
+        ctx.emit({ type: 'progress', message: `Supplementary search ${tIdx + 1}/${supplementary.length}: ${tmpl.category}` });
+
+        for (let page = 1; page <= SUPP_MAX_PAGES; page++) {
+          if (signal.aborted) break;
+          try {
+            const pageResults = await searchGoogle(query, page, 10, signal, tmpl.hl);
+            tracker.recordQuery(pageResults.length);
+            ctx.emit({
+              type: 'search_page',
+              engine: 'google',
+              queryIndex: tIdx + 1,
+              totalQueries: supplementary.length,
+              page,
+              pageResults: pageResults.length,
+              supplementary: true,
+              templateId: tmpl.id,
+            });
+            if (pageResults.length === 0) break;
+            for (const r of pageResults) {
+              if (!allResults.find(existing => existing.url === r.link)) {
+                allResults.push({
+                  url: r.link,
+                  title: r.title,
+                  snippet: r.snippet || '',
+                  query: `[SUPP:${tmpl.id}] ${tmpl.template}`
+                });
+                suppResultCount++;
+              }
+            }
+            if (pageResults.length < 10) break;
+            await new Promise(r => setTimeout(r, 200));
+          } catch (err) {
+            console.error(`[V4] [SUPPLEMENTARY] Search failed for ${tmpl.id} page ${page}:`, err);
+            break;
+          }
+        }
+
+        const templateResults = allResults.filter(r => r.query === `[SUPP:${tmpl.id}] ${tmpl.template}`).length;
+        ctx.emit({
+          type: 'search_progress',
+          queryIndex: tIdx + 1,
+          totalQueries: supplementary.length,
+          query: `[SUPP] ${tmpl.category}`,
+          resultsFound: templateResults,
+          totalSoFar: allResults.length,
+          supplementary: true,
+        });
+        console.log(`[V4] [SUPPLEMENTARY] ${tmpl.id} (${tIdx + 1}/${supplementary.length}): ${templateResults} new results`);
+      }
+
+      if (suppResultCount > 0) {
+        console.log(`[V4] [SUPPLEMENTARY] Added ${suppResultCount} new results. Total: ${allResults.length}`);
+        output.allResults = allResults;
+      }
+
+      ctx.emit({
+        type: 'phase_complete',
+        phase: '1.95',
+        count: suppResultCount,
+        templates: supplementary.length,
+        message: `Supplementary search complete. ${suppResultCount} new results from ${supplementary.length} templates.`
+      });
+    }
+
+    output.extractedSubsidiaries = extractedSubsidiaries;
+    return { outcome: 'next', output };
+  },
+
+  checkpoint({ profile, allResults }) {
+    if (!profile && !allResults) return null;
+    return { ...(profile && { profile }), ...(allResults && { gatheredResults: allResults }) };
+  },
+};
@@ -0,0 +1,107 @@
+// src/engine/phases/title-dedupe.ts
+// Phase 2.1: LLM title deduplication. Batch dedupe before clustering to save LLM costs.
+
+import { llmBatchTitleDedupe, type TitleDedupeProgress } from '../../eliminator.js';
+import { sessionReached } from '../resume.js';
+import type { BatchSearchResult } from '../../searcher.js';
+import type { ScreeningPhase } from '../types.js';
+
+export const titleDedupePhase: ScreeningPhase<'passed' | 'allResults' | 'progEliminated', 'passed' | 'titleDedupeDuplicates'> = {
+  name: 'title_dedupe',
+  inputs: ['passed', 'allResults', 'progEliminated'],
+  outputs: ['passed', 'titleDedupeDuplicates'],
+
+  // Skip title dedupe if resuming from a later phase, or if it finished before the
+  // disconnect (no need to log phase_skipped to client)
+  resume(session) {
+    if (sessionReached(session, 'cluster')) {
+      console.log(`[V4] Skipped title dedupe phase, resuming from later phase`);
+      return { done: { titleDedupeDuplicates: [] } };
+    }
+    if (session.currentPhase === 'eliminate' && session.passedElimination?.length) {
+      console.log(`[V4] titleDedupeComplete=${!!session.titleDedupeComplete}, ${session.titleDedupeComplete ? 'skipping' : 'will run'} title_dedupe`);
+      if (session.titleDedupeComplete) return { done: { titleDedupeDuplicates: [] } };
+    }
+    return null;
+  },
+
+  async run(input, ctx) {
+    const { sessionId, tracker, signal } = ctx;
+    let passed = input.passed;
+    let titleDedupeDuplicates: BatchSearchResult[] = [];
+
+    // Check if user paused before title dedupe
+    if (await ctx.isPaused()) {
+      console.log(`[V4] Session ${sessionId} paused before title dedupe phase`);
+      ctx.emit({ type: 'paused', phase: 'title_dedupe' });
+      return { outcome: 'stop', output: {} };
+    }
+
+    if (passed.length >= 50) {
+      // Only run if we have enough articles (worth the LLM cost)
+      ctx.emit({
+        type: 'phase',
+        phase: '2.1',
+        name: 'TITLE_DEDUPE',
+        message: `Batch deduplicating ${passed.length} titles...`
+      });
+
+      const titleDedupeStart = Date.now();
+      const dedupeResult = await llmBatchTitleDedupe(passed, async (progress: TitleDedupeProgress) => {
+        ctx.emit({
+          type: 'title_dedupe_progress',
+          batchNumber: progress.batchNumber,
+          totalBatches: progress.totalBatches,
+          processedSoFar: progress.processedSoFar,
+          totalItems: progress.totalItems,
+          duplicatesFound: progress.duplicatesFound,
+        });
+        // Save progress for mid-title_dedupe resume
+        await ctx.checkpoint({
+          titleDedupeBatchIndex: progress.batchNumber
+        });
+      }, (provider, op, input, output, usage) => tracker.recordLLMCall(provider, op, input, output, usage));
+
+      titleDedupeDuplicates = dedupeResult.duplicates;
+      passed = dedupeResult.unique;
+
+      // Mark title dedupe as complete
+      await ctx.checkpoint({
+        titleDedupeComplete: true,
+        passedElimination: passed
+      });
+
+      ctx.emit({
+        type: 'title_dedupe_complete',
+        before: dedupeResult.unique.length + dedupeResult.duplicates.length,
+        after: dedupeResult.unique.length,
+        duplicatesRemoved: dedupeResult.duplicates.length,
+        groupsFound: dedupeResult.groups.length,
+        duration: Date.now() - titleDedupeStart,
+      });
+
+      console.log(`[V4] Title dedupe complete: ${dedupeResult.unique.length} unique, ${dedupeResult.duplicates.length} duplicates removed`);
+    } else {
+      // Not enough articles for LLM dedupe - skip silently (server log only)
+      console.log(`[V4] Only ${passed.length} articles, skipping LLM title dedupe`);
+    }
+
+    if (signal.aborted) {
+      console.log(`[V4] Signal aborted after elimination — skipping session update to prevent stale write`);
+      return { outcome: 'stop', output: {} };
+    }
+
+    const output = { passed, titleDedupeDuplicates };
+    if (passed.length === 0) {
+      ctx.emit({ type: 'complete', stats: { totalResults: input.allResults.length, programmaticEliminated: input.progEliminated.length, titleDedupeDuplicates: titleDedupeDuplicates.length, findings: 0 }, findings: [] });
+      return { outcome: 'done', output };
+    }
+    return { outcome: 'next', output };
+  },
+
+  // Update session with elimination + dedupe results. Not reached when skipped on resume,
+  // so a later phase is never overwritten with 'cluster'
+  checkpoint({ passed }) {
+    return { passedElimination: passed, currentPhase: 'cluster' };
+  },
+};
@@ -0,0 +1,15 @@
+// src/engine/resume.ts
+// Helpers the phases use to tell how far a restored ScreeningSession got.
+
+import type { ScreeningSession } from '../session-store.js';
+
+type SessionPhase = ScreeningSession['currentPhase'];
+
+const SESSION_PHASE_ORDER: SessionPhase[] = ['gather', 'eliminate', 'cluster', 'categorize', 'analyze', 'consolidate', 'complete'];
+
+/**
+ * True when the session's checkpointed phase is `phase` or a later one.
+ */
+export function sessionReached(session: ScreeningSession, phase: SessionPhase): boolean {
+  return SESSION_PHASE_ORDER.indexOf(session.currentPhase) >= SESSION_PHASE_ORDER.indexOf(phase);
+}
@@ -0,0 +1,41 @@
+// src/engine/store.ts
+// Checkpoint stores for the screening engine.
+
+import { createSession, getSession, updateSession, isStillOwner, type ScreeningSession } from '../session-store.js';
+import type { ScreeningStore } from './types.js';
+
+// Redis-backed sessions — what the SSE endpoint resumes from after a reconnect
+export const redisStore: ScreeningStore = {
+  create: createSession,
+  get: getSession,
+  update: updateSession,
+  isStillOwner,
+};
+
+/**
+ * In-process store for runs that don't need to survive a restart (CLI, tests, replay).
+ * Mirrors the Redis store's ownership rule: updates from a superseded connection are rejected.
+ */
+export function createMemoryStore(): ScreeningStore {
+  const sessions = new Map<string, ScreeningSession>();
+
+  return {
+    async create(sessionId, session) {
+      sessions.set(sessionId, session);
+    },
+    async get(sessionId) {
+      return sessions.get(sessionId) ?? null;
+    },
+    async update(sessionId, updates, connectionId) {
+      const session = sessions.get(sessionId);
+      if (!session) return false;
+      if (connectionId && session.connectionId && session.connectionId !== connectionId) return false;
+      sessions.set(sessionId, { ...session, ...updates });
+      return true;
+    },
+    async isStillOwner(sessionId, connectionId) {
+      const session = sessions.get(sessionId);
+      return !!session && session.connectionId === connectionId;
+    },
+  };
+}
@@ -0,0 +1,74 @@
+// src/engine/templates.ts
+// Search template selection for the gather phase.
+
+import { LANGUAGE_CONFIG, isChineseName, detectScript } from '../searchStrings.js';
+import type { TemplateEntry } from './types.js';
+
+/**
+ * Build per-language template entries for the selected languages and the scripts
+ * detected in the name variations.
+ */
+export function buildTemplateEntries(nameVariations: string[], languages: string[]): TemplateEntry[] {
+  const templateEntries: TemplateEntry[] = [];
+
+  // Step 1: For each explicitly selected language, add templates with appropriate names
+  for (const lang of languages) {
+    const cfg = LANGUAGE_CONFIG[lang];
+    if (!cfg) continue;
+
+    if (lang === 'chinese') {
+      // Chinese templates only for CJK names
+      const cjkNames = nameVariations.filter(n => isChineseName(n));
+      if (cjkNames.length > 0) {
+        for (const t of [...cfg.templates, ...cfg.siteTemplates]) {
+          templateEntries.push({ template: t, names: cjkNames, hl: cfg.hl });
+        }
+      }
+    } else if (lang === 'english') {
+      // English templates only for non-CJK names
+      const nonCjkNames = nameVariations.filter(n => !isChineseName(n));
+      if (nonCjkNames.length > 0) {
+        for (const t of [...cfg.templates, ...cfg.siteTemplates]) {
+          templateEntries.push({ template: t, names: nonCjkNames, hl: cfg.hl });
+        }
+      }
+    } else {
+      // Other languages: use templates for ALL name variations
+      for (const t of [...cfg.templates, ...cfg.siteTemplates]) {
+        templateEntries.push({ template: t, names: nameVariations, hl: cfg.hl });
+      }
+    }
+  }
+
+  // Step 2: Auto-detect scripts from name variations and add missing language templates
+  const detectedLangs = new Set<string>();
+  for (const name of nameVariations) {
+    detectedLangs.add(detectScript(name));
+  }
+  for (const detected of detectedLangs) {
+    if (languages.includes(detected)) continue; // Already explicitly selected
+    if (detected === 'english') continue; // Handled in step 3
+    const cfg = LANGUAGE_CONFIG[detected];
+    if (!cfg) continue;
+    // Only apply to names matching this script
+    const matchingNames = nameVariations.filter(n => detectScript(n) === detected);
+    if (matchingNames.length > 0) {
+      for (const t of [...cfg.templates, ...cfg.siteTemplates]) {
+        templateEntries.push({ template: t, names: matchingNames, hl: cfg.hl });
+      }
+    }
+  }
+
+  // Step 3: Auto-include English for Latin-script names if not explicitly selected
+  if (!languages.includes('english')) {
+    const latinNames = nameVariations.filter(n => detectScript(n) === 'english');
+    if (latinNames.length > 0) {
+      const engCfg = LANGUAGE_CONFIG['english'];
+      for (const t of [...engCfg.templates, ...engCfg.siteTemplates]) {
+        templateEntries.push({ template: t, names: latinNames, hl: 'en' });
+      }
+    }
+  }
+
+  return templateEntries;
+}
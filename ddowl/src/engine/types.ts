@@ -0,0 +1,193 @@
+// src/engine/types.ts
+// Types shared by the screening engine and its phases.
+
+import type { BatchSearchResult } from '../searcher.js';
+import type { CategorizedResult } from '../triage.js';
+import type { EliminatedResult, EliminationBreakdown } from '../eliminator.js';
+import type { ScreeningSession, DetectedCompany } from '../session-store.js';
+import type { MetricsTracker } from '../metrics/tracker.js';
+import type { CleanEntityResult } from '../reports-db.js';
+import type { SanctionsCheckResult } from '../sanctions.js';
+import type { PEPDetermination } from '../pep.js';
+import type { LitigationResult } from '../litigation.js';
+import type { SubjectHistory } from '../reports-db.js';
+import type { CompiledRules } from '../learning-rules.js';
+import type { CredibilityIndex } from '../source-credibility.js';
+import type {
+  RawFinding, ConsolidatedFinding, SubjectProfile, FunnelPhaseSnapshot, SearchResult,
+} from '../types.js';
+
+export type ScreeningPhaseName =
+  | 'gather'
+  | 'company_expansion'
+  | 'profile'
+  | 'company_regulatory'
+  | 'subsidiaries'
+  | 'history'
+  | 'eliminate'
+  | 'title_dedupe'
+  | 'cluster'
+  | 'categorize'
+  | 'analyze'
+  | 'consolidate'
+  | 'litigation'
+  | 'pep'
+  | 'sanctions'
+  | 'finalize';
+
+// 'next': continue with the following phase
+// 'done': screening finished early (nothing left to screen) — treated as complete
+// 'stop': paused, aborted or superseded — progress is checkpointed for resume
+export type PhaseOutcome = 'next' | 'done' | 'stop';
+
+export type ScreeningStateKey = keyof ScreeningState;
+
+// The state fields a phase produced. Fields it had nothing to do for are left out.
+export type PhaseOutput<O extends ScreeningStateKey> = Partial<Pick<ScreeningState, O>>;
+
+export interface PhaseResult<O extends ScreeningStateKey> {
+  outcome: PhaseOutcome;
+  output: PhaseOutput<O>;
+}
+
+// Where a phase picks up on a restored session:
+// { done }: it finished before — its output is restored from the session and run() is skipped
+// { from }: it stopped partway — run() continues from this point
+// null: run it from the start
+export type PhaseResume<O extends ScreeningStateKey, R> = { done: PhaseOutput<O> } | { from: R } | null;
+
+/**
+ * One step of the pipeline. The engine hands run() only the declared `inputs`, merges the
+ * returned output into the state, then saves whatever checkpoint() derives from that output.
+ * I: state fields read, O: state fields written, R: mid-phase progress to resume from.
+ */
+export interface ScreeningPhase<I extends ScreeningStateKey = ScreeningStateKey, O extends ScreeningStateKey = ScreeningStateKey, R = unknown> {
+  name: ScreeningPhaseName;
+  inputs: readonly I[];
+  outputs: readonly O[];
+  resume?(session: ScreeningSession, ctx: ScreeningContext): PhaseResume<O, R> | Promise<PhaseResume<O, R>>;
+  run(input: Pick<ScreeningState, I>, ctx: ScreeningContext, from?: R): Promise<PhaseResult<O>>;
+  // Session fields to save once the phase has finished (not called when it stops)
+  checkpoint?(output: PhaseOutput<O>, ctx: ScreeningContext): Partial<ScreeningSession> | null;
+}
+
+export type Categorized = { red: CategorizedResult[]; amber: CategorizedResult[]; green: CategorizedResult[] };
+
+export interface ScreeningInput {
+  subjectName: string;
+  nameVariations?: string[];  // Extra variations from the caller (main name always included)
+  languages: string[];        // e.g. ['chinese', 'english']
+  language?: string;          // Raw language param, stored on the session and report
+  context?: string;           // Analyst-provided context to disambiguate the subject
+  sanctions?: boolean;        // Also screen against the loaded sanctions lists
+  litigation?: boolean;       // false skips the court-record searches (on by default for Chinese names)
+  sessionId?: string;         // Resume this session if it still exists
+  // Legacy reconnect state (pre-session clients pass these in the URL)
+  restoredFindings?: RawFinding[];
+  restoredResults?: BatchSearchResult[];
+  // Last progress the client saw before disconnecting (for the reconnect_status message)
+  lastSeenBatch?: number;
+  lastSeenArticle?: number;
+}
+
+/**
+ * Persistence for checkpoints. Redis in the server, in-memory for CLI/tests/replay.
+ */
+export interface ScreeningStore {
+  create(sessionId: string, session: ScreeningSession): Promise<void>;
+  get(sessionId: string): Promise<ScreeningSession | null>;
+  update(sessionId: string, updates: Partial<ScreeningSession>, connectionId?: string): Promise<boolean>;
+  isStillOwner(sessionId: string, connectionId: string): Promise<boolean>;
+}
+
+/**
+ * Whatever is driving the engine (SSE response, CLI, test).
+ */
+export interface ScreeningHost {
+  emit(event: any): void;
+  isDisconnected?(): boolean;  // Output stream gone — stop instead of processing into the void
+}
+
+// URL tracking for the screening log - includes search query for each URL
+export interface UrlTracker {
+  gathered: { url: string; title: string; snippet: string; query: string }[];
+  programmaticElimination: {
+    passed: { url: string; title: string; query: string }[];
+    bypassed: { url: string; title: string; query: string }[];  // .gov.cn domains
+    eliminated: {
+      noise_domain: { url: string; title: string; query: string }[];
+      noise_title_pattern: { url: string; title: string; query: string }[];
+      name_char_separation: { url: string; title: string; query: string }[];
+      missing_dirty_word: { url: string; title: string; query: string }[];
+    };
+  };
+  categorized: {
+    red: { url: string; title: string; query: string; reason: string }[];
+    amber: { url: string; title: string; query: string; reason: string }[];
+    green: { url: string; title: string; query: string; reason: string }[];
+  };
+  eliminated: { url: string; query: string; reason: string }[];
+  processed: { url: string; title: string; query: string; result: 'ADVERSE' | 'CLEARED' | 'FAILED' | 'FURTHER'; severity?: string; headline?: string }[];
+}
+
+// Per-language template entry: each entry has template, names, and hl
+export interface TemplateEntry {
+  template: string;
+  names: string[];
+  hl: string;
+}
+
+export type Subsidiary = { name: string; chinese?: string; relationship: string; significance?: string };
+
+/**
+ * Phase outputs. Each phase reads what earlier phases produced and writes its own fields.
+ */
+export interface ScreeningState {
+  allResults: BatchSearchResult[];            // gather, company_expansion, company_regulatory, subsidiaries, history
+  detectedCompanies: DetectedCompany[];       // company_expansion
+  bioResults: Pick<SearchResult, 'title' | 'snippet'>[];  // profile
+  profile: SubjectProfile;                    // profile, subsidiaries, analyze
+  extractedSubsidiaries: Subsidiary[];        // subsidiaries
+  history: SubjectHistory | null;             // history
+  passed: BatchSearchResult[];                // eliminate, title_dedupe, cluster
+  progEliminated: EliminatedResult[];         // eliminate
+  bypassed: EliminatedResult[];               // eliminate
+  breakdown: EliminationBreakdown;            // eliminate
+  passedEliminationCount: number;             // eliminate (before clustering overwrites `passed`)
+  titleDedupeDuplicates: BatchSearchResult[]; // title_dedupe
+  parkedArticles: BatchSearchResult[];        // cluster
+  clusterStats: { totalClusters: number; articlesToAnalyze: number; articlesParked: number };  // cluster
+  categorized: Categorized;                   // categorize
+  findings: RawFinding[];                     // analyze
+  consolidated: ConsolidatedFinding[];        // consolidate
+  litigation: LitigationResult | null;        // litigation
+  pep: PEPDetermination | null;               // pep
+  sanctions: SanctionsCheckResult | null;     // sanctions
+  cleanResults: Record<string, CleanEntityResult[]>;  // finalize
+  learningRules: CompiledRules | null;        // eliminate (applied again in categorize, consolidate)
+  credibility: CredibilityIndex | null;       // cluster (used again in categorize, consolidate)
+}
+
+export interface ScreeningContext {
+  subjectName: string;
+  input: ScreeningInput;
+  nameVariations: string[];
+  templateEntries: TemplateEntry[];
+  sessionId: string;
+  connectionId: string;
+  session: ScreeningSession | null;  // Restored session (null on a fresh run)
+  tracker: MetricsTracker;
+  signal: AbortSignal;
+  startTime: number;
+  funnelPhases: FunnelPhaseSnapshot[] | null;  // Only collected for benchmark/replay runs
+  pastAnalyze: boolean;  // Once true, a client disconnect must not abort — the report still has to be saved
+  runId?: string;        // Set by finalize once metrics are finalized
+  eventLog: any[];       // Every emitted event, timestamped — saved with the screening log
+  urlTracker: UrlTracker;  // Filled in by the phases as URLs move through the funnel — saved with the screening log
+
+  emit(event: any): void;
+  checkpoint(updates: Partial<ScreeningSession>): Promise<boolean>;
+  isPaused(): Promise<boolean>;
+  isOwner(): Promise<boolean>;
+  isDisconnected(): boolean;
+}
@@ -0,0 +1,294 @@
+/**
+ * Evidence store
+ *
+ * Archived copies of the sources cited in saved reports, so a finding can still be backed up
+ * after the article has gone offline. Blobs (the page as served, its visible text and an optional
+ * PDF print) are content-addressed on disk under EVIDENCE_DIR by SHA-256; dd_evidence holds one
+ * row per URL and captured content, and dd_finding_evidence links findings to those rows.
+ *
+ * Sources are captured live when the report is saved. When that fails (the page is already gone,
+ * or the run is a fixture replay) the article text cached during analysis is archived instead,
+ * with capture_method 'session_text' and fetched_at set to the archive time.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import JSZip from 'jszip';
+import { pool } from './db/index.js';
+import { capturePage, printPageToPdf } from './analyzer.js';
+import { isReplaying } from './replay/fixtures.js';
+import type { ReportRow } from './reports-db.js';
+import type { ArchivedSource, ConsolidatedFinding } from './types.js';
+
+const EVIDENCE_DIR = process.env.EVIDENCE_DIR || path.join(process.cwd(), 'data', 'evidence');
+// Puppeteer PDF prints are slow, so deployments opt in
+const CAPTURE_PDF = process.env.EVIDENCE_PDF === 'true';
+const CAPTURE_CONCURRENCY = 4;
+
+// --- Types ---
+
+export interface EvidenceRow {
+  id: number;
+  url: string;
+  final_url: string | null;
+  content_hash: string;        // Page bytes as served, or the cached text for session_text captures
+  content_type: string;
+  text_hash: string | null;
+  pdf_hash: string | null;
+  capture_method: 'live' | 'session_text';
+  status_code: number | null;
+  fetched_at: string;
+  created_at: string;
+}
+
+export interface ReportEvidenceRow extends EvidenceRow {
+  finding_id: number;
+}
+
+// --- Blobs ---
+
+const HASH_PATTERN = /^[a-f0-9]{64}$/;
+
+export function hashContent(data: Buffer | string): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function blobPath(hash: string): string {
+  return path.join(EVIDENCE_DIR, hash.slice(0, 2), hash);
+}
+
+/** Store a blob under its SHA-256 (no-op when already stored) and return the hash. */
+export async function writeBlob(data: Buffer | string): Promise<string> {
+  const hash = hashContent(data);
+  const file = blobPath(hash);
+  if (!fs.existsSync(file)) {
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    // Write then rename so a crash never leaves a truncated blob under a valid hash
+    const tmp = `${file}.${process.pid}.tmp`;
+    await fs.promises.writeFile(tmp, data);
+    await fs.promises.rename(tmp, file);
+  }
+  return hash;
+}
+
+export async function readBlob(hash: string): Promise<Buffer | null> {
+  if (!HASH_PATTERN.test(hash)) return null;
+  try {
+    return await fs.promises.readFile(blobPath(hash));
+  } catch {
+    return null;
+  }
+}
+
+/** Link to a blob as served by the reports API (EVIDENCE_BASE_URL makes it absolute for exported reports). */
+export function archivedCopyUrl(hash: string): string {
+  return `${process.env.EVIDENCE_BASE_URL || ''}/api/reports/evidence/${hash}`;
+}
+
+// --- Capture ---
+
+async function saveEvidence(e: Omit<EvidenceRow, 'id' | 'created_at'>): Promise<EvidenceRow> {
+  // The same content seen again keeps its first fetch time; a later PDF print is added
+  const { rows: [row] } = await pool.query(`
+    INSERT INTO dd_evidence (url, final_url, content_hash, content_type, text_hash, pdf_hash, capture_method, status_code, fetched_at)
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+    ON CONFLICT (url, content_hash) DO UPDATE SET pdf_hash = COALESCE(EXCLUDED.pdf_hash, dd_evidence.pdf_hash)
+    RETURNING *
+  `, [e.url, e.final_url, e.content_hash, e.content_type, e.text_hash, e.pdf_hash, e.capture_method, e.status_code, e.fetched_at]);
+  return row;
+}
+
+/**
+ * Archive one source: live capture first, then the cached article text. Null when neither is
+ * available.
+ */
+export async function archiveSource(url: string, cachedText?: string): Promise<EvidenceRow | null> {
+  const capture = isReplaying() ? null : await capturePage(url);
+  if (capture && capture.body.length > 0) {
+    const contentHash = await writeBlob(capture.body);
+    const textHash = capture.text ? await writeBlob(capture.text) : null;
+    let pdfHash: string | null = null;
+    if (CAPTURE_PDF && /html/i.test(capture.contentType)) {
+      try {
+        pdfHash = await writeBlob(await printPageToPdf(capture.finalUrl));
+      } catch (err: any) {
+        console.warn(`[EVIDENCE] PDF print failed for ${url}: ${err?.message}`);
+      }
+    }
+    return saveEvidence({
+      url,
+      final_url: capture.finalUrl,
+      content_hash: contentHash,
+      content_type: capture.contentType,
+      text_hash: textHash,
+      pdf_hash: pdfHash,
+      capture_method: 'live',
+      status_code: capture.statusCode,
+      fetched_at: capture.fetchedAt,
+    });
+  }
+
+  if (cachedText) {
+    const hash = await writeBlob(cachedText);
+    return saveEvidence({
+      url,
+      final_url: null,
+      content_hash: hash,
+      content_type: 'text/plain; charset=utf-8',
+      text_hash: hash,
+      pdf_hash: null,
+      capture_method: 'session_text',
+      status_code: null,
+      fetched_at: new Date().toISOString(),
+    });
+  }
+  return null;
+}
+
+/**
+ * Archive every source cited by the findings and set each finding's `evidence`. Each URL is
+ * captured once however many findings cite it.
+ */
+export async function archiveFindingSources(findings: ConsolidatedFinding[]): Promise<{ archived: number; failed: number }> {
+  const cachedText = new Map<string, string>();
+  for (const f of findings) {
+    for (const ac of f.articleContents || []) {
+      if (ac.content && !cachedText.has(ac.url)) cachedText.set(ac.url, ac.content);
+    }
+  }
+  const urls = [...new Set(findings.flatMap(f => f.sources.map(s => s.url)))];
+
+  const archived = new Map<string, EvidenceRow>();
+  let next = 0;
+  const worker = async () => {
+    while (next < urls.length) {
+      const url = urls[next++];
+      try {
+        const row = await archiveSource(url, cachedText.get(url));
+        if (row) archived.set(url, row);
+      } catch (err: any) {
+        console.warn(`[EVIDENCE] Failed to archive ${url}: ${err?.message}`);
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(CAPTURE_CONCURRENCY, urls.length) }, worker));
+
+  for (const f of findings) {
+    const evidence: ArchivedSource[] = [];
+    for (const s of f.sources) {
+      const row = archived.get(s.url);
+      if (row) {
+        evidence.push({
+          url: s.url,
+          evidenceId: row.id,
+          hash: row.content_hash,
+          capturedAt: new Date(row.fetched_at).toISOString(),
+          captureMethod: row.capture_method,
+        });
+      }
+    }
+    f.evidence = evidence.length > 0 ? evidence : undefined;
+  }
+  return { archived: archived.size, failed: urls.length - archived.size };
+}
+
+// --- Queries ---
+
+/** The evidence row holding a blob, and the content type to serve the blob with. */
+export async function findEvidenceBlob(hash: string): Promise<{ row: EvidenceRow; contentType: string } | null> {
+  if (!HASH_PATTERN.test(hash)) return null;
+  const { rows: [row] } = await pool.query(
+    'SELECT * FROM dd_evidence WHERE content_hash = $1 OR text_hash = $1 OR pdf_hash = $1 ORDER BY id LIMIT 1',
+    [hash]
+  );
+  if (!row) return null;
+  const contentType = row.content_hash === hash ? row.content_type
+    : row.pdf_hash === hash ? 'application/pdf'
+    : 'text/plain; charset=utf-8';
+  return { row, contentType };
+}
+
+export async function listReportEvidence(reportId: number): Promise<ReportEvidenceRow[]> {
+  const { rows } = await pool.query(`
+    SELECT e.*, fe.finding_id
+    FROM dd_finding_evidence fe
+    JOIN dd_findings f ON f.id = fe.finding_id
+    JOIN dd_evidence e ON e.id = fe.evidence_id
+    WHERE f.report_id = $1
+    ORDER BY fe.finding_id, e.id
+  `, [reportId]);
+  return rows;
+}
+
+// --- Export ---
+
+function blobExtension(contentType: string): string {
+  if (/pdf/i.test(contentType)) return '.pdf';
+  if (/html/i.test(contentType)) return '.html';
+  if (/text\/plain/i.test(contentType)) return '.txt';
+  return '.bin';
+}
+
+/**
+ * Zip of every archived source for a report: the blobs under files/ and a manifest.json tying
+ * each finding to its sources' captures (URLs, fetch times, hashes). Blobs missing from disk are
+ * listed in the manifest rather than failing the export.
+ */
+export async function buildEvidenceBundle(report: ReportRow, evidence: ReportEvidenceRow[]): Promise<Buffer> {
+  const zip = new JSZip();
+  const missing: string[] = [];
+
+  const addBlob = async (hash: string | null, contentType: string): Promise<string | null> => {
+    if (!hash) return null;
+    const name = `files/${hash}${blobExtension(contentType)}`;
+    if (zip.file(name)) return name;
+    const data = await readBlob(hash);
+    if (!data) {
+      missing.push(hash);
+      return null;
+    }
+    zip.file(name, data);
+    return name;
+  };
+
+  const findings = [];
+  for (const f of report.findings) {
+    const captures = [];
+    for (const e of evidence.filter(ev => ev.finding_id === f.id)) {
+      captures.push({
+        url: e.url,
+        finalUrl: e.final_url,
+        fetchedAt: new Date(e.fetched_at).toISOString(),
+        captureMethod: e.capture_method,
+        statusCode: e.status_code,
+        contentType: e.content_type,
+        contentHash: e.content_hash,
+        files: {
+          content: await addBlob(e.content_hash, e.content_type),
+          text: e.text_hash !== e.content_hash ? await addBlob(e.text_hash, 'text/plain') : null,
+          pdf: await addBlob(e.pdf_hash, 'application/pdf'),
+        },
+      });
+    }
+    findings.push({
+      findingId: f.id,
+      severity: f.severity,
+      headline: f.headline,
+      sources: JSON.parse(f.source_urls || '[]'),
+      evidence: captures,
+    });
+  }
+
+  zip.file('manifest.json', JSON.stringify({
+    reportId: report.id,
+    subject: report.subject_name,
+    screenedAt: report.screened_at,
+    exportedAt: new Date().toISOString(),
+    hashAlgorithm: 'sha256',
+    findings,
+    missingBlobs: missing,
+  }, null, 2));
+
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
@@ -0,0 +1,76 @@
+// src/extraction/charset.ts
+// Charset sniffing for fetched pages. Chinese portals still serve GBK/GB2312 pages, often with a
+// missing or wrong charset declaration, so the declaration is checked against the bytes.
+
+import iconv from 'iconv-lite';
+
+// How much of the body is scanned for a <meta> charset declaration
+const META_SCAN_BYTES = 4096;
+
+// GB2312 and GBK are subsets of GB18030, which also decodes the odd character outside them
+const ALIASES: Record<string, string> = {
+  'gb2312': 'gb18030',
+  'gb_2312': 'gb18030',
+  'gb-2312': 'gb18030',
+  'gb_2312-80': 'gb18030',
+  'gbk': 'gb18030',
+  'x-gbk': 'gb18030',
+  'cp936': 'gb18030',
+  'gb18030': 'gb18030',
+  'big5': 'big5',
+  'big5-hkscs': 'big5',
+  'utf8': 'utf-8',
+  'utf-8': 'utf-8',
+};
+
+export function normalizeCharset(charset: string): string | null {
+  const name = charset.trim().toLowerCase().replace(/^["']|["']$/g, '');
+  if (ALIASES[name]) return ALIASES[name];
+  return iconv.encodingExists(name) ? name : null;
+}
+
+function declaredInHeader(contentType?: string): string | null {
+  const match = contentType?.match(/charset=([^\s;]+)/i);
+  return match ? normalizeCharset(match[1]) : null;
+}
+
+function declaredInMeta(buffer: Buffer): string | null {
+  const head = buffer.subarray(0, META_SCAN_BYTES).toString('latin1');
+  // <meta charset="xxx">, or <meta http-equiv="Content-Type" content="text/html; charset=xxx">
+  const match = head.match(/<meta[^>]+charset=["']?([^"'\s/>;]+)/i);
+  return match ? normalizeCharset(match[1]) : null;
+}
+
+// True when the bytes are well-formed UTF-8 (the odd replacement character in a long page is tolerated)
+function isValidUtf8(buffer: Buffer): boolean {
+  const decoded = buffer.toString('utf-8');
+  const replacements = (decoded.match(/\uFFFD/g) || []).length;
+  return replacements <= decoded.length / 1000;
+}
+
+/**
+ * Charset of a response body. A BOM wins; non-ASCII bytes that form valid UTF-8 are UTF-8 whatever
+ * the page declares (GBK text practically never does); otherwise the Content-Type header, then
+ * <meta>, then GB18030 — the usual undeclared Chinese page.
+ */
+export function sniffCharset(buffer: Buffer, contentType?: string): string {
+  if (buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) return 'utf-8';
+  if (buffer[0] === 0xff && buffer[1] === 0xfe) return 'utf-16le';
+  if (buffer[0] === 0xfe && buffer[1] === 0xff) return 'utf-16be';
+
+  const hasNonAscii = buffer.some(b => b > 0x7f);
+  if (!hasNonAscii || isValidUtf8(buffer)) return 'utf-8';
+
+  const declared = declaredInHeader(contentType) || declaredInMeta(buffer);
+  return declared && declared !== 'utf-8' ? declared : 'gb18030';
+}
+
+/** Decode a response body with its sniffed charset. */
+export function decodeBody(buffer: Buffer, contentType?: string): string {
+  const charset = sniffCharset(buffer, contentType);
+  try {
+    return iconv.decode(buffer, charset).replace(/^\uFEFF/, '');
+  } catch {
+    return buffer.toString('utf-8');
+  }
+}
@@ -0,0 +1,156 @@
+// src/extraction/dates.ts
+// Date parsing for article metadata: ISO timestamps, numeric dates with -, / or . separators,
+// Chinese 年月日 dates and English month names. Publication dates normalize to YYYY-MM-DD; event
+// dates mentioned in a finding keep whatever precision the text gives (YYYY-MM-DD, YYYY-MM or YYYY).
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6, jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12,
+};
+
+const MONTH_NAMES = 'jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|jun(?:e)?|jul(?:y)?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?';
+
+const DATE_PATTERNS: { pattern: RegExp; parts: (m: RegExpMatchArray) => [string, string, string] }[] = [
+  // 2024-03-05, 2024/3/5, 2024.03.05, 2024-03-05T10:20:00+08:00
+  { pattern: /(?<!\d)((?:19|20)\d{2})[-/.](\d{1,2})[-/.](\d{1,2})(?!\d)/, parts: m => [m[1], m[2], m[3]] },
+  // 2024年3月5日
+  { pattern: /((?:19|20)\d{2})\s*年\s*(\d{1,2})\s*月\s*(\d{1,2})\s*[日号]/, parts: m => [m[1], m[2], m[3]] },
+  // March 5, 2024
+  { pattern: new RegExp(`\\b(${MONTH_NAMES})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+((?:19|20)\\d{2})\\b`, 'i'), parts: m => [m[3], m[1], m[2]] },
+  // 5 March 2024
+  { pattern: new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(${MONTH_NAMES})\\.?,?\\s+((?:19|20)\\d{2})\\b`, 'i'), parts: m => [m[3], m[2], m[1]] },
+  // 20240305 (compact, as in many portal URLs and timestamps)
+  { pattern: /(?<!\d)((?:19|20)\d{2})(0[1-9]|1[0-2])(0[1-9]|[12]\d|3[01])(?!\d)/, parts: m => [m[1], m[2], m[3]] },
+];
+
+function toIsoDate(year: string, month: string, day: string): string | null {
+  const y = parseInt(year, 10);
+  const mo = /^\d+$/.test(month) ? parseInt(month, 10) : MONTHS[month.toLowerCase().slice(0, 3)];
+  const d = parseInt(day, 10);
+  if (!mo || mo > 12 || d < 1 || d > 31) return null;
+  const date = new Date(Date.UTC(y, mo - 1, d));
+  // Rejects 2024-02-31 and the like
+  if (date.getUTCMonth() !== mo - 1) return null;
+  return `${y}-${String(mo).padStart(2, '0')}-${String(d).padStart(2, '0')}`;
+}
+
+/** First date in the text as YYYY-MM-DD, or null. */
+export function normalizeDate(text: string | undefined | null): string | null {
+  if (!text) return null;
+  for (const { pattern, parts } of DATE_PATTERNS) {
+    const match = text.match(pattern);
+    if (match) {
+      const date = toIsoDate(...parts(match));
+      if (date) return date;
+    }
+  }
+  return null;
+}
+
+// --- Publication dates ---
+
+// Labels that introduce a publication date in an article header or byline line
+const PUBLISHED_LABEL = /(?:发布时间|发布日期|发表时间|发表于|发布于|时间|日期|published(?:\s+on)?|posted(?:\s+on)?)\s*[:：]?\s*/gi;
+
+// Dates in URL paths: /2024-03-05/, /20240305/, /2024/03/05/, /2024/0305/, doc-2024-03-05
+const URL_DATE = /(?<!\d)((?:19|20)\d{2})[-/_]?(0[1-9]|1[0-2])[-/_]?(0[1-9]|[12]\d|3[01])(?!\d)/;
+// 163's older article paths: /17/0803/10/XXXX.html (yy/mmdd/hh)
+const NETEASE_URL_DATE = /^\/(\d{2})\/(0[1-9]|1[0-2])(0[1-9]|[12]\d|3[01])\/\d{2}\//;
+
+// The line fetchPageContent puts at the top of an article when its metadata carries a date
+const PUBLISHED_LINE = /^Published: (\d{4}-\d{2}-\d{2})$/m;
+
+export function publishedLine(date: string): string {
+  return `Published: ${date}`;
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/** Date following a publication label ("发布时间：2017年8月3日", "Published on 5 March 2024"), or null. */
+export function labelledDate(text: string): string | null {
+  for (const match of text.matchAll(PUBLISHED_LABEL)) {
+    const start = match.index! + match[0].length;
+    const date = normalizeDate(text.slice(start, start + 40));
+    if (date) return date;
+  }
+  return null;
+}
+
+/** Date embedded in a URL path, or null. */
+export function dateFromUrl(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+  const match = parsed.pathname.match(URL_DATE);
+  if (match) {
+    const date = toIsoDate(match[1], match[2], match[3]);
+    if (date && date <= today()) return date;
+  }
+  if (/(^|\.)163\.com$/.test(parsed.hostname)) {
+    const netease = parsed.pathname.match(NETEASE_URL_DATE);
+    if (netease) return toIsoDate(`20${netease[1]}`, netease[2], netease[3]);
+  }
+  return null;
+}
+
+/**
+ * Publication date of a fetched article: the metadata date fetchPageContent puts on its first
+ * line, else a date in the URL, else a labelled date near the top of the text, else the first
+ * date in the opening lines (where bylines sit). Future dates are discarded.
+ */
+export function extractPublicationDate(url: string, text?: string): string | null {
+  const head = text?.slice(0, 1500) || '';
+  const candidates = [
+    head.match(PUBLISHED_LINE)?.[1] || null,
+    dateFromUrl(url),
+    labelledDate(head),
+    normalizeDate(head.slice(0, 300)),
+  ];
+  return candidates.find(d => d !== null && d <= today()) || null;
+}
+
+// --- Event dates ---
+
+// YYYY年M月 and "March 2024" — month precision
+const MONTH_PATTERNS: { pattern: RegExp; parts: (m: RegExpMatchArray) => [string, string] }[] = [
+  { pattern: /((?:19|20)\d{2})\s*年\s*(\d{1,2})\s*月/g, parts: m => [m[1], m[2]] },
+  { pattern: new RegExp(`\\b(${MONTH_NAMES})\\.?,?\\s+((?:19|20)\\d{2})\\b`, 'gi'), parts: m => [m[2], m[1]] },
+];
+
+// A bare year, not an amount ("2000万元") or a count ("2019人")
+const YEAR = /(?<![\d.,])((?:19|20)\d{2})(?![\d.,]|\s*(?:万|亿|元|多|余|人|名|%|港元|美元))/g;
+
+/**
+ * Every date a finding's text mentions, oldest first, at the precision given: YYYY-MM-DD for full
+ * dates, YYYY-MM for month-only dates and YYYY for bare years. A month or year already covered by
+ * a more precise date is dropped.
+ */
+export function extractEventDates(text: string): string[] {
+  const found = new Set<string>();
+
+  // Full dates (the compact YYYYMMDD form is left out — in prose it is usually a case or filing number)
+  for (const { pattern, parts } of DATE_PATTERNS.slice(0, 4)) {
+    for (const match of text.matchAll(new RegExp(pattern.source, `${pattern.flags}g`))) {
+      const date = toIsoDate(...parts(match));
+      if (date) found.add(date);
+    }
+  }
+  for (const { pattern, parts } of MONTH_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      const date = toIsoDate(...parts(match), '1');
+      if (date) found.add(date.slice(0, 7));
+    }
+  }
+  for (const match of text.matchAll(YEAR)) {
+    found.add(match[1]);
+  }
+
+  const dates = [...found];
+  return dates
+    .filter(d => !dates.some(other => other !== d && other.startsWith(`${d}-`)))
+    .sort();
+}
@@ -0,0 +1,91 @@
+// src/extraction/domains.ts
+// Per-domain extractor overrides for the high-volume Chinese portals. Each selector list is tried
+// in order and the first match wins; anything not covered falls back to the generic main-content
+// detection in extractor.ts. Portals redesign every few years, so keep old and new selectors.
+
+export interface DomainExtractor {
+  name: string;
+  domains: string[];      // Hostname suffixes
+  content: string[];      // Article body container
+  title?: string[];
+  date?: string[];        // Element whose text (or datetime/content attribute) holds the publication date
+  byline?: string[];      // Author or originating outlet
+  remove?: string[];      // Boilerplate inside the body container (editor credits, share bars, ...)
+  nextPage?: string[];    // Link to the next page of a multi-page article
+}
+
+export const DOMAIN_EXTRACTORS: DomainExtractor[] = [
+  {
+    name: 'sina',
+    domains: ['sina.com.cn', 'sina.cn'],
+    content: ['#artibody', '#article', '.article-content', '.art_content'],
+    title: ['h1.main-title', '#artibodyTitle', '.article-header h1', 'h1'],
+    date: ['.date-source .date', '#pub_date', '.time-source .date', '.art_time'],
+    byline: ['.date-source .source', '.time-source .source', '.article-editor'],
+    remove: ['.article-editor', '.appendQr_wrap', '.show_author', '[id^="left_hzh_ad"]', '.ct_hqimg'],
+    nextPage: ['.page a.next', 'a:contains("下一页")'],
+  },
+  {
+    name: '163',
+    domains: ['163.com'],
+    content: ['.post_body', '#endText', '.post_text', '#content .content'],
+    title: ['h1.post_title', '.post_content_main h1', 'h1'],
+    date: ['.post_info', '.post_time_source', '.post_info_time'],
+    byline: ['.post_info a', '.post_time_source a', '#ne_article_source'],
+    remove: ['.post_btmshare', '.ep-source', '.post_end', '.otitle'],
+    nextPage: ['.post_page a.ep-pages-next', '.ep-pages a:contains("下一页")'],
+  },
+  {
+    name: 'sohu',
+    domains: ['sohu.com'],
+    content: ['article.article', '#mp-editor', '.article-text', '.text'],
+    title: ['.text-title h1', '.article-title', 'h1'],
+    date: ['#news-time', '.article-info .time', '.time'],
+    byline: ['.user-info h4 a', '.article-info .name', '#user-info .name'],
+    remove: ['.backword', '.statement', '[data-role="editor-name"]', '.lookall-wrap'],
+    nextPage: ['.pages a:contains("下一页")'],
+  },
+  {
+    name: 'qq',
+    domains: ['qq.com'],
+    content: ['.content-article', '#ArticleContent', '.Cnt-Main-Article-QQ', '.rich_media_content'],
+    title: ['.LEFT h1', '.qq_article h1', '#activity-name', 'h1'],
+    date: ['meta[name="apub:time"]', '.media-meta .publish-time', '.a_time', '#publish_time'],
+    byline: ['.media-name', '.a_source', '#js_name', '.author'],
+    remove: ['.qqcom-ad', '.rv-root-v2', '.function-bar'],
+  },
+  {
+    name: 'eastmoney',
+    domains: ['eastmoney.com'],
+    content: ['#ContentBody', '.newsContent .Body', '.article-body', '.txtinfos'],
+    title: ['.newsContent h1', '.title', 'h1'],
+    date: ['.infos .item:first-child', '.time-source .time', '.Info span:first-child'],
+    byline: ['.infos .item:contains("来源")', '.time-source .source', '.author'],
+    remove: ['.em_handle', '.b-review', '.reading', '.otherContent_01', '.res-edit'],
+    nextPage: ['.pagerbox a:contains("下一页")'],
+  },
+  {
+    name: 'thepaper',
+    domains: ['thepaper.cn'],
+    content: ['[class*="cententWrap"]', '.news_txt', '.newsdetail_content'],
+    title: ['h1[class*="title"]', '.news_title', 'h1'],
+    date: ['[class*="headerContent"] .ant-space-item span', '.news_about p:nth-child(2)', '.news_about span'],
+    byline: ['[class*="headerContent"] [class*="author"]', '.news_about p:first-child', '.name'],
+    remove: ['[class*="copyright"]', '.news_editor', '.news_key'],
+  },
+];
+
+function hostnameOf(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return '';
+  }
+}
+
+/** The override for a URL's domain, if one exists. */
+export function findDomainExtractor(url: string): DomainExtractor | null {
+  const host = hostnameOf(url);
+  if (!host) return null;
+  return DOMAIN_EXTRACTORS.find(ex => ex.domains.some(d => host === d || host.endsWith(`.${d}`))) || null;
+}
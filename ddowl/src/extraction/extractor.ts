@@ -0,0 +1,302 @@
+// src/extraction/extractor.ts
+// Article extraction: main content, title, publication date, byline and the next-page link of a
+// fetched page. Domains with an override in domains.ts use its selectors; every other page goes
+// through readability-style scoring, where text blocks vote for their parent and grandparent
+// containers and the container with the most (non-link) prose wins.
+
+import * as cheerio from 'cheerio';
+import type { Cheerio, CheerioAPI } from 'cheerio';
+import { findDomainExtractor, type DomainExtractor } from './domains.js';
+import { labelledDate, normalizeDate } from './dates.js';
+
+export interface ExtractedArticle {
+  url: string;
+  title: string;
+  text: string;                // Main content, paragraphs separated by blank lines
+  paragraphs: string[];
+  publishedAt: string | null;  // YYYY-MM-DD
+  byline: string | null;       // Author or originating outlet
+  nextPageUrl: string | null;
+  method: 'domain' | 'readability' | 'body';  // How the main content was found
+  pages: number;               // Pages merged by extractPaginatedArticle
+}
+
+// Multi-page articles beyond this are almost always listing pages, not one story
+export const MAX_PAGES = 5;
+
+// Below this much text the detected container is probably not the article (80 CJK characters is
+// two or three sentences)
+const MIN_ARTICLE_CHARS = 80;
+
+const STRIP_TAGS = 'script, style, noscript, iframe, form, button, input, select, textarea, svg, nav, footer, header, aside';
+const BLOCK_TAGS = 'p, div, section, article, h1, h2, h3, h4, h5, h6, li, tr, blockquote, pre, table, ul, ol, dl, dd, dt';
+
+const NEGATIVE_HINT = /comment|share|related|recommend|sidebar|footer|advert|\bads?\b|ad[-_]|banner|breadcrumb|copyright|login|subscribe|popup|modal|hotnews|ranking|\bnav|menu|toolbar|qrcode|weixin|statement/i;
+const POSITIVE_HINT = /article|content|main|post|text|body|entry|story|detail|artibody/i;
+
+// Short lines inside the body that are portal furniture, not reporting
+const BOILERPLATE_LINE = /^(责任编辑|编辑|校对|审核|分享到|扫描二维码|扫码|打开微信|点击进入|返回搜狐|查看更多|免责声明|声明[:：]|举报|相关阅读|推荐阅读|热门推荐|海量资讯|特别声明|本文来源|文章来源|【?纠错】?|Share this|Related:|Advertisement)/i;
+
+const DATE_META = [
+  'meta[property="article:published_time"]', 'meta[name="pubdate"]', 'meta[name="publishdate"]',
+  'meta[name="PubDate"]', 'meta[itemprop="datePublished"]', 'meta[name="apub:time"]', 'meta[name="weibo: article:create_at"]',
+  'time[datetime]',
+];
+const BYLINE_META = ['meta[name="author"]', 'meta[property="article:author"]', 'meta[name="source"]', 'meta[name="mediaid"]'];
+const NEXT_PAGE_TEXT = /^(下一页|下页|next(\s*page)?)\s*[>›»]*$/i;
+
+function clean(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function hintWeight(className: string | undefined, id: string | undefined): number {
+  const hint = `${className || ''} ${id || ''}`;
+  let weight = 0;
+  if (NEGATIVE_HINT.test(hint)) weight -= 25;
+  if (POSITIVE_HINT.test(hint)) weight += 25;
+  return weight;
+}
+
+function first($: CheerioAPI, selectors: string[] | undefined): Cheerio<any> | null {
+  for (const selector of selectors || []) {
+    try {
+      const el = $(selector).first();
+      if (el.length > 0 && (clean(el.text()) || el.attr('content') || el.attr('datetime'))) return el;
+    } catch {
+      // Unsupported selector in this cheerio version — try the next one
+    }
+  }
+  return null;
+}
+
+function valueOf(el: Cheerio<any>): string {
+  return clean(el.attr('content') || el.attr('datetime') || el.text());
+}
+
+// Text of a container split into paragraphs at <br> and block boundaries, without furniture lines
+function paragraphsOf($: CheerioAPI, container: Cheerio<any>): string[] {
+  const copy = container.clone();
+  copy.find('br').replaceWith('\n');
+  copy.find(BLOCK_TAGS).each((_, el) => { $(el).append('\n'); });
+  const paragraphs: string[] = [];
+  for (const line of copy.text().split('\n')) {
+    const text = clean(line);
+    if (!text) continue;
+    if (text.length < 60 && BOILERPLATE_LINE.test(text)) continue;
+    paragraphs.push(text);
+  }
+  return paragraphs;
+}
+
+function linkDensity($: CheerioAPI, el: Cheerio<any>): number {
+  const total = clean(el.text()).length;
+  if (total === 0) return 1;
+  let linked = 0;
+  el.find('a').each((_, a) => { linked += clean($(a).text()).length; });
+  return linked / total;
+}
+
+/**
+ * Readability-style main-content detection: every paragraph-like block scores by length and
+ * punctuation (CJK commas and full stops count) and adds that to its parent, and half to its
+ * grandparent. Container scores are weighted by class/id hints and discounted by link density.
+ */
+function findMainContent($: CheerioAPI): Cheerio<any> | null {
+  // Removing obvious furniture first keeps share bars and comment threads from winning
+  $('*').each((_, el) => {
+    const node = $(el);
+    const hint = `${node.attr('class') || ''} ${node.attr('id') || ''}`;
+    if (hint.trim() && NEGATIVE_HINT.test(hint) && !POSITIVE_HINT.test(hint) && node.is('div, section, ul, span, aside')) {
+      node.remove();
+    }
+  });
+
+  const scores = new Map<any, number>();
+  const addScore = (el: any, score: number) => {
+    if (!el || el.type !== 'tag' || ['body', 'html'].includes(el.name)) return;
+    if (!scores.has(el)) {
+      const base = el.name === 'article' ? 10 : el.name === 'div' || el.name === 'section' ? 5 : 0;
+      scores.set(el, base + hintWeight(el.attribs?.class, el.attribs?.id));
+    }
+    scores.set(el, scores.get(el)! + score);
+  };
+
+  // Paragraph-like blocks: <p>/<pre>/<td>, and <div>s holding text directly (common on Chinese portals)
+  $('p, pre, td, div').each((_, el) => {
+    const node = $(el);
+    if (el.name === 'div' && node.children('p, div, table, ul, section, article').length > 0) return;
+    const text = clean(node.text());
+    if (text.length < 20) return;
+    const punctuation = (text.match(/[，,。、；;！？]/g) || []).length;
+    const score = 1 + punctuation + Math.min(Math.floor(text.length / 100), 3);
+    addScore(el.parent, score);
+    addScore(el.parent?.parent, score / 2);
+  });
+
+  let best: any = null;
+  let bestScore = 0;
+  for (const [el, score] of scores) {
+    const final = score * (1 - linkDensity($, $(el)));
+    if (final > bestScore) {
+      best = el;
+      bestScore = final;
+    }
+  }
+  return best ? $(best) : null;
+}
+
+function extractTitle($: CheerioAPI, domain: DomainExtractor | null): string {
+  const fromDomain = first($, domain?.title);
+  if (fromDomain) return clean(fromDomain.text());
+  const og = clean($('meta[property="og:title"]').attr('content') || '');
+  if (og) return og;
+  const h1 = clean($('h1').first().text());
+  if (h1) return h1;
+  // "<headline>_新浪财经_新浪网" → the headline
+  const title = clean($('title').text());
+  return title.split(/\s*[_|｜]\s*|\s+[-–—]\s+/)[0] || title;
+}
+
+function extractDate($: CheerioAPI, domain: DomainExtractor | null, headerText: string): string | null {
+  const fromDomain = first($, domain?.date);
+  const fromDomainDate = fromDomain ? normalizeDate(valueOf(fromDomain)) : null;
+  if (fromDomainDate) return fromDomainDate;
+
+  const fromMeta = first($, DATE_META);
+  const fromMetaDate = fromMeta ? normalizeDate(valueOf(fromMeta)) : null;
+  if (fromMetaDate) return fromMetaDate;
+
+  for (const script of $('script[type="application/ld+json"]').toArray()) {
+    const match = $(script).text().match(/"datePublished"\s*:\s*"([^"]+)"/);
+    const date = match ? normalizeDate(match[1]) : null;
+    if (date) return date;
+  }
+
+  // Undecorated templates: "发布时间：2017年8月3日" in the header line
+  return labelledDate(headerText);
+}
+
+function extractByline($: CheerioAPI, domain: DomainExtractor | null, headerText: string): string | null {
+  const fromDomain = first($, domain?.byline);
+  const fromMeta = fromDomain || first($, BYLINE_META);
+  if (fromMeta) {
+    const value = valueOf(fromMeta).replace(/^(来源|作者|文|记者)\s*[:：]\s*/, '');
+    // 163's .post_info holds "2024-03-05 10:20:33 来源: 财新网" — keep the outlet
+    const outlet = value.match(/来源\s*[:：]\s*(\S+)/);
+    const byline = clean(outlet ? outlet[1] : value);
+    if (byline && byline.length <= 40) return byline;
+  }
+  const inline = headerText.match(/(?:作者|来源|记者)\s*[:：|]\s*([^\s|，,。]{2,20})/);
+  return inline ? inline[1] : null;
+}
+
+function findNextPageUrl($: CheerioAPI, url: string, domain: DomainExtractor | null): string | null {
+  const candidates: string[] = [];
+  const fromDomain = first($, domain?.nextPage);
+  if (fromDomain?.attr('href')) candidates.push(fromDomain.attr('href')!);
+  const rel = $('link[rel="next"], a[rel="next"]').first().attr('href');
+  if (rel) candidates.push(rel);
+  $('a').each((_, a) => {
+    if (NEXT_PAGE_TEXT.test(clean($(a).text())) && $(a).attr('href')) candidates.push($(a).attr('href')!);
+  });
+
+  for (const href of candidates) {
+    if (/^(javascript:|#)/i.test(href)) continue;
+    try {
+      const next = new URL(href, url);
+      // Only follow pages of the same article on the same site
+      if (next.hostname === new URL(url).hostname && next.href !== url) return next.href;
+    } catch {
+      // Malformed href
+    }
+  }
+  return null;
+}
+
+/** Extract the article from one page of HTML. */
+export function extractArticle(html: string, url: string): ExtractedArticle {
+  const $ = cheerio.load(html);
+  const domain = findDomainExtractor(url);
+
+  // Metadata is read before boilerplate removal — dates and bylines often sit in headers
+  const title = extractTitle($, domain);
+  const headerText = clean($('body').text()).slice(0, 1500);
+  const publishedAt = extractDate($, domain, headerText);
+  const byline = extractByline($, domain, headerText);
+  const nextPageUrl = findNextPageUrl($, url, domain);
+
+  $(STRIP_TAGS).remove();
+
+  let method: ExtractedArticle['method'] = 'body';
+  let paragraphs: string[] = [];
+
+  const domainContent = first($, domain?.content);
+  if (domainContent) {
+    for (const selector of domain?.remove || []) domainContent.find(selector).remove();
+    paragraphs = paragraphsOf($, domainContent);
+    method = 'domain';
+  }
+  if (paragraphs.join('').length < MIN_ARTICLE_CHARS) {
+    const main = findMainContent($);
+    const mainParagraphs = main ? paragraphsOf($, main) : [];
+    if (mainParagraphs.join('').length >= MIN_ARTICLE_CHARS) {
+      paragraphs = mainParagraphs;
+      method = 'readability';
+    } else {
+      paragraphs = paragraphsOf($, $('body'));
+      method = 'body';
+    }
+  }
+
+  // The headline often repeats as the first line of the container
+  if (paragraphs[0] === title) paragraphs = paragraphs.slice(1);
+
+  return {
+    url,
+    title,
+    text: paragraphs.join('\n\n'),
+    paragraphs,
+    publishedAt,
+    byline,
+    nextPageUrl,
+    method,
+    pages: 1,
+  };
+}
+
+/**
+ * Extract an article and follow its next-page links (same site, at most `maxPages` pages),
+ * appending each page's paragraphs. `fetchHtml` returns null for a page that can't be fetched,
+ * which ends the article there.
+ */
+export async function extractPaginatedArticle(
+  html: string,
+  url: string,
+  fetchHtml: (url: string) => Promise<string | null>,
+  maxPages: number = MAX_PAGES
+): Promise<ExtractedArticle> {
+  const article = extractArticle(html, url);
+  const visited = new Set([url]);
+  const seen = new Set(article.paragraphs);
+
+  let nextUrl = article.nextPageUrl;
+  while (nextUrl && !visited.has(nextUrl) && article.pages < maxPages) {
+    visited.add(nextUrl);
+    const nextHtml = await fetchHtml(nextUrl);
+    if (!nextHtml) break;
+    const page = extractArticle(nextHtml, nextUrl);
+    // Pages repeat the lede, captions and furniture — keep only what's new
+    for (const p of page.paragraphs) {
+      if (!seen.has(p)) {
+        seen.add(p);
+        article.paragraphs.push(p);
+      }
+    }
+    article.pages++;
+    nextUrl = page.nextPageUrl;
+  }
+
+  article.text = article.paragraphs.join('\n\n');
+  article.nextPageUrl = nextUrl && !visited.has(nextUrl) ? nextUrl : null;
+  return article;
+}
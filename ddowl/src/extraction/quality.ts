@@ -0,0 +1,82 @@
+// src/extraction/quality.ts
+// Offline extraction quality: run the extractor over saved pages and check each result against
+// what a reader would take from the page (title, date, byline, body phrases that must survive
+// and boilerplate that must not). Used by the test suite and src/scripts/extraction-quality.ts.
+
+import fs from 'fs';
+import path from 'path';
+import { decodeBody } from './charset.js';
+import { extractPaginatedArticle, type ExtractedArticle } from './extractor.js';
+
+export interface ExtractionExpectation {
+  title?: string;
+  publishedAt?: string;
+  byline?: string;
+  method?: ExtractedArticle['method'];
+  pages?: number;
+  includes: string[];  // Body phrases that must be extracted
+  excludes: string[];  // Navigation, related links, editor credits... that must not
+}
+
+export interface ExtractionFixture {
+  name: string;
+  url: string;
+  file: string;                    // Saved page bytes (any charset), relative to the fixture directory
+  contentType?: string;            // Response header, when the charset test depends on it
+  pages?: Record<string, string>;  // Further page URL → file, for multi-page articles
+  expected: ExtractionExpectation;
+}
+
+export interface ExtractionScore {
+  name: string;
+  passed: boolean;
+  recall: number;     // Share of `includes` found
+  precision: number;  // Share of `excludes` kept out
+  failures: string[];
+  article: ExtractedArticle;
+}
+
+/** Fixtures listed in <dir>/fixtures.json. */
+export function loadExtractionFixtures(dir: string): ExtractionFixture[] {
+  return JSON.parse(fs.readFileSync(path.join(dir, 'fixtures.json'), 'utf-8'));
+}
+
+export function evaluateExtraction(name: string, article: ExtractedArticle, expected: ExtractionExpectation): ExtractionScore {
+  const failures: string[] = [];
+  for (const field of ['title', 'publishedAt', 'byline', 'method', 'pages'] as const) {
+    if (expected[field] !== undefined && article[field] !== expected[field]) {
+      failures.push(`${field}: expected ${JSON.stringify(expected[field])}, got ${JSON.stringify(article[field])}`);
+    }
+  }
+  const missing = expected.includes.filter(p => !article.text.includes(p));
+  const leaked = expected.excludes.filter(p => article.text.includes(p));
+  for (const p of missing) failures.push(`missing: ${p}`);
+  for (const p of leaked) failures.push(`boilerplate: ${p}`);
+
+  return {
+    name,
+    passed: failures.length === 0,
+    recall: expected.includes.length > 0 ? 1 - missing.length / expected.includes.length : 1,
+    precision: expected.excludes.length > 0 ? 1 - leaked.length / expected.excludes.length : 1,
+    failures,
+    article,
+  };
+}
+
+/** Extract one fixture, serving its further pages from disk. */
+export async function runExtractionFixture(dir: string, fixture: ExtractionFixture): Promise<ExtractionScore> {
+  const read = (file: string) => decodeBody(fs.readFileSync(path.join(dir, file)), fixture.contentType);
+  const article = await extractPaginatedArticle(read(fixture.file), fixture.url, async url => {
+    const file = fixture.pages?.[url];
+    return file ? read(file) : null;
+  });
+  return evaluateExtraction(fixture.name, article, fixture.expected);
+}
+
+export async function runExtractionFixtures(dir: string): Promise<ExtractionScore[]> {
+  const scores: ExtractionScore[] = [];
+  for (const fixture of loadExtractionFixtures(dir)) {
+    scores.push(await runExtractionFixture(dir, fixture));
+  }
+  return scores;
+}
@@ -0,0 +1,158 @@
+/**
+ * Cross-run finding memory
+ *
+ * Carries analyst review of earlier reports on the same subject into a rescreen: findings whose
+ * sources were marked WRONG are annotated (and demoted to REVIEW when every source was), findings
+ * matching a CONFIRMED incident are flagged as previously reported, and analyst-reported misses
+ * become targeted search queries.
+ */
+
+import type { PriorMissedFlag, PriorVerdict, SubjectHistory } from './reports-db.js';
+import type { ConsolidatedFinding, FindingHistory } from './types.js';
+
+// Headlines at least this similar (character-bigram Jaccard) with the same event type are the same incident
+const HEADLINE_MATCH_THRESHOLD = 0.5;
+const MAX_MISSED_FLAG_QUERIES = 5;
+
+// --- Matching ---
+
+/** URL key that ignores scheme, www., trailing slash and fragment. */
+export function urlKey(url: string): string {
+  return url.trim().toLowerCase()
+    .replace(/^https?:\/\//, '')
+    .replace(/^www\./, '')
+    .replace(/#.*$/, '')
+    .replace(/\/+$/, '');
+}
+
+function bigrams(text: string): Set<string> {
+  const clean = text.toLowerCase().replace(/[\s\p{P}\p{S}]/gu, '');
+  const grams = new Set<string>();
+  for (let i = 0; i < clean.length - 1; i++) grams.add(clean.slice(i, i + 2));
+  return grams;
+}
+
+function headlineSimilarity(a: string, b: string): number {
+  const ga = bigrams(a);
+  const gb = bigrams(b);
+  if (ga.size === 0 || gb.size === 0) return 0;
+  let shared = 0;
+  for (const g of ga) if (gb.has(g)) shared++;
+  return shared / (ga.size + gb.size - shared);
+}
+
+function sameIncident(finding: ConsolidatedFinding, prior: PriorVerdict): { sharedUrls: number } | null {
+  const priorUrls = new Set(prior.sourceUrls.map(urlKey));
+  const sharedUrls = finding.sources.filter(s => priorUrls.has(urlKey(s.url))).length;
+  if (sharedUrls > 0) return { sharedUrls };
+  const typed = finding.eventType && finding.eventType !== 'unknown' && finding.eventType === prior.eventType;
+  return typed && headlineSimilarity(finding.headline, prior.headline) >= HEADLINE_MATCH_THRESHOLD ? { sharedUrls: 0 } : null;
+}
+
+/**
+ * Annotate consolidated findings with how earlier screenings judged the same incident. Mutates
+ * the findings: `history` is set on each (when the subject has been screened before), and a
+ * finding whose every source was in a finding marked WRONG drops to REVIEW.
+ */
+export function applyFindingMemory(findings: ConsolidatedFinding[], history: SubjectHistory | null): {
+  previouslyReported: number;
+  previouslyWrong: number;
+  demoted: number;
+} {
+  const counts = { previouslyReported: 0, previouslyWrong: 0, demoted: 0 };
+  if (!history || history.reportCount === 0) return counts;
+
+  const wrongUrls = new Set(history.verdicts.filter(v => v.verdict === 'WRONG').flatMap(v => v.sourceUrls.map(urlKey)));
+
+  for (const finding of findings) {
+    // Verdicts are newest first — the latest review of a matching incident wins
+    const matches = history.verdicts
+      .map(prior => ({ prior, match: sameIncident(finding, prior) }))
+      .filter((m): m is { prior: PriorVerdict; match: { sharedUrls: number } } => m.match !== null);
+    const confirmed = matches.find(m => m.prior.verdict === 'CONFIRMED');
+    const wrong = matches.find(m => m.prior.verdict === 'WRONG');
+
+    let entry: FindingHistory;
+    if (confirmed) {
+      entry = { status: 'previously_reported', reportId: confirmed.prior.reportId, screenedAt: confirmed.prior.screenedAt };
+      counts.previouslyReported++;
+    } else if (wrong) {
+      entry = {
+        status: 'previously_wrong',
+        reportId: wrong.prior.reportId,
+        screenedAt: wrong.prior.screenedAt,
+        wrongReason: wrong.prior.wrongReason || undefined,
+      };
+      counts.previouslyWrong++;
+      const allSourcesWrong = finding.sources.length > 0 && finding.sources.every(s => wrongUrls.has(urlKey(s.url)));
+      if (allSourcesWrong && finding.severity !== 'REVIEW') {
+        entry.originalSeverity = finding.severity;
+        finding.severity = 'REVIEW';
+        counts.demoted++;
+      }
+    } else {
+      entry = { status: 'new', screenedAt: history.lastScreenedAt || undefined };
+    }
+    finding.history = entry;
+  }
+  return counts;
+}
+
+/** CONFIRMED incidents from earlier screenings that no finding in this run matched. */
+export function unmatchedKnownIssues(findings: ConsolidatedFinding[], history: SubjectHistory | null): PriorVerdict[] {
+  if (!history) return [];
+  return history.verdicts.filter(v => v.verdict === 'CONFIRMED' && !findings.some(f => sameIncident(f, v)));
+}
+
+// --- Missed flags ---
+
+/**
+ * Search queries for analyst-reported misses: the subject name plus the miss description (minus
+ * any name it repeats). One query per distinct description, most recent first.
+ */
+export function missedFlagQueries(
+  flags: PriorMissedFlag[],
+  subjectName: string,
+  nameVariations: string[],
+): { flag: PriorMissedFlag; query: string }[] {
+  const seen = new Set<string>();
+  const queries: { flag: PriorMissedFlag; query: string }[] = [];
+
+  for (const flag of flags) {
+    let terms = flag.description;
+    for (const name of [subjectName, ...nameVariations]) {
+      if (name) terms = terms.split(name).join(' ');
+    }
+    terms = terms.replace(/["“”'‘’()（）\[\]【】]/g, ' ').replace(/[，。；、,.;:：!?！？]/g, ' ').replace(/\s+/g, ' ').trim();
+    if (!terms) continue;
+    // Long free-text descriptions make poor queries — keep the first clause's worth
+    const words = terms.split(' ');
+    terms = words.length > 1 ? words.slice(0, 8).join(' ') : terms.slice(0, 40);
+
+    const key = terms.toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    queries.push({ flag, query: `"${subjectName}" ${terms}` });
+    if (queries.length >= MAX_MISSED_FLAG_QUERIES) break;
+  }
+  return queries;
+}
+
+// --- Report ---
+
+/** Note appended to a finding's write-up, or null when there is nothing to say. */
+export function findingHistoryNote(history: FindingHistory | undefined): string | null {
+  if (!history?.screenedAt) return null;
+  const date = history.screenedAt.slice(0, 10);
+  switch (history.status) {
+    case 'previously_reported':
+      return `Note: Previously reported — this issue was identified and confirmed in the screening of ${date}.`;
+    case 'previously_wrong': {
+      const reason = history.wrongReason ? ` (reason: ${history.wrongReason})` : '';
+      const demoted = history.originalSeverity ? ` Severity lowered from ${history.originalSeverity} to REVIEW.` : '';
+      return `Note: Sources for this finding were assessed as not relating to the subject in the screening of ${date}${reason}.${demoted}`;
+    }
+    case 'new':
+      return `Note: New — this issue was not identified in the previous screening of ${date}.`;
+  }
+}
@@ -0,0 +1,133 @@
+import { Router, Request, Response } from 'express';
+import {
+  getEntity, searchEntities, getRelationships, deleteEntity,
+  ingestQCCProfile, findControllers, findSharedOfficers, getSubgraph, toGraphML,
+} from './graph-db.js';
+import { calculateUBO } from './ubo.js';
+
+export const graphRouter = Router();
+
+// Traversal depth cap — deeper walks fan out across the whole graph
+const MAX_DEPTH = 6;
+
+function parseDepth(value: unknown, fallback: number): number | null {
+  if (value === undefined) return fallback;
+  const depth = parseInt(value as string);
+  return Number.isInteger(depth) && depth >= 1 && depth <= MAX_DEPTH ? depth : null;
+}
+
+// GET /api/graph/entities?q= — search people and companies by name
+graphRouter.get('/entities', async (req: Request, res: Response) => {
+  try {
+    const q = (req.query.q as string || '').trim();
+    if (!q) { res.status(400).json({ error: 'q required' }); return; }
+    const limit = parseInt(req.query.limit as string) || 20;
+    res.json({ entities: await searchEntities(q, limit) });
+  } catch (err) {
+    console.error('[GRAPH API] Error searching entities:', err);
+    res.status(500).json({ error: 'Failed to search entities' });
+  }
+});
+
+// GET /api/graph/entities/:id — entity with its direct relationships
+graphRouter.get('/entities/:id', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const entity = await getEntity(id);
+    if (!entity) { res.status(404).json({ error: 'Entity not found' }); return; }
+    res.json({ entity, ...(await getRelationships(id)) });
+  } catch (err) {
+    console.error('[GRAPH API] Error getting entity:', err);
+    res.status(500).json({ error: 'Failed to get entity' });
+  }
+});
+
+// DELETE /api/graph/entities/:id — remove an entity and its relationships
+graphRouter.delete('/entities/:id', async (req: Request, res: Response) => {
+  try {
+    await deleteEntity(parseInt(req.params.id));
+    res.json({ success: true });
+  } catch (err) {
+    console.error('[GRAPH API] Error deleting entity:', err);
+    res.status(500).json({ error: 'Failed to delete entity' });
+  }
+});
+
+// GET /api/graph/entities/:id/controllers?depth=3 — who controls this entity through ≤depth layers
+graphRouter.get('/entities/:id/controllers', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const depth = parseDepth(req.query.depth, 3);
+    if (depth === null) { res.status(400).json({ error: `depth must be 1-${MAX_DEPTH}` }); return; }
+    const entity = await getEntity(id);
+    if (!entity) { res.status(404).json({ error: 'Entity not found' }); return; }
+    res.json({ entity, depth, controllers: await findControllers(id, depth) });
+  } catch (err) {
+    console.error('[GRAPH API] Error tracing controllers:', err);
+    res.status(500).json({ error: 'Failed to trace controllers' });
+  }
+});
+
+// GET /api/graph/entities/:id/ubo?threshold=10 — natural persons with effective ownership ≥ threshold
+graphRouter.get('/entities/:id/ubo', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const threshold = req.query.threshold !== undefined ? parseFloat(req.query.threshold as string) : 10;
+    if (!(threshold > 0 && threshold <= 100)) { res.status(400).json({ error: 'threshold must be between 0 and 100' }); return; }
+    const result = await calculateUBO(id, { threshold });
+    if (!result) { res.status(404).json({ error: 'Entity not found' }); return; }
+    res.json(result);
+  } catch (err) {
+    console.error('[GRAPH API] Error calculating UBO:', err);
+    res.status(500).json({ error: 'Failed to calculate UBO' });
+  }
+});
+
+// GET /api/graph/shared-directors?a=&b= — people holding officer roles at both companies
+graphRouter.get('/shared-directors', async (req: Request, res: Response) => {
+  try {
+    const a = parseInt(req.query.a as string);
+    const b = parseInt(req.query.b as string);
+    if (!a || !b) { res.status(400).json({ error: 'a and b (entity ids) required' }); return; }
+    res.json({ shared: await findSharedOfficers(a, b) });
+  } catch (err) {
+    console.error('[GRAPH API] Error finding shared directors:', err);
+    res.status(500).json({ error: 'Failed to find shared directors' });
+  }
+});
+
+// GET /api/graph/export?format=json|graphml&entityId=&depth=2 — whole graph or an entity's neighbourhood
+graphRouter.get('/export', async (req: Request, res: Response) => {
+  try {
+    const format = (req.query.format as string) || 'json';
+    if (format !== 'json' && format !== 'graphml') { res.status(400).json({ error: 'format must be json or graphml' }); return; }
+    const entityId = req.query.entityId ? parseInt(req.query.entityId as string) : undefined;
+    const depth = parseDepth(req.query.depth, 2);
+    if (depth === null) { res.status(400).json({ error: `depth must be 1-${MAX_DEPTH}` }); return; }
+
+    const graph = await getSubgraph(entityId, depth);
+    if (format === 'graphml') {
+      res.type('application/xml').send(toGraphML(graph));
+    } else {
+      res.json(graph);
+    }
+  } catch (err) {
+    console.error('[GRAPH API] Error exporting graph:', err);
+    res.status(500).json({ error: 'Failed to export graph' });
+  }
+});
+
+// POST /api/graph/ingest/qcc — load a QCC company extraction
+graphRouter.post('/ingest/qcc', async (req: Request, res: Response) => {
+  try {
+    const profile = req.body;
+    if (!profile?.companyName && !profile?.companyNameChinese) {
+      res.status(400).json({ error: 'companyName required' }); return;
+    }
+    const id = await ingestQCCProfile(profile);
+    res.json({ success: true, id });
+  } catch (err) {
+    console.error('[GRAPH API] Error ingesting QCC profile:', err);
+    res.status(500).json({ error: 'Failed to ingest QCC profile' });
+  }
+});
@@ -0,0 +1,517 @@
+import { pool } from './db/index.js';
+import { toSimplified } from './utils/chinese.js';
+import type { QCCCompanyProfile } from './qcc-types.js';
+import type { SubjectProfile } from './types.js';
+
+// --- Init ---
+
+export async function initGraphDb(): Promise<void> {
+  await pool.query(SCHEMA);
+}
+
+// --- Types ---
+
+export type EntityKind = 'person' | 'company';
+
+// Edges point from the holder/officer to the company (or person) they relate to
+export type RelationshipRole =
+  | 'shareholder'
+  | 'beneficial_owner'
+  | 'actual_controller'
+  | 'legal_representative'
+  | 'director'
+  | 'executive'
+  | 'associate';
+
+export type RelationshipSource = 'qcc' | 'screening_profile' | 'manual';
+
+// Roles that carry ownership or control, followed when tracing who controls an entity
+export const CONTROL_ROLES: RelationshipRole[] = ['shareholder', 'beneficial_owner', 'actual_controller'];
+
+// Roles that make a person part of a company's management
+export const OFFICER_ROLES: RelationshipRole[] = ['director', 'executive', 'legal_representative'];
+
+export interface EntityRow {
+  id: number;
+  kind: EntityKind;
+  name: string;
+  name_key: string;
+  registration_id: string | null;
+  qcc_url: string | null;
+  attributes_json: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RelationshipRow {
+  id: number;
+  from_id: number;
+  to_id: number;
+  role: RelationshipRole;
+  title: string | null;
+  ownership_pct: number | null;
+  source: RelationshipSource;
+  source_url: string | null;
+  observed_at: string | null;
+  created_at: string;
+}
+
+export interface EntityRef {
+  kind: EntityKind;
+  name: string;
+  registrationId?: string;
+  qccUrl?: string;
+  attributes?: Record<string, string>;
+}
+
+export interface RelationshipInput {
+  from: EntityRef;
+  to: EntityRef;
+  role: RelationshipRole;
+  title?: string;
+  ownershipPct?: number | null;
+  source: RelationshipSource;
+  sourceUrl?: string;
+  observedAt?: string;
+}
+
+export interface PathStep {
+  fromId: number;
+  toId: number;
+  role: RelationshipRole;
+  ownershipPct: number | null;
+}
+
+export interface ControllerResult {
+  entity: EntityRow;
+  depth: number;                          // Shortest number of hops to the target
+  effectiveOwnershipPct: number | null;   // Sum over paths of the product of known stakes; null if no path is fully quantified
+  paths: PathStep[][];
+}
+
+export interface SharedOfficer {
+  person: EntityRow;
+  matchedBy: 'entity' | 'name';           // 'name' = different records with the same normalised name (possible homonym)
+  rolesA: { role: RelationshipRole; title: string | null }[];
+  rolesB: { role: RelationshipRole; title: string | null }[];
+}
+
+export interface Subgraph {
+  nodes: EntityRow[];
+  edges: RelationshipRow[];
+}
+
+// --- Helpers ---
+
+/**
+ * Matching key for entity names: simplified Chinese, NFKC (full-width → half-width),
+ * lowercase, without whitespace, brackets or punctuation.
+ */
+export function nameKey(name: string): string {
+  return toSimplified(name.normalize('NFKC'))
+    .toLowerCase()
+    .replace(/[\s()[\]{}·・.,，、'"“”‘’-]/g, '');
+}
+
+/** Parse QCC percentage strings ("35.5%", "35.50", "-") into a number, null if absent. */
+export function parsePercentage(value: string | undefined | null): number | null {
+  if (!value) return null;
+  const m = value.replace(/,/g, '').match(/(\d+(?:\.\d+)?)/);
+  if (!m) return null;
+  const pct = parseFloat(m[1]);
+  return pct >= 0 && pct <= 100 ? pct : null;
+}
+
+/**
+ * Find or create an entity. Match order: QCC profile URL, registration ID, then normalised name —
+ * a person with a different QCC profile URL than the name match is a different person.
+ */
+async function resolveEntity(ref: EntityRef): Promise<number> {
+  const key = nameKey(ref.name);
+  let existing: EntityRow | undefined;
+
+  if (ref.qccUrl) {
+    const { rows } = await pool.query('SELECT * FROM dd_entities WHERE qcc_url = $1', [ref.qccUrl]);
+    existing = rows[0];
+  }
+  if (!existing && ref.registrationId) {
+    const { rows } = await pool.query('SELECT * FROM dd_entities WHERE registration_id = $1', [ref.registrationId]);
+    existing = rows[0];
+  }
+  if (!existing) {
+    const { rows } = await pool.query('SELECT * FROM dd_entities WHERE kind = $1 AND name_key = $2 ORDER BY id', [ref.kind, key]);
+    existing = rows.find((r: EntityRow) =>
+      !(ref.kind === 'person' && ref.qccUrl && r.qcc_url && r.qcc_url !== ref.qccUrl)
+    );
+  }
+
+  if (existing) {
+    const attributes = { ...JSON.parse(existing.attributes_json || '{}'), ...(ref.attributes || {}) };
+    await pool.query(`
+      UPDATE dd_entities SET
+        registration_id = COALESCE(registration_id, $1),
+        qcc_url = COALESCE(qcc_url, $2),
+        attributes_json = $3,
+        updated_at = NOW()
+      WHERE id = $4
+    `, [ref.registrationId || null, ref.qccUrl || null, JSON.stringify(attributes), existing.id]);
+    return existing.id;
+  }
+
+  const { rows: [row] } = await pool.query(`
+    INSERT INTO dd_entities (kind, name, name_key, registration_id, qcc_url, attributes_json)
+    VALUES ($1, $2, $3, $4, $5, $6)
+    RETURNING id
+  `, [ref.kind, ref.name.trim(), key, ref.registrationId || null, ref.qccUrl || null, JSON.stringify(ref.attributes || {})]);
+  return row.id;
+}
+
+// --- Writes ---
+
+export async function upsertEntity(ref: EntityRef): Promise<number> {
+  return resolveEntity(ref);
+}
+
+/** Record a relationship; re-observing the same edge from the same source refreshes it. */
+export async function addRelationship(input: RelationshipInput): Promise<number> {
+  const fromId = await resolveEntity(input.from);
+  const toId = await resolveEntity(input.to);
+  const { rows: [row] } = await pool.query(`
+    INSERT INTO dd_relationships (from_id, to_id, role, title, ownership_pct, source, source_url, observed_at)
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+    ON CONFLICT (from_id, to_id, role, source) DO UPDATE SET
+      title = EXCLUDED.title,
+      ownership_pct = EXCLUDED.ownership_pct,
+      source_url = EXCLUDED.source_url,
+      observed_at = EXCLUDED.observed_at
+    RETURNING id
+  `, [fromId, toId, input.role, input.title || null, input.ownershipPct ?? null,
+      input.source, input.sourceUrl || null, input.observedAt || null]);
+  return row.id;
+}
+
+export async function deleteEntity(id: number): Promise<void> {
+  await pool.query('DELETE FROM dd_entities WHERE id = $1', [id]);
+}
+
+// --- Ingestion ---
+
+/**
+ * Load a QCC company extraction into the graph: the company, its legal representative,
+ * shareholders, officers, beneficial owners, actual controllers and downstream companies.
+ * Returns the company's entity id.
+ */
+export async function ingestQCCProfile(profile: QCCCompanyProfile): Promise<number> {
+  const company: EntityRef = {
+    kind: 'company',
+    name: profile.companyName || profile.companyNameChinese,
+    registrationId: profile.unifiedSocialCreditCode || profile.companyNumber || undefined,
+    qccUrl: profile.sourceUrl || undefined,
+    attributes: {
+      ...(profile.companyNameEnglish ? { nameEnglish: profile.companyNameEnglish } : {}),
+      ...(profile.jurisdiction ? { jurisdiction: profile.jurisdiction } : {}),
+      ...(profile.operatingStatus ? { status: profile.operatingStatus } : {}),
+    },
+  };
+  const companyId = await resolveEntity(company);
+  const base = { source: 'qcc' as const, sourceUrl: profile.sourceUrl, observedAt: profile.extractedAt };
+  const person = (name: string, qccUrl?: string): EntityRef => ({ kind: 'person', name, qccUrl });
+
+  if (profile.legalRepresentative) {
+    await addRelationship({ ...base, from: person(profile.legalRepresentative), to: company, role: 'legal_representative' });
+  }
+  for (const s of profile.shareholders || []) {
+    if (!s.name) continue;
+    await addRelationship({
+      ...base,
+      from: { kind: s.type === 'corporate' ? 'company' : 'person', name: s.name, qccUrl: s.profileUrl },
+      to: company,
+      role: 'shareholder',
+      ownershipPct: parsePercentage(s.percentage),
+    });
+  }
+  for (const d of profile.directors || []) {
+    if (d.name) await addRelationship({ ...base, from: person(d.name, d.profileUrl), to: company, role: 'director', title: d.position });
+  }
+  for (const e of profile.executives || []) {
+    if (e.name) await addRelationship({ ...base, from: person(e.name, e.profileUrl), to: company, role: 'executive', title: e.position });
+  }
+  for (const b of profile.beneficialOwners || []) {
+    if (b.name) {
+      await addRelationship({ ...base, from: person(b.name, b.profileUrl), to: company, role: 'beneficial_owner', ownershipPct: parsePercentage(b.percentage) });
+    }
+  }
+  for (const c of profile.actualControllers || []) {
+    if (c.name) await addRelationship({ ...base, from: person(c.name, c.profileUrl), to: company, role: 'actual_controller', title: c.controlPath });
+  }
+  // Downstream companies: this company holds them
+  for (const sub of [...(profile.subsidiaries || []), ...(profile.investments || [])]) {
+    if (!sub.name) continue;
+    await addRelationship({
+      ...base,
+      from: company,
+      to: { kind: 'company', name: sub.name, qccUrl: sub.profileUrl },
+      role: 'shareholder',
+      ownershipPct: parsePercentage(sub.percentage),
+    });
+  }
+  for (const ctl of profile.controlledCompanies || []) {
+    if (ctl.name) await addRelationship({ ...base, from: company, to: { kind: 'company', name: ctl.name, qccUrl: ctl.profileUrl }, role: 'actual_controller' });
+  }
+
+  return companyId;
+}
+
+/**
+ * Load the network a screening profile picked up from articles. These are media-sourced
+ * associations, recorded as 'associate' edges with the relationship text as the title.
+ */
+export async function ingestSubjectProfile(profile: SubjectProfile, subjectKind: EntityKind = 'person'): Promise<number> {
+  const subject: EntityRef = { kind: subjectKind, name: profile.primaryName };
+  const subjectId = await resolveEntity(subject);
+  const sourceFor = (name: string) => profile.sources.find(s => s.value.includes(name))?.articleUrl;
+  const observedAt = new Date(profile.lastUpdated || Date.now()).toISOString();
+
+  for (const c of profile.associatedCompanies) {
+    if (!c.name) continue;
+    await addRelationship({
+      from: subject, to: { kind: 'company', name: c.name }, role: 'associate', title: c.relationship,
+      source: 'screening_profile', sourceUrl: sourceFor(c.name), observedAt,
+    });
+  }
+  for (const p of profile.associatedPeople) {
+    if (!p.name) continue;
+    await addRelationship({
+      from: subject, to: { kind: 'person', name: p.name }, role: 'associate', title: p.relationship,
+      source: 'screening_profile', sourceUrl: sourceFor(p.name), observedAt,
+    });
+  }
+
+  return subjectId;
+}
+
+// --- Reads ---
+
+export async function getEntity(id: number): Promise<EntityRow | null> {
+  const { rows: [row] } = await pool.query('SELECT * FROM dd_entities WHERE id = $1', [id]);
+  return row || null;
+}
+
+export async function searchEntities(query: string, limit = 20): Promise<EntityRow[]> {
+  const { rows } = await pool.query(
+    'SELECT * FROM dd_entities WHERE name_key LIKE $1 OR name ILIKE $2 ORDER BY name LIMIT $3',
+    [`%${nameKey(query)}%`, `%${query}%`, limit]
+  );
+  return rows;
+}
+
+export async function getRelationships(entityId: number): Promise<{ outgoing: RelationshipRow[]; incoming: RelationshipRow[] }> {
+  const { rows: outgoing } = await pool.query('SELECT * FROM dd_relationships WHERE from_id = $1 ORDER BY id', [entityId]);
+  const { rows: incoming } = await pool.query('SELECT * FROM dd_relationships WHERE to_id = $1 ORDER BY id', [entityId]);
+  return { outgoing, incoming };
+}
+
+/** Relationships of the given roles pointing at any of the entities. */
+export async function getIncomingRelationships(entityIds: number[], roles: RelationshipRole[]): Promise<RelationshipRow[]> {
+  const { rows } = await pool.query(
+    'SELECT * FROM dd_relationships WHERE to_id = ANY($1::int[]) AND role = ANY($2::text[]) ORDER BY id',
+    [entityIds, roles]
+  );
+  return rows;
+}
+
+/**
+ * Who controls an entity through at most maxDepth layers of shareholding/control.
+ * Walks incoming control edges breadth-first, skipping cycles; each controller lists every
+ * path found, and effective ownership multiplies stakes along a path and sums across paths.
+ * Only shareholding paths are summed: beneficial owner and actual controller edges restate a
+ * holding already reached through shareholders, so they count as control paths without a stake.
+ */
+export async function findControllers(entityId: number, maxDepth = 3): Promise<ControllerResult[]> {
+  const results = new Map<number, { depth: number; paths: PathStep[][] }>();
+  let frontier: { id: number; path: PathStep[] }[] = [{ id: entityId, path: [] }];
+
+  for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+    const ids = [...new Set(frontier.map(f => f.id))];
+    const edges = await getIncomingRelationships(ids, CONTROL_ROLES);
+
+    const next: { id: number; path: PathStep[] }[] = [];
+    for (const node of frontier) {
+      const onPath = new Set([entityId, ...node.path.map(s => s.fromId)]);
+      for (const e of edges) {
+        if (e.to_id !== node.id || onPath.has(e.from_id)) continue;
+        const step: PathStep = { fromId: e.from_id, toId: e.to_id, role: e.role, ownershipPct: e.ownership_pct };
+        // Paths are stored controller-first
+        const path = [step, ...node.path];
+        const existing = results.get(e.from_id);
+        if (existing) existing.paths.push(path);
+        else results.set(e.from_id, { depth, paths: [path] });
+        next.push({ id: e.from_id, path });
+      }
+    }
+    frontier = next;
+  }
+
+  const out: ControllerResult[] = [];
+  for (const [id, { depth, paths }] of results) {
+    const entity = await getEntity(id);
+    if (!entity) continue;
+    // Only shareholding paths with every stake known contribute to effective ownership
+    const quantified = paths.filter(p => p.every(s => s.role === 'shareholder' && s.ownershipPct !== null));
+    const effectiveOwnershipPct = quantified.length > 0
+      ? Math.round(quantified.reduce((sum, p) => sum + p.reduce((acc, s) => acc * (s.ownershipPct! / 100), 1), 0) * 10000) / 100
+      : null;
+    out.push({ entity, depth, effectiveOwnershipPct, paths });
+  }
+  return out.sort((a, b) => a.depth - b.depth || (b.effectiveOwnershipPct ?? -1) - (a.effectiveOwnershipPct ?? -1));
+}
+
+/**
+ * People who hold officer roles at both companies — the same person record, or records
+ * sharing a normalised name (flagged as matchedBy 'name' since they may be different people).
+ */
+export async function findSharedOfficers(companyA: number, companyB: number): Promise<SharedOfficer[]> {
+  const officersOf = async (companyId: number) => {
+    const { rows } = await pool.query(`
+      SELECT r.role, r.title, e.id AS person_id, e.name_key
+      FROM dd_relationships r JOIN dd_entities e ON e.id = r.from_id
+      WHERE r.to_id = $1 AND r.role = ANY($2::text[]) AND e.kind = 'person'
+      ORDER BY e.id
+    `, [companyId, OFFICER_ROLES]);
+    return rows as { role: RelationshipRole; title: string | null; person_id: number; name_key: string }[];
+  };
+  const a = await officersOf(companyA);
+  const b = await officersOf(companyB);
+
+  const shared = new Map<string, Omit<SharedOfficer, 'person'> & { personId: number }>();
+  for (const oa of a) {
+    for (const ob of b) {
+      const sameEntity = oa.person_id === ob.person_id;
+      if (!sameEntity && oa.name_key !== ob.name_key) continue;
+      const key = sameEntity ? `${oa.person_id}` : `${oa.person_id}:${ob.person_id}`;
+      const entry = shared.get(key) || { personId: oa.person_id, matchedBy: sameEntity ? 'entity' : 'name', rolesA: [], rolesB: [] };
+      if (!entry.rolesA.some(r => r.role === oa.role)) entry.rolesA.push({ role: oa.role, title: oa.title });
+      if (!entry.rolesB.some(r => r.role === ob.role)) entry.rolesB.push({ role: ob.role, title: ob.title });
+      shared.set(key, entry);
+    }
+  }
+
+  const out: SharedOfficer[] = [];
+  for (const { personId, ...rest } of shared.values()) {
+    const person = await getEntity(personId);
+    if (person) out.push({ person, ...rest });
+  }
+  return out;
+}
+
+/**
+ * Entities within `depth` hops of an entity (edges followed in both directions),
+ * or the whole graph when no entity is given.
+ */
+export async function getSubgraph(entityId?: number, depth = 2): Promise<Subgraph> {
+  if (entityId === undefined) {
+    const { rows: nodes } = await pool.query('SELECT * FROM dd_entities ORDER BY id');
+    const { rows: edges } = await pool.query('SELECT * FROM dd_relationships ORDER BY id');
+    return { nodes, edges };
+  }
+
+  const seen = new Set<number>([entityId]);
+  const edgeMap = new Map<number, RelationshipRow>();
+  let frontier = [entityId];
+  for (let d = 0; d < depth && frontier.length > 0; d++) {
+    const { rows } = await pool.query(
+      'SELECT * FROM dd_relationships WHERE from_id = ANY($1::int[]) OR to_id = ANY($1::int[])',
+      [frontier]
+    );
+    const next: number[] = [];
+    for (const e of rows as RelationshipRow[]) {
+      edgeMap.set(e.id, e);
+      for (const id of [e.from_id, e.to_id]) {
+        if (!seen.has(id)) { seen.add(id); next.push(id); }
+      }
+    }
+    frontier = next;
+  }
+
+  const nodes: EntityRow[] = [];
+  for (const id of [...seen].sort((x, y) => x - y)) {
+    const entity = await getEntity(id);
+    if (entity) nodes.push(entity);
+  }
+  const edges = [...edgeMap.values()].filter(e => seen.has(e.from_id) && seen.has(e.to_id)).sort((x, y) => x.id - y.id);
+  return { nodes, edges };
+}
+
+// --- Export ---
+
+function xmlEscape(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/** GraphML for Gephi/yEd/Cytoscape: node kind/name/registration, edge role/title/stake/source. */
+export function toGraphML(graph: Subgraph): string {
+  const data = (key: string, value: string | number | null) =>
+    value === null || value === '' ? '' : `<data key="${key}">${xmlEscape(String(value))}</data>`;
+
+  const nodes = graph.nodes.map(n =>
+    `    <node id="n${n.id}">${data('kind', n.kind)}${data('name', n.name)}${data('registrationId', n.registration_id)}</node>`
+  );
+  const edges = graph.edges.map(e =>
+    `    <edge id="e${e.id}" source="n${e.from_id}" target="n${e.to_id}">${data('role', e.role)}${data('title', e.title)}${data('ownershipPct', e.ownership_pct)}${data('source', e.source)}${data('sourceUrl', e.source_url)}</edge>`
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    '  <key id="kind" for="node" attr.name="kind" attr.type="string"/>',
+    '  <key id="name" for="node" attr.name="name" attr.type="string"/>',
+    '  <key id="registrationId" for="node" attr.name="registrationId" attr.type="string"/>',
+    '  <key id="role" for="edge" attr.name="role" attr.type="string"/>',
+    '  <key id="title" for="edge" attr.name="title" attr.type="string"/>',
+    '  <key id="ownershipPct" for="edge" attr.name="ownershipPct" attr.type="double"/>',
+    '  <key id="source" for="edge" attr.name="source" attr.type="string"/>',
+    '  <key id="sourceUrl" for="edge" attr.name="sourceUrl" attr.type="string"/>',
+    '  <graph id="ddowl" edgedefault="directed">',
+    ...nodes,
+    ...edges,
+    '  </graph>',
+    '</graphml>',
+    '',
+  ].join('\n');
+}
+
+// --- Schema ---
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS dd_entities (
+    id SERIAL PRIMARY KEY,
+    kind TEXT NOT NULL,
+    name TEXT NOT NULL,
+    name_key TEXT NOT NULL,
+    registration_id TEXT,
+    qcc_url TEXT,
+    attributes_json TEXT NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+  );
+
+  CREATE TABLE IF NOT EXISTS dd_relationships (
+    id SERIAL PRIMARY KEY,
+    from_id INTEGER NOT NULL REFERENCES dd_entities(id) ON DELETE CASCADE,
+    to_id INTEGER NOT NULL REFERENCES dd_entities(id) ON DELETE CASCADE,
+    role TEXT NOT NULL,
+    title TEXT,
+    ownership_pct DOUBLE PRECISION,
+    source TEXT NOT NULL,
+    source_url TEXT,
+    observed_at TEXT,
+    created_at TIMESTAMP DEFAULT NOW(),
+    UNIQUE (from_id, to_id, role, source)
+  );
+
+  CREATE INDEX IF NOT EXISTS dd_entities_name_key_idx ON dd_entities(kind, name_key);
+  CREATE INDEX IF NOT EXISTS dd_entities_qcc_url_idx ON dd_entities(qcc_url);
+  CREATE INDEX IF NOT EXISTS dd_entities_registration_idx ON dd_entities(registration_id);
+  CREATE INDEX IF NOT EXISTS dd_relationships_to_idx ON dd_relationships(to_id, role);
+  CREATE INDEX IF NOT EXISTS dd_relationships_from_idx ON dd_relationships(from_id);
+`;
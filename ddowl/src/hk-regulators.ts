@@ -0,0 +1,433 @@
+/**
+ * Hong Kong regulator page parsers
+ *
+ * Structured parsing for the sources DD reports lean on most: SFC enforcement news and the SFC
+ * public register of licensed persons, HKEX disciplinary announcements, ICAC press releases and
+ * Companies Registry disqualification orders. Parsers work on the fetched page text (as returned by
+ * fetchPageContent) and return typed records — action, date, penalty, CE numbers, named people —
+ * so the analyze phase can turn them into findings and licences without an LLM call.
+ */
+
+import type { SubjectProfile } from './types.js';
+
+// --- Types ---
+
+export type HKRegulatorSource =
+  | 'sfc_enforcement'     // SFC enforcement news
+  | 'sfc_register'        // SFC public register of licensed persons
+  | 'hkex_disciplinary'   // HKEX disciplinary / listing enforcement announcements
+  | 'icac_press'          // ICAC press releases
+  | 'cr_disqualification'; // Companies Registry disqualification orders
+
+export type HKActionType =
+  | 'reprimand' | 'censure' | 'criticism' | 'fine' | 'ban' | 'suspension' | 'revocation'
+  | 'disqualification' | 'unsuitability' | 'arrest' | 'charge' | 'conviction' | 'sentence' | 'acquittal';
+
+export interface HKLicence {
+  holder: string;
+  ceNumber: string | null;
+  regulatedActivities: string[];   // "Type 1", "Type 4" ...
+  role: 'responsible officer' | 'licensed representative' | 'licensed corporation' | null;
+  principal: string | null;        // Licensed corporation the individual is accredited to
+  status: 'active' | 'inactive' | null;
+}
+
+export interface HKRegulatoryRecord {
+  source: HKRegulatorSource;
+  url: string;
+  title: string;
+  date: string | null;             // YYYY-MM-DD
+  actionTypes: HKActionType[];
+  penalty: {
+    fineHkd: number | null;
+    banPeriod: string | null;      // "life", "10 months", "3 years"
+    sentence: string | null;       // Custodial / community sentence as stated
+  };
+  ceNumbers: string[];
+  individuals: string[];
+  firms: string[];
+  employers: string[];             // Firms named only as an individual's employer, not as parties
+  licences: HKLicence[];           // sfc_register only
+}
+
+export const HK_REGULATOR_LABELS: Record<HKRegulatorSource, string> = {
+  sfc_enforcement: 'SFC',
+  sfc_register: 'SFC public register',
+  hkex_disciplinary: 'HKEX',
+  icac_press: 'ICAC',
+  cr_disqualification: 'Companies Registry',
+};
+
+// --- Source detection ---
+
+/** Which parser applies to a URL, or null for ordinary pages. */
+export function hkRegulatorSource(url: string, title = ''): HKRegulatorSource | null {
+  let host = '';
+  let path = '';
+  try {
+    const u = new URL(url);
+    host = u.hostname.toLowerCase();
+    path = `${u.pathname}${u.search}`;
+  } catch {
+    return null;
+  }
+
+  if (host.endsWith('sfc.hk')) {
+    if (/publicreg/i.test(path)) return 'sfc_register';
+    if (/enforcement|refNo=\d{2}PR\d+/i.test(path) || /enforcement|紀律處分|纪律处分/i.test(title)) return 'sfc_enforcement';
+    return null;
+  }
+  if (host.endsWith('hkex.com.hk') || host.endsWith('hkexnews.hk')) {
+    return /disciplin|enforcement/i.test(path) || /disciplinary|紀律|纪律|censure|譴責|谴责|criticism|批評|批评/i.test(title)
+      ? 'hkex_disciplinary' : null;
+  }
+  if (host.endsWith('icac.org.hk')) return /press/i.test(path) ? 'icac_press' : null;
+  if (host.endsWith('cr.gov.hk')) return /disqualif/i.test(path) || /disqualif|取消資格|取消资格/i.test(title) ? 'cr_disqualification' : null;
+  return null;
+}
+
+// --- Field parsers ---
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6, jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12,
+};
+
+function isoDate(y: number, m: number, d: number): string | null {
+  if (m < 1 || m > 12 || d < 1 || d > 31) return null;
+  return `${y}-${String(m).padStart(2, '0')}-${String(d).padStart(2, '0')}`;
+}
+
+/** First date in the text: "15 June 2023", "June 15, 2023", "2023-06-15" or "2023年6月15日". */
+export function parseRegulatorDate(text: string): string | null {
+  const patterns: [RegExp, (m: RegExpMatchArray) => string | null][] = [
+    [/(\d{4})年\s*(\d{1,2})\s*月\s*(\d{1,2})\s*日/, m => isoDate(+m[1], +m[2], +m[3])],
+    [/\b(\d{1,2})\s+(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]*\.?\s+(\d{4})\b/i, m => isoDate(+m[3], MONTHS[m[2].toLowerCase()], +m[1])],
+    [/\b(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]*\.?\s+(\d{1,2}),?\s+(\d{4})\b/i, m => isoDate(+m[3], MONTHS[m[1].toLowerCase()], +m[2])],
+    [/\b(\d{4})-(\d{2})-(\d{2})\b/, m => isoDate(+m[1], +m[2], +m[3])],
+  ];
+  let best: { index: number; date: string } | null = null;
+  for (const [pattern, toDate] of patterns) {
+    const m = text.match(pattern);
+    const date = m ? toDate(m) : null;
+    if (m && date && (!best || m.index! < best.index)) best = { index: m.index!, date };
+  }
+  return best?.date ?? null;
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, fifteen: 15, eighteen: 18, twenty: 20, thirty: 30,
+};
+
+function scaled(amount: string, unit: string | undefined): number {
+  const value = parseFloat(amount.replace(/,/g, ''));
+  const u = (unit || '').toLowerCase();
+  return value * (u === 'million' || u === 'm' ? 1e6 : u === 'billion' || u === 'bn' ? 1e9 : u === '萬' || u === '万' ? 1e4 : u === '億' || u === '亿' ? 1e8 : 1);
+}
+
+function parseFine(text: string): number | null {
+  const fines: number[] = [];
+  for (const m of text.matchAll(/(?:fine[ds]?|pecuniary penalty|penalty of|financial penalty)[^.;]{0,60}?(?:HK)?\$\s*([\d,]+(?:\.\d+)?)\s*(million|billion|m\b|bn\b)?/gi)) {
+    fines.push(scaled(m[1], m[2]));
+  }
+  for (const m of text.matchAll(/(?:罰款|罚款|罰|罚)[^。；\d]{0,12}?(?:港幣|港币|港元|HK\$|\$)?\s*([\d,]+(?:\.\d+)?)\s*(萬|万|億|亿)?/g)) {
+    fines.push(scaled(m[1], m[2]));
+  }
+  const valid = fines.filter(f => Number.isFinite(f) && f > 0);
+  return valid.length > 0 ? Math.max(...valid) : null;
+}
+
+function periodText(count: string, unit: string): string {
+  const n = /^\d+$/.test(count) ? parseInt(count, 10) : NUMBER_WORDS[count.toLowerCase()] ?? count;
+  const u = unit.toLowerCase().replace(/s$/, '');
+  return `${n} ${u}${n === 1 ? '' : 's'}`;
+}
+
+function parseBanPeriod(text: string): string | null {
+  const en = text.match(/(?:ban(?:ned|s)?|prohibit(?:ed|s|ion)?|suspend(?:ed|s)?|suspension|disqualif(?:ied|ication))\b[^.;]{0,160}?\b(?:(for life|life)|(?:for|of)\s+(?:a period of\s+)?(\d+|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|fifteen|eighteen|twenty|thirty)\s+(years?|months?))/i);
+  if (en) return en[1] ? 'life' : periodText(en[2], en[3]);
+  const zh = text.match(/(?:禁止|暫時吊銷|暂时吊销|取消資格|取消资格)[^。；]{0,40}?(終身|终身|(?<!\d)(\d{1,2})\s*(年|個月|个月))/);
+  if (zh) return zh[2] ? `${zh[2]} ${zh[3] === '年' ? 'years' : 'months'}` : 'life';
+  return null;
+}
+
+function parseSentence(text: string): string | null {
+  const en = text.match(/sentenced to ([^.;]{3,120}?)(?:\.|;|,? (?:after|for|at|by|upon|on)\b)/i);
+  if (en) return en[1].trim();
+  const zh = text.match(/判(?:處|处)([^。；]{2,40})/);
+  return zh ? zh[1].trim() : null;
+}
+
+const ACTION_PATTERNS: [HKActionType, RegExp][] = [
+  ['reprimand', /\breprimand|(?<!公開)譴責|(?<!公开)谴责/i],
+  ['censure', /\bcensure|公開譴責|公开谴责/i],
+  ['criticism', /public(?:ly)? critici|公開批評|公开批评/i],
+  ['ban', /\bbann(?:ed|ing)\b|\bban(?:s)?\b|prohibit|禁止/i],
+  ['suspension', /\bsuspend|\bsuspension|暫時吊銷|暂时吊销/i],
+  ['revocation', /\brevok|\brevocation|撤銷|撤销/i],
+  ['disqualification', /disqualif|取消資格|取消资格/i],
+  ['unsuitability', /unsuitab|不適合擔任|不适合担任|損害投資者權益|损害投资者权益/i],
+  ['arrest', /\barrest(?:ed)?\b|拘捕|被捕/i],
+  ['charge', /\bcharged\b|\bprosecut|檢控|检控|被控|起訴|起诉/i],
+  ['conviction', /\bconvicted\b|pleaded guilty|found guilty|罪成|定罪|認罪|认罪/i],
+  ['sentence', /\bsentenced\b|\bjailed\b|判(?:處|处)/i],
+  ['acquittal', /\bacquitted\b|not guilty|罪名不成立|無罪|无罪/i],
+];
+
+function parseActions(text: string, fineHkd: number | null): HKActionType[] {
+  const actions = ACTION_PATTERNS.filter(([, pattern]) => pattern.test(text)).map(([type]) => type);
+  if (fineHkd !== null) actions.push('fine');
+  // "not guilty" appears in guilty pleas' procedural history too — only keep acquittal without a conviction
+  return actions.includes('conviction') ? actions.filter(a => a !== 'acquittal') : actions;
+}
+
+const CE_NUMBER = /(?:\bCE\s*(?:No\.?|number|Ref(?:erence)?)?|中央編號|中央编号)\s*[:：.]?\s*([A-Z]{3}\d{3})\b/gi;
+
+function parseCeNumbers(text: string, url: string): string[] {
+  const found = [...text.matchAll(CE_NUMBER)].map(m => m[1].toUpperCase());
+  const fromUrl = url.match(/\/(?:indi|corp|ri)\/([A-Z]{3}\d{3})\b/i);
+  if (fromUrl) found.unshift(fromUrl[1].toUpperCase());
+  return [...new Set(found)];
+}
+
+const HONORIFIC_NAME = /\b(?:Mr|Ms|Mrs|Miss|Dr|Madam)\.?\s+((?:[A-Z][A-Za-z'-]+)(?:\s+[A-Z][A-Za-z'-]+){0,3})/g;
+// ICAC style: "Wong Kwok-keung, 52, a former manager ..."
+const NAME_WITH_AGE = /\b([A-Z][a-z]+(?:\s[A-Z][a-z]+)?\s[A-Z][a-z]+-[a-z]+),\s*(?:aged\s*)?\d{2}\b/g;
+
+function parseIndividuals(text: string): string[] {
+  const names: string[] = [];
+  for (const m of text.matchAll(HONORIFIC_NAME)) names.push(m[1].trim());
+  for (const m of text.matchAll(NAME_WITH_AGE)) names.push(m[1].trim());
+  // Chinese: name before 先生/女士 — the run of CJK before it, or its last three characters when the
+  // run also carries a title ("持牌代表王大文先生")
+  for (const m of text.matchAll(/([一-鿿]+)(?:先生|女士)/g)) {
+    const run = m[1];
+    names.push(run.length <= 4 ? run : run.slice(-3));
+  }
+  const honorifics = new Set(['Justice', 'Secretary', 'Commissioner', 'Chairman']);
+  return [...new Set(names)].filter(n => !honorifics.has(n.split(/\s+/)[0]));
+}
+
+function parseFirms(text: string): string[] {
+  const firms: string[] = [];
+  for (const m of text.matchAll(/\b((?:[A-Z][A-Za-z0-9&'.-]*\s+){0,6}?(?:[A-Z][A-Za-z0-9&'.-]*\s+)(?:\((?:Hong Kong|HK|Asia|China)\)\s+)?(?:Limited|Ltd\.?|Company Limited|Corporation|Holdings Limited))\b/g)) {
+    const name = m[1].replace(/^(?:The|On|By|Against|And|Of|For)\s+/, '').trim();
+    if (name.split(/\s+/).length >= 2) firms.push(name);
+  }
+  for (const m of text.matchAll(/([一-鿿（）()]{2,30}?有限公司)/g)) {
+    firms.push(m[1].replace(/^[對对向與与就指於于被令及和]/, ''));
+  }
+  return [...new Set(firms)];
+}
+
+// "a former responsible officer of X", "X的前僱員": the firm only says where someone worked
+const EMPLOYER_BEFORE = /(?:officer|representative|employee|director|executive|manager|staff|trader|dealer|salesperson|consultant)s?\s+(?:of|at|with)\s+(?:the\s+)?$/i;
+const EMPLOYER_AFTER = /^\s*的?前?(?:僱員|雇员|職員|职员|董事|負責人員|负责人员|代表|經理|经理)/;
+
+/** Firms whose every mention, including a bracketed short name ("(Golden Ray)"), is as an employer */
+function parseEmployers(text: string, firms: string[]): string[] {
+  const escape = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return firms.filter(firm => {
+    const firmAt = [...text.matchAll(new RegExp(escape(firm), 'g'))].map(m => m.index!);
+    const alias = text.match(new RegExp(`${escape(firm)}\\s*[(（]([^)）]{2,40})[)）]`))?.[1];
+    const mentions = firmAt.map(start => ({ start, end: start + firm.length }));
+    if (alias) {
+      for (const m of text.matchAll(new RegExp(escape(alias), 'g'))) {
+        const start = m.index!;
+        // The alias's own definition, and the alias inside the full name, are not separate mentions
+        if (/[(（]\s*$/.test(text.slice(0, start)) || firmAt.some(f => start >= f && start < f + firm.length)) continue;
+        mentions.push({ start, end: start + alias.length });
+      }
+    }
+    return mentions.every(({ start, end }) =>
+      EMPLOYER_BEFORE.test(text.slice(Math.max(0, start - 60), start)) || EMPLOYER_AFTER.test(text.slice(end, end + 12)));
+  });
+}
+
+// --- Register ---
+
+function parseLicences(text: string, url: string, title: string, ceNumbers: string[]): HKLicence[] {
+  const types = [...new Set([...text.matchAll(/\bType\s*(\d{1,2})\b|第\s*(\d{1,2})\s*類|第\s*(\d{1,2})\s*类/gi)].map(m => parseInt(m[1] || m[2] || m[3], 10)))]
+    .filter(n => n >= 1 && n <= 13)
+    .sort((a, b) => a - b)
+    .map(n => `Type ${n}`);
+  const corporate = /\/corp\//i.test(url);
+  const role: HKLicence['role'] = corporate ? 'licensed corporation'
+    : /responsible officer|負責人員|负责人员/i.test(text) ? 'responsible officer'
+    : /representative|代表/i.test(text) ? 'licensed representative'
+    : null;
+  const status: HKLicence['status'] = /\binactive\b|no current licen|ceased|不再持牌/i.test(text) ? 'inactive'
+    : /\bactive\b|current licen|現時持牌|现时持牌/i.test(text) ? 'active'
+    : null;
+  const named = text.match(/\bName\s*[:：]\s*([A-Z][A-Za-z ,'-]{2,60}?)(?=\s{2,}|\s*(?:CE|Chinese|中文|$))/);
+  const holder = named?.[1].trim() || title.split(/\s*[-|–]\s*/)[0].trim();
+  const principal = text.match(/(?:Principal|Accredited to|主事人|隸屬|隶属)\s*[:：]?\s*([A-Z][A-Za-z0-9&'(). -]{2,80}?(?:Limited|Ltd\.?))/i)?.[1].trim() || null;
+
+  if (!holder && types.length === 0) return [];
+  return [{ holder, ceNumber: ceNumbers[0] || null, regulatedActivities: types, role, principal, status }];
+}
+
+// --- Parse ---
+
+/**
+ * Parse a regulator page into a record. Returns null for pages no parser covers, and for
+ * enforcement pages where no action could be identified (left to the generic analysis).
+ */
+export function parseHKRegulatorPage(url: string, title: string, text: string): HKRegulatoryRecord | null {
+  const source = hkRegulatorSource(url, title);
+  if (!source) return null;
+
+  const body = `${title}\n${text}`.replace(/\s+/g, ' ');
+  const ceNumbers = parseCeNumbers(body, url);
+  const fineHkd = parseFine(body);
+  const firms = parseFirms(body);
+  const record: HKRegulatoryRecord = {
+    source,
+    url,
+    title,
+    date: parseRegulatorDate(body),
+    actionTypes: source === 'sfc_register' ? [] : parseActions(body, fineHkd),
+    penalty: {
+      fineHkd: source === 'sfc_register' ? null : fineHkd,
+      banPeriod: source === 'sfc_register' ? null : parseBanPeriod(body),
+      sentence: source === 'icac_press' ? parseSentence(body) : null,
+    },
+    ceNumbers,
+    individuals: parseIndividuals(body),
+    firms,
+    employers: parseEmployers(body, firms),
+    licences: source === 'sfc_register' ? parseLicences(body, url, title, ceNumbers) : [],
+  };
+
+  if (source !== 'sfc_register' && record.actionTypes.length === 0) return null;
+  return record;
+}
+
+// --- Findings and profile ---
+
+function normalise(name: string): string {
+  return name.toLowerCase().replace(/\bltd\b\.?/g, 'limited').replace(/[\s,.'-]/g, '');
+}
+
+/**
+ * Whether the subject is one of the record's parties: a named individual, licence holder, or firm
+ * named other than as someone's employer. Exact or token-set matches only — a page that merely
+ * mentions the subject (a former employee's firm, a longer name containing it) is not attributed.
+ */
+export function recordNamesSubject(record: HKRegulatoryRecord, names: string[]): boolean {
+  const keys = new Set(names.map(normalise).filter(k => k.length >= 2));
+  // Romanised names are written surname-first or -last, so compare token sets too
+  const tokens = (s: string) => s.toLowerCase().split(/[\s,-]+/).filter(Boolean).sort().join(' ');
+  const nameTokens = new Set(names.map(tokens));
+  const parties = [
+    ...record.individuals,
+    ...record.licences.map(l => l.holder),
+    ...record.firms.filter(f => !record.employers.includes(f)),
+  ];
+  return parties.some(p => keys.has(normalise(p)) || nameTokens.has(tokens(p)));
+}
+
+const SEVERE_ACTIONS: HKActionType[] = ['ban', 'revocation', 'disqualification', 'arrest', 'charge', 'conviction', 'sentence'];
+
+const ACTION_VERBS: Record<HKActionType, string> = {
+  reprimand: 'reprimanded', censure: 'censured', criticism: 'criticised', fine: 'fined', ban: 'banned',
+  suspension: 'suspended', revocation: 'had licence revoked', disqualification: 'disqualified',
+  unsuitability: 'found unsuitable', arrest: 'arrested', charge: 'charged', conviction: 'convicted',
+  sentence: 'sentenced', acquittal: 'acquitted',
+};
+
+function formatHkd(amount: number): string {
+  return amount >= 1e6 && amount % 1e4 === 0
+    ? `HK$${(amount / 1e6).toLocaleString('en-US', { maximumFractionDigits: 2 })} million`
+    : `HK$${amount.toLocaleString('en-US')}`;
+}
+
+/**
+ * Analysis result for a regulator record, in the shape analyzeWithLLM returns, so the analyze
+ * phase handles it like any other article. Licences and CE numbers become profile facts.
+ */
+export function regulatorAnalysis(record: HKRegulatoryRecord, subjectName: string): {
+  isAdverse: boolean;
+  severity: 'RED' | 'AMBER' | 'GREEN';
+  headline: string;
+  summary: string;
+  profileFacts: { field: string; value: string; evidence: string }[];
+  matchConfidence: 'strong' | 'possible';
+  matchReasons: string[];
+} {
+  const regulator = HK_REGULATOR_LABELS[record.source];
+  const profileFacts = record.licences.map(l => ({ field: 'license', value: formatLicence(l), evidence: record.title }));
+  const matchReasons = [`Named in ${regulator} ${record.source === 'sfc_register' ? 'register entry' : 'announcement'}`];
+  if (record.ceNumbers.length > 0) matchReasons.push(`CE number ${record.ceNumbers.join(', ')}`);
+
+  if (record.source === 'sfc_register') {
+    return {
+      isAdverse: false,
+      severity: 'GREEN',
+      headline: `${subjectName}: ${regulator} licence record`,
+      summary: record.licences.map(formatLicence).join('; ') || `${subjectName} appears on the SFC public register.`,
+      profileFacts,
+      matchConfidence: 'strong',
+      matchReasons,
+    };
+  }
+
+  const actions = record.actionTypes.filter(a => a !== 'acquittal' || record.actionTypes.length === 1);
+  const verbs = actions.map(a => ACTION_VERBS[a]);
+  const details = [
+    record.penalty.fineHkd !== null ? `fine of ${formatHkd(record.penalty.fineHkd)}` : '',
+    record.penalty.banPeriod ? `ban ${record.penalty.banPeriod === 'life' ? 'for life' : `of ${record.penalty.banPeriod}`}` : '',
+    record.penalty.sentence ? `sentence: ${record.penalty.sentence}` : '',
+  ].filter(Boolean);
+  const parties = [...record.individuals, ...record.firms].slice(0, 6);
+  const acquitted = actions.length === 1 && actions[0] === 'acquittal';
+
+  return {
+    isAdverse: !acquitted,
+    severity: actions.some(a => SEVERE_ACTIONS.includes(a)) ? 'RED' : 'AMBER',
+    headline: `${regulator}: ${subjectName} ${verbs.slice(0, 3).join(', ')}${record.date ? ` (${record.date})` : ''}`,
+    summary: `${record.date ? `On ${record.date}, the` : 'The'} ${regulator} announced that ${parties.length > 0 ? parties.join(', ') : subjectName} ${verbs.length > 0 ? `${verbs.join(', ')}` : 'subject to regulatory action'}`
+      + `${details.length > 0 ? ` (${details.join('; ')})` : ''}.`
+      + `${record.ceNumbers.length > 0 ? ` SFC CE number(s): ${record.ceNumbers.join(', ')}.` : ''}`,
+    profileFacts,
+    matchConfidence: 'strong',
+    matchReasons,
+  };
+}
+
+export function formatLicence(l: HKLicence): string {
+  const activities = l.regulatedActivities.length > 0 ? `SFC ${l.regulatedActivities.join(', ')}` : 'SFC licence';
+  const parts = [
+    activities,
+    l.role,
+    l.ceNumber ? `CE ${l.ceNumber}` : null,
+    l.principal ? `with ${l.principal}` : null,
+    l.status,
+  ].filter(Boolean);
+  return parts.join(' — ');
+}
+
+/**
+ * Licences from SFC register results already gathered (title/snippet only, no fetch) — added to
+ * the profile when the entry names the subject.
+ */
+export function addRegisterLicences(
+  profile: SubjectProfile,
+  results: { url: string; title: string; snippet: string }[],
+  names: string[],
+): string[] {
+  const added: string[] = [];
+  for (const r of results) {
+    if (hkRegulatorSource(r.url, r.title) !== 'sfc_register') continue;
+    const record = parseHKRegulatorPage(r.url, r.title, r.snippet);
+    if (!record || !recordNamesSubject(record, names)) continue;
+    for (const licence of record.licences) {
+      const value = formatLicence(licence);
+      if (!profile.licenses.includes(value)) {
+        profile.licenses.push(value);
+        added.push(value);
+      }
+    }
+  }
+  return added;
+}
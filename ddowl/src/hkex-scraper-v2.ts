@@ -13,6 +13,7 @@ import { PDFParse } from 'pdf-parse';
 import axios from 'axios';
 import * as fs from 'fs';
 import * as path from 'path';
+import { createHash } from 'crypto';
 import pg from 'pg';
 import { extractChineseNameFromText } from './extract-chinese-names.js';
 import { normalizeBankName } from './bank-normalizer.js';
@@ -22,6 +23,9 @@ const { Pool } = pg;
 // Types
 type Role = 'sponsor' | 'coordinator' | 'bookrunner' | 'leadManager' | 'other';
 
+/** Application status as shown on the HKEX index ('active' when no status is marked) */
+export type ApplicationStatus = 'active' | 'lapsed' | 'withdrawn' | 'rejected' | 'returned' | 'listed';
+
 export interface BankAppointment {
   bank: string;
   roles: Role[];  // Can have multiple roles (e.g., sponsor AND coordinator)
@@ -36,6 +40,7 @@ export interface Application {
   ocPdfUrl: string;
   appId: string;
   board: 'mainBoard' | 'gem';
+  status: ApplicationStatus;
 }
 
 export interface ScrapedDeal {
@@ -46,6 +51,9 @@ export interface ScrapedDeal {
   ocPdfUrl: string;
   appId: string;
   board: 'mainBoard' | 'gem';
+  status: ApplicationStatus;
+  banksExtracted: boolean;  // false when the OC PDF was not parsed, so an empty banks list means nothing
+  ocPdfHash: string | null;  // SHA-256 of the OC PDF when it was downloaded
 }
 
 /**
@@ -147,6 +155,10 @@ async function getApplicationsFromYear(
       const dateMatch = text.match(/Date of First Posting:\s*(\d{2}\/\d{2}\/\d{4})/);
       const filingDate = dateMatch ? dateMatch[1] : '';
 
+      // Inactive and listed applications carry their status on the row
+      const statusMatch = text.match(/\b(Lapsed|Withdrawn|Rejected|Returned|Listed)\b/);
+      const status = statusMatch ? statusMatch[1].toLowerCase() : 'active';
+
       // Find OC announcement PDF link
       const links = row.querySelectorAll('a');
       let ocPdfUrl = '';
@@ -176,6 +188,7 @@ async function getApplicationsFromYear(
           ocPdfUrl,
           appId,
           board: boardParam,
+          status,
         });
       }
     });
@@ -188,11 +201,13 @@ async function getApplicationsFromYear(
 }
 
 /**
- * Download PDF and extract bank data
+ * Download PDF and extract bank data. With knownHash, a PDF whose bytes still match it is only
+ * hashed, not parsed.
  */
-export async function extractBanksFromPdf(page: Page, pdfUrl: string, companyName?: string): Promise<PdfExtractionResult> {
+export async function extractBanksFromPdf(page: Page, pdfUrl: string, companyName?: string, knownHash?: string): Promise<PdfExtractionResult> {
   const banks: BankAppointment[] = [];
   let chineseName: string | null = null;
+  let pdfHash: string | undefined;
 
   try {
     // Fetch PDF using page context (with session cookies)
@@ -225,6 +240,10 @@ export async function extractBanksFromPdf(page: Page, pdfUrl: string, companyNam
       console.log(`    Not a valid PDF`);
       return { banks: [], chineseName: null };
     }
+    pdfHash = hashPdf(buffer);
+    if (pdfHash === knownHash) {
+      return { banks: [], chineseName: null, pdfHash, unchanged: true };
+    }
 
     // Parse PDF (with CMap for CJK font decoding)
     const uint8Array = new Uint8Array(buffer);
@@ -353,15 +372,22 @@ export async function extractBanksFromPdf(page: Page, pdfUrl: string, companyNam
 
   } catch (err) {
     console.log(`    PDF parse error: ${err}`);
-    return { banks: [], chineseName: null };
+    return { banks: [], chineseName: null, pdfHash };
   }
 
-  return { banks, chineseName };
+  return { banks, chineseName, pdfHash };
 }
 
 export interface PdfExtractionResult {
   banks: BankAppointment[];
   chineseName: string | null;
+  pdfHash?: string;  // set whenever a valid PDF was downloaded, even if parsing failed
+  unchanged?: boolean;  // the PDF matched the known hash, so it was not parsed
+}
+
+/** SHA-256 of an OC PDF, stored as oc_announcements.pdf_hash to spot replaced documents */
+export function hashPdf(buffer: Buffer): string {
+  return createHash('sha256').update(buffer).digest('hex');
 }
 
 /**
@@ -393,7 +419,7 @@ export async function extractBanksFromPdfUrl(pdfUrl: string, companyName?: strin
     const firstPagesText = result.pages.slice(0, 3).map(p => p.text).join('\n');
     const chineseName = extractChineseNameFromText(firstPagesText);
 
-    return { banks, chineseName };
+    return { banks, chineseName, pdfHash: hashPdf(buffer) };
   } catch (err) {
     console.log(`    PDF download/parse error: ${err}`);
     return { banks: [], chineseName: null };
@@ -525,12 +551,14 @@ export async function scrapeAllApplications(options: {
   boards?: ('mainBoard' | 'gem')[];
   limit?: number;
   extractBanks?: boolean;
+  knownPdfHashes?: Map<string, string>;  // OC PDF URL → hash of the copy already parsed; re-parsed only if its bytes changed
 } = {}): Promise<ScrapedDeal[]> {
   const {
     years = [new Date().getFullYear(), new Date().getFullYear() - 1],
     boards = ['mainBoard'],
     limit = 0,
     extractBanks = true,
+    knownPdfHashes,
   } = options;
 
   const b = await getBrowser();
@@ -576,12 +604,20 @@ export async function scrapeAllApplications(options: {
 
     let banks: BankAppointment[] = [];
     let pdfChineseName: string | null = null;
+    let ocPdfHash: string | null = null;
+    let banksExtracted = false;
 
     if (extractBanks && app.ocPdfUrl) {
-      const pdfResult = await extractBanksFromPdf(page, app.ocPdfUrl, app.company);
-      banks = pdfResult.banks;
-      pdfChineseName = pdfResult.chineseName;
-      console.log(`    Banks: ${banks.length}`);
+      const knownHash = knownPdfHashes?.get(app.ocPdfUrl);
+      const pdfResult = await extractBanksFromPdf(page, app.ocPdfUrl, app.company, knownHash);
+      ocPdfHash = pdfResult.pdfHash || null;
+      // A known OC that could not be downloaded keeps the banks already parsed from it
+      banksExtracted = !pdfResult.unchanged && (!knownHash || !!ocPdfHash);
+      if (banksExtracted) {
+        banks = pdfResult.banks;
+        pdfChineseName = pdfResult.chineseName;
+        console.log(`    Banks: ${banks.length}`);
+      }
     }
 
     deals.push({
@@ -592,6 +628,9 @@ export async function scrapeAllApplications(options: {
       ocPdfUrl: app.ocPdfUrl,
       appId: app.appId,
       board: app.board as 'mainBoard' | 'gem',
+      status: app.status,
+      banksExtracted,
+      ocPdfHash,
     });
 
     // Small delay to be nice to HKEX
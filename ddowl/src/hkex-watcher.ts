@@ -0,0 +1,474 @@
+/**
+ * Incremental HKEX application watcher
+ *
+ * Compares each run of the HKEX application index against what the tracker already holds —
+ * the deal's hkex_app_id, status and sponsors, and the OC PDFs it has seen (by URL and
+ * oc_announcements.pdf_hash) — and records what changed in deal_events: new filings, refilings
+ * after a lapse, new or replaced OC announcements, sponsor changes, withdrawals, lapses and
+ * listings. OC PDFs already hashed are downloaded and hashed again, but only parsed again when
+ * their bytes changed. Listings and lapses dated before the watcher started (all of them on the
+ * first run) are recorded as backfill: kept in each deal's history, left out of the recent feed.
+ */
+
+import { pool } from './db/index.js';
+import { normalizeBankName } from './bank-normalizer.js';
+import { applyOcAppointments } from './appointment-changes.js';
+import type { ApplicationStatus, BankAppointment, ScrapedDeal } from './hkex-scraper-v2.js';
+
+export type DealEventType =
+  | 'new_filing' | 'refiling'
+  | 'oc_new' | 'oc_replaced' | 'sponsor_change'
+  | 'lapsed' | 'withdrawn' | 'rejected' | 'returned' | 'listed';
+
+export const DEAL_EVENT_TYPES: DealEventType[] = [
+  'new_filing', 'refiling', 'oc_new', 'oc_replaced', 'sponsor_change',
+  'lapsed', 'withdrawn', 'rejected', 'returned', 'listed',
+];
+
+type DealStatus = 'active' | 'listed' | 'withdrawn' | 'lapsed' | 'rejected';
+
+// deal_status has no 'returned'; a returned application is closed like a rejected one
+const DEAL_STATUS: Record<ApplicationStatus, DealStatus> = {
+  active: 'active',
+  lapsed: 'lapsed',
+  withdrawn: 'withdrawn',
+  rejected: 'rejected',
+  returned: 'rejected',
+  listed: 'listed',
+};
+
+// An application lapses six months after filing unless the company lists (Listing Rule 9.03)
+const LAPSE_MONTHS = 6;
+
+// Session advisory lock held for a whole run, so the API and the cron script never overlap
+const WATCH_LOCK_KEY = 0x686b6578;  // 'hkex'
+
+/** What the tracker holds for a company's current deal */
+export interface KnownDeal {
+  dealId: number;
+  status: DealStatus;
+  hkexAppId: string | null;
+  filingDate: string | null;                    // YYYY-MM-DD
+  ocs: { url: string; hash: string | null }[];  // Newest first
+  sponsors: string[];                           // Canonical names of current sponsors
+}
+
+/** An event found by the diff, before it is tied to a deal row */
+export interface DealEventDraft {
+  type: DealEventType;
+  eventDate: string | null;  // When it happened, if known (YYYY-MM-DD)
+  detail: Record<string, unknown>;
+  sourceUrl: string | null;
+}
+
+export interface DealEventRow {
+  id: number;
+  deal_id: number;
+  event_type: DealEventType;
+  event_date: string | null;
+  detail: Record<string, unknown>;
+  source_url: string | null;
+  detected_at: string;
+}
+
+export interface WatchSummary {
+  applications: number;
+  newDeals: number;
+  events: Partial<Record<DealEventType, number>>;
+}
+
+/** HKEX index date (DD/MM/YYYY) as YYYY-MM-DD */
+export function parseHkexDate(date: string): string | null {
+  const match = date.match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
+  return match ? `${match[3]}-${match[2]}-${match[1]}` : null;
+}
+
+/** The date an application filed on filingDate (YYYY-MM-DD) lapses */
+export function lapseDate(filingDate: string): string {
+  const date = new Date(`${filingDate}T00:00:00Z`);
+  const day = date.getUTCDate();
+  date.setUTCMonth(date.getUTCMonth() + LAPSE_MONTHS);
+  // A filing on the 31st lapses at the end of a shorter month, not early in the next
+  if (date.getUTCDate() !== day) date.setUTCDate(0);
+  return date.toISOString().slice(0, 10);
+}
+
+/** Canonical names of the sponsors in an OC's bank list, sorted */
+export function sponsorNames(banks: BankAppointment[]): string[] {
+  const names = banks
+    .filter(b => b.roles.includes('sponsor'))
+    .map(b => normalizeBankName(b.bank).canonical);
+  return [...new Set(names)].sort();
+}
+
+function sponsorChange(before: string[], after: string[], eventDate: string | null, sourceUrl: string | null): DealEventDraft | null {
+  const added = after.filter(s => !before.includes(s));
+  const removed = before.filter(s => !after.includes(s));
+  if (added.length === 0 && removed.length === 0) return null;
+  return { type: 'sponsor_change', eventDate, detail: { added, removed, sponsors: after }, sourceUrl };
+}
+
+/**
+ * Events between what the tracker knows about a company and its row on the HKEX index.
+ * known is null when the company has no deal yet. A different application ID (or, for deals
+ * stored without one, a later filing after the deal closed) is a new application: a refiling,
+ * or a new filing when the earlier deal listed. Sponsors are only compared when the OC was
+ * parsed and named banks, so an unparsed or unreadable PDF never reads as every sponsor resigning.
+ */
+export function diffApplication(known: KnownDeal | null, app: ScrapedDeal): DealEventDraft[] {
+  const filingDate = parseHkexDate(app.filingDate);
+  const ocUrl = app.ocPdfUrl || null;
+  const sponsors = app.banksExtracted && app.banks.length > 0 ? sponsorNames(app.banks) : null;
+  const status = DEAL_STATUS[app.status];
+  const statusEvent: DealEventDraft | null = app.status === 'active'
+    ? null
+    : { type: app.status, eventDate: null, detail: { appId: app.appId, hkexStatus: app.status }, sourceUrl: null };
+
+  const newApplication = !!known && (known.hkexAppId
+    ? !!app.appId && app.appId !== known.hkexAppId
+    : known.status !== 'active' && !!filingDate && (!known.filingDate || filingDate > known.filingDate));
+
+  // An older application of the same company (the index keeps every year's filings)
+  if (newApplication && filingDate && known!.filingDate && filingDate < known!.filingDate) return [];
+
+  if (!known || (newApplication && known.status === 'listed')) {
+    const events: DealEventDraft[] = [{
+      type: 'new_filing',
+      eventDate: filingDate,
+      detail: { appId: app.appId, board: app.board, sponsors: sponsors || [] },
+      sourceUrl: ocUrl,
+    }];
+    if (statusEvent) events.push(statusEvent);
+    return events;
+  }
+
+  if (newApplication) {
+    const events: DealEventDraft[] = [{
+      type: 'refiling',
+      eventDate: filingDate,
+      detail: {
+        appId: app.appId,
+        previousAppId: known.hkexAppId,
+        previousFilingDate: known.filingDate,
+        previousStatus: known.status,
+        sponsors: sponsors || [],
+      },
+      sourceUrl: ocUrl,
+    }];
+    const change = sponsors && known.sponsors.length > 0 ? sponsorChange(known.sponsors, sponsors, filingDate, ocUrl) : null;
+    if (change) events.push(change);
+    if (statusEvent) events.push(statusEvent);
+    return events;
+  }
+
+  const events: DealEventDraft[] = [];
+  if (statusEvent && status !== known.status) events.push(statusEvent);
+
+  if (ocUrl) {
+    const seen = known.ocs.find(o => o.url === ocUrl);
+    if (seen) {
+      // Same URL, different bytes: the PDF was replaced in place (an unhashed row is just backfilled)
+      if (seen.hash && app.ocPdfHash && seen.hash !== app.ocPdfHash) {
+        events.push({ type: 'oc_replaced', eventDate: null, detail: { previousHash: seen.hash, hash: app.ocPdfHash }, sourceUrl: ocUrl });
+      }
+    } else if (known.ocs.length > 0) {
+      events.push({ type: 'oc_replaced', eventDate: null, detail: { previousUrl: known.ocs[0].url, hash: app.ocPdfHash }, sourceUrl: ocUrl });
+    } else {
+      events.push({ type: 'oc_new', eventDate: null, detail: { hash: app.ocPdfHash }, sourceUrl: ocUrl });
+    }
+  }
+
+  if (sponsors && known.sponsors.length > 0) {
+    const change = sponsorChange(known.sponsors, sponsors, null, ocUrl);
+    if (change) events.push(change);
+  }
+
+  return events;
+}
+
+// --- Database ---
+
+/** Each company's current deal, keyed by lowercased English name (the scraper's dedup key) */
+export async function loadKnownDeals(): Promise<Map<string, KnownDeal>> {
+  const dealsResult = await pool.query(`
+    SELECT DISTINCT ON (c.id)
+      c.name_en, d.id, d.status, d.hkex_app_id,
+      TO_CHAR(d.filing_date, 'YYYY-MM-DD') AS filing_date
+    FROM deals d
+    JOIN companies c ON c.id = d.company_id
+    ORDER BY c.id, (d.status = 'active') DESC, d.filing_date DESC NULLS LAST, d.id DESC
+  `);
+  const ocResult = await pool.query(`
+    SELECT deal_id, pdf_url, pdf_hash FROM oc_announcements
+    WHERE deal_id IS NOT NULL
+    ORDER BY created_at DESC, id DESC
+  `);
+  const sponsorResult = await pool.query(`
+    SELECT da.deal_id, b.name
+    FROM deal_appointments da
+    JOIN banks b ON b.id = da.bank_id
+    WHERE 'sponsor' = ANY(da.roles) AND da.terminated_date IS NULL
+  `);
+
+  const byId = new Map<number, KnownDeal>();
+  const byName = new Map<string, KnownDeal>();
+  for (const row of dealsResult.rows) {
+    const known: KnownDeal = {
+      dealId: row.id,
+      status: row.status,
+      hkexAppId: row.hkex_app_id,
+      filingDate: row.filing_date,
+      ocs: [],
+      sponsors: [],
+    };
+    byId.set(row.id, known);
+    byName.set(row.name_en.toLowerCase(), known);
+  }
+  for (const row of ocResult.rows) {
+    byId.get(row.deal_id)?.ocs.push({ url: row.pdf_url, hash: row.pdf_hash });
+  }
+  for (const row of sponsorResult.rows) {
+    const known = byId.get(row.deal_id);
+    const name = normalizeBankName(row.name).canonical;
+    if (known && !known.sponsors.includes(name)) known.sponsors.push(name);
+  }
+  for (const known of byId.values()) known.sponsors.sort();
+
+  return byName;
+}
+
+export async function recordDealEvents(dealId: number, events: DealEventDraft[]): Promise<void> {
+  for (const event of events) {
+    await pool.query(`
+      INSERT INTO deal_events (deal_id, event_type, event_date, detail, source_url)
+      VALUES ($1, $2, $3, $4, $5)
+    `, [dealId, event.type, event.eventDate, JSON.stringify(event.detail), event.sourceUrl]);
+  }
+}
+
+/** A deal's event history, newest first */
+export async function listDealEvents(dealId: number): Promise<DealEventRow[]> {
+  const result = await pool.query(`
+    SELECT id, deal_id, event_type, TO_CHAR(event_date, 'YYYY-MM-DD') AS event_date, detail, source_url, detected_at
+    FROM deal_events
+    WHERE deal_id = $1
+    ORDER BY COALESCE(event_date, detected_at::date) DESC, id DESC
+  `, [dealId]);
+  return result.rows;
+}
+
+/** Events detected since a date across all deals, newest first, with the company they concern */
+export async function listRecentEvents(since: string, types?: DealEventType[]): Promise<(DealEventRow & {
+  company_name: string;
+  company_name_cn: string | null;
+  deal_status: DealStatus;
+})[]> {
+  const params: any[] = [since];
+  let query = `
+    SELECT
+      e.id, e.deal_id, e.event_type, TO_CHAR(e.event_date, 'YYYY-MM-DD') AS event_date,
+      e.detail, e.source_url, e.detected_at,
+      c.name_en AS company_name, c.name_cn AS company_name_cn, d.status AS deal_status
+    FROM deal_events e
+    JOIN deals d ON d.id = e.deal_id
+    JOIN companies c ON c.id = d.company_id
+    WHERE e.detected_at >= $1
+      AND COALESCE(e.detail->>'backfill', 'false') <> 'true'
+  `;
+  if (types && types.length > 0) {
+    params.push(types);
+    query += ` AND e.event_type = ANY($${params.length})`;
+  }
+  query += ' ORDER BY e.detected_at DESC, e.id DESC LIMIT 500';
+
+  const result = await pool.query(query, params);
+  return result.rows;
+}
+
+/** Write a scraped application and its events; returns the deal ID */
+async function saveApplication(app: ScrapedDeal, known: KnownDeal | null, events: DealEventDraft[]): Promise<number> {
+  const filingDate = parseHkexDate(app.filingDate);
+  const status = DEAL_STATUS[app.status];
+  let dealId: number;
+
+  if (events[0]?.type === 'new_filing') {
+    const companyResult = await pool.query(`
+      INSERT INTO companies (name_en, name_cn)
+      VALUES ($1, $2)
+      ON CONFLICT (name_en) DO UPDATE SET
+        name_cn = COALESCE(companies.name_cn, EXCLUDED.name_cn),
+        updated_at = NOW()
+      RETURNING id
+    `, [app.company, app.companyCn]);
+    const dealResult = await pool.query(`
+      INSERT INTO deals (company_id, status, filing_date, hkex_app_id, board)
+      VALUES ($1, $2, $3, $4, $5)
+      ON CONFLICT (company_id) WHERE status = 'active' DO UPDATE SET updated_at = NOW()
+      RETURNING id
+    `, [companyResult.rows[0].id, status, filingDate, app.appId, app.board]);
+    dealId = dealResult.rows[0].id;
+  } else if (events[0]?.type === 'refiling') {
+    dealId = known!.dealId;
+    await pool.query(`
+      UPDATE deals SET status = $2, filing_date = $3, hkex_app_id = $4, board = $5, withdrawn_date = NULL, updated_at = NOW()
+      WHERE id = $1
+    `, [dealId, status, filingDate, app.appId, app.board]);
+  } else {
+    dealId = known!.dealId;
+    // An application still shown as active keeps whatever status the tracker inferred
+    await pool.query(`
+      UPDATE deals SET
+        status = CASE WHEN $2 = 'active' THEN status ELSE $2::deal_status END,
+        withdrawn_date = CASE WHEN $2 = 'withdrawn' THEN COALESCE(withdrawn_date, CURRENT_DATE) ELSE withdrawn_date END,
+        hkex_app_id = COALESCE(hkex_app_id, $3),
+        filing_date = COALESCE(filing_date, $4),
+        updated_at = NOW()
+      WHERE id = $1
+    `, [dealId, status, app.appId || null, filingDate]);
+  }
+
+  const newApplication = events[0]?.type === 'new_filing' || events[0]?.type === 'refiling';
+  // The parsed bank list is kept on the OC row, so each version's appointments stay on record
+  const parsedData = app.banksExtracted ? JSON.stringify({ banks: app.banks }) : null;
+
+  if (app.ocPdfUrl) {
+    const seen = newApplication ? undefined : known?.ocs.find(o => o.url === app.ocPdfUrl);
+    if (seen) {
+      await pool.query(`
+        UPDATE oc_announcements SET
+          pdf_hash = COALESCE($3, pdf_hash),
+          parsed_data = COALESCE($4, parsed_data),
+          parsed_at = CASE WHEN $4 IS NULL THEN parsed_at ELSE NOW() END
+        WHERE deal_id = $1 AND pdf_url = $2
+      `, [dealId, app.ocPdfUrl, app.ocPdfHash, parsedData]);
+    } else {
+      await pool.query(`
+        INSERT INTO oc_announcements (deal_id, announcement_date, pdf_url, pdf_hash, parsed_data, parsed_at)
+        VALUES ($1, $2, $3, $4, $5, CASE WHEN $5 IS NULL THEN NULL ELSE NOW() END)
+      `, [dealId, filingDate, app.ocPdfUrl, app.ocPdfHash, parsedData]);
+    }
+  }
+
+  // A revised OC takes effect when it is seen; a new application's banks date from its filing
+  if (app.banksExtracted) {
+    await applyOcAppointments(dealId, app.banks, { url: app.ocPdfUrl || null, effectiveDate: newApplication ? filingDate : null });
+  }
+  await recordDealEvents(dealId, events);
+  return dealId;
+}
+
+/** Date of the first event the watcher recorded (YYYY-MM-DD), or null before its first run */
+async function watchingSince(): Promise<string | null> {
+  const result = await pool.query("SELECT TO_CHAR(MIN(detected_at), 'YYYY-MM-DD') AS since FROM deal_events");
+  return result.rows[0]?.since ?? null;
+}
+
+/**
+ * Listings recorded since the last run (listed-import sets listing_date, and not always the
+ * status) and active applications past their lapse date. Returns the events recorded.
+ * Those dated before `since` happened before the watcher was running and are marked as backfill.
+ */
+async function reconcileLifecycle(today: string, since: string | null): Promise<DealEventType[]> {
+  const recorded: DealEventType[] = [];
+  const backfill = (date: string | null) => !since || (!!date && date < since);
+
+  const listed = await pool.query(`
+    SELECT d.id, TO_CHAR(d.listing_date, 'YYYY-MM-DD') AS listing_date, d.prospectus_url
+    FROM deals d
+    WHERE d.listing_date IS NOT NULL AND d.hkex_app_id IS NOT NULL
+      AND NOT EXISTS (SELECT 1 FROM deal_events e WHERE e.deal_id = d.id AND e.event_type = 'listed')
+  `);
+  for (const row of listed.rows) {
+    await pool.query("UPDATE deals SET status = 'listed', updated_at = NOW() WHERE id = $1", [row.id]);
+    await recordDealEvents(row.id, [{
+      type: 'listed',
+      eventDate: row.listing_date,
+      detail: backfill(row.listing_date) ? { backfill: true } : {},
+      sourceUrl: row.prospectus_url,
+    }]);
+    recorded.push('listed');
+  }
+
+  const active = await pool.query(`
+    SELECT id, hkex_app_id, TO_CHAR(filing_date, 'YYYY-MM-DD') AS filing_date
+    FROM deals
+    WHERE status = 'active' AND listing_date IS NULL AND filing_date IS NOT NULL
+  `);
+  for (const row of active.rows) {
+    const lapsedOn = lapseDate(row.filing_date);
+    if (lapsedOn > today) continue;
+    await pool.query("UPDATE deals SET status = 'lapsed', updated_at = NOW() WHERE id = $1", [row.id]);
+    await recordDealEvents(row.id, [{
+      type: 'lapsed',
+      eventDate: lapsedOn,
+      detail: { appId: row.hkex_app_id, inferred: true, ...(backfill(lapsedOn) ? { backfill: true } : {}) },
+      sourceUrl: null,
+    }]);
+    recorded.push('lapsed');
+  }
+
+  return recorded;
+}
+
+/**
+ * One watch run: scrape the index for the given years (OC PDFs already hashed are re-hashed but
+ * not re-parsed unless they changed), diff each application against the tracker, save it, then
+ * reconcile listings and lapses. Throws if another run holds the watch lock.
+ */
+export async function runHkexWatch(options: { years?: number[] } = {}): Promise<WatchSummary> {
+  const lock = await pool.connect();
+  try {
+    const { rows: [{ locked }] } = await lock.query('SELECT pg_try_advisory_lock($1) AS locked', [WATCH_LOCK_KEY]);
+    if (!locked) throw new Error('An HKEX watch is already running');
+    try {
+      return await watchOnce(options);
+    } finally {
+      await lock.query('SELECT pg_advisory_unlock($1)', [WATCH_LOCK_KEY]);
+    }
+  } finally {
+    lock.release();
+  }
+}
+
+async function watchOnce(options: { years?: number[] }): Promise<WatchSummary> {
+  const { scrapeAllApplications, closeBrowser } = await import('./hkex-scraper-v2.js');
+  const currentYear = new Date().getFullYear();
+  const today = new Date().toISOString().slice(0, 10);
+
+  const since = await watchingSince();
+  const knownDeals = await loadKnownDeals();
+  const knownPdfHashes = new Map<string, string>();
+  for (const known of knownDeals.values()) {
+    for (const oc of known.ocs) if (oc.hash) knownPdfHashes.set(oc.url, oc.hash);
+  }
+
+  const summary: WatchSummary = { applications: 0, newDeals: 0, events: {} };
+  const count = (type: DealEventType) => { summary.events[type] = (summary.events[type] || 0) + 1; };
+
+  try {
+    const apps = await scrapeAllApplications({
+      years: options.years || [currentYear, currentYear - 1],
+      extractBanks: true,
+      knownPdfHashes,
+    });
+    summary.applications = apps.length;
+
+    for (const app of apps) {
+      const known = knownDeals.get(app.company.toLowerCase()) || null;
+      const events = diffApplication(known, app);
+      const sameApplication = !!known && (!known.hkexAppId || app.appId === known.hkexAppId);
+      // Nothing to record, and nothing to store unless this application's OC was parsed for the first time
+      if (events.length === 0 && !(sameApplication && app.banksExtracted)) continue;
+
+      await saveApplication(app, known, events);
+      if (events[0]?.type === 'new_filing') summary.newDeals++;
+      events.forEach(e => count(e.type));
+    }
+
+    (await reconcileLifecycle(today, since)).forEach(count);
+  } finally {
+    await closeBrowser();
+  }
+
+  return summary;
+}
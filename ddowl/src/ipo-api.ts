@@ -7,6 +7,14 @@
 import { Router, Request, Response } from 'express';
 import { pool } from './db/index.js';
 import { normalizeBankName } from './bank-normalizer.js';
+import {
+  buildLeagueTable, buildLeagueTableWorkbook, fetchLeagueAppointments, LEAGUE_ROLES,
+  type LeagueRole, type LeagueTableFilters,
+} from './league-tables.js';
+import { applyOcAppointments, listBankMovements, listDealMovements } from './appointment-changes.js';
+import { DEAL_EVENT_TYPES, listDealEvents, listRecentEvents, runHkexWatch, type DealEventType } from './hkex-watcher.js';
+import { extractDealProspectus, getDealProspectus } from './prospectus-db.js';
+import { listDealScreenings, screenDeal, summarizeDealRisk } from './deal-screening.js';
 
 export const ipoRouter = Router();
 
@@ -71,7 +79,7 @@ ipoRouter.get('/deals', async (req: Request, res: Response) => {
         (SELECT oc.pdf_url FROM oc_announcements oc WHERE oc.deal_id = d.id ORDER BY oc.announcement_date DESC LIMIT 1) as oc_pdf_url
       FROM deals d
       JOIN companies c ON c.id = d.company_id
-      LEFT JOIN deal_appointments da ON da.deal_id = d.id
+      LEFT JOIN deal_appointments da ON da.deal_id = d.id AND da.terminated_date IS NULL
       LEFT JOIN banks b ON b.id = da.bank_id
       WHERE 1=1
     `;
@@ -96,7 +104,7 @@ ipoRouter.get('/deals', async (req: Request, res: Response) => {
     }
 
     if (bank_id) {
-      query += ` AND EXISTS (SELECT 1 FROM deal_appointments WHERE deal_id = d.id AND bank_id = $${paramIndex++})`;
+      query += ` AND EXISTS (SELECT 1 FROM deal_appointments WHERE deal_id = d.id AND bank_id = $${paramIndex++} AND terminated_date IS NULL)`;
       params.push(bank_id);
     }
 
@@ -177,10 +185,15 @@ ipoRouter.get('/deals/:id', async (req: Request, res: Response) => {
       ORDER BY announcement_date DESC
     `, [id]);
 
+    const events = await listDealEvents(parseInt(id));
+    const bankMovements = await listDealMovements(parseInt(id));
+
     res.json({
       deal: dealResult.rows[0],
       appointments: appointmentsResult.rows,
       announcements: announcementsResult.rows,
+      events,
+      bankMovements,
     });
   } catch (err) {
     console.error('Deal detail error:', err);
@@ -188,6 +201,125 @@ ipoRouter.get('/deals/:id', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/ipo/deals/:id/prospectus
+ * Directors, management, controlling shareholders, cornerstone investors, advisers, use of
+ * proceeds and risk factors extracted from the deal's prospectus
+ */
+ipoRouter.get('/deals/:id/prospectus', async (req: Request, res: Response) => {
+  try {
+    const prospectus = await getDealProspectus(parseInt(req.params.id));
+    if (!prospectus) {
+      res.status(404).json({ error: 'Prospectus not extracted for this deal' });
+      return;
+    }
+    res.json(prospectus);
+  } catch (err) {
+    console.error('Deal prospectus error:', err);
+    res.status(500).json({ error: 'Failed to fetch prospectus sections' });
+  }
+});
+
+/**
+ * POST /api/ipo/deals/:id/prospectus
+ * Extract the sections of the deal's prospectus, replacing any earlier extraction.
+ * Body { url } parses another document instead, e.g. the Application Proof of an active deal.
+ */
+ipoRouter.post('/deals/:id/prospectus', async (req: Request, res: Response) => {
+  const dealId = parseInt(req.params.id);
+
+  try {
+    const dealResult = await pool.query('SELECT prospectus_url FROM deals WHERE id = $1', [dealId]);
+    if (dealResult.rows.length === 0) {
+      res.status(404).json({ error: 'Deal not found' });
+      return;
+    }
+    const url: string | null = req.body?.url || dealResult.rows[0].prospectus_url;
+    if (!url) {
+      res.status(400).json({ error: 'Deal has no prospectus URL; pass one as url' });
+      return;
+    }
+
+    const sections = await extractDealProspectus(dealId, url);
+    res.json({
+      sourceUrl: url,
+      sectionsFound: sections.sectionsFound,
+      parties: sections.parties.length,
+      useOfProceeds: sections.useOfProceeds.length,
+      riskFactors: sections.riskFactors.length,
+    });
+  } catch (err) {
+    console.error('Prospectus extraction error:', err);
+    res.status(500).json({ error: 'Failed to extract prospectus sections' });
+  }
+});
+
+/**
+ * POST /api/ipo/deals/:id/screen
+ * Screen everyone in the IPO: the company (EN and CN names) and, if the prospectus has been
+ * extracted, its directors and controlling shareholders, as one screening batch
+ */
+ipoRouter.post('/deals/:id/screen', async (req: Request, res: Response) => {
+  const dealId = parseInt(req.params.id);
+
+  try {
+    const exists = await pool.query('SELECT 1 FROM deals WHERE id = $1', [dealId]);
+    if (exists.rows.length === 0) {
+      res.status(404).json({ error: 'Deal not found' });
+      return;
+    }
+
+    const { batchId, subjects } = await screenDeal(dealId, { concurrency: req.body?.concurrency });
+    res.json({ batchId, subjects });
+  } catch (err) {
+    console.error('Deal screening error:', err);
+    res.status(500).json({ error: 'Failed to start deal screening' });
+  }
+});
+
+/**
+ * GET /api/ipo/deals/:id/risk
+ * Deal risk dashboard: each subject's latest screening and report, with the deal's overall level
+ */
+ipoRouter.get('/deals/:id/risk', async (req: Request, res: Response) => {
+  try {
+    const screenings = await listDealScreenings(parseInt(req.params.id));
+    res.json({ summary: summarizeDealRisk(screenings), screenings });
+  } catch (err) {
+    console.error('Deal risk error:', err);
+    res.status(500).json({ error: 'Failed to fetch deal risk' });
+  }
+});
+
+/**
+ * GET /api/ipo/events
+ * What changed: deal events detected by the HKEX watcher over the last `days` (default 7, max 365),
+ * optionally limited to comma-separated event types. Backfilled history is left out.
+ */
+ipoRouter.get('/events', async (req: Request, res: Response) => {
+  const days = req.query.days ? parseInt(req.query.days as string) : 7;
+  const types = req.query.type ? (req.query.type as string).split(',') : [];
+
+  if (isNaN(days) || days < 1 || days > 365) {
+    res.status(400).json({ error: 'days must be between 1 and 365' });
+    return;
+  }
+  const unknown = types.filter(t => !DEAL_EVENT_TYPES.includes(t as DealEventType));
+  if (unknown.length > 0) {
+    res.status(400).json({ error: `Unknown event type: ${unknown.join(', ')}` });
+    return;
+  }
+
+  try {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+    const events = await listRecentEvents(since, types as DealEventType[]);
+    res.json({ since, events });
+  } catch (err) {
+    console.error('Deal events error:', err);
+    res.status(500).json({ error: 'Failed to fetch deal events' });
+  }
+});
+
 /**
  * GET /api/ipo/banks
  * Returns all banks with deal statistics
@@ -230,6 +362,7 @@ ipoRouter.get('/banks/:id', async (req: Request, res: Response) => {
         da.roles,
         da.is_lead,
         da.appointed_date,
+        da.terminated_date,
         d.id as deal_id,
         d.status,
         d.board,
@@ -243,9 +376,12 @@ ipoRouter.get('/banks/:id', async (req: Request, res: Response) => {
       ORDER BY d.filing_date DESC
     `, [id]);
 
+    const movements = await listBankMovements(parseInt(id));
+
     res.json({
       bank: bankResult.rows[0],
       deals: dealsResult.rows,
+      movements,
     });
   } catch (err) {
     console.error('Bank detail error:', err);
@@ -298,6 +434,79 @@ ipoRouter.get('/stats', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/ipo/league-tables
+ * Bank rankings by deal count or apportioned size, with year-over-year rank movement.
+ * Query: role (all|sponsor|coordinator|bookrunner), apportion (equal|weighted), rank_by (deals|size),
+ * from/to (YYYY-MM-DD, default year to date), board, sector (GICS name or code), status (listed|active),
+ * format=xlsx for an Excel workbook (every role view as its own sheet unless role is given)
+ */
+ipoRouter.get('/league-tables', async (req: Request, res: Response) => {
+  const { role, apportion = 'equal', rank_by = 'deals', from, to, board, sector, status, format } = req.query;
+  // A real calendar day: 2024-02-30 rolls over to March, 2024-13-45 is no date at all
+  const isDate = (v: unknown) => typeof v === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(v)
+    && !isNaN(Date.parse(v)) && new Date(v).toISOString().slice(0, 10) === v;
+
+  if (role && !LEAGUE_ROLES.includes(role as LeagueRole)) {
+    res.status(400).json({ error: `role must be one of ${LEAGUE_ROLES.join(', ')}` });
+    return;
+  }
+  if (apportion !== 'equal' && apportion !== 'weighted') {
+    res.status(400).json({ error: 'apportion must be equal or weighted' });
+    return;
+  }
+  if (rank_by !== 'deals' && rank_by !== 'size') {
+    res.status(400).json({ error: 'rank_by must be deals or size' });
+    return;
+  }
+  if ((from && !isDate(from)) || (to && !isDate(to))) {
+    res.status(400).json({ error: 'from and to must be YYYY-MM-DD' });
+    return;
+  }
+  if (board && board !== 'mainBoard' && board !== 'gem') {
+    res.status(400).json({ error: 'board must be mainBoard or gem' });
+    return;
+  }
+  if (status && status !== 'listed' && status !== 'active') {
+    res.status(400).json({ error: 'status must be listed or active' });
+    return;
+  }
+
+  const today = new Date().toISOString().slice(0, 10);
+  const base: Omit<LeagueTableFilters, 'role'> = {
+    apportion,
+    rankBy: rank_by,
+    from: (from as string) || `${today.slice(0, 4)}-01-01`,
+    to: (to as string) || today,
+    board: (board as LeagueTableFilters['board']) || undefined,
+    sector: (sector as string) || undefined,
+    status: (status as LeagueTableFilters['status']) || undefined,
+  };
+  if (base.from > base.to) {
+    res.status(400).json({ error: `from (${base.from}) must not be after to (${base.to})` });
+    return;
+  }
+
+  try {
+    const roles: LeagueRole[] = role ? [role as LeagueRole] : (format === 'xlsx' ? LEAGUE_ROLES : ['all']);
+    // Role views only change which appointments count, so one fetch serves every sheet
+    const appointments = await fetchLeagueAppointments({ ...base, role: roles[0] });
+    const tables = roles.map(r => buildLeagueTable(appointments, { ...base, role: r }));
+
+    if (format === 'xlsx') {
+      const buffer = await buildLeagueTableWorkbook(tables);
+      res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+      res.setHeader('Content-Disposition', `attachment; filename="hk-ipo-league-tables-${base.from}-${base.to}.xlsx"`);
+      res.send(buffer);
+      return;
+    }
+    res.json(tables[0]);
+  } catch (err) {
+    console.error('League tables error:', err);
+    res.status(500).json({ error: 'Failed to build league tables' });
+  }
+});
+
 /**
  * POST /api/ipo/scrape
  * Triggers a new scrape run (manual trigger)
@@ -518,6 +727,7 @@ ipoRouter.post('/scrape-oc', async (req: Request, res: Response) => {
           // Re-activate lapsed deal if one exists, otherwise upsert
           let dealId: number;
           let inserted = false;
+          let refiled = false;
 
           const reactivated = await pool.query(`
             UPDATE deals SET status = 'active', filing_date = $2, hkex_app_id = $3, board = $4, updated_at = NOW()
@@ -527,6 +737,7 @@ ipoRouter.post('/scrape-oc', async (req: Request, res: Response) => {
 
           if (reactivated.rows.length > 0) {
             dealId = reactivated.rows[0].id;
+            refiled = true;
             newDeals++;
           } else {
             const dealResult = await pool.query(`
@@ -554,26 +765,12 @@ ipoRouter.post('/scrape-oc', async (req: Request, res: Response) => {
             `, [dealId, filingDate, deal.ocPdfUrl]);
           }
 
-          // Insert bank appointments
-          for (const bank of deal.banks) {
-            const { canonical: shortName } = normalizeBankName(bank.bank);
-            const bankResult = await pool.query(`
-              INSERT INTO banks (name, short_name)
-              VALUES ($1, $2)
-              ON CONFLICT (name) DO UPDATE SET short_name = COALESCE(banks.short_name, EXCLUDED.short_name), updated_at = NOW()
-              RETURNING id
-            `, [bank.bank, shortName]);
-            const bankId = bankResult.rows[0].id;
-
-            await pool.query(`
-              INSERT INTO deal_appointments (deal_id, bank_id, roles, is_lead)
-              VALUES ($1, $2, $3::bank_role[], $4)
-              ON CONFLICT (deal_id, bank_id) DO UPDATE SET
-                roles = EXCLUDED.roles,
-                is_lead = EXCLUDED.is_lead
-            `, [dealId, bankId, bank.roles, bank.isLead]);
-            newAppointments++;
-          }
+          // Apply bank appointments against the deal's previous OC version
+          const changes = await applyOcAppointments(dealId, deal.banks, {
+            url: deal.ocPdfUrl || null,
+            effectiveDate: inserted || refiled ? filingDate : null,
+          });
+          newAppointments += changes.filter(c => c.changeType === 'appointed').length;
         }
 
         await pool.query(`
@@ -605,6 +802,65 @@ ipoRouter.post('/scrape-oc', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /api/ipo/watch
+ * Incremental HKEX watch: diffs the application index against the tracker and records
+ * deal events. Runs in the background; poll /scrape-runs/:id. 409 while another watch is running.
+ */
+ipoRouter.post('/watch', async (req: Request, res: Response) => {
+  try {
+    // Runs left 'running' by a server restart stop blocking after a few hours; the watcher's lock still applies
+    const running = await pool.query(`
+      SELECT id FROM scrape_runs
+      WHERE source = 'hkex-watch' AND status = 'running' AND started_at > NOW() - INTERVAL '6 hours'
+      ORDER BY id DESC LIMIT 1
+    `);
+    if (running.rows.length > 0) {
+      res.status(409).json({ error: 'A watch is already running', runId: running.rows[0].id });
+      return;
+    }
+
+    const runResult = await pool.query(`
+      INSERT INTO scrape_runs (source, board, status)
+      VALUES ('hkex-watch', 'mainBoard', 'running')
+      RETURNING id
+    `);
+    const runId = runResult.rows[0].id;
+
+    res.json({
+      message: 'Watch started',
+      runId,
+      status: 'running',
+    });
+
+    (async () => {
+      try {
+        const summary = await runHkexWatch();
+        await pool.query(`
+          UPDATE scrape_runs SET
+            completed_at = NOW(),
+            status = 'completed',
+            announcements_found = $2,
+            new_deals = $3
+          WHERE id = $1
+        `, [runId, summary.applications, summary.newDeals]);
+      } catch (err) {
+        console.error('HKEX watch error:', err);
+        await pool.query(`
+          UPDATE scrape_runs SET
+            completed_at = NOW(),
+            status = 'failed',
+            errors = $2
+          WHERE id = $1
+        `, [runId, JSON.stringify({ error: String(err) })]);
+      }
+    })();
+  } catch (err) {
+    console.error('HKEX watch trigger error:', err);
+    res.status(500).json({ error: 'Failed to start watch' });
+  }
+});
+
 /**
  * GET /api/ipo/scrape-runs/:id
  * Returns scrape run status for polling
@@ -633,13 +889,13 @@ ipoRouter.post('/rescrape-missing-banks', async (req: Request, res: Response) =>
     // Find deals with no bank appointments
     const missingResult = await pool.query(`
       SELECT d.id as deal_id, c.name_en as company_name, d.hkex_app_id,
-             oc.pdf_url
+             TO_CHAR(d.filing_date, 'YYYY-MM-DD') as filing_date, oc.pdf_url
       FROM deals d
       JOIN companies c ON c.id = d.company_id
       LEFT JOIN deal_appointments da ON da.deal_id = d.id
       LEFT JOIN oc_announcements oc ON oc.deal_id = d.id
       WHERE d.status = 'active'
-      GROUP BY d.id, c.name_en, d.hkex_app_id, oc.pdf_url
+      GROUP BY d.id, c.name_en, d.hkex_app_id, d.filing_date, oc.pdf_url
       HAVING COUNT(da.id) = 0
     `);
 
@@ -676,23 +932,7 @@ ipoRouter.post('/rescrape-missing-banks', async (req: Request, res: Response) =>
       }
 
       if (banks.length > 0) {
-        for (const bank of banks) {
-          const { canonical: shortName } = normalizeBankName(bank.bank);
-          const bankResult = await pool.query(`
-            INSERT INTO banks (name, short_name) VALUES ($1, $2)
-            ON CONFLICT (name) DO UPDATE SET short_name = COALESCE(banks.short_name, EXCLUDED.short_name), updated_at = NOW()
-            RETURNING id
-          `, [bank.bank, shortName]);
-          const bankId = bankResult.rows[0].id;
-
-          await pool.query(`
-            INSERT INTO deal_appointments (deal_id, bank_id, roles, is_lead, source_url)
-            VALUES ($1, $2, $3::bank_role[], $4, $5)
-            ON CONFLICT (deal_id, bank_id) DO UPDATE SET
-              roles = EXCLUDED.roles,
-              is_lead = EXCLUDED.is_lead
-          `, [deal.deal_id, bankId, bank.roles, bank.isLead, deal.pdf_url]);
-        }
+        await applyOcAppointments(deal.deal_id, banks, { url: deal.pdf_url, effectiveDate: deal.filing_date });
         updated++;
         console.log(`  Found ${banks.length} banks for ${deal.company_name}`);
       }
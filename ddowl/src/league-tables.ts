@@ -0,0 +1,290 @@
+/**
+ * Bank league tables for the IPO tracker
+ *
+ * Ranks banks by deal count and by apportioned deal size (HK$m) for one role view — sponsor,
+ * coordinator, bookrunner or all roles — with each bank's rank over the same window a year
+ * earlier. A deal's size is split among the banks in the view: equally, or weighted by the
+ * bank's most senior role and lead status (a rough proxy for its share of the fee pool).
+ */
+
+import ExcelJS from 'exceljs';
+import { pool } from './db/index.js';
+import { GICS_SECTORS } from './prospectus-parser.js';
+
+export type LeagueRole = 'sponsor' | 'coordinator' | 'bookrunner' | 'all';
+export type Apportionment = 'equal' | 'weighted';
+export type LeagueRankBy = 'deals' | 'size';
+
+export const LEAGUE_ROLES: LeagueRole[] = ['all', 'sponsor', 'coordinator', 'bookrunner'];
+
+// Relative fee weight of each normalized role (see bank-normalizer.ts)
+const ROLE_WEIGHTS: Record<string, number> = {
+  sponsor: 3,
+  coordinator: 2,
+  bookrunner: 1,
+  leadManager: 0.5,
+  other: 0.25,
+};
+const LEAD_MULTIPLIER = 1.5;
+
+export interface LeagueTableFilters {
+  role: LeagueRole;
+  apportion: Apportionment;
+  rankBy: LeagueRankBy;
+  from: string;              // YYYY-MM-DD, inclusive; deals are dated by listing date, else filing date
+  to: string;                // YYYY-MM-DD, inclusive
+  board?: 'mainBoard' | 'gem';
+  sector?: string;           // GICS sector name, or its code ("35")
+  status?: 'listed' | 'active';
+}
+
+// One bank's appointment on one deal
+export interface LeagueAppointment {
+  dealId: number;
+  dealDate: string;
+  sizeHkdm: number | null;
+  bankId: number;
+  bankName: string;
+  shortName: string | null;
+  roles: string[];
+  isLead: boolean;
+}
+
+export interface LeagueTableRow {
+  rank: number;
+  bankId: number;
+  bankName: string;
+  shortName: string | null;
+  deals: number;
+  leadDeals: number;
+  sizeHkdm: number;             // Apportioned size credited to the bank
+  sizeShare: number;            // Percentage of the view's total size
+  previousRank: number | null;  // Rank over the same window a year earlier (null: not ranked then)
+  rankChange: number | null;    // Places gained since then (negative: lost)
+}
+
+export interface LeagueTable {
+  filters: LeagueTableFilters;
+  previousFrom: string;
+  previousTo: string;
+  totalDeals: number;
+  totalSizeHkdm: number;
+  undisclosedSizeDeals: number;  // Deals counted but with no size yet (most active applications)
+  rows: LeagueTableRow[];
+}
+
+/** Sector filter as stored on companies.sector: GICS codes are mapped to their names. */
+export function resolveSector(sector: string): string {
+  const code = parseInt(sector, 10) as keyof typeof GICS_SECTORS;
+  return GICS_SECTORS[code] || sector;
+}
+
+export function shiftYear(date: string, years: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCFullYear(d.getUTCFullYear() + years);
+  return d.toISOString().slice(0, 10);
+}
+
+function inView(a: LeagueAppointment, role: LeagueRole): boolean {
+  return role === 'all' || a.roles.includes(role);
+}
+
+function appointmentWeight(a: LeagueAppointment, apportion: Apportionment): number {
+  if (apportion === 'equal') return 1;
+  const roleWeight = Math.max(0.25, ...a.roles.map(r => ROLE_WEIGHTS[r] ?? 0.25));
+  return roleWeight * (a.isLead ? LEAD_MULTIPLIER : 1);
+}
+
+// Competition ranking (1, 2, 2, 4) over rows already sorted by `key`
+function assignRanks<T extends { rank: number }>(rows: T[], key: (row: T) => number): void {
+  rows.forEach((row, i) => {
+    row.rank = i > 0 && key(row) === key(rows[i - 1]) ? rows[i - 1].rank : i + 1;
+  });
+}
+
+/**
+ * Rank banks over a set of appointments. Appointments outside the role view are ignored; each
+ * deal's size is split among the banks remaining on it.
+ */
+export function computeLeagueTable(
+  appointments: LeagueAppointment[],
+  role: LeagueRole,
+  apportion: Apportionment,
+  rankBy: LeagueRankBy
+): { rows: Omit<LeagueTableRow, 'previousRank' | 'rankChange'>[]; totalDeals: number; totalSizeHkdm: number; undisclosedSizeDeals: number } {
+  const byDeal = new Map<number, LeagueAppointment[]>();
+  for (const a of appointments) {
+    if (!inView(a, role)) continue;
+    if (!byDeal.has(a.dealId)) byDeal.set(a.dealId, []);
+    byDeal.get(a.dealId)!.push(a);
+  }
+
+  const banks = new Map<number, Omit<LeagueTableRow, 'previousRank' | 'rankChange'>>();
+  let totalSizeHkdm = 0;
+  let undisclosedSizeDeals = 0;
+
+  for (const dealAppointments of byDeal.values()) {
+    const size = dealAppointments[0].sizeHkdm;
+    if (size === null) undisclosedSizeDeals++;
+    else totalSizeHkdm += size;
+
+    // One appointment per bank per deal (the tracker keys appointments on deal and bank)
+    const unique = [...new Map(dealAppointments.map(a => [a.bankId, a])).values()];
+    const totalWeight = unique.reduce((sum, a) => sum + appointmentWeight(a, apportion), 0);
+
+    for (const a of unique) {
+      let row = banks.get(a.bankId);
+      if (!row) {
+        row = { rank: 0, bankId: a.bankId, bankName: a.bankName, shortName: a.shortName, deals: 0, leadDeals: 0, sizeHkdm: 0, sizeShare: 0 };
+        banks.set(a.bankId, row);
+      }
+      row.deals++;
+      if (a.isLead) row.leadDeals++;
+      if (size !== null) row.sizeHkdm += size * appointmentWeight(a, apportion) / totalWeight;
+    }
+  }
+
+  const primary = (r: { deals: number; sizeHkdm: number }) => rankBy === 'deals' ? r.deals : r.sizeHkdm;
+  const secondary = (r: { deals: number; sizeHkdm: number }) => rankBy === 'deals' ? r.sizeHkdm : r.deals;
+  const rows = [...banks.values()].sort((a, b) =>
+    primary(b) - primary(a) || secondary(b) - secondary(a) || a.bankName.localeCompare(b.bankName));
+
+  for (const row of rows) {
+    row.sizeHkdm = Math.round(row.sizeHkdm * 1000) / 1000;
+    row.sizeShare = totalSizeHkdm > 0 ? Math.round(row.sizeHkdm / totalSizeHkdm * 10000) / 100 : 0;
+  }
+  assignRanks(rows, primary);
+
+  return { rows, totalDeals: byDeal.size, totalSizeHkdm: Math.round(totalSizeHkdm * 1000) / 1000, undisclosedSizeDeals };
+}
+
+/** Current-window table with each bank's rank over the same window a year earlier. */
+export function buildLeagueTable(appointments: LeagueAppointment[], filters: LeagueTableFilters): LeagueTable {
+  const previousFrom = shiftYear(filters.from, -1);
+  const previousTo = shiftYear(filters.to, -1);
+  const current = appointments.filter(a => a.dealDate >= filters.from && a.dealDate <= filters.to);
+  const previous = appointments.filter(a => a.dealDate >= previousFrom && a.dealDate <= previousTo);
+
+  const table = computeLeagueTable(current, filters.role, filters.apportion, filters.rankBy);
+  const previousRanks = new Map(
+    computeLeagueTable(previous, filters.role, filters.apportion, filters.rankBy).rows.map(r => [r.bankId, r.rank])
+  );
+
+  return {
+    filters,
+    previousFrom,
+    previousTo,
+    totalDeals: table.totalDeals,
+    totalSizeHkdm: table.totalSizeHkdm,
+    undisclosedSizeDeals: table.undisclosedSizeDeals,
+    rows: table.rows.map(r => {
+      const previousRank = previousRanks.get(r.bankId) ?? null;
+      return { ...r, previousRank, rankChange: previousRank === null ? null : previousRank - r.rank };
+    }),
+  };
+}
+
+/**
+ * Appointments for the filters' window and the same window a year earlier. Terminated
+ * appointments are left out — the bank no longer sits on the deal.
+ */
+export async function fetchLeagueAppointments(filters: LeagueTableFilters): Promise<LeagueAppointment[]> {
+  const params: any[] = [shiftYear(filters.from, -1), filters.to];
+  let query = `
+    SELECT
+      d.id AS deal_id,
+      TO_CHAR(COALESCE(d.listing_date, d.filing_date), 'YYYY-MM-DD') AS deal_date,
+      d.size_hkdm,
+      b.id AS bank_id,
+      b.name AS bank_name,
+      b.short_name,
+      da.roles::text[] AS roles,
+      da.is_lead
+    FROM deal_appointments da
+    JOIN deals d ON d.id = da.deal_id
+    JOIN companies c ON c.id = d.company_id
+    JOIN banks b ON b.id = da.bank_id
+    WHERE da.terminated_date IS NULL
+      AND COALESCE(d.listing_date, d.filing_date) BETWEEN $1 AND $2
+  `;
+  if (filters.board) {
+    params.push(filters.board);
+    query += ` AND d.board = $${params.length}`;
+  }
+  if (filters.sector) {
+    params.push(resolveSector(filters.sector));
+    query += ` AND c.sector = $${params.length}`;
+  }
+  if (filters.status) {
+    params.push(filters.status);
+    query += ` AND d.status = $${params.length}`;
+  }
+
+  const result = await pool.query(query, params);
+  return result.rows.map(r => ({
+    dealId: r.deal_id,
+    dealDate: r.deal_date,
+    sizeHkdm: r.size_hkdm === null ? null : parseFloat(r.size_hkdm),
+    bankId: r.bank_id,
+    bankName: r.bank_name,
+    shortName: r.short_name,
+    roles: r.roles || [],
+    isLead: r.is_lead === true,
+  }));
+}
+
+// --- Excel export ---
+
+const ROLE_SHEET_NAMES: Record<LeagueRole, string> = {
+  all: 'All roles',
+  sponsor: 'Sponsors',
+  coordinator: 'Coordinators',
+  bookrunner: 'Bookrunners',
+};
+
+function criteriaLine(table: LeagueTable): string {
+  const f = table.filters;
+  return [
+    `${f.from} to ${f.to}`,
+    f.board ? (f.board === 'gem' ? 'GEM' : 'Main Board') : 'All boards',
+    f.sector ? resolveSector(f.sector) : 'All sectors',
+    f.status ? (f.status === 'listed' ? 'Listed deals' : 'Active applications') : 'Listed and active',
+    `Ranked by ${f.rankBy === 'deals' ? 'deal count' : 'apportioned size'}`,
+    `${f.apportion === 'equal' ? 'Equal' : 'Role-weighted'} apportionment`,
+  ].join(' · ');
+}
+
+/** Workbook with one sheet per table. */
+export async function buildLeagueTableWorkbook(tables: LeagueTable[]): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = new Date();
+
+  for (const table of tables) {
+    const sheet = workbook.addWorksheet(ROLE_SHEET_NAMES[table.filters.role]);
+    sheet.addRow([`HK IPO league table — ${ROLE_SHEET_NAMES[table.filters.role]}`]).font = { bold: true, size: 13 };
+    sheet.addRow([criteriaLine(table)]);
+    sheet.addRow([`${table.totalDeals} deals, HK$${table.totalSizeHkdm.toLocaleString('en-US')}m disclosed size`
+      + (table.undisclosedSizeDeals > 0 ? ` (${table.undisclosedSizeDeals} without size)` : '')
+      + `; previous rank from ${table.previousFrom} to ${table.previousTo}`]);
+    sheet.addRow([]);
+
+    const header = sheet.addRow(['Rank', 'Bank', 'Short name', 'Deals', 'Lead deals', 'Apportioned size (HK$m)', 'Share (%)', 'Previous rank', 'Change']);
+    header.font = { bold: true };
+    header.eachCell(cell => {
+      cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFD9E1F2' } };
+    });
+
+    for (const r of table.rows) {
+      sheet.addRow([r.rank, r.bankName, r.shortName || '', r.deals, r.leadDeals, r.sizeHkdm, r.sizeShare,
+        r.previousRank ?? 'new', r.rankChange ?? '']);
+    }
+
+    sheet.columns.forEach((column, i) => {
+      column.width = [6, 48, 16, 8, 11, 24, 10, 14, 9][i];
+    });
+    sheet.getColumn(6).numFmt = '#,##0.0';
+    sheet.getColumn(7).numFmt = '0.00';
+  }
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
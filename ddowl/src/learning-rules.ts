@@ -0,0 +1,332 @@
+/**
+ * Learning rule engine
+ *
+ * Executable rules kept in dd_learning_rules, applied alongside the built-in filters:
+ * - domain_block / domain_allow: eliminate, or exempt from elimination, results from a domain
+ * - title_regex / snippet_regex: eliminate matching results, or with a severity, force their
+ *   triage category (RED / AMBER / GREEN)
+ * - severity_override: set the severity of consolidated findings with a given event type
+ *
+ * Rules are tested against funnel snapshots of past runs before being activated, and count
+ * how often they fire in live screenings.
+ */
+
+import { listLearningRules, recordRuleFirings, type LearningRuleRow } from './reports-db.js';
+import { isReplaying, recordFixtureInputs, replayInputs } from './replay/fixtures.js';
+import type { Categorized } from './engine/types.js';
+import type { CategorizedResult } from './triage.js';
+import type { ConsolidatedFinding, FunnelSnapshot } from './types.js';
+
+// --- Types ---
+
+export type LearningRuleType = 'domain_block' | 'domain_allow' | 'title_regex' | 'snippet_regex' | 'severity_override';
+
+export const LEARNING_RULE_TYPES: LearningRuleType[] = ['domain_block', 'domain_allow', 'title_regex', 'snippet_regex', 'severity_override'];
+
+export type RuleSeverity = 'RED' | 'AMBER' | 'GREEN' | 'REVIEW';
+
+export interface LearningRule {
+  id: number;
+  type: LearningRuleType;
+  pattern: string;               // Domain, regex (case-insensitive) or event type
+  severity: RuleSeverity | null; // Regex rules: category to force (null: eliminate). severity_override: new severity
+  description: string | null;
+}
+
+export interface CompiledRules {
+  rules: { rule: LearningRule; regex: RegExp | null }[];
+  fired: Map<number, number>;  // Rule id → times fired since the last flush
+}
+
+interface ResultText {
+  url: string;
+  title: string;
+  snippet?: string;
+}
+
+export interface RuleTestReport {
+  rule: LearningRule;
+  snapshots: {
+    subject: string;
+    runId: string;
+    matched: number;
+    changed: number;  // Matched articles whose outcome the rule would change
+    examples: { url: string; title: string; before: string; after: string }[];
+  }[];
+  totalMatched: number;
+  totalChanged: number;
+  // Matched articles that reached RED/AMBER in the snapshot — what an elimination rule would lose
+  adverseEliminated: number;
+}
+
+const MAX_TEST_EXAMPLES = 10;
+
+// --- Validation ---
+
+function normaliseDomain(domain: string): string {
+  return domain.trim().toLowerCase().replace(/^https?:\/\//, '').replace(/^www\./, '').replace(/\/.*$/, '');
+}
+
+/** Error message for an invalid rule, or null when it can be saved. */
+export function validateLearningRule(rule: { type: string; pattern: string; severity?: string | null }): string | null {
+  if (!LEARNING_RULE_TYPES.includes(rule.type as LearningRuleType)) {
+    return `type must be one of ${LEARNING_RULE_TYPES.join(', ')}`;
+  }
+  if (!rule.pattern || !rule.pattern.trim()) return 'pattern required';
+  const severity = rule.severity || null;
+
+  switch (rule.type as LearningRuleType) {
+    case 'domain_block':
+    case 'domain_allow':
+      if (!/^[a-z0-9.-]+\.[a-z]{2,}$/.test(normaliseDomain(rule.pattern))) return `not a domain: ${rule.pattern}`;
+      if (severity) return `${rule.type} rules take no severity`;
+      return null;
+    case 'title_regex':
+    case 'snippet_regex':
+      try {
+        new RegExp(rule.pattern, 'i');
+      } catch (err: any) {
+        return `invalid regex: ${err?.message}`;
+      }
+      if (severity && !['RED', 'AMBER', 'GREEN'].includes(severity)) return 'regex rule severity must be RED, AMBER or GREEN';
+      return null;
+    case 'severity_override':
+      if (!severity || !['RED', 'AMBER', 'REVIEW'].includes(severity)) return 'severity_override needs a severity of RED, AMBER or REVIEW';
+      return null;
+  }
+}
+
+export function toLearningRule(row: LearningRuleRow): LearningRule {
+  return {
+    id: row.id,
+    type: row.rule_type as LearningRuleType,
+    pattern: row.rule_text,
+    severity: (row.severity as RuleSeverity) || null,
+    description: row.description,
+  };
+}
+
+// --- Compile / load ---
+
+export function compileLearningRules(rules: LearningRule[]): CompiledRules {
+  const compiled: CompiledRules['rules'] = [];
+  for (const rule of rules) {
+    const error = validateLearningRule(rule);
+    if (error) {
+      console.warn(`[RULES] Skipping rule ${rule.id} (${rule.type}): ${error}`);
+      continue;
+    }
+    const isRegex = rule.type === 'title_regex' || rule.type === 'snippet_regex';
+    compiled.push({
+      rule: isRegex || rule.type === 'severity_override' ? rule : { ...rule, pattern: normaliseDomain(rule.pattern) },
+      regex: isRegex ? new RegExp(rule.pattern, 'i') : null,
+    });
+  }
+  return { rules: compiled, fired: new Map() };
+}
+
+/**
+ * Active rules from the database — none when it is unavailable (offline CLI). A replay uses the
+ * rules recorded in its fixture bundle, and a recording stores them there.
+ */
+export async function loadLearningRules(): Promise<CompiledRules> {
+  const replay = replayInputs();
+  if (replay) return compileLearningRules(replay.learningRules || []);
+  try {
+    const rules = (await listLearningRules({ activeOnly: true })).map(toLearningRule);
+    recordFixtureInputs({ learningRules: rules });
+    return compileLearningRules(rules);
+  } catch (err: any) {
+    console.warn(`[RULES] Could not load learning rules (continuing without): ${err?.message}`);
+    return compileLearningRules([]);
+  }
+}
+
+/** Write fire counts accumulated since the last flush. Non-fatal; replays record nothing. */
+export async function flushRuleFirings(rules: CompiledRules): Promise<void> {
+  if (rules.fired.size === 0) return;
+  const fired = new Map(rules.fired);
+  rules.fired.clear();
+  if (isReplaying()) return;
+  try {
+    await recordRuleFirings(fired);
+  } catch (err: any) {
+    console.warn(`[RULES] Could not record rule firings (non-fatal): ${err?.message}`);
+  }
+}
+
+function fire(rules: CompiledRules, rule: LearningRule): void {
+  rules.fired.set(rule.id, (rules.fired.get(rule.id) || 0) + 1);
+}
+
+// --- Matching ---
+
+function hostnameOf(url: string): string | null {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+}
+
+function matches(entry: CompiledRules['rules'][number], result: ResultText): boolean {
+  const { rule, regex } = entry;
+  switch (rule.type) {
+    case 'domain_block':
+    case 'domain_allow': {
+      const host = hostnameOf(result.url);
+      return !!host && (host === rule.pattern || host.endsWith(`.${rule.pattern}`));
+    }
+    case 'title_regex':
+      return regex!.test(result.title || '');
+    case 'snippet_regex':
+      return regex!.test(result.snippet || '');
+    default:
+      return false;
+  }
+}
+
+/**
+ * Elimination-stage rule for a result: an allow rule (skip the built-in filters) wins over a
+ * block or eliminating regex rule. Regex rules with a severity act at categorization instead.
+ */
+export function matchEliminationRule(
+  rules: CompiledRules,
+  result: ResultText,
+  record = true,
+): { rule: LearningRule; action: 'allow' | 'eliminate' } | null {
+  let eliminate: LearningRule | null = null;
+  for (const entry of rules.rules) {
+    const { rule } = entry;
+    if (rule.type === 'severity_override' || rule.severity) continue;
+    if (!matches(entry, result)) continue;
+    if (rule.type === 'domain_allow') {
+      if (record) fire(rules, rule);
+      return { rule, action: 'allow' };
+    }
+    eliminate = eliminate || rule;
+  }
+  if (!eliminate) return null;
+  if (record) fire(rules, eliminate);
+  return { rule: eliminate, action: 'eliminate' };
+}
+
+/** Category-forcing regex rule for a triaged result (first match by rule id). */
+export function matchCategoryRule(rules: CompiledRules, result: ResultText, record = true): LearningRule | null {
+  for (const entry of rules.rules) {
+    if (entry.regex && entry.rule.severity && matches(entry, result)) {
+      if (record) fire(rules, entry.rule);
+      return entry.rule;
+    }
+  }
+  return null;
+}
+
+export function matchSeverityOverride(rules: CompiledRules, eventType: string, record = true): LearningRule | null {
+  const entry = rules.rules.find(e => e.rule.type === 'severity_override' && e.rule.pattern === eventType);
+  if (entry && record) fire(rules, entry.rule);
+  return entry?.rule || null;
+}
+
+function ruleLabel(rule: LearningRule): string {
+  return `Rule #${rule.id}${rule.description ? `: ${rule.description}` : ` (${rule.type} ${rule.pattern})`}`;
+}
+
+// --- Apply ---
+
+/** Move triaged results to the category a matching regex rule assigns. Returns the number moved. */
+export function applyCategoryRules(categorized: Categorized, rules: CompiledRules): number {
+  let moved = 0;
+  const buckets = { RED: categorized.red, AMBER: categorized.amber, GREEN: categorized.green };
+  const next: Record<'RED' | 'AMBER' | 'GREEN', CategorizedResult[]> = { RED: [], AMBER: [], GREEN: [] };
+
+  for (const [category, items] of Object.entries(buckets) as ['RED' | 'AMBER' | 'GREEN', CategorizedResult[]][]) {
+    for (const item of items) {
+      const rule = matchCategoryRule(rules, item);
+      const target = (rule?.severity as 'RED' | 'AMBER' | 'GREEN' | undefined) || category;
+      if (target !== category) {
+        next[target].push({ ...item, category: target, reason: `${ruleLabel(rule!)} (triage: ${category}, ${item.reason})` });
+        moved++;
+      } else {
+        next[category].push(item);
+      }
+    }
+  }
+
+  categorized.red = next.RED;
+  categorized.amber = next.AMBER;
+  categorized.green = next.GREEN;
+  return moved;
+}
+
+/** Apply severity_override rules to consolidated findings. Returns the number changed. */
+export function applySeverityOverrides(findings: ConsolidatedFinding[], rules: CompiledRules): number {
+  let changed = 0;
+  for (const finding of findings) {
+    const rule = matchSeverityOverride(rules, finding.eventType);
+    if (rule && rule.severity && rule.severity !== 'GREEN' && rule.severity !== finding.severity) {
+      finding.severity = rule.severity;
+      changed++;
+    }
+  }
+  return changed;
+}
+
+// --- Testing ---
+
+/**
+ * Dry-run a rule against funnel snapshots of past screenings: which articles it matches and
+ * whose outcome it would change. Snapshot phases used: 'elimination' (every gathered article),
+ * 'categorize' (triage classification) and 'consolidate' (findings with event type).
+ */
+export function testLearningRule(rule: LearningRule, snapshots: FunnelSnapshot[]): RuleTestReport {
+  const rules = compileLearningRules([rule]);
+  if (rules.rules.length === 0) {
+    throw new Error(validateLearningRule(rule) || 'Invalid rule');
+  }
+  const compiled = rules.rules[0].rule;
+  const report: RuleTestReport = { rule, snapshots: [], totalMatched: 0, totalChanged: 0, adverseEliminated: 0 };
+
+  for (const snapshot of snapshots) {
+    const phase = (name: string) => snapshot.phases.find(p => p.phase === name)?.articles || [];
+    const triage = new Map(phase('categorize').map(a => [a.url, a.classification || 'GREEN']));
+    const entry = { subject: snapshot.subject, runId: snapshot.runId, matched: 0, changed: 0, examples: [] as RuleTestReport['snapshots'][number]['examples'] };
+    const note = (url: string, title: string, before: string, after: string) => {
+      entry.changed++;
+      if (entry.examples.length < MAX_TEST_EXAMPLES) entry.examples.push({ url, title, before, after });
+    };
+
+    if (compiled.type === 'severity_override') {
+      for (const a of phase('consolidate')) {
+        if (a.eventType !== compiled.pattern) continue;
+        entry.matched++;
+        if (a.classification !== compiled.severity) note(a.url, a.title, a.classification || 'unknown', compiled.severity!);
+      }
+    } else if (compiled.severity) {
+      for (const a of phase('categorize')) {
+        if (!matchCategoryRule(rules, a, false)) continue;
+        entry.matched++;
+        if (a.classification !== compiled.severity) note(a.url, a.title, a.classification || 'unknown', compiled.severity);
+      }
+    } else {
+      for (const a of phase('elimination')) {
+        const match = matchEliminationRule(rules, a, false);
+        if (!match) continue;
+        entry.matched++;
+        const before = a.eliminationRule ? `eliminated (${a.eliminationRule})` : `passed${triage.has(a.url) ? `, ${triage.get(a.url)}` : ''}`;
+        if (match.action === 'allow' && a.eliminationRule) {
+          note(a.url, a.title, before, 'passed');
+        } else if (match.action === 'eliminate' && !a.eliminationRule) {
+          note(a.url, a.title, before, 'eliminated');
+          const classification = triage.get(a.url);
+          if (classification === 'RED' || classification === 'AMBER') report.adverseEliminated++;
+        }
+      }
+    }
+
+    report.snapshots.push(entry);
+    report.totalMatched += entry.matched;
+    report.totalChanged += entry.changed;
+  }
+  return report;
+}
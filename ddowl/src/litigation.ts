@@ -0,0 +1,421 @@
+/**
+ * Mainland China litigation and enforcement records
+ *
+ * Court records are searched separately from media: targeted queries against China Judgements
+ * Online (中国裁判文书网), the enforcement disclosure portal (中国执行信息公开网) and the dishonest
+ * judgment debtor list (失信被执行人). Results are parsed for standard case numbers
+ * (（2021）粤03民初1234号, the post-2016 format), court, parties, cause of action and amounts,
+ * and merged by case number so a case seen on several sites appears once.
+ */
+
+import { searchGoogle } from './searcher.js';
+import { buildSearchQueryWithVariants, isChineseName } from './searchStrings.js';
+import { nameKey } from './graph-db.js';
+import { toSimplified } from './utils/chinese.js';
+
+// --- Types ---
+
+export type LitigationCaseType = 'civil' | 'criminal' | 'administrative' | 'enforcement' | 'bankruptcy' | 'other';
+
+export type LitigationRole =
+  | 'plaintiff' | 'defendant' | 'appellant' | 'appellee'
+  | 'applicant' | 'respondent' | 'enforcee' | 'third_party' | 'party';
+
+export type LitigationSourceType =
+  | 'wenshu'       // 中国裁判文书网 — judgments
+  | 'zxgk'         // 中国执行信息公开网 — enforcement cases
+  | 'shixin'       // 失信被执行人 list (zxgk / 信用中国)
+  | 'court'        // Other official court sites
+  | 'aggregator'   // 企查查, 天眼查 and similar
+  | 'news';
+
+export interface CaseNumber {
+  caseNumber: string;   // Normalised: full-width brackets, no spaces
+  year: number;
+  courtCode: string;    // 粤03, 京0105, 最高法
+  typeCode: string;     // 民初, 刑终, 执, 执恢 ...
+  sequence: number;
+}
+
+export interface LitigationParty {
+  name: string;
+  role: LitigationRole;
+}
+
+export interface LitigationAmount {
+  amountCny: number;
+  kind: 'claim' | 'awarded' | 'enforcement' | 'costs' | 'other';
+  text: string;
+}
+
+export interface LitigationCase extends CaseNumber {
+  court: string;                  // Court name when stated, else described from the court code
+  caseType: LitigationCaseType;
+  stage: string | null;           // first instance, appeal, retrial, ...
+  parties: LitigationParty[];
+  subjectRoles: LitigationRole[]; // Roles in which a subject name appears
+  causeOfAction: string | null;   // 民间借贷纠纷, 合同诈骗罪 ...
+  amounts: LitigationAmount[];
+  dishonestDebtor: boolean;       // On the 失信被执行人 list
+  consumptionRestriction: boolean; // 限制高消费 order
+  relatedCases: string[];         // Case numbers cited as the basis or earlier instance (执行依据, 原审)
+  sources: { url: string; title: string; source: LitigationSourceType }[];
+}
+
+export interface LitigationResult {
+  subject: string;
+  searchedAt: string;
+  queries: number;
+  cases: LitigationCase[];
+}
+
+// --- Case numbers ---
+
+const PROVINCE_CODES: Record<string, string> = {
+  京: 'Beijing', 津: 'Tianjin', 沪: 'Shanghai', 渝: 'Chongqing', 冀: 'Hebei', 豫: 'Henan', 云: 'Yunnan',
+  辽: 'Liaoning', 黑: 'Heilongjiang', 湘: 'Hunan', 皖: 'Anhui', 鲁: 'Shandong', 新: 'Xinjiang', 苏: 'Jiangsu',
+  浙: 'Zhejiang', 赣: 'Jiangxi', 鄂: 'Hubei', 桂: 'Guangxi', 甘: 'Gansu', 晋: 'Shanxi', 蒙: 'Inner Mongolia',
+  陕: 'Shaanxi', 吉: 'Jilin', 闽: 'Fujian', 贵: 'Guizhou', 粤: 'Guangdong', 青: 'Qinghai', 藏: 'Tibet',
+  川: 'Sichuan', 宁: 'Ningxia', 琼: 'Hainan', 兵: 'XPCC',
+};
+
+// （year）court-code type-code sequence 号 — court code is 最高法 or a province character plus 0-4 digits
+const CASE_NUMBER = new RegExp(
+  `[（(]\\s*((?:19|20)\\d{2})\\s*[）)]\\s*(最高法|[${Object.keys(PROVINCE_CODES).join('')}]\\d{0,4})\\s*([\\u4e00-\\u9fff]{1,4}?)\\s*(\\d{1,6})\\s*号`,
+  'g',
+);
+
+/** Standard case numbers in a text (Traditional characters are folded first). */
+export function parseCaseNumbers(text: string): (CaseNumber & { index: number })[] {
+  const found: (CaseNumber & { index: number })[] = [];
+  for (const m of toSimplified(text).matchAll(CASE_NUMBER)) {
+    const [, year, courtCode, typeCode, sequence] = m;
+    found.push({
+      caseNumber: `（${year}）${courtCode}${typeCode}${parseInt(sequence, 10)}号`,
+      year: parseInt(year, 10),
+      courtCode,
+      typeCode,
+      sequence: parseInt(sequence, 10),
+      index: m.index!,
+    });
+  }
+  return found;
+}
+
+export function caseTypeFromCode(typeCode: string): { caseType: LitigationCaseType; stage: string | null } {
+  const caseType: LitigationCaseType = typeCode.startsWith('执') ? 'enforcement'
+    : typeCode.startsWith('破') ? 'bankruptcy'
+    : typeCode.includes('刑') ? 'criminal'
+    : /^(行|赔)/.test(typeCode) ? 'administrative'
+    : /民|商|知|财保|诉前/.test(typeCode) ? 'civil'
+    : 'other';
+
+  const stage = typeCode === '执' ? 'enforcement'
+    : typeCode === '执恢' ? 'resumed enforcement'
+    : typeCode === '执异' ? 'enforcement objection'
+    : typeCode === '执复' ? 'enforcement review'
+    : typeCode === '执保' ? 'preservation'
+    : typeCode === '破申' ? 'bankruptcy application'
+    : typeCode.endsWith('初') ? 'first instance'
+    : typeCode.endsWith('终') ? 'appeal'
+    : typeCode.endsWith('再') ? 'retrial'
+    : typeCode.endsWith('申') ? 'retrial application'
+    : null;
+  return { caseType, stage };
+}
+
+/** Court described from its code: province plus level (high / intermediate / basic). */
+export function courtFromCode(courtCode: string): string {
+  if (courtCode === '最高法') return "Supreme People's Court";
+  const province = PROVINCE_CODES[courtCode[0]] || courtCode[0];
+  const digits = courtCode.length - 1;
+  const level = digits === 0 ? 'High' : digits <= 2 ? 'Intermediate' : 'Basic';
+  return `${province} ${level} People's Court (${courtCode})`;
+}
+
+// --- Record parsing ---
+
+const PROVINCE_NAMES = ['北京', '天津', '上海', '重庆', '河北', '河南', '云南', '辽宁', '黑龙江', '湖南', '安徽', '山东', '新疆', '江苏', '浙江', '江西', '湖北', '广西', '甘肃', '山西', '内蒙古', '陕西', '吉林', '福建', '贵州', '广东', '青海', '西藏', '四川', '宁夏', '海南'];
+
+// Court names start with the province, or follow a label/punctuation ("审理法院：深圳市南山区人民法院")
+const COURT_NAME = new RegExp(`最高人民法院|(?:${PROVINCE_NAMES.join('|')})[\\u4e00-\\u9fff]{0,16}?法院|(?<![\\u4e00-\\u9fff])[\\u4e00-\\u9fff]{2,18}?人民法院`);
+
+const PARTY_LABELS: Record<string, LitigationRole> = {
+  失信被执行人: 'enforcee', 再审申请人: 'appellant', 申请执行人: 'applicant', 被执行人: 'enforcee',
+  被上诉人: 'appellee', 上诉人: 'appellant', 被申请人: 'respondent', 申请人: 'applicant',
+  被告人: 'defendant', 原告: 'plaintiff', 被告: 'defendant', 第三人: 'third_party',
+};
+// Longest labels first so 被上诉人 is not read as 上诉人
+const PARTY_LABEL = new RegExp(
+  `(${Object.keys(PARTY_LABELS).sort((a, b) => b.length - a.length).join('|')})(?:[（(][^）)]{0,12}[）)])?\\s*[：:]\\s*([^，,。；;：:\\s、]{2,40})`,
+  'g',
+);
+
+const CAUSES = [
+  '民间借贷', '金融借款合同', '小额借款合同', '借款合同', '买卖合同', '建设工程施工合同', '建设工程分包合同',
+  '股权转让', '损害股东利益责任', '损害公司利益责任', '股东损害公司债权人利益责任', '劳动争议', '追索劳动报酬',
+  '房屋租赁合同', '房屋买卖合同', '商品房预售合同', '保证合同', '追偿权', '票据追索权', '票据付款请求权',
+  '服务合同', '委托合同', '融资租赁合同', '承揽合同', '侵权责任', '机动车交通事故责任', '产品责任', '名誉权',
+  '股东知情权', '公司决议效力确认', '公司决议撤销', '证券虚假陈述责任', '不当得利', '债权转让合同',
+  '侵害商标权', '侵害发明专利权', '侵害著作权', '不正当竞争', '案外人执行异议之诉', '申请执行人执行异议之诉',
+  '执行异议之诉', '抵押合同', '质押合同', '财产损害赔偿', '合同',
+].sort((a, b) => b.length - a.length);
+const CRIMES = [
+  '非法吸收公众存款', '集资诈骗', '合同诈骗', '诈骗', '职务侵占', '挪用资金', '挪用公款', '贪污', '受贿', '单位行贿',
+  '对非国家工作人员行贿', '非国家工作人员受贿', '行贿', '内幕交易', '泄露内幕信息', '操纵证券市场', '洗钱', '逃税',
+  '虚开增值税专用发票', '骗取贷款', '违法发放贷款', '非法经营', '组织、领导传销活动', '拒不执行判决、裁定',
+].sort((a, b) => b.length - a.length);
+const CAUSE = new RegExp(`(${CAUSES.join('|')})纠纷|(${CRIMES.join('|')})罪|(?:犯|涉嫌)([\\u4e00-\\u9fff]{2,12}?)罪`);
+
+// A case number cited as the basis of another ("执行依据文号：（2021）粤03民初1234号") rather than the record's own
+const REFERENCE_LABEL = /(执行依据|依据文号|原审|一审|二审|前案|关联案)[^（(\n]{0,6}$/;
+
+// Document titles: "张三与深圳市某某有限公司民间借贷纠纷一审民事判决书"
+const TITLE_PARTIES = new RegExp(`^([^与诉]{2,40}?)(与|诉)([^与诉]{2,60}?)(?:${CAUSES.join('|')})纠纷`);
+
+function parseAmounts(text: string): LitigationAmount[] {
+  const amounts: LitigationAmount[] = [];
+  const pattern = /(\d[\d,]*(?:\.\d+)?)\s*(亿|万)?元|执行标的[：:]\s*(\d[\d,]*(?:\.\d+)?)/g;
+  for (const m of text.matchAll(pattern)) {
+    const digits = (m[1] || m[3]).replace(/,/g, '');
+    const amountCny = parseFloat(digits) * (m[2] === '亿' ? 1e8 : m[2] === '万' ? 1e4 : 1);
+    if (!Number.isFinite(amountCny) || amountCny <= 0) continue;
+    const before = text.slice(Math.max(0, m.index! - 20), m.index!) + (m[3] ? '执行标的' : '');
+    const kind: LitigationAmount['kind'] = /受理费|诉讼费|保全费|案件费/.test(before) ? 'costs'
+      : /执行标的|未履行|执行金额/.test(before) ? 'enforcement'
+      : /诉讼请求|请求判令|诉请|标的额|涉案/.test(before) ? 'claim'
+      : /判令|判决|偿还|支付|赔偿|返还/.test(before) ? 'awarded'
+      : 'other';
+    amounts.push({ amountCny, kind, text: m[0] });
+  }
+  return amounts;
+}
+
+function parseParties(text: string): LitigationParty[] {
+  const parties: LitigationParty[] = [];
+  for (const m of text.matchAll(PARTY_LABEL)) {
+    parties.push({ name: m[2], role: PARTY_LABELS[m[1]] });
+  }
+  return parties;
+}
+
+function partiesFromTitle(title: string, typeCode: string): LitigationParty[] {
+  const m = toSimplified(title).match(TITLE_PARTIES);
+  if (!m) return [];
+  const appeal = typeCode.endsWith('终');
+  const split = (s: string) => s.split(/[、,，]/).map(p => p.trim()).filter(p => p.length >= 2);
+  return [
+    ...split(m[1]).map(name => ({ name, role: (appeal ? 'appellant' : m[2] === '诉' ? 'plaintiff' : 'party') as LitigationRole })),
+    ...split(m[3]).map(name => ({ name, role: (appeal ? 'appellee' : m[2] === '诉' ? 'defendant' : 'party') as LitigationRole })),
+  ];
+}
+
+export function sourceTypeFromUrl(url: string): LitigationSourceType {
+  let host = '';
+  try { host = new URL(url).hostname.toLowerCase(); } catch { /* not a URL */ }
+  if (host.endsWith('wenshu.court.gov.cn')) return 'wenshu';
+  if (host.endsWith('zxgk.court.gov.cn')) return /shixin/i.test(url) ? 'shixin' : 'zxgk';
+  if (host.endsWith('creditchina.gov.cn')) return 'shixin';
+  if (host.endsWith('court.gov.cn') || host.endsWith('chinacourt.org') || host.endsWith('chinacourt.gov.cn')) return 'court';
+  if (/(^|\.)(qcc\.com|qichacha\.com|tianyancha\.com|aiqicha\.baidu\.com|qixin\.com)$/.test(host)) return 'aggregator';
+  return 'news';
+}
+
+function mentionsSubject(text: string, subjectKeys: string[]): boolean {
+  const key = nameKey(text);
+  return subjectKeys.some(k => k.length >= 2 && key.includes(k));
+}
+
+function partyIsSubject(party: LitigationParty, subjectKeys: string[]): boolean {
+  const key = nameKey(party.name);
+  return subjectKeys.some(k => k.length >= 2 && (key === k || key.includes(k)));
+}
+
+/**
+ * Parse search results into cases, merged by case number. A result citing several cases is
+ * split at each case number so parties and amounts stay with their own case. Cases whose
+ * sources never name the subject are dropped.
+ */
+export function extractLitigationCases(
+  results: { url: string; title: string; snippet: string }[],
+  subjectNames: string[],
+): LitigationCase[] {
+  const subjectKeys = [...new Set(subjectNames.map(nameKey))];
+  const byNumber = new Map<string, LitigationCase>();
+  const named = new Set<string>();
+
+  for (const result of results) {
+    const text = toSimplified(`${result.title}\n${result.snippet}`);
+    const all = parseCaseNumbers(text);
+    const numbers = all.filter(n => !REFERENCE_LABEL.test(text.slice(Math.max(0, n.index - 12), n.index)));
+    if (numbers.length === 0) continue;
+    const source = sourceTypeFromUrl(result.url);
+    const subjectNamed = mentionsSubject(text, subjectKeys);
+
+    numbers.forEach((num, i) => {
+      const end = numbers[i + 1]?.index ?? text.length;
+      const segment = text.slice(i === 0 ? 0 : num.index, end);
+      const references = all.filter(n => n.index > num.index && n.index < end && !numbers.includes(n)).map(n => n.caseNumber);
+      const { caseType, stage } = caseTypeFromCode(num.typeCode);
+      const parties = [
+        ...parseParties(segment),
+        ...(numbers.length === 1 ? partiesFromTitle(result.title, num.typeCode) : []),
+      ];
+      const cause = segment.match(CAUSE);
+      const courtName = segment.replace(CASE_NUMBER, ' ').match(COURT_NAME)?.[0] || null;
+
+      let c = byNumber.get(num.caseNumber);
+      if (!c) {
+        const { index: _index, ...caseNumber } = num;
+        c = {
+          ...caseNumber,
+          court: courtFromCode(num.courtCode),
+          caseType,
+          stage,
+          parties: [],
+          subjectRoles: [],
+          causeOfAction: null,
+          amounts: [],
+          relatedCases: [],
+          dishonestDebtor: false,
+          consumptionRestriction: false,
+          sources: [],
+        };
+        byNumber.set(num.caseNumber, c);
+      }
+      if (courtName && c.court.endsWith(')')) c.court = courtName;
+      if (!c.causeOfAction && cause) c.causeOfAction = cause[1] ? `${cause[1]}纠纷` : `${cause[2] || cause[3]}罪`;
+      for (const p of parties) {
+        const existing = c.parties.find(x => nameKey(x.name) === nameKey(p.name));
+        if (!existing) c.parties.push(p);
+        else if (existing.role === 'party') existing.role = p.role;  // A labelled role beats a title guess
+      }
+      for (const a of parseAmounts(segment)) {
+        if (!c.amounts.some(x => x.amountCny === a.amountCny && x.kind === a.kind)) c.amounts.push(a);
+      }
+      for (const ref of references) {
+        if (ref !== c.caseNumber && !c.relatedCases.includes(ref)) c.relatedCases.push(ref);
+      }
+      c.dishonestDebtor ||= source === 'shixin' || /失信被执行人|失信名单|纳入失信/.test(segment);
+      c.consumptionRestriction ||= /限制高消费|限高令|限制消费/.test(segment);
+      if (!c.sources.some(s => s.url === result.url)) c.sources.push({ url: result.url, title: result.title, source });
+      if (subjectNamed) named.add(num.caseNumber);
+    });
+  }
+
+  const cases = [...byNumber.values()].filter(c => named.has(c.caseNumber));
+  for (const c of cases) {
+    c.subjectRoles = [...new Set(c.parties.filter(p => partyIsSubject(p, subjectKeys)).map(p => p.role))];
+  }
+  return cases.sort((a, b) => b.year - a.year || a.caseNumber.localeCompare(b.caseNumber));
+}
+
+// --- Search ---
+
+export const LITIGATION_QUERIES: { id: string; template: string }[] = [
+  { id: 'WENSHU', template: 'site:wenshu.court.gov.cn "{NAME}"' },
+  { id: 'ZXGK', template: 'site:zxgk.court.gov.cn "{NAME}"' },
+  { id: 'SHIXIN', template: '"{NAME}" 失信被执行人|限制高消费|被执行人 案号' },
+  { id: 'JUDGMENT', template: '"{NAME}" 判决书|裁定书|民初|民终|刑初|执恢 案号' },
+  { id: 'AGGREGATOR', template: 'site:qcc.com OR site:tianyancha.com "{NAME}" 裁判文书|被执行人|开庭公告' },
+];
+
+const LITIGATION_MAX_PAGES = 3;
+
+/**
+ * Run the litigation queries for the Chinese name variants and parse the results.
+ * Results from the main media search can be passed in so case numbers already gathered count too.
+ */
+export async function searchLitigation(
+  subjectName: string,
+  nameVariations: string[],
+  options: { signal?: AbortSignal; extraResults?: { url: string; title: string; snippet: string }[]; onQuery?: (resultCount: number) => void } = {},
+): Promise<LitigationResult> {
+  const names = [...new Set([subjectName, ...nameVariations].filter(n => isChineseName(n)))];
+  const results: { url: string; title: string; snippet: string }[] = [...(options.extraResults || [])];
+  let queries = 0;
+
+  if (names.length > 0) {
+    for (const q of LITIGATION_QUERIES) {
+      const query = buildSearchQueryWithVariants(q.template, names);
+      for (let page = 1; page <= LITIGATION_MAX_PAGES; page++) {
+        if (options.signal?.aborted) break;
+        const pageResults = await searchGoogle(query, page, 10, options.signal, 'zh-cn');
+        queries++;
+        options.onQuery?.(pageResults.length);
+        for (const r of pageResults) {
+          if (!results.some(existing => existing.url === r.link)) {
+            results.push({ url: r.link, title: r.title, snippet: r.snippet || '' });
+          }
+        }
+        if (pageResults.length < 10) break;
+      }
+    }
+  }
+
+  return {
+    subject: subjectName,
+    searchedAt: new Date().toISOString(),
+    queries,
+    cases: extractLitigationCases(results, [subjectName, ...nameVariations]),
+  };
+}
+
+// --- Report section ---
+
+export const LITIGATION_SECTION_TITLE = 'Litigation & Enforcement Records';
+
+const ROLE_LABELS: Record<LitigationRole, string> = {
+  plaintiff: 'Plaintiff', defendant: 'Defendant', appellant: 'Appellant', appellee: 'Appellee',
+  applicant: 'Applicant', respondent: 'Respondent', enforcee: 'Judgment debtor', third_party: 'Third party', party: 'Party',
+};
+
+const SOURCE_LABELS: Record<LitigationSourceType, string> = {
+  wenshu: 'China Judgements Online',
+  zxgk: 'Enforcement disclosure portal',
+  shixin: 'Dishonest debtor list',
+  court: 'Court website',
+  aggregator: 'Corporate data aggregator',
+  news: 'Media',
+};
+
+function formatAmount(a: LitigationAmount): string {
+  const value = a.amountCny >= 1e4 ? a.amountCny.toLocaleString('en-US', { maximumFractionDigits: 0 }) : a.amountCny.toString();
+  return `RMB ${value}${a.kind === 'other' ? '' : ` (${a.kind})`}`;
+}
+
+const cellText = (s: string) => s.replace(/\|/g, '/').replace(/\s+/g, ' ').trim();
+
+/** Report section: a sentence on what was searched, then one table row per case. */
+export function formatLitigationSection(result: LitigationResult): string {
+  const intro = `Searches of China Judgements Online (中国裁判文书网), the China Enforcement Information Disclosure portal (中国执行信息公开网) and the list of dishonest judgment debtors (失信被执行人)`;
+  const { cases } = result;
+  if (cases.length === 0) {
+    return `${LITIGATION_SECTION_TITLE}\n\n${intro} identified no court records for ${result.subject}. These sources do not publish every case, so the absence of records is not conclusive.`;
+  }
+
+  const dishonest = cases.filter(c => c.dishonestDebtor).length;
+  const summary = `${intro} identified ${cases.length === 1 ? 'one case' : `${cases.length} cases`} involving ${result.subject}`
+    + (dishonest > 0 ? `, ${dishonest === 1 ? 'one of which is' : `${dishonest} of which are`} on the dishonest judgment debtor list.` : '.');
+
+  const rows = cases.map(c => {
+    const parties = c.parties.map(p => `${ROLE_LABELS[p.role]}: ${p.name}`).join('; ');
+    const flags = [c.dishonestDebtor ? 'dishonest debtor' : '', c.consumptionRestriction ? 'consumption restriction' : ''].filter(Boolean);
+    const stage = c.stage && c.stage !== c.caseType ? c.stage : null;
+    const type = [`${c.caseType[0].toUpperCase()}${c.caseType.slice(1)}`, stage, ...flags].filter(Boolean).join(', ');
+    const related = c.relatedCases.length > 0 ? ` (re ${c.relatedCases.join(', ')})` : '';
+    const sources = [...new Set(c.sources.map(s => SOURCE_LABELS[s.source]))].join(', ');
+    return [`${c.caseNumber}${related}`, c.court, type, parties, c.causeOfAction || '', c.amounts.map(formatAmount).join('; '), sources]
+      .map(cellText).join(' | ');
+  });
+
+  return [
+    LITIGATION_SECTION_TITLE,
+    '',
+    summary,
+    '',
+    '| Case number | Court | Type | Parties | Cause of action | Amount | Source |',
+    '| --- | --- | --- | --- | --- | --- | --- |',
+    ...rows.map(r => `| ${r} |`),
+  ].join('\n');
+}
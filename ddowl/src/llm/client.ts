@@ -0,0 +1,378 @@
+// src/llm/client.ts
+// Shared LLM client. Callers name the operation; the route for that operation
+// (see providers.ts) decides which providers/models are tried and in what order.
+//
+// Per provider: transient failures (network, 5xx) are retried with backoff; timeouts only when
+// the request opts in with retryOnTimeout, since each one has already cost the full timeout.
+// Content-moderation rejections and rate limits fall through to the next provider.
+
+import axios from 'axios';
+import type { Provider } from '../metrics/costs.js';
+import type { LLMUsage } from '../metrics/tracker.js';
+import {
+  getRoute, getMockResponder,
+  type LLMOperation, type ModelRoute, type ChatMessage, type MockResponse,
+} from './providers.js';
+import { withFixture } from '../replay/fixtures.js';
+
+// Same shape as MetricsTracker.recordLLMCall, so a tracker can be passed straight through
+export type LLMCallHandler = (
+  provider: Provider,
+  operation: LLMOperation,
+  input: string,
+  output: string,
+  usage?: LLMUsage
+) => void;
+
+export interface LLMRequest {
+  operation: LLMOperation;
+  prompt?: string;  // Shorthand for a single user message
+  messages?: ChatMessage[];
+  tools?: any[];
+  toolChoice?: 'auto' | 'none';
+  temperature?: number;
+  maxTokens?: number;
+  timeout?: number;
+  retryOnTimeout?: boolean;  // Ask the same provider again after a timeout (default: move on to the next provider)
+  signal?: AbortSignal;
+  onLLMCall?: LLMCallHandler;
+}
+
+export interface LLMResult {
+  text: string;
+  toolCalls?: any[];
+  finishReason?: string;
+  usage?: LLMUsage;
+  provider: Provider;
+  providerName: string;
+  model: string;
+}
+
+const DEFAULT_TIMEOUT_MS = 60000;
+const MAX_RETRIES = Math.max(0, parseInt(process.env.LLM_MAX_RETRIES ?? '1') || 0);
+const RETRY_BASE_DELAY_MS = 1000;
+
+/**
+ * Errors where asking the same provider again won't help: content filters and rate limits.
+ */
+export function isContentModerationError(error: any): boolean {
+  const errorMessage = error?.response?.data?.error?.message || error?.message || '';
+  const errorCode = error?.response?.data?.error?.code || '';
+
+  // DeepSeek content moderation
+  if (errorMessage.includes('Content Exists Risk')) return true;
+  if (errorCode === 'content_filter') return true;
+
+  // Kimi rejects sensitive input as "high risk"
+  if (/high risk/i.test(errorMessage)) return true;
+
+  // Rate limits should also trigger fallback
+  if (error?.response?.status === 429) return true;
+
+  return false;
+}
+
+// Axios reports a request that ran out its timeout as ECONNABORTED (ETIMEDOUT with clarifyTimeoutError)
+function isTimeoutError(error: any): boolean {
+  return axios.isAxiosError(error) && (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT');
+}
+
+function isRetryableError(error: any, request: LLMRequest): boolean {
+  if (isContentModerationError(error)) return false;
+  const status = error?.response?.status;
+  if (status) return status >= 500;
+  if (isTimeoutError(error)) return !!request.retryOnTimeout;
+  return axios.isAxiosError(error);  // Connection reset with no response
+}
+
+function isAborted(error: any, signal?: AbortSignal): boolean {
+  return !!signal?.aborted || axios.isCancel(error);
+}
+
+function describeError(error: any): string {
+  return error?.response?.data?.error?.message
+    || (error?.response?.status ? `HTTP ${error.response.status}` : '')
+    || error?.message
+    || 'unknown error';
+}
+
+function toMessages(request: LLMRequest): ChatMessage[] {
+  if (request.messages) return request.messages;
+  return [{ role: 'user', content: request.prompt || '' }];
+}
+
+function inputText(messages: ChatMessage[]): string {
+  return messages.map(m => m.content || '').join('\n');
+}
+
+/**
+ * Run a chat completion through the operation's route.
+ * Throws when no provider is configured or every provider failed.
+ */
+export async function completeLLM(request: LLMRequest): Promise<LLMResult> {
+  const messages = toMessages(request);
+  const result = await withFixture('llm', fixtureInput(request, messages), request.operation,
+    () => completeLive(request, messages));
+  request.onLLMCall?.(result.provider, request.operation, inputText(messages), result.text, result.usage);
+  return result;
+}
+
+async function completeLive(request: LLMRequest, messages: ChatMessage[]): Promise<LLMResult> {
+  const route = getRoute(request.operation);
+  if (route.length === 0) {
+    throw new Error(`No LLM provider configured for ${request.operation}`);
+  }
+
+  const errors: string[] = [];
+
+  for (const entry of route) {
+    const { endpoint, model } = entry;
+    if (request.tools && endpoint.format === 'gemini') {
+      errors.push(`${endpoint.name}: tool calls not supported`);
+      continue;
+    }
+
+    for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+      try {
+        return await callProvider(entry, request, messages);
+      } catch (error: any) {
+        if (isAborted(error, request.signal)) throw error;
+
+        const message = describeError(error);
+        if (attempt < MAX_RETRIES && isRetryableError(error, request)) {
+          console.warn(`[LLM] ${request.operation}: ${endpoint.name} (${model}) failed: ${message}, retrying...`);
+          await new Promise(r => setTimeout(r, RETRY_BASE_DELAY_MS * (attempt + 1)));
+          continue;
+        }
+
+        const reason = isContentModerationError(error) ? 'moderation/rate limit' : 'error';
+        console.warn(`[LLM] ${request.operation}: ${endpoint.name} (${model}) ${reason}: ${message}`);
+        errors.push(`${endpoint.name}: ${message}`);
+        break;
+      }
+    }
+  }
+
+  throw new Error(`All LLM providers failed for ${request.operation}: ${errors.join('; ')}`);
+}
+
+/**
+ * Streaming variant for long-form writing. Falls back to a non-streaming call on the same
+ * provider when the stream fails before producing output, then to the next provider.
+ * Replayed responses are emitted as a single chunk.
+ */
+export async function streamLLM(request: LLMRequest, onChunk: (chunk: string) => void): Promise<LLMResult> {
+  const messages = toMessages(request);
+  let streamed = false;
+  const result = await withFixture('llm', fixtureInput(request, messages), request.operation, () => {
+    streamed = true;
+    return streamLive(request, messages, onChunk);
+  });
+  if (!streamed) onChunk(result.text);
+  request.onLLMCall?.(result.provider, request.operation, inputText(messages), result.text, result.usage);
+  return result;
+}
+
+async function streamLive(request: LLMRequest, messages: ChatMessage[], onChunk: (chunk: string) => void): Promise<LLMResult> {
+  const route = getRoute(request.operation);
+  if (route.length === 0) {
+    throw new Error(`No LLM provider configured for ${request.operation}`);
+  }
+
+  const errors: string[] = [];
+
+  for (const entry of route) {
+    const { endpoint, model } = entry;
+
+    if (endpoint.format === 'openai') {
+      let emitted = '';
+      try {
+        const { text, usage } = await streamOpenAICompatible(entry, request, messages, chunk => {
+          emitted += chunk;
+          onChunk(chunk);
+        });
+        return { text, usage, provider: endpoint.provider, providerName: endpoint.name, model };
+      } catch (error: any) {
+        if (isAborted(error, request.signal)) throw error;
+        console.warn(`[LLM] ${request.operation}: ${endpoint.name} streaming failed: ${describeError(error)}`);
+        // Output already reached the caller — keep it rather than repeat it from another call
+        if (emitted) {
+          return { text: emitted, provider: endpoint.provider, providerName: endpoint.name, model };
+        }
+      }
+    }
+
+    try {
+      const result = await callProvider(entry, request, messages);
+      if (!result.text) throw new Error('empty response');
+      onChunk(result.text);
+      return result;
+    } catch (error: any) {
+      if (isAborted(error, request.signal)) throw error;
+      console.warn(`[LLM] ${request.operation}: ${endpoint.name} (${model}) failed: ${describeError(error)}`);
+      errors.push(`${endpoint.name}: ${describeError(error)}`);
+    }
+  }
+
+  throw new Error(`All LLM providers failed for ${request.operation}: ${errors.join('; ')}`);
+}
+
+// Fixture key: everything that shapes the response except the provider/model that served it,
+// so a bundle recorded against one route replays under any other
+function fixtureInput(request: LLMRequest, messages: ChatMessage[]) {
+  return {
+    operation: request.operation,
+    messages,
+    tools: request.tools,
+    temperature: request.temperature,
+    maxTokens: request.maxTokens,
+  };
+}
+
+// ============================================================
+// PROVIDER CALLS
+// ============================================================
+
+async function callProvider(route: ModelRoute, request: LLMRequest, messages: ChatMessage[]): Promise<LLMResult> {
+  switch (route.endpoint.format) {
+    case 'openai': return callOpenAICompatible(route, request, messages);
+    case 'gemini': return callGemini(route, request, messages);
+    case 'mock': return callMock(route, request, messages);
+  }
+}
+
+function openAIBody(route: ModelRoute, request: LLMRequest, messages: ChatMessage[]): Record<string, any> {
+  return {
+    model: route.model,
+    messages,
+    ...(request.temperature !== undefined && { temperature: request.temperature }),
+    ...(request.maxTokens !== undefined && { max_tokens: request.maxTokens }),
+    ...(request.tools && { tools: request.tools, tool_choice: request.toolChoice || 'auto' }),
+  };
+}
+
+function openAIHeaders(route: ModelRoute): Record<string, string> {
+  return {
+    'Content-Type': 'application/json',
+    ...(route.endpoint.apiKey && { 'Authorization': `Bearer ${route.endpoint.apiKey}` }),
+  };
+}
+
+async function callOpenAICompatible(route: ModelRoute, request: LLMRequest, messages: ChatMessage[]): Promise<LLMResult> {
+  const response = await axios.post(route.endpoint.url, openAIBody(route, request, messages), {
+    headers: openAIHeaders(route),
+    timeout: request.timeout || DEFAULT_TIMEOUT_MS,
+    signal: request.signal,
+  });
+  const choice = response.data.choices?.[0];
+  return {
+    text: choice?.message?.content || '',
+    toolCalls: choice?.message?.tool_calls,
+    finishReason: choice?.finish_reason,
+    usage: response.data.usage,
+    provider: route.endpoint.provider,
+    providerName: route.endpoint.name,
+    model: route.model,
+  };
+}
+
+async function streamOpenAICompatible(
+  route: ModelRoute,
+  request: LLMRequest,
+  messages: ChatMessage[],
+  onChunk: (chunk: string) => void
+): Promise<{ text: string; usage?: LLMUsage }> {
+  const response = await axios.post(
+    route.endpoint.url,
+    { ...openAIBody(route, request, messages), stream: true },
+    {
+      headers: openAIHeaders(route),
+      timeout: request.timeout || DEFAULT_TIMEOUT_MS,
+      signal: request.signal,
+      responseType: 'stream',
+    }
+  );
+
+  return new Promise((resolve, reject) => {
+    let buffer = '';
+    let text = '';
+    let usage: LLMUsage | undefined;
+
+    response.data.on('data', (chunk: Buffer) => {
+      buffer += chunk.toString();
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';  // Keep incomplete line in buffer
+
+      for (const line of lines) {
+        if (!line.startsWith('data: ')) continue;
+        const data = line.slice(6);
+        if (data === '[DONE]') continue;
+        try {
+          const parsed = JSON.parse(data);
+          if (parsed.usage) usage = parsed.usage;
+          const content = parsed.choices?.[0]?.delta?.content || '';
+          if (content) {
+            text += content;
+            onChunk(content);
+          }
+        } catch {
+          // Ignore parse errors for incomplete chunks
+        }
+      }
+    });
+    response.data.on('end', () => resolve({ text, usage }));
+    response.data.on('error', (err: Error) => reject(err));
+  });
+}
+
+async function callGemini(route: ModelRoute, request: LLMRequest, messages: ChatMessage[]): Promise<LLMResult> {
+  const system = messages.filter(m => m.role === 'system').map(m => m.content || '').join('\n');
+  const contents = messages
+    .filter(m => m.role !== 'system')
+    .map(m => ({ role: m.role === 'assistant' ? 'model' : 'user', parts: [{ text: m.content || '' }] }));
+
+  const response = await axios.post(
+    `${route.endpoint.url}/${route.model}:generateContent?key=${route.endpoint.apiKey}`,
+    {
+      contents,
+      ...(system && { systemInstruction: { parts: [{ text: system }] } }),
+      generationConfig: {
+        ...(request.temperature !== undefined && { temperature: request.temperature }),
+        ...(request.maxTokens !== undefined && { maxOutputTokens: request.maxTokens }),
+      },
+    },
+    {
+      headers: { 'Content-Type': 'application/json' },
+      timeout: request.timeout || DEFAULT_TIMEOUT_MS,
+      signal: request.signal,
+    }
+  );
+  const candidate = response.data.candidates?.[0];
+  return {
+    text: candidate?.content?.parts?.[0]?.text || '',
+    finishReason: candidate?.finishReason,
+    usage: response.data.usageMetadata ? {
+      prompt_tokens: response.data.usageMetadata.promptTokenCount || 0,
+      completion_tokens: response.data.usageMetadata.candidatesTokenCount || 0,
+    } : undefined,
+    provider: route.endpoint.provider,
+    providerName: route.endpoint.name,
+    model: route.model,
+  };
+}
+
+async function callMock(route: ModelRoute, request: LLMRequest, messages: ChatMessage[]): Promise<LLMResult> {
+  const responder = getMockResponder();
+  if (!responder) throw new Error('No mock responder registered');
+  const raw = await responder({ operation: request.operation, model: route.model, messages, tools: request.tools });
+  const response: MockResponse = typeof raw === 'string' ? { text: raw } : raw;
+  return {
+    text: response.text || '',
+    toolCalls: response.toolCalls,
+    finishReason: response.toolCalls?.length ? 'tool_calls' : 'stop',
+    usage: response.usage,
+    provider: route.endpoint.provider,
+    providerName: route.endpoint.name,
+    model: route.model,
+  };
+}
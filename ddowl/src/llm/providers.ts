@@ -0,0 +1,166 @@
+// src/llm/providers.ts
+// Provider endpoints and per-operation model routing for the shared LLM client.
+//
+// Routing is configured through env and read on every call:
+//   LLM_PROVIDER=local|mock                        — send every operation to one provider (offline runs, tests)
+//   LLM_ROUTE_<OPERATION>=kimi,deepseek:some-model — ordered fallback chain for one operation (optional :model)
+//   LLM_LOCAL_URL, LLM_LOCAL_MODEL, LLM_LOCAL_API_KEY — any OpenAI-compatible chat completions endpoint
+
+import type { CostEstimate } from '../types.js';
+import type { Provider } from '../metrics/costs.js';
+import { isReplaying } from '../replay/fixtures.js';
+
+export type LLMOperation = CostEstimate['operation'];
+
+export interface ProviderEndpoint {
+  provider: Provider;
+  name: string;  // Display name for logs
+  format: 'openai' | 'gemini' | 'mock';
+  url: string;
+  apiKey: string;
+  defaultModel: string;
+}
+
+export interface ModelRoute {
+  endpoint: ProviderEndpoint;
+  model: string;
+}
+
+// Chat message in OpenAI format (what every provider except Gemini speaks natively)
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | null;
+  tool_calls?: any[];
+  tool_call_id?: string;
+}
+
+export interface MockRequest {
+  operation: LLMOperation;
+  model: string;
+  messages: ChatMessage[];
+  tools?: any[];
+}
+
+export interface MockResponse {
+  text?: string;
+  toolCalls?: any[];
+  usage?: { prompt_tokens: number; completion_tokens: number };
+}
+
+export type MockResponder = (request: MockRequest) => string | MockResponse | Promise<string | MockResponse>;
+
+// Defaults mirror the chains each module used before routing was configurable
+const DEFAULT_ROUTES: Record<LLMOperation, Provider[]> = {
+  triage: ['deepseek'],
+  quickscan: ['deepseek', 'kimi'],
+  analysis: ['deepseek', 'kimi'],
+  consolidation: ['deepseek'],
+  profile: ['deepseek'],
+  subsidiary: ['deepseek'],
+  clustering: ['deepseek'],
+  dedupe: ['deepseek'],
+  report: ['kimi', 'deepseek'],
+  variants: ['deepseek'],
+  agent: ['kimi'],
+};
+
+const KNOWN_PROVIDERS: Provider[] = ['deepseek', 'kimi', 'gemini', 'local', 'mock'];
+
+let mockResponder: MockResponder | null = null;
+
+/**
+ * Register an in-process responder for the `mock` provider (null to remove it).
+ * Combine with LLM_PROVIDER=mock to run the pipeline without network access.
+ */
+export function setMockResponder(responder: MockResponder | null): void {
+  mockResponder = responder;
+}
+
+export function getMockResponder(): MockResponder | null {
+  return mockResponder;
+}
+
+/**
+ * Endpoint for a provider, or null when it isn't configured (no API key / URL / responder).
+ */
+export function getEndpoint(provider: Provider): ProviderEndpoint | null {
+  switch (provider) {
+    case 'deepseek': {
+      const apiKey = process.env.DEEPSEEK_API_KEY || '';
+      return apiKey ? {
+        provider, name: 'DeepSeek', format: 'openai', apiKey,
+        url: 'https://api.deepseek.com/v1/chat/completions',
+        defaultModel: 'deepseek-chat',
+      } : null;
+    }
+    case 'kimi': {
+      const apiKey = process.env.KIMI_API_KEY || '';
+      return apiKey ? {
+        provider, name: 'Kimi', format: 'openai', apiKey,
+        url: 'https://api.moonshot.ai/v1/chat/completions',
+        defaultModel: process.env.KIMI_MODEL || 'kimi-k2',
+      } : null;
+    }
+    case 'gemini': {
+      const apiKey = process.env.GEMINI_API_KEY || '';
+      return apiKey ? {
+        provider, name: 'Gemini', format: 'gemini', apiKey,
+        url: 'https://generativelanguage.googleapis.com/v1beta/models',
+        defaultModel: process.env.GEMINI_MODEL || 'gemini-2.0-flash',
+      } : null;
+    }
+    case 'local': {
+      const url = process.env.LLM_LOCAL_URL || '';
+      return url ? {
+        provider, name: 'Local', format: 'openai', url,
+        apiKey: process.env.LLM_LOCAL_API_KEY || '',
+        defaultModel: process.env.LLM_LOCAL_MODEL || 'local',
+      } : null;
+    }
+    case 'mock':
+      return mockResponder ? {
+        provider, name: 'Mock', format: 'mock', url: '', apiKey: '', defaultModel: 'mock',
+      } : null;
+  }
+}
+
+/**
+ * Parse a route spec like "kimi,deepseek:deepseek-reasoner". Unknown providers are dropped.
+ */
+export function parseRouteSpec(spec: string): { provider: Provider; model?: string }[] {
+  const entries: { provider: Provider; model?: string }[] = [];
+  for (const part of spec.split(',').map(p => p.trim()).filter(Boolean)) {
+    const sep = part.indexOf(':');
+    const name = (sep === -1 ? part : part.slice(0, sep)).toLowerCase();
+    const model = sep === -1 ? undefined : part.slice(sep + 1).trim() || undefined;
+    if (!KNOWN_PROVIDERS.includes(name as Provider)) {
+      console.warn(`[LLM] Ignoring unknown provider "${name}" in route "${spec}"`);
+      continue;
+    }
+    entries.push({ provider: name as Provider, model });
+  }
+  return entries;
+}
+
+/**
+ * Ordered list of configured provider/model pairs to try for an operation.
+ */
+export function getRoute(operation: LLMOperation): ModelRoute[] {
+  const spec = process.env.LLM_PROVIDER || process.env[`LLM_ROUTE_${operation.toUpperCase()}`];
+  const entries = spec
+    ? parseRouteSpec(spec)
+    : DEFAULT_ROUTES[operation].map(provider => ({ provider, model: undefined }));
+
+  const route: ModelRoute[] = [];
+  for (const entry of entries) {
+    const endpoint = getEndpoint(entry.provider);
+    if (!endpoint) continue;
+    route.push({ endpoint, model: entry.model || endpoint.defaultModel });
+  }
+  return route;
+}
+
+export function hasLLMProvider(operation: LLMOperation): boolean {
+  // Replayed runs answer from recorded fixtures, so no live provider is needed
+  return isReplaying() || getRoute(operation).length > 0;
+}
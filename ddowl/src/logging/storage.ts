@@ -2,6 +2,7 @@ import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { ScreeningMetrics, BenchmarkResult, FunnelSnapshot } from '../types.js';
+import type { FixtureBundle } from '../replay/fixtures.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -174,3 +175,46 @@ export function saveFunnelSnapshot(snapshot: FunnelSnapshot): void {
   fs.writeFileSync(filepath, JSON.stringify(snapshot, null, 2));
   console.log(`[BENCHMARK] Funnel snapshot saved: ${filepath}`);
 }
+
+// Load funnel snapshots saved by benchmark runs (or from another directory, e.g. CLI output)
+export function loadFunnelSnapshots(dir = path.join(BENCHMARKS_DIR, 'funnels')): FunnelSnapshot[] {
+  if (!fs.existsSync(dir)) return [];
+  const snapshots: FunnelSnapshot[] = [];
+  for (const file of fs.readdirSync(dir).filter(f => f.endsWith('.json'))) {
+    try {
+      const data = JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8'));
+      if (Array.isArray(data?.phases)) snapshots.push(data);
+    } catch {
+      // Skip invalid files
+    }
+  }
+  return snapshots;
+}
+
+// Save recorded search/page/LLM fixtures for deterministic replay
+export function saveFixtureBundle(bundle: FixtureBundle): string {
+  ensureDir(path.join(BENCHMARKS_DIR, 'fixtures'));
+  const safeName = bundle.subject.replace(/[^a-zA-Z0-9\u4e00-\u9fa5]/g, '_');
+  const filename = `${bundle.recordedAt.split('T')[0]}-${safeName}.json`;
+  const filepath = path.join(BENCHMARKS_DIR, 'fixtures', filename);
+  fs.writeFileSync(filepath, JSON.stringify(bundle, null, 2));
+  console.log(`[BENCHMARK] Fixture bundle saved: ${filepath} (${bundle.search.length} searches, ${bundle.page.length} pages, ${bundle.llm.length} LLM calls)`);
+  return filepath;
+}
+
+// Load a fixture bundle by path, or the most recent bundle recorded for a subject
+export function loadFixtureBundle(pathOrSubject: string): FixtureBundle | null {
+  if (fs.existsSync(pathOrSubject)) {
+    return JSON.parse(fs.readFileSync(pathOrSubject, 'utf8'));
+  }
+
+  const fixturesDir = path.join(BENCHMARKS_DIR, 'fixtures');
+  ensureDir(fixturesDir);
+  const safeName = pathOrSubject.replace(/[^a-zA-Z0-9\u4e00-\u9fa5]/g, '_');
+  const latest = fs.readdirSync(fixturesDir)
+    .filter(f => f.endsWith(`-${safeName}.json`))
+    .sort()
+    .pop();
+
+  return latest ? JSON.parse(fs.readFileSync(path.join(fixturesDir, latest), 'utf8')) : null;
+}
@@ -13,6 +13,14 @@ export const PROVIDER_PRICING = {
     input: 0.075,  // $0.075 per 1M input tokens (Flash)
     output: 0.30,  // $0.30 per 1M output tokens (Flash)
   },
+  local: {
+    input: 0,      // Self-hosted OpenAI-compatible endpoint
+    output: 0,
+  },
+  mock: {
+    input: 0,      // In-process responder (offline runs, tests)
+    output: 0,
+  },
 } as const;
 
 export const SERPER_COST_PER_QUERY = 0.001; // ~$0.001 per search credit
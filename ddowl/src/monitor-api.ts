@@ -0,0 +1,140 @@
+import { Router, Request, Response } from 'express';
+import {
+  addWatch, getWatch, listWatches, updateWatch, deleteWatch,
+  getMonitorRun, listMonitorRuns, getChangesSinceReport,
+} from './monitor-db.js';
+import { runMonitor, isMonitorRunning } from './monitor.js';
+
+export const monitorRouter = Router();
+
+// GET /api/monitor/watchlist — all watched subjects
+monitorRouter.get('/watchlist', async (_req: Request, res: Response) => {
+  try {
+    const watches = await listWatches();
+    res.json({ watches });
+  } catch (err) {
+    console.error('[MONITOR API] Error listing watchlist:', err);
+    res.status(500).json({ error: 'Failed to list watchlist' });
+  }
+});
+
+// POST /api/monitor/watchlist — add a subject to the watchlist
+monitorRouter.post('/watchlist', async (req: Request, res: Response) => {
+  try {
+    const { subjectName, nameVariations, language, context, scheduleDays, baselineReportId } = req.body;
+    if (!subjectName || typeof subjectName !== 'string' || subjectName.trim().length < 2) {
+      res.status(400).json({ error: 'subjectName required (2+ chars)' });
+      return;
+    }
+    if (scheduleDays !== undefined && (!Number.isInteger(scheduleDays) || scheduleDays < 1)) {
+      res.status(400).json({ error: 'scheduleDays must be a positive integer' });
+      return;
+    }
+    const id = await addWatch({
+      subjectName: subjectName.trim(),
+      nameVariations: Array.isArray(nameVariations) ? nameVariations : [],
+      language, context, scheduleDays, baselineReportId,
+    });
+    res.json({ id });
+  } catch (err) {
+    console.error('[MONITOR API] Error adding watch:', err);
+    res.status(500).json({ error: 'Failed to add watch' });
+  }
+});
+
+// GET /api/monitor/watchlist/:id — watch with recent runs
+monitorRouter.get('/watchlist/:id', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const watch = await getWatch(id);
+    if (!watch) {
+      res.status(404).json({ error: 'Watch not found' });
+      return;
+    }
+    const { seen_urls, ...rest } = watch;
+    const runs = await listMonitorRuns(id);
+    res.json({ ...rest, seenUrlCount: JSON.parse(seen_urls || '[]').length, running: isMonitorRunning(id), runs });
+  } catch (err) {
+    console.error('[MONITOR API] Error getting watch:', err);
+    res.status(500).json({ error: 'Failed to get watch' });
+  }
+});
+
+// PATCH /api/monitor/watchlist/:id — pause/resume or change schedule
+monitorRouter.patch('/watchlist/:id', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const { active, scheduleDays, context, baselineReportId } = req.body;
+    if (scheduleDays !== undefined && (!Number.isInteger(scheduleDays) || scheduleDays < 1)) {
+      res.status(400).json({ error: 'scheduleDays must be a positive integer' });
+      return;
+    }
+    await updateWatch(id, { active, scheduleDays, context, baselineReportId });
+    res.json({ success: true });
+  } catch (err) {
+    console.error('[MONITOR API] Error updating watch:', err);
+    res.status(500).json({ error: 'Failed to update watch' });
+  }
+});
+
+// DELETE /api/monitor/watchlist/:id
+monitorRouter.delete('/watchlist/:id', async (req: Request, res: Response) => {
+  try {
+    await deleteWatch(parseInt(req.params.id));
+    res.json({ success: true });
+  } catch (err) {
+    console.error('[MONITOR API] Error deleting watch:', err);
+    res.status(500).json({ error: 'Failed to delete watch' });
+  }
+});
+
+// POST /api/monitor/watchlist/:id/run — run a delta check now (in the background)
+monitorRouter.post('/watchlist/:id/run', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const watch = await getWatch(id);
+    if (!watch) {
+      res.status(404).json({ error: 'Watch not found' });
+      return;
+    }
+    if (isMonitorRunning(id)) {
+      res.status(409).json({ error: 'A run is already in progress for this watch' });
+      return;
+    }
+    runMonitor(id).catch(() => { /* recorded on the run row */ });
+    res.status(202).json({ started: true });
+  } catch (err) {
+    console.error('[MONITOR API] Error starting run:', err);
+    res.status(500).json({ error: 'Failed to start run' });
+  }
+});
+
+// GET /api/monitor/runs/:id — run summary with new/escalated findings
+monitorRouter.get('/runs/:id', async (req: Request, res: Response) => {
+  try {
+    const run = await getMonitorRun(parseInt(req.params.id));
+    if (!run) {
+      res.status(404).json({ error: 'Run not found' });
+      return;
+    }
+    res.json(run);
+  } catch (err) {
+    console.error('[MONITOR API] Error getting run:', err);
+    res.status(500).json({ error: 'Failed to get run' });
+  }
+});
+
+// GET /api/monitor/reports/:reportId/changes — everything recorded against a prior report
+monitorRouter.get('/reports/:reportId/changes', async (req: Request, res: Response) => {
+  try {
+    const reportId = parseInt(req.params.reportId);
+    const { runs, findings } = await getChangesSinceReport(reportId);
+    const lastChecked = runs.length > 0 ? runs[runs.length - 1].completed_at : null;
+    // Only "nothing new" once a check has actually run — no runs means not checked yet
+    const nothingNew = runs.length > 0 && findings.length === 0;
+    res.json({ reportId, checks: runs.length, lastChecked, nothingNew, runs, findings });
+  } catch (err) {
+    console.error('[MONITOR API] Error getting report changes:', err);
+    res.status(500).json({ error: 'Failed to get report changes' });
+  }
+});
@@ -0,0 +1,291 @@
+import { pool } from './db/index.js';
+
+// --- Init ---
+
+export async function initMonitorDb(): Promise<void> {
+  await pool.query(SCHEMA);
+}
+
+// --- Types ---
+
+export interface WatchlistRow {
+  id: number;
+  subject_name: string;
+  name_variations: string;
+  language: string;
+  context: string | null;
+  schedule_days: number;
+  baseline_report_id: number | null;
+  seen_urls: string;
+  active: number;
+  last_run_at: string | null;
+  next_run_at: string;
+  created_at: string;
+}
+
+export interface MonitorRunRow {
+  id: number;
+  watchlist_id: number;
+  prior_report_id: number | null;
+  since_date: string;
+  status: 'running' | 'complete' | 'failed';
+  gathered: number;
+  new_articles: number;
+  passed_elimination: number;
+  flagged: number;
+  new_findings: number;
+  escalated_findings: number;
+  cost_usd: number;
+  error: string | null;
+  started_at: string;
+  completed_at: string | null;
+}
+
+export interface MonitorFindingRow {
+  id: number;
+  run_id: number;
+  watchlist_id: number;
+  prior_report_id: number | null;
+  change_type: 'new' | 'escalated';
+  severity: string;
+  prior_severity: string | null;
+  prior_finding_id: number | null;
+  url: string;
+  title: string;
+  snippet: string;
+  reason: string;
+  cluster_label: string | null;
+  created_at: string;
+}
+
+export interface AddWatchInput {
+  subjectName: string;
+  nameVariations?: string[];
+  language?: string;
+  context?: string;
+  scheduleDays?: number;
+  baselineReportId?: number;
+}
+
+// Cap on remembered URLs per watch so the row stays small
+const MAX_SEEN_URLS = 5000;
+
+// --- Watchlist ---
+
+export async function addWatch(input: AddWatchInput): Promise<number> {
+  const scheduleDays = input.scheduleDays || 30;
+  const { rows: [row] } = await pool.query(`
+    INSERT INTO dd_watchlist (subject_name, name_variations, language, context, schedule_days, baseline_report_id, next_run_at)
+    VALUES ($1, $2, $3, $4, $5, $6, NOW() + make_interval(days => $5))
+    RETURNING id
+  `, [
+    input.subjectName, JSON.stringify(input.nameVariations || []), input.language || 'chinese',
+    input.context || null, scheduleDays, input.baselineReportId || null,
+  ]);
+  return row.id;
+}
+
+export async function getWatch(id: number): Promise<WatchlistRow | null> {
+  const { rows: [row] } = await pool.query('SELECT * FROM dd_watchlist WHERE id = $1', [id]);
+  return row || null;
+}
+
+export async function listWatches(): Promise<WatchlistRow[]> {
+  const { rows } = await pool.query(
+    'SELECT id, subject_name, name_variations, language, context, schedule_days, baseline_report_id, active, last_run_at, next_run_at, created_at FROM dd_watchlist ORDER BY subject_name'
+  );
+  return rows;
+}
+
+export async function listDueWatches(): Promise<WatchlistRow[]> {
+  const { rows } = await pool.query('SELECT * FROM dd_watchlist WHERE active = 1 AND next_run_at <= NOW() ORDER BY next_run_at');
+  return rows;
+}
+
+export async function updateWatch(id: number, updates: { active?: boolean; scheduleDays?: number; context?: string; baselineReportId?: number }): Promise<void> {
+  if (updates.active !== undefined) {
+    await pool.query('UPDATE dd_watchlist SET active = $1 WHERE id = $2', [updates.active ? 1 : 0, id]);
+  }
+  if (updates.scheduleDays !== undefined) {
+    await pool.query(
+      'UPDATE dd_watchlist SET schedule_days = $1, next_run_at = COALESCE(last_run_at, created_at) + make_interval(days => $1) WHERE id = $2',
+      [updates.scheduleDays, id]
+    );
+  }
+  if (updates.context !== undefined) {
+    await pool.query('UPDATE dd_watchlist SET context = $1 WHERE id = $2', [updates.context || null, id]);
+  }
+  if (updates.baselineReportId !== undefined) {
+    await pool.query('UPDATE dd_watchlist SET baseline_report_id = $1 WHERE id = $2', [updates.baselineReportId, id]);
+  }
+}
+
+export async function deleteWatch(id: number): Promise<void> {
+  await pool.query('DELETE FROM dd_watchlist WHERE id = $1', [id]);
+}
+
+export async function markWatchRun(id: number, seenUrls: string[]): Promise<void> {
+  const trimmed = seenUrls.slice(-MAX_SEEN_URLS);
+  await pool.query(`
+    UPDATE dd_watchlist
+    SET seen_urls = $1, last_run_at = NOW(), next_run_at = NOW() + make_interval(days => schedule_days)
+    WHERE id = $2
+  `, [JSON.stringify(trimmed), id]);
+}
+
+// Push a failed watch back a day so the scheduler doesn't retry it every poll
+export async function deferWatch(id: number): Promise<void> {
+  await pool.query("UPDATE dd_watchlist SET next_run_at = NOW() + INTERVAL '1 day' WHERE id = $1", [id]);
+}
+
+// --- Runs ---
+
+export async function startMonitorRun(watchlistId: number, priorReportId: number | null, sinceDate: string): Promise<number> {
+  const { rows: [row] } = await pool.query(`
+    INSERT INTO dd_monitor_runs (watchlist_id, prior_report_id, since_date, status)
+    VALUES ($1, $2, $3, 'running')
+    RETURNING id
+  `, [watchlistId, priorReportId, sinceDate]);
+  return row.id;
+}
+
+export async function completeMonitorRun(
+  runId: number,
+  result: {
+    gathered: number;
+    newArticles: number;
+    passedElimination: number;
+    flagged: number;
+    costUsd: number;
+    findings: Omit<MonitorFindingRow, 'id' | 'run_id' | 'watchlist_id' | 'prior_report_id' | 'created_at'>[];
+  }
+): Promise<void> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const { rows: [run] } = await client.query('SELECT watchlist_id, prior_report_id FROM dd_monitor_runs WHERE id = $1', [runId]);
+
+    for (const f of result.findings) {
+      await client.query(`
+        INSERT INTO dd_monitor_findings (run_id, watchlist_id, prior_report_id, change_type, severity, prior_severity, prior_finding_id, url, title, snippet, reason, cluster_label)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+      `, [runId, run.watchlist_id, run.prior_report_id, f.change_type, f.severity, f.prior_severity,
+          f.prior_finding_id, f.url, f.title, f.snippet, f.reason, f.cluster_label]);
+    }
+
+    const newCount = result.findings.filter(f => f.change_type === 'new').length;
+    const escalatedCount = result.findings.filter(f => f.change_type === 'escalated').length;
+    await client.query(`
+      UPDATE dd_monitor_runs
+      SET status = 'complete', gathered = $1, new_articles = $2, passed_elimination = $3, flagged = $4,
+          new_findings = $5, escalated_findings = $6, cost_usd = $7, completed_at = NOW()
+      WHERE id = $8
+    `, [result.gathered, result.newArticles, result.passedElimination, result.flagged,
+        newCount, escalatedCount, result.costUsd, runId]);
+
+    await client.query('COMMIT');
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+export async function failMonitorRun(runId: number, error: string): Promise<void> {
+  await pool.query(
+    "UPDATE dd_monitor_runs SET status = 'failed', error = $1, completed_at = NOW() WHERE id = $2",
+    [error, runId]
+  );
+}
+
+export async function getMonitorRun(runId: number): Promise<(MonitorRunRow & { findings: MonitorFindingRow[] }) | null> {
+  const { rows: [run] } = await pool.query('SELECT * FROM dd_monitor_runs WHERE id = $1', [runId]);
+  if (!run) return null;
+  const { rows: findings } = await pool.query('SELECT * FROM dd_monitor_findings WHERE run_id = $1 ORDER BY id', [runId]);
+  run.findings = findings;
+  return run;
+}
+
+export async function listMonitorRuns(watchlistId: number, limit: number = 20): Promise<MonitorRunRow[]> {
+  const { rows } = await pool.query(
+    'SELECT * FROM dd_monitor_runs WHERE watchlist_id = $1 ORDER BY started_at DESC LIMIT $2',
+    [watchlistId, limit]
+  );
+  return rows;
+}
+
+/**
+ * All changes recorded against a report since it was screened — empty means "nothing new".
+ */
+export async function getChangesSinceReport(reportId: number): Promise<{ runs: MonitorRunRow[]; findings: MonitorFindingRow[] }> {
+  const { rows: runs } = await pool.query(
+    "SELECT * FROM dd_monitor_runs WHERE prior_report_id = $1 AND status = 'complete' ORDER BY started_at",
+    [reportId]
+  );
+  const { rows: findings } = await pool.query(
+    'SELECT * FROM dd_monitor_findings WHERE prior_report_id = $1 ORDER BY created_at, id',
+    [reportId]
+  );
+  return { runs, findings };
+}
+
+// --- Schema DDL ---
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS dd_watchlist (
+    id SERIAL PRIMARY KEY,
+    subject_name TEXT NOT NULL,
+    name_variations TEXT NOT NULL DEFAULT '[]',
+    language TEXT NOT NULL DEFAULT 'chinese',
+    context TEXT,
+    schedule_days INTEGER NOT NULL DEFAULT 30,
+    baseline_report_id INTEGER REFERENCES dd_reports(id) ON DELETE SET NULL,
+    seen_urls TEXT NOT NULL DEFAULT '[]',
+    active INTEGER NOT NULL DEFAULT 1,
+    last_run_at TIMESTAMP,
+    next_run_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    created_at TIMESTAMP DEFAULT NOW()
+  );
+
+  CREATE TABLE IF NOT EXISTS dd_monitor_runs (
+    id SERIAL PRIMARY KEY,
+    watchlist_id INTEGER NOT NULL REFERENCES dd_watchlist(id) ON DELETE CASCADE,
+    prior_report_id INTEGER REFERENCES dd_reports(id) ON DELETE SET NULL,
+    since_date TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'running',
+    gathered INTEGER NOT NULL DEFAULT 0,
+    new_articles INTEGER NOT NULL DEFAULT 0,
+    passed_elimination INTEGER NOT NULL DEFAULT 0,
+    flagged INTEGER NOT NULL DEFAULT 0,
+    new_findings INTEGER NOT NULL DEFAULT 0,
+    escalated_findings INTEGER NOT NULL DEFAULT 0,
+    cost_usd DOUBLE PRECISION NOT NULL DEFAULT 0,
+    error TEXT,
+    started_at TIMESTAMP DEFAULT NOW(),
+    completed_at TIMESTAMP
+  );
+
+  CREATE TABLE IF NOT EXISTS dd_monitor_findings (
+    id SERIAL PRIMARY KEY,
+    run_id INTEGER NOT NULL REFERENCES dd_monitor_runs(id) ON DELETE CASCADE,
+    watchlist_id INTEGER NOT NULL REFERENCES dd_watchlist(id) ON DELETE CASCADE,
+    prior_report_id INTEGER REFERENCES dd_reports(id) ON DELETE SET NULL,
+    change_type TEXT NOT NULL,
+    severity TEXT NOT NULL,
+    prior_severity TEXT,
+    prior_finding_id INTEGER,
+    url TEXT NOT NULL,
+    title TEXT NOT NULL DEFAULT '',
+    snippet TEXT NOT NULL DEFAULT '',
+    reason TEXT NOT NULL DEFAULT '',
+    cluster_label TEXT,
+    created_at TIMESTAMP DEFAULT NOW()
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_dd_watchlist_next_run ON dd_watchlist(next_run_at);
+  CREATE INDEX IF NOT EXISTS idx_dd_monitor_runs_watchlist ON dd_monitor_runs(watchlist_id);
+  CREATE INDEX IF NOT EXISTS idx_dd_monitor_runs_prior_report ON dd_monitor_runs(prior_report_id);
+  CREATE INDEX IF NOT EXISTS idx_dd_monitor_findings_run ON dd_monitor_findings(run_id);
+  CREATE INDEX IF NOT EXISTS idx_dd_monitor_findings_prior_report ON dd_monitor_findings(prior_report_id);
+`;
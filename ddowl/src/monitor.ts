@@ -0,0 +1,264 @@
+// src/monitor.ts
+// Continuous adverse-media monitoring: scheduled delta searches for watchlisted subjects.
+// Only articles not seen before go through elimination → clustering → categorization,
+// and RED/AMBER results are compared against the prior report's findings.
+
+import { searchGoogle, dateRestriction, BatchSearchResult } from './searcher.js';
+import { isChineseName, detectScript, LANGUAGE_CONFIG } from './searchStrings.js';
+import { eliminateObviousNoise } from './eliminator.js';
+import { clusterByIncidentLLM } from './deduplicator.js';
+import { categorizeAll, CategorizedResult } from './triage.js';
+import { extractFingerprint, calculateSimilarity } from './consolidator.js';
+import { MetricsTracker } from './metrics/tracker.js';
+import type { Provider } from './metrics/costs.js';
+import { getReport, getLatestReportForSubject, type ReportRow, type FindingRow } from './reports-db.js';
+import {
+  getWatch, listDueWatches, markWatchRun, deferWatch,
+  startMonitorRun, completeMonitorRun, failMonitorRun,
+  type WatchlistRow, type MonitorFindingRow,
+} from './monitor-db.js';
+
+const MAX_PAGES_PER_QUERY = 3;       // Date-restricted queries return few results
+const SAME_INCIDENT_THRESHOLD = 0.4; // calculateSimilarity score for "already reported"
+const SCHEDULER_POLL_MS = parseInt(process.env.MONITOR_POLL_MS || '') || 15 * 60 * 1000;
+
+type ChangeFinding = Omit<MonitorFindingRow, 'id' | 'run_id' | 'watchlist_id' | 'prior_report_id' | 'created_at'>;
+
+export interface MonitorRunResult {
+  runId: number;
+  priorReportId: number | null;
+  since: string;
+  gathered: number;
+  newArticles: number;
+  passedElimination: number;
+  flagged: number;
+  changes: ChangeFinding[];
+}
+
+// Watches currently being run (prevents scheduler + manual trigger overlap)
+const runningWatches = new Set<number>();
+
+export function isMonitorRunning(watchId: number): boolean {
+  return runningWatches.has(watchId);
+}
+
+/**
+ * Run one delta screening for a watchlisted subject.
+ */
+export async function runMonitor(watchId: number): Promise<MonitorRunResult> {
+  // Claimed before the first await so a scheduler tick and a manual trigger cannot both start
+  if (runningWatches.has(watchId)) throw new Error(`Watch ${watchId} is already running`);
+  runningWatches.add(watchId);
+
+  try {
+    const watch = await getWatch(watchId);
+    if (!watch) throw new Error(`Watch ${watchId} not found`);
+
+    const priorReport = watch.baseline_report_id
+      ? await getReport(watch.baseline_report_id)
+      : await getLatestReportForSubject(watch.subject_name);
+    const since = watch.last_run_at
+      ? new Date(watch.last_run_at)
+      : priorReport ? new Date(priorReport.screened_at) : new Date(watch.created_at);
+
+    const runId = await startMonitorRun(watchId, priorReport?.id ?? null, since.toISOString());
+    console.log(`[MONITOR] Run #${runId} for "${watch.subject_name}" since ${since.toISOString().slice(0, 10)} (prior report: ${priorReport?.id ?? 'none'})`);
+
+    try {
+      const tracker = new MetricsTracker(watch.subject_name);
+
+      // Phase 1: date-restricted gather
+      const gathered = await deltaGather(watch, since, tracker);
+
+      // Drop anything we've already seen on a previous run or in the prior report
+      const seenUrls: string[] = JSON.parse(watch.seen_urls || '[]');
+      const known = new Set(seenUrls);
+      for (const f of priorReport?.findings || []) {
+        for (const s of parseSourceUrls(f)) known.add(s.url);
+      }
+      const newArticles = gathered.filter(r => !known.has(r.url));
+      console.log(`[MONITOR] Gathered ${gathered.length}, ${newArticles.length} not seen before`);
+
+      // Phase 2: programmatic elimination
+      const { passed } = eliminateObviousNoise(newArticles, watch.subject_name);
+
+      // Phase 2.5 + 3: cluster then categorize the representatives
+      let flagged: CategorizedResult[] = [];
+      if (passed.length > 0) {
+        const clusterResult = await clusterByIncidentLLM(
+          passed, watch.subject_name, 3, undefined, 0, null, undefined,
+          (provider, op, input, output, usage) => tracker.recordLLMCall(provider, op, input, output, usage)
+        );
+        const categorized = await categorizeAll(
+          clusterResult.toAnalyze, watch.subject_name, null, undefined, undefined,
+          (provider, _op, input, output, usage) => tracker.recordLLMCall(provider as Provider, 'triage', input, output, usage)
+        );
+        flagged = [...categorized.red, ...categorized.amber];
+      }
+
+      const changes = diffAgainstPriorReport(flagged, priorReport);
+      const metrics = tracker.finalize();
+
+      await completeMonitorRun(runId, {
+        gathered: gathered.length,
+        newArticles: newArticles.length,
+        passedElimination: passed.length,
+        flagged: flagged.length,
+        costUsd: metrics.totalCostUSD,
+        findings: changes,
+      });
+      await markWatchRun(watchId, [...seenUrls, ...newArticles.map(r => r.url)]);
+
+      const newCount = changes.filter(c => c.change_type === 'new').length;
+      const escalatedCount = changes.length - newCount;
+      console.log(`[MONITOR] Run #${runId} complete: ${newCount} new, ${escalatedCount} escalated`);
+
+      return {
+        runId,
+        priorReportId: priorReport?.id ?? null,
+        since: since.toISOString(),
+        gathered: gathered.length,
+        newArticles: newArticles.length,
+        passedElimination: passed.length,
+        flagged: flagged.length,
+        changes,
+      };
+    } catch (err: any) {
+      console.error(`[MONITOR] Run #${runId} failed:`, err);
+      await failMonitorRun(runId, err.message || String(err));
+      await deferWatch(watchId);
+      throw err;
+    }
+  } finally {
+    runningWatches.delete(watchId);
+  }
+}
+
+/**
+ * Poll for due watches and run them one at a time.
+ */
+export function startMonitorScheduler(): NodeJS.Timeout {
+  const tick = async () => {
+    try {
+      const due = await listDueWatches();
+      for (const watch of due) {
+        if (runningWatches.has(watch.id)) continue;
+        try {
+          await runMonitor(watch.id);
+        } catch {
+          // Already logged and recorded on the run; move on to the next watch
+        }
+      }
+    } catch (err) {
+      console.error('[MONITOR] Scheduler tick failed:', err);
+    }
+  };
+  console.log(`[MONITOR] Scheduler started (poll every ${Math.round(SCHEDULER_POLL_MS / 60000)} min)`);
+  return setInterval(tick, SCHEDULER_POLL_MS);
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+async function deltaGather(watch: WatchlistRow, since: Date, tracker: MetricsTracker): Promise<BatchSearchResult[]> {
+  const names = [watch.subject_name, ...JSON.parse(watch.name_variations || '[]') as string[]]
+    .filter((n, i, arr) => n && arr.indexOf(n) === i);
+  const languages = watch.language.split(',').map(l => l.trim()).filter(Boolean);
+  if (languages.length === 1 && languages[0] === 'both') languages.splice(0, 1, 'chinese', 'english');
+
+  // Same language → name routing as v4 gather: explicitly selected languages use every name of
+  // their script (all names for non-CJK/Latin languages); scripts detected in names are added too
+  const entries: { template: string; names: string[]; hl: string }[] = [];
+  const langs = new Set([...languages, ...names.map(n => detectScript(n))]);
+  for (const lang of langs) {
+    const cfg = LANGUAGE_CONFIG[lang];
+    if (!cfg) continue;
+    const langNames = lang === 'chinese' ? names.filter(n => isChineseName(n))
+      : lang === 'english' ? names.filter(n => !isChineseName(n))
+      : languages.includes(lang) ? names
+      : names.filter(n => detectScript(n) === lang);
+    if (langNames.length === 0) continue;
+    for (const t of [...cfg.templates, ...cfg.siteTemplates]) {
+      entries.push({ template: t, names: langNames, hl: cfg.hl });
+    }
+  }
+
+  const tbs = dateRestriction(since);
+  const results: BatchSearchResult[] = [];
+  const seen = new Set<string>();
+
+  for (const entry of entries) {
+    const query = entry.names.length === 1
+      ? entry.template.replace('{NAME}', entry.names[0])
+      : entry.template.replace('"{NAME}"', '(' + entry.names.map(n => `"${n}"`).join(' OR ') + ')');
+
+    for (let page = 1; page <= MAX_PAGES_PER_QUERY; page++) {
+      const pageResults = await searchGoogle(query, page, 10, undefined, entry.hl, tbs);
+      tracker.recordQuery(pageResults.length);
+      for (const r of pageResults) {
+        if (seen.has(r.link)) continue;
+        seen.add(r.link);
+        results.push({ url: r.link, title: r.title, snippet: r.snippet, query: entry.template });
+      }
+      if (pageResults.length < 10) break;
+      await new Promise(r => setTimeout(r, 200));
+    }
+  }
+  return results;
+}
+
+/**
+ * Classify flagged results against the prior report:
+ * - no matching prior finding → new
+ * - matches an AMBER finding but is now RED → escalated
+ * - otherwise already reported (not recorded)
+ */
+function diffAgainstPriorReport(flagged: CategorizedResult[], priorReport: ReportRow | null): ChangeFinding[] {
+  const priorFindings = (priorReport?.findings || []).map(f => ({
+    finding: f,
+    fingerprint: extractFingerprint(f.headline, f.summary),
+    urls: new Set(parseSourceUrls(f).map(s => s.url)),
+  }));
+
+  const changes: ChangeFinding[] = [];
+  for (const item of flagged) {
+    const fp = extractFingerprint(item.title, item.snippet);
+    let match: FindingRow | null = null;
+    let bestScore = 0;
+    for (const prior of priorFindings) {
+      if (prior.urls.has(item.url)) {
+        match = prior.finding;
+        break;
+      }
+      const score = calculateSimilarity(fp, prior.fingerprint, priorReport?.subject_name);
+      if (score >= SAME_INCIDENT_THRESHOLD && score > bestScore) {
+        bestScore = score;
+        match = prior.finding;
+      }
+    }
+
+    const base = {
+      severity: item.category,
+      url: item.url,
+      title: item.title,
+      snippet: item.snippet,
+      reason: item.reason,
+      cluster_label: item.clusterLabel || null,
+    };
+    if (!match) {
+      changes.push({ ...base, change_type: 'new', prior_severity: null, prior_finding_id: null });
+    } else if (item.category === 'RED' && match.severity !== 'RED') {
+      changes.push({ ...base, change_type: 'escalated', prior_severity: match.severity, prior_finding_id: match.id });
+    }
+  }
+  return changes;
+}
+
+function parseSourceUrls(finding: FindingRow): { url: string; title: string }[] {
+  try {
+    return JSON.parse(finding.source_urls || '[]');
+  } catch {
+    return [];
+  }
+}
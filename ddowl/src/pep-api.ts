@@ -0,0 +1,80 @@
+import fs from 'fs';
+import path from 'path';
+import { Router, Request, Response } from 'express';
+import { determinePEP, loadPEPFile } from './pep.js';
+import { getPEPDatasets } from './pep-db.js';
+
+export const pepRouter = Router();
+
+// Where PEP dataset files are dropped for loading (CSV or JSON, one dataset per file)
+const PEP_DIR = process.env.PEP_DIR || path.join(process.cwd(), 'data', 'pep');
+
+// POST /api/pep/check { name, nameVariations?, currentRole?, pastRoles?, associatedPeople? } — PEP determination for one subject
+pepRouter.post('/check', async (req: Request, res: Response) => {
+  try {
+    const { name, nameVariations, currentRole, pastRoles, associatedPeople } = req.body || {};
+    if (!name || typeof name !== 'string' || name.trim().length < 2) {
+      res.status(400).json({ error: 'name required (2+ chars)' }); return;
+    }
+    if (currentRole !== undefined && currentRole !== null && typeof currentRole?.title !== 'string') {
+      res.status(400).json({ error: 'currentRole must have a title' }); return;
+    }
+    if (pastRoles !== undefined && !(Array.isArray(pastRoles) && pastRoles.every((r: any) => typeof r?.title === 'string'))) {
+      res.status(400).json({ error: 'pastRoles must be an array of { title, company?, period? }' }); return;
+    }
+    if (associatedPeople !== undefined && !(Array.isArray(associatedPeople) && associatedPeople.every((p: any) => typeof p?.name === 'string' && typeof p?.relationship === 'string'))) {
+      res.status(400).json({ error: 'associatedPeople must be an array of { name, relationship }' }); return;
+    }
+
+    res.json(await determinePEP({
+      name: name.trim(),
+      nameVariations: Array.isArray(nameVariations) ? nameVariations : [],
+      profile: {
+        currentRole: currentRole ? { company: '', ...currentRole } : null,
+        pastRoles: (pastRoles || []).map((r: any) => ({ company: '', ...r })),
+        associatedPeople: associatedPeople || [],
+      },
+    }));
+  } catch (err) {
+    console.error('[PEP API] Error checking PEP status:', err);
+    res.status(500).json({ error: 'Failed to check PEP status' });
+  }
+});
+
+// GET /api/pep/datasets — loaded datasets with entry counts
+pepRouter.get('/datasets', async (_req: Request, res: Response) => {
+  try {
+    res.json({ datasets: await getPEPDatasets(), directory: PEP_DIR });
+  } catch (err) {
+    console.error('[PEP API] Error listing PEP datasets:', err);
+    res.status(500).json({ error: 'Failed to list PEP datasets' });
+  }
+});
+
+// POST /api/pep/datasets/load { files?: string[] } — (re)load dataset files from PEP_DIR
+pepRouter.post('/datasets/load', async (req: Request, res: Response) => {
+  try {
+    const { files } = req.body || {};
+    if (!fs.existsSync(PEP_DIR)) {
+      res.status(404).json({ error: `PEP directory not found: ${PEP_DIR}` }); return;
+    }
+    // Only bare file names — nothing outside the PEP directory
+    const names: string[] = Array.isArray(files) && files.length > 0
+      ? files.map((f: string) => path.basename(String(f)))
+      : fs.readdirSync(PEP_DIR).filter(f => /\.(csv|json)$/i.test(f));
+
+    const loaded: { file: string; dataset: string; entryCount: number }[] = [];
+    const failed: { file: string; error: string }[] = [];
+    for (const file of names) {
+      try {
+        loaded.push({ file, ...(await loadPEPFile(path.join(PEP_DIR, file))) });
+      } catch (err: any) {
+        failed.push({ file, error: err?.message || String(err) });
+      }
+    }
+    res.json({ loaded, failed });
+  } catch (err) {
+    console.error('[PEP API] Error loading PEP datasets:', err);
+    res.status(500).json({ error: 'Failed to load PEP datasets' });
+  }
+});
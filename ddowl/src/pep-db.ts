@@ -0,0 +1,148 @@
+import { pool } from './db/index.js';
+
+// --- Init ---
+
+export async function initPepDb(): Promise<void> {
+  await pool.query(SCHEMA);
+}
+
+// --- Types ---
+
+export interface PEPEntryInput {
+  name: string;
+  aliases: string[];
+  position: string;
+  organisation: string;
+  country: string;
+  tier: number | null;
+  status: 'current' | 'former';
+  sourceUrl: string | null;
+}
+
+export interface PEPEntryRow {
+  id: number;
+  dataset: string;
+  name: string;
+  aliases_json: string;
+  position: string;
+  organisation: string;
+  country: string;
+  tier: number | null;
+  status: 'current' | 'former';
+  source_url: string | null;
+  loaded_at: string;
+}
+
+export interface PEPDatasetRow {
+  dataset: string;
+  entry_count: number;
+  loaded_at: string;
+}
+
+// Rows per multi-row INSERT when loading a dataset
+const INSERT_BATCH = 500;
+
+// --- Datasets ---
+
+/**
+ * Replace a dataset with freshly loaded entries. `nameKeys` gives the lookup keys for an
+ * entry (name and aliases, normalised by the caller). One transaction, so a failed load
+ * leaves the previous version in place.
+ */
+export async function replacePEPDataset(
+  dataset: string,
+  entries: PEPEntryInput[],
+  nameKeys: (entry: PEPEntryInput) => string[],
+): Promise<number> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query('DELETE FROM dd_pep_entries WHERE dataset = $1', [dataset]);
+
+    for (let i = 0; i < entries.length; i += INSERT_BATCH) {
+      const batch = entries.slice(i, i + INSERT_BATCH);
+      const values: unknown[] = [];
+      const placeholders = batch.map((e, j) => {
+        values.push(dataset, e.name, JSON.stringify(e.aliases), e.position, e.organisation, e.country, e.tier, e.status, e.sourceUrl);
+        const base = j * 9;
+        return `(${Array.from({ length: 9 }, (_, k) => `$${base + k + 1}`).join(', ')})`;
+      });
+      const { rows } = await client.query(`
+        INSERT INTO dd_pep_entries (dataset, name, aliases_json, position, organisation, country, tier, status, source_url)
+        VALUES ${placeholders.join(', ')}
+        RETURNING id
+      `, values);
+
+      const keyValues: unknown[] = [];
+      const keyPlaceholders: string[] = [];
+      batch.forEach((e, j) => {
+        for (const key of new Set(nameKeys(e))) {
+          keyValues.push(rows[j].id, key);
+          keyPlaceholders.push(`($${keyValues.length - 1}, $${keyValues.length})`);
+        }
+      });
+      if (keyPlaceholders.length > 0) {
+        await client.query(`INSERT INTO dd_pep_names (entry_id, name_key) VALUES ${keyPlaceholders.join(', ')}`, keyValues);
+      }
+    }
+
+    await client.query('COMMIT');
+    return entries.length;
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+export async function getPEPDatasets(): Promise<PEPDatasetRow[]> {
+  const { rows } = await pool.query(`
+    SELECT dataset, COUNT(*)::int AS entry_count, MAX(loaded_at) AS loaded_at
+    FROM dd_pep_entries
+    GROUP BY dataset
+    ORDER BY dataset
+  `);
+  return rows;
+}
+
+// --- Lookup ---
+
+/** Entries with a name or alias under any of the given keys. */
+export async function findPEPEntries(nameKeys: string[]): Promise<(PEPEntryRow & { name_key: string })[]> {
+  if (nameKeys.length === 0) return [];
+  const { rows } = await pool.query(`
+    SELECT e.*, n.name_key
+    FROM dd_pep_names n
+    JOIN dd_pep_entries e ON e.id = n.entry_id
+    WHERE n.name_key IN (${nameKeys.map((_, i) => `$${i + 1}`).join(', ')})
+    ORDER BY e.id
+  `, nameKeys);
+  return rows;
+}
+
+// --- Schema ---
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS dd_pep_entries (
+    id SERIAL PRIMARY KEY,
+    dataset TEXT NOT NULL,
+    name TEXT NOT NULL,
+    aliases_json TEXT NOT NULL DEFAULT '[]',
+    position TEXT NOT NULL DEFAULT '',
+    organisation TEXT NOT NULL DEFAULT '',
+    country TEXT NOT NULL DEFAULT '',
+    tier INTEGER,
+    status TEXT NOT NULL DEFAULT 'current',
+    source_url TEXT,
+    loaded_at TIMESTAMP DEFAULT NOW()
+  );
+
+  CREATE TABLE IF NOT EXISTS dd_pep_names (
+    entry_id INTEGER NOT NULL REFERENCES dd_pep_entries(id) ON DELETE CASCADE,
+    name_key TEXT NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS dd_pep_entries_dataset_idx ON dd_pep_entries(dataset);
+  CREATE INDEX IF NOT EXISTS dd_pep_names_key_idx ON dd_pep_names(name_key);
+`;
@@ -0,0 +1,446 @@
+/**
+ * Politically exposed person (PEP) classification
+ *
+ * Three sources of evidence feed the determination:
+ *   - Roles in the subject profile (currentRole / pastRoles), classified by keyword into
+ *     a category (legislature, political advisory, party, government, judiciary, military,
+ *     state-owned enterprise) and an administrative level, which sets the tier
+ *   - Loadable PEP datasets, matched by name and corroborated against those roles
+ *   - Relatives and close associates from associatedPeople, checked the same way (RCA)
+ *
+ * Tiers: 1 = national-level (全国人大代表, ministers, provincial party secretaries, HK LegCo/ExCo),
+ * 2 = provincial/municipal office and central SOE leadership, 3 = local office and local SOEs.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { nameKey } from './graph-db.js';
+import { csvRecords } from './utils/csv.js';
+import { findPEPEntries, getPEPDatasets, replacePEPDataset, type PEPEntryInput, type PEPEntryRow } from './pep-db.js';
+import type { SubjectProfile } from './types.js';
+
+// --- Types ---
+
+export type PEPTier = 1 | 2 | 3;
+
+export type PEPCategory =
+  | 'legislature'          // 人大代表 / NPC, LegCo
+  | 'political_advisory'   // 政协委员 / CPPCC
+  | 'party'                // 党委书记, 省委/市委 office
+  | 'government'           // Ministers, governors, mayors, bureau heads, 国资委
+  | 'judiciary'            // Courts and procuratorates
+  | 'military'             // PLA, armed police
+  | 'soe';                 // State-owned enterprise leadership
+
+export type GovernmentLevel = 'national' | 'provincial' | 'municipal' | 'county';
+
+export type PEPStatus =
+  | 'pep'                  // Holds a PEP position now
+  | 'former_pep'           // Held one in the past
+  | 'rca'                  // Relative or close associate of a PEP
+  | 'possible_pep'         // Name-only dataset match or inferred SOE role — needs confirmation
+  | 'not_pep';
+
+export interface PEPRoleEvidence {
+  role: string;
+  organisation: string;
+  period: string | null;
+  current: boolean;
+  category: PEPCategory;
+  level: GovernmentLevel | null;
+  tier: PEPTier;
+  needsConfirmation: boolean;  // SOE status inferred from the organisation name only
+}
+
+export interface PEPListMatch {
+  dataset: string;
+  name: string;
+  matchedName: string;
+  position: string;
+  organisation: string;
+  country: string;
+  tier: PEPTier | null;
+  status: 'current' | 'former';
+  sourceUrl: string | null;
+  corroborated: boolean;       // Listed position matches a role in the profile, not just the name
+}
+
+export interface PEPAssociate {
+  name: string;
+  relationship: string;
+  type: 'relative' | 'close_associate';
+  roles: PEPRoleEvidence[];
+  listMatches: PEPListMatch[];
+  isPEP: boolean;
+}
+
+export interface PEPDetermination {
+  subject: string;
+  status: PEPStatus;
+  tier: PEPTier | null;
+  roles: PEPRoleEvidence[];
+  listMatches: PEPListMatch[];
+  associates: PEPAssociate[];
+  datasets: string[];          // PEP datasets searched
+  determinedAt: string;
+}
+
+export interface PEPSubject {
+  name: string;
+  nameVariations?: string[];
+  profile: Pick<SubjectProfile, 'currentRole' | 'pastRoles' | 'associatedPeople'>;
+}
+
+// --- Role classification ---
+
+const CATEGORY_RULES: { category: PEPCategory; pattern: RegExp }[] = [
+  { category: 'military', pattern: /解放军|解放軍|武警|中央军委|中央軍委|军区|軍區|司令员|司令員|政委|少将|中将|上将|\bPLA\b|People's Liberation Army|Central Military Commission/i },
+  { category: 'party', pattern: /中央委员|中央候补委员|政治局|Politburo|Central Committee of the (Communist|CPC)/i },
+  { category: 'legislature', pattern: /人大代表|人大常委|人民代表大会|立法会议员|立法會議員|\bNPC\b|People's Congress|Legislative Council|LegCo/i },
+  { category: 'political_advisory', pattern: /政协|政協|CPPCC|Political Consultative/i },
+  { category: 'government', pattern: /行政会议|行政會議|Executive Council|司长|司長|Chief Secretary|Financial Secretary|Secretary for Justice|行政长官|行政長官/i },
+  { category: 'government', pattern: /国资委|國資委|SASAC|State-owned Assets Supervision/i },
+  { category: 'judiciary', pattern: /法院|检察院|檢察院|法官|检察长|檢察長|Procuratorate|\bCourt\b|\bJudge\b/i },
+  { category: 'party', pattern: /党委书记|黨委書記|党委副书记|黨委副書記|党组书记|黨組書記|党工委书记|纪委书记|紀委書記|省委|市委|县委|縣委|区委|區委|Party Secretary|Party Committee/i },
+  { category: 'government', pattern: /部长|部長|省长|省長|市长|市長|县长|縣長|区长|區長|厅长|廳長|局长|局長|发改委|發改委|Minister|Governor|Mayor|Director[- ]General|Bureau Director/i },
+];
+
+// Administrative unit markers; the one closest to the role keyword decides the level
+const LEVEL_MARKERS = /全国|全國|中央|国务院|國務院|国家|國家|National|State Council|Central|香港特别行政区|香港特別行政區|HKSAR|立法会|立法會|Legislative Council|北京市|上海市|天津市|重庆市|重慶市|省|自治区|自治區|Province|Provincial|Autonomous Region|(?<!上)市(?!场|場)|Municipal|\bCity\b|县|縣|区|區|镇|鎮|乡|鄉|County|District|Township/gi;
+
+function markerLevel(marker: string): GovernmentLevel {
+  const m = marker.toLowerCase();
+  if (/全国|全國|中央|国务院|國務院|国家|國家|national|state council|central|香港|hksar|立法|legislative/.test(m)) return 'national';
+  if (/北京市|上海市|天津市|重庆市|重慶市|省|自治|province|provincial|autonomous/.test(m)) return 'provincial';
+  if (/市|municipal|city/.test(m)) return 'municipal';
+  return 'county';
+}
+
+export function governmentLevel(text: string): GovernmentLevel | null {
+  const markers = [...text.matchAll(LEVEL_MARKERS)];
+  return markers.length > 0 ? markerLevel(markers[markers.length - 1][0]) : null;
+}
+
+const TIER_BY_LEVEL: Record<PEPCategory, Record<GovernmentLevel | 'unknown', PEPTier>> = {
+  legislature:        { national: 1, provincial: 2, municipal: 3, county: 3, unknown: 2 },
+  political_advisory: { national: 1, provincial: 2, municipal: 3, county: 3, unknown: 2 },
+  party:              { national: 1, provincial: 1, municipal: 2, county: 3, unknown: 2 },
+  government:         { national: 1, provincial: 2, municipal: 2, county: 3, unknown: 2 },
+  judiciary:          { national: 1, provincial: 2, municipal: 3, county: 3, unknown: 3 },
+  military:           { national: 1, provincial: 1, municipal: 1, county: 1, unknown: 1 },
+  soe:                { national: 2, provincial: 3, municipal: 3, county: 3, unknown: 3 },
+};
+
+const SOE_EXPLICIT = /国有|國有|国资|國資|国投|國投|State[- ]owned|\bSOE\b/i;
+const SOE_LIKELY = /^(中国|中國|中华|中華|国家|國家)|城投|城建|交投|交通投资|建设投资|投资控股|投資控股/;
+const COMPANY = /集团|集團|公司|银行|銀行|Group|Corporation|Company|Bank|Limited/i;
+const SENIOR_TITLE = /董事长|董事長|总经理|總經理|总裁|總裁|党委书记|黨委書記|监事会主席|監事會主席|行长|行長|Chairman|President|General Manager|Chief Executive|\bCEO\b|Party Secretary/i;
+
+function soeRole(title: string, organisation: string): { level: GovernmentLevel | null; needsConfirmation: boolean } | null {
+  if (!organisation || !COMPANY.test(organisation) || !SENIOR_TITLE.test(title)) return null;
+  const explicit = SOE_EXPLICIT.test(organisation);
+  if (!explicit && !SOE_LIKELY.test(organisation)) return null;
+  const central = /^(中国|中國|中华|中華|国家|國家)|国务院|國務院/.test(organisation);
+  return { level: central ? 'national' : governmentLevel(organisation), needsConfirmation: !explicit };
+}
+
+/**
+ * Classify one profile role. A title can carry several positions ("全国政协委员、XX集团董事长"),
+ * so it is split and each part classified; parts that are not PEP positions are dropped.
+ */
+export function classifyRole(title: string, organisation = '', period: string | null = null, current = true): PEPRoleEvidence[] {
+  const evidence: PEPRoleEvidence[] = [];
+  // "党委书记、董事长" at one SOE is one position for PEP purposes
+  const add = (e: PEPRoleEvidence) => {
+    const same = e.organisation ? evidence.find(x => x.category === e.category && x.level === e.level && x.organisation === e.organisation) : undefined;
+    if (same) same.role = `${same.role}、${e.role}`;
+    else evidence.push(e);
+  };
+  const parts = title.split(/[、,，;；/]/).map(p => p.trim()).filter(Boolean);
+
+  for (const part of parts.length > 0 ? parts : [title]) {
+    const text = `${organisation} ${part}`.trim();
+    const soe = soeRole(part, organisation);
+    const rule = CATEGORY_RULES.find(r => r.pattern.test(part) || (r.category !== 'party' && r.pattern.test(organisation)));
+
+    if (rule && !(soe && rule.category === 'party' && !/省委|市委|县委|縣委|区委|區委|中央/.test(text))) {
+      const level = rule.category === 'military'
+        || (rule.category === 'government' && /行政会议|行政會議|Executive Council|司长|司長|Chief Secretary|Financial Secretary|Secretary for Justice|行政长官|行政長官/i.test(part))
+        ? 'national'   // Military rank and HKSAR principal officials aren't tied to a local unit
+        : governmentLevel(text);
+      add({
+        role: part, organisation, period, current,
+        category: rule.category, level,
+        tier: TIER_BY_LEVEL[rule.category][level || 'unknown'],
+        needsConfirmation: false,
+      });
+    } else if (soe) {
+      add({
+        role: part, organisation, period, current,
+        category: 'soe', level: soe.level,
+        tier: TIER_BY_LEVEL.soe[soe.level || 'unknown'],
+        needsConfirmation: soe.needsConfirmation,
+      });
+    }
+  }
+  return evidence;
+}
+
+function isCurrentPeriod(period: string | undefined): boolean {
+  return !!period && /至今|现任|現任|present|now|current/i.test(period);
+}
+
+function profileRoles(profile: PEPSubject['profile']): PEPRoleEvidence[] {
+  const roles: PEPRoleEvidence[] = [];
+  if (profile.currentRole) {
+    roles.push(...classifyRole(profile.currentRole.title, profile.currentRole.company, profile.currentRole.since || null, true));
+  }
+  for (const r of profile.pastRoles) {
+    roles.push(...classifyRole(r.title, r.company, r.period || null, isCurrentPeriod(r.period)));
+  }
+  return roles;
+}
+
+// --- Relatives and close associates ---
+
+// Whole words only ("spokesperson", "Johnson"); sister/parent not when they describe a company,
+// and Chinese siblings only as kinship terms (兄/弟 alone also make 徒弟, 弟子)
+const RELATIVE = new RegExp([
+  String.raw`\b(?:spouse|wife|wives|husband|(?:grand|step)?(?:son|daughter|father|mother|child|children)|brother|sibling|in-laws?|nephew|niece|cousin|uncle|aunt)s?\b`,
+  String.raw`\b(?:sister|parent)s?\b(?!\s+(?:company|companies|firm|group|entity|entities|corporation|bank|fund|organi[sz]ation))`,
+  '配偶|妻|丈夫|夫人|儿子|兒子|女儿|女兒|父亲|父親|母亲|母親|亲属|親屬|女婿|儿媳|兒媳|侄|外甥',
+  '兄弟|兄长|兄長|哥哥|弟弟|姐姐|妹妹|姐夫|妹夫|弟媳|嫂|[胞堂表](?:兄|弟|哥|姐|妹)|姐妹(?!公司|企业|企業|机构|機構)',
+].join('|'), 'i');
+// Whole words too: profile extraction marks every person it finds as "associated", and "partnership"
+// or "Associate Professor" say nothing about a tie to the subject
+const CLOSE_ASSOCIATE = new RegExp([
+  String.raw`\b(?:business partner|partners?|co-founders?|co-investors?|nominees?|confidants?)\b`,
+  String.raw`\bassociates?\b(?!\s+(?:professor|dean|director|editor|judge|justice|member|company|companies|degree))`,
+  '合伙|合夥|合作伙伴|合作夥伴|共同创办|共同創辦|代持|密友|亲信|親信|(?:秘书|秘書)(?!长|長)',
+].join('|'), 'i');
+
+export function classifyRelationship(relationship: string): PEPAssociate['type'] | null {
+  if (RELATIVE.test(relationship)) return 'relative';
+  if (CLOSE_ASSOCIATE.test(relationship)) return 'close_associate';
+  return null;
+}
+
+// --- Dataset matching ---
+
+/** Lookup key for PEP names: Chinese folded to Simplified, Latin tokens order-insensitive. */
+export function pepNameKey(name: string): string {
+  if (/[\u3400-\u9fff]/.test(name)) return nameKey(name);
+  return name.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase()
+    .split(/[^a-z0-9]+/).filter(Boolean).sort().join(' ');
+}
+
+function toListMatch(row: PEPEntryRow & { name_key: string }, matchedName: string, roles: PEPRoleEvidence[]): PEPListMatch {
+  // Corroborated when the listed post is the same kind of post as a profile role (全国人民代表大会
+  // deputy ≈ 全国人大代表), or the listed organisation/position appears in one
+  const listedRoles = classifyRole(row.position, row.organisation);
+  const listed = [row.organisation, row.position].map(nameKey).filter(k => k.length >= 2);
+  const corroborated = roles.some(r => {
+    if (listedRoles.some(l => l.category === r.category && (!l.level || !r.level || l.level === r.level))) return true;
+    const known = [r.organisation, r.role].map(nameKey).filter(k => k.length >= 2);
+    return listed.some(l => known.some(k => l.includes(k) || k.includes(l)));
+  });
+  return {
+    dataset: row.dataset,
+    name: row.name,
+    matchedName,
+    position: row.position,
+    organisation: row.organisation,
+    country: row.country,
+    tier: (row.tier as PEPTier | null) ?? listedRoles[0]?.tier ?? null,
+    status: row.status,
+    sourceUrl: row.source_url,
+    corroborated,
+  };
+}
+
+async function matchDatasets(names: string[], roles: PEPRoleEvidence[]): Promise<PEPListMatch[]> {
+  const keyToName = new Map(names.map(n => [pepNameKey(n), n]));
+  const rows = await findPEPEntries([...keyToName.keys()].filter(Boolean));
+  const seen = new Set<number>();
+  const matches: PEPListMatch[] = [];
+  for (const row of rows) {
+    if (seen.has(row.id)) continue;
+    seen.add(row.id);
+    matches.push(toListMatch(row, keyToName.get(row.name_key) || row.name, roles));
+  }
+  return matches;
+}
+
+// --- Determination ---
+
+function minTier(tiers: (PEPTier | null)[]): PEPTier | null {
+  const known = tiers.filter((t): t is PEPTier => t !== null);
+  return known.length > 0 ? (Math.min(...known) as PEPTier) : null;
+}
+
+/** Classify the subject's roles, match the PEP datasets and check relatives/associates. */
+export async function determinePEP(subject: PEPSubject): Promise<PEPDetermination> {
+  // Role classification doesn't need the database — carry on without datasets if it's unavailable
+  let datasets: string[] = [];
+  try {
+    datasets = (await getPEPDatasets()).map(d => d.dataset);
+  } catch (err: any) {
+    console.warn(`[PEP] Datasets unavailable, classifying profile roles only: ${err?.message}`);
+  }
+  const match = (names: string[], roles: PEPRoleEvidence[]) =>
+    datasets.length > 0 ? matchDatasets(names, roles) : Promise.resolve([]);
+
+  const roles = profileRoles(subject.profile);
+  const names = [...new Set([subject.name, ...(subject.nameVariations || [])].map(n => n.trim()).filter(Boolean))];
+  const listMatches = await match(names, roles);
+
+  const associates: PEPAssociate[] = [];
+  for (const person of subject.profile.associatedPeople) {
+    const type = classifyRelationship(person.relationship);
+    if (!type) continue;
+    // The relationship text often names the associate's post ("father, former 广东省副省长")
+    const associateRoles = classifyRole(person.relationship, '', null, !/前任?|原|former|\bex-|retired|退休/i.test(person.relationship));
+    const associateMatches = await match([person.name], associateRoles);
+    associates.push({
+      name: person.name,
+      relationship: person.relationship,
+      type,
+      roles: associateRoles,
+      listMatches: associateMatches,
+      isPEP: associateRoles.some(r => !r.needsConfirmation) || associateMatches.some(m => m.corroborated),
+    });
+  }
+
+  const confirmedRoles = roles.filter(r => !r.needsConfirmation);
+  const corroborated = listMatches.filter(m => m.corroborated);
+  const currentRoles = confirmedRoles.filter(r => r.current);
+  const currentListed = corroborated.filter(m => m.status === 'current');
+  const pepAssociates = associates.filter(a => a.isPEP);
+
+  let status: PEPStatus;
+  let tier: PEPTier | null;
+  if (currentRoles.length > 0 || currentListed.length > 0) {
+    status = 'pep';
+    tier = minTier([...currentRoles.map(r => r.tier), ...currentListed.map(m => m.tier)]);
+  } else if (confirmedRoles.length > 0 || corroborated.length > 0) {
+    status = 'former_pep';
+    tier = minTier([...confirmedRoles.map(r => r.tier), ...corroborated.map(m => m.tier)]);
+  } else if (pepAssociates.length > 0) {
+    status = 'rca';
+    tier = minTier(pepAssociates.flatMap(a => [...a.roles.map(r => r.tier), ...a.listMatches.map(m => m.tier)]));
+  } else if (roles.length > 0 || listMatches.length > 0) {
+    status = 'possible_pep';
+    tier = minTier([...roles.map(r => r.tier), ...listMatches.map(m => m.tier)]);
+  } else {
+    status = 'not_pep';
+    tier = null;
+  }
+
+  return {
+    subject: subject.name,
+    status,
+    tier,
+    roles,
+    listMatches,
+    associates,
+    datasets,
+    determinedAt: new Date().toISOString(),
+  };
+}
+
+// --- Loading ---
+
+/**
+ * Load a PEP dataset from CSV (columns: Name, Chinese Name, Aliases (';'-separated), Position,
+ * Organisation, Country, Tier, Status, Source URL) or a JSON array of PEPEntryInput.
+ * The dataset name defaults to the file name without extension; loading replaces it.
+ */
+export async function loadPEPFile(filePath: string, dataset?: string): Promise<{ dataset: string; entryCount: number }> {
+  const content = fs.readFileSync(filePath, 'utf-8');
+  const name = dataset || path.basename(filePath, path.extname(filePath));
+
+  let entries: PEPEntryInput[];
+  if (/\.json$/i.test(filePath)) {
+    const parsed = JSON.parse(content);
+    if (!Array.isArray(parsed)) throw new Error(`${filePath}: expected a JSON array of PEP entries`);
+    entries = parsed.map((e: any) => ({
+      name: String(e.name || ''),
+      aliases: Array.isArray(e.aliases) ? e.aliases.map(String) : [],
+      position: e.position || '',
+      organisation: e.organisation || '',
+      country: e.country || '',
+      tier: [1, 2, 3].includes(Number(e.tier)) ? Number(e.tier) : null,
+      status: e.status === 'former' ? 'former' : 'current',
+      sourceUrl: e.sourceUrl || null,
+    }));
+  } else {
+    entries = csvRecords(content, 'Name').map(r => ({
+      name: r['Name'] || r['Chinese Name'],
+      aliases: [r['Chinese Name'], ...(r['Aliases'] || '').split(';')].map(a => (a || '').trim()).filter(a => a && a !== r['Name']),
+      position: r['Position'] || '',
+      organisation: r['Organisation'] || '',
+      country: r['Country'] || '',
+      tier: [1, 2, 3].includes(Number(r['Tier'])) ? Number(r['Tier']) : null,
+      status: /former/i.test(r['Status'] || '') ? 'former' : 'current',
+      sourceUrl: r['Source URL'] || null,
+    }));
+  }
+  entries = entries.filter(e => e.name);
+  if (entries.length === 0) throw new Error(`No entries parsed from ${filePath}`);
+
+  const entryCount = await replacePEPDataset(name, entries, e => [e.name, ...e.aliases].map(pepNameKey).filter(Boolean));
+  console.log(`[PEP] Loaded ${entryCount} entries into dataset "${name}" from ${filePath}`);
+  return { dataset: name, entryCount };
+}
+
+// --- Report section ---
+
+export const PEP_SECTION_TITLE = 'Politically Exposed Person (PEP) Screening';
+
+const CATEGORY_LABELS: Record<PEPCategory, string> = {
+  legislature: 'legislature',
+  political_advisory: 'political advisory body',
+  party: 'Communist Party office',
+  government: 'government office',
+  judiciary: 'judiciary',
+  military: 'military',
+  soe: 'state-owned enterprise',
+};
+
+function describeRole(r: PEPRoleEvidence): string {
+  const where = r.organisation && !r.role.includes(r.organisation) ? `, ${r.organisation}` : '';
+  const when = r.current ? 'current' : r.period ? `former, ${r.period}` : 'former';
+  const confirm = r.needsConfirmation ? '; state ownership to be confirmed' : '';
+  return `${r.role}${where} (${when}) — ${r.level ? `${r.level}-level ` : ''}${CATEGORY_LABELS[r.category]}, Tier ${r.tier}${confirm}`;
+}
+
+function describeMatch(m: PEPListMatch): string {
+  const post = [m.position, m.organisation].filter(Boolean).join(', ');
+  return `Listed in the ${m.dataset} PEP dataset as ${m.name}${post ? ` (${post}, ${m.status})` : ''}${m.corroborated ? '' : ' — name match only, not corroborated by the profile'}`;
+}
+
+const STATUS_SENTENCES: Record<PEPStatus, (subject: string, tier: PEPTier | null) => string> = {
+  pep: (s, t) => `${s} is considered a politically exposed person${t ? ` (Tier ${t})` : ''} on the basis of the following.`,
+  former_pep: (s, t) => `${s} previously held positions that would make them a politically exposed person${t ? ` (Tier ${t})` : ''}, set out below.`,
+  rca: (s, t) => `${s} is not identified as holding a PEP position, but is a relative or close associate of a politically exposed person${t ? ` (Tier ${t})` : ''}.`,
+  possible_pep: s => `Information was identified that may indicate ${s} is a politically exposed person; this requires confirmation.`,
+  not_pep: s => `No information was identified indicating that ${s} is a politically exposed person.`,
+};
+
+/** Plain-text report section in the same register as the media write-up. */
+export function formatPEPSection(d: PEPDetermination): string {
+  const lines = [
+    ...d.roles.map(describeRole),
+    ...d.listMatches.map(describeMatch),
+    ...d.associates.filter(a => a.isPEP || a.listMatches.length > 0).map(a => {
+      const basis = [...a.roles.map(describeRole), ...a.listMatches.map(describeMatch)].join('; ');
+      return `${a.name} (${a.relationship}) — ${a.type === 'relative' ? 'relative' : 'close associate'}${basis ? `: ${basis}` : ''}`;
+    }),
+  ];
+
+  const searched = d.datasets.length > 0
+    ? `PEP datasets searched: ${d.datasets.join(', ')}.`
+    : 'No PEP datasets were loaded; the determination is based on the roles identified in the subject profile.';
+  const body = lines.length > 0 ? `\n\n${lines.map(l => `- ${l}`).join('\n')}` : '';
+  return `${PEP_SECTION_TITLE}\n\n${STATUS_SENTENCES[d.status](d.subject, d.tier)} ${searched}${body}`;
+}
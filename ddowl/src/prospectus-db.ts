@@ -0,0 +1,154 @@
+/**
+ * Prospectus sections storage
+ *
+ * Stores what prospectus-sections.ts reads from a deal's prospectus (or Application Proof): the
+ * people, investors and advisers it names, its use of proceeds and its risk factors. The parties
+ * are the screening subjects for the deal.
+ */
+
+import axios from 'axios';
+import { pool } from './db/index.js';
+import { extractProspectusSections } from './prospectus-parser.js';
+import type { ProspectusPartyType, ProspectusSections } from './prospectus-sections.js';
+
+// --- Types ---
+
+export interface ProspectusPartyRow {
+  id: number;
+  deal_id: number;
+  party_type: ProspectusPartyType;
+  name: string;
+  name_cn: string | null;
+  entity_type: 'person' | 'company';
+  position: string | null;
+  age: number | null;
+  bio: string | null;
+  commitment: string | null;
+  commitment_hkdm: string | null;
+}
+
+export interface DealProspectus {
+  sourceUrl: string | null;
+  sectionsFound: string[];
+  riskFactorCount: number;
+  extractedAt: string;
+  parties: ProspectusPartyRow[];
+  useOfProceeds: { purpose: string; percentage: string | null; amount_hkdm: string | null }[];
+  riskFactors: { category: string | null; heading: string }[];
+}
+
+// --- Writes ---
+
+/** Replace a deal's stored prospectus sections with a new extraction */
+export async function saveProspectusSections(dealId: number, sections: ProspectusSections, sourceUrl: string | null): Promise<void> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    for (const table of ['prospectus_parties', 'prospectus_proceeds', 'prospectus_risk_factors']) {
+      await client.query(`DELETE FROM ${table} WHERE deal_id = $1`, [dealId]);
+    }
+
+    await client.query(`
+      INSERT INTO prospectus_extractions (deal_id, source_url, sections_found, risk_factor_count, extracted_at)
+      VALUES ($1, $2, $3, $4, NOW())
+      ON CONFLICT (deal_id) DO UPDATE SET
+        source_url = EXCLUDED.source_url,
+        sections_found = EXCLUDED.sections_found,
+        risk_factor_count = EXCLUDED.risk_factor_count,
+        extracted_at = NOW()
+    `, [dealId, sourceUrl, sections.sectionsFound, sections.riskFactors.length]);
+
+    for (const p of sections.parties) {
+      await client.query(`
+        INSERT INTO prospectus_parties (deal_id, party_type, name, name_cn, entity_type, position, age, bio, commitment, commitment_hkdm)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      `, [dealId, p.type, p.name.slice(0, 300), p.nameCn, p.entityType, p.position?.slice(0, 300) ?? null, p.age, p.bio, p.commitment, p.commitmentHkdm]);
+    }
+
+    for (const [i, item] of sections.useOfProceeds.entries()) {
+      await client.query(`
+        INSERT INTO prospectus_proceeds (deal_id, position, purpose, percentage, amount_hkdm)
+        VALUES ($1, $2, $3, $4, $5)
+      `, [dealId, i + 1, item.purpose, item.percentage, item.amountHkdm]);
+    }
+
+    for (const [i, risk] of sections.riskFactors.entries()) {
+      await client.query(`
+        INSERT INTO prospectus_risk_factors (deal_id, position, category, heading)
+        VALUES ($1, $2, $3, $4)
+      `, [dealId, i + 1, risk.category?.slice(0, 300) ?? null, risk.heading]);
+    }
+
+    await client.query('COMMIT');
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+async function downloadPdf(url: string): Promise<Buffer> {
+  const response = await axios.get(url, {
+    responseType: 'arraybuffer',
+    timeout: 120000,  // Prospectuses run to several hundred pages
+    maxRedirects: 5,
+    headers: { 'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36' },
+  });
+  const buffer = Buffer.from(response.data);
+  if (buffer.slice(0, 5).toString() !== '%PDF-') {
+    throw new Error(`Not a PDF: ${url}`);
+  }
+  return buffer;
+}
+
+/**
+ * Download a deal's prospectus (or Application Proof) from url, extract its sections and store
+ * them. Throws when the download fails; a PDF with none of the sections is stored as found empty.
+ */
+export async function extractDealProspectus(dealId: number, url: string): Promise<ProspectusSections> {
+  const buffer = await downloadPdf(url);
+  const sections = await extractProspectusSections(buffer);
+  await saveProspectusSections(dealId, sections, url);
+  return sections;
+}
+
+// --- Reads ---
+
+/** A deal's stored prospectus sections, or null when it has never been extracted */
+export async function getDealProspectus(dealId: number): Promise<DealProspectus | null> {
+  const extraction = await pool.query(`
+    SELECT source_url, sections_found, risk_factor_count, extracted_at
+    FROM prospectus_extractions WHERE deal_id = $1
+  `, [dealId]);
+  if (extraction.rows.length === 0) return null;
+
+  const [parties, proceeds, risks] = await Promise.all([
+    listProspectusParties(dealId),
+    pool.query('SELECT purpose, percentage, amount_hkdm FROM prospectus_proceeds WHERE deal_id = $1 ORDER BY position', [dealId]),
+    pool.query('SELECT category, heading FROM prospectus_risk_factors WHERE deal_id = $1 ORDER BY position', [dealId]),
+  ]);
+
+  const row = extraction.rows[0];
+  return {
+    sourceUrl: row.source_url,
+    sectionsFound: row.sections_found || [],
+    riskFactorCount: row.risk_factor_count ?? 0,
+    extractedAt: row.extracted_at,
+    parties,
+    useOfProceeds: proceeds.rows,
+    riskFactors: risks.rows,
+  };
+}
+
+/** The people, investors and advisers a deal's prospectus names, board first */
+export async function listProspectusParties(dealId: number): Promise<ProspectusPartyRow[]> {
+  const result = await pool.query(`
+    SELECT * FROM prospectus_parties
+    WHERE deal_id = $1
+    ORDER BY CASE party_type
+      WHEN 'director' THEN 1 WHEN 'supervisor' THEN 2 WHEN 'senior_management' THEN 3
+      WHEN 'controlling_shareholder' THEN 4 WHEN 'cornerstone_investor' THEN 5 ELSE 6 END, id
+  `, [dealId]);
+  return result.rows;
+}
@@ -7,6 +7,7 @@
 
 import { PDFParse } from 'pdf-parse';
 import { isLikelyBank, normalizeBankName, NormalizedRole } from './bank-normalizer.js';
+import { extractProspectusSectionsFromText, type ProspectusSections } from './prospectus-sections.js';
 
 /**
  * Validate that a bank name looks legitimate (not garbage/typo/artifact)
@@ -1410,6 +1411,24 @@ export async function extractPricingFromProspectus(pdfBuffer: Buffer): Promise<P
   }
 }
 
+/**
+ * Extract directors, shareholders, cornerstone investors, advisers, use of proceeds and risk
+ * factors from a prospectus or Application Proof PDF (see prospectus-sections.ts)
+ */
+export async function extractProspectusSections(pdfBuffer: Buffer): Promise<ProspectusSections> {
+  try {
+    const uint8Array = new Uint8Array(pdfBuffer);
+    const parser = new PDFParse(uint8Array);
+    const result = await parser.getText();
+
+    const allText = result.pages.map(p => p.text).join('\n');
+    return extractProspectusSectionsFromText(allText);
+  } catch (error) {
+    console.error('Error extracting sections from prospectus:', error);
+    return { parties: [], useOfProceeds: [], riskFactors: [], sectionsFound: [] };
+  }
+}
+
 /**
  * Test the parser on a sample PDF
  */
@@ -0,0 +1,422 @@
+/**
+ * Prospectus Sections - Structured extraction from HKEX prospectus (and Application Proof) text
+ *
+ * Works on the plain text of the whole document. Each section is found by its title on a line
+ * of its own — the same title repeats as the running header of every page in the section —
+ * and ends at the next section title. From the sections it pulls:
+ * - directors, supervisors and senior management, with their bios
+ * - controlling shareholders and cornerstone investors (with commitments)
+ * - use of proceeds
+ * - risk factor headings, grouped by category
+ * - the reporting accountant and legal advisers (from "Directors and Parties Involved")
+ */
+
+export type ProspectusPartyType =
+  | 'director' | 'supervisor' | 'senior_management'
+  | 'controlling_shareholder' | 'cornerstone_investor'
+  | 'reporting_accountant' | 'legal_adviser';
+
+export interface ProspectusParty {
+  type: ProspectusPartyType;
+  name: string;
+  nameCn: string | null;
+  entityType: 'person' | 'company';
+  position: string | null;         // Board position, shareholding, or who a legal adviser acts for
+  age: number | null;
+  bio: string | null;
+  commitment: string | null;       // Cornerstone commitment as written ("US$20 million")
+  commitmentHkdm: number | null;   // Cornerstone commitment in HK$ million, when stated in HK$
+}
+
+export interface UseOfProceedsItem {
+  purpose: string;
+  percentage: number | null;
+  amountHkdm: number | null;
+}
+
+export interface RiskFactor {
+  category: string | null;
+  heading: string;
+}
+
+export type ProspectusSectionKey = 'riskFactors' | 'parties' | 'directors' | 'controllingShareholders' | 'cornerstoneInvestors' | 'useOfProceeds';
+
+export interface ProspectusSections {
+  parties: ProspectusParty[];
+  useOfProceeds: UseOfProceedsItem[];
+  riskFactors: RiskFactor[];
+  sectionsFound: ProspectusSectionKey[];
+}
+
+// Section titles as they appear on their own line (and as each page's running header)
+const SECTION_TITLES: Record<ProspectusSectionKey, RegExp> = {
+  riskFactors: /^RISK FACTORS$/,
+  parties: /^(?:DIRECTORS,? (?:SUPERVISORS )?AND )?PARTIES INVOLVED IN THE (?:GLOBAL )?(?:OFFERING|SHARE OFFER|PLACING|INTRODUCTION|SPIN-OFF)$/,
+  directors: /^DIRECTORS(?:,| AND)? (?:SUPERVISORS )?(?:AND )?SENIOR MANAGEMENT$/,
+  controllingShareholders: /^RELATIONSHIP WITH (?:OUR|THE) CONTROLLING SHAREHOLDERS?(?: GROUP)?$/,
+  cornerstoneInvestors: /^(?:THE )?CORNERSTONE INVESTORS?$/,
+  useOfProceeds: /^FUTURE PLANS AND USE OF PROCEEDS$/,
+};
+
+// Other section titles, which end whatever section precedes them
+const OTHER_TITLES = [
+  /^EXPECTED TIMETABLE$/, /^CONTENTS$/, /^SUMMARY$/, /^DEFINITIONS$/, /^GLOSSARY(?: OF [A-Z ]+)?$/,
+  /^FORWARD-LOOKING STATEMENTS$/, /^WAIVERS? FROM [A-Z ,-]+$/, /^INFORMATION ABOUT THIS [A-Z ]+$/,
+  /^CORPORATE INFORMATION$/, /^INDUSTRY OVERVIEW$/, /^REGULATORY OVERVIEW$/, /^REGULATIONS$/,
+  /^HISTORY(?:,| AND) [A-Z ,]+$/, /^BUSINESS$/, /^CONTRACTUAL ARRANGEMENTS$/, /^CONNECTED TRANSACTIONS$/,
+  /^SUBSTANTIAL SHAREHOLDERS$/, /^SHARE CAPITAL$/, /^FINANCIAL INFORMATION$/, /^UNDERWRITING$/,
+  /^STRUCTURE OF THE [A-Z ]+$/, /^HOW TO APPLY [A-Z ]+$/, /^APPENDIX [IVX]+\b.*$/,
+];
+
+const COMPANY_SUFFIX = /(?:Limited|Ltd\.?|L\.P\.|LP|LLC|L\.L\.C\.|Inc\.?|Fund|Corporation|Corp\.|Trust|Partnership|Pte\.? Ltd\.?|GmbH|AG|plc|S\.A\.|有限公司)$/;
+
+const PERSON_TITLE = /^(?:Mr\.|Ms\.|Mrs\.|Miss|Dr\.|Professor|Prof\.|Madam|Sir)\s+/;
+
+const isSectionTitle = (line: string) =>
+  Object.values(SECTION_TITLES).some(re => re.test(line)) || OTHER_TITLES.some(re => re.test(line));
+
+// Page furniture: page numbers ("– 12 –", "III-4") and similar
+const isPageNumber = (line: string) => /^[-–—]?\s*(?:[IVX]+-)?\d{1,4}\s*[-–—]?$/.test(line);
+
+const collapse = (s: string) => s.replace(/\s+/g, ' ').trim();
+
+function entityType(name: string): 'person' | 'company' {
+  return COMPANY_SUFFIX.test(name) ? 'company' : 'person';
+}
+
+function party(type: ProspectusPartyType, name: string, fields: Partial<ProspectusParty> = {}): ProspectusParty {
+  return {
+    type,
+    name,
+    nameCn: null,
+    entityType: entityType(name),
+    position: null,
+    age: null,
+    bio: null,
+    commitment: null,
+    commitmentHkdm: null,
+    ...fields,
+  };
+}
+
+/**
+ * Lines of a section, without its running headers and page numbers. The table of contents and
+ * each page header also carry the title, so the occurrence that runs longest before the next
+ * section title is taken as the section. Null when the title never appears.
+ */
+export function findSectionLines(text: string, key: ProspectusSectionKey): string[] | null {
+  const lines = text.split('\n').map(l => l.trim());
+  const title = SECTION_TITLES[key];
+  let best: string[] | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    if (!title.test(lines[i])) continue;
+    const body: string[] = [];
+    for (let j = i + 1; j < lines.length; j++) {
+      const line = lines[j];
+      if (title.test(line)) continue;
+      if (isSectionTitle(line)) break;
+      if (line && !isPageNumber(line)) body.push(line);
+    }
+    if (!best || body.length > best.length) best = body;
+  }
+
+  return best && best.length > 0 ? best : null;
+}
+
+// ── Directors, supervisors and senior management ──
+
+// "Mr. ZHANG San (張三), aged 52, is our executive Director ..."
+const BIO_START = /^((?:Mr\.|Ms\.|Mrs\.|Miss|Dr\.|Professor|Prof\.|Madam|Sir)\s+[A-Z][A-Za-z'’-]+(?:\s+[A-Z][A-Za-z'’-]+){0,4})\s*(?:[(（]([一-鿿·]{2,10})[)）])?,?\s+aged\s+(\d{2})/;
+
+const BOARD_SUBHEADINGS: Array<{ pattern: RegExp; type: ProspectusPartyType | null }> = [
+  { pattern: /^(?:BOARD OF )?DIRECTORS$|^(?:EXECUTIVE|NON-EXECUTIVE|INDEPENDENT NON-EXECUTIVE) DIRECTORS?$/i, type: 'director' },
+  { pattern: /^(?:BOARD OF )?SUPERVISORS$/i, type: 'supervisor' },
+  { pattern: /^SENIOR MANAGEMENT$/i, type: 'senior_management' },
+  // Past the people: company secretary, committees, remuneration, governance
+  { pattern: /^(?:JOINT )?COMPANY SECRETAR(?:Y|IES)$|^BOARD COMMITTEES$|^CORPORATE GOVERNANCE$|^COMPLIANCE ADVISER$|^(?:DIRECTORS'? )?REMUNERATION|^DISCLOSURE PURSUANT/i, type: null },
+];
+
+function positionFromBio(bio: string): string | null {
+  const match = bio.match(/aged\s+\d{2},?\s+(?:is|was|has been|serves as)\s+(?:our\s+|an?\s+|the\s+)?([^.]+)/i);
+  if (!match) return null;
+  const position = match[1].split(/,?\s+(?:and\s+(?:is\s+)?(?:primarily\s+)?responsible|responsible|who|since|with effect)\b/i)[0];
+  return collapse(position).slice(0, 200) || null;
+}
+
+export function extractBoard(lines: string[]): ProspectusParty[] {
+  const people: ProspectusParty[] = [];
+  let type: ProspectusPartyType | null = 'director';
+  let current: { party: ProspectusParty; text: string[] } | null = null;
+
+  const finish = () => {
+    if (!current) return;
+    const bio = collapse(current.text.join(' ')).slice(0, 2000);
+    current.party.bio = bio;
+    current.party.position = positionFromBio(bio);
+    people.push(current.party);
+    current = null;
+  };
+
+  for (const line of lines) {
+    const subheading = BOARD_SUBHEADINGS.find(s => s.pattern.test(line));
+    if (subheading) {
+      finish();
+      type = subheading.type;
+      continue;
+    }
+    if (!type) continue;
+
+    const start = line.match(BIO_START);
+    if (start) {
+      finish();
+      const name = start[1].replace(PERSON_TITLE, '');
+      if (!people.some(p => p.name === name && p.type === type)) {
+        current = { party: party(type, name, { nameCn: start[2] || null, age: parseInt(start[3]), entityType: 'person' }), text: [line] };
+      }
+    } else if (current) {
+      current.text.push(line);
+    }
+  }
+  finish();
+
+  return people;
+}
+
+// ── Controlling shareholders ──
+
+const PERSON_NAME = /(?:Mr\.|Ms\.|Mrs\.|Dr\.|Madam)\s+([A-Z][A-Za-z'’-]+(?:\s+[A-Z][A-Za-z'’-]+){0,3})/g;
+const COMPANY_NAME = /((?:[A-Z][\w&'’.-]*\s+){1,7}(?:Limited|Ltd\.|L\.P\.|LLC|Inc\.|Trust|Partnership))/g;
+
+/**
+ * The controlling shareholder group, read from the sentences in the section's opening that name
+ * the "Controlling Shareholders". The first percentage in the opening is taken as the group's stake.
+ */
+export function extractControllingShareholders(lines: string[]): ProspectusParty[] {
+  const text = collapse(lines.join(' ')).slice(0, 6000);
+  const sentences = text.split(/(?<!\b(?:Mr|Ms|Mrs|Dr|Prof|Co|Ltd|Inc|No))\.\s+(?=[A-Z])/).filter(s => /Controlling Shareholders?/.test(s));
+  const names = new Map<string, ProspectusParty>();
+  const pct = text.match(/approximately\s+([\d.]+)%/);
+  const stake = pct ? `approximately ${pct[1]}% of the issued shares` : null;
+
+  for (const sentence of sentences.slice(0, 4)) {
+    const found = [
+      ...[...sentence.matchAll(PERSON_NAME)].map(m => m[1]),
+      ...[...sentence.matchAll(COMPANY_NAME)].map(m => m[1].replace(/^(?:Accordingly|Therefore|As such|Hence|Upon|Immediately|Each|Both|The|And)\s+/, '')),
+    ];
+    for (const name of found) {
+      const clean = name.trim();
+      if (!names.has(clean) && !/\b(?:Company|Stock Exchange|Listing)\b/.test(clean)) {
+        names.set(clean, party('controlling_shareholder', clean));
+      }
+    }
+  }
+
+  return [...names.values()].map(p => ({ ...p, position: stake }));
+}
+
+// ── Cornerstone investors ──
+
+const INVESTOR_LINE = /^(?:\d{1,2}[.)]\s*|\([a-z0-9]{1,3}\)\s*)?([A-Z][A-Za-z0-9&'’.,\- ]{2,120}(?:Limited|Ltd\.?|L\.P\.|LP|LLC|L\.L\.C\.|Inc\.?|Fund|Corporation|Trust|Partnership|Pte\.? Ltd\.?|GmbH|AG|plc|S\.A\.))\s*(?:[(（][“"][^”"]+[”"][)）])?\s*(.*)$/;
+
+function hkdMillions(text: string): number | null {
+  const match = text.match(/HK\$\s?([\d,]+(?:\.\d+)?)\s*(million|billion)/i);
+  if (!match) return null;
+  const value = parseFloat(match[1].replace(/,/g, ''));
+  return match[2].toLowerCase() === 'billion' ? value * 1000 : value;
+}
+
+/**
+ * Investors named in the section, each with the amount it committed. An investor line is a
+ * numbered heading, a line holding only the name, or a table row with the amount after it;
+ * prose that merely starts with a company name is not.
+ */
+export function extractCornerstoneInvestors(lines: string[]): ProspectusParty[] {
+  const found: { name: string; index: number; numbered: boolean }[] = [];
+
+  lines.forEach((line, index) => {
+    const match = line.match(INVESTOR_LINE);
+    if (!match) return;
+    const rest = match[2].trim();
+    const numbered = /^(?:\d{1,2}[.)]|\([a-z0-9]{1,3}\))/.test(line);
+    if (!numbered && rest && !/^(?:US\$|HK\$|RMB|S\$|€)?\s*[\d,.]+/.test(rest)) return;
+    const name = match[1].replace(/[,\s]+$/, '');
+    if (/^(?:The|Our|Each|All)\b/.test(name)) return;
+    if (!found.some(f => f.name === name)) found.push({ name, index, numbered });
+  });
+
+  return found.map((investor, i) => {
+    const until = found[i + 1]?.index ?? Math.min(lines.length, investor.index + 40);
+    const text = collapse(lines.slice(investor.index, until).join(' '));
+    const amount = text.match(/(?:US\$|HK\$|RMB|S\$|€)\s?[\d,]+(?:\.\d+)?\s*(?:million|billion)?/);
+    return party('cornerstone_investor', investor.name, {
+      commitment: amount ? amount[0] : null,
+      commitmentHkdm: hkdMillions(text),
+    });
+  });
+}
+
+// ── Use of proceeds ──
+
+const PROCEEDS_ITEM = /approximately\s+([\d.]+)%\s*(?:of\s+(?:the\s+)?(?:our\s+)?net\s+proceeds,?\s*)?(?:,?\s*or\s+(?:approximately\s+)?HK\$\s?([\d,]+(?:\.\d+)?)\s*million,?\s*)?(?:of\s+(?:the\s+)?net\s+proceeds,?\s*)?(?:is|are|will be|is expected to be|are expected to be|to be)\s+(?:used|allocated|utilised|utilized|applied)\s+(?:for|to|towards|in)\s+([^;.]{5,300})/gi;
+
+export function extractUseOfProceeds(lines: string[]): UseOfProceedsItem[] {
+  const text = collapse(lines.join(' '));
+  const items: UseOfProceedsItem[] = [];
+  for (const match of text.matchAll(PROCEEDS_ITEM)) {
+    const purpose = match[3].replace(/[,:]\s*(?:including|namely|as follows).*$/i, '').trim();
+    if (items.some(i => i.purpose === purpose)) continue;
+    items.push({
+      purpose,
+      percentage: parseFloat(match[1]),
+      amountHkdm: match[2] ? parseFloat(match[2].replace(/,/g, '')) : null,
+    });
+  }
+  return items;
+}
+
+// ── Risk factors ──
+
+const RISK_CATEGORY = /^RISKS? (?:RELATING|RELATED|ASSOCIATED|IN RELATION|PERTAINING) /;
+// Risk headings state a risk: almost all use one of these words
+const RISK_WORDS = /\b(?:may|could|might|would|subject to|depend|depends|dependent|rely|relies|reliance|risk|risks|uncertain|uncertainty|uncertainties|fail|failure|adverse|adversely|affect|affected|volatile|fluctuat\w*|no assurance|cannot|unable|exposed|exposure)\b/i;
+const MAX_HEADING_LINES = 4;
+
+/**
+ * Risk factor headings. In the extracted text a heading is a single unpunctuated sentence that
+ * starts a paragraph (after a line ending a sentence, or after a category title) and is followed
+ * by its explanation, which starts a new sentence on the next line.
+ */
+export function extractRiskFactors(lines: string[]): RiskFactor[] {
+  const risks: RiskFactor[] = [];
+  let category: string | null = null;
+  let paragraphStart = true;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (RISK_CATEGORY.test(line)) {
+      category = line;
+      paragraphStart = true;
+      continue;
+    }
+
+    if (paragraphStart && /^[A-Z“"]/.test(line)) {
+      // Gather up to MAX_HEADING_LINES lines, ending where the next line opens a new sentence
+      let end = -1;
+      for (let j = i; j < Math.min(lines.length - 1, i + MAX_HEADING_LINES); j++) {
+        if (/[.;:]$/.test(lines[j])) break;
+        if (/^[A-Z“"]/.test(lines[j + 1]) && !RISK_CATEGORY.test(lines[j + 1])) {
+          end = j;
+          break;
+        }
+      }
+      if (end >= 0) {
+        const heading = collapse(lines.slice(i, end + 1).join(' '));
+        if (heading.length >= 30 && heading.length <= 400 && !/\.\s/.test(heading) && RISK_WORDS.test(heading)) {
+          risks.push({ category, heading });
+          i = end;
+          paragraphStart = true;
+          continue;
+        }
+      }
+    }
+
+    paragraphStart = /[.:]$/.test(line);
+  }
+
+  return risks;
+}
+
+// ── Reporting accountant and legal advisers ──
+
+const ACCOUNTANT_LABEL = /^(?:Auditors?\s+and\s+)?Reporting\s+Accountants?\b\s*(.*)$/i;
+const LEGAL_LABEL = /^(?:Our\s+)?Legal\s+Advis[eo]rs?\b\s*(.*)$/i;
+const JURISDICTION = /^As\s+to\s+(.+?)\s+laws?\b[^:]*:?\s*(.*)$/i;
+// Any other label in the parties list ends the current adviser block
+const OTHER_PARTY_LABEL = /^(?:Sole|Joint|Compliance|Industry|Receiving|Property|Asset|Registered|Principal|Hong Kong Share|Company Secretary|Authori[sz]ed|Audit Committee|Independent|Internal Control|Tax|Overall|Capital Market|Headquarters|Website|Directors?\b|Supervisors?\b|Name\b)/i;
+
+/** The reporting accountant and each legal adviser (by the party it acts for and jurisdiction) */
+export function extractAdvisers(lines: string[]): ProspectusParty[] {
+  const advisers: ProspectusParty[] = [];
+  let block: { type: 'reporting_accountant' | 'legal_adviser'; client: string | null } | null = null;
+  let jurisdiction: string | null = null;
+  let expectName = false;
+
+  const add = (name: string) => {
+    const clean = collapse(name).replace(/[,:]$/, '');
+    if (!block || !clean || /^Certified Public Accountants|^Registered Public Interest/i.test(clean)) return;
+    const position = block.type === 'legal_adviser'
+      ? [block.client ? `Legal adviser ${block.client}` : 'Legal adviser', jurisdiction ? `as to ${jurisdiction} law` : null].filter(Boolean).join(' ')
+      : 'Reporting accountant';
+    if (!advisers.some(a => a.name === clean && a.position === position)) {
+      advisers.push(party(block.type, clean, { entityType: 'company', position }));
+    }
+    expectName = false;
+  };
+
+  for (const raw of lines) {
+    const line = raw.replace(/\t+/g, '  ');
+    const accountant = line.match(ACCOUNTANT_LABEL);
+    const legal = line.match(LEGAL_LABEL);
+
+    if (accountant) {
+      block = { type: 'reporting_accountant', client: null };
+      jurisdiction = null;
+      expectName = true;
+      const rest = accountant[1].split(/\s{2,}/).filter(Boolean);
+      if (rest.length > 0 && !/^to\b/i.test(rest[0])) add(rest[rest.length - 1]);
+      continue;
+    }
+    if (legal) {
+      const parts = legal[1].split(/\s{2,}/).filter(Boolean);
+      const client = parts[0] && /^to\b/i.test(parts[0]) ? collapse(parts.shift()!.replace(/[:\s]+$/, '')) : null;
+      block = { type: 'legal_adviser', client };
+      jurisdiction = null;
+      expectName = true;
+      if (parts.length > 0) add(parts[parts.length - 1]);
+      continue;
+    }
+    if (!block) continue;
+
+    if (OTHER_PARTY_LABEL.test(line)) {
+      block = null;
+      continue;
+    }
+
+    const asTo = line.match(JURISDICTION);
+    if (asTo && block.type === 'legal_adviser') {
+      jurisdiction = asTo[1].replace(/^the\s+/i, '');
+      expectName = true;
+      if (asTo[2]) add(asTo[2]);
+      continue;
+    }
+
+    if (expectName) add(line);
+  }
+
+  return advisers;
+}
+
+/** Every structured section found in a prospectus's text */
+export function extractProspectusSectionsFromText(text: string): ProspectusSections {
+  const sectionsFound: ProspectusSectionKey[] = [];
+  const section = (key: ProspectusSectionKey) => {
+    const lines = findSectionLines(text, key);
+    if (lines) sectionsFound.push(key);
+    return lines || [];
+  };
+
+  const directors = extractBoard(section('directors'));
+  const controlling = extractControllingShareholders(section('controllingShareholders'));
+  const cornerstones = extractCornerstoneInvestors(section('cornerstoneInvestors'));
+  const advisers = extractAdvisers(section('parties'));
+  const useOfProceeds = extractUseOfProceeds(section('useOfProceeds'));
+  const riskFactors = extractRiskFactors(section('riskFactors'));
+
+  return {
+    parties: [...directors, ...controlling, ...cornerstones, ...advisers],
+    useOfProceeds,
+    riskFactors,
+    sectionsFound,
+  };
+}
@@ -0,0 +1,173 @@
+// src/replay/fixtures.ts
+// Record/replay of external calls (Serper searches, page fetches, LLM completions).
+//
+// A fixture session is bound to the async context it was started in, so one recording
+// screening doesn't capture calls made by other screenings running on the same server.
+// Calls outside a session go straight to the live service.
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { createHash } from 'crypto';
+import type { BatchSearchResult } from '../searcher.js';
+import type { SubjectProfile } from '../types.js';
+import type { LearningRule } from '../learning-rules.js';
+
+export type FixtureKind = 'search' | 'page' | 'llm';
+
+export const FIXTURE_BUNDLE_VERSION = 1;
+
+export interface FixtureEntry {
+  key: string;     // Hash of the call's inputs
+  label: string;   // Human-readable: query, URL, or LLM operation
+  value?: any;
+  error?: string;  // Recorded failure, re-thrown on replay
+}
+
+export interface FixtureBundle {
+  version: number;
+  subject: string;
+  recordedAt: string;
+  // Pipeline state at the start of elimination — replay starts from here
+  inputs: {
+    gathered?: BatchSearchResult[];
+    nameVariations?: string[];
+    profile?: SubjectProfile;
+    // Analyst state the run used, so later rule edits and verdicts don't change a replay
+    learningRules?: LearningRule[];
+    sourceStats?: { domain: string; times_confirmed: number; times_wrong: number }[];
+  };
+  search: FixtureEntry[];
+  page: FixtureEntry[];
+  llm: FixtureEntry[];
+}
+
+// 'error': a call not in the bundle fails (strict, fully offline)
+// 'live': a call not in the bundle hits the live service and is added to the bundle
+export type FixtureMissPolicy = 'error' | 'live';
+
+interface FixtureSession {
+  mode: 'record' | 'replay';
+  bundle: FixtureBundle;
+  index: Record<FixtureKind, Map<string, FixtureEntry>>;
+  onMiss: FixtureMissPolicy;
+  misses: { kind: FixtureKind; label: string }[];
+}
+
+const storage = new AsyncLocalStorage<FixtureSession>();
+
+export function createFixtureBundle(subject: string): FixtureBundle {
+  return {
+    version: FIXTURE_BUNDLE_VERSION,
+    subject,
+    recordedAt: new Date().toISOString(),
+    inputs: {},
+    search: [],
+    page: [],
+    llm: [],
+  };
+}
+
+function createSession(mode: FixtureSession['mode'], bundle: FixtureBundle, onMiss: FixtureMissPolicy): FixtureSession {
+  const index = { search: new Map(), page: new Map(), llm: new Map() } as FixtureSession['index'];
+  for (const kind of ['search', 'page', 'llm'] as FixtureKind[]) {
+    for (const entry of bundle[kind]) index[kind].set(entry.key, entry);
+  }
+  return { mode, bundle, index, onMiss, misses: [] };
+}
+
+/**
+ * Start recording for the rest of the current async context (e.g. one v4 request).
+ * Returns the bundle being filled; save it when the screening completes.
+ */
+export function startRecording(subject: string): FixtureBundle {
+  const bundle = createFixtureBundle(subject);
+  storage.enterWith(createSession('record', bundle, 'live'));
+  return bundle;
+}
+
+/**
+ * Run `fn` with every search/fetch/LLM call answered from `bundle`.
+ */
+export async function runWithReplay<T>(
+  bundle: FixtureBundle,
+  fn: () => Promise<T>,
+  onMiss: FixtureMissPolicy = 'error'
+): Promise<{ result: T; misses: { kind: FixtureKind; label: string }[] }> {
+  if (bundle.version !== FIXTURE_BUNDLE_VERSION) {
+    throw new Error(`Unsupported fixture bundle version ${bundle.version} (expected ${FIXTURE_BUNDLE_VERSION})`);
+  }
+  const session = createSession('replay', bundle, onMiss);
+  const result = await storage.run(session, fn);
+  return { result, misses: session.misses };
+}
+
+export function isReplaying(): boolean {
+  return storage.getStore()?.mode === 'replay';
+}
+
+/** Inputs of the bundle being replayed, or null outside a replay */
+export function replayInputs(): FixtureBundle['inputs'] | null {
+  const session = storage.getStore();
+  return session?.mode === 'replay' ? session.bundle.inputs : null;
+}
+
+/**
+ * Attach pipeline inputs (gathered results, profile, name variations) to the active recording.
+ */
+export function recordFixtureInputs(inputs: FixtureBundle['inputs']): void {
+  const session = storage.getStore();
+  if (session?.mode !== 'record') return;
+  // Deep copy — the pipeline keeps mutating these objects after this point
+  Object.assign(session.bundle.inputs, JSON.parse(JSON.stringify(inputs)));
+}
+
+export function fixtureKey(value: unknown): string {
+  return createHash('sha256').update(JSON.stringify(value)).digest('hex').slice(0, 24);
+}
+
+function isAbortError(error: any): boolean {
+  return error?.name === 'AbortError' || error?.name === 'CanceledError';
+}
+
+/**
+ * Route one external call through the active fixture session (if any).
+ * `keyInput` must capture everything that determines the response.
+ */
+export async function withFixture<T>(
+  kind: FixtureKind,
+  keyInput: unknown,
+  label: string,
+  live: () => Promise<T>
+): Promise<T> {
+  const session = storage.getStore();
+  if (!session) return live();
+
+  const key = fixtureKey(keyInput);
+  const recorded = session.index[kind].get(key);
+  if (recorded && session.mode === 'replay') {
+    if (recorded.error !== undefined) throw new Error(recorded.error);
+    return recorded.value as T;
+  }
+
+  if (session.mode === 'replay') {
+    session.misses.push({ kind, label });
+    if (session.onMiss === 'error') {
+      throw new Error(`No ${kind} fixture for "${label.slice(0, 80)}"`);
+    }
+  }
+
+  try {
+    const value = await live();
+    store(session, kind, { key, label, value });
+    return value;
+  } catch (error: any) {
+    if (!isAbortError(error)) store(session, kind, { key, label, error: error?.message || String(error) });
+    throw error;
+  }
+}
+
+function store(session: FixtureSession, kind: FixtureKind, entry: FixtureEntry): void {
+  // First response wins so repeated identical calls replay consistently
+  if (session.index[kind].has(entry.key)) return;
+  session.index[kind].set(entry.key, entry);
+  session.bundle[kind].push(entry);
+}
@@ -0,0 +1,94 @@
+// src/replay/replay.ts
+// Offline re-run of the v4 pipeline from a recorded fixture bundle.
+//
+// Starts from the gathered results captured at the start of elimination and runs the
+// engine's eliminate → consolidate phases, answering every page fetch and LLM call from
+// the bundle. Learning rules and source credibility are the ones recorded with it, and
+// rule firings are not written back. Funnel snapshots are collected by the same phases as a live benchmark run,
+// so a replay can be traced against BENCHMARK_CASES.
+
+import { ScreeningEngine, phaseRange } from '../engine/engine.js';
+import { createMemoryStore } from '../engine/store.js';
+import { getBenchmarkCase } from '../metrics/benchmarks.js';
+import { traceFunnel } from '../metrics/tracer.js';
+import type { BatchSearchResult } from '../searcher.js';
+import type {
+  ConsolidatedFinding, FunnelSnapshot, ScreeningMetrics, SubjectProfile, TraceReport,
+} from '../types.js';
+import { runWithReplay, type FixtureBundle, type FixtureKind, type FixtureMissPolicy } from './fixtures.js';
+
+export interface ReplayOptions {
+  onMiss?: FixtureMissPolicy;  // Default 'error': fully offline
+}
+
+export interface ReplayResult {
+  subject: string;
+  findings: ConsolidatedFinding[];
+  snapshot: FunnelSnapshot;
+  trace: TraceReport | null;  // null when the subject has no benchmark case
+  misses: { kind: FixtureKind; label: string }[];
+  metrics: ScreeningMetrics;
+}
+
+/**
+ * Replay a recorded screening. Deterministic as long as `misses` comes back empty.
+ */
+export async function replayBundle(bundle: FixtureBundle, options: ReplayOptions = {}): Promise<ReplayResult> {
+  const { gathered, profile, nameVariations } = bundle.inputs;
+  if (!gathered || !profile) {
+    throw new Error(`Fixture bundle for ${bundle.subject} has no pipeline inputs`);
+  }
+
+  const { result, misses } = await runWithReplay(
+    bundle,
+    () => runPipeline(bundle.subject, gathered, structuredClone(profile), nameVariations || [bundle.subject]),
+    options.onMiss
+  );
+
+  if (misses.length > 0) {
+    console.warn(`[REPLAY] ${misses.length} calls not in the bundle (${options.onMiss === 'live' ? 'answered live' : 'failed'})`);
+  }
+
+  const benchmark = getBenchmarkCase(bundle.subject);
+  return {
+    subject: bundle.subject,
+    ...result,
+    trace: benchmark ? traceFunnel(result.snapshot, benchmark) : null,
+    misses,
+  };
+}
+
+async function runPipeline(
+  subjectName: string,
+  allResults: BatchSearchResult[],
+  profile: SubjectProfile,
+  nameVariations: string[]
+): Promise<{ findings: ConsolidatedFinding[]; snapshot: FunnelSnapshot; metrics: ScreeningMetrics }> {
+  console.log(`[REPLAY] ${subjectName}: ${allResults.length} gathered results, ${nameVariations.length} name variations`);
+
+  // Same phases as a live run, minus the searches and the report/log writes in finalize
+  const engine = new ScreeningEngine(
+    { subjectName, nameVariations, languages: [] },
+    {
+      store: createMemoryStore(),
+      phases: phaseRange('eliminate', 'consolidate'),
+      funnel: true,
+      initialState: { allResults, profile },
+    }
+  );
+  await engine.run();
+
+  const { state } = engine;
+  const { tracker, funnelPhases } = engine.context;
+  const metrics = tracker.finalize();
+  return {
+    findings: state.consolidated,
+    metrics,
+    snapshot: {
+      subject: subjectName,
+      runId: metrics.runId,
+      timestamp: new Date().toISOString(),
+      phases: funnelPhases || [],
+    },
+  };
+}
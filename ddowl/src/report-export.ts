@@ -0,0 +1,562 @@
+/**
+ * Versioned JSON export of a saved screening report
+ *
+ * The contract downstream tools (deal CRM, compliance archive) consume instead of
+ * scraping report Markdown. REPORT_EXPORT_SCHEMA is the documented shape (JSON Schema);
+ * bump REPORT_EXPORT_VERSION on any breaking change — adding optional fields is not one.
+ */
+
+import type { ReportRow, ScreeningStats, CleanEntityResult } from './reports-db.js';
+import type { SanctionsCheckResult } from './sanctions.js';
+import type { PEPDetermination } from './pep.js';
+import type { LitigationResult } from './litigation.js';
+import type { FindingDates } from './types.js';
+import { datesFromRow } from './timeline.js';
+
+export const REPORT_EXPORT_VERSION = '1.0';
+
+// Article text included per source — enough to quote, not the whole page
+const EXCERPT_LENGTH = 1000;
+
+// --- Types ---
+
+export type MatchConfidence = 'strong' | 'possible' | 'weak';
+
+export interface ExportedSource {
+  url: string;
+  title: string;
+  excerpt: string | null;
+}
+
+export interface ExportedFinding {
+  id: number;
+  severity: 'RED' | 'AMBER' | 'REVIEW';
+  headline: string;
+  eventType: string;
+  summary: string;
+  dateRange: string | null;
+  dates: FindingDates | null;  // Absent from exports of findings saved before dates were recorded
+  matchConfidence: MatchConfidence | null;
+  sources: ExportedSource[];
+  review: {
+    includedInReport: boolean;
+    verdict: 'CONFIRMED' | 'WRONG' | null;
+    wrongReason: string | null;
+  };
+}
+
+export interface ExportedFunnelStage {
+  stage: string;
+  count: number;
+}
+
+export interface ReportExport {
+  schemaVersion: string;
+  exportedAt: string;
+  report: {
+    id: number;
+    runId: string;
+    screenedAt: string;
+    language: string;
+  };
+  subject: {
+    name: string;
+    variations: string[];
+    context: string | null;
+  };
+  summary: {
+    findingCount: number;
+    red: number;
+    amber: number;
+  };
+  findings: ExportedFinding[];
+  cleanResults: Record<string, CleanEntityResult[]>;
+  elimination: {
+    before: number;
+    after: number;
+    eliminated: number;
+    govBypassed: number;
+    breakdown: Record<string, number> | null;
+  } | null;
+  funnel: ExportedFunnelStage[];
+  costs: {
+    totalUsd: number;
+    llmCallCount: number | null;
+    llmCostUsd: number | null;
+    byOperation: Record<string, number> | null;
+    durationMs: number;
+    queriesExecuted: number;
+    totalSearchResults: number;
+  };
+  sanctions?: Omit<SanctionsCheckResult, 'subject'> | null;
+  pep?: Omit<PEPDetermination, 'subject'> | null;
+  litigation?: Omit<LitigationResult, 'subject'> | null;
+}
+
+// --- Schema ---
+
+const nullable = (schema: Record<string, unknown>) => ({ anyOf: [schema, { type: 'null' }] });
+const numberMap = { type: 'object', additionalProperties: { type: 'number' } };
+
+/** JSON Schema (draft 2020-12 subset) for ReportExport, served alongside the export. */
+export const REPORT_EXPORT_SCHEMA = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  $id: `ddowl/report-export/${REPORT_EXPORT_VERSION}`,
+  title: 'DD Owl screening report export',
+  type: 'object',
+  required: ['schemaVersion', 'exportedAt', 'report', 'subject', 'summary', 'findings', 'cleanResults', 'elimination', 'funnel', 'costs'],
+  properties: {
+    schemaVersion: { type: 'string', const: REPORT_EXPORT_VERSION },
+    exportedAt: { type: 'string' },
+    report: {
+      type: 'object',
+      required: ['id', 'runId', 'screenedAt', 'language'],
+      properties: {
+        id: { type: 'integer' },
+        runId: { type: 'string' },
+        screenedAt: { type: 'string' },
+        language: { type: 'string' },
+      },
+    },
+    subject: {
+      type: 'object',
+      required: ['name', 'variations', 'context'],
+      properties: {
+        name: { type: 'string' },
+        variations: { type: 'array', items: { type: 'string' } },
+        context: nullable({ type: 'string' }),
+      },
+    },
+    summary: {
+      type: 'object',
+      required: ['findingCount', 'red', 'amber'],
+      properties: {
+        findingCount: { type: 'integer' },
+        red: { type: 'integer' },
+        amber: { type: 'integer' },
+      },
+    },
+    findings: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['id', 'severity', 'headline', 'eventType', 'summary', 'dateRange', 'matchConfidence', 'sources', 'review'],
+        properties: {
+          id: { type: 'integer' },
+          severity: { enum: ['RED', 'AMBER', 'REVIEW'] },
+          headline: { type: 'string' },
+          eventType: { type: 'string' },
+          summary: { type: 'string' },
+          dateRange: nullable({ type: 'string' }),
+          dates: nullable({
+            type: 'object',
+            required: ['firstReported', 'lastReported', 'eventDates'],
+            properties: {
+              firstReported: nullable({ type: 'string' }),
+              lastReported: nullable({ type: 'string' }),
+              eventDates: { type: 'array', items: { type: 'string' } },
+            },
+          }),
+          matchConfidence: { enum: ['strong', 'possible', 'weak', null] },
+          sources: {
+            type: 'array',
+            items: {
+              type: 'object',
+              required: ['url', 'title', 'excerpt'],
+              properties: {
+                url: { type: 'string' },
+                title: { type: 'string' },
+                excerpt: nullable({ type: 'string' }),
+              },
+            },
+          },
+          review: {
+            type: 'object',
+            required: ['includedInReport', 'verdict', 'wrongReason'],
+            properties: {
+              includedInReport: { type: 'boolean' },
+              verdict: { enum: ['CONFIRMED', 'WRONG', null] },
+              wrongReason: nullable({ type: 'string' }),
+            },
+          },
+        },
+      },
+    },
+    cleanResults: {
+      type: 'object',
+      additionalProperties: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['url', 'title', 'snippet'],
+          properties: {
+            url: { type: 'string' },
+            title: { type: 'string' },
+            snippet: { type: 'string' },
+          },
+        },
+      },
+    },
+    elimination: nullable({
+      type: 'object',
+      required: ['before', 'after', 'eliminated', 'govBypassed', 'breakdown'],
+      properties: {
+        before: { type: 'integer' },
+        after: { type: 'integer' },
+        eliminated: { type: 'integer' },
+        govBypassed: { type: 'integer' },
+        breakdown: nullable(numberMap),
+      },
+    }),
+    funnel: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['stage', 'count'],
+        properties: {
+          stage: { type: 'string' },
+          count: { type: 'integer' },
+        },
+      },
+    },
+    costs: {
+      type: 'object',
+      required: ['totalUsd', 'llmCallCount', 'llmCostUsd', 'byOperation', 'durationMs', 'queriesExecuted', 'totalSearchResults'],
+      properties: {
+        totalUsd: { type: 'number' },
+        llmCallCount: nullable({ type: 'integer' }),
+        llmCostUsd: nullable({ type: 'number' }),
+        byOperation: nullable(numberMap),
+        durationMs: { type: 'integer' },
+        queriesExecuted: { type: 'integer' },
+        totalSearchResults: { type: 'integer' },
+      },
+    },
+    // Optional: null when the report predates sanctions checks or they were not requested
+    sanctions: nullable({
+      type: 'object',
+      required: ['checkedAt', 'threshold', 'lists', 'hits'],
+      properties: {
+        checkedAt: { type: 'string' },
+        threshold: { type: 'number' },
+        lists: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['source', 'label', 'entryCount', 'loadedAt'],
+            properties: {
+              source: { enum: ['ofac_sdn', 'un', 'eu', 'uk_hmt', 'hkma'] },
+              label: { type: 'string' },
+              entryCount: { type: 'integer' },
+              loadedAt: { type: 'string' },
+            },
+          },
+        },
+        hits: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: [
+              'source', 'sourceLabel', 'listId', 'entityType', 'listedName', 'matchedName', 'matchedOn', 'queryName',
+              'nameScore', 'score', 'strength', 'reasons', 'programs', 'birthDates', 'nationalities', 'remarks',
+            ],
+            properties: {
+              source: { enum: ['ofac_sdn', 'un', 'eu', 'uk_hmt', 'hkma'] },
+              sourceLabel: { type: 'string' },
+              listId: { type: 'string' },
+              entityType: { enum: ['individual', 'entity', 'vessel', 'aircraft'] },
+              listedName: { type: 'string' },
+              matchedName: { type: 'string' },
+              matchedOn: { enum: ['name', 'alias', 'weak_alias'] },
+              queryName: { type: 'string' },
+              nameScore: { type: 'number' },
+              score: { type: 'number' },
+              strength: { enum: ['strong', 'possible'] },
+              reasons: { type: 'array', items: { type: 'string' } },
+              programs: { type: 'array', items: { type: 'string' } },
+              birthDates: { type: 'array', items: { type: 'string' } },
+              nationalities: { type: 'array', items: { type: 'string' } },
+              remarks: { type: 'string' },
+            },
+          },
+        },
+      },
+    }),
+    // Optional (added in 1.0 without a version bump): null when the report predates PEP checks
+    pep: nullable({
+      type: 'object',
+      required: ['status', 'tier', 'roles', 'listMatches', 'associates', 'datasets', 'determinedAt'],
+      properties: {
+        status: { enum: ['pep', 'former_pep', 'rca', 'possible_pep', 'not_pep'] },
+        tier: { enum: [1, 2, 3, null] },
+        roles: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['role', 'organisation', 'period', 'current', 'category', 'level', 'tier', 'needsConfirmation'],
+            properties: {
+              role: { type: 'string' },
+              organisation: { type: 'string' },
+              period: nullable({ type: 'string' }),
+              current: { type: 'boolean' },
+              category: { enum: ['legislature', 'political_advisory', 'party', 'government', 'judiciary', 'military', 'soe'] },
+              level: { enum: ['national', 'provincial', 'municipal', 'county', null] },
+              tier: { enum: [1, 2, 3] },
+              needsConfirmation: { type: 'boolean' },
+            },
+          },
+        },
+        listMatches: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['dataset', 'name', 'matchedName', 'position', 'organisation', 'status', 'corroborated'],
+            properties: {
+              dataset: { type: 'string' },
+              name: { type: 'string' },
+              matchedName: { type: 'string' },
+              position: { type: 'string' },
+              organisation: { type: 'string' },
+              status: { enum: ['current', 'former'] },
+              corroborated: { type: 'boolean' },
+            },
+          },
+        },
+        associates: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['name', 'relationship', 'type', 'isPEP'],
+            properties: {
+              name: { type: 'string' },
+              relationship: { type: 'string' },
+              type: { enum: ['relative', 'close_associate'] },
+              isPEP: { type: 'boolean' },
+            },
+          },
+        },
+        datasets: { type: 'array', items: { type: 'string' } },
+        determinedAt: { type: 'string' },
+      },
+    }),
+    // Optional: null when the report predates litigation searches or they were skipped
+    litigation: nullable({
+      type: 'object',
+      required: ['searchedAt', 'queries', 'cases'],
+      properties: {
+        searchedAt: { type: 'string' },
+        queries: { type: 'integer' },
+        cases: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['caseNumber', 'year', 'court', 'caseType', 'stage', 'parties', 'subjectRoles', 'causeOfAction', 'amounts', 'dishonestDebtor', 'sources'],
+            properties: {
+              caseNumber: { type: 'string' },
+              year: { type: 'integer' },
+              court: { type: 'string' },
+              caseType: { enum: ['civil', 'criminal', 'administrative', 'enforcement', 'bankruptcy', 'other'] },
+              stage: nullable({ type: 'string' }),
+              parties: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  required: ['name', 'role'],
+                  properties: { name: { type: 'string' }, role: { type: 'string' } },
+                },
+              },
+              subjectRoles: { type: 'array', items: { type: 'string' } },
+              causeOfAction: nullable({ type: 'string' }),
+              amounts: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  required: ['amountCny', 'kind'],
+                  properties: {
+                    amountCny: { type: 'number' },
+                    kind: { enum: ['claim', 'awarded', 'enforcement', 'costs', 'other'] },
+                  },
+                },
+              },
+              dishonestDebtor: { type: 'boolean' },
+              sources: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  required: ['url', 'source'],
+                  properties: { url: { type: 'string' }, source: { type: 'string' } },
+                },
+              },
+            },
+          },
+        },
+      },
+    }),
+  },
+} as const;
+
+// --- Build ---
+
+function parseJson<T>(text: string | null, fallback: T): T {
+  if (!text) return fallback;
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+function funnelFromStats(stats: ScreeningStats): ExportedFunnelStage[] {
+  const stages: ExportedFunnelStage[] = [
+    { stage: 'gathered', count: stats.gathered },
+    { stage: 'programmatic_elimination', count: stats.programmaticElimination.after },
+  ];
+  if (stats.clustering) {
+    stages.push({ stage: 'clustered', count: stats.clustering.articlesToAnalyze });
+  }
+  stages.push(
+    { stage: 'categorized_flagged', count: stats.categorized.red + stats.categorized.amber },
+    { stage: 'analyzed', count: stats.processed.total },
+    { stage: 'adverse', count: stats.processed.adverse },
+    { stage: 'consolidated', count: stats.consolidated.after },
+  );
+  return stages;
+}
+
+/**
+ * Build the export for a report as returned by getReport().
+ * Reports saved before a field was captured export it as null rather than omitting it.
+ */
+export function buildReportExport(report: ReportRow): ReportExport {
+  const stats = parseJson<ScreeningStats | null>(report.screening_stats_json, null);
+  const sanctions = parseJson<SanctionsCheckResult | null>(report.sanctions_json, null);
+  const pep = parseJson<PEPDetermination | null>(report.pep_json, null);
+  const litigation = parseJson<LitigationResult | null>(report.litigation_json, null);
+
+  const findings: ExportedFinding[] = report.findings.map(f => {
+    const sources = parseJson<{ url: string; title: string }[]>(f.source_urls, []);
+    const articles = parseJson<{ url: string; content: string }[]>(f.article_contents_json, []);
+    return {
+      id: f.id,
+      severity: f.severity as ExportedFinding['severity'],
+      headline: f.headline,
+      eventType: f.event_type,
+      summary: f.summary,
+      dateRange: f.date_range || null,
+      dates: datesFromRow(f) || null,
+      matchConfidence: (f.match_confidence as MatchConfidence | null) || null,
+      sources: sources.map(s => {
+        const content = articles.find(a => a.url === s.url)?.content;
+        return { url: s.url, title: s.title, excerpt: content ? content.slice(0, EXCERPT_LENGTH) : null };
+      }),
+      review: {
+        includedInReport: f.included_in_report === 1,
+        verdict: (f.human_verdict as ExportedFinding['review']['verdict']) || null,
+        wrongReason: f.wrong_reason || null,
+      },
+    };
+  });
+
+  return {
+    schemaVersion: REPORT_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    report: {
+      id: report.id,
+      runId: report.run_id,
+      screenedAt: report.screened_at,
+      language: report.language,
+    },
+    subject: {
+      name: report.subject_name,
+      variations: parseJson<string[]>(report.name_variations, []),
+      context: report.context || null,
+    },
+    summary: {
+      findingCount: report.finding_count,
+      red: report.red_count,
+      amber: report.amber_count,
+    },
+    findings,
+    cleanResults: parseJson<Record<string, CleanEntityResult[]>>(report.clean_results_json, {}),
+    elimination: stats ? {
+      before: stats.programmaticElimination.before,
+      after: stats.programmaticElimination.after,
+      eliminated: stats.programmaticElimination.eliminated,
+      govBypassed: stats.programmaticElimination.govBypassed,
+      breakdown: stats.programmaticElimination.breakdown ? { ...stats.programmaticElimination.breakdown } : null,
+    } : null,
+    funnel: stats ? funnelFromStats(stats) : [],
+    costs: {
+      totalUsd: Number(report.cost_usd),
+      llmCallCount: stats?.llmCallCount ?? null,
+      llmCostUsd: stats?.llmCostUsd ?? null,
+      byOperation: stats?.llmCostByOperation ?? null,
+      durationMs: report.duration_ms,
+      queriesExecuted: report.queries_executed,
+      totalSearchResults: report.total_search_results,
+    },
+    sanctions: sanctions ? (({ subject: _subject, ...rest }) => rest)(sanctions) : null,
+    pep: pep ? (({ subject: _subject, ...rest }) => rest)(pep) : null,
+    litigation: litigation ? (({ subject: _subject, ...rest }) => rest)(litigation) : null,
+  };
+}
+
+// --- Validate ---
+
+function typeMatches(type: string, value: unknown): boolean {
+  switch (type) {
+    case 'null': return value === null;
+    case 'array': return Array.isArray(value);
+    case 'object': return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'integer': return Number.isInteger(value);
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    default: return typeof value === type;
+  }
+}
+
+function validateNode(schema: any, value: unknown, path: string, errors: string[]): void {
+  if (schema.anyOf) {
+    const matched = schema.anyOf.some((s: any) => {
+      const sub: string[] = [];
+      validateNode(s, value, path, sub);
+      return sub.length === 0;
+    });
+    if (!matched) errors.push(`${path}: does not match any allowed schema`);
+    return;
+  }
+  if (schema.const !== undefined && value !== schema.const) {
+    errors.push(`${path}: expected ${JSON.stringify(schema.const)}`);
+    return;
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(`${path}: expected one of ${schema.enum.map((v: unknown) => JSON.stringify(v)).join(', ')}`);
+    return;
+  }
+  if (schema.type && !typeMatches(schema.type, value)) {
+    errors.push(`${path}: expected ${schema.type}`);
+    return;
+  }
+  if (schema.type === 'array' && schema.items) {
+    (value as unknown[]).forEach((item, i) => validateNode(schema.items, item, `${path}[${i}]`, errors));
+  }
+  if (schema.type === 'object') {
+    const obj = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (!(key in obj)) errors.push(`${path}.${key}: required`);
+    }
+    for (const [key, child] of Object.entries(obj)) {
+      const propSchema = schema.properties?.[key] ?? schema.additionalProperties;
+      if (propSchema) validateNode(propSchema, child, `${path}.${key}`, errors);
+    }
+  }
+}
+
+/**
+ * Check a value against REPORT_EXPORT_SCHEMA.
+ * Returns a list of "$.path: problem" messages — empty when the export is valid.
+ */
+export function validateReportExport(value: unknown): string[] {
+  const errors: string[] = [];
+  validateNode(REPORT_EXPORT_SCHEMA, value, '$', errors);
+  return errors;
+}
@@ -1,47 +1,18 @@
 // src/reportGenerator.ts
 // Generates professional DD write-ups from screening findings
 
-import axios from 'axios';
 import { ConsolidatedFinding } from './types.js';
 import { CleanEntityResult } from './reports-db.js';
+import { formatSanctionsSection, type SanctionsCheckResult } from './sanctions.js';
+import { formatPEPSection, type PEPDetermination } from './pep.js';
+import { formatLitigationSection, type LitigationResult } from './litigation.js';
+import { formatTimelineSection } from './timeline.js';
+import { findingHistoryNote } from './finding-memory.js';
+import { archivedCopyUrl } from './evidence-store.js';
+import { completeLLM, streamLLM } from './llm/client.js';
 
-// LLM Configuration (same fallback chain as other modules)
-const KIMI_API_KEY = process.env.KIMI_API_KEY || '';
-const DEEPSEEK_API_KEY = process.env.DEEPSEEK_API_KEY || '';
-
-// Provider configuration
-interface LLMProvider {
-  name: string;
-  url: string;
-  model: string;
-  apiKey: string;
-}
-
-function getProviders(): LLMProvider[] {
-  const providers: LLMProvider[] = [];
-
-  // Kimi k2 is primary — best for bilingual extraction and Chinese content
-  if (KIMI_API_KEY) {
-    providers.push({
-      name: 'Kimi',
-      url: 'https://api.moonshot.ai/v1/chat/completions',
-      model: process.env.KIMI_MODEL || 'kimi-k2',
-      apiKey: KIMI_API_KEY,
-    });
-  }
-
-  // DeepSeek as fallback
-  if (DEEPSEEK_API_KEY) {
-    providers.push({
-      name: 'DeepSeek',
-      url: 'https://api.deepseek.com/v1/chat/completions',
-      model: 'deepseek-chat',
-      apiKey: DEEPSEEK_API_KEY,
-    });
-  }
-
-  return providers;
-}
+// Write-ups use the 'report' route (Kimi k2 first — best for bilingual extraction
+// and Chinese content — then DeepSeek)
 
 // Streaming callback type
 export type StreamCallback = (chunk: string) => void;
@@ -211,37 +182,16 @@ RULES:
 - If information is not available, use empty string or empty array
 - Do NOT invent or hallucinate any detail`;
 
-  const providers = getProviders();
-
-  for (const provider of providers) {
-    try {
-      const response = await axios.post(
-        provider.url,
-        {
-          model: provider.model,
-          messages: [{ role: 'user', content: prompt }],
-          temperature: 0,
-        },
-        {
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${provider.apiKey}`,
-          },
-          timeout: 60000,
-        }
-      );
-
-      const text = response.data.choices?.[0]?.message?.content || '';
-      const jsonMatch = text.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        const parsed = JSON.parse(jsonMatch[0]);
-        console.log(`[REPORT] ✓ Facts extracted from ${sourceUrl} via ${provider.name}`);
-        return parsed as ReportExtractedFacts;
-      }
-    } catch (err: any) {
-      console.log(`[REPORT] ✗ Fact extraction failed with ${provider.name}: ${err.message}`);
-      continue;
+  try {
+    const response = await completeLLM({ operation: 'report', prompt, temperature: 0, timeout: 60000 });
+    const jsonMatch = response.text.match(/\{[\s\S]*\}/);
+    if (jsonMatch) {
+      const parsed = JSON.parse(jsonMatch[0]);
+      console.log(`[REPORT] ✓ Facts extracted from ${sourceUrl} via ${response.providerName}`);
+      return parsed as ReportExtractedFacts;
     }
+  } catch (err: any) {
+    console.log(`[REPORT] ✗ Fact extraction failed: ${err.message}`);
   }
 
   // Fallback: return minimal facts from metadata
@@ -341,108 +291,21 @@ Chinese media outlets including Sina Finance (新浪财经) and Yicai Global (
 
 Now write the finding:`;
 
-  const providers = getProviders();
-  let fullResponse = '';
-
-  for (const provider of providers) {
-    try {
-      console.log(`[REPORT] Generating fact-based write-up with ${provider.name} (streaming)...`);
-
-      const response = await axios.post(
-        provider.url,
-        {
-          model: provider.model,
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: userPrompt },
-          ],
-          temperature: 0.3,
-          stream: true,
-        },
-        {
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${provider.apiKey}`,
-          },
-          timeout: 120000,
-          responseType: 'stream',
-        }
-      );
-
-      const streamResult = await new Promise<string>((resolve, reject) => {
-        let buffer = '';
-
-        response.data.on('data', (chunk: Buffer) => {
-          const text = chunk.toString();
-          buffer += text;
-
-          const lines = buffer.split('\n');
-          buffer = lines.pop() || '';
-
-          for (const line of lines) {
-            if (line.startsWith('data: ')) {
-              const data = line.slice(6);
-              if (data === '[DONE]') continue;
-
-              try {
-                const parsed = JSON.parse(data);
-                const content = parsed.choices?.[0]?.delta?.content || '';
-                if (content) {
-                  fullResponse += content;
-                  onChunk(content);
-                }
-              } catch {
-                // Ignore parse errors for incomplete chunks
-              }
-            }
-          }
-        });
-
-        response.data.on('end', () => {
-          console.log(`[REPORT] ✓ Fact-based write-up generated with ${provider.name}`);
-          resolve(fullResponse);
-        });
-
-        response.data.on('error', (err: Error) => {
-          reject(err);
-        });
-      });
-
-      return { text: streamResult, footnotesUsed };
-    } catch (error: any) {
-      console.log(`[REPORT] ✗ ${provider.name} fact-based streaming failed: ${error.message}`);
-
-      // Try non-streaming fallback
-      try {
-        const response = await axios.post(
-          provider.url,
-          {
-            model: provider.model,
-            messages: [
-              { role: 'system', content: systemPrompt },
-              { role: 'user', content: userPrompt },
-            ],
-            temperature: 0.3,
-          },
-          {
-            headers: {
-              'Content-Type': 'application/json',
-              'Authorization': `Bearer ${provider.apiKey}`,
-            },
-            timeout: 120000,
-          }
-        );
-
-        const content = response.data.choices?.[0]?.message?.content || '';
-        if (content) {
-          onChunk(content);
-          return { text: content, footnotesUsed };
-        }
-      } catch (fallbackError: any) {
-        console.log(`[REPORT] ✗ ${provider.name} fact-based non-streaming also failed: ${fallbackError.message}`);
-      }
-      continue;
-    }
+  try {
+    console.log(`[REPORT] Generating fact-based write-up (streaming)...`);
+    const result = await streamLLM({
+      operation: 'report',
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt },
+      ],
+      temperature: 0.3,
+      timeout: 120000,
+    }, onChunk);
+    console.log(`[REPORT] ✓ Fact-based write-up generated with ${result.providerName}`);
+    return { text: result.text, footnotesUsed };
+  } catch (error: any) {
+    console.log(`[REPORT] ✗ Fact-based write-up failed: ${error.message}`);
   }
 
   // Fallback
@@ -579,107 +442,13 @@ No information was found indicating that these violations resulted in major oper
 
 Now write the finding for the issue described above:`;
 
-  const providers = getProviders();
-  let fullResponse = '';
-
-  for (const provider of providers) {
-    try {
-      console.log(`[REPORT] Generating write-up with ${provider.name} (streaming)...`);
-
-      // Use streaming for better UX
-      const response = await axios.post(
-        provider.url,
-        {
-          model: provider.model,
-          messages: [{ role: 'user', content: prompt }],
-          temperature: 0.3,
-          stream: true,
-        },
-        {
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${provider.apiKey}`,
-          },
-          timeout: 120000,
-          responseType: 'stream',
-        }
-      );
-
-      // Process SSE stream
-      const streamResult = await new Promise<string>((resolve, reject) => {
-        let buffer = '';
-
-        response.data.on('data', (chunk: Buffer) => {
-          const text = chunk.toString();
-          buffer += text;
-
-          // Process complete SSE messages
-          const lines = buffer.split('\n');
-          buffer = lines.pop() || ''; // Keep incomplete line in buffer
-
-          for (const line of lines) {
-            if (line.startsWith('data: ')) {
-              const data = line.slice(6);
-              if (data === '[DONE]') continue;
-
-              try {
-                const parsed = JSON.parse(data);
-                const content = parsed.choices?.[0]?.delta?.content || '';
-                if (content) {
-                  fullResponse += content;
-                  onChunk(content);
-                }
-              } catch {
-                // Ignore parse errors for incomplete chunks
-              }
-            }
-          }
-        });
-
-        response.data.on('end', () => {
-          console.log(`[REPORT] ✓ Write-up generated with ${provider.name}`);
-          resolve(fullResponse);
-        });
-
-        response.data.on('error', (err: Error) => {
-          reject(err);
-        });
-      });
-      return { text: streamResult, footnotesUsed };
-
-    } catch (error: any) {
-      console.log(`[REPORT] ✗ ${provider.name} streaming failed: ${error.message || error}`);
-
-      // Try non-streaming fallback
-      try {
-        console.log(`[REPORT] Trying ${provider.name} non-streaming...`);
-        const response = await axios.post(
-          provider.url,
-          {
-            model: provider.model,
-            messages: [{ role: 'user', content: prompt }],
-            temperature: 0.3,
-          },
-          {
-            headers: {
-              'Content-Type': 'application/json',
-              'Authorization': `Bearer ${provider.apiKey}`,
-            },
-            timeout: 120000,
-          }
-        );
-
-        const content = response.data.choices?.[0]?.message?.content || '';
-        if (content) {
-          console.log(`[REPORT] ✓ Write-up generated with ${provider.name} (non-streaming)`);
-          onChunk(content);
-          return { text: content, footnotesUsed };
-        }
-      } catch (fallbackError: any) {
-        console.log(`[REPORT] ✗ ${provider.name} non-streaming also failed: ${fallbackError.message}`);
-      }
-      continue;
-    }
+  try {
+    console.log(`[REPORT] Generating write-up (streaming)...`);
+    const result = await streamLLM({ operation: 'report', prompt, temperature: 0.3, timeout: 120000 }, onChunk);
+    console.log(`[REPORT] ✓ Write-up generated with ${result.providerName}`);
+    return { text: result.text, footnotesUsed };
+  } catch (error: any) {
+    console.log(`[REPORT] ✗ Write-up failed: ${error.message || error}`);
   }
 
   // Fallback: return basic formatted info
@@ -719,40 +488,20 @@ Rules:
 - Include relationship to parent subject if evident
 - Neutral tone, professional English`;
 
-  const providers = getProviders();
-
-  for (const provider of providers) {
-    try {
-      console.log(`[REPORT] Generating clean write-up for "${entityName}" with ${provider.name}...`);
-      const response = await axios.post(
-        provider.url,
-        {
-          model: provider.model,
-          messages: [{ role: 'user', content: prompt }],
-          temperature: 0.3,
-        },
-        {
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${provider.apiKey}`,
-          },
-          timeout: 30000,
-        }
-      );
-
-      const clause = response.data.choices?.[0]?.message?.content?.trim();
-      if (clause) {
-        console.log(`[REPORT] ✓ Clean write-up for "${entityName}" via ${provider.name}`);
-        // Build the full template block
-        const sourceList = searchResults.map(r => r.url).join('\n');
-        const block = `Media and online coverage of ${entityName} is mainly neutral. Online and media references to ${entityName} primarily relate to ${clause}.[1]\nOnline and media research found no significant negative issues with the subject.\n\n[1]  ${sourceList}`;
-        onChunk(block);
-        return block;
-      }
-    } catch (err: any) {
-      console.log(`[REPORT] ✗ ${provider.name} clean write-up failed: ${err.message}`);
-      continue;
+  try {
+    console.log(`[REPORT] Generating clean write-up for "${entityName}"...`);
+    const response = await completeLLM({ operation: 'report', prompt, temperature: 0.3, timeout: 30000 });
+    const clause = response.text.trim();
+    if (clause) {
+      console.log(`[REPORT] ✓ Clean write-up for "${entityName}" via ${response.providerName}`);
+      // Build the full template block
+      const sourceList = searchResults.map(r => r.url).join('\n');
+      const block = `Media and online coverage of ${entityName} is mainly neutral. Online and media references to ${entityName} primarily relate to ${clause}.[1]\nOnline and media research found no significant negative issues with the subject.\n\n[1]  ${sourceList}`;
+      onChunk(block);
+      return block;
     }
+  } catch (err: any) {
+    console.log(`[REPORT] ✗ Clean write-up failed: ${err.message}`);
   }
 
   // Fallback: generic clause
@@ -764,14 +513,16 @@ Rules:
 
 /**
  * Generate full report with streaming — covers all entities (flagged + clean)
- * Emits intro paragraph, findings with sequential [N] footnotes, and consolidated source list.
+ * Emits intro paragraph, findings with sequential [N] footnotes, the findings timeline, the
+ * litigation, PEP and sanctions sections (when those checks ran) and consolidated source list.
  */
 export async function generateFullReport(
   subjectName: string,
   findings: ConsolidatedFinding[],
   cleanResults: Record<string, CleanEntityResult[]>,
   nameVariations: string[],
-  onChunk: StreamCallback
+  onChunk: StreamCallback,
+  sections: { litigation?: LitigationResult | null; pep?: PEPDetermination | null; sanctions?: SanctionsCheckResult | null } = {}
 ): Promise<void> {
   // Determine which name variations have findings
   const flaggedEntities = new Set<string>();
@@ -806,6 +557,7 @@ export async function generateFullReport(
   // Global footnote tracking
   let footnoteIndex = 1;
   const allSourceUrls: string[] = [];
+  const archivedHashes = new Map<string, string>();
 
   // Emit intro paragraph
   const coverage = findings.length > 3 ? 'extensive' : 'limited';
@@ -838,10 +590,20 @@ export async function generateFullReport(
         if (entityFindings[i].snippetBased) {
           onChunk('\n\nNote: This finding is based on source metadata; full article content was not accessible at time of screening.');
         }
-        // Collect source URLs for consolidated footnotes
+        if (entityFindings[i].lowCredibility) {
+          onChunk('\n\nNote: This finding is reported only by sources of low credibility and has not been corroborated by an established outlet or official source.');
+        }
+        const historyNote = findingHistoryNote(entityFindings[i].history);
+        if (historyNote) {
+          onChunk(`\n\n${historyNote}`);
+        }
+        // Collect source URLs (and their archived copies) for consolidated footnotes
         for (const src of entityFindings[i].sources) {
           allSourceUrls.push(src.url);
         }
+        for (const ev of entityFindings[i].evidence || []) {
+          archivedHashes.set(ev.url, ev.hash);
+        }
         footnoteIndex += result.footnotesUsed;
       }
     } else if (cleanResults[nv] && cleanResults[nv].length > 0) {
@@ -866,10 +628,36 @@ export async function generateFullReport(
     }
   }
 
+  // Chronology of the findings, then the litigation, PEP and sanctions sections (when the screening
+  // ran those phases), all before the footnotes
+  const timeline = formatTimelineSection(findings);
+  if (timeline) {
+    onChunk(`\n\n${timeline}`);
+  }
+  if (sections.litigation) {
+    onChunk(`\n\n${formatLitigationSection(sections.litigation)}`);
+  }
+  if (sections.pep) {
+    onChunk(`\n\n${formatPEPSection(sections.pep)}`);
+  }
+  if (sections.sanctions) {
+    onChunk(`\n\n${formatSanctionsSection(sections.sanctions)}`);
+  }
+
   // Emit consolidated footnotes at the end
   if (allSourceUrls.length > 0) {
     onChunk('\n\n---\n\n');
-    const footnoteBlock = allSourceUrls.map((url, i) => `[${i + 1}]  ${url}`).join('\n');
-    onChunk(footnoteBlock);
+    onChunk(formatSourceFootnotes(allSourceUrls, archivedHashes));
   }
 }
+
+/**
+ * Numbered footnote block for the report's cited sources, with a link to the archived copy of
+ * each source that has one (url → evidence hash).
+ */
+export function formatSourceFootnotes(urls: string[], archivedHashes: Map<string, string> = new Map()): string {
+  return urls.map((url, i) => {
+    const hash = archivedHashes.get(url);
+    return `[${i + 1}]  ${url}${hash ? ` (archived copy: ${archivedCopyUrl(hash)})` : ''}`;
+  }).join('\n');
+}
@@ -8,23 +8,32 @@ import {
   type SaveReportInput,
 } from './reports-db.js';
 import { deleteAllSessions } from './session-store.js';
+import { buildReportExport, REPORT_EXPORT_SCHEMA } from './report-export.js';
+import { renderScreeningDocx } from './screening-docx.js';
+import { buildEvidenceBundle, findEvidenceBlob, listReportEvidence, readBlob } from './evidence-store.js';
 import { pool } from './db/index.js';
+import { datesFromRow, formatTimelineSection } from './timeline.js';
+import { listReportDeals } from './deal-screening.js';
+import type { ConsolidatedFinding } from './types.js';
 import {
   extractFactsForReport,
   generateWriteUpFromFacts,
   classifySource,
+  formatSourceFootnotes,
   type ReportExtractedFacts,
 } from './reportGenerator.js';
 
 export const reportsRouter = Router();
 
-// GET /api/reports — list all reports (with optional search)
+// GET /api/reports — list all reports (optional search, and ?reportedSince=YYYY-MM-DD for recent findings)
 reportsRouter.get('/', async (req: Request, res: Response) => {
   try {
     const limit = parseInt(req.query.limit as string) || 50;
     const offset = parseInt(req.query.offset as string) || 0;
     const search = req.query.q as string | undefined;
-    const result = await listReports({ limit, offset, search });
+    const since = req.query.reportedSince as string | undefined;
+    const reportedSince = since && /^\d{4}-\d{2}-\d{2}$/.test(since) ? since : undefined;
+    const result = await listReports({ limit, offset, search, reportedSince });
     res.json(result);
   } catch (err) {
     console.error('[REPORTS API] Error listing reports:', err);
@@ -133,19 +142,111 @@ reportsRouter.post('/changelog', async (req: Request, res: Response) => {
   }
 });
 
+// GET /api/reports/export-schema.json — JSON Schema for the versioned report export
+reportsRouter.get('/export-schema.json', (_req: Request, res: Response) => {
+  res.json(REPORT_EXPORT_SCHEMA);
+});
+
+// GET /api/reports/evidence/:hash — an archived source blob (page as served, text or PDF print)
+reportsRouter.get('/evidence/:hash', async (req: Request, res: Response) => {
+  try {
+    const found = await findEvidenceBlob(req.params.hash);
+    const data = found ? await readBlob(req.params.hash) : null;
+    if (!found || !data) { res.status(404).json({ error: 'Archived copy not found' }); return; }
+    res.setHeader('Content-Type', found.contentType);
+    // Archived pages are untrusted third-party HTML — never let their scripts run on this origin
+    res.setHeader('Content-Security-Policy', 'sandbox');
+    // Header values must be Latin-1; percent-encode anything else (e.g. Chinese paths) and leave existing escapes
+    res.setHeader('X-Evidence-Url', found.row.url.replace(/[^\x20-\x7e]/gu, c => encodeURIComponent(c)));
+    res.setHeader('X-Evidence-Fetched-At', new Date(found.row.fetched_at).toISOString());
+    res.send(data);
+  } catch (err) {
+    console.error('[REPORTS API] Error serving archived copy:', err);
+    res.status(500).json({ error: 'Failed to serve archived copy' });
+  }
+});
+
 // GET /api/reports/:id — single report with findings + missed flags
 reportsRouter.get('/:id', async (req: Request, res: Response) => {
   try {
     const id = parseInt(req.params.id);
     const report = await getReport(id);
     if (!report) { res.status(404).json({ error: 'Report not found' }); return; }
-    res.json(report);
+    res.json({ ...report, deals: await listReportDeals(report) });
   } catch (err) {
     console.error('[REPORTS API] Error getting report:', err);
     res.status(500).json({ error: 'Failed to get report' });
   }
 });
 
+// GET /api/reports/:id/export.json — versioned structured export (see report-export.ts)
+reportsRouter.get('/:id/export.json', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const report = await getReport(id);
+    if (!report) { res.status(404).json({ error: 'Report not found' }); return; }
+    res.json(buildReportExport(report));
+  } catch (err) {
+    console.error('[REPORTS API] Error exporting report:', err);
+    res.status(500).json({ error: 'Failed to export report' });
+  }
+});
+
+// GET /api/reports/:id/docx — client deliverable in the house DD Word format
+reportsRouter.get('/:id/docx', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const report = await getReport(id);
+    if (!report) { res.status(404).json({ error: 'Report not found' }); return; }
+
+    // Analyst edits win over the generated write-up; findings marked WRONG stay out of the summary
+    const buffer = await renderScreeningDocx({
+      subjectName: report.subject_name,
+      screenedAt: report.screened_at,
+      reportText: report.edited_markdown || report.report_markdown || '',
+      nameVariations: JSON.parse(report.name_variations || '[]'),
+      findings: report.findings
+        .filter(f => f.human_verdict !== 'WRONG')
+        .map(f => ({
+          severity: f.severity as 'RED' | 'AMBER' | 'REVIEW',
+          headline: f.headline,
+          eventType: f.event_type,
+          dateRange: f.date_range || undefined,
+          summary: f.summary,
+          sources: JSON.parse(f.source_urls || '[]'),
+        })),
+    });
+
+    const safeName = report.subject_name.replace(/[^a-zA-Z0-9\u4e00-\u9fa5]/g, '_');
+    const filename = `${safeName}-${report.screened_at.slice(0, 10)}.docx`;
+    res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document');
+    res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(filename)}`);
+    res.send(buffer);
+  } catch (err) {
+    console.error('[REPORTS API] Error rendering DOCX:', err);
+    res.status(500).json({ error: 'Failed to render DOCX' });
+  }
+});
+
+// GET /api/reports/:id/evidence.zip — archived copies of every cited source, with a manifest
+reportsRouter.get('/:id/evidence.zip', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const report = await getReport(id);
+    if (!report) { res.status(404).json({ error: 'Report not found' }); return; }
+
+    const buffer = await buildEvidenceBundle(report, await listReportEvidence(id));
+    const safeName = report.subject_name.replace(/[^a-zA-Z0-9\u4e00-\u9fa5]/g, '_');
+    const filename = `${safeName}-${report.screened_at.slice(0, 10)}-evidence.zip`;
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(filename)}`);
+    res.send(buffer);
+  } catch (err) {
+    console.error('[REPORTS API] Error exporting evidence:', err);
+    res.status(500).json({ error: 'Failed to export evidence' });
+  }
+});
+
 // PATCH /api/reports/:id/edit — save human-edited report
 reportsRouter.patch('/:id/edit', async (req: Request, res: Response) => {
   try {
@@ -232,6 +333,7 @@ reportsRouter.post('/:id/regenerate', async (req: Request, res: Response) => {
     let fullMarkdown = '';
     let footnoteIndex = 1;
     const allSourceUrls: string[] = [];
+    const written: ConsolidatedFinding[] = [];
 
     // Intro
     const intro = `Media & Internet Searches\n\nSearches conducted of the media and internet retrieved coverage for ${report.subject_name}.\n\n`;
@@ -282,7 +384,9 @@ reportsRouter.post('/:id/regenerate', async (req: Request, res: Response) => {
         dateRange: f.date_range || '',
         sourceCount: f.source_count,
         sources,
+        dates: datesFromRow(f),
       };
+      written.push(consolidatedFinding);
 
       const result = await generateWriteUpFromFacts(
         consolidatedFinding,
@@ -301,10 +405,17 @@ reportsRouter.post('/:id/regenerate', async (req: Request, res: Response) => {
       footnoteIndex += result.footnotesUsed;
     }
 
-    // Consolidated footnotes
+    const timeline = formatTimelineSection(written);
+    if (timeline) {
+      fullMarkdown += `\n\n${timeline}`;
+      sendSSE({ type: 'chunk', text: `\n\n${timeline}` });
+    }
+
+    // Consolidated footnotes, linking archived copies
     if (allSourceUrls.length > 0) {
+      const archivedHashes = new Map((await listReportEvidence(id)).map(e => [e.url, e.content_hash]));
       const footnoteSeparator = '\n\n---\n\n';
-      const footnoteBlock = allSourceUrls.map((url, i) => `[${i + 1}]  ${url}`).join('\n');
+      const footnoteBlock = formatSourceFootnotes(allSourceUrls, archivedHashes);
       fullMarkdown += footnoteSeparator + footnoteBlock;
       sendSSE({ type: 'chunk', text: footnoteSeparator + footnoteBlock });
     }
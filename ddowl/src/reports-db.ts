@@ -1,4 +1,9 @@
 import { pool } from './db/index.js';
+import type { EliminationBreakdown } from './eliminator.js';
+import type { SanctionsCheckResult } from './sanctions.js';
+import type { PEPDetermination } from './pep.js';
+import type { LitigationResult } from './litigation.js';
+import type { FindingDates } from './types.js';
 
 // --- Init ---
 
@@ -11,6 +16,19 @@ export async function initReportsDb(): Promise<void> {
     'ALTER TABLE dd_reports ADD COLUMN IF NOT EXISTS screening_stats_json TEXT',
     'ALTER TABLE dd_reports ADD COLUMN IF NOT EXISTS quality_rating INTEGER',
     'ALTER TABLE dd_findings ADD COLUMN IF NOT EXISTS article_contents_json TEXT',
+    'ALTER TABLE dd_reports ADD COLUMN IF NOT EXISTS context TEXT',
+    'ALTER TABLE dd_findings ADD COLUMN IF NOT EXISTS match_confidence TEXT',
+    'ALTER TABLE dd_reports ADD COLUMN IF NOT EXISTS sanctions_json TEXT',
+    'ALTER TABLE dd_reports ADD COLUMN IF NOT EXISTS pep_json TEXT',
+    'ALTER TABLE dd_reports ADD COLUMN IF NOT EXISTS litigation_json TEXT',
+    'ALTER TABLE dd_learning_rules ADD COLUMN IF NOT EXISTS severity TEXT',
+    'ALTER TABLE dd_learning_rules ADD COLUMN IF NOT EXISTS description TEXT',
+    'ALTER TABLE dd_learning_rules ADD COLUMN IF NOT EXISTS fire_count INTEGER NOT NULL DEFAULT 0',
+    'ALTER TABLE dd_learning_rules ADD COLUMN IF NOT EXISTS last_fired_at TIMESTAMP',
+    'ALTER TABLE dd_findings ADD COLUMN IF NOT EXISTS first_reported TEXT',
+    'ALTER TABLE dd_findings ADD COLUMN IF NOT EXISTS last_reported TEXT',
+    'ALTER TABLE dd_findings ADD COLUMN IF NOT EXISTS event_dates TEXT',
+    'CREATE INDEX IF NOT EXISTS idx_dd_findings_last_reported ON dd_findings(last_reported)',
   ];
   for (const sql of migrations) {
     await pool.query(sql);
@@ -27,12 +45,14 @@ export interface CleanEntityResult {
 
 export interface ScreeningStats {
   gathered: number;
-  programmaticElimination: { before: number; after: number; eliminated: number; govBypassed: number };
+  programmaticElimination: { before: number; after: number; eliminated: number; govBypassed: number; breakdown?: EliminationBreakdown };
+  clustering?: { totalClusters: number; articlesToAnalyze: number; articlesParked: number };
   categorized: { red: number; amber: number; green: number };
   processed: { total: number; adverse: number; cleared: number; failed: number; further?: number };
   consolidated: { before: number; after: number };
   llmCallCount?: number;
   llmCostUsd?: number;
+  llmCostByOperation?: Record<string, number>;
 }
 
 export interface SaveReportInput {
@@ -41,6 +61,7 @@ export interface SaveReportInput {
   screenedAt: string;
   language: string;
   nameVariations: string[];
+  context?: string;
   findings: {
     severity: 'RED' | 'AMBER' | 'REVIEW';
     headline: string;
@@ -50,9 +71,15 @@ export interface SaveReportInput {
     sourceCount: number;
     sourceUrls: { url: string; title: string }[];
     articleContents?: { url: string; content: string }[];
+    matchConfidence?: 'strong' | 'possible' | 'weak';
+    evidenceIds?: number[];  // dd_evidence rows archived for the sources (see evidence-store.ts)
+    dates?: FindingDates;
   }[];
   cleanResults?: Record<string, CleanEntityResult[]>;
   screeningStats?: ScreeningStats;
+  sanctions?: SanctionsCheckResult;
+  pep?: PEPDetermination;
+  litigation?: LitigationResult;
   reportMarkdown?: string;
   costUsd: number;
   durationMs: number;
@@ -67,12 +94,16 @@ export interface ReportRow {
   screened_at: string;
   language: string;
   name_variations: string;
+  context: string | null;
   finding_count: number;
   red_count: number;
   amber_count: number;
   report_markdown: string | null;
   clean_results_json: string | null;
   screening_stats_json: string | null;
+  sanctions_json: string | null;
+  pep_json: string | null;
+  litigation_json: string | null;
   edited_markdown: string | null;
   edit_distance: number | null;
   quality_rating: number | null;
@@ -99,6 +130,10 @@ export interface FindingRow {
   human_verdict: string | null;
   wrong_reason: string | null;
   article_contents_json: string | null;
+  match_confidence: string | null;
+  first_reported: string | null;  // YYYY-MM-DD
+  last_reported: string | null;   // YYYY-MM-DD
+  event_dates: string | null;     // JSON array of YYYY-MM-DD / YYYY-MM / YYYY
 }
 
 export interface MissedFlagRow {
@@ -109,6 +144,49 @@ export interface MissedFlagRow {
   event_type: string | null;
 }
 
+/** A reviewed finding from an earlier screening of the same subject. */
+export interface PriorVerdict {
+  findingId: number;
+  reportId: number;
+  screenedAt: string;
+  verdict: 'CONFIRMED' | 'WRONG';
+  severity: string;
+  headline: string;
+  eventType: string;
+  dateRange: string | null;
+  wrongReason: string | null;
+  sourceUrls: string[];
+}
+
+export interface PriorMissedFlag {
+  id: number;
+  reportId: number;
+  screenedAt: string;
+  description: string;
+  severity: string;
+  eventType: string | null;
+}
+
+export interface SubjectHistory {
+  reportCount: number;
+  lastScreenedAt: string | null;
+  verdicts: PriorVerdict[];
+  missedFlags: PriorMissedFlag[];
+}
+
+export interface LearningRuleRow {
+  id: number;
+  rule_type: string;
+  rule_text: string;          // Domain, regex or event type, depending on rule_type
+  severity: string | null;    // Category/severity the rule assigns (null: eliminate)
+  description: string | null;
+  source_feedback_count: number;
+  active: number;
+  fire_count: number;
+  last_fired_at: string | null;
+  created_at: string;
+}
+
 export interface SourceRow {
   domain: string;
   times_seen: number;
@@ -170,14 +248,17 @@ export async function saveReport(input: SaveReportInput): Promise<number> {
     await client.query(`
       INSERT INTO dd_reports (run_id, subject_name, screened_at, language, name_variations,
         finding_count, red_count, amber_count, report_markdown, clean_results_json, screening_stats_json,
-        cost_usd, duration_ms, queries_executed, total_search_results)
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+        cost_usd, duration_ms, queries_executed, total_search_results, context, sanctions_json, pep_json, litigation_json)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19)
       ON CONFLICT(run_id) DO UPDATE SET
         finding_count = EXCLUDED.finding_count,
         red_count = EXCLUDED.red_count,
         amber_count = EXCLUDED.amber_count,
         clean_results_json = EXCLUDED.clean_results_json,
         screening_stats_json = EXCLUDED.screening_stats_json,
+        sanctions_json = EXCLUDED.sanctions_json,
+        pep_json = EXCLUDED.pep_json,
+        litigation_json = EXCLUDED.litigation_json,
         cost_usd = EXCLUDED.cost_usd,
         duration_ms = EXCLUDED.duration_ms,
         queries_executed = EXCLUDED.queries_executed,
@@ -187,7 +268,10 @@ export async function saveReport(input: SaveReportInput): Promise<number> {
       JSON.stringify(input.nameVariations), input.findings.length, redCount, amberCount,
       input.reportMarkdown || null, input.cleanResults ? JSON.stringify(input.cleanResults) : null,
       statsJson, input.costUsd, input.durationMs,
-      input.queriesExecuted, input.totalSearchResults,
+      input.queriesExecuted, input.totalSearchResults, input.context || null,
+      input.sanctions ? JSON.stringify(input.sanctions) : null,
+      input.pep ? JSON.stringify(input.pep) : null,
+      input.litigation ? JSON.stringify(input.litigation) : null,
     ]);
 
     // Get the report id
@@ -201,11 +285,17 @@ export async function saveReport(input: SaveReportInput): Promise<number> {
       const articleContentsJson = f.articleContents && f.articleContents.length > 0
         ? JSON.stringify(f.articleContents)
         : null;
-      await client.query(`
-        INSERT INTO dd_findings (report_id, severity, headline, event_type, summary, date_range, source_count, source_urls, included_in_report, article_contents_json)
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, 0, $9)
+      const { rows: [finding] } = await client.query(`
+        INSERT INTO dd_findings (report_id, severity, headline, event_type, summary, date_range, source_count, source_urls, included_in_report, article_contents_json, match_confidence,
+          first_reported, last_reported, event_dates)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, 0, $9, $10, $11, $12, $13)
+        RETURNING id
       `, [reportId, f.severity, f.headline, f.eventType, f.summary,
-          f.dateRange || null, f.sourceCount, JSON.stringify(f.sourceUrls), articleContentsJson]);
+          f.dateRange || null, f.sourceCount, JSON.stringify(f.sourceUrls), articleContentsJson, f.matchConfidence || null,
+          f.dates?.firstReported || null, f.dates?.lastReported || null, f.dates ? JSON.stringify(f.dates.eventDates) : null]);
+      for (const evidenceId of new Set(f.evidenceIds || [])) {
+        await client.query('INSERT INTO dd_finding_evidence (finding_id, evidence_id) VALUES ($1, $2)', [finding.id, evidenceId]);
+      }
     }
 
     // Track source domains
@@ -240,30 +330,39 @@ export async function getReport(id: number): Promise<ReportRow | null> {
   return report;
 }
 
-export async function listReports(opts: { limit?: number; offset?: number; search?: string } = {}): Promise<{ reports: ReportRow[]; total: number }> {
+export async function getLatestReportForSubject(subjectName: string): Promise<ReportRow | null> {
+  const { rows: [row] } = await pool.query(
+    'SELECT id FROM dd_reports WHERE subject_name = $1 ORDER BY screened_at DESC LIMIT 1',
+    [subjectName]
+  );
+  return row ? getReport(row.id) : null;
+}
+
+/**
+ * Reports, newest first. `reportedSince` (YYYY-MM-DD) keeps reports with at least one finding
+ * last reported on or after that date — the reports UI's recency filter.
+ */
+export async function listReports(opts: { limit?: number; offset?: number; search?: string; reportedSince?: string } = {}): Promise<{ reports: ReportRow[]; total: number }> {
   const limit = opts.limit || 50;
   const offset = opts.offset || 0;
 
+  const conditions: string[] = [];
+  const params: unknown[] = [];
   if (opts.search) {
-    const pattern = `%${opts.search}%`;
-    const { rows: reports } = await pool.query(
-      'SELECT * FROM dd_reports WHERE subject_name ILIKE $1 OR report_markdown ILIKE $1 ORDER BY screened_at DESC LIMIT $2 OFFSET $3',
-      [pattern, limit, offset]
-    );
-    const { rows: [{ c: total }] } = await pool.query(
-      'SELECT count(*) as c FROM dd_reports WHERE subject_name ILIKE $1 OR report_markdown ILIKE $1',
-      [pattern]
-    );
-
-    await attachHeadlines(reports);
-    return { reports, total: parseInt(total) };
+    params.push(`%${opts.search}%`);
+    conditions.push(`(subject_name ILIKE $${params.length} OR report_markdown ILIKE $${params.length})`);
   }
+  if (opts.reportedSince) {
+    params.push(opts.reportedSince);
+    conditions.push(`id IN (SELECT report_id FROM dd_findings WHERE last_reported >= $${params.length})`);
+  }
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
 
   const { rows: reports } = await pool.query(
-    'SELECT * FROM dd_reports ORDER BY screened_at DESC LIMIT $1 OFFSET $2',
-    [limit, offset]
+    `SELECT * FROM dd_reports ${where} ORDER BY screened_at DESC LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+    [...params, limit, offset]
   );
-  const { rows: [{ c: total }] } = await pool.query('SELECT count(*) as c FROM dd_reports');
+  const { rows: [{ c: total }] } = await pool.query(`SELECT count(*) as c FROM dd_reports ${where}`, params);
 
   await attachHeadlines(reports);
   return { reports, total: parseInt(total) };
@@ -273,13 +372,17 @@ async function attachHeadlines(reports: any[]): Promise<void> {
   if (reports.length === 0) return;
   const ids = reports.map(r => r.id);
   const { rows: headlineRows } = await pool.query(
-    'SELECT report_id, headline FROM dd_findings WHERE report_id = ANY($1::int[]) ORDER BY report_id, id',
+    'SELECT report_id, headline, last_reported FROM dd_findings WHERE report_id = ANY($1::int[]) ORDER BY report_id, id',
     [ids]
   );
   const headlineMap = new Map<number, string[]>();
+  const lastReportedMap = new Map<number, string>();
   for (const row of headlineRows) {
     if (!headlineMap.has(row.report_id)) headlineMap.set(row.report_id, []);
     headlineMap.get(row.report_id)!.push(row.headline);
+    if (row.last_reported && row.last_reported > (lastReportedMap.get(row.report_id) || '')) {
+      lastReportedMap.set(row.report_id, row.last_reported);
+    }
   }
 
   // Count user-selected findings per report
@@ -295,6 +398,7 @@ async function attachHeadlines(reports: any[]): Promise<void> {
   for (const r of reports) {
     r.headlines = headlineMap.get(r.id) || [];
     r.selected_finding_count = selectedMap.get(r.id) || 0;
+    r.last_reported = lastReportedMap.get(r.id) || null;
     r.findings = [];
     r.missed_flags = [];
   }
@@ -327,6 +431,60 @@ export async function addMissedFlag(reportId: number, data: { description: strin
   return row.id;
 }
 
+/**
+ * Reviewed findings and analyst-reported misses from earlier reports on any of the given names
+ * (the subject and its variations), newest first.
+ */
+export async function getSubjectHistory(subjectNames: string[]): Promise<SubjectHistory> {
+  const names = [...new Set(subjectNames.filter(Boolean))];
+  if (names.length === 0) return { reportCount: 0, lastScreenedAt: null, verdicts: [], missedFlags: [] };
+  const placeholders = names.map((_, i) => `$${i + 1}`).join(', ');
+
+  const { rows: reports } = await pool.query(
+    `SELECT id, screened_at FROM dd_reports WHERE subject_name IN (${placeholders}) ORDER BY screened_at DESC`,
+    names
+  );
+  if (reports.length === 0) return { reportCount: 0, lastScreenedAt: null, verdicts: [], missedFlags: [] };
+
+  const screenedAt = new Map<number, string>(reports.map(r => [r.id, r.screened_at]));
+  const reportPlaceholders = reports.map((_, i) => `$${i + 1}`).join(', ');
+  const reportIds = reports.map(r => r.id);
+
+  const { rows: findings } = await pool.query(
+    `SELECT * FROM dd_findings WHERE report_id IN (${reportPlaceholders}) AND human_verdict IS NOT NULL ORDER BY id DESC`,
+    reportIds
+  );
+  const { rows: missed } = await pool.query(
+    `SELECT * FROM dd_missed_flags WHERE report_id IN (${reportPlaceholders}) ORDER BY id DESC`,
+    reportIds
+  );
+
+  const verdicts: PriorVerdict[] = findings.map((f: FindingRow) => ({
+    findingId: f.id,
+    reportId: f.report_id,
+    screenedAt: screenedAt.get(f.report_id)!,
+    verdict: f.human_verdict as 'CONFIRMED' | 'WRONG',
+    severity: f.severity,
+    headline: f.headline,
+    eventType: f.event_type,
+    dateRange: f.date_range,
+    wrongReason: f.wrong_reason,
+    sourceUrls: (JSON.parse(f.source_urls || '[]') as { url: string }[]).map(s => s.url),
+  }));
+  verdicts.sort((a, b) => b.screenedAt.localeCompare(a.screenedAt));
+
+  const missedFlags: PriorMissedFlag[] = missed.map((m: MissedFlagRow) => ({
+    id: m.id,
+    reportId: m.report_id,
+    screenedAt: screenedAt.get(m.report_id)!,
+    description: m.description,
+    severity: m.severity,
+    eventType: m.event_type,
+  }));
+
+  return { reportCount: reports.length, lastScreenedAt: reports[0].screened_at, verdicts, missedFlags };
+}
+
 export async function saveEditedReport(reportId: number, editedMarkdown: string): Promise<void> {
   const { rows: [report] } = await pool.query('SELECT report_markdown FROM dd_reports WHERE id = $1', [reportId]);
   if (!report) return;
@@ -490,6 +648,55 @@ export async function getLearnings(): Promise<Learnings> {
   };
 }
 
+// --- Learning rules ---
+
+export async function listLearningRules(opts: { activeOnly?: boolean } = {}): Promise<LearningRuleRow[]> {
+  const { rows } = await pool.query(
+    `SELECT * FROM dd_learning_rules ${opts.activeOnly ? 'WHERE active = 1' : ''} ORDER BY id`
+  );
+  return rows;
+}
+
+export async function getLearningRule(id: number): Promise<LearningRuleRow | null> {
+  const { rows: [row] } = await pool.query('SELECT * FROM dd_learning_rules WHERE id = $1', [id]);
+  return row || null;
+}
+
+export async function createLearningRule(rule: {
+  ruleType: string;
+  ruleText: string;
+  severity?: string | null;
+  description?: string | null;
+  sourceFeedbackCount?: number;
+  active?: boolean;
+}): Promise<LearningRuleRow> {
+  const { rows: [row] } = await pool.query(`
+    INSERT INTO dd_learning_rules (rule_type, rule_text, severity, description, source_feedback_count, active)
+    VALUES ($1, $2, $3, $4, $5, $6)
+    RETURNING *
+  `, [rule.ruleType, rule.ruleText, rule.severity || null, rule.description || null, rule.sourceFeedbackCount || 0, rule.active ? 1 : 0]);
+  return row;
+}
+
+export async function setLearningRuleActive(id: number, active: boolean): Promise<LearningRuleRow | null> {
+  const { rows: [row] } = await pool.query(
+    'UPDATE dd_learning_rules SET active = $1 WHERE id = $2 RETURNING *',
+    [active ? 1 : 0, id]
+  );
+  return row || null;
+}
+
+/** Add to each rule's fire count (rule id → times it fired in a screening). */
+export async function recordRuleFirings(fired: Map<number, number>): Promise<void> {
+  for (const [id, count] of fired) {
+    if (count <= 0) continue;
+    await pool.query(
+      'UPDATE dd_learning_rules SET fire_count = fire_count + $1, last_fired_at = NOW() WHERE id = $2',
+      [count, id]
+    );
+  }
+}
+
 // --- Source tracking ---
 
 async function trackSourceWithClient(client: any, domain: string, action: 'seen' | 'in_finding' | 'confirmed' | 'wrong'): Promise<void> {
@@ -547,12 +754,16 @@ const SCHEMA = `
     screened_at TEXT NOT NULL,
     language TEXT NOT NULL DEFAULT 'zh',
     name_variations TEXT NOT NULL DEFAULT '[]',
+    context TEXT,
     finding_count INTEGER NOT NULL DEFAULT 0,
     red_count INTEGER NOT NULL DEFAULT 0,
     amber_count INTEGER NOT NULL DEFAULT 0,
     report_markdown TEXT,
     clean_results_json TEXT,
     screening_stats_json TEXT,
+    sanctions_json TEXT,
+    pep_json TEXT,
+    litigation_json TEXT,
     edited_markdown TEXT,
     edit_distance DOUBLE PRECISION,
     quality_rating INTEGER,
@@ -576,6 +787,10 @@ const SCHEMA = `
     included_in_report INTEGER NOT NULL DEFAULT 0,
     human_verdict TEXT,
     wrong_reason TEXT,
+    match_confidence TEXT,
+    first_reported TEXT,
+    last_reported TEXT,
+    event_dates TEXT,
     created_at TIMESTAMP DEFAULT NOW()
   );
 
@@ -604,11 +819,36 @@ const SCHEMA = `
     id SERIAL PRIMARY KEY,
     rule_type TEXT NOT NULL,
     rule_text TEXT NOT NULL,
+    severity TEXT,
+    description TEXT,
     source_feedback_count INTEGER NOT NULL DEFAULT 0,
     active INTEGER NOT NULL DEFAULT 1,
+    fire_count INTEGER NOT NULL DEFAULT 0,
+    last_fired_at TIMESTAMP,
     created_at TIMESTAMP DEFAULT NOW()
   );
 
+  CREATE TABLE IF NOT EXISTS dd_evidence (
+    id SERIAL PRIMARY KEY,
+    url TEXT NOT NULL,
+    final_url TEXT,
+    content_hash TEXT NOT NULL,
+    content_type TEXT NOT NULL,
+    text_hash TEXT,
+    pdf_hash TEXT,
+    capture_method TEXT NOT NULL DEFAULT 'live',
+    status_code INTEGER,
+    fetched_at TIMESTAMP NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW(),
+    UNIQUE (url, content_hash)
+  );
+
+  CREATE TABLE IF NOT EXISTS dd_finding_evidence (
+    id SERIAL PRIMARY KEY,
+    finding_id INTEGER NOT NULL REFERENCES dd_findings(id) ON DELETE CASCADE,
+    evidence_id INTEGER NOT NULL REFERENCES dd_evidence(id) ON DELETE CASCADE
+  );
+
   CREATE TABLE IF NOT EXISTS dd_changelog (
     id SERIAL PRIMARY KEY,
     date TEXT NOT NULL,
@@ -624,4 +864,6 @@ const SCHEMA = `
   CREATE INDEX IF NOT EXISTS idx_dd_missed_flags_report_id ON dd_missed_flags(report_id);
   CREATE INDEX IF NOT EXISTS idx_dd_sources_domain ON dd_sources(domain);
   CREATE INDEX IF NOT EXISTS idx_dd_sources_reliability ON dd_sources(reliability_score DESC);
+  CREATE INDEX IF NOT EXISTS idx_dd_evidence_content_hash ON dd_evidence(content_hash);
+  CREATE INDEX IF NOT EXISTS idx_dd_finding_evidence_finding_id ON dd_finding_evidence(finding_id);
 `;
@@ -0,0 +1,100 @@
+import { Router, Request, Response } from 'express';
+import { createLearningRule, getLearningRule, listLearningRules, setLearningRuleActive } from './reports-db.js';
+import { testLearningRule, toLearningRule, validateLearningRule, type LearningRule } from './learning-rules.js';
+import { loadFunnelSnapshots } from './logging/storage.js';
+import type { FunnelSnapshot } from './types.js';
+
+export const rulesRouter = Router();
+
+// Snapshots from the request body, else the benchmark funnel snapshots the server saves
+// (FUNNEL_DIR points elsewhere, e.g. at the *.funnel.json files the CLI writes)
+function loadSnapshots(body: any): FunnelSnapshot[] {
+  if (Array.isArray(body?.snapshots)) return body.snapshots;
+  return loadFunnelSnapshots(process.env.FUNNEL_DIR || undefined);
+}
+
+function parseId(req: Request): number | null {
+  const id = parseInt(req.params.id, 10);
+  return Number.isFinite(id) ? id : null;
+}
+
+// GET /api/rules — all rules with fire counts
+rulesRouter.get('/', async (_req: Request, res: Response) => {
+  try {
+    res.json({ rules: await listLearningRules() });
+  } catch (err) {
+    console.error('[RULES API] Error listing rules:', err);
+    res.status(500).json({ error: 'Failed to list rules' });
+  }
+});
+
+// POST /api/rules { type, pattern, severity?, description?, active? } — new rules start inactive unless active: true
+rulesRouter.post('/', async (req: Request, res: Response) => {
+  try {
+    const { type, pattern, severity, description, sourceFeedbackCount, active } = req.body || {};
+    const error = validateLearningRule({ type: String(type || ''), pattern: String(pattern || ''), severity });
+    if (error) {
+      res.status(400).json({ error }); return;
+    }
+    const rule = await createLearningRule({
+      ruleType: type,
+      ruleText: String(pattern).trim(),
+      severity: severity || null,
+      description: typeof description === 'string' ? description : null,
+      sourceFeedbackCount: typeof sourceFeedbackCount === 'number' ? sourceFeedbackCount : 0,
+      active: active === true,
+    });
+    res.status(201).json(rule);
+  } catch (err) {
+    console.error('[RULES API] Error creating rule:', err);
+    res.status(500).json({ error: 'Failed to create rule' });
+  }
+});
+
+// POST /api/rules/test { type, pattern, severity?, snapshots? } — dry-run an unsaved rule
+rulesRouter.post('/test', async (req: Request, res: Response) => {
+  try {
+    const { type, pattern, severity } = req.body || {};
+    const error = validateLearningRule({ type: String(type || ''), pattern: String(pattern || ''), severity });
+    if (error) {
+      res.status(400).json({ error }); return;
+    }
+    const rule: LearningRule = { id: 0, type, pattern: String(pattern).trim(), severity: severity || null, description: null };
+    res.json(testLearningRule(rule, loadSnapshots(req.body)));
+  } catch (err) {
+    console.error('[RULES API] Error testing rule:', err);
+    res.status(500).json({ error: 'Failed to test rule' });
+  }
+});
+
+// POST /api/rules/:id/test { snapshots? } — dry-run a saved rule against past funnel snapshots
+rulesRouter.post('/:id/test', async (req: Request, res: Response) => {
+  try {
+    const id = parseId(req);
+    const row = id !== null ? await getLearningRule(id) : null;
+    if (!row) {
+      res.status(404).json({ error: 'Rule not found' }); return;
+    }
+    res.json(testLearningRule(toLearningRule(row), loadSnapshots(req.body)));
+  } catch (err) {
+    console.error('[RULES API] Error testing rule:', err);
+    res.status(500).json({ error: 'Failed to test rule' });
+  }
+});
+
+// POST /api/rules/:id/activate, /api/rules/:id/deactivate
+for (const [action, active] of [['activate', true], ['deactivate', false]] as const) {
+  rulesRouter.post(`/:id/${action}`, async (req: Request, res: Response) => {
+    try {
+      const id = parseId(req);
+      const row = id !== null ? await setLearningRuleActive(id, active) : null;
+      if (!row) {
+        res.status(404).json({ error: 'Rule not found' }); return;
+      }
+      res.json(row);
+    } catch (err) {
+      console.error(`[RULES API] Error trying to ${action} rule:`, err);
+      res.status(500).json({ error: `Failed to ${action} rule` });
+    }
+  });
+}
@@ -0,0 +1,84 @@
+import fs from 'fs';
+import path from 'path';
+import { Router, Request, Response } from 'express';
+import { checkSanctions, loadSanctionsFile, type SanctionsSubject } from './sanctions.js';
+import { getSanctionsLists } from './sanctions-db.js';
+import { SANCTIONS_SOURCES, type SanctionsSource } from './sanctions-lists.js';
+
+export const sanctionsRouter = Router();
+
+// Where list files are dropped for loading (sdn.xml, consolidated.xml, ConList.csv, ...)
+const SANCTIONS_DIR = process.env.SANCTIONS_DIR || path.join(process.cwd(), 'data', 'sanctions');
+
+// POST /api/sanctions/check — screen one subject against the loaded lists
+sanctionsRouter.post('/check', async (req: Request, res: Response) => {
+  try {
+    const { name, nameVariations, kind, birthDate, ageRange, nationalities, threshold, sources } = req.body || {};
+    if (!name || typeof name !== 'string' || name.trim().length < 2) {
+      res.status(400).json({ error: 'name required (2+ chars)' }); return;
+    }
+    if (kind !== undefined && kind !== 'person' && kind !== 'company') {
+      res.status(400).json({ error: 'kind must be person or company' }); return;
+    }
+    if (threshold !== undefined && !(typeof threshold === 'number' && threshold > 0 && threshold <= 1)) {
+      res.status(400).json({ error: 'threshold must be between 0 and 1' }); return;
+    }
+    if (sources !== undefined && !(Array.isArray(sources) && sources.every(s => SANCTIONS_SOURCES.includes(s)))) {
+      res.status(400).json({ error: `sources must be a subset of ${SANCTIONS_SOURCES.join(', ')}` }); return;
+    }
+
+    const subject: SanctionsSubject = {
+      name: name.trim(),
+      nameVariations: Array.isArray(nameVariations) ? nameVariations : [],
+      kind,
+      birthDate,
+      ageRange,
+      nationalities: Array.isArray(nationalities) ? nationalities : [],
+    };
+    res.json(await checkSanctions(subject, { threshold, sources }));
+  } catch (err) {
+    console.error('[SANCTIONS API] Error checking sanctions:', err);
+    res.status(500).json({ error: 'Failed to check sanctions' });
+  }
+});
+
+// GET /api/sanctions/lists — which lists are loaded, when, and how many entries
+sanctionsRouter.get('/lists', async (_req: Request, res: Response) => {
+  try {
+    res.json({ lists: await getSanctionsLists(), directory: SANCTIONS_DIR });
+  } catch (err) {
+    console.error('[SANCTIONS API] Error listing sanctions lists:', err);
+    res.status(500).json({ error: 'Failed to list sanctions lists' });
+  }
+});
+
+// POST /api/sanctions/lists/load { files?: string[], source? } — (re)load list files from SANCTIONS_DIR
+sanctionsRouter.post('/lists/load', async (req: Request, res: Response) => {
+  try {
+    const { files, source } = req.body || {};
+    if (source !== undefined && !SANCTIONS_SOURCES.includes(source)) {
+      res.status(400).json({ error: `source must be one of ${SANCTIONS_SOURCES.join(', ')}` }); return;
+    }
+    if (!fs.existsSync(SANCTIONS_DIR)) {
+      res.status(404).json({ error: `Sanctions directory not found: ${SANCTIONS_DIR}` }); return;
+    }
+    // Only bare file names — nothing outside the sanctions directory
+    const names: string[] = Array.isArray(files) && files.length > 0
+      ? files.map((f: string) => path.basename(String(f)))
+      : fs.readdirSync(SANCTIONS_DIR).filter(f => /\.(xml|csv)$/i.test(f));
+
+    const loaded: { file: string; source: SanctionsSource; entryCount: number }[] = [];
+    const failed: { file: string; error: string }[] = [];
+    for (const file of names) {
+      try {
+        loaded.push({ file, ...(await loadSanctionsFile(path.join(SANCTIONS_DIR, file), source)) });
+      } catch (err: any) {
+        failed.push({ file, error: err?.message || String(err) });
+      }
+    }
+    res.json({ loaded, failed });
+  } catch (err) {
+    console.error('[SANCTIONS API] Error loading sanctions lists:', err);
+    res.status(500).json({ error: 'Failed to load sanctions lists' });
+  }
+});
@@ -0,0 +1,137 @@
+import { pool } from './db/index.js';
+import type { SanctionsAlias, SanctionsEntityType, SanctionsEntry, SanctionsSource } from './sanctions-lists.js';
+
+// --- Init ---
+
+export async function initSanctionsDb(): Promise<void> {
+  await pool.query(SCHEMA);
+}
+
+// --- Types ---
+
+export interface SanctionsListRow {
+  source: SanctionsSource;
+  file_name: string;
+  entry_count: number;
+  loaded_at: string;
+}
+
+export interface SanctionsEntryRow {
+  id: number;
+  source: SanctionsSource;
+  list_id: string;
+  entity_type: SanctionsEntityType;
+  name: string;
+  aliases_json: string;
+  birth_dates_json: string;
+  nationalities_json: string;
+  programs_json: string;
+  remarks: string;
+}
+
+// Rows per multi-row INSERT when loading a list
+const INSERT_BATCH = 500;
+
+// --- Lists ---
+
+/**
+ * Replace everything held for a list with a freshly parsed file. Runs in one transaction
+ * so a failed load leaves the previous version in place.
+ */
+export async function replaceSanctionsList(source: SanctionsSource, fileName: string, entries: SanctionsEntry[]): Promise<number> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query('DELETE FROM dd_sanctions_entries WHERE source = $1', [source]);
+
+    // Lists occasionally repeat a reference — keep the last occurrence
+    const byListId = new Map(entries.map(e => [e.listId, e]));
+    const rows = [...byListId.values()];
+    for (let i = 0; i < rows.length; i += INSERT_BATCH) {
+      const batch = rows.slice(i, i + INSERT_BATCH);
+      const values: unknown[] = [];
+      const placeholders = batch.map((e, j) => {
+        values.push(source, e.listId, e.entityType, e.name, JSON.stringify(e.aliases), JSON.stringify(e.birthDates),
+          JSON.stringify(e.nationalities), JSON.stringify(e.programs), e.remarks);
+        const base = j * 9;
+        return `(${Array.from({ length: 9 }, (_, k) => `$${base + k + 1}`).join(', ')})`;
+      });
+      await client.query(`
+        INSERT INTO dd_sanctions_entries (source, list_id, entity_type, name, aliases_json, birth_dates_json, nationalities_json, programs_json, remarks)
+        VALUES ${placeholders.join(', ')}
+      `, values);
+    }
+
+    await client.query(`
+      INSERT INTO dd_sanctions_lists (source, file_name, entry_count, loaded_at)
+      VALUES ($1, $2, $3, NOW())
+      ON CONFLICT (source) DO UPDATE SET file_name = EXCLUDED.file_name, entry_count = EXCLUDED.entry_count, loaded_at = NOW()
+    `, [source, fileName, rows.length]);
+
+    await client.query('COMMIT');
+    return rows.length;
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+export async function getSanctionsLists(): Promise<SanctionsListRow[]> {
+  const { rows } = await pool.query('SELECT * FROM dd_sanctions_lists ORDER BY source');
+  return rows;
+}
+
+// --- Entries ---
+
+export async function getSanctionsEntries(sources?: SanctionsSource[]): Promise<SanctionsEntryRow[]> {
+  if (sources && sources.length > 0) {
+    const { rows } = await pool.query('SELECT * FROM dd_sanctions_entries WHERE source = ANY($1::text[]) ORDER BY id', [sources]);
+    return rows;
+  }
+  const { rows } = await pool.query('SELECT * FROM dd_sanctions_entries ORDER BY id');
+  return rows;
+}
+
+export function entryFromRow(row: SanctionsEntryRow): SanctionsEntry & { id: number } {
+  return {
+    id: row.id,
+    source: row.source,
+    listId: row.list_id,
+    entityType: row.entity_type,
+    name: row.name,
+    aliases: JSON.parse(row.aliases_json) as SanctionsAlias[],
+    birthDates: JSON.parse(row.birth_dates_json),
+    nationalities: JSON.parse(row.nationalities_json),
+    programs: JSON.parse(row.programs_json),
+    remarks: row.remarks || '',
+  };
+}
+
+// --- Schema ---
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS dd_sanctions_lists (
+    source TEXT PRIMARY KEY,
+    file_name TEXT NOT NULL,
+    entry_count INTEGER NOT NULL DEFAULT 0,
+    loaded_at TIMESTAMP DEFAULT NOW()
+  );
+
+  CREATE TABLE IF NOT EXISTS dd_sanctions_entries (
+    id SERIAL PRIMARY KEY,
+    source TEXT NOT NULL,
+    list_id TEXT NOT NULL,
+    entity_type TEXT NOT NULL,
+    name TEXT NOT NULL,
+    aliases_json TEXT NOT NULL DEFAULT '[]',
+    birth_dates_json TEXT NOT NULL DEFAULT '[]',
+    nationalities_json TEXT NOT NULL DEFAULT '[]',
+    programs_json TEXT NOT NULL DEFAULT '[]',
+    remarks TEXT,
+    UNIQUE (source, list_id)
+  );
+
+  CREATE INDEX IF NOT EXISTS dd_sanctions_entries_source_idx ON dd_sanctions_entries(source);
+`;
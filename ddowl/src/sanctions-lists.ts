@@ -0,0 +1,253 @@
+/**
+ * Sanctions list file parsers
+ *
+ * Turns the published consolidated list files into one flat entry shape:
+ *   - OFAC SDN (sdn.xml)
+ *   - UN Security Council Consolidated List (consolidated.xml)
+ *   - EU Financial Sanctions Files (export XML)
+ *   - UK HMT / OFSI Consolidated List (ConList.csv)
+ *   - HKMA — the designation spreadsheets circulated to authorised institutions,
+ *     exported as CSV with columns: Reference, Name, Chinese Name, Aliases (';'-separated),
+ *     Type, Date of Birth, Nationality, Programme, Remarks
+ */
+
+import fs from 'fs';
+import * as cheerio from 'cheerio';
+import { csvRecords } from './utils/csv.js';
+
+// --- Types ---
+
+export type SanctionsSource = 'ofac_sdn' | 'un' | 'eu' | 'uk_hmt' | 'hkma';
+
+export const SANCTIONS_SOURCES: SanctionsSource[] = ['ofac_sdn', 'un', 'eu', 'uk_hmt', 'hkma'];
+
+export const SANCTIONS_SOURCE_LABELS: Record<SanctionsSource, string> = {
+  ofac_sdn: 'OFAC SDN List',
+  un: 'UN Security Council Consolidated List',
+  eu: 'EU Consolidated Financial Sanctions List',
+  uk_hmt: 'UK HMT Consolidated List',
+  hkma: 'HKMA Designations',
+};
+
+export type SanctionsEntityType = 'individual' | 'entity' | 'vessel' | 'aircraft';
+
+export interface SanctionsAlias {
+  name: string;
+  weak: boolean;  // Low-quality / weak a.k.a. — matches on these score lower
+}
+
+export interface SanctionsEntry {
+  source: SanctionsSource;
+  listId: string;           // The list's own reference (OFAC uid, UN reference number, ...)
+  entityType: SanctionsEntityType;
+  name: string;
+  aliases: SanctionsAlias[];
+  birthDates: string[];     // As published — '1960-01-01', '01 Jan 1960', '1958 to 1962', ...
+  nationalities: string[];
+  programs: string[];
+  remarks: string;
+}
+
+// --- Helpers ---
+
+const text = (s: string | undefined) => (s || '').replace(/\s+/g, ' ').trim();
+
+function joinName(...parts: (string | undefined)[]): string {
+  return parts.map(text).filter(Boolean).join(' ');
+}
+
+function entityType(raw: string): SanctionsEntityType {
+  const t = raw.toLowerCase();
+  if (t.startsWith('individual') || t === 'person') return 'individual';
+  if (t.startsWith('vessel') || t === 'ship') return 'vessel';
+  if (t.startsWith('aircraft')) return 'aircraft';
+  return 'entity';
+}
+
+function uniqueAliases(primary: string, aliases: SanctionsAlias[]): SanctionsAlias[] {
+  const seen = new Set([primary.toLowerCase()]);
+  return aliases.filter(a => {
+    const key = a.name.toLowerCase();
+    if (!a.name || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+// --- Parsers ---
+
+export function parseOFACSdnXml(xml: string): SanctionsEntry[] {
+  const $ = cheerio.load(xml, { xml: true });
+  return $('sdnEntry').toArray().map(el => {
+    const e = $(el);
+    const name = joinName(e.children('firstName').text(), e.children('lastName').text());
+    const aliases = e.find('akaList > aka').toArray().map(a => ({
+      name: joinName($(a).children('firstName').text(), $(a).children('lastName').text()),
+      weak: text($(a).children('category').text()).toLowerCase() === 'weak',
+    }));
+    return {
+      source: 'ofac_sdn' as const,
+      listId: text(e.children('uid').text()),
+      entityType: entityType(text(e.children('sdnType').text())),
+      name,
+      aliases: uniqueAliases(name, aliases),
+      birthDates: e.find('dateOfBirthList dateOfBirth').toArray().map(d => text($(d).text())).filter(Boolean),
+      nationalities: [...new Set(e.find('nationalityList country, citizenshipList country').toArray().map(c => text($(c).text())).filter(Boolean))],
+      programs: e.find('programList > program').toArray().map(p => text($(p).text())).filter(Boolean),
+      remarks: text(e.children('remarks').text()),
+    };
+  });
+}
+
+export function parseUNConsolidatedXml(xml: string): SanctionsEntry[] {
+  const $ = cheerio.load(xml, { xml: true });
+  const entries: SanctionsEntry[] = [];
+
+  for (const el of $('INDIVIDUALS > INDIVIDUAL, ENTITIES > ENTITY').toArray()) {
+    const e = $(el);
+    const isIndividual = el.tagName === 'INDIVIDUAL';
+    const name = joinName(
+      e.children('FIRST_NAME').text(), e.children('SECOND_NAME').text(),
+      e.children('THIRD_NAME').text(), e.children('FOURTH_NAME').text(),
+    );
+    const aliases: SanctionsAlias[] = e.children('INDIVIDUAL_ALIAS, ENTITY_ALIAS').toArray().map(a => ({
+      name: text($(a).children('ALIAS_NAME').text()),
+      weak: text($(a).children('QUALITY').text()).toLowerCase() === 'low',
+    }));
+    const original = text(e.children('NAME_ORIGINAL_SCRIPT').text());
+    if (original) aliases.unshift({ name: original, weak: false });
+
+    const birthDates = e.children('INDIVIDUAL_DATE_OF_BIRTH').toArray().map(d => {
+      const dob = $(d);
+      const from = text(dob.children('FROM_YEAR').text());
+      const to = text(dob.children('TO_YEAR').text());
+      return text(dob.children('DATE').text()) || text(dob.children('YEAR').text()) || (from && to ? `${from} to ${to}` : '');
+    }).filter(Boolean);
+
+    entries.push({
+      source: 'un',
+      listId: text(e.children('REFERENCE_NUMBER').text()) || text(e.children('DATAID').text()),
+      entityType: isIndividual ? 'individual' : 'entity',
+      name,
+      aliases: uniqueAliases(name, aliases),
+      birthDates,
+      nationalities: e.find('NATIONALITY > VALUE').toArray().map(v => text($(v).text())).filter(Boolean),
+      programs: [text(e.children('UN_LIST_TYPE').text())].filter(Boolean),
+      remarks: text(e.children('COMMENTS1').text()),
+    });
+  }
+  return entries;
+}
+
+export function parseEUConsolidatedXml(xml: string): SanctionsEntry[] {
+  const $ = cheerio.load(xml, { xml: true });
+  return $('sanctionEntity').toArray().map(el => {
+    const e = $(el);
+    const names = e.children('nameAlias').toArray().map(a => ({
+      name: text($(a).attr('wholeName')) || joinName($(a).attr('firstName'), $(a).attr('middleName'), $(a).attr('lastName')),
+      weak: $(a).attr('strong') === 'false',
+    })).filter(n => n.name);
+    const name = names[0]?.name || '';
+    return {
+      source: 'eu' as const,
+      listId: text(e.attr('euReferenceNumber')) || text(e.attr('logicalId')),
+      entityType: entityType(text(e.children('subjectType').attr('code'))),
+      name,
+      aliases: uniqueAliases(name, names.slice(1)),
+      birthDates: e.children('birthdate').toArray().map(b => text($(b).attr('birthdate')) || text($(b).attr('year'))).filter(Boolean),
+      nationalities: [...new Set(e.children('citizenship').toArray().map(c => text($(c).attr('countryDescription'))).filter(Boolean))],
+      programs: [...new Set(e.children('regulation').toArray().map(r => text($(r).attr('programme'))).filter(Boolean))],
+      remarks: text(e.children('remark').first().text()),
+    };
+  });
+}
+
+export function parseUKHMTCsv(csv: string): SanctionsEntry[] {
+  // One row per name; rows sharing a Group ID are the same designation
+  const groups = new Map<string, Record<string, string>[]>();
+  for (const r of csvRecords(csv, 'Group ID')) {
+    if (!r['Group ID']) continue;
+    if (!groups.has(r['Group ID'])) groups.set(r['Group ID'], []);
+    groups.get(r['Group ID'])!.push(r);
+  }
+
+  const entries: SanctionsEntry[] = [];
+  for (const [groupId, rows] of groups) {
+    const rowName = (r: Record<string, string>) => joinName(r['Name 1'], r['Name 2'], r['Name 3'], r['Name 4'], r['Name 5'], r['Name 6']);
+    const primary = rows.find(r => r['Alias Type'] === 'Primary name') || rows[0];
+    const name = rowName(primary);
+    const aliases: SanctionsAlias[] = [];
+    for (const r of rows) {
+      if (r !== primary) aliases.push({ name: rowName(r), weak: r['Alias Quality'].toLowerCase() === 'low' });
+      if (r['Name Non-Latin Script']) aliases.push({ name: r['Name Non-Latin Script'], weak: false });
+    }
+    const split = (value: string) => value.split(/\(\d+\)/).map(text).filter(Boolean);
+
+    entries.push({
+      source: 'uk_hmt',
+      listId: groupId,
+      entityType: entityType(primary['Group Type']),
+      name,
+      aliases: uniqueAliases(name, aliases),
+      // dd/mm/yyyy with 00 for unknown day/month
+      birthDates: [...new Set(rows.flatMap(r => split(r['DOB'])).map(d => {
+        const m = d.match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
+        if (!m) return d;
+        return m[1] === '00' || m[2] === '00' ? m[3] : `${m[3]}-${m[2]}-${m[1]}`;
+      }))],
+      nationalities: [...new Set(rows.flatMap(r => split(r['Nationality'])))],
+      programs: [...new Set(rows.map(r => r['Regime']).filter(Boolean))],
+      remarks: primary['Other Information'] || '',
+    });
+  }
+  return entries;
+}
+
+export function parseHKMACsv(csv: string): SanctionsEntry[] {
+  return csvRecords(csv, 'Reference').filter(r => r['Name']).map(r => {
+    const aliases: SanctionsAlias[] = (r['Aliases'] || '').split(';').map(a => ({ name: text(a), weak: false }));
+    if (r['Chinese Name']) aliases.unshift({ name: r['Chinese Name'], weak: false });
+    return {
+      source: 'hkma' as const,
+      listId: r['Reference'],
+      entityType: entityType(r['Type'] || 'individual'),
+      name: r['Name'],
+      aliases: uniqueAliases(r['Name'], aliases),
+      birthDates: (r['Date of Birth'] || '').split(';').map(text).filter(Boolean),
+      nationalities: (r['Nationality'] || '').split(';').map(text).filter(Boolean),
+      programs: [r['Programme']].filter(Boolean),
+      remarks: r['Remarks'] || '',
+    };
+  });
+}
+
+// --- Files ---
+
+/** Which list a file holds, from its content. Null if it is not a supported format. */
+export function detectSanctionsSource(content: string): SanctionsSource | null {
+  const head = content.slice(0, 5000);
+  if (head.includes('<sdnList')) return 'ofac_sdn';
+  if (head.includes('<CONSOLIDATED_LIST')) return 'un';
+  if (head.includes('sanctionEntity') || /<export[\s>]/.test(head)) return 'eu';
+  if (/(^|,)"?Group ID"?(,|\r?\n)/m.test(head)) return 'uk_hmt';
+  if (/^\uFEFF?"?Reference"?,/.test(head) && head.includes('Chinese Name')) return 'hkma';
+  return null;
+}
+
+export function parseSanctionsList(source: SanctionsSource, content: string): SanctionsEntry[] {
+  switch (source) {
+    case 'ofac_sdn': return parseOFACSdnXml(content);
+    case 'un': return parseUNConsolidatedXml(content);
+    case 'eu': return parseEUConsolidatedXml(content);
+    case 'uk_hmt': return parseUKHMTCsv(content);
+    case 'hkma': return parseHKMACsv(content);
+  }
+}
+
+/** Read and parse a list file, detecting the list from its content unless `source` is given. */
+export function readSanctionsFile(filePath: string, source?: SanctionsSource): { source: SanctionsSource; entries: SanctionsEntry[] } {
+  const content = fs.readFileSync(filePath, 'utf-8');
+  const detected = source || detectSanctionsSource(content);
+  if (!detected) throw new Error(`Unrecognised sanctions list format: ${filePath}`);
+  return { source: detected, entries: parseSanctionsList(detected, content) };
+}
@@ -0,0 +1,463 @@
+/**
+ * Sanctions and watchlist screening against the locally loaded consolidated lists
+ *
+ * Names are matched on two tracks:
+ *   - Chinese script: Simplified/Traditional variants of the subject against list names
+ *     folded to Simplified (UN/UK publish original-script names, HKMA Chinese names)
+ *   - Latin script: order-insensitive, so romanised Chinese names match however the
+ *     list orders and splits the syllables ("XU Chu-jia", "Chujia Xu", "Xu Chu Jia").
+ *     Chinese-only subjects are also queried in pinyin, since OFAC/EU lists are Latin-only;
+ *     Cantonese romanisations ("Hui Ka Yan") only come in through the profile's name variants.
+ * The name score is then adjusted for date of birth, nationality and entity type.
+ */
+
+import path from 'path';
+import { getChineseVariants, toPinyin, toSimplified } from './utils/chinese.js';
+import { getSanctionsEntries, getSanctionsLists, entryFromRow, replaceSanctionsList } from './sanctions-db.js';
+import {
+  SANCTIONS_SOURCE_LABELS, readSanctionsFile,
+  type SanctionsEntry, type SanctionsEntityType, type SanctionsSource,
+} from './sanctions-lists.js';
+import type { SubjectProfile } from './types.js';
+
+// --- Types ---
+
+export interface SanctionsSubject {
+  name: string;
+  nameVariations?: string[];
+  kind?: 'person' | 'company';
+  birthDate?: string;        // '1965-03-02', '1965', ...
+  ageRange?: string;         // SubjectProfile.ageRange — '40s', 'born 1982', '50-60'
+  nationalities?: string[];
+}
+
+export interface SanctionsCheckOptions {
+  threshold?: number;        // Minimum adjusted score (0-1) to report, default 0.82
+  sources?: SanctionsSource[];
+  limit?: number;            // Hits returned, default 20
+}
+
+export interface SanctionsHit {
+  source: SanctionsSource;
+  sourceLabel: string;
+  listId: string;
+  entityType: SanctionsEntityType;
+  listedName: string;
+  matchedName: string;       // The list name or alias that matched
+  matchedOn: 'name' | 'alias' | 'weak_alias';
+  queryName: string;         // The subject variation that matched it
+  nameScore: number;
+  score: number;             // After DOB / nationality / type adjustments
+  strength: 'strong' | 'possible';
+  reasons: string[];
+  programs: string[];
+  birthDates: string[];
+  nationalities: string[];
+  remarks: string;
+}
+
+export interface SanctionsListStatus {
+  source: SanctionsSource;
+  label: string;
+  entryCount: number;
+  loadedAt: string;
+}
+
+export interface SanctionsCheckResult {
+  subject: string;
+  checkedAt: string;
+  threshold: number;
+  lists: SanctionsListStatus[];
+  hits: SanctionsHit[];
+}
+
+const DEFAULT_THRESHOLD = 0.82;
+const STRONG_SCORE = 0.95;
+// Pinyin is many-to-one (许家印 and 徐佳音 are both "Xu Jia Yin"), so a match on our own romanisation counts for less
+const ROMANISED_FACTOR = 0.9;
+
+// Legal-form and filler words that would otherwise pull in half the entity list
+const STOPWORDS = new Set([
+  'the', 'of', 'and', 'for', 'de', 'co', 'company', 'limited', 'ltd', 'llc', 'inc', 'corp', 'corporation',
+  'group', 'holdings', 'holding', 'international', 'trading', 'sa', 'gmbh', 'plc', 'jsc', 'ooo', 'pte',
+]);
+
+// --- Name normalisation ---
+
+const CJK = /[\u3400-\u9fff]/;
+
+function latinTokens(name: string): string[] {
+  return name.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase()
+    .replace(/[-\u2010\u2011]/g, '')  // "Chu-jia" → "chujia"
+    .split(/[^a-z0-9]+/)
+    .filter(t => t && !STOPWORDS.has(t));
+}
+
+function cjkKey(name: string): string {
+  return toSimplified(name).replace(/[^\u3400-\u9fff]/g, '');
+}
+
+function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const cur = [i];
+    for (let j = 1; j <= b.length; j++) {
+      cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = cur;
+  }
+  return prev[b.length];
+}
+
+function ratio(a: string, b: string): number {
+  const len = Math.max(a.length, b.length);
+  return len === 0 ? 0 : 1 - levenshtein(a, b) / len;
+}
+
+function permutations(tokens: string[]): string[][] {
+  if (tokens.length <= 1) return [tokens];
+  return tokens.flatMap((t, i) => permutations([...tokens.slice(0, i), ...tokens.slice(i + 1)]).map(p => [t, ...p]));
+}
+
+/** Similarity of two tokenised Latin names, ignoring token order and syllable splitting. */
+export function latinNameScore(query: string[], candidate: string[]): number {
+  if (query.length === 0 || candidate.length === 0) return 0;
+  const target = query.join('');
+  // Short names ("Li Na") only count on an exact match
+  const exactOnly = target.length <= 5;
+  const orders = candidate.length <= 5 ? permutations(candidate) : [[...candidate].sort()];
+  let best = 0;
+  for (const order of orders) {
+    const joined = order.join('');
+    const score = exactOnly ? (joined === target ? 1 : 0) : ratio(target, joined);
+    if (score > best) best = score;
+    if (best === 1) break;
+  }
+  return best;
+}
+
+/** Similarity of two Chinese-script names after folding to Simplified. */
+export function cjkNameScore(query: string, candidate: string): number {
+  const a = cjkKey(query);
+  const b = cjkKey(candidate);
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  // Two- and three-character personal names differ by a single character all the time
+  return Math.min(a.length, b.length) >= 4 ? ratio(a, b) : 0;
+}
+
+// --- DOB / nationality ---
+
+/** Birth-year range implied by a date, year range, or profile age description. */
+export function birthYearRange(values: string[], now = new Date()): [number, number] | null {
+  const years: number[] = [];
+  for (const v of values) {
+    const found = v.match(/\b(19|20)\d{2}\b/g);
+    if (found) {
+      years.push(...found.map(Number));
+      continue;
+    }
+    // Ages: "40s", "45", "50-60"
+    const decade = v.match(/\b(\d{2})s\b/);
+    const span = v.match(/\b(\d{2})\s*[-–~]\s*(\d{2})\b/);
+    const age = v.match(/\b(\d{2})\b/);
+    const year = now.getFullYear();
+    if (decade) years.push(year - parseInt(decade[1]) - 9, year - parseInt(decade[1]));
+    else if (span) years.push(year - parseInt(span[2]), year - parseInt(span[1]));
+    else if (age) years.push(year - parseInt(age[1]) - 1, year - parseInt(age[1]));
+  }
+  return years.length > 0 ? [Math.min(...years), Math.max(...years)] : null;
+}
+
+const COUNTRY_ALIASES: Record<string, string> = {
+  'prc': 'china',
+  "people's republic of china": 'china',
+  'mainland china': 'china',
+  'china, hong kong': 'hong kong',
+  'hong kong, china': 'hong kong',
+  'hong kong sar': 'hong kong',
+  'hksar': 'hong kong',
+  'china, macao': 'macau',
+  'macao': 'macau',
+  'usa': 'united states',
+  'united states of america': 'united states',
+  'uk': 'united kingdom',
+};
+
+// Subjects from Hong Kong/Macau often hold PRC nationality — don't treat these as conflicting
+const GREATER_CHINA = new Set(['china', 'hong kong', 'macau']);
+
+function normalizeCountry(value: string): string {
+  const v = value.toLowerCase().replace(/\s+/g, ' ').trim();
+  return COUNTRY_ALIASES[v] || v;
+}
+
+function nationalitiesCompatible(a: string[], b: string[]): boolean {
+  const left = a.map(normalizeCountry);
+  const right = new Set(b.map(normalizeCountry));
+  return left.some(c => right.has(c) || (GREATER_CHINA.has(c) && [...right].some(r => GREATER_CHINA.has(r))));
+}
+
+// --- Index ---
+
+interface IndexedName {
+  entry: number;             // Index into SanctionsIndex.entries
+  name: string;
+  matchedOn: SanctionsHit['matchedOn'];
+  tokens: string[];
+  cjk: string;
+}
+
+interface SanctionsIndex {
+  signature: string;
+  entries: SanctionsEntry[];
+  names: IndexedName[];
+  byToken: Map<string, number[]>;  // Latin token → names
+  byCjk: Map<string, number[]>;    // Simplified name → names
+}
+
+let cachedIndex: SanctionsIndex | null = null;
+
+function addTo(map: Map<string, number[]>, key: string, value: number): void {
+  const list = map.get(key);
+  if (!list) map.set(key, [value]);
+  else if (list[list.length - 1] !== value) list.push(value);
+}
+
+// Latin tokens plus adjacent pairs joined, so "chu jia" and "chujia" meet in the index
+function blockingKeys(tokens: string[]): string[] {
+  const keys = tokens.filter(t => t.length >= 2);
+  for (let i = 0; i + 1 < tokens.length; i++) keys.push(tokens[i] + tokens[i + 1]);
+  return keys;
+}
+
+function buildIndex(entries: SanctionsEntry[], signature: string): SanctionsIndex {
+  const index: SanctionsIndex = { signature, entries, names: [], byToken: new Map(), byCjk: new Map() };
+  entries.forEach((entry, i) => {
+    const names = [
+      { name: entry.name, matchedOn: 'name' as const },
+      ...entry.aliases.map(a => ({ name: a.name, matchedOn: a.weak ? 'weak_alias' as const : 'alias' as const })),
+    ];
+    for (const n of names) {
+      const ref = index.names.length;
+      const indexed: IndexedName = { entry: i, ...n, tokens: latinTokens(n.name), cjk: CJK.test(n.name) ? cjkKey(n.name) : '' };
+      index.names.push(indexed);
+      if (indexed.cjk) addTo(index.byCjk, indexed.cjk, ref);
+      for (const key of blockingKeys(indexed.tokens)) addTo(index.byToken, key, ref);
+    }
+  });
+  return index;
+}
+
+/**
+ * Entries and lookup tables for matching, rebuilt whenever a list is reloaded
+ * (the load timestamps are the cache key, so every server instance picks up a reload).
+ */
+async function loadIndex(sources?: SanctionsSource[]): Promise<{ index: SanctionsIndex; lists: SanctionsListStatus[] }> {
+  const lists = (await getSanctionsLists())
+    .filter(l => !sources || sources.includes(l.source))
+    .map(l => ({
+      source: l.source,
+      label: SANCTIONS_SOURCE_LABELS[l.source] || l.source,
+      entryCount: l.entry_count,
+      loadedAt: new Date(l.loaded_at).toISOString(),
+    }));
+  const signature = JSON.stringify([sources || null, lists.map(l => [l.source, l.loadedAt])]);
+  if (!cachedIndex || cachedIndex.signature !== signature) {
+    const rows = await getSanctionsEntries(sources);
+    cachedIndex = buildIndex(rows.map(entryFromRow), signature);
+  }
+  return { index: cachedIndex, lists };
+}
+
+// --- Loading ---
+
+/** Parse a list file from disk and replace that list's entries in the database. */
+export async function loadSanctionsFile(filePath: string, source?: SanctionsSource): Promise<{ source: SanctionsSource; entryCount: number }> {
+  const parsed = readSanctionsFile(filePath, source);
+  if (parsed.entries.length === 0) {
+    throw new Error(`No entries parsed from ${filePath} — refusing to empty the ${parsed.source} list`);
+  }
+  const entryCount = await replaceSanctionsList(parsed.source, path.basename(filePath), parsed.entries);
+  console.log(`[SANCTIONS] Loaded ${entryCount} ${parsed.source} entries from ${filePath}`);
+  return { source: parsed.source, entryCount };
+}
+
+// --- Matching ---
+
+// Subject names to look up; romanised = pinyin we derived, not a name the subject is known by
+function queryNames(subject: SanctionsSubject): { name: string; romanised: boolean }[] {
+  const names = new Map<string, boolean>();
+  const add = (name: string, romanised: boolean) => {
+    if (name && !names.has(name)) names.set(name, romanised);
+  };
+  const given = [subject.name, ...(subject.nameVariations || [])].map(n => n.trim()).filter(Boolean);
+  for (const name of given) {
+    add(name, false);
+    if (CJK.test(name)) {
+      for (const v of getChineseVariants(name)) add(v, false);
+    }
+  }
+  const latinKnown = new Set([...names.keys()].filter(n => !CJK.test(n)).map(n => latinTokens(n).join('')));
+  for (const name of given.filter(n => CJK.test(n))) {
+    const romanised = toPinyin(name, subject.kind !== 'company');
+    if (!latinKnown.has(latinTokens(romanised).join(''))) add(romanised, true);
+  }
+  return [...names].map(([name, romanised]) => ({ name, romanised }));
+}
+
+function scoreHit(
+  subject: SanctionsSubject, entry: SanctionsEntry, nameScore: number, matchedOn: SanctionsHit['matchedOn'], romanised: boolean,
+): { score: number; reasons: string[] } {
+  const reasons = [nameScore === 1 ? 'exact_name' : 'fuzzy_name'];
+  let score = nameScore;
+  if (romanised) {
+    score *= ROMANISED_FACTOR;
+    reasons.push('romanised');
+  }
+  if (matchedOn === 'weak_alias') {
+    score *= 0.9;
+    reasons.push('weak_alias');
+  }
+
+  const subjectYears = birthYearRange([subject.birthDate, subject.ageRange].filter((v): v is string => !!v));
+  const listedYears = birthYearRange(entry.birthDates);
+  if (subjectYears && listedYears) {
+    const gap = Math.max(listedYears[0] - subjectYears[1], subjectYears[0] - listedYears[1], 0);
+    if (gap === 0) {
+      score += 0.05;
+      reasons.push('dob_consistent');
+    } else if (gap > 2) {
+      score -= 0.25;
+      reasons.push('dob_conflict');
+    }
+  }
+
+  if (subject.nationalities?.length && entry.nationalities.length) {
+    if (nationalitiesCompatible(subject.nationalities, entry.nationalities)) {
+      score += 0.03;
+      reasons.push('nationality_consistent');
+    } else {
+      score -= 0.1;
+      reasons.push('nationality_conflict');
+    }
+  }
+
+  if (subject.kind) {
+    const listedPerson = entry.entityType === 'individual';
+    if ((subject.kind === 'person') !== listedPerson) {
+      score -= 0.3;
+      reasons.push('type_mismatch');
+    }
+  }
+
+  return { score: Math.round(Math.max(0, Math.min(1, score)) * 1000) / 1000, reasons };
+}
+
+/** Screen a subject against the loaded sanctions lists. */
+export async function checkSanctions(subject: SanctionsSubject, options: SanctionsCheckOptions = {}): Promise<SanctionsCheckResult> {
+  const threshold = options.threshold ?? DEFAULT_THRESHOLD;
+  const { index, lists } = await loadIndex(options.sources);
+  const best = new Map<number, SanctionsHit>();  // entry → best-scoring hit
+
+  for (const { name: queryName, romanised } of queryNames(subject)) {
+    const isCjk = CJK.test(queryName);
+    const tokens = latinTokens(queryName);
+    const candidates = new Set<number>(isCjk ? index.byCjk.get(cjkKey(queryName)) || [] : []);
+    for (const key of blockingKeys(tokens)) {
+      for (const ref of index.byToken.get(key) || []) candidates.add(ref);
+    }
+
+    for (const ref of candidates) {
+      const n = index.names[ref];
+      const nameScore = isCjk && n.cjk ? cjkNameScore(queryName, n.name) : latinNameScore(tokens, n.tokens);
+      if (nameScore < threshold) continue;
+
+      const entry = index.entries[n.entry];
+      const { score, reasons } = scoreHit(subject, entry, nameScore, n.matchedOn, romanised);
+      if (score < threshold) continue;
+      const existing = best.get(n.entry);
+      if (existing && existing.score >= score) continue;
+
+      best.set(n.entry, {
+        source: entry.source,
+        sourceLabel: SANCTIONS_SOURCE_LABELS[entry.source],
+        listId: entry.listId,
+        entityType: entry.entityType,
+        listedName: entry.name,
+        matchedName: n.name,
+        matchedOn: n.matchedOn,
+        queryName,
+        nameScore: Math.round(nameScore * 1000) / 1000,
+        score,
+        strength: score >= STRONG_SCORE && !reasons.some(r => r.endsWith('_conflict') || r === 'type_mismatch') ? 'strong' : 'possible',
+        reasons,
+        programs: entry.programs,
+        birthDates: entry.birthDates,
+        nationalities: entry.nationalities,
+        remarks: entry.remarks,
+      });
+    }
+  }
+
+  return {
+    subject: subject.name,
+    checkedAt: new Date().toISOString(),
+    threshold,
+    lists,
+    hits: [...best.values()].sort((a, b) => b.score - a.score).slice(0, options.limit ?? 20),
+  };
+}
+
+/** Sanctions subject from a screening's name variations and extracted profile. */
+export function subjectFromProfile(
+  subjectName: string,
+  nameVariations: string[],
+  profile: SubjectProfile,
+  kind: 'person' | 'company',
+): SanctionsSubject {
+  return {
+    name: subjectName,
+    nameVariations: [...new Set([...nameVariations, ...profile.nameVariants])],
+    kind,
+    ageRange: profile.ageRange || undefined,
+    nationalities: profile.nationality,
+  };
+}
+
+// --- Report section ---
+
+export const SANCTIONS_SECTION_TITLE = 'Sanctions & Watchlist Screening';
+
+/** Plain-text report section in the same register as the media write-up. */
+export function formatSanctionsSection(result: SanctionsCheckResult): string {
+  if (result.lists.length === 0) {
+    return `${SANCTIONS_SECTION_TITLE}\n\nNo sanctions lists were loaded at the time of screening; sanctions and watchlist searches were not conducted for ${result.subject}.`;
+  }
+
+  const listNames = result.lists.map(l => `the ${l.label} (as at ${l.loadedAt.slice(0, 10)})`);
+  const searched = listNames.length > 1
+    ? `${listNames.slice(0, -1).join(', ')} and ${listNames[listNames.length - 1]}`
+    : listNames[0];
+
+  if (result.hits.length === 0) {
+    return `${SANCTIONS_SECTION_TITLE}\n\nSearches of ${searched} returned no matches for ${result.subject}.`;
+  }
+
+  const count = result.hits.length === 1 ? 'one potential match' : `${result.hits.length} potential matches`;
+  const lines = result.hits.map(h => {
+    const details = [
+      h.programs.length > 0 ? `programme: ${h.programs.join(', ')}` : '',
+      h.birthDates.length > 0 ? `date of birth: ${h.birthDates.join(', ')}` : '',
+      h.nationalities.length > 0 ? `nationality: ${h.nationalities.join(', ')}` : '',
+    ].filter(Boolean).join('; ');
+    const via = [
+      h.matchedOn === 'name' ? '' : ` (via alias "${h.matchedName}")`,
+      h.reasons.includes('romanised') ? ` (on the pinyin romanisation "${h.queryName}")` : '',
+    ].join('');
+    return `- ${h.listedName}${via} — ${h.sourceLabel}, reference ${h.listId}${details ? `; ${details}` : ''}. ${h.strength === 'strong' ? 'Strong' : 'Possible'} match (score ${h.score.toFixed(2)}).`;
+  });
+
+  return `${SANCTIONS_SECTION_TITLE}\n\nSearches of ${searched} identified ${count} for ${result.subject}. These require review against the subject's identifiers before any conclusion is drawn.\n\n${lines.join('\n')}`;
+}
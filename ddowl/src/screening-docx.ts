@@ -0,0 +1,325 @@
+import {
+  Document, Packer, Paragraph, TextRun, HeadingLevel, PageBreak, FootnoteReferenceRun,
+  Table, TableRow, TableCell, WidthType, AlignmentType, ShadingType,
+} from 'docx';
+import { classifySource } from './reportGenerator.js';
+import { SANCTIONS_SECTION_TITLE } from './sanctions.js';
+import { PEP_SECTION_TITLE } from './pep.js';
+import { LITIGATION_SECTION_TITLE } from './litigation.js';
+import { TIMELINE_SECTION_TITLE } from './timeline.js';
+
+export interface ScreeningDocxFinding {
+  severity: 'RED' | 'AMBER' | 'REVIEW';
+  headline: string;
+  eventType: string;
+  dateRange?: string;
+  summary: string;
+  sources: { url: string; title: string }[];
+}
+
+export interface ScreeningDocxInput {
+  subjectName: string;
+  screenedAt: string;        // ISO timestamp
+  reportText: string;        // Write-up as produced by generateFullReport (or the analyst-edited version); '' to build from findings
+  nameVariations?: string[];
+  findings?: ScreeningDocxFinding[];
+}
+
+// --- Report text parsing ---
+
+export type ReportBlock =
+  | { kind: 'heading'; level: 1 | 2; text: string }
+  | { kind: 'paragraph'; lines: string[]; footnotes?: Map<number, string[]> }  // own footnotes when followed by an inline source list
+  | { kind: 'bullets'; items: string[] }
+  | { kind: 'table'; header: string[]; rows: string[][] };  // Markdown pipe table
+
+export interface ParsedReport {
+  blocks: ReportBlock[];
+  footnotes: Map<number, string[]>;  // [N] → source URLs, from the trailing block after '---'
+  archived: Map<string, string>;      // Source URL → archived copy link, from the same block
+}
+
+const FOOTNOTE_LINE = /^\[(\d+)\]\s+(\S+)/;
+const ARCHIVED_COPY = /\(archived copy: (\S+)\)/;
+
+// Top-level sections of the generated write-up, rendered as Heading 1 wherever they appear
+const SECTION_TITLES = new Set(['Media & Internet Searches', TIMELINE_SECTION_TITLE, LITIGATION_SECTION_TITLE, PEP_SECTION_TITLE, SANCTIONS_SECTION_TITLE]);
+
+const TABLE_LINE = /^\|.*\|$/;
+const TABLE_RULE = /^\|(\s*:?-+:?\s*\|)+$/;
+
+function tableCells(line: string): string[] {
+  return line.slice(1, -1).split('|').map(c => c.trim());
+}
+
+// A short single line with no references or sentence punctuation — the write-up's per-finding headlines
+function looksLikeHeadline(block: string): boolean {
+  return !block.includes('\n')
+    && block.length <= 200
+    && !/\[\d+\]/.test(block)
+    && !/[.。:：]$/.test(block);
+}
+
+/**
+ * Split a write-up into headings, paragraphs and the consolidated footnote list.
+ * Accepts both generated text and analyst edits: '#'/'##' headings and '- ' bullets are honoured,
+ * bare headline lines become finding headings.
+ */
+export function parseScreeningReport(text: string): ParsedReport {
+  let body = text.replace(/\r\n/g, '\n').trim();
+  const footnotes = new Map<number, string[]>();
+  const archived = new Map<string, string>();
+
+  const sep = body.lastIndexOf('\n---\n');
+  if (sep !== -1) {
+    const tail = body.slice(sep + 5).trim().split('\n').map(l => l.trim()).filter(Boolean);
+    if (tail.length > 0 && tail.every(l => FOOTNOTE_LINE.test(l))) {
+      for (const line of tail) {
+        const m = line.match(FOOTNOTE_LINE)!;
+        footnotes.set(parseInt(m[1]), [m[2]]);
+        const copy = line.match(ARCHIVED_COPY);
+        if (copy) archived.set(m[2], copy[1]);
+      }
+      body = body.slice(0, sep).trim();
+    }
+  }
+
+  const blocks: ReportBlock[] = [];
+  const rawBlocks = body.split(/\n{2,}/).map(b => b.trim()).filter(Boolean);
+  rawBlocks.forEach((block, i) => {
+    const lines = block.split('\n').map(l => l.trim());
+    const heading = block.match(/^(#{1,3})\s+(.+)$/);
+    if (heading && lines.length === 1) {
+      blocks.push({ kind: 'heading', level: heading[1].length === 1 ? 1 : 2, text: heading[2].replace(/\*\*/g, '') });
+    } else if (lines.length >= 2 && lines.every(l => TABLE_LINE.test(l)) && TABLE_RULE.test(lines[1])) {
+      blocks.push({ kind: 'table', header: tableCells(lines[0]), rows: lines.slice(2).map(tableCells) });
+    } else if (lines.every(l => /^[-*•]\s+/.test(l))) {
+      blocks.push({ kind: 'bullets', items: lines.map(l => l.replace(/^[-*•]\s+/, '')) });
+    } else if (FOOTNOTE_LINE.test(lines[0]) && lines.every(l => FOOTNOTE_LINE.test(l) || /^https?:\/\//.test(l))) {
+      // Clean-entity write-ups carry their own "[1]  url\nurl..." list for the paragraph above
+      const local = new Map<number, string[]>();
+      let current = 0;
+      for (const line of lines) {
+        const m = line.match(FOOTNOTE_LINE);
+        if (m) { current = parseInt(m[1]); local.set(current, [m[2]]); }
+        else local.get(current)!.push(line);
+      }
+      const prev = blocks[blocks.length - 1];
+      if (prev?.kind === 'paragraph') prev.footnotes = local;
+    } else if (looksLikeHeadline(block)) {
+      // The generated text opens with "Media & Internet Searches" — the section title
+      blocks.push({ kind: 'heading', level: i === 0 || SECTION_TITLES.has(block) ? 1 : 2, text: block.replace(/\*\*/g, '') });
+    } else {
+      blocks.push({ kind: 'paragraph', lines });
+    }
+  });
+
+  return { blocks, footnotes, archived };
+}
+
+/**
+ * Write-up text built straight from findings when no report has been generated:
+ * headline, summary, and one reference per source.
+ */
+function reportTextFromFindings(findings: ScreeningDocxFinding[]): string {
+  let index = 1;
+  const urls: string[] = [];
+  const sections = findings.map(f => {
+    const refs = f.sources.map(s => { urls.push(s.url); return `[${index++}]`; }).join('');
+    const headline = f.dateRange ? `${f.headline} (${f.dateRange})` : f.headline;
+    return `${headline}\n\n${f.summary}${refs}`;
+  });
+  const footnoteBlock = urls.map((url, i) => `[${i + 1}]  ${url}`).join('\n');
+  return `Media & Internet Searches\n\n${sections.join('\n\n')}${urls.length > 0 ? `\n\n---\n\n${footnoteBlock}` : ''}`;
+}
+
+// --- Rendering ---
+
+const SEVERITY_COLOURS: Record<string, string> = { RED: 'C00000', AMBER: 'ED7D31', REVIEW: '7F7F7F' };
+
+function outletLabel(url: string, title?: string): string {
+  const meta = classifySource(url, title);
+  return meta.outletNameChinese && meta.outletNameChinese !== meta.outletName
+    ? `${meta.outletName} (${meta.outletNameChinese})`
+    : meta.outletName;
+}
+
+function cell(text: string, opts: { bold?: boolean; fill?: string; color?: string; width?: number } = {}): TableCell {
+  return new TableCell({
+    width: opts.width ? { size: opts.width, type: WidthType.PERCENTAGE } : undefined,
+    shading: opts.fill ? { type: ShadingType.CLEAR, color: 'auto', fill: opts.fill } : undefined,
+    children: [new Paragraph({ children: [new TextRun({ text, bold: opts.bold, color: opts.color })] })],
+  });
+}
+
+function table(headers: { text: string; width: number }[], rows: TableCell[][]): Table {
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: [
+      new TableRow({ tableHeader: true, children: headers.map(h => cell(h.text, { bold: true, fill: 'D9E2F3', width: h.width })) }),
+      ...rows.map(children => new TableRow({ children })),
+    ],
+  });
+}
+
+function coverPage(input: ScreeningDocxInput): Paragraph[] {
+  const variations = (input.nameVariations || []).filter(v => v !== input.subjectName);
+  return [
+    new Paragraph({ spacing: { before: 3000 }, text: 'PRIVATE & CONFIDENTIAL', alignment: AlignmentType.CENTER }),
+    new Paragraph({ spacing: { before: 600 }, text: input.subjectName, heading: HeadingLevel.TITLE, alignment: AlignmentType.CENTER }),
+    new Paragraph({
+      alignment: AlignmentType.CENTER,
+      children: [new TextRun({ text: 'Adverse Media & Internet Screening Report', size: 32 })],
+    }),
+    ...(variations.length > 0 ? [new Paragraph({
+      spacing: { before: 400 },
+      alignment: AlignmentType.CENTER,
+      children: [new TextRun({ text: `Also searched as: ${variations.join(', ')}`, italics: true })],
+    })] : []),
+    new Paragraph({
+      spacing: { before: 400 },
+      alignment: AlignmentType.CENTER,
+      children: [new TextRun({ text: `Screened ${input.screenedAt.slice(0, 10)}` })],
+    }),
+    new Paragraph({ children: [new PageBreak()] }),
+  ];
+}
+
+function executiveSummary(findings: ScreeningDocxFinding[]): (Paragraph | Table)[] {
+  const red = findings.filter(f => f.severity === 'RED').length;
+  const amber = findings.length - red;
+  const rating = red > 0 ? 'HIGH' : amber > 0 ? 'MEDIUM' : 'LOW';
+
+  const out: (Paragraph | Table)[] = [
+    new Paragraph({ text: 'Executive Risk Summary', heading: HeadingLevel.HEADING_1 }),
+    new Paragraph({
+      spacing: { after: 200 },
+      children: [
+        new TextRun({ text: 'Overall media risk: ', bold: true }),
+        new TextRun({ text: rating, bold: true, color: red > 0 ? SEVERITY_COLOURS.RED : amber > 0 ? SEVERITY_COLOURS.AMBER : '548235' }),
+        new TextRun({
+          text: findings.length === 0
+            ? ' — no adverse media findings were identified.'
+            : ` — ${findings.length} finding${findings.length === 1 ? '' : 's'} (${red} red, ${amber} amber).`,
+        }),
+      ],
+    }),
+  ];
+
+  if (findings.length > 0) {
+    out.push(table(
+      [{ text: '#', width: 5 }, { text: 'Risk', width: 10 }, { text: 'Issue', width: 55 }, { text: 'Type', width: 18 }, { text: 'Period', width: 12 }],
+      findings.map((f, i) => [
+        cell(String(i + 1)),
+        cell(f.severity, { bold: true, color: SEVERITY_COLOURS[f.severity] }),
+        cell(f.headline),
+        cell(f.eventType.replace(/_/g, ' ')),
+        cell(f.dateRange || ''),
+      ]),
+    ));
+  }
+  out.push(new Paragraph({ children: [new PageBreak()] }));
+  return out;
+}
+
+/**
+ * Render a screening report as a Word document in the house DD format:
+ * cover page, executive risk summary, the write-up with one heading per finding and
+ * real footnotes for its [N] references, and a sources appendix.
+ */
+export async function renderScreeningDocx(input: ScreeningDocxInput): Promise<Buffer> {
+  const findings = input.findings || [];
+  const reportText = input.reportText.trim() || reportTextFromFindings(findings);
+  const { blocks, footnotes, archived } = parseScreeningReport(reportText);
+
+  const titles = new Map<string, string>();
+  for (const f of findings) {
+    for (const s of f.sources) titles.set(s.url, s.title);
+  }
+
+  // Word numbers footnotes itself; each [N] occurrence gets its own note pointing at source N
+  const docFootnotes: Record<number, { children: Paragraph[] }> = {};
+  const citedUrls = new Set<string>();
+  let nextFootnoteId = 1;
+  const runsWithFootnotes = (line: string, notes: Map<number, string[]>): (TextRun | FootnoteReferenceRun)[] => {
+    const runs: (TextRun | FootnoteReferenceRun)[] = [];
+    let last = 0;
+    for (const m of line.matchAll(/\[(\d+)\]/g)) {
+      const urls = notes.get(parseInt(m[1]));
+      if (!urls) continue;
+      if (m.index! > last) runs.push(new TextRun(line.slice(last, m.index)));
+      const id = nextFootnoteId++;
+      docFootnotes[id] = {
+        children: urls.map(url => {
+          citedUrls.add(url);
+          const title = titles.get(url);
+          return new Paragraph({ children: [new TextRun(`${outletLabel(url, title)}${title ? `, "${title}"` : ''}, ${url}`)] });
+        }),
+      };
+      runs.push(new FootnoteReferenceRun(id));
+      last = m.index! + m[0].length;
+    }
+    if (last < line.length) runs.push(new TextRun(line.slice(last)));
+    return runs;
+  };
+
+  const body: (Paragraph | Table)[] = blocks.flatMap((block): (Paragraph | Table)[] => {
+    switch (block.kind) {
+      case 'heading':
+        return [new Paragraph({ text: block.text, heading: block.level === 1 ? HeadingLevel.HEADING_1 : HeadingLevel.HEADING_2 })];
+      case 'bullets':
+        return block.items.map(item => new Paragraph({ bullet: { level: 0 }, children: runsWithFootnotes(item, footnotes) }));
+      case 'paragraph':
+        return [new Paragraph({
+          spacing: { after: 200 },
+          children: block.lines.flatMap((line, i) => {
+            const runs = runsWithFootnotes(line, block.footnotes || footnotes);
+            return i > 0 ? [new TextRun({ text: '', break: 1 }), ...runs] : runs;
+          }),
+        })];
+      case 'table': {
+        const width = Math.floor(100 / block.header.length);
+        return [
+          table(block.header.map(text => ({ text, width })), block.rows.map(row => block.header.map((_, i) => cell(row[i] || '')))),
+          new Paragraph({ text: '' }),
+        ];
+      }
+    }
+  });
+
+  // Appendix lists every cited source in citation order, or every finding source when nothing is cited
+  const appendixUrls = citedUrls.size > 0 ? [...citedUrls] : [...titles.keys()];
+  const appendix: (Paragraph | Table)[] = appendixUrls.length === 0 ? [] : [
+    new Paragraph({ children: [new PageBreak()] }),
+    new Paragraph({ text: 'Appendix: Sources', heading: HeadingLevel.HEADING_1 }),
+    table(
+      [{ text: '#', width: 5 }, { text: 'Outlet', width: 25 }, { text: 'Type', width: 15 }, { text: 'Title / URL', width: 55 }],
+      appendixUrls.map((url, i) => [
+        cell(String(i + 1)),
+        cell(outletLabel(url, titles.get(url))),
+        cell(classifySource(url, titles.get(url)).mediaType),
+        new TableCell({
+          children: [
+            ...(titles.get(url) ? [new Paragraph(titles.get(url)!)] : []),
+            new Paragraph({ children: [new TextRun({ text: url, size: 16 })] }),
+            ...(archived.has(url) ? [new Paragraph({ children: [new TextRun({ text: `Archived copy: ${archived.get(url)}`, size: 16 })] })] : []),
+          ],
+        }),
+      ]),
+    ),
+  ];
+
+  const doc = new Document({
+    footnotes: docFootnotes,
+    sections: [{
+      children: [
+        ...coverPage(input),
+        ...executiveSummary(findings),
+        ...body,
+        ...appendix,
+      ],
+    }],
+  });
+
+  return Packer.toBuffer(doc);
+}
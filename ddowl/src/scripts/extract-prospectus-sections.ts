@@ -0,0 +1,56 @@
+/**
+ * Extract prospectus sections for deals that have a prospectus but no extraction yet
+ *
+ * Stores directors, management, controlling shareholders, cornerstone investors, advisers, use of
+ * proceeds and risk factors per deal (see prospectus-sections.ts). Needs DATABASE_URL and
+ * migration 004.
+ *
+ * Usage:
+ *   npx tsx src/scripts/extract-prospectus-sections.ts              # every deal not yet extracted
+ *   npx tsx src/scripts/extract-prospectus-sections.ts --limit 20
+ *   npx tsx src/scripts/extract-prospectus-sections.ts --all        # re-extract deals already done
+ */
+
+import 'dotenv/config';
+import { pool, closeDb } from '../db/index.js';
+import { extractDealProspectus } from '../prospectus-db.js';
+
+const args = process.argv.slice(2);
+const all = args.includes('--all');
+const limitArg = args.indexOf('--limit');
+const limit = limitArg >= 0 ? parseInt(args[limitArg + 1]) : null;
+
+async function main() {
+  const result = await pool.query(`
+    SELECT d.id, d.prospectus_url, c.name_en
+    FROM deals d
+    JOIN companies c ON c.id = d.company_id
+    WHERE d.prospectus_url IS NOT NULL
+      ${all ? '' : 'AND NOT EXISTS (SELECT 1 FROM prospectus_extractions pe WHERE pe.deal_id = d.id)'}
+    ORDER BY d.listing_date DESC NULLS LAST
+    ${limit ? `LIMIT ${limit}` : ''}
+  `);
+
+  console.log(`${result.rows.length} deals to extract`);
+  let failed = 0;
+
+  for (const [i, deal] of result.rows.entries()) {
+    try {
+      const sections = await extractDealProspectus(deal.id, deal.prospectus_url);
+      console.log(`[${i + 1}/${result.rows.length}] ${deal.name_en}: ${sections.parties.length} parties, ` +
+        `${sections.useOfProceeds.length} proceeds items, ${sections.riskFactors.length} risk factors`);
+    } catch (err) {
+      failed++;
+      console.error(`[${i + 1}/${result.rows.length}] ${deal.name_en}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  console.log(`\nDone, ${failed} failed`);
+}
+
+main()
+  .catch(err => {
+    console.error('Prospectus extraction failed:', err);
+    process.exitCode = 1;
+  })
+  .finally(() => closeDb());
@@ -0,0 +1,41 @@
+/**
+ * Extraction Quality — run the article extractor over saved pages and score the results
+ *
+ * Each fixture in <dir>/fixtures.json names a saved page (raw bytes, any charset) and what a
+ * reader would take from it: title, date, byline, body phrases that must survive and
+ * boilerplate that must not. Add a fixture whenever a portal's extraction regresses.
+ *
+ * Usage:
+ *   npx tsx src/scripts/extraction-quality.ts                        # bundled fixtures
+ *   npx tsx src/scripts/extraction-quality.ts path/to/fixtures-dir
+ */
+
+import path from 'path';
+import { runExtractionFixtures } from '../extraction/quality.js';
+
+const DEFAULT_DIR = path.join(process.cwd(), 'src/tests/fixtures/extraction');
+const dir = process.argv[2] || DEFAULT_DIR;
+
+async function main() {
+  const scores = await runExtractionFixtures(dir);
+
+  for (const score of scores) {
+    const { article } = score;
+    console.log(`${score.passed ? '✓' : '✗'} ${score.name}`);
+    console.log(`    recall ${score.recall.toFixed(2)}  precision ${score.precision.toFixed(2)}  [${article.method}, ${article.pages}p, ${article.text.length} chars]`);
+    for (const failure of score.failures) {
+      console.log(`    ${failure}`);
+    }
+  }
+
+  const passed = scores.filter(s => s.passed).length;
+  const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / Math.max(values.length, 1);
+  console.log(`\n${passed}/${scores.length} passed, mean recall ${mean(scores.map(s => s.recall)).toFixed(2)}, mean precision ${mean(scores.map(s => s.precision)).toFixed(2)}`);
+
+  if (passed < scores.length) process.exit(1);
+}
+
+main().catch(err => {
+  console.error('Extraction quality run failed:', err);
+  process.exit(1);
+});
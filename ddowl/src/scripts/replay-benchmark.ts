@@ -0,0 +1,65 @@
+/**
+ * Replay Benchmark — re-run recorded screenings offline and trace them against BENCHMARK_CASES
+ *
+ * Bundles are recorded by running a v4 screening with ?record=1 and land in
+ * logs/benchmarks/fixtures/. Replays answer every page fetch and LLM call from the
+ * bundle, so prompt/filter changes can be regression-tested without network access.
+ *
+ * Usage:
+ *   npx tsx src/scripts/replay-benchmark.ts "许楚家"                       # latest bundle for a subject
+ *   npx tsx src/scripts/replay-benchmark.ts logs/benchmarks/fixtures/x.json
+ *   npx tsx src/scripts/replay-benchmark.ts --all                          # every benchmark case with a bundle
+ *   npx tsx src/scripts/replay-benchmark.ts --all --live                   # answer missing calls live
+ */
+
+import { BENCHMARK_CASES } from '../metrics/benchmarks.js';
+import { printTraceReport } from '../metrics/tracer.js';
+import { loadFixtureBundle } from '../logging/storage.js';
+import { replayBundle } from '../replay/replay.js';
+import type { FixtureBundle } from '../replay/fixtures.js';
+
+const LIVE = process.argv.includes('--live');
+const ALL = process.argv.includes('--all');
+const target = process.argv.slice(2).find(a => !a.startsWith('--'));
+
+async function main() {
+  const bundles: FixtureBundle[] = [];
+  if (ALL) {
+    for (const benchmark of BENCHMARK_CASES) {
+      const bundle = loadFixtureBundle(benchmark.subject);
+      if (bundle) bundles.push(bundle);
+      else console.log(`No fixture bundle for ${benchmark.subject}, skipping`);
+    }
+  } else if (target) {
+    const bundle = loadFixtureBundle(target);
+    if (!bundle) throw new Error(`No fixture bundle found for "${target}"`);
+    bundles.push(bundle);
+  } else {
+    console.log('Usage: npx tsx src/scripts/replay-benchmark.ts <subject | bundle.json> | --all [--live]');
+    process.exit(1);
+  }
+
+  let failed = false;
+  for (const bundle of bundles) {
+    console.log(`\n=== Replaying ${bundle.subject} (recorded ${bundle.recordedAt}) ===`);
+    const result = await replayBundle(bundle, { onMiss: LIVE ? 'live' : 'error' });
+
+    if (result.trace) printTraceReport(result.trace);
+    console.log(`Findings: ${result.findings.length}, LLM calls: ${result.metrics.costs.length}`);
+
+    if (result.misses.length > 0) {
+      if (!LIVE) failed = true;
+      console.log(`Calls missing from bundle (${result.misses.length}):`);
+      for (const miss of result.misses.slice(0, 20)) {
+        console.log(`  [${miss.kind}] ${miss.label.slice(0, 100)}`);
+      }
+    }
+  }
+
+  if (failed) process.exit(1);
+}
+
+main().catch(err => {
+  console.error('Replay failed:', err);
+  process.exit(1);
+});
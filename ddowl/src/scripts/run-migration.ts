@@ -21,12 +21,16 @@ const DB_URL = process.env.DATABASE_URL || 'postgresql://postgres:DOMRD7x7ECUny4
 async function runSqlMigration() {
   console.log('=== Step 1: Running SQL Migration ===\n');
 
-  const sqlPath = path.join(__dirname, '../db/migrations/001_ipo_lifecycle_columns.sql');
-  const sql = fs.readFileSync(sqlPath, 'utf-8');
+  // Migrations are idempotent and run in filename order
+  const migrationsDir = path.join(__dirname, '../db/migrations');
+  const files = fs.readdirSync(migrationsDir).filter(f => f.endsWith('.sql')).sort();
 
   const pool = new Pool({ connectionString: DB_URL, ssl: { rejectUnauthorized: false } });
   try {
-    await pool.query(sql);
+    for (const file of files) {
+      await pool.query(fs.readFileSync(path.join(migrationsDir, file), 'utf-8'));
+      console.log(`${file} applied.`);
+    }
     console.log('SQL migration completed successfully.\n');
   } catch (err: any) {
     console.error('SQL migration error:', err.message);
@@ -0,0 +1,33 @@
+/**
+ * HKEX Watch — one incremental pass over the HKEX application index
+ *
+ * Records new filings, refilings, OC revisions, sponsor changes, lapses, withdrawals and
+ * listings in deal_events (see hkex-watcher.ts). Meant to run from cron; needs DATABASE_URL
+ * and migration 002. Fails without scraping if another watch (cron or API) is still running.
+ *
+ * Usage:
+ *   npx tsx src/scripts/watch-hkex.ts              # current and previous year
+ *   npx tsx src/scripts/watch-hkex.ts 2026 2025
+ */
+
+import 'dotenv/config';
+import { runHkexWatch } from '../hkex-watcher.js';
+import { closeDb } from '../db/index.js';
+
+const years = process.argv.slice(2).map(y => parseInt(y)).filter(y => !isNaN(y));
+
+async function main() {
+  const summary = await runHkexWatch(years.length > 0 ? { years } : {});
+
+  console.log(`\n${summary.applications} applications checked, ${summary.newDeals} new deals`);
+  for (const [type, count] of Object.entries(summary.events)) {
+    console.log(`  ${type}: ${count}`);
+  }
+}
+
+main()
+  .catch(err => {
+    console.error('HKEX watch failed:', err);
+    process.exitCode = 1;
+  })
+  .finally(() => closeDb());
@@ -2,6 +2,7 @@ import axios from 'axios';
 import { SearchResult } from './types.js';
 import { searchBaidu, isBaiduAvailable } from './baiduSearcher.js';
 import { getSerperKeyManager } from './serperKeyManager.js';
+import { withFixture } from './replay/fixtures.js';
 
 const SERPER_URL = 'https://google.serper.dev/search';
 
@@ -26,7 +27,20 @@ export async function searchGoogle(
   page: number = 1,
   resultsPerPage: number = 10,
   signal?: AbortSignal,
-  hl: string = 'zh-cn'
+  hl: string = 'zh-cn',
+  tbs?: string  // Google date restriction (see dateRestriction)
+): Promise<SearchResult[]> {
+  return withFixture('search', { query, page, resultsPerPage, hl, tbs }, query,
+    () => searchSerper(query, page, resultsPerPage, signal, hl, tbs));
+}
+
+async function searchSerper(
+  query: string,
+  page: number,
+  resultsPerPage: number,
+  signal: AbortSignal | undefined,
+  hl: string,
+  tbs: string | undefined
 ): Promise<SearchResult[]> {
   const manager = getSerperKeyManager();
 
@@ -38,6 +52,7 @@ export async function searchGoogle(
         hl,
         num: resultsPerPage,
         page: page,
+        ...(tbs ? { tbs } : {}),
       },
       {
         headers: {
@@ -89,6 +104,15 @@ export async function searchGoogle(
   }
 }
 
+/**
+ * Build a Google `tbs` custom date range covering `since` → today.
+ * Used by monitoring delta searches so only newly published articles come back.
+ */
+export function dateRestriction(since: Date, until: Date = new Date()): string {
+  const fmt = (d: Date) => `${d.getUTCMonth() + 1}/${d.getUTCDate()}/${d.getUTCFullYear()}`;
+  return `cdr:1,cd_min:${fmt(since)},cd_max:${fmt(until)}`;
+}
+
 // Callback type for progress reporting
 export type SearchProgressCallback = (event: {
   type: 'page_start' | 'page_results' | 'page_end' | 'search_complete';
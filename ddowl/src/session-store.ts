@@ -150,3 +150,103 @@ export async function deleteAllSessions(): Promise<void> {
   if (keys.length > 0) await redis.del(...keys);
   console.log(`[SESSION] Deleted all sessions (${keys.length} keys)`);
 }
+
+// ============================================================
+// BATCH JOBS - many subjects screened server-side via /api/screen/v4
+// ============================================================
+
+export type BatchSubjectStatus = 'queued' | 'running' | 'paused' | 'complete' | 'failed' | 'cancelled';
+
+export interface BatchSubject {
+  name: string;
+  variations: string[];
+  language: string;        // Same format as the v4 `language` query param (e.g. "chinese,english")
+  context?: string;
+  status: BatchSubjectStatus;
+  sessionId?: string;      // v4 screening session — reused on reconnect/restart
+  phase?: string;          // Last phase event seen from the pipeline
+  message?: string;        // Last progress message (or error)
+  findingsCount?: number;
+  reconnects?: number;
+  startedAt?: number;
+  completedAt?: number;
+}
+
+export interface BatchJob {
+  id: string;
+  label?: string;
+  concurrency: number;
+  status: 'running' | 'paused' | 'complete' | 'cancelled';  // paused: nothing left to run but paused subjects
+  subjectCount: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+const BATCH_TTL = 604800; // 7 days in seconds
+const BATCH_INDEX_KEY = 'batches';
+
+// Subjects live in a hash (one field per subject index) so concurrent workers
+// can update their own subject without clobbering each other.
+export async function createBatch(batch: BatchJob, subjects: BatchSubject[]): Promise<void> {
+  const fields: Record<string, string> = {};
+  subjects.forEach((s, i) => { fields[String(i)] = JSON.stringify(s); });
+  await redis.set(`batch:${batch.id}`, JSON.stringify(batch), { ex: BATCH_TTL });
+  await redis.hset(`batch:${batch.id}:subjects`, fields);
+  await redis.expire(`batch:${batch.id}:subjects`, BATCH_TTL);
+  await redis.sadd(BATCH_INDEX_KEY, batch.id);
+  console.log(`[SESSION] Created batch ${batch.id} with ${subjects.length} subjects`);
+}
+
+export async function getBatch(batchId: string): Promise<BatchJob | null> {
+  const data = await redis.get<string>(`batch:${batchId}`);
+  if (!data) return null;
+  return typeof data === 'string' ? JSON.parse(data) : data;
+}
+
+export async function getBatchSubjects(batchId: string): Promise<BatchSubject[]> {
+  const data = await redis.hgetall<Record<string, string | BatchSubject>>(`batch:${batchId}:subjects`);
+  if (!data) return [];
+  return Object.keys(data)
+    .sort((a, b) => parseInt(a) - parseInt(b))
+    .map(k => (typeof data[k] === 'string' ? JSON.parse(data[k] as string) : data[k]) as BatchSubject);
+}
+
+export async function updateBatch(batchId: string, updates: Partial<BatchJob>): Promise<boolean> {
+  const batch = await getBatch(batchId);
+  if (!batch) {
+    console.error(`[SESSION] ERROR: Cannot update batch ${batchId} - batch not found!`);
+    return false;
+  }
+  const updated = { ...batch, ...updates, updatedAt: Date.now() };
+  await redis.set(`batch:${batchId}`, JSON.stringify(updated), { ex: BATCH_TTL });
+  return true;
+}
+
+export async function updateBatchSubject(batchId: string, index: number, updates: Partial<BatchSubject>): Promise<boolean> {
+  const data = await redis.hget<string | BatchSubject>(`batch:${batchId}:subjects`, String(index));
+  if (!data) {
+    console.error(`[SESSION] ERROR: Cannot update subject ${index} of batch ${batchId} - not found!`);
+    return false;
+  }
+  const subject: BatchSubject = typeof data === 'string' ? JSON.parse(data) : data;
+  const updated = { ...subject, ...updates };
+  await redis.hset(`batch:${batchId}:subjects`, { [String(index)]: JSON.stringify(updated) });
+  return true;
+}
+
+export async function listBatchIds(): Promise<string[]> {
+  const ids = await redis.smembers(BATCH_INDEX_KEY);
+  // Prune ids whose batch record has expired
+  const live: string[] = [];
+  for (const id of ids) {
+    if (await redis.exists(`batch:${id}`)) live.push(id);
+    else await redis.srem(BATCH_INDEX_KEY, id);
+  }
+  return live;
+}
+
+export async function deleteBatch(batchId: string): Promise<void> {
+  await redis.del(`batch:${batchId}`, `batch:${batchId}:subjects`);
+  await redis.srem(BATCH_INDEX_KEY, batchId);
+  console.log(`[SESSION] Deleted batch ${batchId}`);
+}
@@ -0,0 +1,145 @@
+/**
+ * Source credibility
+ *
+ * One score per source domain, blending the static tier list with the reliability learned from
+ * analyst verdicts (dd_sources). The tier acts as a prior worth PRIOR_WEIGHT verdicts, so a domain
+ * needs a real track record before its learned reliability outweighs its tier.
+ *
+ * Used to pick cluster representatives, order triage results, order sources within a finding
+ * and flag findings that rest only on low-credibility sources.
+ */
+
+import { pool } from './db/index.js';
+import { recordFixtureInputs, replayInputs } from './replay/fixtures.js';
+
+// --- Types ---
+
+export type SourceTier = 1 | 2 | 3;
+
+export interface SourceCredibility {
+  domain: string;
+  tier: SourceTier;
+  reliability: number | null;  // confirmed / (confirmed + wrong), null with no verdicts
+  sampleSize: number;          // confirmed + wrong
+  score: number;               // 0..1 blend of tier prior and reliability
+  low: boolean;                // score below LOW_CREDIBILITY_THRESHOLD
+}
+
+export interface CredibilityIndex {
+  get(url: string): SourceCredibility;
+  // Higher credibility first; 0 for equally credible sources (keeps the original order in a stable sort)
+  compare(urlA: string, urlB: string): number;
+}
+
+// --- Static tiers ---
+
+const TIER_1_DOMAINS = [
+  'ft.com', 'reuters.com', 'scmp.com', 'wsj.com', 'bloomberg.com',
+  'gov.cn', 'csrc.gov.cn', 'sfc.hk', 'hkex.com.hk', 'icac.org.hk',
+  'caixin.com', 'xinhuanet.com'
+];
+
+const TIER_2_DOMAINS = [
+  'hk01.com', 'sina.com.cn', '163.com', 'eastmoney.com', 'qq.com',
+  'sohu.com', 'ifeng.com', 'thepaper.cn', 'yicai.com', 'jiemian.com'
+];
+
+export function getSourceTier(url: string): SourceTier {
+  try {
+    const hostname = new URL(url).hostname.toLowerCase();
+    if (TIER_1_DOMAINS.some(d => hostname.includes(d))) return 1;
+    if (TIER_2_DOMAINS.some(d => hostname.includes(d))) return 2;
+    return 3;
+  } catch {
+    return 3;
+  }
+}
+
+// --- Scoring ---
+
+const TIER_PRIOR: Record<SourceTier, number> = { 1: 0.85, 2: 0.65, 3: 0.45 };
+const PRIOR_WEIGHT = 5;
+export const LOW_CREDIBILITY_THRESHOLD = 0.4;
+
+function domainOf(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+}
+
+export function scoreSource(url: string, verdicts: { confirmed: number; wrong: number } = { confirmed: 0, wrong: 0 }): SourceCredibility {
+  const tier = getSourceTier(url);
+  const sampleSize = verdicts.confirmed + verdicts.wrong;
+  const score = (TIER_PRIOR[tier] * PRIOR_WEIGHT + verdicts.confirmed) / (PRIOR_WEIGHT + sampleSize);
+  return {
+    domain: domainOf(url),
+    tier,
+    reliability: sampleSize > 0 ? verdicts.confirmed / sampleSize : null,
+    sampleSize,
+    score: Math.round(score * 1000) / 1000,
+    low: score < LOW_CREDIBILITY_THRESHOLD,
+  };
+}
+
+/** Index over per-domain verdict counts (www. and bare hostnames are merged). */
+export function buildCredibilityIndex(stats: { domain: string; times_confirmed: number; times_wrong: number }[]): CredibilityIndex {
+  const verdicts = new Map<string, { confirmed: number; wrong: number }>();
+  for (const row of stats) {
+    const domain = row.domain.toLowerCase().replace(/^www\./, '');
+    const entry = verdicts.get(domain) || { confirmed: 0, wrong: 0 };
+    entry.confirmed += Number(row.times_confirmed) || 0;
+    entry.wrong += Number(row.times_wrong) || 0;
+    verdicts.set(domain, entry);
+  }
+
+  const cache = new Map<string, SourceCredibility>();
+  const get = (url: string): SourceCredibility => {
+    let entry = cache.get(url);
+    if (!entry) {
+      entry = scoreSource(url, verdicts.get(domainOf(url)));
+      cache.set(url, entry);
+    }
+    return entry;
+  };
+  return {
+    get,
+    compare: (a, b) => get(b).score - get(a).score,
+  };
+}
+
+/**
+ * Credibility from dd_sources — static tiers only when the database is unavailable. A replay uses
+ * the verdict counts recorded in its fixture bundle, and a recording stores them there.
+ */
+export async function loadCredibilityIndex(): Promise<CredibilityIndex> {
+  const replay = replayInputs();
+  if (replay) return buildCredibilityIndex(replay.sourceStats || []);
+  try {
+    const { rows } = await pool.query(
+      'SELECT domain, times_confirmed, times_wrong FROM dd_sources WHERE (times_confirmed + times_wrong) > 0'
+    );
+    recordFixtureInputs({ sourceStats: rows });
+    return buildCredibilityIndex(rows);
+  } catch (err: any) {
+    console.warn(`[CREDIBILITY] Could not load source reliability (using static tiers): ${err?.message}`);
+    return buildCredibilityIndex([]);
+  }
+}
+
+// --- Findings ---
+
+/**
+ * Sort a finding's sources most credible first and report whether every source is low
+ * credibility. Mutates the finding's `sources` array.
+ */
+export function rankFindingSources(
+  finding: { sources: { url: string; title: string }[] },
+  credibility: CredibilityIndex,
+): { lowCredibilityOnly: boolean } {
+  finding.sources.sort((a, b) => credibility.compare(a.url, b.url));
+  return {
+    lowCredibilityOnly: finding.sources.length > 0 && finding.sources.every(s => credibility.get(s.url).low),
+  };
+}
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { compareAppointments, type CurrentAppointment } from '../appointment-changes.js';
+import type { BankAppointment } from '../hkex-scraper-v2.js';
+
+const CURRENT: CurrentAppointment[] = [
+  { appointmentId: 1, bankId: 10, bankName: 'Goldman Sachs (Asia) L.L.C.', roles: ['sponsor', 'coordinator'] },
+  { appointmentId: 2, bankId: 11, bankName: 'CMB International Capital Limited', roles: ['bookrunner'] },
+  { appointmentId: 3, bankId: 12, bankName: 'Futu Securities International (Hong Kong) Limited', roles: ['bookrunner', 'leadManager'] },
+];
+
+const bank = (name: string, roles: BankAppointment['roles']): BankAppointment => ({ bank: name, roles, isLead: roles.includes('sponsor') });
+
+describe('OC appointment changes', () => {
+  it('reports nothing when the new version names the same banks and roles', () => {
+    const same = CURRENT.map(a => bank(a.bankName, a.roles as BankAppointment['roles']));
+    expect(compareAppointments(CURRENT, same)).toEqual([]);
+  });
+
+  it('records appointments, terminations, upgrades and downgrades', () => {
+    const changes = compareAppointments(CURRENT, [
+      bank('Goldman Sachs (Asia) L.L.C.', ['coordinator']),
+      bank('CMB International Capital Limited', ['coordinator', 'bookrunner']),
+      bank('Huatai Financial Holdings (Hong Kong) Limited', ['bookrunner']),
+    ]);
+    expect(changes.map(c => [c.changeType, c.bankName, c.previousRoles, c.roles])).toEqual([
+      ['downgraded', 'Goldman Sachs (Asia) L.L.C.', ['sponsor', 'coordinator'], ['coordinator']],
+      ['upgraded', 'CMB International Capital Limited', ['bookrunner'], ['coordinator', 'bookrunner']],
+      ['appointed', 'Huatai Financial Holdings (Hong Kong) Limited', [], ['bookrunner']],
+      ['terminated', 'Futu Securities International (Hong Kong) Limited', ['bookrunner', 'leadManager'], []],
+    ]);
+    expect(changes[3].previous?.appointmentId).toBe(3);
+  });
+
+  it('matches banks across name variants and flags role changes at the same seniority', () => {
+    const changes = compareAppointments(CURRENT, [
+      bank('Goldman Sachs (Asia) LLC', ['sponsor', 'coordinator']),
+      bank('CMB International Capital Ltd', ['bookrunner']),
+      bank('Futu Securities International (Hong Kong) Limited', ['bookrunner']),
+    ]);
+    expect(changes.map(c => [c.changeType, c.bankName])).toEqual([
+      ['roles_changed', 'Futu Securities International (Hong Kong) Limited'],
+    ]);
+  });
+});
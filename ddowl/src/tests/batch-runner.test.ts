@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import type { BatchJob, BatchSubject } from '../session-store.js';
+
+// In-memory batch store in place of Redis
+const batches = new Map<string, BatchJob>();
+const batchSubjects = new Map<string, BatchSubject[]>();
+
+vi.mock('../session-store.js', () => ({
+  createBatch: async (batch: BatchJob, subjects: BatchSubject[]) => {
+    batches.set(batch.id, { ...batch });
+    batchSubjects.set(batch.id, subjects.map(s => ({ ...s })));
+  },
+  getBatch: async (id: string) => batches.get(id) ?? null,
+  getBatchSubjects: async (id: string) => (batchSubjects.get(id) ?? []).map(s => ({ ...s })),
+  updateBatch: async (id: string, updates: Partial<BatchJob>) => {
+    batches.set(id, { ...batches.get(id)!, ...updates });
+    return true;
+  },
+  updateBatchSubject: async (id: string, index: number, updates: Partial<BatchSubject>) => {
+    const subjects = batchSubjects.get(id)!;
+    subjects[index] = { ...subjects[index], ...updates };
+    return true;
+  },
+  listBatchIds: async () => [...batches.keys()],
+  getSession: async () => null,
+}));
+
+import { initBatchRunner, submitBatch, retryBatch } from '../batch-runner.js';
+
+// Stub /api/screen/v4: each request for a subject takes the next scripted reply for its name
+type Reply = 'complete' | 'paused' | 'error' | Promise<'complete'>;
+const replies = new Map<string, Reply[]>();
+const requests: string[] = [];
+const batchSubjectKeys: string[] = [];
+let server: http.Server;
+
+beforeAll(async () => {
+  server = http.createServer(async (req, res) => {
+    const params = new URL(req.url!, 'http://localhost').searchParams;
+    const name = params.get('name')!;
+    requests.push(name);
+    batchSubjectKeys.push(params.get('batchSubject')!);
+    res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+    const send = (event: object) => res.write(`data: ${JSON.stringify(event)}\n\n`);
+    send({ type: 'session', sessionId: `session-${name}` });
+    const outcome = await (replies.get(name)?.shift() ?? 'complete');
+    if (outcome === 'complete') send({ type: 'complete', findings: [] });
+    else if (outcome === 'paused') send({ type: 'paused' });
+    else send({ type: 'error', message: 'search quota exceeded' });
+    res.end();
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  initBatchRunner(`http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  batches.clear();
+  batchSubjects.clear();
+  replies.clear();
+  requests.length = 0;
+  batchSubjectKeys.length = 0;
+});
+
+async function waitFor(check: () => boolean): Promise<void> {
+  for (let i = 0; i < 200 && !check(); i++) {
+    await new Promise(r => setTimeout(r, 10));
+  }
+  expect(check()).toBe(true);
+}
+
+const statuses = (batchId: string) => batchSubjects.get(batchId)!.map(s => s.status);
+
+describe('batch runner', () => {
+  it('picks up subjects retried while the batch is still running', async () => {
+    let release!: (outcome: 'complete') => void;
+    replies.set('陳大文', ['error', 'complete']);
+    replies.set('李小龍', [new Promise(resolve => { release = resolve; })]);
+
+    const batchId = await submitBatch([{ name: '陳大文' }, { name: '李小龍' }], { concurrency: 1 });
+    await waitFor(() => statuses(batchId)[0] === 'failed' && requests.includes('李小龍'));
+
+    expect(await retryBatch(batchId)).toBe(1);
+    release('complete');
+
+    await waitFor(() => batches.get(batchId)!.status !== 'running');
+    expect(batches.get(batchId)!.status).toBe('complete');
+    expect(statuses(batchId)).toEqual(['complete', 'complete']);
+    expect(requests).toEqual(['陳大文', '李小龍', '陳大文']);
+    // Keyed by batch subject, not name, so a UI screening of the same name leaves it running
+    expect(batchSubjectKeys).toEqual([`${batchId}:0`, `${batchId}:1`, `${batchId}:0`]);
+    // The retried subject resumes its original session
+    expect(batchSubjects.get(batchId)![0].sessionId).toBe('session-陳大文');
+  });
+
+  it('does not complete a batch while a subject is paused', async () => {
+    replies.set('陳大文', ['paused', 'complete']);
+
+    const batchId = await submitBatch([{ name: '陳大文' }, { name: '李小龍' }], { concurrency: 2 });
+    await waitFor(() => batches.get(batchId)!.status !== 'running');
+    expect(batches.get(batchId)!.status).toBe('paused');
+    expect(statuses(batchId)).toEqual(['paused', 'complete']);
+
+    expect(await retryBatch(batchId)).toBe(1);
+    await waitFor(() => statuses(batchId)[0] === 'complete');
+    await waitFor(() => batches.get(batchId)!.status === 'complete');
+  });
+});
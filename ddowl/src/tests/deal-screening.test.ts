@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { newDb } from 'pg-mem';
+import type { Pool as PgPool } from 'pg';
+import type { BatchSubject } from '../session-store.js';
+
+let memPool: PgPool;
+const batchSubjects = new Map<string, BatchSubject[]>();
+
+vi.mock('../db/index.js', () => ({
+  get pool() {
+    return memPool;
+  },
+}));
+vi.mock('../session-store.js', () => ({
+  getBatchSubjects: async (batchId: string) => batchSubjects.get(batchId) ?? [],
+}));
+vi.mock('../batch-runner.js', () => ({ submitBatch: vi.fn() }));
+
+import { buildDealSubjects, listDealScreenings, listReportDeals, summarizeDealRisk, type DealScreeningRow } from '../deal-screening.js';
+import { initReportsDb, saveReport } from '../reports-db.js';
+
+const COMPANY = { nameEn: 'Example Pharma Holdings Limited', nameCn: '示例醫藥控股有限公司' };
+
+const party = (party_type: string, name: string, name_cn: string | null = null, position: string | null = null) =>
+  ({ party_type: party_type as any, name, name_cn, position });
+
+const row = (fields: Partial<DealScreeningRow>): DealScreeningRow => ({
+  id: 1, deal_id: 1, batch_id: 'batch-1', subject_name: 'X', roles: [], status: 'complete', created_at: '',
+  report_id: null, screened_at: null, finding_count: null, red_count: null, amber_count: null,
+  ...fields,
+});
+
+describe('Deal screening subjects', () => {
+  it('screens the company under its Chinese name with simplified, traditional and English variants', () => {
+    const [company] = buildDealSubjects(COMPANY, []);
+    expect(company.name).toBe('示例醫藥控股有限公司');
+    expect(company.variations).toEqual(['示例医药控股有限公司', 'Example Pharma Holdings Limited']);
+    expect(company.roles).toEqual(['company']);
+    expect(company.language).toBe('chinese');
+  });
+
+  it('adds directors and controlling shareholders once each, skipping other parties', () => {
+    const subjects = buildDealSubjects(COMPANY, [
+      party('director', 'ZHANG Wei', '張偉', 'executive Director and chairman of our Board'),
+      party('senior_management', 'CHEN Hao', '陳浩', 'chief financial officer'),
+      party('controlling_shareholder', 'Zhang Wei'),
+      party('controlling_shareholder', 'Zhang Family Holdings Limited'),
+      party('legal_adviser', 'Clifford Chance'),
+    ]);
+
+    expect(subjects.map(s => [s.name, s.roles, s.language])).toEqual([
+      ['示例醫藥控股有限公司', ['company'], 'chinese'],
+      ['張偉', ['director', 'controlling_shareholder'], 'chinese'],
+      ['Zhang Family Holdings Limited', ['controlling_shareholder'], 'chinese,english'],
+    ]);
+    expect(subjects[1].variations).toEqual(['张伟', 'ZHANG Wei']);
+    expect(subjects[1].context).toBe('executive Director and chairman of our Board of Example Pharma Holdings Limited (示例醫藥控股有限公司)');
+  });
+});
+
+describe('Deal risk summary', () => {
+  it('takes the worst finding across subjects, and waits for unfinished screenings before calling a deal clear', () => {
+    expect(summarizeDealRisk([]).level).toBe('not_screened');
+
+    const clean = row({ report_id: 1, finding_count: 0, red_count: 0, amber_count: 0 });
+    expect(summarizeDealRisk([clean, row({ status: 'running' })]).level).toBe('pending');
+    expect(summarizeDealRisk([clean, row({ status: 'failed' })]).level).toBe('incomplete');
+    expect(summarizeDealRisk([clean]).level).toBe('clear');
+
+    const summary = summarizeDealRisk([
+      clean,
+      row({ report_id: 2, finding_count: 3, red_count: 1, amber_count: 2 }),
+      row({ status: 'queued' }),
+    ]);
+    expect(summary).toEqual({ level: 'red', subjects: 3, screened: 2, pending: 1, failed: 0, red: 1, amber: 2, findings: 3 });
+  });
+});
+
+describe('Deal screening report links', () => {
+  const subject = (name: string, status: BatchSubject['status'], sessionId?: string): BatchSubject =>
+    ({ name, variations: [], language: 'chinese', status, sessionId });
+  const report = (runId: string, subjectName: string, severity: 'RED' | 'AMBER') => saveReport({
+    runId, subjectName, screenedAt: '2026-10-01T00:00:00Z', language: 'zh', nameVariations: [],
+    findings: [{ severity, headline: 'Finding', eventType: 'civil_litigation', summary: '', sourceCount: 1, sourceUrls: [] }],
+    costUsd: 0, durationMs: 0, queriesExecuted: 0, totalSearchResults: 0,
+  });
+
+  beforeEach(async () => {
+    memPool = new (newDb().adapters.createPg().Pool)() as unknown as PgPool;
+    await initReportsDb();
+    await memPool.query(`
+      CREATE TABLE companies (id SERIAL PRIMARY KEY, name_en TEXT NOT NULL, name_cn TEXT);
+      CREATE TABLE deals (id SERIAL PRIMARY KEY, company_id INTEGER REFERENCES companies(id));
+      CREATE TABLE deal_screenings (
+        id SERIAL PRIMARY KEY, deal_id INTEGER REFERENCES deals(id) NOT NULL, batch_id VARCHAR(100) NOT NULL,
+        subject_index INTEGER NOT NULL, subject_name TEXT NOT NULL, roles TEXT[],
+        status VARCHAR(20) NOT NULL DEFAULT 'queued', run_id TEXT, created_at TIMESTAMP DEFAULT NOW()
+      );
+      INSERT INTO companies (name_en, name_cn) VALUES ('Example Pharma Holdings Limited', '示例醫藥控股有限公司');
+      INSERT INTO deals (company_id) VALUES (1);
+      INSERT INTO deal_screenings (deal_id, batch_id, subject_index, subject_name, roles) VALUES
+        (1, 'batch-live', 0, '示例醫藥控股有限公司', '{company}'),
+        (1, 'batch-live', 1, '張偉', '{director}'),
+        (1, 'batch-expired', 0, '陳浩', '{director}');
+    `);
+    batchSubjects.clear();
+  });
+
+  afterEach(async () => {
+    if (memPool) await memPool.end();
+  });
+
+  it('links reports through the batch session, not by subject name', async () => {
+    batchSubjects.set('batch-live', [subject('示例醫藥控股有限公司', 'complete', 'run-company'), subject('張偉', 'running', 'run-zhang')]);
+    await report('run-company', '示例醫藥控股有限公司', 'AMBER');
+    // Screened outside the deal: same names, sessions no batch of the deal ran
+    await report('run-manual-zhang', '張偉', 'RED');
+    await report('run-manual-chen', '陳浩', 'RED');
+
+    const rows = await listDealScreenings(1);
+    const linked = Object.fromEntries(rows.map(r => [r.subject_name, [r.status, r.report_id !== null]]));
+    expect(linked).toEqual({
+      '示例醫藥控股有限公司': ['complete', true],
+      '張偉': ['running', false],
+      '陳浩': ['queued', false],
+    });
+    expect(summarizeDealRisk(rows)).toMatchObject({ level: 'amber', red: 0, amber: 1 });
+
+    expect(await listReportDeals({ run_id: 'run-company', subject_name: '示例醫藥控股有限公司' }))
+      .toEqual([expect.objectContaining({ deal_id: 1, company_name: 'Example Pharma Holdings Limited', roles: ['company'] })]);
+    expect(await listReportDeals({ run_id: 'run-manual-zhang', subject_name: '張偉' })).toEqual([]);
+    expect(await listReportDeals({ run_id: 'run-manual-chen', subject_name: '陳浩' })).toEqual([]);
+  });
+
+  it('links a report found from the report side once its session is in the batch', async () => {
+    batchSubjects.set('batch-live', [subject('示例醫藥控股有限公司', 'running'), subject('張偉', 'complete', 'run-zhang')]);
+    await report('run-zhang', '張偉', 'RED');
+
+    expect(await listReportDeals({ run_id: 'run-zhang', subject_name: '張偉' }))
+      .toEqual([expect.objectContaining({ deal_id: 1, roles: ['director'] })]);
+    const rows = await listDealScreenings(1);
+    expect(rows.find(r => r.subject_name === '張偉')).toMatchObject({ status: 'complete', red_count: 1 });
+  });
+});
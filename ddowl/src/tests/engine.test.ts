@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { ScreeningEngine, phaseRange } from '../engine/engine.js';
+import { createMemoryStore } from '../engine/store.js';
+import { analyzePhase } from '../engine/phases/analyze.js';
+import type { ScreeningPhase } from '../engine/types.js';
+import type { ScreeningSession } from '../session-store.js';
+
+const SUBJECT = '张三丰';
+
+function session(overrides: Partial<ScreeningSession>): ScreeningSession {
+  return {
+    name: SUBJECT,
+    variations: [SUBJECT],
+    language: 'chinese',
+    gatheredResults: [],
+    categorized: { red: [], amber: [], green: [] },
+    passedElimination: [],
+    currentPhase: 'gather',
+    currentIndex: 0,
+    findings: [],
+    ...overrides,
+  };
+}
+
+describe('ScreeningEngine', () => {
+  it('runs phases in order, checkpointing to the store, until one stops', async () => {
+    const store = createMemoryStore();
+    const ran: string[] = [];
+    const gathered = [{ url: 'https://a.example.com', title: 'a', snippet: '', query: SUBJECT }];
+    let eliminateInput: unknown;
+    const phases: ScreeningPhase[] = [
+      {
+        name: 'gather', inputs: [], outputs: ['allResults'],
+        async run() { ran.push('gather'); return { outcome: 'next', output: { allResults: gathered } }; },
+        checkpoint() { return { currentPhase: 'eliminate' }; },
+      },
+      {
+        name: 'eliminate', inputs: ['allResults'], outputs: ['passed'],
+        async run(input) { ran.push('eliminate'); eliminateInput = input; return { outcome: 'stop', output: {} }; },
+        checkpoint() { return { currentPhase: 'cluster' }; },
+      },
+      { name: 'analyze', inputs: [], outputs: [], async run() { ran.push('analyze'); return { outcome: 'next', output: {} }; } },
+    ];
+    const events: any[] = [];
+
+    const engine = new ScreeningEngine({ subjectName: SUBJECT, languages: [] }, { store, phases, host: { emit: e => events.push(e) } });
+    const outcome = await engine.run();
+
+    expect(outcome).toBe('stopped');
+    expect(ran).toEqual(['gather', 'eliminate']);
+    // Each phase sees only the inputs it declared
+    expect(eliminateInput).toEqual({ allResults: gathered });
+    expect(events[0]).toEqual({ type: 'session', sessionId: engine.context.sessionId });
+    // A stopped phase leaves its checkpoint unsaved
+    expect((await store.get(engine.context.sessionId))?.currentPhase).toBe('eliminate');
+  });
+
+  it('restores phases that finished before a reconnect and resumes the rest from their checkpoint', async () => {
+    const store = createMemoryStore();
+    const gathered = [{ url: 'https://a.example.com', title: 'a', snippet: '', query: SUBJECT }];
+    await store.create('s1', session({ currentPhase: 'analyze', currentIndex: 3, gatheredResults: gathered }));
+    const ran: string[] = [];
+    let analyzeInput: unknown;
+    let analyzeFrom: unknown;
+    const phases: ScreeningPhase[] = [
+      {
+        name: 'gather', inputs: [], outputs: ['allResults'],
+        resume(s) { return { done: { allResults: s.gatheredResults } }; },
+        async run() { ran.push('gather'); return { outcome: 'next', output: {} }; },
+      },
+      {
+        name: 'analyze', inputs: ['allResults'], outputs: ['findings'],
+        resume(s) { return { from: s.currentIndex }; },
+        async run(input, _ctx, from) {
+          ran.push('analyze');
+          analyzeInput = input;
+          analyzeFrom = from;
+          return { outcome: 'next', output: { findings: [] } };
+        },
+        checkpoint() { return { currentPhase: 'consolidate' }; },
+      },
+    ];
+
+    const engine = new ScreeningEngine({ subjectName: SUBJECT, languages: [], sessionId: 's1' }, { store, phases });
+    expect(await engine.run()).toBe('complete');
+
+    expect(ran).toEqual(['analyze']);
+    expect(analyzeInput).toEqual({ allResults: gathered });
+    expect(analyzeFrom).toBe(3);
+    expect((await store.get('s1'))?.currentPhase).toBe('consolidate');
+  });
+
+  it('rejects checkpoints from a superseded connection', async () => {
+    const store = createMemoryStore();
+    await store.create('s1', session({ connectionId: 'new' }));
+
+    expect(await store.update('s1', { currentIndex: 5 }, 'old')).toBe(false);
+    expect(await store.update('s1', { currentIndex: 5 }, 'new')).toBe(true);
+    expect(await store.isStillOwner('s1', 'old')).toBe(false);
+  });
+
+  it('resumes analyze from the saved index, or skips it once consolidated', async () => {
+    const events: any[] = [];
+    const { context } = new ScreeningEngine({ subjectName: SUBJECT, languages: [] }, { store: createMemoryStore(), host: { emit: e => events.push(e) } });
+
+    expect(await analyzePhase.resume!(session({ currentPhase: 'cluster' }), context)).toBeNull();
+    expect(await analyzePhase.resume!(session({ currentPhase: 'analyze', currentIndex: 3 }), context))
+      .toEqual({ from: { index: 3, findings: [] } });
+    expect(events).toEqual([{ type: 'analyze_resume', fromIndex: 3, totalFindings: 0 }]);
+    expect(await analyzePhase.resume!(session({ currentPhase: 'consolidate', currentIndex: 3, consolidatedFindings: [] }), context))
+      .toEqual({ done: { findings: [] } });
+  });
+
+  it('selects phase ranges from the default pipeline', () => {
+    expect(phaseRange('eliminate', 'consolidate').map(p => p.name))
+      .toEqual(['eliminate', 'title_dedupe', 'cluster', 'categorize', 'analyze', 'consolidate']);
+  });
+});
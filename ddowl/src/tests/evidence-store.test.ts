@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import JSZip from 'jszip';
+import { newDb } from 'pg-mem';
+import type { Pool as PgPool } from 'pg';
+
+let memPool: PgPool;
+
+const evidenceDir = vi.hoisted(() => {
+  const dir = `${process.env.TMPDIR || '/tmp'}/ddowl-evidence-test-${process.pid}`;
+  process.env.EVIDENCE_DIR = dir;
+  return dir;
+});
+
+vi.mock('../db/index.js', () => {
+  return {
+    get pool() {
+      return memPool;
+    },
+  };
+});
+
+const capturePage = vi.fn();
+vi.mock('../analyzer.js', () => ({
+  capturePage: (url: string) => capturePage(url),
+  printPageToPdf: vi.fn(),
+}));
+
+import { initReportsDb, saveReport, getReport } from '../reports-db.js';
+import { archiveFindingSources, buildEvidenceBundle, findEvidenceBlob, hashContent, listReportEvidence, readBlob } from '../evidence-store.js';
+import type { ConsolidatedFinding } from '../types.js';
+
+const LIVE_HTML = '<html><body><p>张三涉嫌内幕交易被立案调查</p></body></html>';
+
+function finding(headline: string, urls: string[], articleContents?: { url: string; content: string }[]): ConsolidatedFinding {
+  return {
+    headline, summary: headline, severity: 'RED', eventType: 'regulatory', dateRange: '2024',
+    sourceCount: urls.length, sources: urls.map(url => ({ url, title: headline })), articleContents,
+  };
+}
+
+describe('Evidence store', () => {
+  beforeEach(async () => {
+    const Pool = newDb().adapters.createPg().Pool;
+    memPool = new Pool() as unknown as PgPool;
+    await initReportsDb();
+    capturePage.mockReset();
+    capturePage.mockImplementation(async (url: string) => url === 'https://news.example.com/live'
+      ? {
+          body: Buffer.from(LIVE_HTML), contentType: 'text/html; charset=utf-8', text: '张三涉嫌内幕交易被立案调查',
+          statusCode: 200, finalUrl: 'https://news.example.com/live?amp=0', fetchedAt: '2026-05-01T08:00:00.000Z',
+        }
+      : null);
+  });
+
+  afterEach(async () => {
+    if (memPool) await memPool.end();
+    fs.rmSync(evidenceDir, { recursive: true, force: true });
+  });
+
+  it('archives each cited source once, falling back to the cached article text', async () => {
+    const findings = [
+      finding('Insider dealing probe', ['https://news.example.com/live', 'https://gone.example.com/a'], [
+        { url: 'https://gone.example.com/a', content: '张三被证监会立案调查' },
+      ]),
+      finding('Same probe, other outlet', ['https://news.example.com/live', 'https://gone.example.com/b']),
+    ];
+
+    expect(await archiveFindingSources(findings)).toEqual({ archived: 2, failed: 1 });
+    expect(capturePage).toHaveBeenCalledTimes(3);
+
+    const [live, cached] = findings[0].evidence!;
+    expect(live).toMatchObject({ url: 'https://news.example.com/live', hash: hashContent(LIVE_HTML), captureMethod: 'live', capturedAt: '2026-05-01T08:00:00.000Z' });
+    expect(cached).toMatchObject({ url: 'https://gone.example.com/a', hash: hashContent('张三被证监会立案调查'), captureMethod: 'session_text' });
+    expect(findings[1].evidence!.map(e => e.evidenceId)).toEqual([live.evidenceId]);
+
+    expect((await readBlob(live.hash))!.toString()).toBe(LIVE_HTML);
+    expect(await findEvidenceBlob(hashContent('张三涉嫌内幕交易被立案调查'))).toMatchObject({ contentType: 'text/plain; charset=utf-8' });
+    expect(await readBlob('../../etc/passwd')).toBeNull();
+  });
+
+  it('links evidence to saved findings and exports it as a zip bundle', async () => {
+    const findings = [finding('Insider dealing probe', ['https://news.example.com/live'])];
+    await archiveFindingSources(findings);
+
+    const reportId = await saveReport({
+      runId: 'run-evidence', subjectName: '张三', screenedAt: '2026-05-01T08:00:00Z', language: 'zh', nameVariations: ['张三'],
+      findings: findings.map(f => ({
+        severity: 'RED' as const, headline: f.headline, eventType: f.eventType, summary: f.summary,
+        sourceCount: f.sourceCount, sourceUrls: f.sources, evidenceIds: f.evidence?.map(e => e.evidenceId),
+      })),
+      costUsd: 0, durationMs: 0, queriesExecuted: 0, totalSearchResults: 0,
+    });
+
+    const evidence = await listReportEvidence(reportId);
+    expect(evidence).toHaveLength(1);
+    expect(evidence[0]).toMatchObject({ url: 'https://news.example.com/live', final_url: 'https://news.example.com/live?amp=0', status_code: 200 });
+
+    const zip = await JSZip.loadAsync(await buildEvidenceBundle((await getReport(reportId))!, evidence));
+    const manifest = JSON.parse(await zip.file('manifest.json')!.async('string'));
+    expect(manifest).toMatchObject({ reportId, subject: '张三', missingBlobs: [] });
+    const [capture] = manifest.findings[0].evidence;
+    expect(capture.files).toEqual({
+      content: `files/${hashContent(LIVE_HTML)}.html`,
+      text: `files/${hashContent('张三涉嫌内幕交易被立案调查')}.txt`,
+      pdf: null,
+    });
+    expect(await zip.file(capture.files.content)!.async('string')).toBe(LIVE_HTML);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import path from 'path';
+import iconv from 'iconv-lite';
+import { decodeBody, sniffCharset } from '../extraction/charset.js';
+import { normalizeDate } from '../extraction/dates.js';
+import { extractArticle } from '../extraction/extractor.js';
+import { loadExtractionFixtures, runExtractionFixture } from '../extraction/quality.js';
+
+const FIXTURE_DIR = path.join(__dirname, 'fixtures', 'extraction');
+
+describe('Article extraction fixtures', () => {
+  for (const fixture of loadExtractionFixtures(FIXTURE_DIR)) {
+    it(fixture.name, async () => {
+      const score = await runExtractionFixture(FIXTURE_DIR, fixture);
+      expect(score.failures).toEqual([]);
+    });
+  }
+});
+
+describe('Article extraction helpers', () => {
+  it('sniffs GBK bodies whatever they declare, and trusts valid UTF-8 over a GBK label', () => {
+    const gbk = iconv.encode('<html><body>证监会立案调查</body></html>', 'gbk');
+    expect(sniffCharset(gbk)).toBe('gb18030');
+    expect(sniffCharset(gbk, 'text/html; charset=utf-8')).toBe('gb18030');
+    expect(decodeBody(gbk)).toContain('证监会立案调查');
+    expect(sniffCharset(Buffer.from('<meta charset="gbk">证监会'), undefined)).toBe('utf-8');
+    expect(sniffCharset(iconv.encode('<meta charset="big5">證監會', 'big5'))).toBe('big5');
+  });
+
+  it('normalizes Chinese, numeric and English dates', () => {
+    expect(normalizeDate('2024年3月5日 10:20')).toBe('2024-03-05');
+    expect(normalizeDate('发布时间：2019/12/10')).toBe('2019-12-10');
+    expect(normalizeDate('2024-03-05T10:20:00+08:00')).toBe('2024-03-05');
+    expect(normalizeDate('Published 5 March 2024')).toBe('2024-03-05');
+    expect(normalizeDate('Sept. 9, 2021')).toBe('2021-09-09');
+    expect(normalizeDate('2024-02-31')).toBeNull();
+    expect(normalizeDate('共计2300余万元')).toBeNull();
+  });
+
+  it('falls back to the page body when nothing looks like an article', () => {
+    const article = extractArticle('<html><body><div>短讯：暂无内容</div></body></html>', 'https://example.com/x');
+    expect(article).toMatchObject({ method: 'body', text: '短讯：暂无内容', publishedAt: null, nextPageUrl: null });
+  });
+});
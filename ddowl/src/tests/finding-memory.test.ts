@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { newDb } from 'pg-mem';
+import type { Pool as PgPool } from 'pg';
+
+let memPool: PgPool;
+
+vi.mock('../db/index.js', () => {
+  return {
+    get pool() {
+      return memPool;
+    },
+  };
+});
+
+import { initReportsDb, saveReport, getReport, updateFindingVerdict, addMissedFlag, getSubjectHistory } from '../reports-db.js';
+import { applyFindingMemory, findingHistoryNote, missedFlagQueries, unmatchedKnownIssues } from '../finding-memory.js';
+import type { ConsolidatedFinding } from '../types.js';
+
+function finding(headline: string, eventType: string, urls: string[]): ConsolidatedFinding {
+  return {
+    headline, eventType, summary: '', severity: 'RED', dateRange: '2021', sourceCount: urls.length,
+    sources: urls.map(url => ({ url, title: headline })),
+  };
+}
+
+describe('Finding memory', () => {
+  beforeEach(async () => {
+    const Pool = newDb().adapters.createPg().Pool;
+    memPool = new Pool() as unknown as PgPool;
+    await initReportsDb();
+
+    const reportId = await saveReport({
+      runId: 'run-1', subjectName: '张三', screenedAt: '2026-03-01T10:00:00Z', language: 'zh', nameVariations: ['张三', '張三'],
+      findings: [
+        { severity: 'RED', headline: '张三因内幕交易被证监会处罚', eventType: 'regulatory', summary: '', sourceCount: 1, sourceUrls: [{ url: 'https://www.csrc.gov.cn/a/1.html', title: '' }] },
+        { severity: 'AMBER', headline: '同名歌手张三涉嫌酒驾', eventType: 'criminal', summary: '', sourceCount: 1, sourceUrls: [{ url: 'https://ent.example.com/zhangsan', title: '' }] },
+      ],
+      costUsd: 0, durationMs: 0, queriesExecuted: 0, totalSearchResults: 0,
+    });
+    const [insider, singer] = (await getReport(reportId))!.findings;
+    await updateFindingVerdict(insider.id, 'CONFIRMED');
+    await updateFindingVerdict(singer.id, 'WRONG', 'Different person (singer)');
+    await addMissedFlag(reportId, { description: '张三2018年因虚假陈述被投资者起诉', severity: 'AMBER', eventType: 'civil' });
+  });
+
+  afterEach(async () => {
+    if (memPool) await memPool.end();
+  });
+
+  it('loads verdicts and missed flags for the subject or any of its variations', async () => {
+    const history = await getSubjectHistory(['張三']);
+    expect(history.reportCount).toBe(0);
+
+    const found = await getSubjectHistory(['张三', '張三']);
+    expect(found).toMatchObject({ reportCount: 1, lastScreenedAt: '2026-03-01T10:00:00Z' });
+    expect(found.verdicts.map(v => [v.verdict, v.wrongReason])).toEqual([['WRONG', 'Different person (singer)'], ['CONFIRMED', null]]);
+
+    expect(missedFlagQueries(found.missedFlags, '张三', ['張三'])).toEqual([
+      { flag: found.missedFlags[0], query: '"张三" 2018年因虚假陈述被投资者起诉' },
+    ]);
+  });
+
+  it('flags previously reported, previously wrong and new findings, demoting all-wrong sources', async () => {
+    const history = await getSubjectHistory(['张三']);
+    const findings = [
+      finding('张三内幕交易案被证监会处罚', 'regulatory', ['https://other.example.com/news/1']),
+      finding('歌手张三酒驾被拘', 'criminal', ['http://ent.example.com/zhangsan/']),
+      finding('张三担任董事的公司涉嫌欺诈发行', 'fraud', ['https://news.example.com/2']),
+    ];
+    const counts = applyFindingMemory(findings, history);
+
+    expect(counts).toEqual({ previouslyReported: 1, previouslyWrong: 1, demoted: 1 });
+    expect(findings.map(f => f.history?.status)).toEqual(['previously_reported', 'previously_wrong', 'new']);
+    expect(findings[1]).toMatchObject({ severity: 'REVIEW', history: { originalSeverity: 'RED', wrongReason: 'Different person (singer)' } });
+    expect(findingHistoryNote(findings[1].history)).toBe(
+      'Note: Sources for this finding were assessed as not relating to the subject in the screening of 2026-03-01 (reason: Different person (singer)). Severity lowered from RED to REVIEW.'
+    );
+    expect(unmatchedKnownIssues(findings, history)).toEqual([]);
+    expect(unmatchedKnownIssues(findings.slice(1), history).map(v => v.headline)).toEqual(['张三因内幕交易被证监会处罚']);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { newDb } from 'pg-mem';
+import type { Pool as PgPool } from 'pg';
+import type { QCCCompanyProfile } from '../qcc-types.js';
+
+let memPool: PgPool;
+
+vi.mock('../db/index.js', () => {
+  return {
+    get pool() {
+      return memPool;
+    },
+  };
+});
+
+import {
+  initGraphDb, ingestQCCProfile, findControllers, findSharedOfficers, getSubgraph, toGraphML, nameKey, parsePercentage,
+} from '../graph-db.js';
+
+function qcc(companyName: string, overrides: Partial<QCCCompanyProfile>): QCCCompanyProfile {
+  return {
+    companyName, companyNameChinese: companyName, companyNameEnglish: '', legalRepresentative: '',
+    registeredCapital: '', paidInCapital: '', establishedDate: '', operatingStatus: '',
+    unifiedSocialCreditCode: '', businessRegNumber: '', companyNumber: '', organizationCode: '', taxpayerNumber: '', qccId: '',
+    companyType: '', industry: '', approvalDate: '', registrationAuthority: '', businessScope: '',
+    registeredAddress: '', officeAddress: '', jurisdiction: '',
+    shareholders: [], directors: [], executives: [], beneficialOwners: [], actualControllers: [],
+    subsidiaries: [], investments: [], controlledCompanies: [],
+    riskSummary: { legalCasesTotal: 0, asDefendant: 0, asPlaintiff: 0, administrativePenalties: 0, abnormalOperations: false, seriousViolations: false, taxArrears: 0, businessRisks: 0 },
+    sourceUrl: `https://www.qcc.com/firm/${encodeURIComponent(companyName)}.html`,
+    extractedAt: '2026-03-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+const shareholder = (name: string, percentage: string, type: 'individual' | 'corporate' = 'corporate') =>
+  ({ name, type, percentage, investmentAmount: '', subscriptionDate: '' });
+
+describe('Entity graph', () => {
+  beforeEach(async () => {
+    const Pool = newDb().adapters.createPg().Pool;
+    memPool = new Pool() as unknown as PgPool;
+    await initGraphDb();
+  });
+
+  afterEach(async () => {
+    if (memPool) await memPool.end();
+  });
+
+  it('normalises names and percentages for matching', () => {
+    expect(nameKey('華潤（集團）有限公司')).toBe(nameKey('华润(集团)有限公司'));
+    expect(parsePercentage('35.50%')).toBe(35.5);
+    expect(parsePercentage('-')).toBeNull();
+  });
+
+  it('traces controllers through three layers with effective ownership', async () => {
+    const targetId = await ingestQCCProfile(qcc('深圳目标科技有限公司', {
+      shareholders: [shareholder('深圳中间控股有限公司', '50%'), shareholder('赵六', '50%', 'individual')],
+    }));
+    await ingestQCCProfile(qcc('深圳中间控股有限公司', { shareholders: [shareholder('香港頂層集團有限公司', '80%')] }));
+    // Same holding company in simplified characters — must resolve to the same entity
+    await ingestQCCProfile(qcc('香港顶层集团有限公司', { shareholders: [shareholder('王五', '60%', 'individual')] }));
+
+    const controllers = await findControllers(targetId, 3);
+    const byName = Object.fromEntries(controllers.map(c => [c.entity.name, c]));
+
+    expect(controllers.map(c => c.entity.name).sort()).toEqual(['王五', '赵六', '深圳中间控股有限公司', '香港頂層集團有限公司'].sort());
+    expect(byName['深圳中间控股有限公司']).toMatchObject({ depth: 1, effectiveOwnershipPct: 50 });
+    expect(byName['香港頂層集團有限公司']).toMatchObject({ depth: 2, effectiveOwnershipPct: 40 });
+    expect(byName['王五']).toMatchObject({ depth: 3, effectiveOwnershipPct: 24 });
+    expect(byName['王五'].paths[0].map(s => s.ownershipPct)).toEqual([60, 80, 50]);
+
+    expect((await findControllers(targetId, 2)).map(c => c.entity.name)).not.toContain('王五');
+  });
+
+  it('counts a shareholder who is also listed as beneficial owner once', async () => {
+    const targetId = await ingestQCCProfile(qcc('深圳双重科技有限公司', {
+      shareholders: [shareholder('张三', '60%', 'individual'), shareholder('李四', '40%', 'individual')],
+      beneficialOwners: [{ name: '张三', percentage: '60%' }],
+      actualControllers: [{ name: '张三' }],
+    }));
+
+    const zhang = (await findControllers(targetId, 3)).find(c => c.entity.name === '张三')!;
+    expect(zhang.effectiveOwnershipPct).toBe(60);
+    expect(zhang.paths.map(p => p[0].role).sort()).toEqual(['actual_controller', 'beneficial_owner', 'shareholder']);
+  });
+
+  it('detects directors shared between two companies', async () => {
+    const a = await ingestQCCProfile(qcc('甲公司', {
+      directors: [{ name: '李四', position: '董事长', profileUrl: 'https://www.qcc.com/pl/li4' }, { name: '张三', position: '董事' }],
+    }));
+    const b = await ingestQCCProfile(qcc('乙公司', {
+      legalRepresentative: '张三',
+      executives: [{ name: '李四', position: '总经理', profileUrl: 'https://www.qcc.com/pl/li4' }],
+    }));
+
+    const shared = await findSharedOfficers(a, b);
+    const li = shared.find(s => s.person.name === '李四')!;
+
+    expect(shared).toHaveLength(2);
+    expect(li).toMatchObject({ matchedBy: 'entity', rolesA: [{ role: 'director', title: '董事长' }], rolesB: [{ role: 'executive', title: '总经理' }] });
+    expect(shared.find(s => s.person.name === '张三')?.rolesB).toEqual([{ role: 'legal_representative', title: null }]);
+  });
+
+  it('exports a neighbourhood as GraphML', async () => {
+    const id = await ingestQCCProfile(qcc('丙公司', { shareholders: [shareholder('A&B Holdings', '100%')] }));
+    const graph = await getSubgraph(id, 1);
+    const xml = toGraphML(graph);
+
+    expect(graph.nodes).toHaveLength(2);
+    expect(xml).toContain('<data key="name">A&amp;B Holdings</data>');
+    expect(xml).toContain('<data key="ownershipPct">100</data>');
+  });
+});
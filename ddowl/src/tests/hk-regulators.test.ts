@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addRegisterLicences, hkRegulatorSource, parseHKRegulatorPage, recordNamesSubject, regulatorAnalysis,
+} from '../hk-regulators.js';
+import { createSubjectProfile } from '../engine/phases/profile.js';
+
+const SFC_URL = 'https://apps.sfc.hk/edistributionWeb/gateway/EN/news-and-announcements/news/enforcement-news/doc?refNo=23PR112';
+const SFC_TEXT = `SFC bans former Chief Executive of Golden Ray Securities Limited for life
+15 June 2023
+The Securities and Futures Commission (SFC) has banned Mr Chan Tai Man, a former responsible officer of
+Golden Ray Securities Limited (Golden Ray) (CE No.: AAB123), from re-entering the industry for life.
+The SFC has also reprimanded Golden Ray and fined it $5 million for internal control failures.`;
+
+const ICAC_URL = 'https://www.icac.org.hk/en/press/index_id_1234.html';
+const ICAC_TEXT = `Ex-bank manager jailed for accepting bribes
+Wong Kwok-keung, 52, a former relationship manager of Harbour Trust Bank Limited, was today (March 3, 2024)
+sentenced to 18 months' imprisonment after he was convicted of two counts of accepting an advantage,
+contrary to section 9(1)(a) of the Prevention of Bribery Ordinance. He was charged by the ICAC in 2022.`;
+
+describe('HK regulator parsers', () => {
+  it('detects the regulator source from the URL', () => {
+    expect(hkRegulatorSource(SFC_URL)).toBe('sfc_enforcement');
+    expect(hkRegulatorSource('https://apps.sfc.hk/publicregWeb/indi/AAB123/details')).toBe('sfc_register');
+    expect(hkRegulatorSource('https://www.hkex.com.hk/News/Regulatory-Announcements/2024/240105news', 'Disciplinary action against ABC Holdings Limited')).toBe('hkex_disciplinary');
+    expect(hkRegulatorSource(ICAC_URL)).toBe('icac_press');
+    expect(hkRegulatorSource('https://www.sfc.hk/en/About-the-SFC')).toBeNull();
+    expect(hkRegulatorSource('https://www.scmp.com/news/hong-kong')).toBeNull();
+  });
+
+  it('parses action, date, penalty, CE number and named parties from SFC and ICAC releases', () => {
+    const sfc = parseHKRegulatorPage(SFC_URL, 'SFC bans former CEO', SFC_TEXT)!;
+    expect(sfc).toMatchObject({
+      source: 'sfc_enforcement',
+      date: '2023-06-15',
+      penalty: { fineHkd: 5_000_000, banPeriod: 'life', sentence: null },
+      ceNumbers: ['AAB123'],
+      individuals: ['Chan Tai Man'],
+      firms: ['Golden Ray Securities Limited'],
+    });
+    expect(sfc.actionTypes).toEqual(expect.arrayContaining(['ban', 'reprimand', 'fine']));
+
+    const analysis = regulatorAnalysis(sfc, 'Chan Tai Man');
+    expect(analysis).toMatchObject({ isAdverse: true, severity: 'RED', matchConfidence: 'strong' });
+    expect(analysis.summary).toContain('fine of HK$5 million; ban for life');
+    expect(recordNamesSubject(sfc, ['Man Chan Tai'])).toBe(true);
+    expect(recordNamesSubject(sfc, ['Lee Ka Wai'])).toBe(false);
+    // Golden Ray is named as his employer, but was reprimanded and fined under its short name too
+    expect(sfc.employers).toEqual([]);
+    expect(recordNamesSubject(sfc, ['Golden Ray Securities Ltd'])).toBe(true);
+    // Part of a party's name is not the party
+    expect(recordNamesSubject(sfc, ['Golden Ray'])).toBe(false);
+
+    const icac = parseHKRegulatorPage(ICAC_URL, 'Ex-bank manager jailed', ICAC_TEXT)!;
+    expect(icac).toMatchObject({
+      date: '2024-03-03',
+      individuals: ['Wong Kwok-keung'],
+      penalty: { sentence: "18 months' imprisonment" },
+    });
+    expect(icac.actionTypes).toEqual(expect.arrayContaining(['conviction', 'sentence', 'charge']));
+
+    const zh = parseHKRegulatorPage(
+      'https://apps.sfc.hk/edistributionWeb/gateway/TC/news-and-announcements/news/enforcement-news/doc?refNo=24PR20',
+      '證監會禁止前持牌代表重投業界',
+      '2024年1月8日 證監會禁止前持牌代表陳大文先生（中央編號：BCD456）重投業界，為期10個月。',
+    )!;
+    expect(zh).toMatchObject({ date: '2024-01-08', ceNumbers: ['BCD456'], individuals: ['陳大文'], penalty: { banPeriod: '10 months' } });
+  });
+
+  it('does not attribute an action against a former employee to the firm', () => {
+    const release = parseHKRegulatorPage(SFC_URL, 'SFC bans former account executive of XYZ Securities Limited',
+      `SFC bans former account executive of XYZ Securities Limited
+2 May 2024
+The SFC has banned Mr Lee Ka Wai, a former licensed representative of XYZ Securities Limited, from re-entering
+the industry for 10 months for misappropriating client funds.`)!;
+    expect(release).toMatchObject({ individuals: ['Lee Ka Wai'], firms: ['XYZ Securities Limited'], employers: ['XYZ Securities Limited'] });
+    expect(recordNamesSubject(release, ['XYZ Securities Limited'])).toBe(false);
+    expect(recordNamesSubject(release, ['Lee Ka Wai'])).toBe(true);
+
+    const zh = parseHKRegulatorPage(SFC_URL, '證監會禁止前持牌代表重投業界', '2024年1月8日 甲乙證券有限公司的前僱員陳大文先生遭證監會禁止重投業界，為期10個月。')!;
+    expect(zh.employers).toEqual(['甲乙證券有限公司']);
+    expect(recordNamesSubject(zh, ['甲乙證券有限公司'])).toBe(false);
+  });
+
+  it('adds SFC register licences to the profile', () => {
+    const profile = createSubjectProfile('Chan Tai Man', []);
+    const added = addRegisterLicences(profile, [{
+      url: 'https://apps.sfc.hk/publicregWeb/indi/AAB123/details',
+      title: 'CHAN Tai Man - Public Register',
+      snippet: 'Name: CHAN Tai Man  CE Reference: AAB123 Responsible Officer, Type 1, Type 4 regulated activities. Principal: Golden Ray Securities Limited. Active',
+    }], ['Chan Tai Man']);
+    expect(added).toEqual(['SFC Type 1, Type 4 — responsible officer — CE AAB123 — with Golden Ray Securities Limited — active']);
+    expect(profile.licenses).toEqual(added);
+  });
+});
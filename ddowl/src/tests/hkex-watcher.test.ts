@@ -0,0 +1,162 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { diffApplication, lapseDate, runHkexWatch, sponsorNames, type KnownDeal } from '../hkex-watcher.js';
+import { scrapeAllApplications, type ScrapedDeal } from '../hkex-scraper-v2.js';
+
+// The tracker as runHkexWatch reads it: one active deal whose OC was hashed as 'aaa'
+let lockHeld = false;
+let firstEventDate: string | null = null;
+let listedSinceLastRun: { id: number; listing_date: string; prospectus_url: string | null }[] = [];
+const query = vi.fn(async (sql: string, _params?: unknown[]) => {
+  if (sql.includes('pg_try_advisory_lock')) return { rows: [{ locked: !lockHeld }] };
+  if (sql.includes('MIN(detected_at)')) return { rows: [{ since: firstEventDate }] };
+  if (sql.includes('d.listing_date IS NOT NULL')) return { rows: listedSinceLastRun };
+  if (sql.includes('DISTINCT ON (c.id)')) {
+    return { rows: [{ name_en: 'Example Robotics Holdings Limited', id: 7, status: 'active', hkex_app_id: '108018', filing_date: '2026-01-05' }] };
+  }
+  if (sql.includes('SELECT deal_id, pdf_url, pdf_hash')) {
+    return { rows: [{ deal_id: 7, pdf_url: OC_URL, pdf_hash: 'aaa' }] };
+  }
+  if (sql.includes('FROM deal_appointments')) {
+    return { rows: scraped().banks.map(b => ({ deal_id: 7, name: b.bank })) };
+  }
+  return { rows: [] };
+});
+
+vi.mock('../db/index.js', () => {
+  const run = (sql: string, params?: unknown[]) => query(sql, params);
+  return { pool: { query: run, connect: async () => ({ query: run, release: () => {} }) } };
+});
+vi.mock('../appointment-changes.js', () => ({ applyOcAppointments: vi.fn(async () => {}) }));
+vi.mock('../hkex-scraper-v2.js', () => ({
+  scrapeAllApplications: vi.fn(),
+  closeBrowser: vi.fn(async () => {}),
+}));
+
+const OC_URL = 'https://www1.hkexnews.hk/app/sehk/2026/108018/documents/sehk26010500123.pdf';
+
+function scraped(overrides: Partial<ScrapedDeal> = {}): ScrapedDeal {
+  return {
+    company: 'Example Robotics Holdings Limited',
+    companyCn: null,
+    filingDate: '05/01/2026',
+    banks: [
+      { bank: 'China International Capital Corporation Hong Kong Securities Limited', roles: ['sponsor', 'coordinator'], isLead: true },
+      { bank: 'Huatai Financial Holdings (Hong Kong) Limited', roles: ['sponsor'], isLead: true },
+    ],
+    ocPdfUrl: OC_URL,
+    appId: '108018',
+    board: 'mainBoard',
+    status: 'active',
+    banksExtracted: true,
+    ocPdfHash: 'aaa',
+    ...overrides,
+  };
+}
+
+function known(overrides: Partial<KnownDeal> = {}): KnownDeal {
+  return {
+    dealId: 7,
+    status: 'active',
+    hkexAppId: '108018',
+    filingDate: '2026-01-05',
+    ocs: [{ url: OC_URL, hash: 'aaa' }],
+    sponsors: sponsorNames(scraped().banks),
+    ...overrides,
+  };
+}
+
+describe('HKEX watcher diff', () => {
+  it('reports nothing for an unchanged application', () => {
+    expect(diffApplication(known(), scraped())).toEqual([]);
+    // An unparsed PDF has no banks, which must not read as the sponsors resigning
+    expect(diffApplication(known(), scraped({ banks: [], banksExtracted: false, ocPdfHash: null }))).toEqual([]);
+  });
+
+  it('detects new filings and refilings after a lapse', () => {
+    expect(diffApplication(null, scraped()).map(e => [e.type, e.eventDate])).toEqual([['new_filing', '2026-01-05']]);
+
+    const events = diffApplication(
+      known({ status: 'lapsed', hkexAppId: '106500', filingDate: '2025-03-01' }),
+      scraped({ banks: [{ bank: 'Huatai Financial Holdings (Hong Kong) Limited', roles: ['sponsor'], isLead: true }] }),
+    );
+    expect(events.map(e => e.type)).toEqual(['refiling', 'sponsor_change']);
+    expect(events[0].detail).toMatchObject({ previousAppId: '106500', previousStatus: 'lapsed' });
+    expect(events[1].detail).toMatchObject({ added: [], removed: [sponsorNames(scraped().banks)[0]] });
+
+    // The previous year's filing of a company that has since refiled is not news
+    expect(diffApplication(known(), scraped({ appId: '105000', filingDate: '01/02/2025' }))).toEqual([]);
+  });
+
+  it('detects new and replaced OC announcements', () => {
+    expect(diffApplication(known({ ocs: [] }), scraped()).map(e => e.type)).toEqual(['oc_new']);
+    const revised = diffApplication(known(), scraped({ ocPdfUrl: OC_URL.replace('123', '456'), ocPdfHash: 'bbb' }));
+    expect(revised.map(e => [e.type, e.detail.previousUrl])).toEqual([['oc_replaced', OC_URL]]);
+    expect(diffApplication(known(), scraped({ ocPdfHash: 'ccc' }))[0].detail).toEqual({ previousHash: 'aaa', hash: 'ccc' });
+    // A first hash for a URL seen before is a backfill, not a replacement
+    expect(diffApplication(known({ ocs: [{ url: OC_URL, hash: null }] }), scraped())).toEqual([]);
+  });
+
+  it('detects status changes once', () => {
+    expect(diffApplication(known(), scraped({ status: 'withdrawn' })).map(e => e.type)).toEqual(['withdrawn']);
+    expect(diffApplication(known({ status: 'withdrawn' }), scraped({ status: 'withdrawn' }))).toEqual([]);
+    expect(diffApplication(known(), scraped({ status: 'listed' })).map(e => e.type)).toEqual(['listed']);
+    expect(lapseDate('2025-08-31')).toBe('2026-02-28');
+    expect(lapseDate('2026-01-05')).toBe('2026-07-05');
+  });
+});
+
+describe('HKEX watch run', () => {
+  beforeEach(() => {
+    query.mockClear();
+    vi.mocked(scrapeAllApplications).mockReset();
+    lockHeld = false;
+    firstEventDate = null;
+    listedSinceLastRun = [];
+  });
+
+  it('re-hashes known OC PDFs so one replaced in place is detected', async () => {
+    // The scraper re-downloads the known OC; its bytes have changed, so it is parsed again
+    vi.mocked(scrapeAllApplications).mockImplementation(async options => {
+      expect(options?.knownPdfHashes?.get(OC_URL)).toBe('aaa');
+      return [scraped({ ocPdfHash: 'bbb' })];
+    });
+
+    const summary = await runHkexWatch({ years: [2026] });
+    expect(summary.events).toEqual({ oc_replaced: 1 });
+
+    const writes = query.mock.calls.filter(([sql]) => /INSERT INTO deal_events|UPDATE oc_announcements/.test(sql));
+    expect(writes.map(([sql]) => sql.trim().split(/\s+/).slice(0, 3).join(' '))).toEqual([
+      'UPDATE oc_announcements SET',
+      'INSERT INTO deal_events',
+    ]);
+    expect(writes[0][1]).toEqual([7, OC_URL, 'bbb', JSON.stringify({ banks: scraped().banks })]);
+    expect(writes[1][1]).toContain('oc_replaced');
+  });
+
+  it('refuses to start while another run holds the lock', async () => {
+    lockHeld = true;
+    await expect(runHkexWatch({ years: [2026] })).rejects.toThrow('An HKEX watch is already running');
+    expect(scrapeAllApplications).not.toHaveBeenCalled();
+  });
+
+  it('records listings from before the watcher started as backfill', async () => {
+    vi.mocked(scrapeAllApplications).mockResolvedValue([]);
+    listedSinceLastRun = [
+      { id: 3, listing_date: '2024-07-10', prospectus_url: null },
+      { id: 4, listing_date: '2026-03-02', prospectus_url: null },
+    ];
+    const listedDetail = () => query.mock.calls
+      .filter(([sql, params]) => sql.includes('INSERT INTO deal_events') && params?.[1] === 'listed')
+      .map(([, params]) => [params![0], JSON.parse(params![3] as string)]);
+
+    // First run: every listing is history
+    await runHkexWatch({ years: [2026] });
+    expect(listedDetail()).toEqual([[3, { backfill: true }], [4, { backfill: true }]]);
+
+    // Watching since 2026-01-01: only the earlier listing is
+    query.mockClear();
+    firstEventDate = '2026-01-01';
+    await runHkexWatch({ years: [2026] });
+    expect(listedDetail()).toEqual([[3, { backfill: true }], [4, {}]]);
+  });
+});
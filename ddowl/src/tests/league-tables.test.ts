@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import ExcelJS from 'exceljs';
+import { buildLeagueTable, buildLeagueTableWorkbook, resolveSector, type LeagueAppointment, type LeagueTableFilters } from '../league-tables.js';
+
+const BANKS: Record<number, string> = { 1: 'CICC', 2: 'Goldman Sachs', 3: 'Huatai' };
+
+function appt(dealId: number, dealDate: string, sizeHkdm: number | null, bankId: number, roles: string[], isLead = false): LeagueAppointment {
+  return { dealId, dealDate, sizeHkdm, bankId, bankName: BANKS[bankId], shortName: null, roles, isLead };
+}
+
+const APPOINTMENTS: LeagueAppointment[] = [
+  // 2025: deal 1 (HK$1,200m) CICC lead sponsor + GS coordinator; deal 2 (HK$300m) Huatai sponsor; deal 3 active, no size
+  appt(1, '2025-03-10', 1200, 1, ['sponsor', 'coordinator'], true),
+  appt(1, '2025-03-10', 1200, 2, ['coordinator', 'bookrunner']),
+  appt(2, '2025-06-01', 300, 3, ['sponsor']),
+  appt(3, '2025-09-15', null, 3, ['sponsor', 'bookrunner']),
+  // 2024: Huatai on two deals, CICC on one
+  appt(4, '2024-02-01', 500, 3, ['sponsor']),
+  appt(5, '2024-05-01', 800, 3, ['sponsor']),
+  appt(5, '2024-05-01', 800, 1, ['sponsor']),
+];
+
+const filters = (overrides: Partial<LeagueTableFilters> = {}): LeagueTableFilters =>
+  ({ role: 'all', apportion: 'equal', rankBy: 'deals', from: '2025-01-01', to: '2025-12-31', ...overrides });
+
+describe('IPO league tables', () => {
+  it('ranks by deal count with year-over-year movement', () => {
+    const table = buildLeagueTable(APPOINTMENTS, filters({ role: 'sponsor' }));
+    expect(table).toMatchObject({ previousFrom: '2024-01-01', previousTo: '2024-12-31', totalDeals: 3, totalSizeHkdm: 1500, undisclosedSizeDeals: 1 });
+    expect(table.rows.map(r => [r.bankName, r.rank, r.deals, r.sizeHkdm, r.previousRank, r.rankChange])).toEqual([
+      ['Huatai', 1, 2, 300, 1, 0],
+      ['CICC', 2, 1, 1200, 2, 0],
+    ]);
+  });
+
+  it('apportions deal size equally or by role and lead status', () => {
+    const equal = buildLeagueTable(APPOINTMENTS, filters({ role: 'coordinator', rankBy: 'size' }));
+    expect(equal.rows.map(r => [r.bankName, r.sizeHkdm, r.sizeShare])).toEqual([['CICC', 600, 50], ['Goldman Sachs', 600, 50]]);
+    expect(equal.rows.map(r => r.rank)).toEqual([1, 1]);
+
+    // CICC: sponsor (3) × lead (1.5) = 4.5; GS: coordinator (2) → 4.5 / 6.5 of HK$1,200m
+    const weighted = buildLeagueTable(APPOINTMENTS, filters({ role: 'coordinator', rankBy: 'size', apportion: 'weighted' }));
+    expect(weighted.rows.map(r => [r.bankName, r.sizeHkdm, r.previousRank])).toEqual([['CICC', 830.769], ['Goldman Sachs', 369.231]].map(r => [...r, null]));
+  });
+
+  it('maps GICS sector codes to the names stored on companies', () => {
+    expect(resolveSector('35')).toBe('Health Care');
+    expect(resolveSector('Financials')).toBe('Financials');
+  });
+
+  it('exports one sheet per role view', async () => {
+    const tables = (['all', 'sponsor'] as const).map(role => buildLeagueTable(APPOINTMENTS, filters({ role })));
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(await buildLeagueTableWorkbook(tables) as any);
+    expect(workbook.worksheets.map(s => s.name)).toEqual(['All roles', 'Sponsors']);
+    const sponsors = workbook.getWorksheet('Sponsors')!;
+    expect(sponsors.getRow(5).getCell(2).value).toBe('Bank');
+    expect(sponsors.getRow(6).values).toEqual([undefined, 1, 'Huatai', '', 2, 0, 300, 20, 1, 0]);
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { newDb } from 'pg-mem';
+import type { Pool as PgPool } from 'pg';
+
+let memPool: PgPool;
+
+vi.mock('../db/index.js', () => {
+  return {
+    get pool() {
+      return memPool;
+    },
+  };
+});
+
+import { initReportsDb, createLearningRule, listLearningRules, setLearningRuleActive } from '../reports-db.js';
+import {
+  applyCategoryRules, applySeverityOverrides, compileLearningRules, flushRuleFirings, loadLearningRules,
+  testLearningRule, validateLearningRule,
+} from '../learning-rules.js';
+import { eliminateObviousNoise } from '../eliminator.js';
+import { createFixtureBundle, runWithReplay } from '../replay/fixtures.js';
+import { loadFunnelSnapshots } from '../logging/storage.js';
+import type { ConsolidatedFinding, FunnelSnapshot } from '../types.js';
+import type { Categorized } from '../engine/types.js';
+
+const result = (url: string, title: string, snippet = '') => ({ url, title, snippet, query: '"张三" 诈骗' });
+
+describe('Learning rules', () => {
+  it('applies domain, regex and severity rules in elimination, categorization and consolidation', () => {
+    const rules = compileLearningRules([
+      { id: 1, type: 'domain_block', pattern: 'spam-news.cn', severity: null, description: 'Content farm' },
+      { id: 2, type: 'domain_allow', pattern: 'linkedin.com', severity: null, description: null },
+      { id: 3, type: 'snippet_regex', pattern: '立案调查|被判处', severity: 'RED', description: null },
+      { id: 4, type: 'severity_override', pattern: 'tax_dispute', severity: 'REVIEW', description: null },
+    ]);
+
+    const { passed, eliminated } = eliminateObviousNoise([
+      result('https://m.spam-news.cn/a', '张三诈骗案'),
+      result('https://www.linkedin.com/in/zhangsan', '张三 - 职位'),  // Built-in rules would drop both domain and title
+      result('https://news.example.com/1', '张三的近况'),
+    ], '张三', rules);
+    expect(eliminated.map(e => [e.url, e.reason, e.ruleId])).toEqual([['https://m.spam-news.cn/a', 'learned_rule', 1]]);
+    expect(passed).toHaveLength(2);
+
+    const categorized: Categorized = {
+      red: [],
+      amber: [{ ...result('https://news.example.com/2', '张三', '张三涉嫌内幕交易被立案调查'), category: 'AMBER' as const, reason: 'Regulatory' }],
+      green: [],
+    };
+    expect(applyCategoryRules(categorized, rules)).toBe(1);
+    expect(categorized.red[0].reason).toBe('Rule #3 (snippet_regex 立案调查|被判处) (triage: AMBER, Regulatory)');
+
+    const findings = [{ severity: 'RED', eventType: 'tax_dispute' }, { severity: 'RED', eventType: 'fraud' }] as ConsolidatedFinding[];
+    expect(applySeverityOverrides(findings, rules)).toBe(1);
+    expect(findings.map(f => f.severity)).toEqual(['REVIEW', 'RED']);
+
+    expect([...rules.fired]).toEqual([[1, 1], [2, 1], [3, 1], [4, 1]]);
+    expect(validateLearningRule({ type: 'title_regex', pattern: '(unclosed' })).toMatch(/^invalid regex/);
+    expect(validateLearningRule({ type: 'severity_override', pattern: 'fraud' })).toMatch(/needs a severity/);
+  });
+
+  it('reports what a rule would change in past funnel snapshots', () => {
+    const snapshot: FunnelSnapshot = {
+      subject: '张三', runId: 'run-1', timestamp: '2026-05-01T00:00:00Z',
+      phases: [
+        { phase: 'elimination', articles: [
+          { url: 'https://blog.example.org/a', title: '张三诈骗' },
+          { url: 'https://blog.example.org/b', title: '张三' },
+          { url: 'https://news.example.com/c', title: '张三', eliminationRule: 'noise_title_pattern' },
+        ] },
+        { phase: 'categorize', articles: [
+          { url: 'https://blog.example.org/a', title: '张三诈骗', classification: 'RED' },
+          { url: 'https://blog.example.org/b', title: '张三', classification: 'GREEN' },
+        ] },
+      ],
+    };
+    const report = testLearningRule({ id: 9, type: 'domain_block', pattern: 'example.org', severity: null, description: null }, [snapshot]);
+    expect(report).toMatchObject({ totalMatched: 2, totalChanged: 2, adverseEliminated: 1 });
+    expect(report.snapshots[0].examples[0]).toEqual({ url: 'https://blog.example.org/a', title: '张三诈骗', before: 'passed, RED', after: 'eliminated' });
+  });
+
+  it('loads saved funnel snapshots, skipping files that do not parse', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'funnels-'));
+    try {
+      fs.writeFileSync(path.join(dir, '2026-05-01-张三.json'), JSON.stringify({ subject: '张三', runId: 'run-1', timestamp: '2026-05-01T00:00:00Z', phases: [] }));
+      fs.writeFileSync(path.join(dir, '2026-05-02-李四.json'), '{"subject": "李四", "pha');
+      expect(loadFunnelSnapshots(dir).map(s => s.runId)).toEqual(['run-1']);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('Learning rules storage', () => {
+  beforeEach(async () => {
+    const Pool = newDb().adapters.createPg().Pool;
+    memPool = new Pool() as unknown as PgPool;
+    await initReportsDb();
+  });
+
+  afterEach(async () => {
+    if (memPool) await memPool.end();
+  });
+
+  it('loads only active rules and records how often each fired', async () => {
+    const rule = await createLearningRule({ ruleType: 'domain_block', ruleText: 'spam-news.cn' });
+    expect(rule.active).toBe(0);
+    expect((await loadLearningRules()).rules).toHaveLength(0);
+
+    await setLearningRuleActive(rule.id, true);
+    const rules = await loadLearningRules();
+    eliminateObviousNoise([result('https://spam-news.cn/1', 'a'), result('https://spam-news.cn/2', 'b')], '张三', rules);
+    await flushRuleFirings(rules);
+
+    const [stored] = await listLearningRules();
+    expect(stored.fire_count).toBe(2);
+    expect(stored.last_fired_at).not.toBeNull();
+    expect(rules.fired.size).toBe(0);
+  });
+
+  it('replays with the rules recorded in the bundle and leaves fire counts alone', async () => {
+    const live = await createLearningRule({ ruleType: 'domain_block', ruleText: 'spam-news.cn' });
+    await setLearningRuleActive(live.id, true);
+
+    const bundle = createFixtureBundle('张三');
+    bundle.inputs.learningRules = [{ id: live.id, type: 'domain_block', pattern: 'other-farm.cn', severity: null, description: null }];
+    const { result: rules } = await runWithReplay(bundle, async () => {
+      const rules = await loadLearningRules();
+      eliminateObviousNoise([result('https://other-farm.cn/1', 'a'), result('https://spam-news.cn/2', 'b')], '张三', rules);
+      await flushRuleFirings(rules);
+      return rules;
+    });
+
+    expect(rules.rules.map(r => r.rule.pattern)).toEqual(['other-farm.cn']);
+    const [stored] = await listLearningRules();
+    expect(stored.fire_count).toBe(0);
+    expect(stored.last_fired_at).toBeNull();
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { extractLitigationCases, formatLitigationSection, parseCaseNumbers } from '../litigation.js';
+import { parseScreeningReport } from '../screening-docx.js';
+
+const RESULTS = [
+  {
+    url: 'https://wenshu.court.gov.cn/website/wenshu/181107ANFZ0BXSK4/index.html?docId=a1',
+    title: '张三与深圳市某某科技有限公司民间借贷纠纷一审民事判决书',
+    snippet: '（2021）粤03民初1234号 原告：张三，男，1970年出生。被告：深圳市某某科技有限公司。诉讼请求：判令被告偿还借款本金120万元。审理法院：广东省深圳市中级人民法院',
+  },
+  {
+    url: 'https://zxgk.court.gov.cn/shixin/',
+    title: '失信被执行人 张三',
+    snippet: '被执行人：張三 执行法院：深圳市福田区人民法院 案号：(2022)粤0304执5678号 执行依据文号：(2021)粤03民初1234号 执行标的：1250000 限制高消费',
+  },
+  {
+    // Same judgment reported by an aggregator — merges into the first case
+    url: 'https://www.qcc.com/wenshu/a1.html',
+    title: '(2021)粵03民初1234號 民间借贷纠纷',
+    snippet: '张三 深圳市某某科技有限公司',
+  },
+  {
+    url: 'https://news.example.com/x',
+    title: '王五诈骗案宣判',
+    snippet: '（2020）沪01刑初99号 被告人：王五',
+  },
+];
+
+describe('Litigation records', () => {
+  it('parses case numbers and merges records of one case across sources', () => {
+    expect(parseCaseNumbers('(2020)最高法民终 56 号、（2019）京0105执恢12號')).toMatchObject([
+      { caseNumber: '（2020）最高法民终56号', courtCode: '最高法', typeCode: '民终', sequence: 56 },
+      { caseNumber: '（2019）京0105执恢12号', courtCode: '京0105', typeCode: '执恢', year: 2019 },
+    ]);
+
+    const cases = extractLitigationCases(RESULTS, ['张三']);
+    // 王五's case never names the subject
+    expect(cases.map(c => c.caseNumber)).toEqual(['（2022）粤0304执5678号', '（2021）粤03民初1234号']);
+
+    const [enforcement, judgment] = cases;
+    expect(enforcement).toMatchObject({
+      court: '深圳市福田区人民法院', caseType: 'enforcement', subjectRoles: ['enforcee'],
+      dishonestDebtor: true, consumptionRestriction: true, relatedCases: ['（2021）粤03民初1234号'],
+      amounts: [{ amountCny: 1250000, kind: 'enforcement' }],
+    });
+    expect(judgment).toMatchObject({
+      court: '广东省深圳市中级人民法院', caseType: 'civil', stage: 'first instance',
+      causeOfAction: '民间借贷纠纷', subjectRoles: ['plaintiff'], dishonestDebtor: false,
+      parties: [{ name: '张三', role: 'plaintiff' }, { name: '深圳市某某科技有限公司', role: 'defendant' }],
+      amounts: [{ amountCny: 1200000, kind: 'claim' }],
+    });
+    expect(judgment.sources.map(s => s.source)).toEqual(['wenshu', 'aggregator']);
+  });
+
+  it('writes the section as a table the DOCX renderer picks up', () => {
+    const cases = extractLitigationCases(RESULTS, ['张三']);
+    const section = formatLitigationSection({ subject: '张三', searchedAt: '2026-01-01T00:00:00Z', queries: 5, cases });
+    expect(section).toContain('identified 2 cases involving 张三, one of which is on the dishonest judgment debtor list.');
+
+    const { blocks } = parseScreeningReport(section);
+    expect(blocks[0]).toEqual({ kind: 'heading', level: 1, text: 'Litigation & Enforcement Records' });
+    const table = blocks.find(b => b.kind === 'table');
+    expect(table).toMatchObject({ header: ['Case number', 'Court', 'Type', 'Parties', 'Cause of action', 'Amount', 'Source'] });
+    expect(table && table.kind === 'table' && table.rows[1]).toEqual([
+      '（2021）粤03民初1234号', '广东省深圳市中级人民法院', 'Civil, first instance',
+      'Plaintiff: 张三; Defendant: 深圳市某某科技有限公司', '民间借贷纠纷', 'RMB 1,200,000 (claim)',
+      'China Judgements Online, Corporate data aggregator',
+    ]);
+  });
+});
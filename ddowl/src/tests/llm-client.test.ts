@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AxiosError } from 'axios';
+import { completeLLM, streamLLM, isContentModerationError } from '../llm/client.js';
+import { getRoute, parseRouteSpec, setMockResponder } from '../llm/providers.js';
+import { categorizeAll } from '../triage.js';
+import { MetricsTracker } from '../metrics/tracker.js';
+
+describe('LLM provider layer', () => {
+  beforeEach(() => {
+    vi.stubEnv('DEEPSEEK_API_KEY', '');
+    vi.stubEnv('KIMI_API_KEY', '');
+    vi.stubEnv('GEMINI_API_KEY', '');
+    vi.stubEnv('LLM_LOCAL_URL', '');
+    vi.stubEnv('LLM_PROVIDER', 'mock');
+  });
+
+  afterEach(() => {
+    setMockResponder(null);
+    vi.unstubAllEnvs();
+  });
+
+  describe('routing', () => {
+    it('uses the default chain for configured providers only', () => {
+      vi.stubEnv('LLM_PROVIDER', '');
+      vi.stubEnv('KIMI_API_KEY', 'k');
+      expect(getRoute('report').map(r => r.endpoint.provider)).toEqual(['kimi']);
+
+      vi.stubEnv('DEEPSEEK_API_KEY', 'd');
+      expect(getRoute('report').map(r => r.endpoint.provider)).toEqual(['kimi', 'deepseek']);
+      expect(getRoute('triage').map(r => r.endpoint.provider)).toEqual(['deepseek']);
+    });
+
+    it('honours per-operation routes with model overrides', () => {
+      vi.stubEnv('LLM_PROVIDER', '');
+      vi.stubEnv('DEEPSEEK_API_KEY', 'd');
+      vi.stubEnv('KIMI_API_KEY', 'k');
+      vi.stubEnv('LLM_ROUTE_ANALYSIS', 'kimi:kimi-latest, deepseek');
+
+      const route = getRoute('analysis');
+      expect(route.map(r => `${r.endpoint.provider}:${r.model}`)).toEqual(['kimi:kimi-latest', 'deepseek:deepseek-chat']);
+    });
+
+    it('routes to a local OpenAI-compatible endpoint', () => {
+      vi.stubEnv('LLM_PROVIDER', 'local');
+      vi.stubEnv('LLM_LOCAL_URL', 'http://localhost:11434/v1/chat/completions');
+      vi.stubEnv('LLM_LOCAL_MODEL', 'qwen2.5');
+
+      const [route] = getRoute('clustering');
+      expect(route.endpoint.url).toBe('http://localhost:11434/v1/chat/completions');
+      expect(route.model).toBe('qwen2.5');
+    });
+
+    it('drops unknown providers from a route spec', () => {
+      expect(parseRouteSpec('openai:gpt, deepseek')).toEqual([{ provider: 'deepseek', model: undefined }]);
+    });
+  });
+
+  describe('completeLLM', () => {
+    it('throws when no provider is configured', async () => {
+      await expect(completeLLM({ operation: 'triage', prompt: 'hi' })).rejects.toThrow('No LLM provider configured');
+    });
+
+    it('falls back to the next provider on content moderation errors', async () => {
+      vi.stubEnv('LLM_PROVIDER', '');
+      vi.stubEnv('LLM_ROUTE_ANALYSIS', 'mock:strict,mock:lenient');
+      const seen: string[] = [];
+      setMockResponder(({ model }) => {
+        seen.push(model);
+        if (model === 'strict') throw new Error('Content Exists Risk');
+        return 'ok';
+      });
+
+      const result = await completeLLM({ operation: 'analysis', prompt: 'article' });
+      expect(result.text).toBe('ok');
+      expect(result.model).toBe('lenient');
+      expect(seen).toEqual(['strict', 'lenient']);
+    });
+
+    it('moves on after a timeout unless the request opts in to retrying it', async () => {
+      vi.stubEnv('LLM_PROVIDER', '');
+      vi.stubEnv('LLM_ROUTE_ANALYSIS', 'mock:slow,mock:fast');
+      const seen: string[] = [];
+      setMockResponder(({ model }) => {
+        seen.push(model);
+        if (model === 'slow') throw new AxiosError('timeout of 60000ms exceeded', 'ECONNABORTED');
+        return 'ok';
+      });
+
+      expect((await completeLLM({ operation: 'analysis', prompt: 'article' })).model).toBe('fast');
+      expect(seen).toEqual(['slow', 'fast']);
+
+      seen.length = 0;
+      await completeLLM({ operation: 'analysis', prompt: 'article', retryOnTimeout: true });
+      expect(seen).toEqual(['slow', 'slow', 'fast']);
+    });
+
+    it('reports usage through onLLMCall', async () => {
+      setMockResponder(() => ({ text: 'done', usage: { prompt_tokens: 1000, completion_tokens: 50 } }));
+      const tracker = new MetricsTracker('Test Subject');
+
+      await completeLLM({
+        operation: 'profile',
+        prompt: 'who is this',
+        onLLMCall: (provider, op, input, output, usage) => tracker.recordLLMCall(provider, op, input, output, usage),
+      });
+
+      const [cost] = tracker.getMetrics().costs;
+      expect(cost).toMatchObject({ provider: 'mock', operation: 'profile', inputTokens: 1000, outputTokens: 50, estimatedCostUSD: 0 });
+    });
+
+    it('passes tool calls through', async () => {
+      const toolCalls = [{ id: 'c1', type: 'function', function: { name: 'search', arguments: '{}' } }];
+      setMockResponder(({ tools }) => ({ toolCalls: tools ? toolCalls : [] }));
+
+      const result = await completeLLM({ operation: 'agent', prompt: 'go', tools: [{ type: 'function' }] });
+      expect(result.toolCalls).toEqual(toolCalls);
+      expect(result.finishReason).toBe('tool_calls');
+    });
+  });
+
+  it('streamLLM emits the whole response for non-streaming providers', async () => {
+    setMockResponder(() => 'A finding.');
+    const chunks: string[] = [];
+    const result = await streamLLM({ operation: 'report', prompt: 'write' }, c => chunks.push(c));
+    expect(result.text).toBe('A finding.');
+    expect(chunks).toEqual(['A finding.']);
+  });
+
+  it('classifies moderation and rate-limit errors', () => {
+    expect(isContentModerationError({ response: { status: 429 } })).toBe(true);
+    expect(isContentModerationError({ response: { data: { error: { code: 'content_filter' } } } })).toBe(true);
+    expect(isContentModerationError({ response: { status: 500 } })).toBe(false);
+  });
+
+  it('runs categorization offline against the mock provider', async () => {
+    setMockResponder(({ operation }) => {
+      expect(operation).toBe('triage');
+      return '{"classifications":[{"index":1,"category":"RED","reason":"fraud conviction"}]}';
+    });
+    const tracker = new MetricsTracker('张三');
+
+    const output = await categorizeAll(
+      [
+        { url: 'https://news.example.com/a', title: '张三 诈骗案判刑', snippet: '张三因诈骗被判刑', query: '张三 诈骗' },
+        { url: 'https://www.douyin.com/video/1', title: '张三 视频', snippet: '张三的短视频', query: '张三' },
+      ],
+      '张三', null, undefined, undefined,
+      (provider, op, input, output, usage) => tracker.recordLLMCall(provider, op, input, output, usage)
+    );
+
+    expect(output.red.map(r => r.url)).toEqual(['https://news.example.com/a']);
+    expect(output.green.map(r => r.url)).toEqual(['https://www.douyin.com/video/1']);  // Pre-filtered, never sent to the LLM
+    expect(tracker.getLLMCallCount()).toBe(1);
+  });
+});
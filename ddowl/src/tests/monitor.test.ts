@@ -0,0 +1,66 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { WatchlistRow } from '../monitor-db.js';
+
+vi.mock('../searcher.js', () => ({
+  searchGoogle: vi.fn(async () => []),
+  dateRestriction: () => 'qdr:m',
+}));
+
+vi.mock('../reports-db.js', () => ({
+  getReport: vi.fn(async () => null),
+  getLatestReportForSubject: vi.fn(async () => null),
+}));
+
+vi.mock('../monitor-db.js', () => ({
+  getWatch: vi.fn(),
+  listDueWatches: vi.fn(async () => []),
+  markWatchRun: vi.fn(async () => {}),
+  deferWatch: vi.fn(async () => {}),
+  startMonitorRun: vi.fn(async () => 1),
+  completeMonitorRun: vi.fn(async () => {}),
+  failMonitorRun: vi.fn(async () => {}),
+}));
+
+import { runMonitor, isMonitorRunning } from '../monitor.js';
+import { getWatch, startMonitorRun, completeMonitorRun } from '../monitor-db.js';
+
+const WATCH = {
+  id: 1,
+  subject_name: '陳大文',
+  name_variations: '[]',
+  language: 'chinese',
+  baseline_report_id: null,
+  last_run_at: '2026-09-01T00:00:00Z',
+  created_at: '2026-08-01T00:00:00Z',
+  seen_urls: '[]',
+} as unknown as WatchlistRow;
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('runMonitor', () => {
+  it('rejects a second run of a watch that is still loading', async () => {
+    let resolveWatch!: (watch: WatchlistRow) => void;
+    vi.mocked(getWatch).mockReturnValueOnce(new Promise(resolve => { resolveWatch = resolve; }));
+
+    const first = runMonitor(1);
+    expect(isMonitorRunning(1)).toBe(true);
+    await expect(runMonitor(1)).rejects.toThrow('Watch 1 is already running');
+
+    resolveWatch(WATCH);
+    const result = await first;
+    expect(result.gathered).toBe(0);
+    expect(getWatch).toHaveBeenCalledTimes(1);
+    expect(startMonitorRun).toHaveBeenCalledTimes(1);
+    expect(completeMonitorRun).toHaveBeenCalledTimes(1);
+    expect(isMonitorRunning(1)).toBe(false);
+  });
+
+  it('releases the watch when it cannot be loaded', async () => {
+    vi.mocked(getWatch).mockResolvedValueOnce(null);
+    await expect(runMonitor(2)).rejects.toThrow('Watch 2 not found');
+    expect(isMonitorRunning(2)).toBe(false);
+    expect(startMonitorRun).not.toHaveBeenCalled();
+  });
+});
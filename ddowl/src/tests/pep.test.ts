@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { newDb } from 'pg-mem';
+import type { Pool as PgPool } from 'pg';
+
+let memPool: PgPool;
+
+vi.mock('../db/index.js', () => {
+  return {
+    get pool() {
+      return memPool;
+    },
+  };
+});
+
+import { initPepDb } from '../pep-db.js';
+import { classifyRelationship, classifyRole, determinePEP, formatPEPSection, loadPEPFile } from '../pep.js';
+
+const PEP_CSV = [
+  'Name,Chinese Name,Aliases,Position,Organisation,Country,Tier,Status,Source URL',
+  'Wong Kar Fai,王家輝,Kar-fai Wong,Deputy,"全国人民代表大会",China,1,current,https://example.org/npc/1',
+  'Chen Ming,陈明,,Vice Governor,广东省人民政府,China,,former,',
+].join('\n');
+
+describe('PEP role classification', () => {
+  it('tiers Chinese political roles by body and administrative level', () => {
+    const tiers = (title: string, org = '') => classifyRole(title, org).map(r => [r.category, r.level, r.tier]);
+
+    expect(tiers('第十三届全国人大代表')).toEqual([['legislature', 'national', 1]]);
+    expect(tiers('广东省政协委员')).toEqual([['political_advisory', 'provincial', 2]]);
+    expect(tiers('北京市海淀区人大代表')).toEqual([['legislature', 'county', 3]]);
+    expect(tiers('主任', '广东省国资委')).toEqual([['government', 'provincial', 2]]);
+    expect(tiers('立法会议员')).toEqual([['legislature', 'national', 1]]);
+    // "市场" is not a municipality
+    expect(tiers('局长', '市场监督管理局')).toEqual([['government', null, 2]]);
+    // Private company chairman is not a PEP role
+    expect(tiers('董事长', '腾讯控股有限公司')).toEqual([]);
+
+    const soe = classifyRole('党委书记、董事长', '中国建筑集团有限公司');
+    expect(soe).toHaveLength(1);
+    expect(soe[0]).toMatchObject({ category: 'soe', level: 'national', tier: 2, needsConfirmation: true, role: '党委书记、董事长' });
+  });
+
+  it('classifies relatives by kinship terms, not words that contain them', () => {
+    for (const relationship of ['son-in-law', 'his sister, former 副市长', 'stepdaughter', 'parents', '父亲，前广东省副省长', '弟弟', '表姐']) {
+      expect(classifyRelationship(relationship)).toBe('relative');
+    }
+    for (const relationship of ['spokesperson', 'chairperson of the board', 'sister company director', 'parent company', 'Johnson & Co colleague', '徒弟', '姐妹公司董事']) {
+      expect(classifyRelationship(relationship)).toBeNull();
+    }
+    expect(classifyRelationship('business partner')).toBe('close_associate');
+  });
+
+  it('classifies close associates by whole words', () => {
+    for (const relationship of ['business partner', 'partners in 深圳某某投资', 'associate of the subject', 'nominee shareholder', '代持人', '私人秘书']) {
+      expect(classifyRelationship(relationship)).toBe('close_associate');
+    }
+    // Profile extraction labels every person it finds "associated"
+    for (const relationship of ['associated', 'partnership', 'Associate Professor', 'associate director at the same bank', '秘书长']) {
+      expect(classifyRelationship(relationship)).toBeNull();
+    }
+  });
+});
+
+describe('PEP determination', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    const Pool = newDb().adapters.createPg().Pool;
+    memPool = new Pool() as unknown as PgPool;
+    await initPepDb();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pep-'));
+    fs.writeFileSync(path.join(dir, 'cn-officials.csv'), PEP_CSV);
+    await loadPEPFile(path.join(dir, 'cn-officials.csv'));
+  });
+
+  afterEach(async () => {
+    if (memPool) await memPool.end();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('corroborates dataset matches against profile roles and records RCAs', async () => {
+    // Traditional name in the dataset, Simplified in the screening; role matches the listing
+    const wong = await determinePEP({
+      name: '王家辉',
+      profile: {
+        currentRole: { title: '全国人大代表、董事长', company: '王氏集团' },
+        pastRoles: [],
+        associatedPeople: [{ name: '陈明', relationship: 'father-in-law' }, { name: '李四', relationship: 'colleague' }],
+      },
+    });
+    expect(wong).toMatchObject({ status: 'pep', tier: 1, datasets: ['cn-officials'] });
+    expect(wong.listMatches).toEqual([expect.objectContaining({ name: 'Wong Kar Fai', matchedName: '王家辉', corroborated: true })]);
+    expect(wong.associates).toEqual([expect.objectContaining({ name: '陈明', type: 'relative', isPEP: false })]);
+    expect(wong.associates[0].listMatches[0]).toMatchObject({ position: 'Vice Governor', tier: 2, corroborated: false });
+
+    // Romanised name in another order, no roles in the profile — only a possible match
+    const nameOnly = await determinePEP({
+      name: 'Kar Fai Wong',
+      profile: { currentRole: null, pastRoles: [], associatedPeople: [] },
+    });
+    expect(nameOnly).toMatchObject({ status: 'possible_pep', tier: 1 });
+
+    const rca = await determinePEP({
+      name: '张三',
+      profile: { currentRole: null, pastRoles: [], associatedPeople: [{ name: '张大伟', relationship: '父亲，前广东省副省长' }] },
+    });
+    expect(rca).toMatchObject({ status: 'rca', tier: 2 });
+    expect(formatPEPSection(rca)).toContain('张大伟 (父亲，前广东省副省长) — relative: 前广东省副省长 (former) — provincial-level government office, Tier 2');
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { extractProspectusSectionsFromText, findSectionLines } from '../prospectus-sections.js';
+
+const TEXT = fs.readFileSync(path.join(__dirname, 'fixtures', 'prospectus', 'sections.txt'), 'utf8');
+const sections = extractProspectusSectionsFromText(TEXT);
+const named = (type: string) => sections.parties.filter(p => p.type === type);
+
+describe('Prospectus sections', () => {
+  it('skips the table of contents and running headers when finding a section', () => {
+    const risks = findSectionLines(TEXT, 'riskFactors')!;
+    expect(risks[0]).toMatch(/^An investment in our Shares/);
+    expect(risks).not.toContain('RISK FACTORS');
+    expect(risks).not.toContain('– 46 –');
+    expect(risks.some(l => l.startsWith('Joint Sponsors'))).toBe(false);
+  });
+
+  it('reads directors and senior management with positions and bios, stopping at the company secretaries', () => {
+    expect(named('director').map(p => [p.name, p.nameCn, p.age, p.position])).toEqual([
+      ['ZHANG Wei', '張偉', 52, 'executive Director and chairman of our Board'],
+      ['LI Na', '李娜', 45, 'non-executive Director'],
+    ]);
+    expect(named('senior_management').map(p => [p.name, p.position])).toEqual([['CHEN Hao', 'chief financial officer']]);
+    expect(named('director')[0].bio).toContain('founded our Group in 2008');
+    expect(sections.parties.some(p => p.name.includes('WONG'))).toBe(false);
+  });
+
+  it('reads the controlling shareholder group and cornerstone commitments', () => {
+    expect(named('controlling_shareholder').map(p => [p.name, p.entityType])).toEqual([
+      ['Zhang Wei', 'person'],
+      ['Zhang Family Holdings Limited', 'company'],
+      ['Bright Star Investment Limited', 'company'],
+    ]);
+    expect(named('controlling_shareholder')[0].position).toBe('approximately 48.50% of the issued shares');
+    expect(named('cornerstone_investor').map(p => [p.name, p.commitment, p.commitmentHkdm])).toEqual([
+      ['Harbour Growth Fund L.P.', 'US$20 million', 156],
+      ['Pacific Insurance Company Limited', 'HK$78.0 million', 78],
+    ]);
+  });
+
+  it('reads advisers, use of proceeds and risk factor headings', () => {
+    expect([...named('legal_adviser'), ...named('reporting_accountant')].map(p => [p.name, p.position])).toEqual([
+      ['Freshfields Bruckhaus Deringer', 'Legal adviser to our Company as to Hong Kong law'],
+      ['Jingtian & Gongcheng', 'Legal adviser to our Company as to PRC law'],
+      ['Clifford Chance', 'Legal adviser to the Joint Sponsors as to Hong Kong law'],
+      ['Ernst & Young', 'Reporting accountant'],
+    ]);
+    expect(sections.useOfProceeds).toEqual([
+      { purpose: 'expanding our production capacity in Jiangsu', percentage: 40, amountHkdm: 480 },
+      { purpose: 'research and development of new products', percentage: 35, amountHkdm: 420 },
+      { purpose: 'working capital and general corporate purposes', percentage: 10, amountHkdm: null },
+    ]);
+    expect(sections.riskFactors.map(r => r.category)).toEqual([
+      'RISKS RELATING TO OUR BUSINESS AND INDUSTRY',
+      'RISKS RELATING TO OUR BUSINESS AND INDUSTRY',
+      'RISKS RELATING TO THE GLOBAL OFFERING',
+    ]);
+    expect(sections.riskFactors[1].heading).toBe('Our results of operations depend on a limited number of key customers');
+  });
+});
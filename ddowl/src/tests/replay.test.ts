@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { replayBundle } from '../replay/replay.js';
+import { createFixtureBundle, fixtureKey, withFixture, runWithReplay } from '../replay/fixtures.js';
+import { setMockResponder } from '../llm/providers.js';
+import type { SubjectProfile } from '../types.js';
+
+const SUBJECT = '张三丰';
+
+function profile(): SubjectProfile {
+  return {
+    primaryName: SUBJECT,
+    nameVariants: [SUBJECT],
+    gender: 'unknown',
+    nationality: [],
+    ageRange: '',
+    currentRole: null,
+    pastRoles: [],
+    industry: [],
+    licenses: [],
+    associatedCompanies: [],
+    associatedPeople: [],
+    sources: [],
+    confidence: 'low',
+    lastUpdated: 0,
+  } as SubjectProfile;
+}
+
+function recordedBundle() {
+  const bundle = createFixtureBundle(SUBJECT);
+  bundle.inputs = {
+    gathered: [
+      { url: 'https://news.example.com/fraud', title: `${SUBJECT}涉嫌诈骗被警方调查`, snippet: `${SUBJECT}因涉嫌诈骗被立案调查`, query: `${SUBJECT} 诈骗` },
+      { url: 'https://finance.example.com/probe', title: `${SUBJECT}公司遭证监会处罚`, snippet: `${SUBJECT}控制的公司因违规被处罚`, query: `${SUBJECT} 处罚` },
+    ],
+    nameVariations: [SUBJECT],
+    profile: profile(),
+  };
+  // Pages are recorded up front; LLM calls are recorded by the first (live) replay below
+  bundle.page = [
+    { key: fixtureKey('https://news.example.com/fraud'), label: 'https://news.example.com/fraud', value: '' },
+    { key: fixtureKey('https://finance.example.com/probe'), label: 'https://finance.example.com/probe', value: `无关内容。`.repeat(40) },
+  ];
+  return bundle;
+}
+
+describe('fixture replay', () => {
+  beforeEach(() => {
+    vi.stubEnv('DEEPSEEK_API_KEY', '');
+    vi.stubEnv('KIMI_API_KEY', '');
+    vi.stubEnv('GEMINI_API_KEY', '');
+    vi.stubEnv('LLM_LOCAL_URL', '');
+    vi.stubEnv('LLM_PROVIDER', 'mock');
+  });
+
+  afterEach(() => {
+    setMockResponder(null);
+    vi.unstubAllEnvs();
+  });
+
+  it('replays recorded errors and reports misses', async () => {
+    const bundle = createFixtureBundle(SUBJECT);
+    bundle.search = [{ key: fixtureKey('q1'), label: 'q1', error: 'HTTP 500' }];
+
+    const { misses } = await runWithReplay(bundle, async () => {
+      await expect(withFixture('search', 'q1', 'q1', async () => 'live')).rejects.toThrow('HTTP 500');
+      await expect(withFixture('search', 'q2', 'q2', async () => 'live')).rejects.toThrow('No search fixture');
+    });
+    expect(misses).toEqual([{ kind: 'search', label: 'q2' }]);
+  });
+
+  it('re-runs the pipeline offline with identical results', async () => {
+    const seen: string[] = [];
+    setMockResponder(({ operation }) => {
+      seen.push(operation);
+      switch (operation) {
+        case 'triage': return '{"classifications":[{"index":1,"category":"RED","reason":"fraud investigation"},{"index":2,"category":"AMBER","reason":"regulatory penalty"}]}';
+        case 'analysis': return '{"mentions_subject": false}';
+        default: return '{}';
+      }
+    });
+
+    const bundle = recordedBundle();
+    const recorded = await replayBundle(bundle, { onMiss: 'live' });
+    expect(recorded.misses.map(m => m.kind)).toEqual(seen.map(() => 'llm'));
+    expect(bundle.llm).toHaveLength(seen.length);
+
+    // Second run: no provider at all — everything must come from the bundle
+    setMockResponder(null);
+    vi.stubEnv('LLM_PROVIDER', '');
+    const replayed = await replayBundle(bundle);
+
+    expect(replayed.misses).toEqual([]);
+    expect(replayed.findings).toEqual(recorded.findings);
+    expect(replayed.findings.map(f => f.sources?.[0]?.url)).toEqual(['https://news.example.com/fraud']);
+    expect(replayed.snapshot.phases.map(p => p.phase)).toEqual(recorded.snapshot.phases.map(p => p.phase));
+    expect(replayed.metrics.costs.length).toBe(recorded.metrics.costs.length);
+  });
+});
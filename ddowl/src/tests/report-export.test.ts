@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { newDb } from 'pg-mem';
+import type { Pool as PgPool } from 'pg';
+
+let memPool: PgPool;
+
+vi.mock('../db/index.js', () => {
+  return {
+    get pool() {
+      return memPool;
+    },
+  };
+});
+
+import { initReportsDb, saveReport, getReport, updateFindingVerdict, type SaveReportInput } from '../reports-db.js';
+import { buildReportExport, validateReportExport, REPORT_EXPORT_VERSION } from '../report-export.js';
+
+const article = '許楚家於2015年因涉嫌行賄被廉政公署調查。'.repeat(100);
+
+const sampleReport: SaveReportInput = {
+  runId: 'export-run-1',
+  subjectName: '許楚家',
+  screenedAt: '2026-02-09T10:00:00Z',
+  language: 'zh',
+  nameVariations: ['许楚家', '許楚家'],
+  context: 'Chairman of a Shenzhen property developer',
+  findings: [
+    {
+      severity: 'RED', headline: 'ICAC Investigation', eventType: 'regulatory_investigation',
+      summary: 'Subject investigated for bribery', dateRange: '2015-2017', sourceCount: 2,
+      sourceUrls: [{ url: 'https://caixin.com/article1', title: 'ICAC probe' }, { url: 'https://scmp.com/article3', title: 'Probe widens' }],
+      articleContents: [{ url: 'https://caixin.com/article1', content: article }],
+      matchConfidence: 'strong',
+    },
+    {
+      severity: 'AMBER', headline: 'Civil dispute', eventType: 'civil_litigation', summary: 'Contract dispute',
+      sourceCount: 1, sourceUrls: [{ url: 'https://scmp.com/article2', title: 'Lawsuit filed' }],
+    },
+  ],
+  cleanResults: { '许楚家': [{ url: 'https://example.com/clean', title: 'Charity gala', snippet: 'Attended' }] },
+  screeningStats: {
+    gathered: 120,
+    programmaticElimination: {
+      before: 120, after: 80, eliminated: 40, govBypassed: 2,
+      breakdown: { gov_domain_bypass: 2, noise_domain: 20, trash_domain: 5, noise_title_pattern: 8, name_char_separation: 3, missing_dirty_word: 4, part_of_longer_name: 0, learned_rule: 0 },
+    },
+    clustering: { totalClusters: 12, articlesToAnalyze: 30, articlesParked: 50 },
+    categorized: { red: 6, amber: 10, green: 14 },
+    processed: { total: 16, adverse: 5, cleared: 10, failed: 1, further: 0 },
+    consolidated: { before: 5, after: 2 },
+    llmCallCount: 40,
+    llmCostUsd: 0.31,
+    llmCostByOperation: { triage: 0.05, analysis: 0.26 },
+  },
+  sanctions: {
+    subject: '許楚家', checkedAt: '2026-02-09T10:05:00Z', threshold: 0.82,
+    lists: [{ source: 'ofac_sdn', label: 'OFAC SDN List', entryCount: 2, loadedAt: '2026-02-01T00:00:00.000Z' }],
+    hits: [{
+      source: 'ofac_sdn', sourceLabel: 'OFAC SDN List', listId: '36001', entityType: 'individual',
+      listedName: 'Chujia XU', matchedName: 'Chujia XU', matchedOn: 'name', queryName: 'Xu Chu Jia',
+      nameScore: 1, score: 0.9, strength: 'possible', reasons: ['exact_name', 'romanised'],
+      programs: ['SDGT'], birthDates: ['12 Mar 1968'], nationalities: ['China'], remarks: '',
+    }],
+  },
+  costUsd: 0.42,
+  durationMs: 180000,
+  queriesExecuted: 28,
+  totalSearchResults: 487,
+};
+
+describe('Report JSON export', () => {
+  beforeEach(async () => {
+    const Pool = newDb().adapters.createPg().Pool;
+    memPool = new Pool() as unknown as PgPool;
+    await initReportsDb();
+  });
+
+  afterEach(async () => {
+    if (memPool) await memPool.end();
+  });
+
+  it('exports a saved report that validates against the schema', async () => {
+    const id = await saveReport(sampleReport);
+    const saved = await getReport(id);
+    await updateFindingVerdict(saved!.findings[0].id, 'CONFIRMED');
+
+    const exported = buildReportExport((await getReport(id))!);
+
+    expect(validateReportExport(exported)).toEqual([]);
+    expect(exported.schemaVersion).toBe(REPORT_EXPORT_VERSION);
+    expect(exported.subject).toEqual({ name: '許楚家', variations: ['许楚家', '許楚家'], context: 'Chairman of a Shenzhen property developer' });
+
+    const [red, amber] = exported.findings;
+    expect(red.matchConfidence).toBe('strong');
+    expect(red.review).toEqual({ includedInReport: false, verdict: 'CONFIRMED', wrongReason: null });
+    expect(red.sources[0].excerpt).toHaveLength(1000);
+    expect(red.sources[1].excerpt).toBeNull();
+    expect(amber.matchConfidence).toBeNull();
+    expect(amber.dateRange).toBeNull();
+
+    expect(exported.elimination?.breakdown?.noise_domain).toBe(20);
+    expect(exported.funnel.map(s => s.count)).toEqual([120, 80, 30, 16, 16, 5, 2]);
+    expect(exported.costs).toMatchObject({ totalUsd: 0.42, llmCallCount: 40, byOperation: { triage: 0.05, analysis: 0.26 } });
+    expect(exported.sanctions).toMatchObject({ threshold: 0.82, hits: [{ listId: '36001', strength: 'possible' }] });
+    expect(exported.sanctions).not.toHaveProperty('subject');
+  });
+
+  it('exports reports saved without screening stats', async () => {
+    const id = await saveReport({ ...sampleReport, runId: 'export-run-2', context: undefined, screeningStats: undefined, cleanResults: undefined, sanctions: undefined });
+    const exported = buildReportExport((await getReport(id))!);
+
+    expect(validateReportExport(exported)).toEqual([]);
+    expect(exported.subject.context).toBeNull();
+    expect(exported.elimination).toBeNull();
+    expect(exported.funnel).toEqual([]);
+    expect(exported.costs.byOperation).toBeNull();
+    expect(exported.sanctions).toBeNull();
+  });
+
+  it('reports schema violations with their paths', () => {
+    const errors = validateReportExport({
+      schemaVersion: '0.9',
+      exportedAt: '2026-02-09T10:00:00Z',
+      report: { id: 1, runId: 'r', screenedAt: 's', language: 'zh' },
+      subject: { name: 'x', variations: ['x', 3] },
+      summary: { findingCount: 1, red: 1, amber: 0 },
+      findings: [{ id: 1, severity: 'GREEN', headline: 'h', eventType: 'e', summary: 's', dateRange: null, matchConfidence: 'certain', sources: [], review: { includedInReport: false, verdict: null, wrongReason: null } }],
+      cleanResults: {},
+      elimination: null,
+      funnel: [],
+      costs: { totalUsd: 0, llmCallCount: null, llmCostUsd: null, byOperation: null, durationMs: 0, queriesExecuted: 0, totalSearchResults: 0 },
+    });
+
+    expect(errors).toEqual([
+      `$.schemaVersion: expected "${REPORT_EXPORT_VERSION}"`,
+      '$.subject.context: required',
+      '$.subject.variations[1]: expected string',
+      '$.findings[0].severity: expected one of "RED", "AMBER", "REVIEW"',
+      '$.findings[0].matchConfidence: expected one of "strong", "possible", "weak", null',
+    ]);
+  });
+});
@@ -112,6 +112,23 @@ describe('Reports Database (PostgreSQL)', () => {
     expect(results.reports[0].subject_name).toBe('許楚家');
   });
 
+  it('should store finding dates and filter reports by last reported date', async () => {
+    const dated = (firstReported: string, lastReported: string) => sampleReport.findings.map(f => ({
+      ...f, dates: { firstReported, lastReported, eventDates: ['2015-03', '2017'] },
+    }));
+    const recentId = await saveReport({ ...sampleReport, findings: dated('2023-05-01', '2025-11-20') });
+    await saveReport({ ...sampleReport, runId: 'test-run-2', subjectName: 'John Smith', findings: dated('2012-01-01', '2013-06-30') });
+
+    const report = await getReport(recentId);
+    expect(report!.findings[0]).toMatchObject({ first_reported: '2023-05-01', last_reported: '2025-11-20' });
+    expect(JSON.parse(report!.findings[0].event_dates!)).toEqual(['2015-03', '2017']);
+
+    const recent = await listReports({ reportedSince: '2024-01-01' });
+    expect(recent.total).toBe(1);
+    expect(recent.reports[0].subject_name).toBe('許楚家');
+    expect((await listReports({ reportedSince: '2024-01-01', search: 'John' })).total).toBe(0);
+  });
+
   // --- Review operations ---
 
   it('should update finding verdict to CONFIRMED', async () => {
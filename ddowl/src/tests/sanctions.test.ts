@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { newDb } from 'pg-mem';
+import type { Pool as PgPool } from 'pg';
+
+let memPool: PgPool;
+
+vi.mock('../db/index.js', () => {
+  return {
+    get pool() {
+      return memPool;
+    },
+  };
+});
+
+import { initSanctionsDb, replaceSanctionsList } from '../sanctions-db.js';
+import { checkSanctions, formatSanctionsSection, latinNameScore } from '../sanctions.js';
+import { detectSanctionsSource, parseOFACSdnXml, parseUKHMTCsv, parseUNConsolidatedXml } from '../sanctions-lists.js';
+
+const SDN_XML = `<?xml version="1.0" standalone="yes"?>
+<sdnList xmlns="http://tempuri.org/sdnList.xsd">
+  <sdnEntry>
+    <uid>36001</uid>
+    <firstName>Chujia</firstName>
+    <lastName>XU</lastName>
+    <sdnType>Individual</sdnType>
+    <programList><program>SDGT</program></programList>
+    <akaList>
+      <aka><uid>1</uid><type>a.k.a.</type><category>strong</category><firstName>Chu-kar</firstName><lastName>HUI</lastName></aka>
+      <aka><uid>2</uid><type>a.k.a.</type><category>weak</category><lastName>Big Brother Xu</lastName></aka>
+    </akaList>
+    <nationalityList><nationality><uid>3</uid><country>China</country></nationality></nationalityList>
+    <dateOfBirthList><dateOfBirthItem><uid>4</uid><dateOfBirth>12 Mar 1968</dateOfBirth></dateOfBirthItem></dateOfBirthList>
+  </sdnEntry>
+  <sdnEntry>
+    <uid>36002</uid>
+    <lastName>EASTERN STAR SHIPPING CO., LTD.</lastName>
+    <sdnType>Entity</sdnType>
+    <programList><program>NPWMD</program></programList>
+  </sdnEntry>
+</sdnList>`;
+
+const UN_XML = `<CONSOLIDATED_LIST dateGenerated="2026-01-01">
+  <INDIVIDUALS>
+    <INDIVIDUAL>
+      <DATAID>6908</DATAID>
+      <FIRST_NAME>CHUN HING</FIRST_NAME>
+      <SECOND_NAME>WONG</SECOND_NAME>
+      <UN_LIST_TYPE>DPRK</UN_LIST_TYPE>
+      <REFERENCE_NUMBER>KPi.099</REFERENCE_NUMBER>
+      <NAME_ORIGINAL_SCRIPT>黃振興</NAME_ORIGINAL_SCRIPT>
+      <NATIONALITY><VALUE>China, Hong Kong</VALUE></NATIONALITY>
+      <INDIVIDUAL_ALIAS><QUALITY>Low</QUALITY><ALIAS_NAME>Ah Hing</ALIAS_NAME></INDIVIDUAL_ALIAS>
+      <INDIVIDUAL_DATE_OF_BIRTH><TYPE_OF_DATE>BETWEEN</TYPE_OF_DATE><FROM_YEAR>1955</FROM_YEAR><TO_YEAR>1958</TO_YEAR></INDIVIDUAL_DATE_OF_BIRTH>
+    </INDIVIDUAL>
+  </INDIVIDUALS>
+  <ENTITIES />
+</CONSOLIDATED_LIST>`;
+
+const UK_CSV = [
+  'Last Updated,07/01/2026',
+  'Name 6,Name 1,Name 2,Name 3,Name 4,Name 5,Title,Name Non-Latin Script,DOB,Nationality,Other Information,Group Type,Alias Type,Alias Quality,Regime,Group ID',
+  'LAM,Kin,Wah,,,,,林建華,00/00/1972,(1) China (2) Hong Kong,"Director of a front company,\nlisted 2024",Individual,Primary name,,Russia,16001',
+  'LAM,Ken,,,,,,,,,,Individual,AKA,Low,Russia,16001',
+].join('\n');
+
+describe('Sanctions lists', () => {
+  it('parses OFAC, UN and UK HMT list files into one entry shape', () => {
+    const sdn = parseOFACSdnXml(SDN_XML);
+    expect(sdn[0]).toMatchObject({
+      source: 'ofac_sdn', listId: '36001', entityType: 'individual', name: 'Chujia XU',
+      aliases: [{ name: 'Chu-kar HUI', weak: false }, { name: 'Big Brother Xu', weak: true }],
+      birthDates: ['12 Mar 1968'], nationalities: ['China'], programs: ['SDGT'],
+    });
+    expect(sdn[1]).toMatchObject({ entityType: 'entity', name: 'EASTERN STAR SHIPPING CO., LTD.' });
+
+    expect(parseUNConsolidatedXml(UN_XML)[0]).toMatchObject({
+      listId: 'KPi.099', name: 'CHUN HING WONG', birthDates: ['1955 to 1958'],
+      aliases: [{ name: '黃振興', weak: false }, { name: 'Ah Hing', weak: true }],
+    });
+
+    const [uk] = parseUKHMTCsv(UK_CSV);
+    expect(uk).toMatchObject({
+      listId: '16001', name: 'Kin Wah LAM', birthDates: ['1972'], nationalities: ['China', 'Hong Kong'],
+      aliases: [{ name: '林建華', weak: false }, { name: 'Ken LAM', weak: true }],
+      remarks: 'Director of a front company, listed 2024',
+    });
+
+    expect(detectSanctionsSource(SDN_XML)).toBe('ofac_sdn');
+    expect(detectSanctionsSource(UN_XML)).toBe('un');
+    expect(detectSanctionsSource(UK_CSV)).toBe('uk_hmt');
+  });
+
+  it('matches romanised names regardless of order and syllable splitting', () => {
+    expect(latinNameScore(['xu', 'chu', 'jia'], ['chujia', 'xu'])).toBe(1);
+    expect(latinNameScore(['li', 'na'], ['li', 'ning'])).toBe(0);
+  });
+});
+
+describe('Sanctions check', () => {
+  beforeEach(async () => {
+    const Pool = newDb().adapters.createPg().Pool;
+    memPool = new Pool() as unknown as PgPool;
+    await initSanctionsDb();
+    await replaceSanctionsList('ofac_sdn', 'sdn.xml', parseOFACSdnXml(SDN_XML));
+    await replaceSanctionsList('un', 'consolidated.xml', parseUNConsolidatedXml(UN_XML));
+  });
+
+  afterEach(async () => {
+    if (memPool) await memPool.end();
+  });
+
+  it('finds Traditional/Simplified and romanised variants, scored with DOB and nationality', async () => {
+    // Subject entered in Simplified; the UN list carries the Traditional original-script name
+    const wong = await checkSanctions({ name: '黄振兴', kind: 'person', ageRange: 'born 1956', nationalities: ['Hong Kong'] });
+    expect(wong.hits).toHaveLength(1);
+    expect(wong.hits[0]).toMatchObject({ listId: 'KPi.099', matchedName: '黃振興', strength: 'strong' });
+    expect(wong.hits[0].reasons).toEqual(['exact_name', 'dob_consistent', 'nationality_consistent']);
+
+    const xu = await checkSanctions({ name: 'Xu Chu Jia', kind: 'person' });
+    expect(xu.hits.map(h => h.listId)).toEqual(['36001']);
+
+    // Same name, but born decades apart and screened as a company — not reported
+    const wrongPerson = await checkSanctions({ name: 'Xu Chujia', kind: 'company', birthDate: '1995' });
+    expect(wrongPerson.hits).toEqual([]);
+  });
+
+  it('matches a Chinese-only subject against Latin-only list entries through pinyin', async () => {
+    const xu = await checkSanctions({ name: '許楚佳', kind: 'person' });
+    expect(xu.hits).toHaveLength(1);
+    expect(xu.hits[0]).toMatchObject({ listId: '36001', queryName: 'Xu Chu Jia', score: 0.9, strength: 'possible' });
+    expect(xu.hits[0].reasons).toEqual(['exact_name', 'romanised']);
+    expect(formatSanctionsSection(xu)).toContain('- Chujia XU (on the pinyin romanisation "Xu Chu Jia") — OFAC SDN List');
+
+    // A consistent date of birth lifts it to a strong match
+    const withDob = await checkSanctions({ name: '许楚佳', kind: 'person', ageRange: 'born 1968' });
+    expect(withDob.hits[0]).toMatchObject({ listId: '36001', strength: 'strong' });
+  });
+
+  it('writes a report section naming the lists searched', async () => {
+    const clean = await checkSanctions({ name: '陈大文', kind: 'person' });
+    expect(clean.lists.map(l => l.source)).toEqual(['ofac_sdn', 'un']);
+    expect(formatSanctionsSection(clean)).toMatch(/^Sanctions & Watchlist Screening\n\nSearches of the OFAC SDN List \(as at \d{4}-\d{2}-\d{2}\) and the UN Security Council Consolidated List .* returned no matches for 陈大文\.$/);
+
+    const hit = formatSanctionsSection(await checkSanctions({ name: 'Hui Chu Kar', kind: 'person' }));
+    expect(hit).toContain('identified one potential match for Hui Chu Kar');
+    expect(hit).toContain('- Chujia XU (via alias "Chu-kar HUI") — OFAC SDN List, reference 36001; programme: SDGT; date of birth: 12 Mar 1968; nationality: China.');
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { parseScreeningReport, renderScreeningDocx } from '../screening-docx.js';
+
+const generated = [
+  'Media & Internet Searches',
+  'Searches conducted of the media and internet retrieved limited coverage for 許楚家.',
+  'ICAC investigation into bribery allegations (2015 – 2017)',
+  'According to an article published by Caixin (财新) in March 2015, 許楚家 was investigated by the ICAC.[1][2]',
+  'No information was found indicating 許楚家 was charged.',
+  'Media and online coverage of 许楚家 is mainly neutral.[1]\nOnline and media research found no significant negative issues with the subject.',
+  '[1]  https://example.com/a\nhttps://example.com/b',
+  '---',
+  '[1]  https://caixin.com/article1\n[2]  https://scmp.com/article3',
+].join('\n\n');
+
+describe('Screening DOCX', () => {
+  it('parses finding headings, consolidated footnotes and inline source lists', () => {
+    const { blocks, footnotes } = parseScreeningReport(generated);
+
+    expect(blocks.map(b => b.kind)).toEqual(['heading', 'paragraph', 'heading', 'paragraph', 'paragraph', 'paragraph']);
+    expect(blocks[0]).toEqual({ kind: 'heading', level: 1, text: 'Media & Internet Searches' });
+    expect(blocks[2]).toMatchObject({ kind: 'heading', level: 2, text: 'ICAC investigation into bribery allegations (2015 – 2017)' });
+    expect(footnotes).toEqual(new Map([[1, ['https://caixin.com/article1']], [2, ['https://scmp.com/article3']]]));
+    // The clean write-up's own [1] points at its own list, not the consolidated footnote
+    expect(blocks[5]).toMatchObject({ footnotes: new Map([[1, ['https://example.com/a', 'https://example.com/b']]]) });
+  });
+
+  it('honours markdown headings and bullets from analyst edits', () => {
+    const { blocks, footnotes } = parseScreeningReport('# Media Searches\n\n## Civil dispute (2020)\n\n- Writ filed in 2020.[1]\n- Settled in 2021.');
+
+    expect(footnotes.size).toBe(0);
+    expect(blocks).toEqual([
+      { kind: 'heading', level: 1, text: 'Media Searches' },
+      { kind: 'heading', level: 2, text: 'Civil dispute (2020)' },
+      { kind: 'bullets', items: ['Writ filed in 2020.[1]', 'Settled in 2021.'] },
+    ]);
+  });
+
+  it('renders a Word document with footnotes from findings alone', async () => {
+    const buffer = await renderScreeningDocx({
+      subjectName: '許楚家',
+      screenedAt: '2026-02-09T10:00:00Z',
+      reportText: '',
+      nameVariations: ['许楚家', '許楚家'],
+      findings: [{
+        severity: 'RED', headline: 'ICAC Investigation', eventType: 'regulatory_investigation', dateRange: '2015-2017',
+        summary: 'Subject investigated for bribery.', sources: [{ url: 'https://caixin.com/article1', title: 'ICAC probe' }],
+      }],
+    });
+
+    expect(buffer.subarray(0, 2).toString()).toBe('PK');
+    expect(buffer.includes('word/footnotes.xml')).toBe(true);
+  });
+});
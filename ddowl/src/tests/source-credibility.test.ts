@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { newDb } from 'pg-mem';
+import type { Pool as PgPool } from 'pg';
+
+let memPool: PgPool;
+
+vi.mock('../db/index.js', () => {
+  return {
+    get pool() {
+      return memPool;
+    },
+  };
+});
+
+import { initReportsDb, trackSource } from '../reports-db.js';
+import { buildCredibilityIndex, loadCredibilityIndex, rankFindingSources, scoreSource } from '../source-credibility.js';
+import { createFixtureBundle, runWithReplay } from '../replay/fixtures.js';
+
+describe('Source credibility', () => {
+  it('blends the static tier with learned reliability, weighted by sample size', () => {
+    expect(scoreSource('https://www.reuters.com/a')).toMatchObject({ domain: 'reuters.com', tier: 1, reliability: null, sampleSize: 0, score: 0.85, low: false });
+    // One wrong verdict barely moves a tier-1 source but drags an unknown blog below the threshold
+    expect(scoreSource('https://www.reuters.com/a', { confirmed: 0, wrong: 1 }).score).toBeCloseTo(0.708, 3);
+    expect(scoreSource('https://blog.example.com/a', { confirmed: 0, wrong: 1 })).toMatchObject({ score: 0.375, low: true });
+    // A long confirmed record lifts a tier-3 source above an untested tier-2 one
+    expect(scoreSource('https://blog.example.com/a', { confirmed: 20, wrong: 0 }).score).toBeGreaterThan(scoreSource('https://www.163.com/a').score);
+  });
+
+  it('orders finding sources and flags findings resting only on low-credibility sources', () => {
+    const index = buildCredibilityIndex([
+      { domain: 'www.rumours.example', times_confirmed: 0, times_wrong: 3 },
+      { domain: 'rumours.example', times_confirmed: 0, times_wrong: 1 },
+      { domain: 'gossip.example', times_confirmed: 1, times_wrong: 4 },
+    ]);
+    expect(index.get('https://rumours.example/x')).toMatchObject({ sampleSize: 4, reliability: 0 });
+
+    const finding = { sources: [
+      { url: 'https://rumours.example/x', title: 'x' },
+      { url: 'https://www.caixin.com/y', title: 'y' },
+      { url: 'https://gossip.example/z', title: 'z' },
+    ] };
+    expect(rankFindingSources(finding, index)).toEqual({ lowCredibilityOnly: false });
+    expect(finding.sources.map(s => s.title)).toEqual(['y', 'z', 'x']);
+
+    const weak = { sources: [{ url: 'https://gossip.example/z', title: 'z' }, { url: 'https://rumours.example/x', title: 'x' }] };
+    expect(rankFindingSources(weak, index)).toEqual({ lowCredibilityOnly: true });
+  });
+});
+
+describe('Source credibility from verdicts', () => {
+  beforeEach(async () => {
+    const Pool = newDb().adapters.createPg().Pool;
+    memPool = new Pool() as unknown as PgPool;
+    await initReportsDb();
+  });
+
+  afterEach(async () => {
+    if (memPool) await memPool.end();
+  });
+
+  it('loads learned reliability from dd_sources', async () => {
+    await trackSource('www.rumours.example', 'wrong');
+    await trackSource('www.rumours.example', 'wrong');
+    await trackSource('news.example.com', 'in_finding');
+
+    const index = await loadCredibilityIndex();
+    expect(index.get('https://rumours.example/a')).toMatchObject({ sampleSize: 2, reliability: 0, low: true });
+    expect(index.get('https://news.example.com/a')).toMatchObject({ sampleSize: 0, low: false });
+  });
+
+  it('replays with the verdict counts recorded in the bundle', async () => {
+    await trackSource('www.rumours.example', 'wrong');
+    await trackSource('www.rumours.example', 'wrong');
+
+    const bundle = createFixtureBundle('张三');
+    bundle.inputs.sourceStats = [{ domain: 'news.example.com', times_confirmed: 0, times_wrong: 3 }];
+    const { result: index } = await runWithReplay(bundle, () => loadCredibilityIndex());
+    expect(index.get('https://rumours.example/a')).toMatchObject({ sampleSize: 0, low: false });
+    expect(index.get('https://news.example.com/a')).toMatchObject({ sampleSize: 3, low: true });
+  });
+});
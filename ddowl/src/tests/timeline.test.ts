@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { dateFromUrl, extractEventDates, extractPublicationDate } from '../extraction/dates.js';
+import { findingDates, formatTimelineSection } from '../timeline.js';
+import type { ConsolidatedFinding } from '../types.js';
+
+function finding(headline: string, dates: ConsolidatedFinding['dates']): ConsolidatedFinding {
+  return { headline, summary: '', severity: 'AMBER', eventType: 'other', dateRange: '', sourceCount: 1, sources: [], dates };
+}
+
+describe('Finding dates', () => {
+  it('takes the publication date from metadata, then the URL, then the article header', () => {
+    expect(extractPublicationDate('https://finance.sina.com.cn/stock/2024-03-05/doc-x.shtml', '标题\n\nPublished: 2024-03-04\n\n正文')).toBe('2024-03-04');
+    expect(extractPublicationDate('https://finance.sina.com.cn/stock/2024-03-05/doc-x.shtml', '标题\n\n正文 2019年1月1日')).toBe('2024-03-05');
+    expect(extractPublicationDate('https://example.cn/a.html', '调查 发布时间：2017年8月3日 来源：华东商报')).toBe('2017-08-03');
+    expect(extractPublicationDate('https://example.cn/a.html', 'Published: 2999-01-01')).toBeNull();
+    expect(dateFromUrl('https://news.163.com/17/0803/10/CR1234.html')).toBe('2017-08-03');
+    expect(dateFromUrl('https://example.com/item?id=20240305')).toBeNull();
+  });
+
+  it('extracts event dates at the precision the text gives, ignoring amounts', () => {
+    expect(extractEventDates('2019年3月被廉署拘捕，2021年5月12日判处监禁，涉款2000万元，调查始于2015年。Fined in March 2020.'))
+      .toEqual(['2015', '2019-03', '2020-03', '2021-05-12']);
+  });
+
+  it('spans the reporting range across sources, falling back to URL dates', () => {
+    const dates = findingDates('2018年被立案调查', [
+      { url: 'https://a.com/x', publishedAt: '2019-06-01' },
+      { url: 'https://b.com/2018/11/20/y.html' },
+      { url: 'https://c.com/z' },
+    ]);
+    expect(dates).toEqual({ firstReported: '2018-11-20', lastReported: '2019-06-01', eventDates: ['2018'] });
+  });
+
+  it('orders the timeline by event date with undated findings last', () => {
+    const section = formatTimelineSection([
+      finding('Undated rumour', undefined),
+      finding('Civil suit', { firstReported: '2022-01-05', lastReported: '2022-01-05', eventDates: ['2021-12'] }),
+      finding('ICAC arrest', { firstReported: '2016-04-02', lastReported: '2020-01-01', eventDates: ['2016-03-30', '2019'] }),
+    ])!;
+    const rows = section.split('\n').filter(l => l.startsWith('| ') && !l.startsWith('| Event') && !l.startsWith('| ---'));
+    expect(rows).toEqual([
+      '| 2016-03-30, 2019 | ICAC arrest | AMBER | 2016-04-02 to 2020-01-01 |',
+      '| 2021-12 | Civil suit | AMBER | 2022-01-05 |',
+      '| Undated | Undated rumour | AMBER |  |',
+    ]);
+    expect(formatTimelineSection([])).toBeNull();
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { newDb } from 'pg-mem';
+import type { Pool as PgPool } from 'pg';
+import type { QCCCompanyProfile } from '../qcc-types.js';
+
+let memPool: PgPool;
+
+vi.mock('../db/index.js', () => {
+  return {
+    get pool() {
+      return memPool;
+    },
+  };
+});
+
+import { initGraphDb, ingestQCCProfile } from '../graph-db.js';
+import { calculateUBO } from '../ubo.js';
+
+function qcc(companyName: string, overrides: Partial<QCCCompanyProfile>): QCCCompanyProfile {
+  return {
+    companyName, companyNameChinese: companyName, companyNameEnglish: '', legalRepresentative: '',
+    registeredCapital: '', paidInCapital: '', establishedDate: '', operatingStatus: '',
+    unifiedSocialCreditCode: '', businessRegNumber: '', companyNumber: '', organizationCode: '', taxpayerNumber: '', qccId: '',
+    companyType: '', industry: '', approvalDate: '', registrationAuthority: '', businessScope: '',
+    registeredAddress: '', officeAddress: '', jurisdiction: '',
+    shareholders: [], directors: [], executives: [], beneficialOwners: [], actualControllers: [],
+    subsidiaries: [], investments: [], controlledCompanies: [],
+    riskSummary: { legalCasesTotal: 0, asDefendant: 0, asPlaintiff: 0, administrativePenalties: 0, abnormalOperations: false, seriousViolations: false, taxArrears: 0, businessRisks: 0 },
+    sourceUrl: `https://www.qcc.com/firm/${encodeURIComponent(companyName)}.html`,
+    extractedAt: '2026-03-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+const holder = (name: string, percentage: string, type: 'individual' | 'corporate') =>
+  ({ name, type, percentage, investmentAmount: '', subscriptionDate: '' });
+
+describe('UBO engine', () => {
+  beforeEach(async () => {
+    const Pool = newDb().adapters.createPg().Pool;
+    memPool = new Pool() as unknown as PgPool;
+    await initGraphDb();
+  });
+
+  afterEach(async () => {
+    if (memPool) await memPool.end();
+  });
+
+  it('resolves circular holdings, lists path evidence and flags disagreements with QCC', async () => {
+    // Target ← A 60% + Z 40%; A ← X 50% + B 50%; B ← A 50% + Y 50% (A and B hold each other)
+    const targetId = await ingestQCCProfile(qcc('目标有限公司', {
+      shareholders: [holder('甲控股有限公司', '60%', 'corporate'), holder('赵六', '40%', 'individual')],
+      beneficialOwners: [{ name: '王五', percentage: '40%' }, { name: '钱七', percentage: '30%' }],
+      actualControllers: [{ name: '王五' }],
+    }));
+    await ingestQCCProfile(qcc('甲控股有限公司', {
+      shareholders: [holder('王五', '50%', 'individual'), holder('乙投资有限公司', '50%', 'corporate')],
+    }));
+    await ingestQCCProfile(qcc('乙投资有限公司', {
+      shareholders: [holder('甲控股有限公司', '50%', 'corporate'), holder('孙八', '50%', 'individual')],
+    }));
+
+    const result = (await calculateUBO(targetId))!;
+    const pct = Object.fromEntries(result.owners.map(o => [o.entity.name, o.effectivePct]));
+
+    // e(A) = 0.6 + 0.5·e(B), e(B) = 0.5·e(A) → e(A) = 0.8, e(B) = 0.4
+    expect(pct).toEqual({ '王五': 40, '赵六': 40, '孙八': 20 });
+    expect(result.owners.find(o => o.entity.name === '王五')).toMatchObject({ meets10: true, meets25: true });
+    expect(result.owners.find(o => o.entity.name === '孙八')?.paths[0].steps.map(s => s.ownershipPct)).toEqual([50, 50, 60]);
+    expect(result.cycles).toEqual([expect.arrayContaining(['甲控股有限公司', '乙投资有限公司'])]);
+    expect(result.unresolved).toEqual([]);
+
+    expect(result.disagreements).toEqual([
+      { type: 'not_supported', name: '钱七', computedPct: null, qccPct: 30 },
+      { type: 'missing_in_qcc', name: '赵六', computedPct: 40, qccPct: null },
+    ]);
+  });
+
+  it('reports corporate holders with unknown shareholders as unresolved', async () => {
+    const targetId = await ingestQCCProfile(qcc('丁有限公司', {
+      shareholders: [holder('Offshore Nominees Ltd', '70%', 'corporate'), holder('周九', '30%', 'individual')],
+    }));
+
+    const result = (await calculateUBO(targetId, { threshold: 25 }))!;
+
+    expect(result.owners.map(o => [o.entity.name, o.effectivePct])).toEqual([['周九', 30]]);
+    expect(result.unresolved.map(u => [u.entity.name, u.effectivePct])).toEqual([['Offshore Nominees Ltd', 70]]);
+  });
+});
@@ -0,0 +1,79 @@
+// src/timeline.ts
+// Finding chronology: when each incident was reported (source publication dates) and when it
+// happened (dates in the finding text), and the report's timeline section built from them.
+
+import type { ConsolidatedFinding, FindingDates } from './types.js';
+import { dateFromUrl, extractEventDates } from './extraction/dates.js';
+
+export const TIMELINE_SECTION_TITLE = 'Timeline';
+
+/**
+ * Reporting and event dates for a finding. Sources without a publication date fall back to a
+ * date in their URL; event dates come from the headline and summary.
+ */
+export function findingDates(text: string, sources: { url: string; publishedAt?: string | null }[]): FindingDates {
+  const reported = sources
+    .map(s => s.publishedAt || dateFromUrl(s.url))
+    .filter((d): d is string => !!d)
+    .sort();
+  return {
+    firstReported: reported[0] || null,
+    lastReported: reported[reported.length - 1] || null,
+    eventDates: extractEventDates(text),
+  };
+}
+
+/** Dates stored on a dd_findings row, or undefined for findings saved before they were recorded. */
+export function datesFromRow(row: { first_reported: string | null; last_reported: string | null; event_dates: string | null }): FindingDates | undefined {
+  if (!row.first_reported && !row.event_dates) return undefined;
+  return {
+    firstReported: row.first_reported,
+    lastReported: row.last_reported,
+    eventDates: row.event_dates ? JSON.parse(row.event_dates) : [],
+  };
+}
+
+// Where a finding sits on the timeline: its earliest event, else when it was first reported
+function timelineDate(dates: FindingDates | undefined): string | null {
+  return dates?.eventDates[0] || dates?.firstReported || null;
+}
+
+function reportedRange(dates: FindingDates): string {
+  if (!dates.firstReported) return '';
+  return dates.lastReported && dates.lastReported !== dates.firstReported
+    ? `${dates.firstReported} to ${dates.lastReported}`
+    : dates.firstReported;
+}
+
+const cellText = (s: string) => s.replace(/\|/g, '/').replace(/\s+/g, ' ').trim();
+
+/**
+ * Report section: the findings in chronological order, one table row each. Findings with no date
+ * at all are listed last. Null when there are no findings.
+ */
+export function formatTimelineSection(findings: ConsolidatedFinding[]): string | null {
+  if (findings.length === 0) return null;
+
+  const ordered = findings
+    .map((f, i) => ({ f, i, date: timelineDate(f.dates) }))
+    .sort((a, b) => {
+      if (a.date && b.date) return a.date.localeCompare(b.date) || a.i - b.i;
+      return a.date ? -1 : b.date ? 1 : a.i - b.i;
+    });
+
+  const rows = ordered.map(({ f }) => {
+    const dates = f.dates || { firstReported: null, lastReported: null, eventDates: [] };
+    return [dates.eventDates.join(', ') || 'Undated', f.headline, f.severity, reportedRange(dates)]
+      .map(cellText).join(' | ');
+  });
+
+  return [
+    TIMELINE_SECTION_TITLE,
+    '',
+    'Findings in order of the events they describe. Reported gives the publication dates of the earliest and latest sources.',
+    '',
+    '| Event dates | Finding | Severity | Reported |',
+    '| --- | --- | --- | --- |',
+    ...rows.map(r => `| ${r} |`),
+  ].join('\n');
+}
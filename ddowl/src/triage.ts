@@ -1,50 +1,7 @@
 // src/triage.ts
-import axios from 'axios';
 import { SubjectProfile } from './types.js';
-
-// LLM Configuration for Triage
-const DEEPSEEK_API_KEY = process.env.DEEPSEEK_API_KEY || '';
-
-interface LLMProvider {
-  name: string;
-  url: string;
-  model: string;
-  apiKey: string;
-  timeout: number;
-  isGemini?: boolean;
-}
-
-// Build provider list (only include configured providers)
-function getProviders(): LLMProvider[] {
-  const providers: LLMProvider[] = [];
-
-  if (DEEPSEEK_API_KEY) {
-    providers.push({
-      name: 'DeepSeek',
-      url: 'https://api.deepseek.com/v1/chat/completions',
-      model: 'deepseek-chat',
-      apiKey: DEEPSEEK_API_KEY,
-      timeout: 120000,
-    });
-  }
-
-  return providers;
-}
-
-// Check if error is content moderation related
-function isContentModerationError(error: any): boolean {
-  const errorMessage = error?.response?.data?.error?.message || error?.message || '';
-  const errorCode = error?.response?.data?.error?.code || '';
-
-  // DeepSeek content moderation
-  if (errorMessage.includes('Content Exists Risk')) return true;
-  if (errorCode === 'content_filter') return true;
-
-  // Rate limits should also trigger fallback
-  if (error?.response?.status === 429) return true;
-
-  return false;
-}
+import { completeLLM, type LLMCallHandler } from './llm/client.js';
+import { hasLLMProvider } from './llm/providers.js';
 
 export interface SearchResult {
   title: string;
@@ -65,56 +22,6 @@ export interface TriageOutput {
   green: TriageResult[];
 }
 
-interface LLMResponse {
-  text: string;
-  usage?: { prompt_tokens: number; completion_tokens: number };
-}
-
-// Helper to call Gemini API (different format from OpenAI-compatible APIs)
-async function callGeminiAPI(provider: LLMProvider, prompt: string): Promise<LLMResponse> {
-  const response = await axios.post(
-    `${provider.url}?key=${provider.apiKey}`,
-    {
-      contents: [{ parts: [{ text: prompt }] }],
-      generationConfig: { temperature: 0.1 },
-    },
-    {
-      headers: { 'Content-Type': 'application/json' },
-      timeout: provider.timeout,
-    }
-  );
-  return {
-    text: response.data.candidates?.[0]?.content?.parts?.[0]?.text || '',
-    usage: response.data.usageMetadata ? {
-      prompt_tokens: response.data.usageMetadata.promptTokenCount || 0,
-      completion_tokens: response.data.usageMetadata.candidatesTokenCount || 0,
-    } : undefined,
-  };
-}
-
-// Helper to call OpenAI-compatible APIs (DeepSeek)
-async function callOpenAICompatibleAPI(provider: LLMProvider, prompt: string): Promise<LLMResponse> {
-  const response = await axios.post(
-    provider.url,
-    {
-      model: provider.model,
-      messages: [{ role: 'user', content: prompt }],
-      temperature: 0.1,
-    },
-    {
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${provider.apiKey}`,
-      },
-      timeout: provider.timeout,
-    }
-  );
-  return {
-    text: response.data.choices?.[0]?.message?.content || '',
-    usage: response.data.usage,
-  };
-}
-
 export async function triageSearchResults(
   results: SearchResult[],
   subjectName: string
@@ -123,8 +30,7 @@ export async function triageSearchResults(
     return { red: [], yellow: [], green: [] };
   }
 
-  const providers = getProviders();
-  if (providers.length === 0) {
+  if (!hasLLMProvider('triage')) {
     return {
       red: [],
       yellow: results.map(r => ({ ...r, classification: 'YELLOW' as const, reason: 'no api keys configured' })),
@@ -189,40 +95,16 @@ Return JSON only:
   ]
 }`;
 
-  // Try each provider in order until one succeeds
+  // The triage route tries each configured provider in order until one succeeds
   let rawText = '';
   let lastError = '';
 
-  for (const provider of providers) {
-    console.log(`[PRE-SCREEN] Trying ${provider.name} (${provider.model})...`);
-
-    try {
-      const llmResponse = provider.isGemini
-        ? await callGeminiAPI(provider, prompt)
-        : await callOpenAICompatibleAPI(provider, prompt);
-      rawText = llmResponse.text;
-
-      console.log(`[PRE-SCREEN] ✓ ${provider.name} succeeded`);
-      break; // Success! Exit the loop
-
-    } catch (error: any) {
-      const errorMessage = error?.response?.data?.error?.message
-        || error?.response?.status
-        || error?.message
-        || 'unknown error';
-
-      console.error(`[PRE-SCREEN] ✗ ${provider.name} failed: ${errorMessage}`);
-      lastError = `${provider.name}: ${errorMessage}`;
-
-      // Check if we should try the next provider
-      if (isContentModerationError(error)) {
-        console.log(`[PRE-SCREEN] Content moderation error, trying next provider...`);
-        continue;
-      }
-
-      // For other errors (network, timeout), also try next provider
-      continue;
-    }
+  try {
+    const llmResponse = await completeLLM({ operation: 'triage', prompt, temperature: 0.1, timeout: 120000 });
+    rawText = llmResponse.text;
+    console.log(`[PRE-SCREEN] ✓ ${llmResponse.providerName} succeeded`);
+  } catch (error: any) {
+    lastError = error.message;
   }
 
   // If all providers failed
@@ -632,7 +514,7 @@ async function categorizeBatch(
   subjectName: string,
   batchOffset: number = 0,
   subjectProfile?: SubjectProfile | null,
-  onLLMCall?: (provider: string, operation: string, input: string, output: string, usage?: { prompt_tokens: number; completion_tokens: number }) => void
+  onLLMCall?: LLMCallHandler
 ): Promise<CategorizedOutput> {
   const output: CategorizedOutput = { red: [], amber: [], green: [] };
 
@@ -670,8 +552,7 @@ async function categorizeBatch(
     return output;
   }
 
-  const providers = getProviders();
-  if (providers.length === 0) {
+  if (!hasLLMProvider('triage')) {
     return {
       red: [],
       amber: relevant.map(r => ({ ...r, category: 'AMBER' as const, reason: 'no api keys configured' })),
@@ -753,22 +634,13 @@ Return JSON only:
 If no subject profile was provided above, omit entityMatch and entityReason fields.`;
 
   let rawText = '';
-  let lastUsage: { prompt_tokens: number; completion_tokens: number } | undefined;
-  for (const provider of providers) {
-    console.log(`[CATEGORIZE] Batch at offset ${batchOffset}: trying ${provider.name}...`);
-    try {
-      const llmResponse = provider.isGemini
-        ? await callGeminiAPI(provider, prompt)
-        : await callOpenAICompatibleAPI(provider, prompt);
-      rawText = llmResponse.text;
-      lastUsage = llmResponse.usage;
-      console.log(`[CATEGORIZE] ✓ ${provider.name} succeeded`);
-      onLLMCall?.(provider.name.toLowerCase(), 'triage', prompt, rawText, lastUsage);
-      break;
-    } catch (error: any) {
-      console.error(`[CATEGORIZE] ✗ ${provider.name} failed: ${error.message}`);
-      continue;
-    }
+  console.log(`[CATEGORIZE] Batch at offset ${batchOffset}...`);
+  try {
+    const llmResponse = await completeLLM({ operation: 'triage', prompt, temperature: 0.1, timeout: 120000, onLLMCall });
+    rawText = llmResponse.text;
+    console.log(`[CATEGORIZE] ✓ ${llmResponse.providerName} succeeded`);
+  } catch (error: any) {
+    console.error(`[CATEGORIZE] ✗ ${error.message}`);
   }
 
   if (!rawText) {
@@ -840,7 +712,7 @@ export async function categorizeAll(
   subjectProfile?: SubjectProfile | null,
   onBatchComplete?: (progress: BatchProgress) => void | Promise<void>,  // Allow async callbacks
   signal?: AbortSignal,  // For cross-instance abort on ownership loss
-  onLLMCall?: (provider: string, operation: string, input: string, output: string, usage?: { prompt_tokens: number; completion_tokens: number }) => void
+  onLLMCall?: LLMCallHandler
 ): Promise<CategorizedOutput> {
   if (results.length === 0) {
     return { red: [], amber: [], green: [] };
@@ -82,6 +82,7 @@ export interface RawFinding {
   matchConfidence?: 'strong' | 'possible' | 'weak';
   matchReasons?: string[];
   articleContent?: string;  // Cached article text for report generation
+  publishedAt?: string;     // Source publication date, YYYY-MM-DD (see extractPublicationDate)
 }
 
 // Consolidated finding after deduplication
@@ -98,6 +99,36 @@ export interface ConsolidatedFinding {
   articleContents?: { url: string; content: string }[];  // Cached article texts from source findings
   relatedLinks?: { url: string; title: string }[];  // Parked/duplicate articles (not counted in sourceCount)
   snippetBased?: boolean;  // True if finding is based on source metadata only (article content not accessible)
+  matchConfidence?: 'strong' | 'possible' | 'weak';  // Strongest subject match across the merged source findings
+  history?: FindingHistory;  // How earlier screenings of the subject judged this incident
+  lowCredibility?: boolean;  // Every source scores below the credibility threshold (see source-credibility.ts)
+  evidence?: ArchivedSource[];  // Archived copies of the sources, set when the report is saved
+  dates?: FindingDates;         // Structured reporting and event dates (see timeline.ts)
+}
+
+// When an incident was reported and when it happened
+export interface FindingDates {
+  firstReported: string | null;  // Earliest source publication date, YYYY-MM-DD
+  lastReported: string | null;   // Latest source publication date, YYYY-MM-DD
+  eventDates: string[];          // Dates the finding mentions, oldest first: YYYY-MM-DD, YYYY-MM or YYYY
+}
+
+// A source's archived copy in the evidence store (see evidence-store.ts)
+export interface ArchivedSource {
+  url: string;
+  evidenceId: number;   // dd_evidence row
+  hash: string;         // Content hash of the archived page (or of the cached text)
+  capturedAt: string;
+  captureMethod: 'live' | 'session_text';
+}
+
+// Analyst verdict on the same incident in an earlier report (see finding-memory.ts)
+export interface FindingHistory {
+  status: 'new' | 'previously_reported' | 'previously_wrong';
+  reportId?: number;
+  screenedAt?: string;
+  wrongReason?: string;
+  originalSeverity?: 'RED' | 'AMBER';  // Set when a previously-WRONG finding was demoted to REVIEW
 }
 
 // Subject profile built progressively during screening
@@ -144,8 +175,9 @@ export interface MatchConfidence {
 
 // Cost tracking per LLM call
 export interface CostEstimate {
-  provider: 'deepseek' | 'kimi' | 'gemini';
-  operation: 'triage' | 'quickscan' | 'analysis' | 'consolidation' | 'profile' | 'subsidiary';
+  provider: 'deepseek' | 'kimi' | 'gemini' | 'local' | 'mock';
+  operation: 'triage' | 'quickscan' | 'analysis' | 'consolidation' | 'profile' | 'subsidiary'
+    | 'clustering' | 'dedupe' | 'report' | 'variants' | 'agent';
   inputTokens: number;
   outputTokens: number;
   estimatedCostUSD: number;
@@ -220,7 +252,7 @@ export interface BenchmarkResult {
 // Funnel tracing types
 export interface FunnelPhaseSnapshot {
   phase: string;
-  articles: { url: string; title: string; snippet?: string; clusterId?: string; clusterLabel?: string; classification?: string; eliminationRule?: string; parked?: boolean }[];
+  articles: { url: string; title: string; snippet?: string; clusterId?: string; clusterLabel?: string; classification?: string; eliminationRule?: string; parked?: boolean; eventType?: string }[];
 }
 
 export interface FunnelSnapshot {
@@ -0,0 +1,288 @@
+/**
+ * Ultimate beneficial owner calculation over the entity graph
+ *
+ * Walks shareholder edges upstream from a company, solves effective ownership for every
+ * holder (circular holdings included), and reports natural persons at or above the
+ * threshold with the chains that give them their stake. The result is checked against
+ * what QCC itself lists as beneficial owners and actual controllers.
+ */
+
+import {
+  getEntity, getIncomingRelationships,
+  type EntityRow, type PathStep, type RelationshipRow,
+} from './graph-db.js';
+
+// --- Types ---
+
+export interface UBOPath {
+  steps: PathStep[];   // Owner first, ending at the target
+  pct: number;         // Product of the stakes along this chain
+}
+
+export interface UBOOwner {
+  entity: EntityRow;
+  effectivePct: number;
+  meets10: boolean;
+  meets25: boolean;
+  paths: UBOPath[];
+}
+
+export interface UBOUnresolved {
+  entity: EntityRow;   // Corporate holder with no known shareholders — a UBO may sit behind it
+  effectivePct: number;
+}
+
+export type UBODisagreementType =
+  | 'missing_in_qcc'         // We compute ≥25% but QCC does not list them as a beneficial owner
+  | 'not_supported'          // QCC lists a beneficial owner the shareholding chains do not support
+  | 'percentage_mismatch'    // Both agree on the person but not the stake
+  | 'controller_not_owner';  // QCC's actual controller holds no qualifying stake (control by other means?)
+
+export interface UBODisagreement {
+  type: UBODisagreementType;
+  name: string;
+  computedPct: number | null;
+  qccPct: number | null;
+}
+
+export interface UBOResult {
+  target: EntityRow;
+  threshold: number;
+  owners: UBOOwner[];
+  unresolved: UBOUnresolved[];
+  cycles: string[][];        // Entity names in each circular holding group
+  disagreements: UBODisagreement[];
+}
+
+export interface UBOOptions {
+  threshold?: number;        // Minimum effective ownership (%) to report, default 10
+  maxDepth?: number;         // Layers of shareholding to walk, default 10
+}
+
+// Beneficial-owner register threshold used for the QCC comparison
+const UBO_REGISTER_PCT = 25;
+// Allowed gap (percentage points) between our stake and QCC's before flagging
+const PCT_TOLERANCE = 5;
+// Chains listed per owner as evidence
+const MAX_PATHS_PER_OWNER = 20;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// --- Ownership solving ---
+
+/**
+ * Effective fraction of the target held by each node: e(target) = 1 and
+ * e(x) = Σ stake(x→y) · e(y). Circular holdings make this a linear system, solved by
+ * fixed-point iteration — it converges because every cycle's product of stakes is below 1.
+ */
+export function solveEffectiveOwnership(targetId: number, edges: RelationshipRow[]): Map<number, number> {
+  const outgoing = new Map<number, { to: number; w: number }[]>();
+  const nodes = new Set<number>([targetId]);
+  for (const e of edges) {
+    if (e.ownership_pct === null || e.from_id === targetId) continue;
+    nodes.add(e.from_id);
+    nodes.add(e.to_id);
+    if (!outgoing.has(e.from_id)) outgoing.set(e.from_id, []);
+    outgoing.get(e.from_id)!.push({ to: e.to_id, w: e.ownership_pct / 100 });
+  }
+
+  let eff = new Map<number, number>([...nodes].map(id => [id, id === targetId ? 1 : 0]));
+  for (let iter = 0; iter < 1000; iter++) {
+    const next = new Map<number, number>([[targetId, 1]]);
+    let delta = 0;
+    for (const id of nodes) {
+      if (id === targetId) continue;
+      const value = (outgoing.get(id) || []).reduce((sum, o) => sum + o.w * (eff.get(o.to) || 0), 0);
+      next.set(id, value);
+      delta = Math.max(delta, Math.abs(value - (eff.get(id) || 0)));
+    }
+    eff = next;
+    if (delta < 1e-9) break;
+  }
+  return eff;
+}
+
+/** Strongly connected groups of more than one entity (or self-holdings) — the circular holdings. */
+export function findOwnershipCycles(edges: RelationshipRow[]): number[][] {
+  const adj = new Map<number, number[]>();
+  for (const e of edges) {
+    if (!adj.has(e.from_id)) adj.set(e.from_id, []);
+    adj.get(e.from_id)!.push(e.to_id);
+  }
+
+  // Tarjan's algorithm
+  let index = 0;
+  const indices = new Map<number, number>();
+  const lowlink = new Map<number, number>();
+  const stack: number[] = [];
+  const onStack = new Set<number>();
+  const cycles: number[][] = [];
+
+  const visit = (v: number) => {
+    indices.set(v, index);
+    lowlink.set(v, index);
+    index++;
+    stack.push(v);
+    onStack.add(v);
+    for (const w of adj.get(v) || []) {
+      if (!indices.has(w)) {
+        visit(w);
+        lowlink.set(v, Math.min(lowlink.get(v)!, lowlink.get(w)!));
+      } else if (onStack.has(w)) {
+        lowlink.set(v, Math.min(lowlink.get(v)!, indices.get(w)!));
+      }
+    }
+    if (lowlink.get(v) === indices.get(v)) {
+      const group: number[] = [];
+      let w: number;
+      do {
+        w = stack.pop()!;
+        onStack.delete(w);
+        group.push(w);
+      } while (w !== v);
+      if (group.length > 1 || (adj.get(v) || []).includes(v)) cycles.push(group.sort((a, b) => a - b));
+    }
+  };
+
+  for (const v of adj.keys()) {
+    if (!indices.has(v)) visit(v);
+  }
+  return cycles;
+}
+
+/** Simple (non-repeating) shareholding chains from an owner down to the target. */
+function findChains(ownerId: number, targetId: number, edges: RelationshipRow[], maxDepth: number): UBOPath[] {
+  const outgoing = new Map<number, RelationshipRow[]>();
+  for (const e of edges) {
+    if (e.ownership_pct === null) continue;
+    if (!outgoing.has(e.from_id)) outgoing.set(e.from_id, []);
+    outgoing.get(e.from_id)!.push(e);
+  }
+
+  const chains: UBOPath[] = [];
+  const walk = (node: number, steps: PathStep[], visited: Set<number>) => {
+    if (chains.length >= MAX_PATHS_PER_OWNER) return;
+    if (node === targetId) {
+      chains.push({ steps, pct: round2(steps.reduce((acc, s) => acc * (s.ownershipPct! / 100), 1) * 100) });
+      return;
+    }
+    if (steps.length >= maxDepth) return;
+    for (const e of outgoing.get(node) || []) {
+      if (visited.has(e.to_id)) continue;
+      visited.add(e.to_id);
+      walk(e.to_id, [...steps, { fromId: e.from_id, toId: e.to_id, role: e.role, ownershipPct: e.ownership_pct }], visited);
+      visited.delete(e.to_id);
+    }
+  };
+  walk(ownerId, [], new Set([ownerId]));
+  return chains.sort((a, b) => b.pct - a.pct);
+}
+
+// --- QCC comparison ---
+
+function compareWithQCC(
+  owners: { entity: EntityRow; effectivePct: number }[],
+  qccOwners: { entity: EntityRow; pct: number | null }[],
+  qccControllers: EntityRow[],
+  threshold: number,
+): UBODisagreement[] {
+  const disagreements: UBODisagreement[] = [];
+  const sameEntity = (a: EntityRow, b: EntityRow) => a.id === b.id || (a.kind === b.kind && a.name_key === b.name_key);
+
+  for (const q of qccOwners) {
+    const ours = owners.find(o => sameEntity(o.entity, q.entity));
+    if (!ours || ours.effectivePct < threshold) {
+      disagreements.push({ type: 'not_supported', name: q.entity.name, computedPct: ours?.effectivePct ?? null, qccPct: q.pct });
+    } else if (q.pct !== null && Math.abs(q.pct - ours.effectivePct) > PCT_TOLERANCE) {
+      disagreements.push({ type: 'percentage_mismatch', name: q.entity.name, computedPct: ours.effectivePct, qccPct: q.pct });
+    }
+  }
+  for (const o of owners) {
+    if (o.effectivePct >= UBO_REGISTER_PCT && !qccOwners.some(q => sameEntity(o.entity, q.entity))) {
+      disagreements.push({ type: 'missing_in_qcc', name: o.entity.name, computedPct: o.effectivePct, qccPct: null });
+    }
+  }
+  for (const c of qccControllers) {
+    const ours = owners.find(o => sameEntity(o.entity, c));
+    if (!ours || ours.effectivePct < threshold) {
+      disagreements.push({ type: 'controller_not_owner', name: c.name, computedPct: ours?.effectivePct ?? null, qccPct: null });
+    }
+  }
+  return disagreements;
+}
+
+// --- Entry point ---
+
+/**
+ * Compute the UBOs of a company from the shareholder chains in the entity graph.
+ * Returns null if the entity does not exist.
+ */
+export async function calculateUBO(targetId: number, options: UBOOptions = {}): Promise<UBOResult | null> {
+  const threshold = options.threshold ?? 10;
+  const maxDepth = options.maxDepth ?? 10;
+  const target = await getEntity(targetId);
+  if (!target) return null;
+
+  // Collect every shareholder edge upstream of the target
+  const edgeMap = new Map<number, RelationshipRow>();
+  const seen = new Set<number>([targetId]);
+  let frontier = [targetId];
+  for (let depth = 0; depth < maxDepth && frontier.length > 0; depth++) {
+    const edges = await getIncomingRelationships(frontier, ['shareholder']);
+    const next: number[] = [];
+    for (const e of edges) {
+      edgeMap.set(e.id, e);
+      if (!seen.has(e.from_id)) { seen.add(e.from_id); next.push(e.from_id); }
+    }
+    frontier = next;
+  }
+  const edges = [...edgeMap.values()];
+
+  const eff = solveEffectiveOwnership(targetId, edges);
+  const entities = new Map<number, EntityRow>();
+  for (const id of seen) {
+    const entity = await getEntity(id);
+    if (entity) entities.set(id, entity);
+  }
+
+  const people = [...eff.entries()]
+    .filter(([id]) => id !== targetId && entities.get(id)?.kind === 'person')
+    .map(([id, value]) => ({ entity: entities.get(id)!, effectivePct: round2(value * 100) }));
+
+  const owners: UBOOwner[] = people
+    .filter(p => p.effectivePct >= threshold)
+    .sort((a, b) => b.effectivePct - a.effectivePct)
+    .map(p => ({
+      ...p,
+      meets10: p.effectivePct >= 10,
+      meets25: p.effectivePct >= UBO_REGISTER_PCT,
+      paths: findChains(p.entity.id, targetId, edges, maxDepth),
+    }));
+
+  const holdersWithShareholders = new Set(edges.map(e => e.to_id));
+  const unresolved: UBOUnresolved[] = [...eff.entries()]
+    .filter(([id, value]) => id !== targetId && entities.get(id)?.kind === 'company'
+      && !holdersWithShareholders.has(id) && value * 100 >= threshold)
+    .map(([id, value]) => ({ entity: entities.get(id)!, effectivePct: round2(value * 100) }))
+    .sort((a, b) => b.effectivePct - a.effectivePct);
+
+  const qccEdges = (await getIncomingRelationships([targetId], ['beneficial_owner', 'actual_controller']))
+    .filter(e => e.source === 'qcc');
+  const qccOwners: { entity: EntityRow; pct: number | null }[] = [];
+  const qccControllers: EntityRow[] = [];
+  for (const e of qccEdges) {
+    const entity = entities.get(e.from_id) || await getEntity(e.from_id);
+    if (!entity) continue;
+    if (e.role === 'beneficial_owner') qccOwners.push({ entity, pct: e.ownership_pct });
+    else qccControllers.push(entity);
+  }
+
+  return {
+    target,
+    threshold,
+    owners,
+    unresolved,
+    cycles: findOwnershipCycles(edges).map(group => group.map(id => entities.get(id)?.name || String(id))),
+    disagreements: compareWithQCC(people, qccOwners, qccControllers, threshold),
+  };
+}
@@ -10,9 +10,9 @@
 
 // @ts-ignore - opencc-js doesn't have TypeScript types
 import * as OpenCC from 'opencc-js';
-import axios from 'axios';
-
-const DEEPSEEK_API_KEY = process.env.DEEPSEEK_API_KEY || '';
+import { pinyin } from 'pinyin-pro';
+import { completeLLM } from '../llm/client.js';
+import { hasLLMProvider } from '../llm/providers.js';
 
 // Create converter for Simplified → Traditional (Taiwan standard)
 const s2tConverter = OpenCC.Converter({ from: 'cn', to: 'tw' });
@@ -79,6 +79,19 @@ export function getChineseVariants(name: string): string[] {
   return Array.from(variants);
 }
 
+/**
+ * Toneless Hanyu Pinyin for a Chinese name, one capitalised syllable per character
+ * ("許家印" → "Xu Jia Yin"). Personal names read the first character as a surname (单 → Shan).
+ * Non-Chinese characters are dropped; returns '' when nothing is left.
+ */
+export function toPinyin(name: string, personalName = true): string {
+  if (!name) return '';
+  return pinyin(name, { toneType: 'none', type: 'array', nonZh: 'removed', surname: personalName ? 'head' : 'off' })
+    .filter(s => /^[a-zü]+$/i.test(s))
+    .map(s => s.charAt(0).toUpperCase() + s.slice(1).replace('ü', 'v'))
+    .join(' ');
+}
+
 /**
  * Use DeepSeek LLM to generate intelligent Chinese name variants
  * DeepSeek understands surname-specific character usage (e.g., 钟→鍾 for surnames)
@@ -87,21 +100,19 @@ export function getChineseVariants(name: string): string[] {
 export async function getChineseVariantsLLM(name: string): Promise<string[]> {
   if (!name) return [];
 
-  // Fallback if no API key
-  if (!DEEPSEEK_API_KEY) {
-    console.log('[chinese] No DeepSeek API key, using OpenCC fallback');
+  // Fallback if no provider is configured for name variants
+  if (!hasLLMProvider('variants')) {
+    console.log('[chinese] No LLM provider for variants, using OpenCC fallback');
     return getChineseVariants(name);
   }
 
   try {
-    const response = await axios.post(
-      'https://api.deepseek.com/v1/chat/completions',
-      {
-        model: 'deepseek-chat',
-        messages: [
-          {
-            role: 'system',
-            content: `You are a Chinese language expert. Generate all realistic simplified and traditional Chinese variants for a person's name.
+    const response = await completeLLM({
+      operation: 'variants',
+      messages: [
+        {
+          role: 'system',
+          content: `You are a Chinese language expert. Generate all realistic simplified and traditional Chinese variants for a person's name.
 
 Rules:
 1. Include the fully simplified version (mainland China style)
@@ -117,27 +128,20 @@ Output: ["钟乐晖", "鐘樂暉", "鍾樂暉"]
 Example:
 Input: 范冰冰
 Output: ["范冰冰", "范冰冰"]  (surname 范 stays 范 in traditional for this surname)`
-          },
-          {
-            role: 'user',
-            content: name
-          }
-        ],
-        temperature: 0,
-        max_tokens: 200,
-      },
-      {
-        headers: {
-          'Authorization': `Bearer ${DEEPSEEK_API_KEY}`,
-          'Content-Type': 'application/json',
         },
-        timeout: 10000,
-      }
-    );
-
-    const content = response.data.choices?.[0]?.message?.content?.trim();
+        {
+          role: 'user',
+          content: name
+        }
+      ],
+      temperature: 0,
+      maxTokens: 200,
+      timeout: 10000,
+    });
+
+    const content = response.text.trim();
     if (!content) {
-      console.log('[chinese] DeepSeek returned empty, using fallback');
+      console.log('[chinese] LLM returned empty, using fallback');
       return getChineseVariants(name);
     }
 
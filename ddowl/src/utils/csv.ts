@@ -0,0 +1,46 @@
+/**
+ * CSV parsing for data files loaded from disk (sanctions lists, PEP datasets)
+ */
+
+/** RFC 4180 CSV — quoted fields may contain commas, quotes and newlines. */
+export function parseCSV(input: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const s = input.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < s.length; i++) {
+    const char = s[i];
+    if (inQuotes) {
+      if (char === '"' && s[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') inQuotes = false;
+      else field += char;
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && s[i + 1] === '\n') i++;
+      row.push(field);
+      if (row.some(f => f !== '')) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  if (row.some(f => f !== '')) rows.push(row);
+  return rows;
+}
+
+// Rows as header → value records (whitespace collapsed), starting at the first row containing `headerMarker`
+export function csvRecords(input: string, headerMarker: string): Record<string, string>[] {
+  const rows = parseCSV(input);
+  const headerIndex = rows.findIndex(r => r.some(f => f.trim() === headerMarker));
+  if (headerIndex === -1) throw new Error(`CSV header "${headerMarker}" not found`);
+  const headers = rows[headerIndex].map(h => h.trim());
+  return rows.slice(headerIndex + 1).map(r => Object.fromEntries(headers.map((h, i) => [h, (r[i] || '').replace(/\s+/g, ' ').trim()])));
+}
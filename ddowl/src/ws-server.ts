@@ -16,6 +16,7 @@ import {
   PuppeteerStatusMessage,
 } from './qcc-types.js';
 import { savePerson, saveCompany, queueUrl, getQueueStats } from './database.js';
+import { ingestQCCProfile } from './graph-db.js';
 import { connectToChrome, startCrawling, stopCrawling, getCrawlerStatus, setWsConnection } from './crawler.js';
 import {
   startPersonResearch,
@@ -209,6 +210,7 @@ export class DDOwlWSServer {
       } else if (data.pageType === 'company_profile') {
         saveCompany(data);
         console.log('Saved company to database:', data.companyName);
+        ingestQCCProfile(data).catch(err => console.error('[GRAPH] Failed to ingest QCC profile:', err));
         // Queue linked profiles (shareholders, directors, investments)
         data.linkedProfiles?.forEach((p: any) => {
           if (p.url) {